@@ -1,6 +1,8 @@
 export interface GitRunOptions {
     readonly env?: Readonly<Record<string, string>>;
     readonly signal?: AbortSignal;
+    /** Streams stdout and stderr chunks while the command runs; the resolved value is still the full stdout. */
+    readonly onOutput?: (chunk: string) => void;
 }
 
 export interface GitBackend {
@@ -1,7 +1,15 @@
-import type { GitCommit, GitFileChange } from '@core/git/domain/git-commit';
+import type { GitCommit, GitFileChange, GitFileRevision } from '@core/git/domain/git-commit';
 import type { Page, PageRequest } from '@core/git/domain/page';
 import type { GitBranch, GitStash, GitStatus, GitTag } from '@core/git/domain/git-status';
 import type { GitSubmodule, GitWorktree } from '@core/git/domain/git-worktree';
+import type { GitReflogEntry } from '@core/git/domain/git-reflog';
+import type { GitBisectState } from '@core/git/domain/git-bisect';
+import type { GitRebaseBackup } from '@core/git/domain/git-rebase-backup';
+import type { GitRangeDiffPair } from '@core/git/domain/git-range-diff';
+import type { GitSigningConfig } from '@core/git/domain/git-signature';
+import type { GitHooks } from '@core/git/domain/git-hooks';
+import type { GitNote } from '@core/git/domain/git-note';
+import type { GitIgnoreEdit, GitIgnorePatternScope, GitIgnoreRule, GitIgnoreTarget } from '@core/git/domain/git-ignore';
 
 export interface CommitGraphQuery {
     readonly search?: string;
@@ -54,6 +62,15 @@ export interface PatchApplyOptions {
 export interface CommitOptions {
     readonly signoff?: boolean;
     readonly allowEmpty?: boolean;
+    /** Signs (`--gpg-sign`) or refuses to sign (`--no-gpg-sign`); unset follows `commit.gpgSign`. */
+    readonly sign?: boolean;
+    /** Skips the `pre-commit` and `commit-msg` hooks (`--no-verify`). */
+    readonly noVerify?: boolean;
+}
+
+export interface TagOptions {
+    /** Creates a signed annotated tag (`-s`, needs a message) or refuses to sign (`--no-sign`); unset follows `tag.gpgSign`. */
+    readonly sign?: boolean;
 }
 
 export interface StashOptions {
@@ -80,6 +97,8 @@ export interface RebaseOptions {
     readonly rebaseMerges?: boolean;
     readonly onto?: string;
     readonly editorEnv?: Readonly<Record<string, string>>;
+    /** Signs (`--gpg-sign`) or refuses to sign (`--no-gpg-sign`) the rebased commits; unset follows `commit.gpgSign`. */
+    readonly sign?: boolean;
 }
 
 export interface RebaseContinuationOptions {
@@ -88,11 +107,17 @@ export interface RebaseContinuationOptions {
 
 export interface CherryPickOptions {
     readonly noCommit?: boolean;
+    /** Appends `(cherry picked from commit …)` to each message (`-x`). */
+    readonly recordOrigin?: boolean;
+    /** 1-based parent that merge commits are replayed against (`-m`); non-merge commits ignore it. */
+    readonly mainline?: number;
 }
 
 export interface RevertOptions {
     readonly noCommit?: boolean;
     readonly noEdit?: boolean;
+    /** 1-based parent that merge commits are reverted against (`-m`); non-merge commits ignore it. */
+    readonly mainline?: number;
 }
 
 export type ResetMode = 'soft' | 'mixed' | 'hard';
@@ -100,6 +125,8 @@ export type ResetMode = 'soft' | 'mixed' | 'hard';
 export interface CleanOptions {
     readonly directories?: boolean;
     readonly force?: boolean;
+    /** Also remove ignored files from `cleanUntracked` and `previewClean` (`git clean -x`). */
+    readonly ignored?: boolean;
 }
 
 export interface PullOptions {
@@ -136,7 +163,7 @@ export interface GitFileHistoryOperations {
     getFileHistory(path: string, query: CommitGraphQuery, pageRequest: PageRequest, signal?: AbortSignal): Promise<Page<GitCommit>>;
     getFileSelectionHistory(path: string, selection: FileSelection, query: CommitGraphQuery, pageRequest: PageRequest, signal?: AbortSignal): Promise<Page<GitCommit>>;
     getFileAtRevision(path: string, revision: string, signal?: AbortSignal): Promise<string>;
-    getFileRenameHistory(path: string, pageRequest: PageRequest, signal?: AbortSignal): Promise<Page<GitFileChange>>;
+    getFileRenameHistory(path: string, pageRequest: PageRequest, signal?: AbortSignal): Promise<Page<GitFileRevision>>;
 }
 
 export interface GitBlameOperations {
@@ -151,6 +178,8 @@ export interface GitCompareOperations {
     compareWithWorkingTree(baseRef: string, worktree: string, options: RefCompareOptions, signal?: AbortSignal): Promise<readonly GitFileChange[]>;
     compareFiles(baseRef: string, headRef: string, path: string, signal?: AbortSignal): Promise<string>;
     listChangedFiles(baseRef: string, headRef: string, pageRequest: PageRequest, signal?: AbortSignal): Promise<Page<GitFileChange>>;
+    /** Pairs the commits of two `base..tip` ranges, e.g. a branch before and after a rebase. */
+    rangeDiff(oldRange: string, newRange: string, signal?: AbortSignal): Promise<readonly GitRangeDiffPair[]>;
 }
 
 export interface GitReferenceOperations {
@@ -160,7 +189,15 @@ export interface GitReferenceOperations {
     listRemotes(signal?: AbortSignal): Promise<readonly string[]>;
     resolveRef(ref: string, signal?: AbortSignal): Promise<string>;
     updateRef(ref: string, newValue: string, signal?: AbortSignal): Promise<void>;
+    deleteRef(ref: string, signal?: AbortSignal): Promise<void>;
+    /** Backups written by Visual Rebase before it rewrote a branch, newest first. */
+    listRebaseBackups(signal?: AbortSignal): Promise<readonly GitRebaseBackup[]>;
     getUserName(signal?: AbortSignal): Promise<string>;
+    getSigningConfig(signal?: AbortSignal): Promise<GitSigningConfig>;
+    /** Contents of the `commit.template` file; empty when none is configured. */
+    getCommitTemplate(signal?: AbortSignal): Promise<string>;
+    /** The hooks directory, honoring `core.hooksPath`, and the hooks installed in it. */
+    getHooks(signal?: AbortSignal): Promise<GitHooks>;
     getUpstreamBranch(branch: string, signal?: AbortSignal): Promise<string | undefined>;
 }
 
@@ -173,10 +210,23 @@ export interface GitBranchOperations {
 }
 
 export interface GitTagOperations {
-    createTag(name: string, target: string, message: string | undefined, signal?: AbortSignal): Promise<void>;
+    createTag(name: string, target: string, message: string | undefined, options: TagOptions, signal?: AbortSignal): Promise<void>;
     deleteTag(name: string, signal?: AbortSignal): Promise<void>;
 }
 
+/** Commit notes; every ref argument is a full notes ref such as `refs/notes/commits`. */
+export interface GitNotesOperations {
+    listNotesRefs(signal?: AbortSignal): Promise<readonly string[]>;
+    /** Returns the note `commit` carries under each notes ref, skipping refs without one. */
+    getCommitNotes(commit: string, signal?: AbortSignal): Promise<readonly GitNote[]>;
+    /** Adds or replaces the note of `commit` under `ref`. */
+    setCommitNote(commit: string, message: string, ref: string, signal?: AbortSignal): Promise<void>;
+    removeCommitNote(commit: string, ref: string, signal?: AbortSignal): Promise<void>;
+    pushNotesRef(remote: string, ref: string, signal?: AbortSignal): Promise<void>;
+    /** Fast-forwards the local `ref` to the remote one; diverged notes are rejected rather than overwritten. */
+    fetchNotesRef(remote: string, ref: string, signal?: AbortSignal): Promise<void>;
+}
+
 export interface GitFetchOperations {
     fetch(remote: string, options: FetchOptions, signal?: AbortSignal): Promise<void>;
     fetchAll(options: FetchOptions, signal?: AbortSignal): Promise<void>;
@@ -215,13 +265,40 @@ export interface GitStatusOperations {
     getIgnoredFiles(pageRequest: PageRequest, signal?: AbortSignal): Promise<Page<string>>;
 }
 
+export interface GitIgnoreOperations {
+    /** Returns the exclude rule that decides whether `path` is ignored, or undefined when no rule matches. */
+    explainIgnore(path: string, signal?: AbortSignal): Promise<GitIgnoreRule | undefined>;
+    addIgnorePattern(path: string, scope: GitIgnorePatternScope, target: GitIgnoreTarget, signal?: AbortSignal): Promise<GitIgnoreEdit>;
+}
+
+/** Git LFS reads and fetches; attribute lookups and filtered reads work before git-lfs is installed. */
+export interface GitLfsOperations {
+    /** Returns the subset of `paths` whose `filter` attribute is `lfs`. */
+    getLfsTrackedPaths(paths: readonly string[], signal?: AbortSignal): Promise<readonly string[]>;
+    /** Reads `path` at `revision` through its checkout filters, so LFS pointers come back as the stored content. */
+    getLfsFileAtRevision(path: string, revision: string, signal?: AbortSignal): Promise<string>;
+    /** Downloads the LFS objects of the current checkout from `remote`, or the default LFS remote. */
+    fetchLfsObjects(remote: string | undefined, signal?: AbortSignal): Promise<void>;
+}
+
+export interface GitLfsFileOperations {
+    getLfsTrackedPaths(paths: readonly string[], signal?: AbortSignal): Promise<readonly string[]>;
+    getLfsFileAtRevision(path: string, revision: string, signal?: AbortSignal): Promise<string>;
+    /** Reads the staged `path` through its checkout filters. */
+    getLfsFileFromIndex(path: string, signal?: AbortSignal): Promise<string>;
+    lockLfsFile(path: string, signal?: AbortSignal): Promise<void>;
+    /** `force` releases a lock held by another user. */
+    unlockLfsFile(path: string, force: boolean, signal?: AbortSignal): Promise<void>;
+}
+
 export interface GitIndexOperations {
     getFileFromIndex(path: string, signal?: AbortSignal): Promise<string>;
     getConflictStages(path: string, signal?: AbortSignal): Promise<ConflictStageContents>;
     stage(paths: readonly string[], signal?: AbortSignal): Promise<void>;
     stageAll(signal?: AbortSignal): Promise<void>;
+    /** Applies single-file patches (see `buildPartialPatch`) to the index. */
     stageHunks(hunks: readonly string[], signal?: AbortSignal): Promise<void>;
-    stageLines(selection: FileSelection, signal?: AbortSignal): Promise<void>;
+    stageLines(path: string, selection: FileSelection, signal?: AbortSignal): Promise<void>;
     unstage(paths: readonly string[], signal?: AbortSignal): Promise<void>;
     unstageAll(signal?: AbortSignal): Promise<void>;
     unstageHunks(hunks: readonly string[], signal?: AbortSignal): Promise<void>;
@@ -262,6 +339,7 @@ export interface GitStashOperations {
     dropStash(stash: string, signal?: AbortSignal): Promise<void>;
     clearStashes(signal?: AbortSignal): Promise<void>;
     branchFromStash(stash: string, branchName: string, signal?: AbortSignal): Promise<void>;
+    storeStash(commit: string, message: string, signal?: AbortSignal): Promise<void>;
 }
 
 export interface GitCheckoutOperations {
@@ -300,16 +378,30 @@ export interface GitInteractiveRebaseOperations {
 }
 
 export interface GitCherryPickRevertOperations {
-    cherryPick(commit: string, options: CherryPickOptions, signal?: AbortSignal): Promise<void>;
+    /** Applies `commits` in the given order as one sequence; a conflict stops it with the rest still queued. */
+    cherryPick(commits: readonly string[], options: CherryPickOptions, signal?: AbortSignal): Promise<void>;
     continueCherryPick(signal?: AbortSignal): Promise<void>;
     abortCherryPick(signal?: AbortSignal): Promise<void>;
     skipCherryPick(signal?: AbortSignal): Promise<void>;
-    revertCommit(commit: string, options: RevertOptions, signal?: AbortSignal): Promise<void>;
+    /** Reverts `commits` in the given order as one sequence; a conflict stops it with the rest still queued. */
+    revertCommit(commits: readonly string[], options: RevertOptions, signal?: AbortSignal): Promise<void>;
     continueRevert(signal?: AbortSignal): Promise<void>;
     abortRevert(signal?: AbortSignal): Promise<void>;
     skipRevert(signal?: AbortSignal): Promise<void>;
 }
 
+export interface GitBisectOperations {
+    /** Resolves to `undefined` when the worktree is not bisecting. */
+    getBisectState(signal?: AbortSignal): Promise<GitBisectState | undefined>;
+    bisectStart(bad: string | undefined, good: readonly string[], signal?: AbortSignal): Promise<void>;
+    bisectGood(commit: string | undefined, signal?: AbortSignal): Promise<void>;
+    bisectBad(commit: string | undefined, signal?: AbortSignal): Promise<void>;
+    bisectSkip(commit: string | undefined, signal?: AbortSignal): Promise<void>;
+    bisectReset(signal?: AbortSignal): Promise<void>;
+    /** Runs `git bisect run` through the shell; `onOutput` receives stdout and stderr as they arrive. */
+    bisectRun(command: string, onOutput: (chunk: string) => void, signal?: AbortSignal): Promise<void>;
+}
+
 export interface GitResetUndoOperations {
     resetSoft(ref: string, signal?: AbortSignal): Promise<void>;
     resetMixed(ref: string, signal?: AbortSignal): Promise<void>;
@@ -319,7 +411,7 @@ export interface GitResetUndoOperations {
     undoLastCommit(mode: ResetMode, signal?: AbortSignal): Promise<void>;
     undoAmend(previousHead: string, signal?: AbortSignal): Promise<void>;
     undoCheckout(previousHead: string, signal?: AbortSignal): Promise<void>;
-    getReflog(pageRequest: PageRequest, signal?: AbortSignal): Promise<Page<string>>;
+    getReflog(ref: string, pageRequest: PageRequest, signal?: AbortSignal): Promise<Page<GitReflogEntry>>;
     restoreFromReflog(entry: string, mode: ResetMode, signal?: AbortSignal): Promise<void>;
 }
 
@@ -23,13 +23,19 @@ export const SEMANTIC_GIT_OPERATIONS = [
     'compareWithWorkingTree',
     'compareFiles',
     'listChangedFiles',
+    'rangeDiff',
     'listBranches',
     'listRemoteBranches',
     'listTags',
     'listRemotes',
     'resolveRef',
     'updateRef',
+    'deleteRef',
+    'listRebaseBackups',
     'getUserName',
+    'getSigningConfig',
+    'getCommitTemplate',
+    'getHooks',
     'getUpstreamBranch',
     'createBranch',
     'renameBranch',
@@ -64,6 +70,20 @@ export const SEMANTIC_GIT_OPERATIONS = [
     'getStatus',
     'getUntrackedFiles',
     'getIgnoredFiles',
+    'explainIgnore',
+    'addIgnorePattern',
+    'getLfsTrackedPaths',
+    'getLfsFileAtRevision',
+    'getLfsFileFromIndex',
+    'lockLfsFile',
+    'unlockLfsFile',
+    'fetchLfsObjects',
+    'listNotesRefs',
+    'getCommitNotes',
+    'setCommitNote',
+    'removeCommitNote',
+    'pushNotesRef',
+    'fetchNotesRef',
     'stage',
     'stageAll',
     'stageHunks',
@@ -100,6 +120,7 @@ export const SEMANTIC_GIT_OPERATIONS = [
     'dropStash',
     'clearStashes',
     'branchFromStash',
+    'storeStash',
     'checkout',
     'checkoutNewBranch',
     'restorePaths',
@@ -131,6 +152,13 @@ export const SEMANTIC_GIT_OPERATIONS = [
     'continueRevert',
     'abortRevert',
     'skipRevert',
+    'getBisectState',
+    'bisectStart',
+    'bisectGood',
+    'bisectBad',
+    'bisectSkip',
+    'bisectReset',
+    'bisectRun',
     'resetSoft',
     'resetMixed',
     'resetHard',
@@ -1,4 +1,5 @@
 import type {
+    GitBisectOperations,
     GitBlameOperations,
     GitBranchOperations,
     GitCheckoutOperations,
@@ -9,9 +10,13 @@ import type {
     GitFetchOperations,
     GitFileHistoryOperations,
     GitHistoryOperations,
+    GitIgnoreOperations,
     GitIndexOperations,
     GitInteractiveRebaseOperations,
+    GitLfsFileOperations,
+    GitLfsOperations,
     GitMergeOperations,
+    GitNotesOperations,
     GitPatchOperations,
     GitPullPushOperations,
     GitRebaseOperations,
@@ -33,9 +38,11 @@ export interface GitRepository
         GitReferenceOperations,
         GitBranchOperations,
         GitTagOperations,
+        GitNotesOperations,
         GitFetchOperations,
         GitWorktreeTopologyOperations,
-        GitSubmoduleOperations {
+        GitSubmoduleOperations,
+        GitLfsOperations {
     readonly repoId: string;
     readonly cwd: string;
     readonly gitDir: string;
@@ -47,6 +54,8 @@ export interface GitRepository
 
 export interface Worktree
     extends GitStatusOperations,
+        GitIgnoreOperations,
+        GitLfsFileOperations,
         GitIndexOperations,
         GitPatchOperations,
         GitCommitOperations,
@@ -56,6 +65,7 @@ export interface Worktree
         GitRebaseOperations,
         GitInteractiveRebaseOperations,
         GitCherryPickRevertOperations,
+        GitBisectOperations,
         GitResetUndoOperations,
         GitCleanOperations,
         GitPullPushOperations {
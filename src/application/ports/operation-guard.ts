@@ -71,3 +71,12 @@ export interface GuardAcknowledgement {
 export interface ValidatedGuardAcknowledgement extends GuardAcknowledgement {
     readonly plan: OperationPlan;
 }
+
+/** A plan as a use case builds it; the host adds the id, context, expiry, and preview hash when it stores the plan. */
+export interface OperationPlanDraft {
+    readonly action: SemanticGitOperation;
+    readonly guards: readonly OperationGuard[];
+    readonly targets: readonly OperationTarget[];
+    readonly preview?: Omit<OperationPreview, 'hash'>;
+    readonly recovery?: RecoveryHint;
+}
@@ -0,0 +1,43 @@
+import type { ResetMode } from '@application/ports/git-capabilities';
+import type { SemanticGitOperation } from '@application/ports/git-operation';
+
+/** Where `HEAD`, the checked-out branch, and the top of the stash list stood at one point in time. */
+export interface OperationSnapshot {
+    readonly head: string | null;
+    readonly branch: string | null;
+    readonly stash: string | null;
+}
+
+export interface JournaledStash {
+    readonly hash: string;
+    readonly message: string;
+}
+
+export interface JournaledBranch {
+    readonly name: string;
+    readonly tip: string;
+}
+
+/** One mutating operation together with what it takes to revert it. */
+export interface OperationJournalEntry {
+    readonly id: string;
+    readonly operation: SemanticGitOperation;
+    readonly worktreeId?: string;
+    readonly recordedAt: string;
+    readonly before: OperationSnapshot;
+    readonly after: OperationSnapshot;
+    readonly resetMode?: ResetMode | 'keep';
+    readonly deletedBranch?: JournaledBranch;
+    /** Stashes removed by the operation, oldest first. */
+    readonly droppedStashes?: readonly JournaledStash[];
+}
+
+export type OperationJournalRecord = Omit<OperationJournalEntry, 'id'>;
+
+/** Per-repository history of undoable operations, oldest first. */
+export interface OperationJournal {
+    entries(repositoryId: string): readonly OperationJournalEntry[];
+    append(repositoryId: string, record: OperationJournalRecord): Promise<OperationJournalEntry>;
+    /** Removes `entryId` and every entry recorded after it. */
+    truncate(repositoryId: string, entryId: string): Promise<void>;
+}
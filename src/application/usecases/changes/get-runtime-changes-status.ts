@@ -1,4 +1,13 @@
-import type { GitReferenceOperations, GitStashOperations, GitStatusOperations, GitSubmoduleOperations } from '@application/ports/git-capabilities';
+import type {
+    GitBisectOperations,
+    GitLfsFileOperations,
+    GitReferenceOperations,
+    GitStashOperations,
+    GitStatusOperations,
+    GitSubmoduleOperations,
+} from '@application/ports/git-capabilities';
+import { markLfsFiles } from '@core/git/lfs';
+import type { GitBisectState } from '@core/git/domain/git-bisect';
 import type { GitStatus, GitStash } from '@core/git/domain/git-status';
 import type { GitSubmodule } from '@core/git/domain/git-worktree';
 import type { PageRequest } from '@core/git/domain/page';
@@ -13,6 +22,7 @@ export interface RuntimeChangesStatusResult {
     readonly stashes: readonly GitStash[];
     readonly submodules: readonly GitSubmodule[];
     readonly currentBranch: string | undefined;
+    readonly bisect?: GitBisectState;
     readonly warnings: readonly ChangesStatusWarning[];
 }
 
@@ -21,31 +31,51 @@ export class GetRuntimeChangesStatusUseCase {
 
     async execute(
         repository: GitReferenceOperations & GitSubmoduleOperations,
-        worktree: GitStatusOperations & GitStashOperations,
+        worktree: GitStatusOperations & GitStashOperations & Pick<GitBisectOperations, 'getBisectState'> & Pick<GitLfsFileOperations, 'getLfsTrackedPaths'>,
         signal?: AbortSignal,
     ): Promise<RuntimeChangesStatusResult> {
-        const [status, stashesPage, submodulesResult, branchesResult] = await Promise.all([
+        const [status, stashesPage, submodulesResult, branchesResult, bisectResult] = await Promise.all([
             worktree.getStatus(signal),
             worktree.listStashes(this.stashPage, signal),
             settleOptional('changes/listSubmodules', repository.listSubmodules(signal)),
             settleOptional('changes/listBranches', repository.listBranches(signal)),
+            settleOptional('changes/bisectState', worktree.getBisectState(signal).then((state) => state ? [state] : [])),
         ]);
 
+        const lfsResult = await settleOptional('changes/lfsTrackedPaths', worktree.getLfsTrackedPaths(statusFilePaths(status), signal));
+
         const warnings: ChangesStatusWarning[] = [];
         const submodules = optionalValue(submodulesResult, warnings);
         const branches = optionalValue(branchesResult, warnings);
+        const [bisect] = optionalValue(bisectResult, warnings);
+        const lfsPaths = new Set(optionalValue(lfsResult, warnings));
         const currentBranch = branches.find((branch) => branch.isCurrent)?.name;
 
         return {
-            status,
+            status: lfsPaths.size > 0 ? markLfsStatus(status, lfsPaths) : status,
             stashes: stashesPage.items,
             submodules,
             currentBranch,
+            ...(bisect ? { bisect } : {}),
             warnings,
         };
     }
 }
 
+function statusFilePaths(status: GitStatus): readonly string[] {
+    const entries = [...status.staged, ...status.unstaged, ...status.conflicts];
+    return Array.from(new Set(entries.filter((entry) => !entry.isSubmodule).map((entry) => entry.filePath)));
+}
+
+function markLfsStatus(status: GitStatus, lfsPaths: ReadonlySet<string>): GitStatus {
+    return {
+        ...status,
+        staged: markLfsFiles(status.staged, lfsPaths),
+        unstaged: markLfsFiles(status.unstaged, lfsPaths),
+        conflicts: markLfsFiles(status.conflicts, lfsPaths),
+    };
+}
+
 async function settleOptional<T>(
     operation: string,
     promise: Promise<readonly T[]>,
@@ -0,0 +1,77 @@
+import type { Worktree } from '@application/ports/git-topology';
+import { buildPartialPatch, mapDiffLineRangeToOldSide, PartialPatchDirection, selectDiffLines, type DiffLineRange, type HunkLineSelection } from '@core/git/build-partial-patch';
+import type { GitFileDiff } from '@core/git/domain/git-diff';
+import { parseDiffHunks } from '@core/parsing/parse-diff-hunks';
+
+export enum PartialChangeCommand {
+    Stage,
+    Unstage,
+    Discard,
+}
+
+export interface PartialHunkTarget {
+    readonly filePath: string;
+    readonly hunkIndex: number;
+    /** Header the user saw; the hunk is rejected when the diff changed underneath it. */
+    readonly hunkHeader: string;
+    readonly lineIndexes?: readonly number[];
+}
+
+export class StagePartialChangesUseCase {
+    /** Reads the staged (HEAD → index) or unstaged (index → working tree) diff of one file. */
+    async readFileDiff(worktree: Worktree, filePath: string, staged: boolean, signal?: AbortSignal): Promise<GitFileDiff | undefined> {
+        const diff = await worktree.getPatch(staged ? 'index' : 'workingTree', [filePath], signal);
+        return parseDiffHunks(diff)[0];
+    }
+
+    async applyHunk(worktree: Worktree, command: PartialChangeCommand, target: PartialHunkTarget): Promise<void> {
+        const file = await this.readFileDiff(worktree, target.filePath, command === PartialChangeCommand.Unstage);
+        const hunk = file?.hunks[target.hunkIndex];
+        if (!file || hunk?.header !== target.hunkHeader) {
+            throw new Error(`The changes in ${target.filePath} changed since they were displayed. Refresh and try again.`);
+        }
+        const selection: HunkLineSelection = new Map([[target.hunkIndex, target.lineIndexes ? new Set(target.lineIndexes) : undefined]]);
+        await this.applySelection(worktree, command, target.filePath, file, selection);
+    }
+
+    /** Applies the command to the changes touching `range`, given in working tree line numbers. */
+    async applyLineRange(worktree: Worktree, command: PartialChangeCommand, filePath: string, range: DiffLineRange): Promise<void> {
+        if (command === PartialChangeCommand.Stage) {
+            await worktree.stageLines(filePath, range);
+            return;
+        }
+        if (command === PartialChangeCommand.Discard) {
+            const file = await this.readFileDiff(worktree, filePath, false);
+            await this.applySelection(worktree, command, filePath, file, file ? selectDiffLines(file, range) : new Map());
+            return;
+        }
+        // Staged line numbers refer to the index, so map the editor selection back through the unstaged diff first.
+        const unstaged = await this.readFileDiff(worktree, filePath, false);
+        const indexRange = unstaged ? mapDiffLineRangeToOldSide(unstaged, range) : range;
+        const staged = await this.readFileDiff(worktree, filePath, true);
+        await this.applySelection(worktree, command, filePath, staged, staged ? selectDiffLines(staged, indexRange) : new Map());
+    }
+
+    private async applySelection(
+        worktree: Worktree,
+        command: PartialChangeCommand,
+        filePath: string,
+        file: GitFileDiff | undefined,
+        selection: HunkLineSelection,
+    ): Promise<void> {
+        const direction = command === PartialChangeCommand.Stage ? PartialPatchDirection.Apply : PartialPatchDirection.Reverse;
+        const patch = file ? buildPartialPatch(file, selection, direction) : undefined;
+        if (!patch) { throw new Error(`No ${command === PartialChangeCommand.Unstage ? 'staged' : 'unstaged'} changes are selected in ${filePath}.`); }
+        switch (command) {
+            case PartialChangeCommand.Stage:
+                await worktree.stageHunks([patch]);
+                return;
+            case PartialChangeCommand.Unstage:
+                await worktree.unstageHunks([patch]);
+                return;
+            case PartialChangeCommand.Discard:
+                await worktree.discardHunks([patch]);
+                return;
+        }
+    }
+}
@@ -27,10 +27,18 @@ export class CommitReferenceActions {
         return true;
     }
 
+    /** Creates a lightweight tag, or a signed annotated tag with a message when `tag.gpgSign` is set. */
     async createTagAtCommit(repo: GitRepository, hash: string): Promise<boolean> {
         const name = await this.textInput.showInput({ prompt: 'New tag name:' });
         if (!name?.trim()) { return false; }
-        await repo.createTag(name, hash, undefined);
+        const { signTags } = await repo.getSigningConfig();
+        if (!signTags) {
+            await repo.createTag(name, hash, undefined, {});
+            return true;
+        }
+        const message = await this.textInput.showInput({ prompt: `Message for signed tag "${name.trim()}":` });
+        if (!message?.trim()) { return false; }
+        await repo.createTag(name, hash, message, { sign: true });
         return true;
     }
 }
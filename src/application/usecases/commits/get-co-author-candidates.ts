@@ -0,0 +1,40 @@
+import type { GitHistoryOperations, GitReferenceOperations } from '@application/ports/git-capabilities';
+import { isAbortError } from '@core/shared/type-guards';
+
+const RECENT_COMMIT_COUNT = 200;
+const MAX_CANDIDATES = 20;
+
+export type CoAuthorCandidatesRepository = Pick<GitHistoryOperations, 'getCommitGraph'> & Pick<GitReferenceOperations, 'getUserName'>;
+
+export interface CoAuthorCandidate {
+    readonly name: string;
+    readonly email: string;
+}
+
+/** Distinct authors of recent commits, most recent first, without the configured user. */
+export class GetCoAuthorCandidatesUseCase {
+    async execute(repo: CoAuthorCandidatesRepository, signal?: AbortSignal): Promise<readonly CoAuthorCandidate[]> {
+        try {
+            const [page, userName] = await Promise.all([
+                repo.getCommitGraph({}, { limit: RECENT_COMMIT_COUNT }, signal),
+                repo.getUserName(signal).catch(() => ''),
+            ]);
+            const seen = new Set<string>();
+            const candidates: CoAuthorCandidate[] = [];
+            for (const commit of page.items) {
+                const name = commit.authorName.trim();
+                const email = commit.authorEmail.trim();
+                if (!name || !email || name === userName.trim()) { continue; }
+                const key = email.toLowerCase();
+                if (seen.has(key)) { continue; }
+                seen.add(key);
+                candidates.push({ name, email });
+                if (candidates.length === MAX_CANDIDATES) { break; }
+            }
+            return candidates;
+        } catch (error) {
+            if (isAbortError(error)) { throw error; }
+            return [];
+        }
+    }
+}
@@ -0,0 +1,23 @@
+import type { GitLfsOperations } from '@application/ports/git-capabilities';
+import type { GitFileChange } from '@core/git/domain/git-commit';
+import { markLfsFiles } from '@core/git/lfs';
+import { isAbortError } from '@core/shared/type-guards';
+
+/**
+ * Flags the LFS-tracked files of a commit, judged by the checked-out `.gitattributes`.
+ * The flag only drives a badge, so a failed attribute lookup leaves the files unflagged.
+ */
+export async function markLfsCommitFiles(
+    repo: Pick<GitLfsOperations, 'getLfsTrackedPaths'>,
+    files: readonly GitFileChange[],
+    signal?: AbortSignal,
+): Promise<readonly GitFileChange[]> {
+    const candidates = files.filter((file) => !file.isSubmodule).map((file) => file.filePath);
+    if (candidates.length === 0) { return files; }
+    try {
+        return markLfsFiles(files, new Set(await repo.getLfsTrackedPaths(candidates, signal)));
+    } catch (error) {
+        if (isAbortError(error)) { throw error; }
+        return files;
+    }
+}
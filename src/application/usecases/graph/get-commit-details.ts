@@ -1,6 +1,11 @@
-import type { GitFileChange } from '@core/git/domain/git-commit';
+import type { GitLfsOperations, GitNotesOperations } from '@application/ports/git-capabilities';
+import { markLfsCommitFiles } from '@application/usecases/commits/mark-lfs-commit-files';
+import type { GitCommit, GitFileChange } from '@core/git/domain/git-commit';
+import type { GitNote } from '@core/git/domain/git-note';
+import type { GitCommitSignature } from '@core/git/domain/git-signature';
 
-export interface CommitDetailsRepository {
+export interface CommitDetailsRepository extends Pick<GitLfsOperations, 'getLfsTrackedPaths'>, Pick<GitNotesOperations, 'getCommitNotes'> {
+    getCommitDetails(commit: string, signal?: AbortSignal): Promise<GitCommit>;
     getCommitFiles(commit: string, signal?: AbortSignal): Promise<readonly GitFileChange[]>;
     getCommitMessage(commit: string, signal?: AbortSignal): Promise<string>;
 }
@@ -9,14 +14,18 @@ export interface CommitDetailsResult {
     readonly hash: string;
     readonly fullMessage: string;
     readonly files: readonly GitFileChange[];
+    readonly signature?: GitCommitSignature;
+    readonly notes: readonly GitNote[];
 }
 
 export class GetCommitDetailsUseCase {
     async execute(repo: CommitDetailsRepository, hash: string, signal?: AbortSignal): Promise<CommitDetailsResult> {
-        const [files, fullMessage] = await Promise.all([
+        const [commit, files, fullMessage, notes] = await Promise.all([
+            repo.getCommitDetails(hash, signal),
             repo.getCommitFiles(hash, signal),
             repo.getCommitMessage(hash, signal),
+            repo.getCommitNotes(hash, signal),
         ]);
-        return { hash, fullMessage, files };
+        return { hash, fullMessage, files: await markLfsCommitFiles(repo, files, signal), notes, ...(commit.signature ? { signature: commit.signature } : {}) };
     }
 }
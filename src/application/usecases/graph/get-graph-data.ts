@@ -1,7 +1,10 @@
 import type { GitRepository } from '@application/ports/git-topology';
 import { settleOptional } from '@core/shared/async';
+import type { GitBisectState } from '@core/git/domain/git-bisect';
+import type { GitRebaseBackup } from '@core/git/domain/git-rebase-backup';
+import type { GitRemoteWebRepository } from '@core/git/domain/git-remote-hosting';
 import type { GitGraphCommit } from '@core/git/domain/git-commit';
-import type { GitBranch, GitTag } from '@core/git/domain/git-status';
+import type { GitBranch, GitStash, GitTag } from '@core/git/domain/git-status';
 import type { GitSubmodule, GitWorktree } from '@core/git/domain/git-worktree';
 import { getReachableCommitHashes } from '@application/usecases/commits/get-reachable-commit-hashes';
 
@@ -60,6 +63,11 @@ export interface GraphDataResult {
     readonly worktrees: readonly GitWorktree[];
     readonly worktreeWips: readonly GraphWorktreeWip[];
     readonly submodules: readonly GraphSubmoduleRepository[];
+    readonly bisect?: GitBisectState;
+    readonly remoteWebRepository?: GitRemoteWebRepository;
+    readonly rebaseBackups?: readonly GitRebaseBackup[];
+    /** Stashes of the main worktree, newest first; absent when there are none. */
+    readonly stashes?: readonly GitStash[];
     readonly warnings: readonly GraphDataWarning[];
 }
 
@@ -67,6 +75,11 @@ export interface GraphDataOptions {
     readonly includeSubmoduleRepositories?: boolean;
     readonly resolveWorktreeWips?: (worktrees: readonly GitWorktree[], signal?: AbortSignal) => Promise<readonly GraphWorktreeWip[]>;
     readonly resolveSubmoduleRepositories?: (submodules: readonly GitSubmodule[], signal?: AbortSignal) => Promise<GraphSubmoduleRepositoriesResult>;
+    readonly resolveBisectState?: (signal?: AbortSignal) => Promise<GitBisectState | undefined>;
+    /** Only consulted when the repository has remotes. */
+    readonly resolveRemoteWebRepository?: (signal?: AbortSignal) => Promise<GitRemoteWebRepository | undefined>;
+    readonly resolveRebaseBackups?: (signal?: AbortSignal) => Promise<readonly GitRebaseBackup[]>;
+    readonly resolveStashes?: (signal?: AbortSignal) => Promise<readonly GitStash[]>;
 }
 
 export class GetGraphDataUseCase {
@@ -110,6 +123,18 @@ export class GetGraphDataUseCase {
                 ? await options.resolveSubmoduleRepositories(submoduleStatuses, signal)
                 : { submodules: submoduleStatuses.map(toSubmoduleRepositorySummary), warnings: [] as GraphDataWarning[] };
         warnings.push(...submoduleRepositories.warnings);
+        const bisect = options.resolveBisectState
+            ? await safeResolveOptional('graph/bisectState', options.resolveBisectState, warnings, signal)
+            : undefined;
+        const remoteWebRepository = options.resolveRemoteWebRepository && remotes.length > 0
+            ? await safeResolveOptional('graph/remoteWebRepository', options.resolveRemoteWebRepository, warnings, signal)
+            : undefined;
+        const rebaseBackups = options.resolveRebaseBackups
+            ? await safeResolve('graph/rebaseBackups', () => options.resolveRebaseBackups!(signal), warnings, signal)
+            : [];
+        const stashes = options.resolveStashes
+            ? await safeResolve('graph/stashes', () => options.resolveStashes!(signal), warnings, signal)
+            : [];
 
         const commits = usesPrefixPagination
             ? rawCommits.slice(page.offset, page.offset + page.limit)
@@ -133,6 +158,10 @@ export class GetGraphDataUseCase {
             worktrees,
             worktreeWips,
             submodules: submoduleRepositories.submodules,
+            ...(bisect ? { bisect } : {}),
+            ...(remoteWebRepository ? { remoteWebRepository } : {}),
+            ...(rebaseBackups.length > 0 ? { rebaseBackups } : {}),
+            ...(stashes.length > 0 ? { stashes } : {}),
             warnings,
         };
     }
@@ -187,3 +216,18 @@ async function safeResolve<T>(
         return [];
     }
 }
+
+async function safeResolveOptional<T>(
+    operation: string,
+    resolve: (signal?: AbortSignal) => Promise<T | undefined>,
+    warnings: GraphDataWarning[],
+    signal?: AbortSignal,
+): Promise<T | undefined> {
+    try {
+        return await resolve(signal);
+    } catch (error) {
+        signal?.throwIfAborted();
+        warnings.push({ operation, error });
+        return undefined;
+    }
+}
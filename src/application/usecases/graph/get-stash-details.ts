@@ -0,0 +1,38 @@
+import type { GitCompareOperations, GitHistoryOperations } from '@application/ports/git-capabilities';
+
+export type StashDetailsRepository = Pick<GitCompareOperations, 'compareRefs'> & Pick<GitHistoryOperations, 'getCommitDetails' | 'getCommitFiles'>;
+
+export interface StashDetailsFile {
+    readonly status: string;
+    readonly filePath: string;
+    readonly origPath?: string;
+    readonly parentHash?: string;
+    readonly isSubmodule?: boolean;
+}
+
+export interface StashDetailsResult {
+    readonly hash: string;
+    readonly files: readonly StashDetailsFile[];
+}
+
+/**
+ * Files a stash records: the working tree changes against its base commit, then the untracked
+ * files it stashed, listed with status `?` as in worktree details.
+ */
+export class GetStashDetailsUseCase {
+    async execute(repo: StashDetailsRepository, hash: string, signal?: AbortSignal): Promise<StashDetailsResult> {
+        const [base, , untracked] = (await repo.getCommitDetails(hash, signal)).parentHashes;
+        if (!base) { throw new Error(`Stash ${hash} has no base commit.`); }
+        const [tracked, untrackedFiles] = await Promise.all([
+            repo.compareRefs(base, hash, { includeRenames: true }, signal),
+            untracked ? repo.getCommitFiles(untracked, signal) : Promise.resolve([]),
+        ]);
+        return {
+            hash,
+            files: [
+                ...tracked.map((file) => ({ ...file, parentHash: base })),
+                ...untrackedFiles.map(({ filePath, isSubmodule }) => ({ status: '?', filePath, ...(isSubmodule ? { isSubmodule } : {}) })),
+            ],
+        };
+    }
+}
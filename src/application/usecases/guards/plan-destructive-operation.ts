@@ -0,0 +1,278 @@
+import type { CleanOptions } from '@application/ports/git-capabilities';
+import type { GitRepository, Worktree } from '@application/ports/git-topology';
+import type { SemanticGitOperation } from '@application/ports/git-operation';
+import type { OperationGuard, OperationPlanDraft, OperationTarget } from '@application/ports/operation-guard';
+import type { GitStash, GitStatus } from '@core/git/domain/git-status';
+
+export interface GuardedOperationTarget {
+    readonly repository: GitRepository;
+    readonly worktree: Worktree;
+}
+
+/**
+ * Builds the plans that destructive or unchecked Changes, Clean, and Reflog actions must have acknowledged before they run.
+ * Every preview summary records `HEAD` and the affected items, so planning again at acknowledgement time
+ * yields a different preview whenever the repository moved since the user reviewed it.
+ */
+export class PlanDestructiveOperationUseCase {
+    /** `status` is passed in so callers can leave out nested repositories they do not own. */
+    async discardAll(target: GuardedOperationTarget, status: GitStatus, signal?: AbortSignal): Promise<OperationPlanDraft> {
+        const paths = uniqueSorted([...status.staged, ...status.unstaged].map((entry) => entry.filePath));
+        return {
+            action: 'discard',
+            guards: [
+                previewGuard('The files listed below lose their uncommitted changes.'),
+                confirmGuard('discard'),
+                { kind: 'destructive', level: 'danger', reason: `Discards changes in ${countLabel(paths.length, 'file')} and deletes untracked files. Git cannot restore them.` },
+            ],
+            targets: paths.map(pathTarget),
+            preview: { kind: 'discard', summary: { head: await resolveHead(target.repository, signal), paths } },
+        };
+    }
+
+    async dropStash(target: GuardedOperationTarget, index: number, signal?: AbortSignal): Promise<OperationPlanDraft> {
+        const ref = `stash@{${index}}`;
+        const stash = (await listAllStashes(target.worktree, signal)).find((entry) => entry.index === index);
+        if (!stash) { throw new Error(`${ref} no longer exists.`); }
+        const hash = await target.repository.resolveRef(ref, signal);
+        return {
+            action: 'dropStash',
+            guards: [
+                confirmGuard('dropStash'),
+                { kind: 'destructive', level: 'warning', reason: `${ref} is removed from the stash list.` },
+            ],
+            targets: [{ kind: 'stash', id: hash, label: `${ref}: ${stash.message}` }],
+            preview: { kind: 'dropStash', summary: { stash: ref, hash } },
+            recovery: {
+                kind: 'stashCommit',
+                description: `Until Git prunes unreachable objects, the stash can be restored with "git stash apply ${hash.substring(0, 7)}".`,
+                data: { hash },
+            },
+        };
+    }
+
+    async clearStashes(target: GuardedOperationTarget, signal?: AbortSignal): Promise<OperationPlanDraft> {
+        const stashes = await listAllStashes(target.worktree, signal);
+        if (stashes.length === 0) { throw new Error('There are no stashes to drop.'); }
+        return {
+            action: 'clearStashes',
+            guards: [
+                confirmGuard('clearStashes'),
+                { kind: 'destructive', level: 'danger', reason: `Drops every stash (${countLabel(stashes.length, 'stash', 'stashes')}).` },
+            ],
+            targets: stashes.map((stash) => ({ kind: 'stash', id: `stash@{${stash.index}}`, label: `stash@{${stash.index}}: ${stash.message}` })),
+            preview: { kind: 'clearStashes', summary: { stashes: stashes.map((stash) => stash.message) } },
+        };
+    }
+
+    /** `remoteRef` is the remote-tracking branch the push replaces, such as `origin/main`. */
+    async forcePushWithLease(target: GuardedOperationTarget, branch: string, remoteRef: string, signal?: AbortSignal): Promise<OperationPlanDraft> {
+        return forcePushPlan(target, branch, remoteRef, true, signal);
+    }
+
+    /** A push without a lease also replaces commits that were pushed to `remoteRef` since it was last fetched. */
+    async forcePush(target: GuardedOperationTarget, branch: string, remoteRef: string, signal?: AbortSignal): Promise<OperationPlanDraft> {
+        return forcePushPlan(target, branch, remoteRef, false, signal);
+    }
+
+    /** A commit that bypasses the repository's checks; nothing is lost, so the plan only names what gets skipped. */
+    async commitWithoutHooks(target: GuardedOperationTarget, message: string, signal?: AbortSignal): Promise<OperationPlanDraft> {
+        const head = await resolveHead(target.repository, signal);
+        const branch = target.worktree.branch;
+        return {
+            action: 'commit',
+            guards: [
+                { kind: 'confirm', level: 'danger', reason: 'Skips the pre-commit and commit-msg hooks, so the checks they enforce do not run for this commit.' },
+            ],
+            targets: [{ kind: 'ref', id: branch ? `refs/heads/${branch}` : 'HEAD', label: branch ?? 'HEAD' }],
+            preview: { kind: 'commitWithoutHooks', summary: { head, message } },
+        };
+    }
+
+    /** Plans deleting only the `paths` that `git clean` still lists, so new untracked files never join a reviewed plan. */
+    async cleanUntracked(target: GuardedOperationTarget, paths: readonly string[], options: CleanOptions, signal?: AbortSignal): Promise<OperationPlanDraft> {
+        const listed = new Set(await target.worktree.previewClean([], options, signal));
+        const removable = uniqueSorted(paths.filter((path) => listed.has(path)));
+        if (removable.length === 0) { throw new Error('None of the selected files can be cleaned anymore.'); }
+        const strong = Boolean(options.ignored || removable.some((path) => path.endsWith('/')));
+        return {
+            action: 'cleanUntracked',
+            guards: [
+                previewGuard('Only the checked files and directories are deleted.'),
+                confirmGuard('cleanUntracked'),
+                {
+                    kind: 'destructive',
+                    level: strong ? 'danger' : 'warning',
+                    reason: `Permanently deletes ${countLabel(removable.length, 'untracked entry', 'untracked entries')}${options.ignored ? ', including ignored files' : ''}.`,
+                },
+            ],
+            targets: removable.map(pathTarget),
+            preview: { kind: 'cleanUntracked', summary: { paths: removable, ignored: Boolean(options.ignored) } },
+        };
+    }
+
+    async resetHard(target: GuardedOperationTarget, ref: string, signal?: AbortSignal): Promise<OperationPlanDraft> {
+        const [head, commit, status] = await Promise.all([
+            resolveHead(target.repository, signal),
+            target.repository.resolveRef(ref, signal),
+            target.worktree.getStatus(signal),
+        ]);
+        const paths = uniqueSorted([...status.staged, ...status.unstaged, ...status.conflicts].map((entry) => entry.filePath));
+        const branch = target.worktree.branch;
+        return {
+            action: 'resetHard',
+            guards: [
+                previewGuard(paths.length > 0 ? 'The files listed below lose their uncommitted changes.' : 'The working tree has no uncommitted changes.'),
+                confirmGuard('resetHard'),
+                {
+                    kind: 'destructive',
+                    level: paths.length > 0 ? 'danger' : 'warning',
+                    reason: `Moves ${branch ?? 'HEAD'} to ${commit.substring(0, 7)}${paths.length > 0 ? ` and discards changes in ${countLabel(paths.length, 'file')}` : ''}.`,
+                },
+            ],
+            targets: [
+                { kind: 'ref', id: branch ? `refs/heads/${branch}` : 'HEAD', label: branch ?? 'HEAD' },
+                { kind: 'commit', id: commit, label: commit.substring(0, 7) },
+                ...paths.map(pathTarget),
+            ],
+            preview: { kind: 'resetHard', summary: { head, commit, paths } },
+            ...(head ? {
+                recovery: {
+                    kind: 'reflog',
+                    description: `The previous HEAD ${head.substring(0, 7)} stays reachable from the reflog.`,
+                    data: { head },
+                },
+            } : {}),
+        };
+    }
+
+    /** Moves a branch that no worktree has checked out, so no files change; use `resetHard` for a checked-out branch. */
+    async moveBranch(target: GuardedOperationTarget, branch: string, ref: string, signal?: AbortSignal): Promise<OperationPlanDraft> {
+        const [current, commit] = await Promise.all([
+            target.repository.resolveRef(`refs/heads/${branch}`, signal),
+            target.repository.resolveRef(ref, signal),
+        ]);
+        return {
+            action: 'updateRef',
+            guards: [
+                previewGuard(`${branch} is at ${current.substring(0, 7)}.`),
+                confirmGuard('updateRef'),
+                { kind: 'destructive', level: 'warning', reason: `Moves ${branch} from ${current.substring(0, 7)} to ${commit.substring(0, 7)}.` },
+            ],
+            targets: [
+                { kind: 'ref', id: `refs/heads/${branch}`, label: branch },
+                { kind: 'commit', id: commit, label: commit.substring(0, 7) },
+            ],
+            preview: { kind: 'moveBranch', summary: { branch, current, commit } },
+            recovery: {
+                kind: 'reflog',
+                description: `The previous ${branch} commit ${current.substring(0, 7)} stays reachable from the branch reflog.`,
+                data: { ref: `refs/heads/${branch}`, hash: current },
+            },
+        };
+    }
+
+    /** Deleting a ref deletes its reflog too, so the recovery records the commit it pointed at. */
+    async deleteRef(target: GuardedOperationTarget, ref: string, label: string, signal?: AbortSignal): Promise<OperationPlanDraft> {
+        const hash = await target.repository.resolveRef(ref, signal);
+        return {
+            action: 'deleteRef',
+            guards: [
+                confirmGuard('deleteRef'),
+                { kind: 'destructive', level: 'warning', reason: `Deletes ${label}. Commits that only it reaches can be pruned by Git.` },
+            ],
+            targets: [{ kind: 'ref', id: ref, label }],
+            preview: { kind: 'deleteRef', summary: { ref, hash } },
+            recovery: {
+                kind: 'deletedRef',
+                description: `Until Git prunes unreachable objects, the ref can be recreated with "git update-ref ${ref} ${hash.substring(0, 7)}".`,
+                data: { ref, hash },
+            },
+        };
+    }
+}
+
+async function forcePushPlan(
+    target: GuardedOperationTarget,
+    branch: string,
+    remoteRef: string,
+    withLease: boolean,
+    signal: AbortSignal | undefined,
+): Promise<OperationPlanDraft> {
+    const [head, remoteHead] = await Promise.all([
+        resolveHead(target.repository, signal),
+        target.repository.resolveRef(`refs/remotes/${remoteRef}`, signal).catch(() => undefined),
+    ]);
+    const action = withLease ? 'forcePushWithLease' : 'push';
+    return {
+        action,
+        guards: [
+            previewGuard(remoteHead
+                ? `${remoteRef} was last fetched at ${remoteHead.substring(0, 7)}.`
+                : `${remoteRef} has not been fetched; the push creates it.`),
+            confirmGuard(action),
+            {
+                kind: 'highRiskRemote',
+                level: 'danger',
+                reason: withLease
+                    ? `${remoteRef} is replaced by ${branch}. Commits that only exist on the remote are removed from it.`
+                    : `${remoteRef} is replaced by ${branch} even if someone pushed to it since the last fetch. Commits that only exist on the remote are removed from it.`,
+            },
+        ],
+        targets: [
+            { kind: 'ref', id: `refs/heads/${branch}`, label: branch },
+            { kind: 'remote', id: `refs/remotes/${remoteRef}`, label: remoteRef },
+        ],
+        preview: { kind: withLease ? 'forcePushWithLease' : 'forcePush', summary: { head, remoteRef, remoteHead: remoteHead ?? null } },
+        ...(remoteHead ? {
+            recovery: {
+                kind: 'remoteRef',
+                description: `${remoteRef} was at ${remoteHead.substring(0, 7)} before the push.`,
+                data: { remoteRef, remoteHead },
+            },
+        } : {}),
+    };
+}
+
+function previewGuard(reason: string): OperationGuard {
+    return { kind: 'previewRequired', level: 'info', reason };
+}
+
+/** Worded by whether Undo Last Operation can revert `action`; only HEAD, branches and stashes are journaled. */
+function confirmGuard(action: SemanticGitOperation): OperationGuard {
+    return { kind: 'confirm', level: 'warning', reason: confirmReason(action) };
+}
+
+function confirmReason(action: SemanticGitOperation): string {
+    switch (action) {
+        case 'dropStash':
+            return 'Undo Last Operation can bring the stash back.';
+        case 'clearStashes':
+            return 'Undo Last Operation can bring the stashes back.';
+        case 'resetHard':
+            return 'Undo Last Operation moves HEAD back, but does not restore the discarded working tree changes.';
+        default:
+            return 'This action cannot be undone from Look Git.';
+    }
+}
+
+function pathTarget(path: string): OperationTarget {
+    return { kind: 'path', id: path, label: path };
+}
+
+/** An unborn branch has no `HEAD` commit yet; the plan records that as null. */
+async function resolveHead(repository: GitRepository, signal: AbortSignal | undefined): Promise<string | null> {
+    return repository.resolveRef('HEAD', signal).catch(() => null);
+}
+
+async function listAllStashes(worktree: Worktree, signal: AbortSignal | undefined): Promise<readonly GitStash[]> {
+    return (await worktree.listStashes({ limit: Number.MAX_SAFE_INTEGER }, signal)).items;
+}
+
+function uniqueSorted(values: readonly string[]): readonly string[] {
+    return [...new Set(values)].sort();
+}
+
+function countLabel(count: number, singular: string, plural = `${singular}s`): string {
+    return `${count} ${count === 1 ? singular : plural}`;
+}
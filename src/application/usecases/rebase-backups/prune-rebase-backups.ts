@@ -0,0 +1,21 @@
+import type { GitRepository } from '@application/ports/git-topology';
+import type { GitRebaseBackup } from '@core/git/domain/git-rebase-backup';
+import { expiredRebaseBackups } from '@core/git/rebase-backups';
+
+export class PruneRebaseBackupsUseCase {
+    constructor(
+        private readonly retentionDays: () => number,
+        private readonly now: () => number = Date.now,
+    ) {}
+
+    /** Deletes backups older than the retention period, except `keepRef`, and resolves to the deleted backups. */
+    async execute(repository: GitRepository, keepRef?: string, signal?: AbortSignal): Promise<readonly GitRebaseBackup[]> {
+        const backups = await repository.listRebaseBackups(signal);
+        const expired = expiredRebaseBackups(backups, this.retentionDays(), this.now())
+            .filter((backup) => backup.ref !== keepRef);
+        for (const backup of expired) {
+            await repository.deleteRef(backup.ref, signal);
+        }
+        return expired;
+    }
+}
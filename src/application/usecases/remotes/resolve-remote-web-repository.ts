@@ -0,0 +1,52 @@
+import type { GitRepository } from '@application/ports/git-topology';
+import type { GitRemoteHostPattern, GitRemoteWebRepository } from '@core/git/domain/git-remote-hosting';
+import { resolveRemoteWebRepository } from '@core/git/remote-hosting';
+
+/** Branch as it is named on a remote: `origin/feature` is `{ remote: 'origin', branchName: 'feature' }`. */
+export interface PublishedBranch {
+    readonly remote: string;
+    readonly branchName: string;
+}
+
+export class ResolveRemoteWebRepositoryUseCase {
+    constructor(private readonly hostPatterns: () => readonly GitRemoteHostPattern[]) {}
+
+    /**
+     * Web page of `remote`, or when omitted of the remote the current branch tracks, then `origin`, then the first
+     * remote. Undefined when the repository has no remotes or the chosen remote is not on a recognised host.
+     */
+    async execute(repository: GitRepository, remote?: string, signal?: AbortSignal): Promise<GitRemoteWebRepository | undefined> {
+        const remoteName = remote ?? await this.preferredRemote(repository, signal);
+        if (!remoteName) { return undefined; }
+        return resolveRemoteWebRepository(await repository.getRemoteUrl(remoteName, signal), this.hostPatterns());
+    }
+
+    /** Where `branch` lives on a remote: itself for remote branches, its upstream for local ones. */
+    async publishedBranch(
+        repository: GitRepository,
+        branch: string,
+        isRemote: boolean,
+        signal?: AbortSignal,
+    ): Promise<PublishedBranch | undefined> {
+        const remoteBranch = isRemote
+            ? branch
+            : (await repository.listBranches(signal)).find((candidate) => !candidate.isRemote && candidate.name === branch)?.upstream;
+        if (!remoteBranch) { return undefined; }
+        const remotes = await repository.listRemotes(signal);
+        const remote = remotesByLength(remotes).find((candidate) => remoteBranch.startsWith(`${candidate}/`));
+        return remote ? { remote, branchName: remoteBranch.substring(remote.length + 1) } : undefined;
+    }
+
+    private async preferredRemote(repository: GitRepository, signal?: AbortSignal): Promise<string | undefined> {
+        const remotes = await repository.listRemotes(signal);
+        if (remotes.length <= 1) { return remotes[0]; }
+        const upstream = (await repository.listBranches(signal)).find((branch) => branch.isCurrent && !branch.isRemote)?.upstream;
+        const tracked = upstream ? remotesByLength(remotes).find((remote) => upstream.startsWith(`${remote}/`)) : undefined;
+        return tracked ?? (remotes.includes('origin') ? 'origin' : remotes[0]);
+    }
+}
+
+/** Longest names first, so a remote named `team/fork` wins over `team` when matching `team/fork/main`. */
+function remotesByLength(remotes: readonly string[]): readonly string[] {
+    return [...remotes].sort((left, right) => right.length - left.length);
+}
@@ -0,0 +1,159 @@
+import type { ResetMode } from '@application/ports/git-capabilities';
+import type { SemanticGitOperation } from '@application/ports/git-operation';
+import type {
+    JournaledBranch,
+    JournaledStash,
+    OperationJournal,
+    OperationJournalEntry,
+    OperationSnapshot,
+} from '@application/ports/operation-journal';
+import type { GitBranch, GitStash } from '@core/git/domain/git-status';
+import type { Page, PageRequest } from '@core/git/domain/page';
+
+/** The read-only queries a snapshot needs; a repository plus one of its worktrees provide them. */
+export interface OperationSnapshotSource {
+    resolveRef(ref: string, signal?: AbortSignal): Promise<string>;
+    listBranches(signal?: AbortSignal): Promise<readonly GitBranch[]>;
+    listStashes(pageRequest: PageRequest, signal?: AbortSignal): Promise<Page<GitStash>>;
+}
+
+export interface OperationJournalScope {
+    readonly repositoryId: string;
+    readonly worktreeId?: string;
+}
+
+/**
+ * Operations that move `HEAD`, a branch, or the stash list in a way Undo can revert. Index and working tree
+ * changes such as staging or discarding are not journaled: a HEAD, branch, and stash snapshot cannot restore them.
+ */
+export const UNDOABLE_GIT_OPERATIONS: ReadonlySet<SemanticGitOperation> = new Set<SemanticGitOperation>([
+    'checkout',
+    'checkoutNewBranch',
+    'amendCommit',
+    'resetSoft',
+    'resetMixed',
+    'resetHard',
+    'resetKeep',
+    'undoLastCommit',
+    'restoreFromReflog',
+    'merge',
+    'pull',
+    'rebase',
+    'startInteractiveRebase',
+    'rewordCommit',
+    'squashCommits',
+    'fixupCommits',
+    'reorderCommits',
+    'dropCommit',
+    'dropStash',
+    'clearStashes',
+    'deleteBranch',
+]);
+
+/** Snapshots the repository around every undoable operation and appends the result to the journal. */
+export class OperationJournalRecorder {
+    constructor(private readonly journal: OperationJournal) {}
+
+    async record<TResult>(
+        operation: SemanticGitOperation,
+        input: unknown,
+        scope: OperationJournalScope,
+        source: OperationSnapshotSource,
+        run: () => Promise<TResult>,
+        signal?: AbortSignal,
+    ): Promise<TResult> {
+        if (!UNDOABLE_GIT_OPERATIONS.has(operation)) { return run(); }
+        // A journal that cannot be written must never block the operation itself; it is then simply not undoable.
+        const prepared = await Promise.all([
+            captureOperationSnapshot(source, signal),
+            captureOperationSubjects(operation, input, source, signal),
+        ]).catch(() => undefined);
+        const result = await run();
+        if (!prepared) { return result; }
+        const [before, subjects] = prepared;
+        try {
+            await this.journal.append(scope.repositoryId, {
+                operation,
+                ...(scope.worktreeId ? { worktreeId: scope.worktreeId } : {}),
+                recordedAt: new Date().toISOString(),
+                before,
+                after: await captureOperationSnapshot(source),
+                ...subjects,
+            });
+        } catch {
+            // See above: a failed snapshot leaves the operation out of the journal.
+        }
+        return result;
+    }
+}
+
+export async function captureOperationSnapshot(source: OperationSnapshotSource, signal?: AbortSignal): Promise<OperationSnapshot> {
+    const [head, branches, stash] = await Promise.all([
+        source.resolveRef('HEAD', signal).catch(() => null),
+        source.listBranches(signal),
+        source.resolveRef('refs/stash', signal).catch(() => null),
+    ]);
+    return {
+        head,
+        branch: branches.find((branch) => branch.isCurrent && !branch.isRemote)?.name ?? null,
+        stash,
+    };
+}
+
+export function sameOperationSnapshot(left: OperationSnapshot, right: OperationSnapshot): boolean {
+    return left.head === right.head && left.branch === right.branch && left.stash === right.stash;
+}
+
+type OperationSubjects = Pick<OperationJournalEntry, 'resetMode' | 'deletedBranch' | 'droppedStashes'>;
+
+/** Records what the operation is about to remove, since the after-snapshot can no longer see it. */
+async function captureOperationSubjects(
+    operation: SemanticGitOperation,
+    input: unknown,
+    source: OperationSnapshotSource,
+    signal: AbortSignal | undefined,
+): Promise<OperationSubjects> {
+    switch (operation) {
+        case 'resetSoft': return { resetMode: 'soft' };
+        case 'resetMixed': return { resetMode: 'mixed' };
+        case 'resetHard': return { resetMode: 'hard' };
+        case 'resetKeep': return { resetMode: 'keep' };
+        case 'undoLastCommit':
+        case 'restoreFromReflog':
+            return { resetMode: resetModeOf(input) };
+        case 'deleteBranch': {
+            const name = stringField(input, 'name');
+            const deletedBranch: JournaledBranch = { name, tip: await source.resolveRef(`refs/heads/${name}`, signal) };
+            return { deletedBranch };
+        }
+        case 'dropStash': {
+            if (typeof input !== 'string') { throw new Error('Expected a stash reference.'); }
+            return { droppedStashes: [await journaledStash(source, input, signal)] };
+        }
+        case 'clearStashes': {
+            const stashes = (await source.listStashes({ limit: Number.MAX_SAFE_INTEGER }, signal)).items;
+            const droppedStashes = await Promise.all([...stashes].reverse().map((stash) => journaledStash(source, `stash@{${stash.index}}`, signal, stash)));
+            return { droppedStashes };
+        }
+        default:
+            return {};
+    }
+}
+
+async function journaledStash(source: OperationSnapshotSource, ref: string, signal: AbortSignal | undefined, known?: GitStash): Promise<JournaledStash> {
+    const index = Number(/^stash@\{(\d+)\}$/.exec(ref)?.[1]);
+    const stash = known ?? (await source.listStashes({ limit: Number.MAX_SAFE_INTEGER }, signal)).items.find((entry) => entry.index === index);
+    return { hash: await source.resolveRef(ref, signal), message: stash?.message ?? ref };
+}
+
+function resetModeOf(input: unknown): ResetMode {
+    const mode = stringField(input, 'mode');
+    if (mode !== 'soft' && mode !== 'mixed' && mode !== 'hard') { throw new Error(`Unknown reset mode: ${mode}`); }
+    return mode;
+}
+
+function stringField(input: unknown, field: string): string {
+    const value = input && typeof input === 'object' ? (input as Readonly<Record<string, unknown>>)[field] : undefined;
+    if (typeof value !== 'string') { throw new Error(`Expected ${field}.`); }
+    return value;
+}
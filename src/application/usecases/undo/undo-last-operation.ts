@@ -0,0 +1,131 @@
+import type { GitRepository, Worktree } from '@application/ports/git-topology';
+import type { OperationJournal, OperationJournalEntry } from '@application/ports/operation-journal';
+import { captureOperationSnapshot, sameOperationSnapshot, type OperationSnapshotSource } from '@application/usecases/undo/operation-journal-recorder';
+
+export interface UndoTarget {
+    readonly repository: GitRepository;
+    readonly worktree: Worktree;
+}
+
+/**
+ * Reverts the newest journaled operation of a worktree. The repository must still be exactly where the operation
+ * left it, so Undo never rewinds work that happened afterwards.
+ */
+export class UndoLastOperationUseCase {
+    constructor(private readonly journal: OperationJournal) {}
+
+    /** The entry Undo would revert; repository-wide operations such as branch deletion count for every worktree. */
+    latest(target: UndoTarget): OperationJournalEntry | undefined {
+        return [...this.journal.entries(target.repository.repoId)]
+            .reverse()
+            .find((entry) => !entry.worktreeId || entry.worktreeId === target.worktree.worktreeId);
+    }
+
+    async execute(target: UndoTarget, signal?: AbortSignal): Promise<OperationJournalEntry> {
+        const entry = this.latest(target);
+        if (!entry) { throw new Error('There is no operation to undo.'); }
+        const current = await captureOperationSnapshot(snapshotSource(target), signal);
+        if (!sameOperationSnapshot(current, entry.after)) {
+            throw new Error(`The repository changed after the ${describeJournaledOperation(entry)}, so it can no longer be undone.`);
+        }
+        await revert(entry, target, signal);
+        // Reverting runs journaled operations too; dropping them with the entry keeps Undo from redoing its own work.
+        await this.journal.truncate(target.repository.repoId, entry.id);
+        return entry;
+    }
+}
+
+/** Short lower-case label such as "checkout of main" for prompts and notices. */
+export function describeJournaledOperation(entry: OperationJournalEntry): string {
+    const branch = entry.before.branch ?? 'HEAD';
+    switch (entry.operation) {
+        case 'checkout':
+        case 'checkoutNewBranch':
+            return `checkout of ${entry.after.branch ?? shortHash(entry.after.head)}`;
+        case 'amendCommit':
+            return `amend of ${shortHash(entry.before.head)}`;
+        case 'resetSoft':
+        case 'resetMixed':
+        case 'resetHard':
+        case 'resetKeep':
+        case 'undoLastCommit':
+        case 'restoreFromReflog':
+            return `reset of ${branch} to ${shortHash(entry.after.head)}`;
+        case 'merge':
+            return `merge into ${branch}`;
+        case 'pull':
+            return `pull into ${branch}`;
+        case 'dropStash':
+            return `drop of ${entry.droppedStashes?.[0]?.message ?? 'a stash'}`;
+        case 'clearStashes':
+            return `drop of ${entry.droppedStashes?.length ?? 0} stashes`;
+        case 'deleteBranch':
+            return `deletion of ${entry.deletedBranch?.name ?? 'a branch'}`;
+        case 'dropCommit':
+            return `commit drop on ${branch}`;
+        default:
+            return `rebase of ${branch}`;
+    }
+}
+
+async function revert(entry: OperationJournalEntry, { repository, worktree }: UndoTarget, signal: AbortSignal | undefined): Promise<void> {
+    switch (entry.operation) {
+        case 'checkout':
+        case 'checkoutNewBranch':
+            await worktree.undoCheckout(entry.before.branch ?? requiredHead(entry), signal);
+            return;
+        case 'amendCommit':
+            await worktree.undoAmend(requiredHead(entry), signal);
+            return;
+        case 'dropStash':
+        case 'clearStashes':
+            for (const stash of entry.droppedStashes ?? []) {
+                await worktree.storeStash(stash.hash, stash.message, signal);
+            }
+            return;
+        case 'deleteBranch':
+            if (!entry.deletedBranch) { throw new Error('The deleted branch was not recorded.'); }
+            await repository.createBranch(entry.deletedBranch.name, entry.deletedBranch.tip, signal);
+            return;
+        default:
+            await resetBranch(entry, worktree, signal);
+    }
+}
+
+/**
+ * Moves the branch back for resets, merges, pulls, and rebases. Soft and mixed resets are undone in the same mode,
+ * so staged and unstaged work stays as it was; everything else uses `--keep`, which refuses to overwrite local changes.
+ */
+async function resetBranch(entry: OperationJournalEntry, worktree: Worktree, signal: AbortSignal | undefined): Promise<void> {
+    if (entry.before.branch !== entry.after.branch) {
+        throw new Error(`The ${describeJournaledOperation(entry)} also switched branches and cannot be undone.`);
+    }
+    const head = requiredHead(entry);
+    switch (entry.resetMode) {
+        case 'soft':
+            await worktree.resetSoft(head, signal);
+            return;
+        case 'mixed':
+            await worktree.resetMixed(head, signal);
+            return;
+        default:
+            await worktree.resetKeep(head, signal);
+    }
+}
+
+function requiredHead(entry: OperationJournalEntry): string {
+    if (!entry.before.head) { throw new Error(`The ${describeJournaledOperation(entry)} started on an unborn branch and cannot be undone.`); }
+    return entry.before.head;
+}
+
+function shortHash(hash: string | null): string {
+    return hash ? hash.substring(0, 7) : 'an unborn branch';
+}
+
+function snapshotSource({ repository, worktree }: UndoTarget): OperationSnapshotSource {
+    return {
+        resolveRef: (ref, signal) => repository.resolveRef(ref, signal),
+        listBranches: (signal) => repository.listBranches(signal),
+        listStashes: (pageRequest, signal) => worktree.listStashes(pageRequest, signal),
+    };
+}
@@ -0,0 +1,58 @@
+import type { GitBlameLine } from '@core/git/domain/git-blame';
+import type { GitDiffHunk } from '@core/git/domain/git-diff';
+
+/** The commit `git blame` reports for lines that differ from every commit. */
+export const UNCOMMITTED_BLAME_COMMIT = '0'.repeat(40);
+
+/** An edit to a blamed document: 1-based lines `startLine` to `endLine` were replaced by `lineCount` lines. */
+export interface BlameLineEdit {
+    readonly startLine: number;
+    readonly endLine: number;
+    readonly lineCount: number;
+    /**
+     * A replaced line whose text the edit left as it was: `start` when text was only added after the
+     * end of `startLine`, `end` when whole lines were only added or removed before `endLine`.
+     */
+    readonly intactLine?: 'start' | 'end';
+}
+
+/**
+ * Maps a 1-based line of a file to the matching line in the revision before a change, given the
+ * hunks of the diff from that revision. A line the change added or rewrote maps to the start of
+ * the text it replaced, so blame can continue from the code the change touched.
+ */
+export function lineBeforeChange(hunks: readonly Pick<GitDiffHunk, 'oldStart' | 'oldLines' | 'newStart' | 'newLines'>[], line: number): number {
+    let offset = 0;
+    for (const hunk of hunks) {
+        // A hunk that only removes lines sits after its `newStart` line; other hunks start on it.
+        const firstNewLine = hunk.newLines === 0 ? hunk.newStart + 1 : hunk.newStart;
+        if (line < firstNewLine) { break; }
+        if (line < hunk.newStart + hunk.newLines) { return Math.max(1, hunk.oldStart); }
+        offset += hunk.oldLines - hunk.newLines;
+    }
+    return Math.max(1, line + offset);
+}
+
+/**
+ * Remaps blame through an edit without blaming again: lines below the edit shift, an intact line
+ * keeps its blame, and every other line of the replacement is not committed yet.
+ */
+export function applyBlameLineEdit(lines: readonly GitBlameLine[], edit: BlameLineEdit): GitBlameLine[] {
+    const shift = edit.lineCount - (edit.endLine - edit.startLine + 1);
+    const intactOldLine = edit.intactLine === 'start' ? edit.startLine : edit.intactLine === 'end' ? edit.endLine : undefined;
+    const intactNewLine = edit.intactLine === 'end' ? edit.startLine + edit.lineCount - 1 : edit.startLine;
+    const intact = lines.find((line) => line.line === intactOldLine);
+    const replacement: GitBlameLine[] = [];
+    for (let line = edit.startLine; line < edit.startLine + edit.lineCount; line++) {
+        replacement.push(intact && line === intactNewLine ? { ...intact, line } : uncommittedBlameLine(line));
+    }
+    return [
+        ...lines.filter((line) => line.line < edit.startLine),
+        ...replacement,
+        ...lines.filter((line) => line.line > edit.endLine).map((line) => ({ ...line, line: line.line + shift })),
+    ];
+}
+
+function uncommittedBlameLine(line: number): GitBlameLine {
+    return { line, commit: UNCOMMITTED_BLAME_COMMIT, author: 'Not Committed Yet', authorTime: undefined, summary: undefined };
+}
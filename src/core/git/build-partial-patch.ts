@@ -0,0 +1,162 @@
+import type { GitDiffHunk, GitDiffLine, GitFileDiff } from '@core/git/domain/git-diff';
+
+const HUNK_RANGES = /^@@ -\d+(?:,\d+)? \+\d+(?:,\d+)? @@/;
+const NO_NEWLINE_MARKER = '\\ No newline at end of file';
+
+export enum PartialPatchDirection {
+    /** The patch is applied as-is on top of the diff's old side (stage). */
+    Apply,
+    /** The patch is applied with `--reverse` on top of the diff's new side (unstage, discard). */
+    Reverse,
+}
+
+export interface DiffLineRange {
+    readonly startLine: number;
+    readonly endLine: number;
+}
+
+/** Selected line indexes keyed by hunk index; `undefined` selects every change in the hunk. */
+export type HunkLineSelection = ReadonlyMap<number, ReadonlySet<number> | undefined>;
+
+/**
+ * Rebuilds a single-file patch that only carries the selected changes. Unselected changes are
+ * turned into context on the side the patch is applied to and dropped from the other side, so
+ * the result applies cleanly with `git apply` (or `git apply --reverse` for `Reverse`).
+ */
+export function buildPartialPatch(file: GitFileDiff, selection: HunkLineSelection, direction: PartialPatchDirection): string | undefined {
+    if (file.binary) { throw new Error('Binary changes cannot be staged by hunk or line.'); }
+    const wholeFileChange = file.oldPath === undefined || file.newPath === undefined;
+    const hunks: string[] = [];
+    let delta = 0;
+
+    file.hunks.forEach((hunk, hunkIndex) => {
+        if (!selection.has(hunkIndex)) { return; }
+        const body = partialHunkBody(hunk, selection.get(hunkIndex), direction);
+        if (!body.changed) { return; }
+        if (wholeFileChange && body.partial) {
+            throw new Error('Added or deleted files can only be staged as a whole.');
+        }
+        const anchorPosition = direction === PartialPatchDirection.Apply
+            ? rangePosition(hunk.oldStart, hunk.oldLines)
+            : rangePosition(hunk.newStart, hunk.newLines);
+        const oldPosition = direction === PartialPatchDirection.Apply ? anchorPosition : anchorPosition - delta;
+        const newPosition = direction === PartialPatchDirection.Apply ? anchorPosition + delta : anchorPosition;
+        const section = hunk.header.replace(HUNK_RANGES, '');
+        hunks.push(
+            `@@ -${rangeStart(oldPosition, body.oldCount)},${body.oldCount} +${rangeStart(newPosition, body.newCount)},${body.newCount} @@${section}`,
+            ...body.lines,
+        );
+        delta += body.newCount - body.oldCount;
+    });
+
+    if (hunks.length === 0) { return undefined; }
+    return [...file.headerLines, ...hunks].join('\n') + '\n';
+}
+
+/** Selects the changes touching `range`, given in new-side line numbers. */
+export function selectDiffLines(file: GitFileDiff, range: DiffLineRange): HunkLineSelection {
+    const selection = new Map<number, ReadonlySet<number>>();
+    file.hunks.forEach((hunk, hunkIndex) => {
+        const selected = new Set<number>();
+        let cursor = rangePosition(hunk.newStart, hunk.newLines);
+        hunk.lines.forEach((line, lineIndex) => {
+            if (line.kind === 'add' && line.newLine !== undefined) {
+                if (line.newLine >= range.startLine && line.newLine <= range.endLine) { selected.add(lineIndex); }
+            } else if (line.kind === 'remove') {
+                // A deletion sits before the next new-side line; trailing deletions also belong to the line above.
+                const trailing = !hunk.lines.slice(lineIndex + 1).some((next) => next.kind !== 'remove');
+                if (cursor >= range.startLine && cursor <= range.endLine + (trailing ? 1 : 0)) { selected.add(lineIndex); }
+            }
+            if (line.newLine !== undefined) { cursor = line.newLine + 1; }
+        });
+        if (selected.size > 0) { selection.set(hunkIndex, selected); }
+    });
+    return selection;
+}
+
+/** Maps new-side line numbers of `file` onto its old side, clamping lines inside a change to its old position. */
+export function mapDiffLineRangeToOldSide(file: GitFileDiff, range: DiffLineRange): DiffLineRange {
+    return {
+        startLine: mapNewLineToOldLine(file, range.startLine),
+        endLine: mapNewLineToOldLine(file, range.endLine),
+    };
+}
+
+function mapNewLineToOldLine(file: GitFileDiff, line: number): number {
+    let delta = 0;
+    for (const hunk of file.hunks) {
+        const start = rangePosition(hunk.newStart, hunk.newLines);
+        if (line < start) { break; }
+        if (line < start + hunk.newLines) {
+            let oldCursor = rangePosition(hunk.oldStart, hunk.oldLines);
+            for (const hunkLine of hunk.lines) {
+                if (hunkLine.newLine === line) {
+                    return hunkLine.kind === 'context' && hunkLine.oldLine !== undefined ? hunkLine.oldLine : oldCursor;
+                }
+                if (hunkLine.oldLine !== undefined) { oldCursor = hunkLine.oldLine + 1; }
+            }
+            return oldCursor;
+        }
+        delta += hunk.newLines - hunk.oldLines;
+    }
+    return line - delta;
+}
+
+interface PartialHunkBody {
+    readonly lines: readonly string[];
+    readonly oldCount: number;
+    readonly newCount: number;
+    readonly changed: boolean;
+    readonly partial: boolean;
+}
+
+function partialHunkBody(
+    hunk: GitDiffHunk,
+    selected: ReadonlySet<number> | undefined,
+    direction: PartialPatchDirection,
+): PartialHunkBody {
+    const lines: string[] = [];
+    let oldCount = 0;
+    let newCount = 0;
+    let changed = false;
+    let partial = false;
+    const emit = (prefix: string, line: GitDiffLine) => {
+        lines.push(`${prefix}${line.text}`);
+        if (line.noNewlineAtEnd) { lines.push(NO_NEWLINE_MARKER); }
+    };
+
+    hunk.lines.forEach((line, lineIndex) => {
+        if (line.kind === 'context') {
+            emit(' ', line);
+            oldCount++;
+            newCount++;
+            return;
+        }
+        const isSelected = selected === undefined || selected.has(lineIndex);
+        if (isSelected) {
+            changed = true;
+            emit(line.kind === 'add' ? '+' : '-', line);
+            if (line.kind === 'add') { newCount++; } else { oldCount++; }
+            return;
+        }
+        partial = true;
+        // Unselected changes stay as they are on the side the patch applies to.
+        const keepAsContext = (line.kind === 'remove') === (direction === PartialPatchDirection.Apply);
+        if (keepAsContext) {
+            emit(' ', line);
+            oldCount++;
+            newCount++;
+        }
+    });
+
+    return { lines, oldCount, newCount, changed, partial };
+}
+
+/** First line covered by a hunk side; empty sides point at the line before the change. */
+function rangePosition(start: number, count: number): number {
+    return count > 0 ? start : start + 1;
+}
+
+function rangeStart(position: number, count: number): number {
+    return count > 0 ? position : position - 1;
+}
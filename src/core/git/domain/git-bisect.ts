@@ -0,0 +1,23 @@
+export type GitBisectMark = 'good' | 'bad' | 'skip';
+
+/** One decision recorded in `git bisect log`, oldest first. */
+export interface GitBisectLogEntry {
+    readonly mark: GitBisectMark;
+    readonly hash: string;
+    readonly subject: string;
+}
+
+/** Bisect session of a worktree, read from `refs/bisect/*`, `HEAD` and `git bisect log`. */
+export interface GitBisectState {
+    readonly badHash?: string;
+    readonly goodHashes: readonly string[];
+    readonly skippedHashes: readonly string[];
+    /** Commit checked out for testing; absent on an unborn or unreadable HEAD. */
+    readonly currentHash?: string;
+    /** Revisions left to test after the current one; known once a good and a bad commit are marked. */
+    readonly remainingRevisions?: number;
+    readonly remainingSteps?: number;
+    /** Set once only the bad commit remains, which is when git reports the first bad commit. */
+    readonly firstBadHash?: string;
+    readonly log: readonly GitBisectLogEntry[];
+}
@@ -4,4 +4,31 @@ export interface GitBlameLine {
     readonly author: string;
     readonly authorTime: number | undefined;
     readonly summary: string | undefined;
+    /** The line's number in the file as `commit` left it. */
+    readonly originalLine?: number;
+    /** The file's path in `commit`, which differs from the blamed path when the file was renamed since. */
+    readonly filePath?: string;
+    /** The parent revision blame would continue in; absent when `commit` added the line with the file or is a boundary. */
+    readonly previous?: GitBlamePrevious;
+    /** Blame looked past an ignored revision that changed this line to reach `commit`. */
+    readonly ignored?: boolean;
+}
+
+export interface GitBlamePrevious {
+    readonly commit: string;
+    readonly filePath: string;
+}
+
+/** How far blame follows moved or copied lines: `-M`, then `-C` once, twice, or three times. */
+export type GitBlameMoveCopyDetection = 'off' | 'withinFile' | 'acrossFiles' | 'acrossFilesAtCreation' | 'acrossAllCommits';
+
+export interface GitBlameOptions {
+    /** Revision lists to look past besides the files git's `blame.ignoreRevsFile` config names, which git reads itself. */
+    readonly ignoreRevsFiles?: readonly string[];
+    /** Flag lines attributed past an ignored revision; this takes a second blame pass. */
+    readonly markIgnoredLines?: boolean;
+    /** A file holding the text to blame in place of the working file, such as an unsaved editor buffer. */
+    readonly contentsFile?: string;
+    readonly ignoreWhitespace?: boolean;
+    readonly moveCopyDetection?: GitBlameMoveCopyDetection;
 }
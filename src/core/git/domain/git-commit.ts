@@ -1,3 +1,5 @@
+import type { GitCommitSignature } from '@core/git/domain/git-signature';
+
 export type GitFileStatus = 'A' | 'M' | 'D' | 'R' | 'C' | 'T' | 'U';
 
 export interface GitCommitInput {
@@ -9,6 +11,7 @@ export interface GitCommitInput {
     readonly authorDate: string;
     readonly parentHashes: readonly string[];
     readonly refs?: readonly string[];
+    readonly signature?: GitCommitSignature;
 }
 
 export class GitCommit {
@@ -20,6 +23,7 @@ export class GitCommit {
     readonly authorDate: string;
     readonly parentHashes: readonly string[];
     readonly refs?: readonly string[];
+    readonly signature?: GitCommitSignature;
 
     constructor(input: GitCommitInput) {
         this.hash = input.hash;
@@ -30,6 +34,7 @@ export class GitCommit {
         this.authorDate = input.authorDate;
         this.parentHashes = input.parentHashes;
         this.refs = input.refs ?? [];
+        if (input.signature) { this.signature = input.signature; }
     }
 }
 
@@ -44,4 +49,11 @@ export interface GitFileChange {
     readonly origPath?: string;
     readonly parentHash?: string;
     readonly isSubmodule?: boolean;
+    /** Tracked by Git LFS (`filter=lfs` in `.gitattributes`). */
+    readonly isLfs?: boolean;
+}
+
+/** One commit in a followed file's history, with the path the file had in that commit. */
+export interface GitFileRevision extends GitFileChange {
+    readonly commitHash: string;
 }
@@ -0,0 +1,28 @@
+export type GitDiffLineKind = 'context' | 'add' | 'remove';
+
+export interface GitDiffLine {
+    readonly kind: GitDiffLineKind;
+    readonly text: string;
+    readonly oldLine?: number;
+    readonly newLine?: number;
+    /** The line was followed by `\ No newline at end of file`. */
+    readonly noNewlineAtEnd?: boolean;
+}
+
+export interface GitDiffHunk {
+    readonly header: string;
+    readonly oldStart: number;
+    readonly oldLines: number;
+    readonly newStart: number;
+    readonly newLines: number;
+    readonly lines: readonly GitDiffLine[];
+}
+
+/** One file section of a unified diff, with the `diff --git` .. `+++` header kept verbatim. */
+export interface GitFileDiff {
+    readonly headerLines: readonly string[];
+    readonly oldPath: string | undefined;
+    readonly newPath: string | undefined;
+    readonly binary: boolean;
+    readonly hunks: readonly GitDiffHunk[];
+}
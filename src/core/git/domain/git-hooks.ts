@@ -0,0 +1,17 @@
+/** Hooks git runs for a repository: the files of `core.hooksPath`, or of the `hooks` directory of its git directory. */
+export interface GitHooks {
+    /** Absolute directory git looks for hooks in. */
+    readonly directory: string;
+    /** `core.hooksPath` as configured; unset when hooks live in the git directory. */
+    readonly configuredPath?: string;
+    /** Installed hooks sorted by name; `.sample` files are left out since git never runs them. */
+    readonly hooks: readonly GitHook[];
+}
+
+export interface GitHook {
+    /** Hook name, such as `pre-commit`. */
+    readonly name: string;
+    readonly path: string;
+    /** Git skips hooks that are not executable. */
+    readonly executable: boolean;
+}
@@ -0,0 +1,24 @@
+/** File that `addIgnorePattern` writes: the nearest `.gitignore` or the repository-local `info/exclude`. */
+export type GitIgnoreTarget = 'gitignore' | 'infoExclude';
+
+/** How much of an untracked path a new pattern covers. */
+export type GitIgnorePatternScope = 'path' | 'folder' | 'extension';
+
+/** Rule reported by `git check-ignore -v` for one path. */
+export interface GitIgnoreRule {
+    /** Exclude file holding the rule, relative to the worktree or absolute for a global excludes file. */
+    readonly source: string;
+    readonly line: number;
+    readonly pattern: string;
+    readonly path: string;
+    /** `!pattern` rules re-include the path instead of ignoring it. */
+    readonly negated: boolean;
+}
+
+export interface GitIgnoreEdit {
+    /** Exclude file that was checked, relative to the worktree. */
+    readonly ignoreFile: string;
+    readonly pattern: string;
+    /** False when the file already listed the pattern. */
+    readonly added: boolean;
+}
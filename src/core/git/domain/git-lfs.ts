@@ -0,0 +1,7 @@
+/** Pointer file Git LFS commits in place of a tracked file's content. */
+export interface GitLfsPointer {
+    /** Object ID of the stored content, e.g. `sha256:4d7a…`. */
+    readonly oid: string;
+    /** Size of the stored content in bytes. */
+    readonly size: number;
+}
@@ -0,0 +1,6 @@
+/** Note attached to a commit under one notes ref. */
+export interface GitNote {
+    /** Full notes ref, e.g. `refs/notes/commits`. */
+    readonly ref: string;
+    readonly message: string;
+}
@@ -0,0 +1,26 @@
+/** How a commit of the old series relates to its counterpart in the new series, per `git range-diff`. */
+export type GitRangeDiffPairStatus = 'unchanged' | 'modified' | 'added' | 'dropped';
+
+/** One commit of a range, numbered from 1 in the order `git range-diff` lists it (oldest first). */
+export interface GitRangeDiffCommit {
+    readonly position: number;
+    readonly hash: string;
+}
+
+/** One line of `git range-diff` output: a matched pair, a dropped old commit, or an added new commit. */
+export interface GitRangeDiffPair {
+    readonly status: GitRangeDiffPairStatus;
+    /** Absent for commits only in the new range. */
+    readonly oldCommit?: GitRangeDiffCommit;
+    /** Absent for commits only in the old range. */
+    readonly newCommit?: GitRangeDiffCommit;
+    readonly subject: string;
+    /** Diff between the old and new version of the patch; present only for modified pairs. */
+    readonly interdiff?: string;
+}
+
+/** Two commit ranges, each in `base..tip` form, compared by `git range-diff`. */
+export interface GitRangeDiffRanges {
+    readonly oldRange: string;
+    readonly newRange: string;
+}
@@ -0,0 +1,13 @@
+/** Ref written under `refs/look-git/backup/` before Visual Rebase rewrites a branch. */
+export interface GitRebaseBackup {
+    readonly ref: string;
+    readonly hash: string;
+    /** Branch name as recorded in the ref, where characters that are unsafe in a ref name became `-`. */
+    readonly branchLabel: string;
+    /** When the backup was written, in milliseconds since the epoch. */
+    readonly createdAt: number;
+    /** Local branch the backup was taken from; absent when no local branch matches the recorded name. */
+    readonly branch?: string;
+    /** Commits of the backup that the branch no longer contains; known only when the branch still exists. */
+    readonly commitCount?: number;
+}
@@ -0,0 +1,13 @@
+/** Raw reflog entry from `git log --walk-reflogs`, newest first. */
+export interface GitReflogEntry {
+    /** Stable selector for this entry at read time, e.g. `HEAD@{3}`. */
+    readonly selector: string;
+    readonly hash: string;
+    /** Value the ref held before this entry; absent for the oldest loaded entry of the log. */
+    readonly previousHash?: string;
+    /** Reflog action, e.g. `commit (amend)`, `rebase (finish)`, `reset`. */
+    readonly action: string;
+    readonly message: string;
+    readonly commitSubject: string;
+    readonly date: string;
+}
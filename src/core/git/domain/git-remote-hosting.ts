@@ -0,0 +1,29 @@
+/** Hosting service whose web URLs Look Git knows how to build. Gitea covers Forgejo and Codeberg. */
+export type GitRemoteHostingProvider = 'github' | 'gitlab' | 'bitbucket' | 'gitea' | 'azureDevOps';
+
+/** User-configured host for a self-hosted instance, e.g. `git.example.com` or `*.corp.example:8443`. */
+export interface GitRemoteHostPattern {
+    /** Host glob where `*` matches any run of characters; a `:port` suffix only matches that port. */
+    readonly host: string;
+    readonly provider: GitRemoteHostingProvider;
+}
+
+/** Browsable repository page behind a remote URL. */
+export interface GitRemoteWebRepository {
+    readonly provider: GitRemoteHostingProvider;
+    /** Repository home page without a trailing slash, e.g. `https://github.com/owner/repo`. */
+    readonly url: string;
+}
+
+/** One-based, inclusive line range of a permalink. */
+export interface GitRemoteLineRange {
+    readonly start: number;
+    readonly end: number;
+}
+
+/** Linkable part of a commit message; offsets are UTF-16 indexes into the message, `end` exclusive. */
+export interface GitCommitMessageLink {
+    readonly start: number;
+    readonly end: number;
+    readonly url: string;
+}
@@ -0,0 +1,24 @@
+/**
+ * Verification result of a signed commit, folded from git's `%G?` codes: `good` (G), `bad` (B, R),
+ * `untrusted` (U, a good signature from a key without full trust), `expired` (X, Y) and `unknown`
+ * (E, the key or signing program is not available).
+ */
+export type GitSignatureStatus = 'good' | 'bad' | 'untrusted' | 'expired' | 'unknown';
+
+export interface GitCommitSignature {
+    readonly status: GitSignatureStatus;
+    /** Signer name (`%GS`); GPG reports the key's user ID, SSH the matching principal. */
+    readonly signer?: string;
+    /** Key ID or SSH key fingerprint (`%GK`). */
+    readonly key?: string;
+}
+
+/** Signing defaults the repository's git config sets for new commits and tags. */
+export interface GitSigningConfig {
+    /** `commit.gpgSign`: commits, amends and rebased commits are signed. */
+    readonly signCommits: boolean;
+    /** `tag.gpgSign`: tags are created as signed annotated tags. */
+    readonly signTags: boolean;
+    /** `gpg.format`: `openpgp`, `ssh` or `x509`. */
+    readonly format: string;
+}
@@ -5,20 +5,34 @@ export interface GitStatusEntry {
     readonly filePath: string;
     readonly origPath?: string;
     readonly isSubmodule?: boolean;
+    /** Tracked by Git LFS (`filter=lfs` in `.gitattributes`). */
+    readonly isLfs?: boolean;
 }
 
-export type ConflictState = 'none' | 'merge' | 'rebase';
+export type ConflictState = 'none' | 'merge' | 'rebase' | 'cherryPick' | 'revert';
+
+/** A multi-commit cherry-pick or revert read from `.git/sequencer/todo`. */
+export interface GitSequencerState {
+    readonly conflictState: 'cherryPick' | 'revert';
+    /** Commits still listed in the todo, including the one that stopped. */
+    readonly remaining: number;
+}
 
 export interface GitStatus {
     readonly staged: readonly GitStatusEntry[];
     readonly unstaged: readonly GitStatusEntry[];
     readonly conflicts: readonly GitStatusEntry[];
     readonly conflictState: ConflictState;
+    readonly sequencerRemaining?: number;
 }
 
 export interface GitStash {
     readonly index: number;
     readonly message: string;
+    /** The stash commit; its parents are the base commit, the index commit and, when untracked files were stashed, the untracked files commit. */
+    readonly hash?: string;
+    readonly parentHashes?: readonly string[];
+    readonly date?: string;
 }
 
 /** Raw branch from git branch/for-each-ref. */
@@ -35,5 +49,15 @@ export interface GitBranch {
 /** Raw tag from git tag. */
 export interface GitTag {
     readonly name: string;
+    /** Object the tag ref names: the tag object of an annotated tag, otherwise the tagged commit. */
     readonly hash: string;
+    /** Tagged commit; the tag object is peeled for annotated tags. */
+    readonly target?: string;
+    readonly annotated?: boolean;
+    readonly taggerName?: string;
+    readonly taggerEmail?: string;
+    /** ISO 8601 tagger date of an annotated tag, or the commit date of a lightweight one. */
+    readonly date?: string;
+    /** Message of an annotated tag without its signature. */
+    readonly message?: string;
 }
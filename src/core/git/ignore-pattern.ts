@@ -0,0 +1,72 @@
+import type { GitIgnorePatternScope } from '@core/git/domain/git-ignore';
+
+/**
+ * Builds the pattern that ignores `filePath` from an exclude file whose patterns are relative to `baseDirectory`.
+ * Both paths are repository-relative and `/`-separated; `''` is the repository root, which is also where
+ * `info/exclude` patterns are anchored. Path and folder patterns get a leading slash so they never match
+ * same-named entries elsewhere in the tree. Returns undefined when the scope does not apply to the path.
+ */
+export function ignorePatternFor(filePath: string, scope: GitIgnorePatternScope, baseDirectory = ''): string | undefined {
+    switch (scope) {
+        case 'path': {
+            const relativePath = relativeTo(baseDirectory, filePath);
+            return relativePath ? `/${escapeIgnorePattern(relativePath)}` : undefined;
+        }
+        case 'folder': {
+            const relativeFolder = relativeTo(baseDirectory, parentDirectory(filePath));
+            return relativeFolder ? `/${escapeIgnorePattern(relativeFolder)}/` : undefined;
+        }
+        case 'extension': {
+            const extension = fileExtension(filePath);
+            return extension ? `*.${escapeIgnorePattern(extension)}` : undefined;
+        }
+    }
+}
+
+/**
+ * Directories whose `.gitignore` may hold the new pattern, nearest first and ending with the root.
+ * A folder pattern has to live above the folder it ignores, so its search starts one level higher.
+ */
+export function ignoreFileDirectoriesFor(filePath: string, scope: GitIgnorePatternScope): readonly string[] {
+    let directory = parentDirectory(filePath);
+    if (scope === 'folder') { directory = parentDirectory(directory); }
+    const directories: string[] = [];
+    while (directory) {
+        directories.push(directory);
+        directory = parentDirectory(directory);
+    }
+    directories.push('');
+    return directories;
+}
+
+/** Returns the exclude file content with `pattern` on its own line, or undefined when the line already exists. */
+export function appendIgnorePattern(content: string, pattern: string): string | undefined {
+    const lines = content.split(/\r?\n/);
+    if (lines.includes(pattern)) { return undefined; }
+    const separator = content === '' || content.endsWith('\n') ? '' : '\n';
+    return `${content}${separator}${pattern}\n`;
+}
+
+function escapeIgnorePattern(value: string): string {
+    return value
+        .replace(/[\\*?[]/g, '\\$&')
+        // Git strips unescaped trailing spaces from patterns.
+        .replace(/ +$/, (spaces) => spaces.replace(/ /g, '\\ '));
+}
+
+function relativeTo(baseDirectory: string, filePath: string): string | undefined {
+    if (!baseDirectory) { return filePath || undefined; }
+    return filePath.startsWith(`${baseDirectory}/`) ? filePath.substring(baseDirectory.length + 1) || undefined : undefined;
+}
+
+function parentDirectory(filePath: string): string {
+    const separator = filePath.lastIndexOf('/');
+    return separator === -1 ? '' : filePath.substring(0, separator);
+}
+
+function fileExtension(filePath: string): string | undefined {
+    const name = filePath.substring(filePath.lastIndexOf('/') + 1);
+    const dot = name.lastIndexOf('.');
+    // Dotfiles such as `.env` have no extension.
+    return dot > 0 && dot < name.length - 1 ? name.substring(dot + 1) : undefined;
+}
@@ -0,0 +1,9 @@
+interface LfsMarkable {
+    readonly filePath: string;
+    readonly isLfs?: boolean;
+}
+
+/** Flags the files Git LFS tracks; `lfsPaths` holds repository-relative paths from `getLfsTrackedPaths`. */
+export function markLfsFiles<T extends LfsMarkable>(files: readonly T[], lfsPaths: ReadonlySet<string>): T[] {
+    return files.map((file) => lfsPaths.has(file.filePath) ? { ...file, isLfs: true } : file);
+}
@@ -0,0 +1,17 @@
+export const NOTES_REF_PREFIX = 'refs/notes/';
+
+/** Ref `git notes` reads and writes when neither `--ref` nor `core.notesRef` selects another. */
+export const DEFAULT_NOTES_REF = `${NOTES_REF_PREFIX}commits`;
+
+/** Expands a notes ref the way `git notes --ref` does: `qa` and `notes/qa` both become `refs/notes/qa`. */
+export function fullNotesRef(name: string): string {
+    const trimmed = name.trim();
+    if (trimmed.startsWith(NOTES_REF_PREFIX)) { return trimmed; }
+    if (trimmed.startsWith('notes/')) { return `refs/${trimmed}`; }
+    return `${NOTES_REF_PREFIX}${trimmed}`;
+}
+
+/** Label of a notes ref without the `refs/notes/` prefix. */
+export function notesRefLabel(ref: string): string {
+    return ref.startsWith(NOTES_REF_PREFIX) ? ref.substring(NOTES_REF_PREFIX.length) : ref;
+}
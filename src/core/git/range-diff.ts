@@ -0,0 +1,31 @@
+import type { GitRangeDiffRanges } from '@core/git/domain/git-range-diff';
+
+interface RangeCommit {
+    readonly hash: string;
+    readonly parentHashes: readonly string[];
+}
+
+/** Both versions of a series: what `a` has that `b` lacks, against what `b` has that `a` lacks (`git range-diff a...b`). */
+export function symmetricRangeDiffRanges(oldTip: string, newTip: string): GitRangeDiffRanges {
+    return { oldRange: `${newTip}..${oldTip}`, newRange: `${oldTip}..${newTip}` };
+}
+
+/**
+ * Splits `commits`, ordered newest first, into runs linked by first parents, e.g. the rows of two
+ * shift-click selections in the graph. Each run is ordered newest first.
+ */
+export function firstParentRuns<T extends RangeCommit>(commits: readonly T[]): readonly (readonly T[])[] {
+    const runs: T[][] = [];
+    for (const commit of commits) {
+        const run = runs.find((candidate) => candidate.at(-1)?.parentHashes[0] === commit.hash);
+        if (run) { run.push(commit); } else { runs.push([commit]); }
+    }
+    return runs;
+}
+
+/** `base..tip` range covering exactly `run`; undefined when the run ends at a root commit. */
+export function rangeForRun(run: readonly RangeCommit[]): string | undefined {
+    const tip = run[0];
+    const base = run.at(-1)?.parentHashes[0];
+    return tip && base ? `${base}..${tip.hash}` : undefined;
+}
@@ -0,0 +1,40 @@
+import type { GitRebaseBackup } from '@core/git/domain/git-rebase-backup';
+
+export const REBASE_BACKUP_REF_PREFIX = 'refs/look-git/backup/';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const BACKUP_REF_NAME = /^(.+)-(\d{4})(\d{2})(\d{2})-(\d{2})(\d{2})(\d{2})$/;
+
+/** Name of `branch` inside a backup ref; several branches can share a label. */
+export function rebaseBackupBranchLabel(branch: string): string {
+    return branch.replace(/[^A-Za-z0-9._-]+/g, '-').replace(/^-+|-+$/g, '') || 'branch';
+}
+
+/** Backup ref for `branch` taken at `date`, e.g. `refs/look-git/backup/feature-x-20240102-030405` (UTC). */
+export function rebaseBackupRef(branch: string, date: Date): string {
+    const pad = (value: number) => String(value).padStart(2, '0');
+    const timestamp = `${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}`
+        + `-${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}`;
+    return `${REBASE_BACKUP_REF_PREFIX}${rebaseBackupBranchLabel(branch)}-${timestamp}`;
+}
+
+/** Reads the branch label and creation time back out of a ref written by `rebaseBackupRef`. */
+export function parseRebaseBackupRef(ref: string): Pick<GitRebaseBackup, 'branchLabel' | 'createdAt'> | undefined {
+    if (!ref.startsWith(REBASE_BACKUP_REF_PREFIX)) { return undefined; }
+    const match = BACKUP_REF_NAME.exec(ref.substring(REBASE_BACKUP_REF_PREFIX.length));
+    if (!match) { return undefined; }
+    const [, branchLabel = '', year = '', month = '', day = '', hours = '', minutes = '', seconds = ''] = match;
+    const createdAt = Date.UTC(Number(year), Number(month) - 1, Number(day), Number(hours), Number(minutes), Number(seconds));
+    return Number.isNaN(createdAt) ? undefined : { branchLabel, createdAt };
+}
+
+/** Backups older than `retentionDays` at `now`; a retention of zero or less keeps every backup. */
+export function expiredRebaseBackups<T extends Pick<GitRebaseBackup, 'createdAt'>>(
+    backups: readonly T[],
+    retentionDays: number,
+    now: number,
+): readonly T[] {
+    if (!(retentionDays > 0)) { return []; }
+    const cutoff = now - retentionDays * DAY_MS;
+    return backups.filter((backup) => backup.createdAt < cutoff);
+}
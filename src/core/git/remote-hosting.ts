@@ -0,0 +1,235 @@
+import type {
+    GitCommitMessageLink,
+    GitRemoteHostingProvider,
+    GitRemoteHostPattern,
+    GitRemoteLineRange,
+    GitRemoteWebRepository,
+} from '@core/git/domain/git-remote-hosting';
+
+/** Hosts recognised without configuration; user patterns are consulted first so they can override these. */
+const KNOWN_HOSTS: readonly GitRemoteHostPattern[] = [
+    { host: 'github.com', provider: 'github' },
+    { host: 'gitlab.com', provider: 'gitlab' },
+    { host: 'bitbucket.org', provider: 'bitbucket' },
+    { host: 'codeberg.org', provider: 'gitea' },
+    { host: 'gitea.com', provider: 'gitea' },
+    { host: 'dev.azure.com', provider: 'azureDevOps' },
+    { host: 'ssh.dev.azure.com', provider: 'azureDevOps' },
+    { host: '*.visualstudio.com', provider: 'azureDevOps' },
+];
+
+interface ParsedRemoteUrl {
+    readonly scheme: string;
+    readonly host: string;
+    readonly port?: string;
+    /** Repository path without leading or trailing slashes and without a `.git` suffix. */
+    readonly path: string;
+}
+
+/**
+ * Resolves the web page of the repository behind `remoteUrl` as printed by `git remote get-url`. Handles
+ * `ssh://`, `git://`, `git+ssh://`, `http(s)://` with credentials or ports, and scp-style `user@host:path`.
+ * SSH transports always browse over https on the default port; http(s) remotes keep their scheme and port.
+ * Returns undefined for local paths and hosts that match neither `patterns` nor a known service.
+ */
+export function resolveRemoteWebRepository(
+    remoteUrl: string,
+    patterns: readonly GitRemoteHostPattern[] = [],
+): GitRemoteWebRepository | undefined {
+    const remote = parseRemoteUrl(remoteUrl.trim());
+    if (!remote || !remote.path) { return undefined; }
+    const provider = hostingProviderFor(remote, patterns);
+    if (!provider) { return undefined; }
+
+    const isWebScheme = remote.scheme === 'http' || remote.scheme === 'https';
+    const origin = isWebScheme
+        ? `${remote.scheme}://${remote.host}${remote.port ? `:${remote.port}` : ''}`
+        : `https://${remote.host}`;
+    if (provider === 'azureDevOps') { return azureWebRepository(remote, origin); }
+    return { provider, url: `${origin}/${remote.path}` };
+}
+
+export function remoteCommitUrl(repository: GitRemoteWebRepository, hash: string): string {
+    switch (repository.provider) {
+        case 'gitlab': return `${repository.url}/-/commit/${hash}`;
+        case 'bitbucket': return `${repository.url}/commits/${hash}`;
+        case 'github':
+        case 'gitea':
+        case 'azureDevOps':
+            return `${repository.url}/commit/${hash}`;
+    }
+}
+
+/** Permalink to `filePath` (repository-relative, `/`-separated) at `revision`, optionally highlighting `lines`. */
+export function remoteFileUrl(
+    repository: GitRemoteWebRepository,
+    revision: string,
+    filePath: string,
+    lines?: GitRemoteLineRange,
+): string {
+    const encodedPath = encodePath(filePath);
+    switch (repository.provider) {
+        case 'github':
+            return `${repository.url}/blob/${revision}/${encodedPath}${lines ? lineFragment(lines, '#L', '-L') : ''}`;
+        case 'gitlab':
+            return `${repository.url}/-/blob/${revision}/${encodedPath}${lines ? lineFragment(lines, '#L', '-') : ''}`;
+        case 'bitbucket':
+            return `${repository.url}/src/${revision}/${encodedPath}${lines ? lineFragment(lines, '#lines-', ':') : ''}`;
+        case 'gitea':
+            return `${repository.url}/src/commit/${revision}/${encodedPath}${lines ? lineFragment(lines, '#L', '-L') : ''}`;
+        case 'azureDevOps': {
+            const query = [`path=${encodeURIComponent(`/${filePath}`)}`, `version=GC${revision}`];
+            if (lines) {
+                // Azure selects up to a column, so the range ends at the start of the line after the last one.
+                query.push(
+                    `line=${lines.start}`,
+                    `lineEnd=${lines.end + 1}`,
+                    'lineStartColumn=1',
+                    'lineEndColumn=1',
+                    'lineStyle=plain',
+                );
+            }
+            query.push('_a=contents');
+            return `${repository.url}?${query.join('&')}`;
+        }
+    }
+}
+
+/** Page of `branch`, the branch name as it exists on the remote (without the remote prefix). */
+export function remoteBranchUrl(repository: GitRemoteWebRepository, branch: string): string {
+    switch (repository.provider) {
+        case 'github': return `${repository.url}/tree/${encodePath(branch)}`;
+        case 'gitlab': return `${repository.url}/-/tree/${encodePath(branch)}`;
+        case 'bitbucket': return `${repository.url}/branch/${encodePath(branch)}`;
+        case 'gitea': return `${repository.url}/src/branch/${encodePath(branch)}`;
+        case 'azureDevOps': return `${repository.url}?version=GB${encodeURIComponent(branch)}`;
+    }
+}
+
+/** Comparison of `head` against `base`; both are branch names as they exist on the remote. */
+export function remoteCompareUrl(repository: GitRemoteWebRepository, base: string, head: string): string {
+    switch (repository.provider) {
+        case 'github':
+        case 'gitea':
+            return `${repository.url}/compare/${encodePath(base)}...${encodePath(head)}`;
+        case 'gitlab':
+            return `${repository.url}/-/compare/${encodePath(base)}...${encodePath(head)}`;
+        case 'bitbucket':
+            return `${repository.url}/branches/compare/${encodeURIComponent(head)}%0D${encodeURIComponent(base)}`;
+        case 'azureDevOps':
+            return `${repository.url}/branchCompare?baseVersion=GB${encodeURIComponent(base)}&targetVersion=GB${encodeURIComponent(head)}`;
+    }
+}
+
+/**
+ * Finds the links in a commit message: bare http(s) URLs, plus `#123` issue references (and GitLab `!123`
+ * merge requests) when the repository's hosting service is known. Links are returned in message order.
+ */
+export function commitMessageLinks(message: string, repository?: GitRemoteWebRepository): readonly GitCommitMessageLink[] {
+    const links: GitCommitMessageLink[] = [];
+    for (const match of message.matchAll(/\bhttps?:\/\/[^\s<>"'`]+/g)) {
+        const url = trimUrlPunctuation(match[0]);
+        links.push({ start: match.index, end: match.index + url.length, url });
+    }
+
+    if (repository) {
+        for (const match of message.matchAll(/(^|[^\w&/#!])([#!])(\d+)\b/g)) {
+            const [, prefix = '', sigil = '', number = ''] = match;
+            const start = match.index + prefix.length;
+            const end = start + sigil.length + number.length;
+            const url = referenceUrl(repository, sigil, number);
+            if (url && !links.some((link) => start < link.end && end > link.start)) {
+                links.push({ start, end, url });
+            }
+        }
+    }
+    return links.sort((left, right) => left.start - right.start);
+}
+
+function parseRemoteUrl(remoteUrl: string): ParsedRemoteUrl | undefined {
+    const url = /^([a-z][a-z0-9+.-]*):\/\/(?:[^@/]*@)?(\[[^\]]+\]|[^:/?#]+)(?::(\d*))?(\/[^?#]*)?/i.exec(remoteUrl);
+    if (url) {
+        const [, rawScheme = '', host = '', port, path = ''] = url;
+        const scheme = rawScheme.toLowerCase();
+        if (scheme === 'file') { return undefined; }
+        return {
+            scheme: scheme === 'git+ssh' || scheme === 'ssh+git' ? 'ssh' : scheme,
+            host: host.toLowerCase(),
+            ...(port ? { port } : {}),
+            path: normalizeRepositoryPath(path),
+        };
+    }
+
+    // scp-style `[user@]host:path`; a single-letter host would be a Windows drive letter.
+    const scp = /^(?:[^@/:]+@)?([^@/:]{2,}|\[[^\]]+\]):(?!\/\/)(.+)$/.exec(remoteUrl);
+    if (scp) {
+        const [, host = '', path = ''] = scp;
+        return { scheme: 'ssh', host: host.toLowerCase(), path: normalizeRepositoryPath(path) };
+    }
+    return undefined;
+}
+
+function normalizeRepositoryPath(path: string): string {
+    return path.replace(/^\/+/, '').replace(/\/+$/, '').replace(/\.git$/i, '');
+}
+
+function hostingProviderFor(remote: ParsedRemoteUrl, patterns: readonly GitRemoteHostPattern[]): GitRemoteHostingProvider | undefined {
+    const hostWithPort = remote.port ? `${remote.host}:${remote.port}` : remote.host;
+    const match = [...patterns, ...KNOWN_HOSTS].find((pattern) => {
+        const host = pattern.host.trim().toLowerCase();
+        return host.includes(':') ? globMatches(host, hostWithPort) : globMatches(host, remote.host);
+    });
+    return match?.provider;
+}
+
+function globMatches(glob: string, value: string): boolean {
+    const source = glob.split('*').map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*');
+    return new RegExp(`^${source}$`).test(value);
+}
+
+function azureWebRepository(remote: ParsedRemoteUrl, origin: string): GitRemoteWebRepository | undefined {
+    const segments = remote.path.split('/');
+    if (remote.scheme === 'http' || remote.scheme === 'https') {
+        return { provider: 'azureDevOps', url: `${origin}/${remote.path}` };
+    }
+    // SSH remotes read `v3/<organization>/<project>/<repository>`.
+    if (segments.length !== 4 || segments[0] !== 'v3') { return undefined; }
+    const [, organization, project, repository] = segments;
+    const url = remote.host.endsWith('.visualstudio.com')
+        ? `https://${organization}.visualstudio.com/${project}/_git/${repository}`
+        : `https://dev.azure.com/${organization}/${project}/_git/${repository}`;
+    return { provider: 'azureDevOps', url };
+}
+
+function lineFragment(lines: GitRemoteLineRange, prefix: string, separator: string): string {
+    return lines.end > lines.start ? `${prefix}${lines.start}${separator}${lines.end}` : `${prefix}${lines.start}`;
+}
+
+function encodePath(path: string): string {
+    return path.split('/').map(encodeURIComponent).join('/');
+}
+
+function trimUrlPunctuation(url: string): string {
+    let trimmed = url.replace(/[.,;:!?]+$/, '');
+    while (trimmed.endsWith(')') && count(trimmed, '(') < count(trimmed, ')')) {
+        trimmed = trimmed.substring(0, trimmed.length - 1).replace(/[.,;:!?]+$/, '');
+    }
+    return trimmed;
+}
+
+function count(value: string, character: string): number {
+    return value.split(character).length - 1;
+}
+
+function referenceUrl(repository: GitRemoteWebRepository, sigil: string, number: string): string | undefined {
+    switch (repository.provider) {
+        case 'github':
+        case 'gitea':
+        case 'bitbucket':
+            return sigil === '#' ? `${repository.url}/issues/${number}` : undefined;
+        case 'gitlab':
+            return sigil === '#' ? `${repository.url}/-/issues/${number}` : `${repository.url}/-/merge_requests/${number}`;
+        case 'azureDevOps':
+            return undefined;
+    }
+}
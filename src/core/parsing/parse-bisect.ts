@@ -0,0 +1,75 @@
+import type { GitBisectLogEntry } from '@core/git/domain/git-bisect';
+
+export interface GitBisectRefs {
+    readonly badHash?: string;
+    readonly goodHashes: readonly string[];
+    readonly skippedHashes: readonly string[];
+}
+
+export interface GitBisectVars {
+    readonly rev?: string;
+    readonly remaining?: number;
+    readonly steps?: number;
+    readonly candidates?: number;
+}
+
+const BISECT_LOG_ENTRY = /^# (good|bad|skip): \[([0-9a-f]+)\] ?(.*)$/;
+
+/**
+ * Parses `git for-each-ref --format='%(objectname) %(refname)' refs/bisect/`.
+ * Only the default `good`/`bad` terms are recognised.
+ */
+export function parseBisectRefs(output: string): GitBisectRefs {
+    let badHash: string | undefined;
+    const goodHashes: string[] = [];
+    const skippedHashes: string[] = [];
+    for (const line of output.split(/\r?\n/)) {
+        const [hash, refName] = line.trim().split(' ');
+        if (!hash || !refName) { continue; }
+        if (refName === 'refs/bisect/bad') {
+            badHash = hash;
+        } else if (refName.startsWith('refs/bisect/good-')) {
+            goodHashes.push(hash);
+        } else if (refName.startsWith('refs/bisect/skip-')) {
+            skippedHashes.push(hash);
+        }
+    }
+    return { ...(badHash ? { badHash } : {}), goodHashes, skippedHashes };
+}
+
+/** Parses the shell assignments printed by `git rev-list --bisect-vars`. */
+export function parseBisectVars(output: string): GitBisectVars {
+    const values = new Map<string, string>();
+    for (const line of output.split(/\r?\n/)) {
+        const separator = line.indexOf('=');
+        if (separator < 0) { continue; }
+        values.set(line.slice(0, separator).trim(), line.slice(separator + 1).trim().replace(/^'(.*)'$/, '$1'));
+    }
+    const rev = values.get('bisect_rev');
+    const remaining = numberValue(values.get('bisect_nr'));
+    const steps = numberValue(values.get('bisect_steps'));
+    const candidates = numberValue(values.get('bisect_all'));
+    return {
+        ...(rev ? { rev } : {}),
+        ...(remaining !== undefined ? { remaining } : {}),
+        ...(steps !== undefined ? { steps } : {}),
+        ...(candidates !== undefined ? { candidates } : {}),
+    };
+}
+
+/** Parses the `# good: [hash] subject` comments of `git bisect log`; replay commands are ignored. */
+export function parseBisectLog(output: string): GitBisectLogEntry[] {
+    const entries: GitBisectLogEntry[] = [];
+    for (const line of output.split(/\r?\n/)) {
+        const match = BISECT_LOG_ENTRY.exec(line);
+        if (!match) { continue; }
+        entries.push({ mark: match[1] as GitBisectLogEntry['mark'], hash: match[2] ?? '', subject: match[3] ?? '' });
+    }
+    return entries;
+}
+
+function numberValue(value: string | undefined): number | undefined {
+    if (value === undefined) { return undefined; }
+    const parsed = Number.parseInt(value, 10);
+    return Number.isNaN(parsed) ? undefined : parsed;
+}
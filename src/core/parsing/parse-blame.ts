@@ -1,4 +1,4 @@
-import type { GitBlameLine } from '@core/git/domain/git-blame';
+import type { GitBlameLine, GitBlamePrevious } from '@core/git/domain/git-blame';
 
 export function parseBlame(raw: string): GitBlameLine[] {
     if (!raw.trim()) { return []; }
@@ -8,20 +8,26 @@ export function parseBlame(raw: string): GitBlameLine[] {
     let current: {
         commit: string;
         line: number;
+        originalLine: number;
         author: string;
         authorTime: number | undefined;
         summary: string | undefined;
+        filePath: string | undefined;
+        previous: GitBlamePrevious | undefined;
     } | undefined;
 
     for (const line of lines) {
-        const header = line.match(/^([0-9a-f]{40}|0{40}) \d+ (\d+)(?: \d+)?$/);
+        const header = line.match(/^([0-9a-f]{40}|0{40}) (\d+) (\d+)(?: \d+)?$/);
         if (header) {
             current = {
                 commit: header[1] ?? '',
-                line: Number(header[2] ?? 0),
+                line: Number(header[3] ?? 0),
+                originalLine: Number(header[2] ?? 0),
                 author: '',
                 authorTime: undefined,
                 summary: undefined,
+                filePath: undefined,
+                previous: undefined,
             };
             continue;
         }
@@ -41,6 +47,15 @@ export function parseBlame(raw: string): GitBlameLine[] {
             current.summary = line.slice('summary '.length);
             continue;
         }
+        if (line.startsWith('filename ')) {
+            current.filePath = unquote(line.slice('filename '.length));
+            continue;
+        }
+        if (line.startsWith('previous ')) {
+            const previous = line.match(/^previous ([0-9a-f]{40}) (.+)$/);
+            if (previous) { current.previous = { commit: previous[1] ?? '', filePath: unquote(previous[2] ?? '') }; }
+            continue;
+        }
         if (line.startsWith('\t')) {
             blameLines.push({
                 line: current.line,
@@ -48,6 +63,9 @@ export function parseBlame(raw: string): GitBlameLine[] {
                 author: current.author,
                 authorTime: current.authorTime,
                 summary: current.summary,
+                originalLine: current.originalLine,
+                ...(current.filePath !== undefined ? { filePath: current.filePath } : {}),
+                ...(current.previous ? { previous: current.previous } : {}),
             });
             current = undefined;
         }
@@ -55,3 +73,19 @@ export function parseBlame(raw: string): GitBlameLine[] {
 
     return blameLines;
 }
+
+/**
+ * Final line numbers that `git blame` with `blame.markIgnoredLines` marks with `?`, meaning it
+ * looked past an ignored revision to attribute them. Boundary lines are prefixed with `^` first.
+ */
+export function parseBlameIgnoredLines(raw: string): Set<number> {
+    const ignored = new Set<number>();
+    raw.split('\n').forEach((line, index) => {
+        if (line.replace(/^\^/, '').startsWith('?')) { ignored.add(index + 1); }
+    });
+    return ignored;
+}
+
+function unquote(value: string): string {
+    return value.length > 1 && value.startsWith('"') && value.endsWith('"') ? value.slice(1, -1) : value;
+}
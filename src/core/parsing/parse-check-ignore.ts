@@ -0,0 +1,26 @@
+import type { GitIgnoreRule } from '@core/git/domain/git-ignore';
+
+const CHECK_IGNORE_LINE = /^(.*?):(\d+):(.*)\t(.*)$/;
+
+/**
+ * Parses the first record of `git check-ignore -v`, shaped `source:line:pattern<TAB>path`.
+ * Git C-quotes unusual sources and paths; the surrounding quotes are dropped like in diff headers.
+ */
+export function parseCheckIgnore(output: string): GitIgnoreRule | undefined {
+    const firstLine = output.split(/\r?\n/, 1)[0] ?? '';
+    const match = CHECK_IGNORE_LINE.exec(firstLine);
+    if (!match) { return undefined; }
+    const [, source = '', line = '', pattern = '', path = ''] = match;
+    if (!source) { return undefined; }
+    return {
+        source: unquote(source),
+        line: Number.parseInt(line, 10),
+        pattern,
+        path: unquote(path),
+        negated: pattern.startsWith('!'),
+    };
+}
+
+function unquote(value: string): string {
+    return value.length > 1 && value.startsWith('"') && value.endsWith('"') ? value.slice(1, -1) : value;
+}
@@ -0,0 +1,34 @@
+const WOULD_REMOVE = /^Would remove /;
+const C_QUOTED_TOKEN = /\\([0-7]{3}|.)|[^\\]+/gsu;
+const C_ESCAPES: Readonly<Record<string, number>> = {
+    a: 0x07, b: 0x08, t: 0x09, n: 0x0a, v: 0x0b, f: 0x0c, r: 0x0d, '"': 0x22, '\\': 0x5c,
+};
+
+/**
+ * Reads the paths of `git clean -n`, one `Would remove <path>` line each. Git C-quotes paths with
+ * quotes, backslashes, control or non-ASCII bytes, writing the bytes as octal escapes.
+ */
+export function parseCleanPreview(output: string): string[] {
+    // Spaces are not quoted, so a path may end in one; only the prefix and the line ending are removed.
+    return output.split(/\r?\n/)
+        .map((line) => line.replace(WOULD_REMOVE, ''))
+        .filter(Boolean)
+        .map(unquoteCPath);
+}
+
+function unquoteCPath(value: string): string {
+    if (value.length < 2 || !value.startsWith('"') || !value.endsWith('"')) { return value; }
+    const encoder = new TextEncoder();
+    const bytes: number[] = [];
+    for (const [token, escape] of value.slice(1, -1).matchAll(C_QUOTED_TOKEN)) {
+        if (escape === undefined) {
+            bytes.push(...encoder.encode(token));
+        } else if (/^[0-7]{3}$/.test(escape)) {
+            bytes.push(Number.parseInt(escape, 8));
+        } else {
+            const byte = C_ESCAPES[escape];
+            bytes.push(...(byte === undefined ? encoder.encode(escape) : [byte]));
+        }
+    }
+    return new TextDecoder().decode(new Uint8Array(bytes));
+}
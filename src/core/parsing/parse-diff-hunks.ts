@@ -0,0 +1,88 @@
+import type { GitDiffHunk, GitDiffLine, GitFileDiff } from '@core/git/domain/git-diff';
+
+const HUNK_HEADER = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/;
+const NO_NEWLINE_MARKER = '\\ No newline at end of file';
+
+/** Parses unified `git diff` output into per-file hunks with old/new line numbers. */
+export function parseDiffHunks(output: string): GitFileDiff[] {
+    if (!output) { return []; }
+    const files: GitFileDiff[] = [];
+    let file: MutableFileDiff | undefined;
+    let hunk: MutableHunk | undefined;
+    let oldLine = 0;
+    let newLine = 0;
+
+    const lines = output.split('\n');
+    if (lines.at(-1) === '') { lines.pop(); }
+    for (const rawLine of lines) {
+        // Only metadata lines are trimmed; content keeps its CR so rebuilt patches still match CRLF files.
+        const line = rawLine.replace(/\r$/, '');
+        if (line.startsWith('diff --git ')) {
+            file = { headerLines: [line], oldPath: undefined, newPath: undefined, binary: false, hunks: [] };
+            files.push(file);
+            hunk = undefined;
+            continue;
+        }
+        if (!file) { continue; }
+
+        const header = HUNK_HEADER.exec(line);
+        if (header) {
+            hunk = {
+                header: line,
+                oldStart: Number(header[1]),
+                oldLines: header[2] === undefined ? 1 : Number(header[2]),
+                newStart: Number(header[3]),
+                newLines: header[4] === undefined ? 1 : Number(header[4]),
+                lines: [],
+            };
+            file.hunks.push(hunk);
+            oldLine = hunk.oldStart;
+            newLine = hunk.newStart;
+            continue;
+        }
+
+        if (!hunk) {
+            file.headerLines.push(line);
+            if (line.startsWith('--- ')) { file.oldPath = diffHeaderPath(line.slice(4)); }
+            if (line.startsWith('+++ ')) { file.newPath = diffHeaderPath(line.slice(4)); }
+            if (line.startsWith('Binary files ') || line === 'GIT binary patch') { file.binary = true; }
+            continue;
+        }
+
+        if (line === NO_NEWLINE_MARKER) {
+            const previous = hunk.lines.at(-1);
+            if (previous) { hunk.lines[hunk.lines.length - 1] = { ...previous, noNewlineAtEnd: true }; }
+            continue;
+        }
+
+        const marker = rawLine[0];
+        const text = rawLine.slice(1);
+        if (marker === '+') {
+            hunk.lines.push({ kind: 'add', text, newLine: newLine++ });
+        } else if (marker === '-') {
+            hunk.lines.push({ kind: 'remove', text, oldLine: oldLine++ });
+        } else if (marker === ' ' || rawLine === '') {
+            hunk.lines.push({ kind: 'context', text, oldLine: oldLine++, newLine: newLine++ });
+        }
+    }
+    return files;
+}
+
+interface MutableHunk extends Omit<GitDiffHunk, 'lines'> {
+    lines: GitDiffLine[];
+}
+
+interface MutableFileDiff {
+    headerLines: string[];
+    oldPath: string | undefined;
+    newPath: string | undefined;
+    binary: boolean;
+    hunks: MutableHunk[];
+}
+
+function diffHeaderPath(value: string): string | undefined {
+    const path = value.replace(/\t.*$/, '');
+    if (path === '/dev/null') { return undefined; }
+    const unquoted = path.startsWith('"') && path.endsWith('"') ? path.slice(1, -1) : path;
+    return unquoted.replace(/^[ab]\//, '');
+}
@@ -0,0 +1,31 @@
+import type { GitFileRevision } from '@core/git/domain/git-commit';
+import { LOG_RECORD_SEP } from '@core/parsing/parse-log';
+import { parseNameStatusZ } from '@core/parsing/parse-name-status';
+
+/**
+ * Parses `git log --follow --name-status -z --format=%x1e%H` output, newest commit first.
+ * Commits that list no change for the file (such as merges) keep the path of the newer revision.
+ */
+export function parseFileRevisionsZ(output: string, filePath: string): GitFileRevision[] {
+    const result: GitFileRevision[] = [];
+    let currentPath = filePath;
+    for (const record of output.split(LOG_RECORD_SEP)) {
+        const hashEnd = record.indexOf('\0');
+        const commitHash = (hashEnd >= 0 ? record.substring(0, hashEnd) : record).trim();
+        if (!commitHash) { continue; }
+        const changes = hashEnd >= 0 ? parseNameStatusZ(record.substring(hashEnd + 1).replace(/^\n/, '')) : [];
+        const change = changes.find((candidate) => candidate.filePath === currentPath) ?? changes[0];
+        if (!change) {
+            result.push({ commitHash, status: 'M', filePath: currentPath });
+            continue;
+        }
+        result.push({
+            commitHash,
+            status: change.status,
+            filePath: change.filePath,
+            ...(change.origPath ? { origPath: change.origPath } : {}),
+        });
+        currentPath = change.origPath ?? change.filePath;
+    }
+    return result;
+}
@@ -1,3 +1,5 @@
+import type { GitSigningConfig } from '@core/git/domain/git-signature';
+
 export function parseNullTerminatedGitConfigValues(output: string): string[] {
     if (!output) { return []; }
     const values: string[] = [];
@@ -10,3 +12,48 @@ export function parseNullTerminatedGitConfigValues(output: string): string[] {
     }
     return values;
 }
+
+/**
+ * Parses `git config -z --get-regexp` output into a map from lower-cased key to value. Later entries win, as they
+ * do in git; a key set without a value (`[commit] gpgSign`) maps to the empty string.
+ */
+export function parseNullTerminatedGitConfigEntries(output: string): ReadonlyMap<string, string> {
+    const entries = new Map<string, string>();
+    for (const record of output.split('\0')) {
+        if (!record) { continue; }
+        const separator = record.indexOf('\n');
+        const key = separator < 0 ? record : record.slice(0, separator);
+        entries.set(key.toLowerCase(), separator < 0 ? '' : record.slice(separator + 1));
+    }
+    return entries;
+}
+
+/** Reads a git config boolean; unset or unrecognised values are `undefined`. */
+export function parseGitConfigBoolean(value: string | undefined): boolean | undefined {
+    if (value === undefined) { return undefined; }
+    switch (value.trim().toLowerCase()) {
+        case '':
+        case 'true':
+        case 'yes':
+        case 'on':
+        case '1':
+            return true;
+        case 'false':
+        case 'no':
+        case 'off':
+        case '0':
+            return false;
+        default:
+            return undefined;
+    }
+}
+
+/** Reads `commit.gpgSign`, `tag.gpgSign` and `gpg.format` from `git config -z --get-regexp` output. */
+export function parseGitSigningConfig(output: string): GitSigningConfig {
+    const entries = parseNullTerminatedGitConfigEntries(output);
+    return {
+        signCommits: parseGitConfigBoolean(entries.get('commit.gpgsign')) ?? false,
+        signTags: parseGitConfigBoolean(entries.get('tag.gpgsign')) ?? false,
+        format: entries.get('gpg.format') || 'openpgp',
+    };
+}
@@ -0,0 +1,39 @@
+import type { GitLfsPointer } from '@core/git/domain/git-lfs';
+
+const LFS_POINTER_VERSION = 'version https://git-lfs.github.com/spec/v1';
+// The spec caps pointer files at 1024 bytes, so larger blobs are never pointers.
+const MAX_POINTER_LENGTH = 1024;
+const POINTER_OID = /^oid (sha256:[0-9a-f]{64})$/;
+const POINTER_SIZE = /^size (\d+)$/;
+
+/** Reads a Git LFS pointer file; returns undefined for any other content. */
+export function parseLfsPointer(content: string): GitLfsPointer | undefined {
+    if (content.length > MAX_POINTER_LENGTH || !content.startsWith(`${LFS_POINTER_VERSION}\n`)) { return undefined; }
+    let oid: string | undefined;
+    let size: number | undefined;
+    for (const line of content.split('\n')) {
+        oid ??= POINTER_OID.exec(line)?.[1];
+        const sizeMatch = POINTER_SIZE.exec(line);
+        if (sizeMatch?.[1]) { size = Number.parseInt(sizeMatch[1], 10); }
+    }
+    return oid && size !== undefined ? { oid, size } : undefined;
+}
+
+/**
+ * Picks the paths whose `filter` attribute is `lfs` from `git check-attr -z filter -- <paths>`,
+ * which prints one `path NUL attribute NUL value NUL` record per path.
+ */
+export function parseLfsCheckAttr(output: string): string[] {
+    const fields = output.split('\0');
+    const paths: string[] = [];
+    for (let index = 0; index + 2 < fields.length; index += 3) {
+        const filePath = fields[index];
+        if (filePath && fields[index + 1] === 'filter' && fields[index + 2] === 'lfs') { paths.push(filePath); }
+    }
+    return paths;
+}
+
+/** Reads `git lfs ls-files --name-only`, which prints one repository-relative path per line. */
+export function parseLfsLsFiles(output: string): string[] {
+    return output.split(/\r?\n/).filter(Boolean);
+}
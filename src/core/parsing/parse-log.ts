@@ -1,4 +1,5 @@
 import type { GitCommit, GitGraphCommit } from '@core/git/domain/git-commit';
+import { parseCommitSignature } from '@core/parsing/parse-signature';
 
 export const LOG_FIELD_SEP = '\x1f';
 export const LOG_RECORD_SEP = '\x1e';
@@ -19,6 +20,7 @@ export function parseCommitLog(output: string): GitCommit[] {
                 authorEmail: parts[4] ?? '',
                 authorDate: parts[5] ?? '',
                 parentHashes: parts[6] ? parts[6].split(' ') : [],
+                ...signatureProperty(parts[7], parts[8], parts[9]),
             };
         });
 }
@@ -43,10 +45,16 @@ export function parseGraphLog(output: string): GitGraphCommit[] {
                 authorDate: parts[5] ?? '',
                 parentHashes: parts[6] ? parts[6].split(' ') : [],
                 refs,
+                ...signatureProperty(parts[8], parts[9], parts[10]),
             };
         });
 }
 
+function signatureProperty(code: string | undefined, signer: string | undefined, key: string | undefined): Pick<GitCommit, 'signature'> {
+    const signature = parseCommitSignature(code, signer, key);
+    return signature ? { signature } : {};
+}
+
 function trimGitRecordNewline(record: string): string {
     return record.replace(/^\r?\n/, '').replace(/\r?\n$/, '');
 }
@@ -0,0 +1,56 @@
+import type { GitRangeDiffCommit, GitRangeDiffPair, GitRangeDiffPairStatus } from '@core/git/domain/git-range-diff';
+
+const PAIR_LINE = /^\s*(-|\d+):\s+(-+|[0-9a-f]+) ([=!<>]) \s*(-|\d+):\s+(-+|[0-9a-f]+) ?(.*)$/;
+const INTERDIFF_INDENT = '    ';
+
+const STATUS_BY_MARKER: Readonly<Record<string, GitRangeDiffPairStatus>> = {
+    '=': 'unchanged',
+    '!': 'modified',
+    '<': 'dropped',
+    '>': 'added',
+};
+
+/**
+ * Parses `git -c core.abbrev=no range-diff --no-color <old> <new>`. Each pair line is followed, for modified
+ * pairs, by the interdiff indented by four spaces; the indentation is removed from the returned interdiff.
+ */
+export function parseRangeDiff(output: string): readonly GitRangeDiffPair[] {
+    const pairs: GitRangeDiffPair[] = [];
+    let interdiff: string[] | undefined;
+    const flush = () => {
+        const last = pairs.at(-1);
+        if (last && interdiff && interdiff.length > 0) {
+            pairs[pairs.length - 1] = { ...last, interdiff: interdiff.join('\n') };
+        }
+        interdiff = undefined;
+    };
+
+    for (const line of output.split(/\r?\n/)) {
+        const match = PAIR_LINE.exec(line);
+        if (match && !line.startsWith(INTERDIFF_INDENT)) {
+            flush();
+            const [, oldPosition = '', oldHash = '', marker = '', newPosition = '', newHash = '', subject = ''] = match;
+            const status = STATUS_BY_MARKER[marker] ?? 'modified';
+            const oldCommit = rangeDiffCommit(oldPosition, oldHash);
+            const newCommit = rangeDiffCommit(newPosition, newHash);
+            pairs.push({
+                status,
+                ...(oldCommit ? { oldCommit } : {}),
+                ...(newCommit ? { newCommit } : {}),
+                subject,
+            });
+            if (status === 'modified') { interdiff = []; }
+            continue;
+        }
+        if (interdiff && (line.startsWith(INTERDIFF_INDENT) || line.trim() === '')) {
+            interdiff.push(line.substring(INTERDIFF_INDENT.length));
+        }
+    }
+    flush();
+    return pairs.map((pair) => pair.interdiff ? { ...pair, interdiff: pair.interdiff.replace(/\n+$/, '') } : pair);
+}
+
+function rangeDiffCommit(position: string, hash: string): GitRangeDiffCommit | undefined {
+    if (position === '-' || /^-+$/.test(hash)) { return undefined; }
+    return { position: Number(position), hash };
+}
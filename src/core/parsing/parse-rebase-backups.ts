@@ -0,0 +1,17 @@
+import type { GitRebaseBackup } from '@core/git/domain/git-rebase-backup';
+import { parseRebaseBackupRef } from '@core/git/rebase-backups';
+
+/**
+ * Parses `git for-each-ref --format='%(objectname) %(refname)' refs/look-git/backup/`, newest first.
+ * Refs that do not follow the backup naming scheme are skipped.
+ */
+export function parseRebaseBackupRefs(output: string): readonly GitRebaseBackup[] {
+    const backups: GitRebaseBackup[] = [];
+    for (const line of output.split(/\r?\n/)) {
+        const [hash, ref] = line.trim().split(' ');
+        if (!hash || !ref) { continue; }
+        const parsed = parseRebaseBackupRef(ref);
+        if (parsed) { backups.push({ ref, hash, ...parsed }); }
+    }
+    return backups.sort((left, right) => right.createdAt - left.createdAt || left.ref.localeCompare(right.ref));
+}
@@ -0,0 +1,40 @@
+import type { GitReflogEntry } from '@core/git/domain/git-reflog';
+import { LOG_FIELD_SEP, LOG_RECORD_SEP } from '@core/parsing/parse-log';
+
+const REFLOG_SELECTOR_DATE = /@\{([^}]*)\}$/;
+
+/**
+ * Parses `git log --walk-reflogs --date=iso-strict --format=%H%x1f%gd%x1f%gs%x1f%s%x1e`.
+ * `startIndex` is the number of entries skipped before this output so selectors stay absolute.
+ */
+export function parseReflog(output: string, ref: string, startIndex = 0): GitReflogEntry[] {
+    if (!output) { return []; }
+    const records = output
+        .split(LOG_RECORD_SEP)
+        .map((record) => record.replace(/^\r?\n/, '').replace(/\r?\n$/, ''))
+        .filter(Boolean)
+        .map((record) => record.split(LOG_FIELD_SEP));
+
+    return records.map((parts, index) => {
+        const { action, message } = parseReflogSubject(parts[2] ?? '');
+        const previousHash = records[index + 1]?.[0];
+        return {
+            selector: `${ref}@{${startIndex + index}}`,
+            hash: parts[0] ?? '',
+            ...(previousHash ? { previousHash } : {}),
+            action,
+            message,
+            commitSubject: parts[3] ?? '',
+            date: REFLOG_SELECTOR_DATE.exec(parts[1] ?? '')?.[1] ?? '',
+        };
+    });
+}
+
+export function parseReflogSubject(subject: string): { readonly action: string; readonly message: string } {
+    const separator = subject.indexOf(': ');
+    if (separator < 0) { return { action: subject.trim(), message: '' }; }
+    return {
+        action: subject.slice(0, separator).trim(),
+        message: subject.slice(separator + 2).trim(),
+    };
+}
@@ -0,0 +1,22 @@
+import type { GitCommitSignature, GitSignatureStatus } from '@core/git/domain/git-signature';
+
+const SIGNATURE_STATUSES: Readonly<Record<string, GitSignatureStatus>> = {
+    G: 'good',
+    B: 'bad',
+    R: 'bad',
+    U: 'untrusted',
+    X: 'expired',
+    Y: 'expired',
+    E: 'unknown',
+};
+
+/** Reads the `%G?`, `%GS` and `%GK` log fields; unsigned commits (`N`) have no signature. */
+export function parseCommitSignature(code: string | undefined, signer: string | undefined, key: string | undefined): GitCommitSignature | undefined {
+    const status = code ? SIGNATURE_STATUSES[code.trim()] : undefined;
+    if (!status) { return undefined; }
+    return {
+        status,
+        ...(signer ? { signer } : {}),
+        ...(key ? { key } : {}),
+    };
+}
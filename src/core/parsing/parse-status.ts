@@ -1,4 +1,4 @@
-import type { GitStatusEntry, ConflictState } from '@core/git/domain/git-status';
+import type { GitStatusEntry, ConflictState, GitSequencerState } from '@core/git/domain/git-status';
 
 const CONFLICT_CODES = new Set(['U', 'A', 'D']);
 
@@ -81,10 +81,28 @@ export function summarizeStatusEntries(status: {
     };
 }
 
-/** Detect merge/rebase state from a list of files in the .git directory. */
+/** Detect merge/rebase/cherry-pick/revert state from a list of files in the .git directory. */
 export function detectConflictStateFromFiles(gitDirFiles: readonly string[]): ConflictState {
     const files = new Set(gitDirFiles);
     if (files.has('rebase-merge') || files.has('rebase-apply')) { return 'rebase'; }
     if (files.has('MERGE_HEAD')) { return 'merge'; }
+    if (files.has('CHERRY_PICK_HEAD')) { return 'cherryPick'; }
+    if (files.has('REVERT_HEAD')) { return 'revert'; }
     return 'none';
 }
+
+/**
+ * Parse `.git/sequencer/todo`. The todo keeps the commit that stopped as its first line, so a
+ * sequence is still reported after the conflict was committed by hand and `CHERRY_PICK_HEAD` is gone.
+ */
+export function parseSequencerTodo(content: string): GitSequencerState | undefined {
+    const commands = content
+        .split(/\r?\n/)
+        .map((line) => line.trim())
+        .filter((line) => line !== '' && !line.startsWith('#'))
+        .map((line) => line.split(/\s+/, 1)[0] ?? '');
+    const first = commands[0];
+    if (first === undefined) { return undefined; }
+    const conflictState = first === 'revert' || first === 'r' ? 'revert' : 'cherryPick';
+    return { conflictState, remaining: commands.length };
+}
@@ -1,9 +1,13 @@
 import * as vscode from 'vscode';
 import { registerGitBlameAnnotationsCommand } from '@extension/commands/git-blame-annotations-command';
 import { registerResetExtensionStateCommand } from '@extension/commands/reset-extension-state-command';
+import { registerUndoLastOperationCommand } from '@extension/commands/undo-commands';
+import { registerCopyRemotePermalinkCommand } from '@extension/commands/remote-link-commands';
+import { registerLfsFileCommands } from '@extension/commands/lfs-commands';
 import { CliGitRuntime } from '@extension/git/cli-git-runtime';
 import { GitCliBackend } from '@extension/git/git-cli-backend';
 import { HybridGitRuntime } from '@extension/git/hybrid-git-runtime';
+import { JournalingGitRuntime } from '@extension/git/journaling-git-runtime';
 import { RuntimeRepositoryFactory } from '@extension/git/runtime-repository-factory';
 import { VscodeGitRemoteRuntime } from '@extension/git/vscode-git-remote-runtime';
 import { RepositoryRuntimeRegistrar } from '@extension/repositories/repository-runtime-registrar';
@@ -23,6 +27,7 @@ import { registerWebviewFontSizeSync } from '@extension/views/webview-font';
 import { RepositoryRegistry } from '@extension/repositories/repository-registry';
 import { appendErrorToOutput } from '@extension/messaging/error-output-channel';
 import { migrateLookGitStorage } from '@extension/storage/look-git-storage';
+import { MementoOperationJournal } from '@extension/storage/memento-operation-journal';
 import { RepositoryGitWatcher } from '@extension/watchers/repository-git-watcher';
 import { RepositoryDiscoveryWatcher } from '@extension/watchers/repository-discovery-watcher';
 import type { RepoContext } from '@core/git/domain/repo-context';
@@ -45,11 +50,12 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
      *   - pushBranch
      *   - forcePushWithLease
      */
-    const gitRuntime = new HybridGitRuntime([
+    const operationJournal = new MementoOperationJournal(context.workspaceState);
+    const gitRuntime = new JournalingGitRuntime(new HybridGitRuntime([
         new VscodeGitRemoteRuntime(),
         new CliGitRuntime((args, runtimeContext, options) =>
             new GitCliBackend(runtimeContext.cwd).run(args, options)),
-    ]);
+    ]), operationJournal);
     const repositories = new RepositorySelectionStore();
     const runtimeRegistrar = new RepositoryRuntimeRegistrar(new RuntimeRepositoryFactory(gitRuntime));
     const repositorySummaryService = new RepositorySummaryService(new RuntimeRepositoryFactory(gitRuntime));
@@ -380,6 +386,8 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
         ...commitHistoryProvider.registerNativeContextCommands(),
         ...graphProvider.registerNativeContextCommands(),
         registerGitBlameAnnotationsCommand({ repositories }),
+        registerCopyRemotePermalinkCommand({ repositories, runtimeRepositories }),
+        ...registerLfsFileCommands({ repositories, runtimeRepositories }),
         vscode.window.registerWebviewViewProvider(ChangesViewProvider.viewType, changesProvider, { webviewOptions: { retainContextWhenHidden: true } }),
         vscode.window.registerWebviewViewProvider(CommitHistoryViewProvider.viewType, commitHistoryProvider, { webviewOptions: { retainContextWhenHidden: true } }),
         vscode.window.registerWebviewViewProvider(GraphViewProvider.viewType, graphProvider, { webviewOptions: { retainContextWhenHidden: true } }),
@@ -391,6 +399,12 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
             syncActiveRepository: syncActiveRepo,
             refreshAll,
         }),
+        registerUndoLastOperationCommand({
+            journal: operationJournal,
+            repositories,
+            runtimeRepositories,
+            refreshAll,
+        }),
     );
 
     context.subscriptions.push(
@@ -0,0 +1,4 @@
+import { PruneRebaseBackupsUseCase } from '@application/usecases/rebase-backups/prune-rebase-backups';
+import { getRebaseBackupRetentionDays } from '@extension/utils/rebase-backup-settings';
+
+export const defaultPruneRebaseBackups = new PruneRebaseBackupsUseCase(getRebaseBackupRetentionDays);
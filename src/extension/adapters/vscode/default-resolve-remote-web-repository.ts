@@ -0,0 +1,4 @@
+import { ResolveRemoteWebRepositoryUseCase } from '@application/usecases/remotes/resolve-remote-web-repository';
+import { getRemoteHostPatterns } from '@extension/utils/remote-hosting-settings';
+
+export const defaultResolveRemoteWebRepository = new ResolveRemoteWebRepositoryUseCase(getRemoteHostPatterns);
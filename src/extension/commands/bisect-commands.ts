@@ -0,0 +1,92 @@
+import * as vscode from 'vscode';
+import type { Worktree } from '@application/ports/git-topology';
+import type { BisectBannerCommand, BisectMark } from '@protocol/shared/bisect';
+import { appendTextToOutput, showErrorOutput } from '@extension/messaging/error-output-channel';
+import { isAbortError } from '@extension/messaging/error-serialization';
+import { withCancellationSignal } from '@extension/utils/vscode-cancellation';
+
+export type BisectViewCommand = Exclude<BisectBannerCommand, 'openPanel'>;
+
+let lastBisectRunCommand = '';
+
+/** Runs a bisect banner action against `worktree`; resolves `false` when the user cancelled before git ran. */
+export async function runBisectCommand(worktree: Worktree, command: BisectViewCommand): Promise<boolean> {
+    switch (command) {
+        case 'good':
+        case 'bad':
+        case 'skip':
+            await markBisectCommit(worktree, command, undefined);
+            return true;
+        case 'reset':
+            await worktree.bisectReset();
+            return true;
+        case 'run': {
+            const script = await promptBisectRunCommand();
+            if (!script) { return false; }
+            await vscode.window.withProgress({
+                location: vscode.ProgressLocation.Notification,
+                title: `Running bisect: ${script}`,
+                cancellable: true,
+            }, async (_progress, token) => withCancellationSignal(token, (signal) => runBisectScript(worktree, script, undefined, signal)));
+            return true;
+        }
+    }
+}
+
+/**
+ * Marks `commit` (or the checked-out commit) for the current bisect. Good and bad marks start a
+ * session when none is running, so a bisect can begin straight from the graph.
+ */
+export async function markBisectCommit(worktree: Worktree, mark: BisectMark, commit: string | undefined): Promise<void> {
+    const state = await worktree.getBisectState();
+    if (!state) {
+        if (mark === 'skip') { throw new Error('No bisect is in progress. Mark a good or bad commit first.'); }
+        await worktree.bisectStart(undefined, []);
+    }
+    switch (mark) {
+        case 'good':
+            await worktree.bisectGood(commit);
+            return;
+        case 'bad':
+            await worktree.bisectBad(commit);
+            return;
+        case 'skip':
+            await worktree.bisectSkip(commit);
+            return;
+    }
+}
+
+/** Streams `git bisect run` into the Look Git output channel; cancelling stops the script and keeps the session. */
+export async function runBisectScript(
+    worktree: Worktree,
+    script: string,
+    onOutput?: (chunk: string) => void,
+    signal?: AbortSignal,
+): Promise<void> {
+    lastBisectRunCommand = script;
+    appendTextToOutput(`[${new Date().toISOString()}] git bisect run ${script}\n`);
+    showErrorOutput();
+    try {
+        await worktree.bisectRun(script, (chunk) => {
+            appendTextToOutput(chunk);
+            onOutput?.(chunk);
+        }, signal);
+    } catch (error) {
+        if (isAbortError(error)) {
+            appendTextToOutput('\nBisect run cancelled.\n');
+            return;
+        }
+        throw error;
+    }
+}
+
+async function promptBisectRunCommand(): Promise<string | undefined> {
+    const script = await vscode.window.showInputBox({
+        title: 'Bisect Run',
+        prompt: 'Shell command that exits 0 for good commits, 125 to skip, and any other code below 128 for bad commits',
+        placeHolder: 'npm test',
+        value: lastBisectRunCommand,
+        ignoreFocusOut: true,
+    });
+    return script?.trim() || undefined;
+}
@@ -3,6 +3,7 @@ import * as path from 'path';
 import type { GitPushOutcome, PushOptions } from '@application/ports/git-capabilities';
 import type { GitRepository, Worktree } from '@application/ports/git-topology';
 import { CheckoutBranchUseCase } from '@application/usecases/branches/checkout-branch';
+import { PlanDestructiveOperationUseCase } from '@application/usecases/guards/plan-destructive-operation';
 import type { BranchCommand } from '@protocol/graph/messages';
 import type { GitBranch } from '@core/git/domain/git-status';
 import type { GitWorktree } from '@core/git/domain/git-worktree';
@@ -14,13 +15,19 @@ import {
     openChangesWithWorkingTree,
     promptNewWorktreePath,
 } from '@extension/commands/git-command-helpers';
-import { requireRuntimeRepository, requireRuntimeWorktree, requireRuntimeWorktreePath, requireRuntimeWorktrees, type RuntimeCommandTargets } from '@extension/commands/runtime-command-targets';
+import { requireRuntimeRepository, requireRuntimeTargets, requireRuntimeWorktree, requireRuntimeWorktreePath, requireRuntimeWorktrees, type RuntimeCommandTargets } from '@extension/commands/runtime-command-targets';
 import { currentBranchName } from '@extension/git/current-branch';
 import { isNonFastForwardPushError } from '@extension/git/git-error';
 import { confirmBehindBranchUpdate, pickDivergedPushAction, pickMergeOptions } from '@extension/git/reference-pickers';
 import { localBranchNameForRemote, localNameForRemoteBranch, resolveRemoteBranch } from '@extension/git/remote-branch';
 import { openVisualRebasePanel } from '@extension/utils/visual-rebase-panel';
 import { commandExecutionResult, pushCommandExecutionResult, type CommandExecutionResult } from '@extension/commands/command-execution-result';
+import { compareBranchOnRemote, openBranchOnRemote } from '@extension/commands/remote-link-commands';
+import { openRemoteBranchRangeDiff } from '@extension/commands/range-diff-commands';
+import { confirmOutgoingCommitMessages } from '@extension/utils/commit-message-conventions';
+import type { RequestGuardedOperation } from '@extension/operations/guarded-operation-coordinator';
+
+const destructivePlans = new PlanDestructiveOperationUseCase();
 
 export async function runBranchCommand(
     repo: GitRepository,
@@ -31,6 +38,7 @@ export async function runBranchCommand(
     runtimeTargets: RuntimeCommandTargets = {},
     extensionUri?: vscode.Uri,
     storageUri?: vscode.Uri,
+    requestGuardedOperation?: RequestGuardedOperation,
 ): Promise<CommandExecutionResult> {
     const runtimeRepository = requireRuntimeRepository(runtimeTargets);
     const currentBranch = await currentBranchName(runtimeRepository);
@@ -66,6 +74,16 @@ export async function runBranchCommand(
         case 'showDiffWithWorkingTree':
             await openChangesWithWorkingTree(repo, repo.cwd, branch, `Diff ${branch}..working tree`);
             return commandExecutionResult(false);
+        case 'openOnRemote':
+            await openBranchOnRemote(runtimeRepository, branch, isRemote);
+            return commandExecutionResult(false);
+        case 'compareOnRemote':
+            await compareBranchOnRemote(runtimeRepository, branch, isRemote);
+            return commandExecutionResult(false);
+        case 'rangeDiffWithLocal':
+            if (!isRemote) { throw new Error('Range Diff with Local Branch applies to remote branches.'); }
+            await openRemoteBranchRangeDiff(runtimeRepository, branch, extensionUri);
+            return commandExecutionResult(false);
         case 'compareBranchWithWorktree':
             await compareRefWithPickedWorktree(repo, requireRuntimeWorktrees(runtimeTargets), branch, `Diff ${branch}`);
             return commandExecutionResult(false);
@@ -93,7 +111,7 @@ export async function runBranchCommand(
         }
         case 'push': {
             if (isRemote) { throw new Error('Push is only available for local branches.'); }
-            return pushSelectedBranch(runtimeRepository, runtimeTargets, checkoutBranch, branch, currentBranch);
+            return pushSelectedBranch(runtimeRepository, runtimeTargets, checkoutBranch, branch, currentBranch, requestGuardedOperation);
         }
         case 'pullBranchWorktree':
             await pullBranchWorktree(repo, branch, isRemote, runtimeTargets);
@@ -291,10 +309,14 @@ async function pushSelectedBranch(
     checkoutBranch: CheckoutBranchUseCase,
     branch: string,
     currentBranch: string,
+    requestGuardedOperation: RequestGuardedOperation | undefined,
 ): Promise<CommandExecutionResult> {
     const branchState = await localBranchState(repository, branch);
     if (branchState?.upstream && branchState.behind > 0) {
-        return resolvePushRecovery(repository, runtimeTargets, checkoutBranch, branchState, currentBranch);
+        return resolvePushRecovery(repository, runtimeTargets, checkoutBranch, branchState, currentBranch, requestGuardedOperation);
+    }
+    if (!await confirmOutgoingCommitMessages(repository, requireRuntimeWorktree(runtimeTargets).path, branch)) {
+        return commandExecutionResult(false);
     }
     try {
         const outcome = await pushBranch(runtimeTargets, branch, {});
@@ -304,7 +326,7 @@ async function pushSelectedBranch(
         await repository.fetchAll({});
         const refreshedState = await localBranchState(repository, branch);
         if (!refreshedState?.upstream || refreshedState.behind === 0) { throw error; }
-        const recovery = await resolvePushRecovery(repository, runtimeTargets, checkoutBranch, refreshedState, currentBranch);
+        const recovery = await resolvePushRecovery(repository, runtimeTargets, checkoutBranch, refreshedState, currentBranch, requestGuardedOperation);
         return commandExecutionResult(true, recovery.pushOutcome);
     }
 }
@@ -319,6 +341,7 @@ async function resolvePushRecovery(
     checkoutBranch: CheckoutBranchUseCase,
     branchState: GitBranch,
     currentBranch: string,
+    requestGuardedOperation: RequestGuardedOperation | undefined,
 ): Promise<CommandExecutionResult> {
     const branch = branchState.name;
     const upstream = branchState.upstream;
@@ -337,19 +360,38 @@ async function resolvePushRecovery(
         case 'checkout':
             await checkoutBranch.execute(repository, requireRuntimeWorktree(runtimeTargets), { branch, isRemote: false });
             return commandExecutionResult(true);
-        case 'forceWithLease': {
-            const outcome = await pushBranch(runtimeTargets, branch, { forceWithLease: true });
-            return pushCommandExecutionResult(outcome);
-        }
-        case 'force': {
-            const outcome = await pushBranch(runtimeTargets, branch, { force: true });
-            return pushCommandExecutionResult(outcome);
-        }
+        case 'forceWithLease':
+        case 'force':
+            // The push runs once the plan is acknowledged; nothing has changed yet.
+            await requestForcePush(runtimeTargets, requestGuardedOperation, branch, upstream, action === 'forceWithLease');
+            return commandExecutionResult(false);
         case undefined:
             return commandExecutionResult(false);
     }
 }
 
+async function requestForcePush(
+    runtimeTargets: RuntimeCommandTargets,
+    requestGuardedOperation: RequestGuardedOperation | undefined,
+    branch: string,
+    upstream: string,
+    withLease: boolean,
+): Promise<void> {
+    if (!requestGuardedOperation) { throw new Error('Force push needs a view that can show its plan.'); }
+    const target = requireRuntimeTargets(runtimeTargets);
+    await requestGuardedOperation({
+        title: `Force Push ${branch} to ${upstream}`,
+        confirmLabel: 'Force Push',
+        context: () => ({ repositoryId: target.repository.repoId, worktreeId: target.worktree.worktreeId }),
+        plan: () => withLease
+            ? destructivePlans.forcePushWithLease(target, branch, upstream)
+            : destructivePlans.forcePush(target, branch, upstream),
+        execute: async () => {
+            await pushBranch(runtimeTargets, branch, withLease ? { forceWithLease: true } : { force: true });
+        },
+    });
+}
+
 async function mergeBranchIntoCurrent(branch: string, runtimeTargets: RuntimeCommandTargets): Promise<boolean> {
     const worktree = requireRuntimeWorktree(runtimeTargets);
     await assertRuntimeNoUnmergedFiles(worktree, 'merging branches');
@@ -4,13 +4,16 @@ import * as fs from 'fs/promises';
 import * as os from 'os';
 import type { GitRepository, Worktree } from '@application/ports/git-topology';
 import type { CommitCommand } from '@protocol/graph/messages';
+import type { BisectMark } from '@protocol/shared/bisect';
 import type { CommitReferenceActions } from '@application/usecases/commits/commit-reference-actions';
 import { defaultCommitReferenceActions } from '@extension/adapters/vscode/default-commit-reference-actions';
 import { CreateCommitPatchResultKind, type CreateCommitPatchUseCase, type CreateCommitPatchResult } from '@application/usecases/commits/create-commit-patch';
 import { defaultCreateCommitPatch } from '@extension/adapters/vscode/default-create-commit-patch';
 import { type ExplainCommitDiffUseCase } from '@application/usecases/commits/explain-commit-diff';
 import { defaultExplainCommitDiff } from '@extension/adapters/vscode/default-explain-commit-diff';
+import { GetCoAuthorCandidatesUseCase } from '@application/usecases/commits/get-co-author-candidates';
 import { GenerateRewordCommitMessageUseCase } from '@application/usecases/commits/generate-reword-commit-message';
+import { PlanDestructiveOperationUseCase } from '@application/usecases/guards/plan-destructive-operation';
 import { orderSelectedCommits } from '@application/usecases/commits/order-selected-commits';
 import { getReachableCommitHashes } from '@application/usecases/commits/get-reachable-commit-hashes';
 import { VscodeLanguageModelRewordCommitMessageGenerator } from '@extension/adapters/vscode/vscode-language-model-reword-commit-message-generator';
@@ -23,7 +26,15 @@ import { compareRefWithPickedWorktree, openChangesWithWorkingTree, promptNewWork
 import { promptForCommitMessage } from '@extension/utils/commit-message-editor';
 import { requireRuntimeRepository, requireRuntimeTargets, requireRuntimeWorktree, requireRuntimeWorktrees, type RuntimeCommandTargets } from '@extension/commands/runtime-command-targets';
 import { currentBranchName } from '@extension/git/current-branch';
+import { pickCherryPickOptions, pickMergeMainline, pickRevertOptions } from '@extension/git/reference-pickers';
 import { openVisualRebasePanel } from '@extension/utils/visual-rebase-panel';
+import { markBisectCommit } from '@extension/commands/bisect-commands';
+import { refreshBisectPanel } from '@extension/utils/bisect-panel';
+import { openCommitOnRemote } from '@extension/commands/remote-link-commands';
+import { openSelectedRangesDiff } from '@extension/commands/range-diff-commands';
+import { editCommitNote, removeCommitNote } from '@extension/commands/notes-commands';
+import type { RequestGuardedOperation } from '@extension/operations/guarded-operation-coordinator';
+import { confirmOutgoingCommitMessages, readCommitMessageRules } from '@extension/utils/commit-message-conventions';
 
 export interface CommitCommandDiffExplanationScope {
     readonly label: string;
@@ -31,6 +42,7 @@ export interface CommitCommandDiffExplanationScope {
 }
 
 const defaultGenerateRewordCommitMessage = new GenerateRewordCommitMessageUseCase(new VscodeLanguageModelRewordCommitMessageGenerator());
+const destructivePlans = new PlanDestructiveOperationUseCase();
 
 
 export async function runCommitCommand(
@@ -46,12 +58,16 @@ export async function runCommitCommand(
     storageUri?: vscode.Uri,
     generateRewordCommitMessage: GenerateRewordCommitMessageUseCase = defaultGenerateRewordCommitMessage,
     runtimeTargets: RuntimeCommandTargets = {},
+    requestGuardedOperation?: RequestGuardedOperation,
 ): Promise<boolean> {
     const selected = normalizeSelectedHashes(hash, hashes);
     switch (command) {
         case 'copyRevisionNumber':
             await commitReferenceActions.copyRevisionNumber(hash);
             return false;
+        case 'openOnRemote':
+            await openCommitOnRemote(requireRuntimeRepository(runtimeTargets), hash);
+            return false;
         case 'createPatch':
             await showCommitPatchNotification(await createCommitPatch.execute(requireRuntimeRepository(runtimeTargets), selected));
             return false;
@@ -62,9 +78,11 @@ export async function runCommitCommand(
             const { repository, worktree } = requireRuntimeTargets(runtimeTargets);
             await assertRuntimeNoUnmergedFiles(worktree, 'cherry-picking commits');
             await assertCherryPickableCommits(repository, selected);
-            for (const commitHash of await orderSelectedCommits(repository, selected, 'oldestFirst')) {
-                await worktree.cherryPick(commitHash, {});
-            }
+            const commits = await orderSelectedCommits(repository, selected, 'oldestFirst');
+            const options = await pickCherryPickOptions(commits.length);
+            const mainline = options && await pickMergeMainline(repository, commits, 'cherry-pick');
+            if (!options || !mainline) { return false; }
+            await worktree.cherryPick(commits, { ...options, ...mainline });
             return true;
         }
         case 'checkoutRevision':
@@ -76,15 +94,19 @@ export async function runCommitCommand(
         case 'compareWithLocal':
             await openChangesWithWorkingTree(repo, repo.cwd, hash, `Diff ${hash.substring(0, 7)}..local`);
             return false;
+        case 'rangeDiffSelectedRanges':
+            await openSelectedRangesDiff(requireRuntimeRepository(runtimeTargets), selected, extensionUri);
+            return false;
         case 'resetCurrentBranchToHere':
-            await resetCurrentBranchToHere(repo, hash, runtimeTargets);
-            return true;
+            return resetCurrentBranchToHere(hash, runtimeTargets, requestGuardedOperation);
         case 'revertCommit': {
             const { repository, worktree } = requireRuntimeTargets(runtimeTargets);
             await assertRuntimeNoUnmergedFiles(worktree, 'reverting commits');
-            for (const commitHash of await orderSelectedCommits(repository, selected, 'newestFirst')) {
-                await worktree.revertCommit(commitHash, { noEdit: true });
-            }
+            const commits = await orderSelectedCommits(repository, selected, 'newestFirst');
+            const options = await pickRevertOptions(commits.length);
+            const mainline = options && await pickMergeMainline(repository, commits, 'revert');
+            if (!options || !mainline) { return false; }
+            await worktree.revertCommit(commits, { ...options, ...mainline });
             return true;
         }
         case 'undoCommit':
@@ -112,11 +134,26 @@ export async function runCommitCommand(
             return commitReferenceActions.createBranchAtCommit(requireRuntimeRepository(runtimeTargets), hash);
         case 'newTag':
             return commitReferenceActions.createTagAtCommit(requireRuntimeRepository(runtimeTargets), hash);
+        case 'editNote':
+            await editCommitNote(repo, hash, extensionUri);
+            return false;
+        case 'removeNote':
+            await removeCommitNote(repo, hash);
+            return false;
         case 'newWorktreeFromCommit':
             return createWorktreeFromCommit(repo, hash, runtimeTargets);
         case 'compareCommitWithWorktree':
             await compareRefWithPickedWorktree(repo, requireRuntimeWorktrees(runtimeTargets), hash, `Diff ${hash.substring(0, 7)}`);
             return false;
+        case 'bisectGood':
+            await markGraphBisectCommit(requireRuntimeWorktree(runtimeTargets), 'good', hash);
+            return true;
+        case 'bisectBad':
+            await markGraphBisectCommit(requireRuntimeWorktree(runtimeTargets), 'bad', hash);
+            return true;
+        case 'bisectSkip':
+            await markGraphBisectCommit(requireRuntimeWorktree(runtimeTargets), 'skip', hash);
+            return true;
     }
 }
 
@@ -211,18 +248,30 @@ async function createWorktreeFromCommit(repo: GitRepository, hash: string, runti
     return true;
 }
 
-async function resetCurrentBranchToHere(_repo: GitRepository, hash: string, runtimeTargets: RuntimeCommandTargets): Promise<void> {
+/** Runs soft, mixed, and keep resets directly; a hard reset only runs once its plan is acknowledged, so it reports no change yet. */
+async function resetCurrentBranchToHere(
+    hash: string,
+    runtimeTargets: RuntimeCommandTargets,
+    requestGuardedOperation: RequestGuardedOperation | undefined,
+): Promise<boolean> {
     const mode = await vscode.window.showQuickPick(['Soft reset', 'Mixed reset', 'Hard reset', 'Keep reset'], { placeHolder: 'Reset current branch to selected revision' });
-    if (!mode) { return; }
+    if (!mode) { return false; }
+    const target = requireRuntimeTargets(runtimeTargets);
     if (mode === 'Hard reset') {
-        const choice = await showModalWarningMessage('Hard reset current branch and discard working tree changes?', 'Hard Reset');
-        if (choice !== 'Hard Reset') { return; }
+        if (!requestGuardedOperation) { throw new Error('Hard reset needs a view that can show its plan.'); }
+        await requestGuardedOperation({
+            title: `Hard Reset ${target.worktree.branch ?? 'HEAD'} to ${hash.substring(0, 7)}`,
+            confirmLabel: 'Hard Reset',
+            context: () => ({ repositoryId: target.repository.repoId, worktreeId: target.worktree.worktreeId }),
+            plan: () => destructivePlans.resetHard(target, hash),
+            execute: () => target.worktree.resetHard(hash),
+        });
+        return false;
     }
-    const worktree = requireRuntimeWorktree(runtimeTargets);
-    if (mode === 'Soft reset') { await worktree.resetSoft(hash); }
-    else if (mode === 'Hard reset') { await worktree.resetHard(hash); }
-    else if (mode === 'Keep reset') { await worktree.resetKeep(hash); }
-    else { await worktree.resetMixed(hash); }
+    if (mode === 'Soft reset') { await target.worktree.resetSoft(hash); }
+    else if (mode === 'Keep reset') { await target.worktree.resetKeep(hash); }
+    else { await target.worktree.resetMixed(hash); }
+    return true;
 }
 
 async function undoHeadCommit(_repo: GitRepository, hash: string, runtimeTargets: RuntimeCommandTargets): Promise<void> {
@@ -243,7 +292,11 @@ async function editCommitMessage(
     const { repository, worktree } = requireRuntimeTargets(runtimeTargets);
     const runtimeRepo = repository;
     const current = await runtimeRepo.getCommitMessage(hash);
+    const coAuthorCandidates = await new GetCoAuthorCandidatesUseCase().execute(runtimeRepo);
+    const { rules } = await readCommitMessageRules(worktree.path);
     const message = await promptForCommitMessage(current, `Reword commit ${hash.substring(0, 7)}`, extensionUri, {
+        coAuthorCandidates,
+        ...(rules ? { rules } : {}),
         generateMessage: async (signal) => {
             const result = await generateRewordCommitMessage.execute(runtimeRepo, hash, current, signal);
             return result.message;
@@ -299,6 +352,7 @@ async function pushAllUpToHere(hash: string, runtimeTargets: RuntimeCommandTarge
     const branch = await currentBranchName(repository);
     const choice = await showModalWarningMessage(`Push ${hash.substring(0, 7)} to ${remote}/${branch}?`, 'Push');
     if (choice !== 'Push') { return; }
+    if (!await confirmOutgoingCommitMessages(repository, worktree.path, branch, hash)) { return; }
     await worktree.pushRef(remote, hash, `refs/heads/${branch}`, {});
 }
 
@@ -320,3 +374,8 @@ async function assertRuntimeNoUnmergedFiles(worktree: Worktree, operation: strin
         throw new Error(`Resolve existing merge/rebase conflicts before ${operation}.`);
     }
 }
+
+async function markGraphBisectCommit(worktree: Worktree, mark: BisectMark, hash: string): Promise<void> {
+    await markBisectCommit(worktree, mark, hash);
+    await refreshBisectPanel(worktree.path);
+}
@@ -1,9 +1,15 @@
+import * as fs from 'fs';
+import * as os from 'os';
 import * as path from 'path';
 import * as vscode from 'vscode';
-import type { GitBlameLine } from '@core/git/domain/git-blame';
+import type { GitBlameLine, GitBlameMoveCopyDetection, GitBlameOptions, GitBlamePrevious } from '@core/git/domain/git-blame';
 import type { RepoContext } from '@core/git/domain/repo-context';
+import { applyBlameLineEdit, lineBeforeChange, UNCOMMITTED_BLAME_COMMIT, type BlameLineEdit } from '@core/git/blame-line-tracking';
+import { parseDiffHunks } from '@core/parsing/parse-diff-hunks';
 import { GitCliBackend } from '@extension/git/git-cli-backend';
-import { queryBlame } from '@extension/git/queries/query-blame';
+import type { GitExec } from '@extension/git/git-exec';
+import { queryBlame, queryBlameIgnoreRevsFiles } from '@extension/git/queries/query-blame';
+import { gitBlobUri } from '@extension/utils/git-blob-documents';
 import { isPathInside, normalizePathForComparison } from '@extension/utils/path-compare';
 
 const TOGGLE_INLINE_BLAME_COMMAND = 'lookGit.file.toggleInlineBlame';
@@ -11,6 +17,8 @@ const TOGGLE_BLAME_ANNOTATIONS_COMMAND = 'lookGit.file.toggleBlameAnnotations';
 const TOGGLE_BLAME_ANNOTATIONS_PALETTE_COMMAND = 'lookGit.blame.toggle';
 const SHOW_BLAME_ANNOTATIONS_COMMAND = 'lookGit.blame.show';
 const HIDE_BLAME_ANNOTATIONS_COMMAND = 'lookGit.blame.hide';
+const SHOW_BLAME_AT_REVISION_COMMAND = 'lookGit.blame.showAtRevision';
+const SHOW_BLAME_PRIOR_TO_CHANGE_COMMAND = 'lookGit.blame.showPriorToChange';
 const REVEAL_HISTORY_COMMIT_COMMAND = 'lookGit.history.revealCommit';
 const REVEAL_GRAPH_COMMIT_COMMAND = 'lookGit.graph.revealCommit';
 const BLAME_ANNOTATIONS_VISIBLE_CONTEXT = 'lookGit.blame.annotationsVisible';
@@ -19,9 +27,16 @@ const BLAME_MERGE_COMMIT_LINES_SETTING = 'blame.mergeCommitLines';
 const BLAME_HIGHLIGHT_CHANGED_LINES_SETTING = 'blame.highlightChangedLines';
 const BLAME_DATE_FORMAT_STYLE_SETTING = 'blame.dateFormatStyle';
 const BLAME_AUTHOR_NAME_STYLE_SETTING = 'blame.authorNameStyle';
+const BLAME_IGNORE_REVS_FILE_SETTING = 'blame.ignoreRevsFile';
+const BLAME_IGNORE_WHITESPACE_SETTING = 'blame.ignoreWhitespace';
+const BLAME_MOVE_COPY_DETECTION_SETTING = 'blame.moveCopyDetection';
 const MAX_BLAME_ANNOTATION_WIDTH = 28;
 const DATE_FORMAT_STYLES = ['date', 'dateTime', 'time', 'relative', 'iso'] as const;
 const AUTHOR_NAME_STYLES = ['full', 'first', 'last'] as const;
+const MOVE_COPY_DETECTION_LEVELS: readonly GitBlameMoveCopyDetection[] = ['off', 'withinFile', 'acrossFiles', 'acrossFilesAtCreation', 'acrossAllCommits'];
+// Git's own `blame.markIgnoredLines` marker for lines attributed past an ignored revision.
+const IGNORED_REVISION_MARKER = '?';
+const NOT_COMMITTED_LABEL = 'Not committed yet';
 
 type BlameDateFormatStyle = typeof DATE_FORMAT_STYLES[number];
 type BlameAuthorNameStyle = typeof AUTHOR_NAME_STYLES[number];
@@ -39,12 +54,44 @@ export interface GitBlameAnnotationsRepositories {
 
 export interface RegisterGitBlameAnnotationsCommandInput {
     readonly repositories: GitBlameAnnotationsRepositories;
-    readonly loadBlame?: (repoRoot: string, filePath: string, signal?: AbortSignal) => Promise<readonly GitBlameLine[]>;
+    /** `contents` is the text of an unsaved editor, blamed in place of the working file. */
+    readonly loadBlame?: (
+        repoRoot: string,
+        filePath: string,
+        revision: string | undefined,
+        contents: string | undefined,
+        signal?: AbortSignal,
+    ) => Promise<readonly GitBlameLine[]>;
+}
+
+/** Argument of `lookGit.blame.showAtRevision`: a repository-relative file, the revision to blame it at, and the 1-based line to reveal. */
+export interface BlameRevisionTarget {
+    readonly repoRoot: string;
+    readonly filePath: string;
+    readonly revision: string;
+    readonly line?: number;
+}
+
+/** Argument of `lookGit.blame.showPriorToChange`: a blamed line as `commit` left it and the parent blame continues in. */
+interface BlamePriorToChangeTarget {
+    readonly repoRoot: string;
+    readonly commit: string;
+    readonly filePath: string;
+    readonly line: number;
+    readonly previous: GitBlamePrevious;
+}
+
+/** What an editor shows: the working file (`revision` undefined) or a file as it was in a commit. */
+interface BlameSource {
+    readonly repoRoot: string;
+    readonly filePath: string;
+    readonly revision: string | undefined;
 }
 
 interface AnnotatedDocument {
     readonly lines: readonly GitBlameLine[];
     readonly editor: vscode.TextEditor;
+    readonly source: BlameSource;
 }
 
 export function registerGitBlameAnnotationsCommand(input: RegisterGitBlameAnnotationsCommandInput): vscode.Disposable {
@@ -68,6 +115,8 @@ export function registerGitBlameAnnotationsCommand(input: RegisterGitBlameAnnota
     const blameAnnotationDocuments = new Map<string, AnnotatedDocument>();
     const inlinePendingLoads = new Map<string, AbortController>();
     const blameAnnotationPendingLoads = new Map<string, AbortController>();
+    // Read-only documents opened by "Show Blame at Revision", keyed by URI.
+    const revisionSources = new Map<string, BlameSource>();
 
     const updateBlameAnnotationsVisibleContext = (editor = vscode.window.activeTextEditor) => {
         const visible = editor !== undefined && blameAnnotationDocuments.has(editor.document.uri.toString());
@@ -76,7 +125,7 @@ export function registerGitBlameAnnotationsCommand(input: RegisterGitBlameAnnota
 
     const inlineCommand = vscode.commands.registerCommand(TOGGLE_INLINE_BLAME_COMMAND, async (resource?: vscode.Uri) => {
         try {
-            const editor = await resolveEditor(resource);
+            const editor = await resolveEditor(resource, revisionSources);
             if (!editor) {
                 await vscode.window.showErrorMessage('Open a file before toggling inline Git blame.');
                 return;
@@ -88,7 +137,7 @@ export function registerGitBlameAnnotationsCommand(input: RegisterGitBlameAnnota
                 return;
             }
 
-            const enabled = await enableInlineBlame(input, editor, inlineDecorationType, inlineDocuments, inlinePendingLoads);
+            const enabled = await enableInlineBlame(input, editor, inlineDecorationType, inlineDocuments, inlinePendingLoads, revisionSources);
             if (!enabled) { await vscode.window.showErrorMessage('No Git repository found for this file.'); }
         } catch (error) {
             await vscode.window.showErrorMessage(error instanceof Error ? error.message : String(error));
@@ -97,7 +146,7 @@ export function registerGitBlameAnnotationsCommand(input: RegisterGitBlameAnnota
 
     const showBlameAnnotations = async (resource?: vscode.Uri): Promise<void> => {
         try {
-            const editor = await resolveEditor(resource);
+            const editor = await resolveEditor(resource, revisionSources);
             if (!editor) {
                 await vscode.window.showErrorMessage('Open a file before showing Git blame annotations.');
                 return;
@@ -108,7 +157,7 @@ export function registerGitBlameAnnotationsCommand(input: RegisterGitBlameAnnota
                 return;
             }
 
-            const enabled = await enableBlameAnnotations(input, editor, blameAnnotationDecorationType, changedLinesHighlightDecorationType, blameAnnotationDocuments, blameAnnotationPendingLoads);
+            const enabled = await enableBlameAnnotations(input, editor, blameAnnotationDecorationType, changedLinesHighlightDecorationType, blameAnnotationDocuments, blameAnnotationPendingLoads, revisionSources);
             if (!enabled) { await vscode.window.showErrorMessage('No Git repository found for this file.'); }
             updateBlameAnnotationsVisibleContext(editor);
         } catch (error) {
@@ -118,7 +167,7 @@ export function registerGitBlameAnnotationsCommand(input: RegisterGitBlameAnnota
 
     const hideBlameAnnotations = async (resource?: vscode.Uri): Promise<void> => {
         try {
-            const editor = await resolveEditor(resource);
+            const editor = await resolveEditor(resource, revisionSources);
             if (!editor) {
                 updateBlameAnnotationsVisibleContext(undefined);
                 return;
@@ -135,7 +184,7 @@ export function registerGitBlameAnnotationsCommand(input: RegisterGitBlameAnnota
 
     const toggleBlameAnnotations = async (resource?: vscode.Uri): Promise<void> => {
         try {
-            const editor = await resolveEditor(resource);
+            const editor = await resolveEditor(resource, revisionSources);
             if (!editor) {
                 await vscode.window.showErrorMessage('Open a file before toggling Git blame annotations.');
                 return;
@@ -150,16 +199,55 @@ export function registerGitBlameAnnotationsCommand(input: RegisterGitBlameAnnota
         }
     };
 
+    // Menus pass the editor's URI; other callers pass a `BlameRevisionTarget`.
+    const showBlameAtRevision = async (target?: unknown): Promise<void> => {
+        try {
+            const revisionTarget = isBlameRevisionTarget(target) ? target : await pickBlameRevisionTarget(input, revisionSources);
+            if (!revisionTarget) { return; }
+            const editor = await openFileAtRevision(revisionTarget, revisionSources);
+            const enabled = await enableBlameAnnotations(input, editor, blameAnnotationDecorationType, changedLinesHighlightDecorationType, blameAnnotationDocuments, blameAnnotationPendingLoads, revisionSources);
+            if (!enabled) { await vscode.window.showErrorMessage('No Git repository found for this file.'); }
+            updateBlameAnnotationsVisibleContext(editor);
+        } catch (error) {
+            await vscode.window.showErrorMessage(error instanceof Error ? error.message : String(error));
+        }
+    };
+
+    const showBlamePriorToChange = async (target: BlamePriorToChangeTarget): Promise<void> => {
+        try {
+            const line = await lineInPreviousRevision(target);
+            await showBlameAtRevision({ repoRoot: target.repoRoot, filePath: target.previous.filePath, revision: target.previous.commit, line });
+        } catch (error) {
+            await vscode.window.showErrorMessage(error instanceof Error ? error.message : String(error));
+        }
+    };
+
     const blameAnnotationsCommand = vscode.commands.registerCommand(TOGGLE_BLAME_ANNOTATIONS_COMMAND, toggleBlameAnnotations);
     const blameAnnotationsPaletteCommand = vscode.commands.registerCommand(TOGGLE_BLAME_ANNOTATIONS_PALETTE_COMMAND, toggleBlameAnnotations);
     const showBlameAnnotationsCommand = vscode.commands.registerCommand(SHOW_BLAME_ANNOTATIONS_COMMAND, showBlameAnnotations);
     const hideBlameAnnotationsCommand = vscode.commands.registerCommand(HIDE_BLAME_ANNOTATIONS_COMMAND, hideBlameAnnotations);
+    const showBlameAtRevisionCommand = vscode.commands.registerCommand(SHOW_BLAME_AT_REVISION_COMMAND, showBlameAtRevision);
+    const showBlamePriorToChangeCommand = vscode.commands.registerCommand(SHOW_BLAME_PRIOR_TO_CHANGE_COMMAND, showBlamePriorToChange);
+
+    // Drops the blame of matching documents and loads it again; their decorations stay until it arrives.
+    const blameAgain = (matches: (uriKey: string) => boolean): void => {
+        for (const [uriKey, document] of [...inlineDocuments]) {
+            if (!matches(uriKey)) { continue; }
+            inlineDocuments.delete(uriKey);
+            void enableInlineBlame(input, document.editor, inlineDecorationType, inlineDocuments, inlinePendingLoads, revisionSources);
+        }
+        for (const [uriKey, document] of [...blameAnnotationDocuments]) {
+            if (!matches(uriKey)) { continue; }
+            blameAnnotationDocuments.delete(uriKey);
+            void enableBlameAnnotations(input, document.editor, blameAnnotationDecorationType, changedLinesHighlightDecorationType, blameAnnotationDocuments, blameAnnotationPendingLoads, revisionSources);
+        }
+    };
 
     const selectionListener = vscode.window.onDidChangeTextEditorSelection((event) => {
         const uriKey = event.textEditor.document.uri.toString();
         const inlineDocument = inlineDocuments.get(uriKey);
         if (inlineDocument) {
-            updateInlineBlame(event.textEditor, inlineDecorationType, inlineDocument.lines);
+            updateInlineBlame(event.textEditor, inlineDecorationType, inlineDocument);
         }
         const blameAnnotationDocument = blameAnnotationDocuments.get(uriKey);
         if (blameAnnotationDocument) {
@@ -170,7 +258,7 @@ export function registerGitBlameAnnotationsCommand(input: RegisterGitBlameAnnota
     const activeEditorListener = vscode.window.onDidChangeActiveTextEditor((editor) => {
         updateBlameAnnotationsVisibleContext(editor);
         if (!editor || !isInlineBlameEnabled()) { return; }
-        void enableInlineBlame(input, editor, inlineDecorationType, inlineDocuments, inlinePendingLoads);
+        void enableInlineBlame(input, editor, inlineDecorationType, inlineDocuments, inlinePendingLoads, revisionSources);
     });
 
     const configurationListener = vscode.workspace.onDidChangeConfiguration((event) => {
@@ -181,11 +269,18 @@ export function registerGitBlameAnnotationsCommand(input: RegisterGitBlameAnnota
             BLAME_DATE_FORMAT_STYLE_SETTING,
             BLAME_AUTHOR_NAME_STYLE_SETTING,
         ].some((setting) => event.affectsConfiguration(`lookGit.${setting}`));
+        const blameQuerySettingChanged = [
+            BLAME_IGNORE_REVS_FILE_SETTING,
+            BLAME_IGNORE_WHITESPACE_SETTING,
+            BLAME_MOVE_COPY_DETECTION_SETTING,
+        ].some((setting) => event.affectsConfiguration(`lookGit.${setting}`));
+        // Attribution itself changes, so every annotated editor is blamed again.
+        if (blameQuerySettingChanged) { blameAgain(() => true); }
         if (!inlineSettingChanged && !blameSettingChanged) { return; }
         if (inlineSettingChanged) {
             if (isInlineBlameEnabled()) {
                 const editor = vscode.window.activeTextEditor;
-                if (editor) { void enableInlineBlame(input, editor, inlineDecorationType, inlineDocuments, inlinePendingLoads); }
+                if (editor) { void enableInlineBlame(input, editor, inlineDecorationType, inlineDocuments, inlinePendingLoads, revisionSources); }
             } else {
                 clearAnnotations(inlineDecorationType, inlineDocuments, inlinePendingLoads);
             }
@@ -196,6 +291,31 @@ export function registerGitBlameAnnotationsCommand(input: RegisterGitBlameAnnota
         }
     });
 
+    // Edits move blame along with the text instead of blaming the buffer again on every keystroke.
+    const changeListener = vscode.workspace.onDidChangeTextDocument((event) => {
+        if (event.contentChanges.length === 0) { return; }
+        const uriKey = event.document.uri.toString();
+        const inlineDocument = inlineDocuments.get(uriKey);
+        if (inlineDocument) {
+            const document = { ...inlineDocument, lines: remapBlameLines(inlineDocument.lines, event) };
+            inlineDocuments.set(uriKey, document);
+            updateInlineBlame(document.editor, inlineDecorationType, document);
+        }
+        const blameAnnotationDocument = blameAnnotationDocuments.get(uriKey);
+        if (blameAnnotationDocument) {
+            const document = { ...blameAnnotationDocument, lines: remapBlameLines(blameAnnotationDocument.lines, event) };
+            blameAnnotationDocuments.set(uriKey, document);
+            updateChangedLinesHighlight(document.editor, changedLinesHighlightDecorationType, document.lines);
+            updateBlameAnnotations(document.editor, blameAnnotationDecorationType, document);
+        }
+    });
+
+    // Remapped blame marks every edited line as not committed yet; the saved file is blamed exactly.
+    const saveListener = vscode.workspace.onDidSaveTextDocument((document) => {
+        const savedUriKey = document.uri.toString();
+        blameAgain((uriKey) => uriKey === savedUriKey);
+    });
+
     const closeListener = vscode.workspace.onDidCloseTextDocument((document) => {
         const uriKey = document.uri.toString();
         inlinePendingLoads.get(uriKey)?.abort();
@@ -204,12 +324,13 @@ export function registerGitBlameAnnotationsCommand(input: RegisterGitBlameAnnota
         blameAnnotationPendingLoads.delete(uriKey);
         inlineDocuments.delete(uriKey);
         blameAnnotationDocuments.delete(uriKey);
+        revisionSources.delete(uriKey);
         updateBlameAnnotationsVisibleContext();
     });
 
     const activeEditor = vscode.window.activeTextEditor;
     if (activeEditor && isInlineBlameEnabled()) {
-        void enableInlineBlame(input, activeEditor, inlineDecorationType, inlineDocuments, inlinePendingLoads);
+        void enableInlineBlame(input, activeEditor, inlineDecorationType, inlineDocuments, inlinePendingLoads, revisionSources);
     }
     updateBlameAnnotationsVisibleContext(activeEditor);
 
@@ -220,9 +341,13 @@ export function registerGitBlameAnnotationsCommand(input: RegisterGitBlameAnnota
             blameAnnotationsPaletteCommand.dispose();
             showBlameAnnotationsCommand.dispose();
             hideBlameAnnotationsCommand.dispose();
+            showBlameAtRevisionCommand.dispose();
+            showBlamePriorToChangeCommand.dispose();
             selectionListener.dispose();
             activeEditorListener.dispose();
             configurationListener.dispose();
+            changeListener.dispose();
+            saveListener.dispose();
             closeListener.dispose();
             inlineDecorationType.dispose();
             blameAnnotationDecorationType.dispose();
@@ -231,6 +356,7 @@ export function registerGitBlameAnnotationsCommand(input: RegisterGitBlameAnnota
             abortPendingLoads(blameAnnotationPendingLoads);
             inlineDocuments.clear();
             blameAnnotationDocuments.clear();
+            revisionSources.clear();
         },
     };
 }
@@ -241,13 +367,15 @@ async function enableInlineBlame(
     decorationType: vscode.TextEditorDecorationType,
     annotatedDocuments: Map<string, AnnotatedDocument>,
     pendingLoads: Map<string, AbortController>,
+    revisionSources: ReadonlyMap<string, BlameSource>,
 ): Promise<boolean> {
     const uriKey = editor.document.uri.toString();
-    if (editor.document.uri.scheme !== 'file') { return false; }
+    if (!isBlameableUri(editor.document.uri, revisionSources)) { return false; }
     const existing = annotatedDocuments.get(uriKey);
     if (existing) {
-        updateInlineBlame(editor, decorationType, existing.lines);
-        annotatedDocuments.set(uriKey, { ...existing, editor });
+        const document = { ...existing, editor };
+        updateInlineBlame(editor, decorationType, document);
+        annotatedDocuments.set(uriKey, document);
         return true;
     }
 
@@ -255,14 +383,13 @@ async function enableInlineBlame(
     const controller = new AbortController();
     pendingLoads.set(uriKey, controller);
     try {
-        const filePath = editor.document.uri.fsPath;
-        const repoRoot = await resolveRepositoryRoot(input.repositories.contexts, filePath);
-        if (!repoRoot) { return false; }
-        const relativePath = path.relative(repoRoot, filePath);
-        const lines = await (input.loadBlame ?? loadBlameFromGit)(repoRoot, relativePath, controller.signal);
+        const source = await resolveBlameSource(input.repositories.contexts, editor.document.uri, revisionSources);
+        if (!source) { return false; }
+        const lines = await loadDocumentBlame(input, source, editor.document, controller.signal);
         if (controller.signal.aborted) { return false; }
-        annotatedDocuments.set(uriKey, { lines, editor });
-        updateInlineBlame(editor, decorationType, lines);
+        const document = { lines, editor, source };
+        annotatedDocuments.set(uriKey, document);
+        updateInlineBlame(editor, decorationType, document);
         return true;
     } catch (error) {
         if (controller.signal.aborted) { return false; }
@@ -279,14 +406,16 @@ async function enableBlameAnnotations(
     changedLinesHighlightDecorationType: vscode.TextEditorDecorationType,
     annotatedDocuments: Map<string, AnnotatedDocument>,
     pendingLoads: Map<string, AbortController>,
+    revisionSources: ReadonlyMap<string, BlameSource>,
 ): Promise<boolean> {
     const uriKey = editor.document.uri.toString();
-    if (editor.document.uri.scheme !== 'file') { return false; }
+    if (!isBlameableUri(editor.document.uri, revisionSources)) { return false; }
     const existing = annotatedDocuments.get(uriKey);
     if (existing) {
+        const document = { ...existing, editor };
         updateChangedLinesHighlight(editor, changedLinesHighlightDecorationType, existing.lines);
-        updateBlameAnnotations(editor, decorationType, existing.lines);
-        annotatedDocuments.set(uriKey, { ...existing, editor });
+        updateBlameAnnotations(editor, decorationType, document);
+        annotatedDocuments.set(uriKey, document);
         return true;
     }
 
@@ -294,15 +423,14 @@ async function enableBlameAnnotations(
     const controller = new AbortController();
     pendingLoads.set(uriKey, controller);
     try {
-        const filePath = editor.document.uri.fsPath;
-        const repoRoot = await resolveRepositoryRoot(input.repositories.contexts, filePath);
-        if (!repoRoot) { return false; }
-        const relativePath = path.relative(repoRoot, filePath);
-        const lines = await (input.loadBlame ?? loadBlameFromGit)(repoRoot, relativePath, controller.signal);
+        const source = await resolveBlameSource(input.repositories.contexts, editor.document.uri, revisionSources);
+        if (!source) { return false; }
+        const lines = await loadDocumentBlame(input, source, editor.document, controller.signal);
         if (controller.signal.aborted) { return false; }
-        annotatedDocuments.set(uriKey, { lines, editor });
+        const document = { lines, editor, source };
+        annotatedDocuments.set(uriKey, document);
         updateChangedLinesHighlight(editor, changedLinesHighlightDecorationType, lines);
-        updateBlameAnnotations(editor, decorationType, lines);
+        updateBlameAnnotations(editor, decorationType, document);
         return true;
     } catch (error) {
         if (controller.signal.aborted) { return false; }
@@ -312,9 +440,9 @@ async function enableBlameAnnotations(
     }
 }
 
-async function resolveEditor(resource: vscode.Uri | undefined): Promise<vscode.TextEditor | undefined> {
+async function resolveEditor(resource: vscode.Uri | undefined, revisionSources: ReadonlyMap<string, BlameSource>): Promise<vscode.TextEditor | undefined> {
     const uri = resource ?? vscode.window.activeTextEditor?.document.uri;
-    if (!uri || uri.scheme !== 'file') { return undefined; }
+    if (!uri || !isBlameableUri(uri, revisionSources)) { return undefined; }
     const activeEditor = vscode.window.activeTextEditor;
     if (activeEditor?.document.uri.toString() === uri.toString()) { return activeEditor; }
     const document = await vscode.workspace.openTextDocument(uri);
@@ -334,25 +462,193 @@ async function resolveRepositoryRoot(contexts: readonly RepoContext[], filePath:
     }
 }
 
-async function loadBlameFromGit(repoRoot: string, filePath: string, signal?: AbortSignal): Promise<readonly GitBlameLine[]> {
+function isBlameRevisionTarget(value: unknown): value is BlameRevisionTarget {
+    return typeof value === 'object' && value !== null
+        && 'repoRoot' in value && typeof value.repoRoot === 'string'
+        && 'filePath' in value && typeof value.filePath === 'string'
+        && 'revision' in value && typeof value.revision === 'string';
+}
+
+function isBlameableUri(uri: vscode.Uri, revisionSources: ReadonlyMap<string, BlameSource>): boolean {
+    return uri.scheme === 'file' || revisionSources.has(uri.toString());
+}
+
+async function resolveBlameSource(
+    contexts: readonly RepoContext[],
+    uri: vscode.Uri,
+    revisionSources: ReadonlyMap<string, BlameSource>,
+): Promise<BlameSource | undefined> {
+    const revisionSource = revisionSources.get(uri.toString());
+    if (revisionSource) { return revisionSource; }
+    if (uri.scheme !== 'file') { return undefined; }
+    const repoRoot = await resolveRepositoryRoot(contexts, uri.fsPath);
+    return repoRoot ? { repoRoot, filePath: path.relative(repoRoot, uri.fsPath), revision: undefined } : undefined;
+}
+
+async function pickBlameRevisionTarget(
+    input: RegisterGitBlameAnnotationsCommandInput,
+    revisionSources: ReadonlyMap<string, BlameSource>,
+): Promise<BlameRevisionTarget | undefined> {
+    const editor = vscode.window.activeTextEditor;
+    const source = editor ? await resolveBlameSource(input.repositories.contexts, editor.document.uri, revisionSources) : undefined;
+    if (!editor || !source) {
+        await vscode.window.showErrorMessage('Open a file in a Git repository before showing blame at a revision.');
+        return undefined;
+    }
+    const revision = (await vscode.window.showInputBox({
+        title: 'Show Blame at Revision',
+        prompt: `Blame ${path.basename(source.filePath)} as it was in a commit, branch, or tag`,
+        placeHolder: 'HEAD~1',
+        value: source.revision,
+    }))?.trim();
+    if (!revision) { return undefined; }
+    return { repoRoot: source.repoRoot, filePath: source.filePath, revision, line: editor.selection.active.line + 1 };
+}
+
+/** Opens `target.filePath` as it was in `target.revision` in a read-only editor, with the target line selected. */
+async function openFileAtRevision(target: BlameRevisionTarget, revisionSources: Map<string, BlameSource>): Promise<vscode.TextEditor> {
+    if (target.revision.startsWith('-')) { throw new Error(`"${target.revision}" is not a revision.`); }
+    const backend = new GitCliBackend(target.repoRoot);
+    const filePath = target.filePath.split(path.sep).join('/');
+    let commit: string;
+    try {
+        commit = (await backend.run(['rev-parse', '--verify', '--quiet', `${target.revision}^{commit}`])).trim();
+    } catch {
+        throw new Error(`Revision "${target.revision}" was not found.`);
+    }
+    let content: string;
+    try {
+        content = await backend.run(['show', `${commit}:${filePath}`]);
+    } catch {
+        throw new Error(`${filePath} does not exist in ${commit.substring(0, 7)}.`);
+    }
+    const uri = gitBlobUri(commit, filePath, 'blame', content);
+    revisionSources.set(uri.toString(), { repoRoot: target.repoRoot, filePath, revision: commit });
+    const line = Math.max(0, Math.min((target.line ?? 1) - 1, content.split(/\r?\n/).length - 1));
+    const document = await vscode.workspace.openTextDocument(uri);
+    return vscode.window.showTextDocument(document, { preview: false, selection: new vscode.Range(line, 0, line, 0) });
+}
+
+/** The line of the previous revision that `target.line` came from, following the change between the two revisions. */
+async function lineInPreviousRevision(target: BlamePriorToChangeTarget): Promise<number> {
+    const output = await new GitCliBackend(target.repoRoot).run([
+        'diff', '--no-color', '--no-ext-diff', '--no-textconv', '-U0',
+        `${target.previous.commit}:${target.previous.filePath}`,
+        `${target.commit}:${target.filePath}`,
+    ]);
+    return lineBeforeChange(parseDiffHunks(output)[0]?.hunks ?? [], target.line);
+}
+
+/**
+ * Blames the document as its editor shows it, unsaved changes included. Edits made while git runs move the
+ * result the way later edits do, so typing during a slow blame does not start it over.
+ */
+async function loadDocumentBlame(
+    input: RegisterGitBlameAnnotationsCommandInput,
+    source: BlameSource,
+    document: vscode.TextDocument,
+    signal: AbortSignal,
+): Promise<readonly GitBlameLine[]> {
+    const uriKey = document.uri.toString();
+    const pendingEdits: BlameLineEdit[] = [];
+    const changeListener = vscode.workspace.onDidChangeTextDocument((event) => {
+        if (event.document.uri.toString() === uriKey) { pendingEdits.push(...blameLineEdits(event)); }
+    });
+    try {
+        const contents = source.revision === undefined && document.isDirty ? document.getText() : undefined;
+        const lines = await (input.loadBlame ?? loadBlameFromGit)(source.repoRoot, source.filePath, source.revision, contents, signal);
+        return pendingEdits.reduce<readonly GitBlameLine[]>((remapped, edit) => applyBlameLineEdit(remapped, edit), lines);
+    } finally {
+        changeListener.dispose();
+    }
+}
+
+async function loadBlameFromGit(
+    repoRoot: string,
+    filePath: string,
+    revision: string | undefined,
+    contents: string | undefined,
+    signal?: AbortSignal,
+): Promise<readonly GitBlameLine[]> {
     const backend = new GitCliBackend(repoRoot);
-    return queryBlame((args, execSignal) => backend.run(args, { signal: execSignal }), filePath, signal);
+    const exec: GitExec = (args, execSignal) => backend.run(args, { signal: execSignal });
+    const options = await blameOptions(repoRoot, exec, signal);
+    if (contents === undefined) { return queryBlame(exec, filePath, revision, options, signal); }
+
+    const dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'look-git-blame-'));
+    const contentsFile = path.join(dir, path.basename(filePath));
+    try {
+        await fs.promises.writeFile(contentsFile, contents, 'utf8');
+        return await queryBlame(exec, filePath, undefined, { ...options, contentsFile }, signal);
+    } finally {
+        await fs.promises.rm(dir, { recursive: true, force: true });
+    }
+}
+
+function remapBlameLines(lines: readonly GitBlameLine[], event: vscode.TextDocumentChangeEvent): readonly GitBlameLine[] {
+    return blameLineEdits(event).reduce<readonly GitBlameLine[]>((remapped, edit) => applyBlameLineEdit(remapped, edit), lines);
+}
+
+/** The line edits of `event`, read while the document still holds the text right after it. */
+function blameLineEdits(event: vscode.TextDocumentChangeEvent): BlameLineEdit[] {
+    // Every change range refers to the text before the event, so applying them bottom-up keeps the earlier ones valid.
+    const changes = [...event.contentChanges].sort((left, right) => right.range.start.line - left.range.start.line
+        || right.range.start.character - left.range.start.character);
+    const documentLines = changes.length === 1 ? event.document.getText().split(/\r?\n/) : undefined;
+    return changes.flatMap((change) => blameLineEdit(change, documentLines) ?? []);
+}
+
+/** The lines a change replaced; `documentLines`, the text after a lone change, shows whether a typed line break split its line. */
+function blameLineEdit(change: vscode.TextDocumentContentChangeEvent, documentLines: readonly string[] | undefined): BlameLineEdit | undefined {
+    const { start, end } = change.range;
+    const empty = start.line === end.line && start.character === end.character;
+    if (empty && change.text === '') { return undefined; }
+    const insertedLines = change.text.split(/\r\n|\r|\n/);
+    const edit = { startLine: start.line + 1, endLine: end.line + 1, lineCount: insertedLines.length };
+    if (start.character === 0 && end.character === 0 && (change.text === '' || /[\r\n]$/.test(change.text))) {
+        return { ...edit, intactLine: 'end' };
+    }
+    const lastInserted = insertedLines.at(-1) ?? '';
+    const brokeAfterLineEnd = empty && insertedLines.length > 1 && insertedLines[0] === ''
+        && documentLines?.[start.line + insertedLines.length - 1] === lastInserted;
+    return brokeAfterLineEnd ? { ...edit, intactLine: 'start' } : edit;
+}
+
+/**
+ * Blame options from the Look Git settings. Git reads its `blame.ignoreRevsFile` config itself; the
+ * Look Git file is added to it and skipped when it does not exist in this repository.
+ */
+async function blameOptions(repoRoot: string, exec: GitExec, signal?: AbortSignal): Promise<GitBlameOptions> {
+    const configuration = vscode.workspace.getConfiguration('lookGit');
+    const settingFile = configuration.get<string>(BLAME_IGNORE_REVS_FILE_SETTING, '').trim();
+    const ignoreRevsFile = settingFile ? path.resolve(repoRoot, settingFile) : undefined;
+    const [configFiles, settingFileExists] = await Promise.all([
+        queryBlameIgnoreRevsFiles(exec, signal),
+        ignoreRevsFile ? fs.promises.access(ignoreRevsFile).then(() => true, () => false) : Promise.resolve(false),
+    ]);
+    const ignoreRevsFiles = ignoreRevsFile && settingFileExists ? [ignoreRevsFile] : [];
+    return {
+        ignoreRevsFiles,
+        markIgnoredLines: configFiles.length > 0 || ignoreRevsFiles.length > 0,
+        ignoreWhitespace: configuration.get<boolean>(BLAME_IGNORE_WHITESPACE_SETTING, false),
+        moveCopyDetection: getConfigurationEnum(configuration.get(BLAME_MOVE_COPY_DETECTION_SETTING, 'off'), MOVE_COPY_DETECTION_LEVELS, 'off'),
+    };
 }
 
 function updateInlineBlame(
     editor: vscode.TextEditor,
     decorationType: vscode.TextEditorDecorationType,
-    lines: readonly GitBlameLine[],
+    document: AnnotatedDocument,
 ): void {
-    editor.setDecorations(decorationType, blameDecorations(editor, lines));
+    editor.setDecorations(decorationType, blameDecorations(editor, document.lines, document.source.repoRoot));
 }
 
 function updateBlameAnnotations(
     editor: vscode.TextEditor,
     decorationType: vscode.TextEditorDecorationType,
-    lines: readonly GitBlameLine[],
+    document: AnnotatedDocument,
 ): void {
-    editor.setDecorations(decorationType, blameAnnotationDecorations(lines));
+    editor.setDecorations(decorationType, blameAnnotationDecorations(document.lines, document.source.repoRoot));
 }
 
 function updateChangedLinesHighlight(
@@ -382,7 +678,7 @@ function refreshInlineBlameAnnotations(
     annotatedDocuments: Map<string, AnnotatedDocument>,
 ): void {
     for (const document of annotatedDocuments.values()) {
-        updateInlineBlame(document.editor, decorationType, document.lines);
+        updateInlineBlame(document.editor, decorationType, document);
     }
 }
 
@@ -393,11 +689,11 @@ function refreshBlameAnnotations(
 ): void {
     for (const document of annotatedDocuments.values()) {
         updateChangedLinesHighlight(document.editor, changedLinesHighlightDecorationType, document.lines);
-        updateBlameAnnotations(document.editor, decorationType, document.lines);
+        updateBlameAnnotations(document.editor, decorationType, document);
     }
 }
 
-function blameDecorations(editor: vscode.TextEditor, lines: readonly GitBlameLine[]): vscode.DecorationOptions[] {
+function blameDecorations(editor: vscode.TextEditor, lines: readonly GitBlameLine[], repoRoot: string): vscode.DecorationOptions[] {
     const document = editor.document;
     const documentLines = document.getText().split(/\r?\n/);
     const activeLine = editor.selection.active.line + 1;
@@ -409,11 +705,11 @@ function blameDecorations(editor: vscode.TextEditor, lines: readonly GitBlameLin
     return [{
         range: new vscode.Range(line.line - 1, lineText.length, line.line - 1, lineText.length),
         renderOptions: { after: { contentText: annotation } },
-        hoverMessage: buildBlameHover(line, config),
+        hoverMessage: buildBlameHover(line, config, repoRoot),
     }];
 }
 
-function blameAnnotationDecorations(lines: readonly GitBlameLine[]): vscode.DecorationOptions[] {
+function blameAnnotationDecorations(lines: readonly GitBlameLine[], repoRoot: string): vscode.DecorationOptions[] {
     const config = blameDisplayConfig();
     const labels = lines.map((line, index) => formatBlameColumnAnnotation(line, lines[index - 1], config));
     const maxWidth = Math.min(MAX_BLAME_ANNOTATION_WIDTH, Math.max(0, ...labels.map((label) => label.length)));
@@ -429,10 +725,10 @@ function blameAnnotationDecorations(lines: readonly GitBlameLine[]): vscode.Deco
                     margin: '0 0.5ch 0 0',
                     width: `${maxWidth + 2}ch`,
                     fontWeight: 'normal',
-                    fontStyle: 'normal',
+                    fontStyle: line.ignored ? 'italic' : 'normal',
                 },
             },
-            hoverMessage: buildBlameHover(line, config),
+            hoverMessage: buildBlameHover(line, config, repoRoot),
         };
     });
 }
@@ -483,6 +779,7 @@ function isConfigurationEnum<T extends string>(value: unknown, values: readonly
 }
 
 function formatBlameAnnotation(line: GitBlameLine, config: BlameDisplayConfig): string {
+    if (line.commit === UNCOMMITTED_BLAME_COMMIT) { return NOT_COMMITTED_LABEL; }
     return `${formatBlameAuthor(line.author, config.authorNameStyle)} ${formatBlameDate(line.authorTime, config.dateFormatStyle)}`.trim();
 }
 
@@ -491,8 +788,11 @@ function formatBlameColumnAnnotation(
     previousLine: GitBlameLine | undefined,
     config: BlameDisplayConfig,
 ): string {
-    if (config.mergeCommitLines && previousLine?.commit === line.commit) { return ''; }
-    const label = `${formatBlameDate(line.authorTime, config.dateFormatStyle)} ${formatBlameAuthor(line.author, config.authorNameStyle)}`.trim();
+    const marker = line.ignored ? `${IGNORED_REVISION_MARKER} ` : '';
+    if (config.mergeCommitLines && previousLine?.commit === line.commit) { return marker.trim(); }
+    const label = line.commit === UNCOMMITTED_BLAME_COMMIT
+        ? NOT_COMMITTED_LABEL
+        : `${marker}${formatBlameDate(line.authorTime, config.dateFormatStyle)} ${formatBlameAuthor(line.author, config.authorNameStyle)}`.trim();
     return label.length > MAX_BLAME_ANNOTATION_WIDTH
         ? `${label.slice(0, MAX_BLAME_ANNOTATION_WIDTH - 3)}...`
         : label;
@@ -502,7 +802,8 @@ function padBlameColumnAnnotation(label: string, width: number): string {
     return label.padEnd(width, '\u2007');
 }
 
-function buildBlameHover(line: GitBlameLine, config: BlameDisplayConfig): vscode.MarkdownString {
+function buildBlameHover(line: GitBlameLine, config: BlameDisplayConfig, repoRoot: string): vscode.MarkdownString {
+    if (line.commit === UNCOMMITTED_BLAME_COMMIT) { return new vscode.MarkdownString(NOT_COMMITTED_LABEL); }
     const commitArg = encodeURIComponent(JSON.stringify([line.commit]));
     const parts = [
         `Commit: ${line.commit}`,
@@ -510,7 +811,22 @@ function buildBlameHover(line: GitBlameLine, config: BlameDisplayConfig): vscode
         `Date: ${formatBlameDateTime(line.authorTime) || 'Unknown'}`,
     ];
     if (line.summary) { parts.push(`Summary: ${line.summary}`); }
-    parts.push(`[Open in Commit History](command:${REVEAL_HISTORY_COMMIT_COMMAND}?${commitArg}) | [Open in Look Graph](command:${REVEAL_GRAPH_COMMIT_COMMAND}?${commitArg})`);
+    if (line.ignored) { parts.push('_Attributed past an ignored revision that changed this line._'); }
+    const links = [
+        `[Open in Commit History](command:${REVEAL_HISTORY_COMMIT_COMMAND}?${commitArg})`,
+        `[Open in Look Graph](command:${REVEAL_GRAPH_COMMIT_COMMAND}?${commitArg})`,
+    ];
+    if (line.previous && line.filePath && line.originalLine) {
+        const target: BlamePriorToChangeTarget = {
+            repoRoot,
+            commit: line.commit,
+            filePath: line.filePath,
+            line: line.originalLine,
+            previous: line.previous,
+        };
+        links.push(`[Blame Prior to This Change](command:${SHOW_BLAME_PRIOR_TO_CHANGE_COMMAND}?${encodeURIComponent(JSON.stringify([target]))})`);
+    }
+    parts.push(links.join(' | '));
     const markdown = new vscode.MarkdownString(parts.join('\n\n'));
     markdown.isTrusted = true;
     return markdown;
@@ -43,6 +43,11 @@ export async function openChangesWithWorkingTree(repo: GitRepository, worktreePa
     await openChangesEditor(title, resources);
 }
 
+export async function openChangesBetweenRefs(repo: GitRepository, leftRef: string, rightRef: string, title: string): Promise<void> {
+    const resources = await Promise.all((await repo.compareRefs(leftRef, rightRef, { includeRenames: true })).map((entry) => refChangeResource(repo, leftRef, rightRef, entry)));
+    await openChangesEditor(title, resources);
+}
+
 async function pathExists(filePath: string): Promise<boolean> {
     try {
         await fs.access(filePath);
@@ -59,11 +64,6 @@ async function pickWorktree(worktrees: readonly Worktree[], placeHolder: string)
     return selectedPath ? worktrees.find((worktree) => samePath(worktree.path, selectedPath)) : undefined;
 }
 
-async function openChangesBetweenRefs(repo: GitRepository, leftRef: string, rightRef: string, title: string): Promise<void> {
-    const resources = await Promise.all((await repo.compareRefs(leftRef, rightRef, { includeRenames: true })).map((entry) => refChangeResource(repo, leftRef, rightRef, entry)));
-    await openChangesEditor(title, resources);
-}
-
 async function openChangesEditor(title: string, resources: readonly ChangesResource[]): Promise<void> {
     if (resources.length === 0) {
         await openDiffDocument(title, 'No changes.\n');
@@ -112,5 +112,12 @@ async function openDiffDocument(title: string, content: string): Promise<void> {
 }
 
 async function runtimeRefBlobUri(repo: GitRepository, ref: string, filePath: string, side: string): Promise<vscode.Uri> {
-    return refBlobUriFrom((revision, pathValue) => repo.getFileAtRevision(pathValue, revision), ref, filePath, side);
+    return refBlobUriFrom(
+        (revision, pathValue) => repo.getFileAtRevision(pathValue, revision),
+        (revision, pathValue) => repo.getLfsFileAtRevision(pathValue, revision),
+        ref,
+        filePath,
+        side,
+        repo.gitDir,
+    );
 }
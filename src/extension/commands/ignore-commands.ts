@@ -0,0 +1,75 @@
+import * as path from 'path';
+import * as vscode from 'vscode';
+import type { Worktree } from '@application/ports/git-topology';
+import type { GitIgnoreEdit, GitIgnorePatternScope, GitIgnoreTarget } from '@core/git/domain/git-ignore';
+import { ignorePatternFor } from '@core/git/ignore-pattern';
+
+interface IgnoreScopeItem extends vscode.QuickPickItem {
+    readonly scope: GitIgnorePatternScope;
+}
+
+const TARGET_LABELS: Readonly<Record<GitIgnoreTarget, string>> = {
+    gitignore: '.gitignore',
+    infoExclude: '.git/info/exclude',
+};
+
+/**
+ * Asks whether to ignore the files themselves, their folders or their extensions, then appends one pattern
+ * per path to the exclude file. Resolves the edits, or undefined when the user dismissed the picker.
+ */
+export async function ignoreFiles(
+    worktree: Worktree,
+    filePaths: readonly string[],
+    target: GitIgnoreTarget,
+): Promise<readonly GitIgnoreEdit[] | undefined> {
+    const picked = await vscode.window.showQuickPick(ignoreScopeItems(filePaths), {
+        placeHolder: `Add to ${TARGET_LABELS[target]}`,
+    });
+    if (!picked) { return undefined; }
+    const edits: GitIgnoreEdit[] = [];
+    for (const filePath of filePaths) {
+        if (!ignorePatternFor(filePath, picked.scope)) { continue; }
+        edits.push(await worktree.addIgnorePattern(filePath, picked.scope, target));
+    }
+    if (!edits.some((edit) => edit.added)) {
+        await vscode.window.showInformationMessage(`${TARGET_LABELS[target]} already lists ${uniqueValues(edits.map((edit) => edit.pattern)).join(', ')}.`);
+    }
+    return edits;
+}
+
+/** Reports which exclude rule decides whether `filePath` is ignored and offers to open it. */
+export async function explainIgnoreRule(worktree: Worktree, filePath: string): Promise<void> {
+    const rule = await worktree.explainIgnore(filePath);
+    if (!rule) {
+        await vscode.window.showInformationMessage(`No ignore rule matches "${filePath}".`);
+        return;
+    }
+    const verdict = rule.negated ? 're-included' : 'ignored';
+    const action = await vscode.window.showInformationMessage(
+        `"${filePath}" is ${verdict} by "${rule.pattern}" (${rule.source}:${rule.line}).`,
+        'Open Rule',
+    );
+    if (action !== 'Open Rule') { return; }
+    const document = await vscode.workspace.openTextDocument(vscode.Uri.file(path.resolve(worktree.path, rule.source)));
+    const position = new vscode.Position(Math.max(rule.line - 1, 0), 0);
+    await vscode.window.showTextDocument(document, { selection: new vscode.Range(position, position) });
+}
+
+function ignoreScopeItems(filePaths: readonly string[]): readonly IgnoreScopeItem[] {
+    const single = filePaths.length === 1;
+    const folders = uniqueValues(filePaths.flatMap((filePath) => ignorePatternFor(filePath, 'folder') ?? []));
+    const extensions = uniqueValues(filePaths.flatMap((filePath) => ignorePatternFor(filePath, 'extension') ?? []));
+    return [
+        { label: single ? 'File' : 'Files', description: single ? filePaths[0] : `${filePaths.length} files`, scope: 'path' },
+        ...(folders.length > 0
+            ? [{ label: folders.length === 1 ? 'Folder' : 'Folders', description: folders.map((folder) => folder.substring(1)).join(', '), scope: 'folder' as const }]
+            : []),
+        ...(extensions.length > 0
+            ? [{ label: extensions.length === 1 ? 'Extension' : 'Extensions', description: extensions.join(', '), scope: 'extension' as const }]
+            : []),
+    ];
+}
+
+function uniqueValues(values: readonly string[]): readonly string[] {
+    return Array.from(new Set(values));
+}
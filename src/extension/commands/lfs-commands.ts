@@ -0,0 +1,102 @@
+import * as path from 'path';
+import * as vscode from 'vscode';
+import type { GitRepository, Worktree } from '@application/ports/git-topology';
+import { gitErrorText, isGitLfsMissingError } from '@extension/git/git-error';
+import { pickRemote } from '@extension/git/reference-pickers';
+import type { RepositoryRegistry } from '@extension/repositories/repository-registry';
+import type { RepositoryContextAccessor } from '@extension/repositories/repository-selection-store';
+import { requireRuntimeLocator } from '@extension/repositories/runtime-repository-locator';
+import { showModalWarningMessage } from '@extension/utils/confirmation';
+import { isPathInside, normalizePathForComparison } from '@extension/utils/path-compare';
+
+export const LOCK_LFS_FILE_COMMAND = 'lookGit.file.lockLfs';
+export const UNLOCK_LFS_FILE_COMMAND = 'lookGit.file.unlockLfs';
+
+const GIT_LFS_MISSING_MESSAGE = 'Git LFS is not installed. Install it from https://git-lfs.com and run "git lfs install".';
+
+/** Downloads the LFS objects of the current checkout from a picked remote (`git lfs fetch <remote>`). */
+export async function fetchLfsObjects(repository: GitRepository): Promise<void> {
+    const remote = await pickRemote('Fetch LFS objects from remote', repository);
+    if (!remote) { return; }
+    await runLfsCommand(() => repository.fetchLfsObjects(remote));
+}
+
+/** Locks each file on the LFS server (`git lfs lock`) so collaborators see it as being edited. */
+export async function lockLfsFiles(worktree: Worktree, filePaths: readonly string[]): Promise<void> {
+    for (const filePath of filePaths) {
+        await runLfsCommand(() => worktree.lockLfsFile(filePath));
+    }
+    await vscode.window.showInformationMessage(filePaths.length === 1 ? `Locked "${filePaths[0]}".` : `Locked ${filePaths.length} files.`);
+}
+
+/** Releases the locks; a lock held by another user is only released after confirming a forced unlock. */
+export async function unlockLfsFiles(worktree: Worktree, filePaths: readonly string[]): Promise<void> {
+    const unlocked: string[] = [];
+    for (const filePath of filePaths) {
+        try {
+            await runLfsCommand(() => worktree.unlockLfsFile(filePath, false));
+        } catch (error) {
+            if (!isLockHeldByOtherUser(error)) { throw error; }
+            const choice = await showModalWarningMessage(
+                `"${filePath}" is locked by another user. Force the unlock? They may lose unpushed work on the file.`,
+                'Force Unlock',
+            );
+            if (choice !== 'Force Unlock') { continue; }
+            await runLfsCommand(() => worktree.unlockLfsFile(filePath, true));
+        }
+        unlocked.push(filePath);
+    }
+    if (unlocked.length === 0) { return; }
+    await vscode.window.showInformationMessage(unlocked.length === 1 ? `Unlocked "${unlocked[0]}".` : `Unlocked ${unlocked.length} files.`);
+}
+
+/** Lock and unlock commands of the Explorer and editor Look Git menus. */
+export function registerLfsFileCommands(input: {
+    readonly repositories: RepositoryContextAccessor;
+    readonly runtimeRepositories: RepositoryRegistry;
+}): vscode.Disposable[] {
+    const register = (id: string, run: (worktree: Worktree, filePaths: readonly string[]) => Promise<void>) =>
+        vscode.commands.registerCommand(id, async (uri?: vscode.Uri) => {
+            try {
+                const target = await resolveLfsFile(input, uri ?? vscode.window.activeTextEditor?.document.uri);
+                await run(target.worktree, [target.filePath]);
+            } catch (error) {
+                await vscode.window.showErrorMessage(error instanceof Error ? error.message : String(error));
+            }
+        });
+    return [
+        register(LOCK_LFS_FILE_COMMAND, lockLfsFiles),
+        register(UNLOCK_LFS_FILE_COMMAND, unlockLfsFiles),
+    ];
+}
+
+async function resolveLfsFile(
+    input: { readonly repositories: RepositoryContextAccessor; readonly runtimeRepositories: RepositoryRegistry },
+    uri: vscode.Uri | undefined,
+): Promise<{ readonly worktree: Worktree; readonly filePath: string }> {
+    if (!uri) { throw new Error('No file is selected.'); }
+    if (uri.scheme !== 'file') { throw new Error('Git LFS locks are only available for local files.'); }
+    const context = input.repositories.contexts
+        .filter((candidate) => isPathInside(uri.fsPath, candidate.cwd))
+        .sort((left, right) => normalizePathForComparison(right.cwd).length - normalizePathForComparison(left.cwd).length)[0];
+    if (!context) { throw new Error('The file is not in an open Git repository.'); }
+    const worktree = requireRuntimeLocator(input.runtimeRepositories, context).worktree();
+    const filePath = path.relative(worktree.path, uri.fsPath).split(path.sep).join('/');
+    const [tracked] = await worktree.getLfsTrackedPaths([filePath]);
+    if (!tracked) { throw new Error(`"${filePath}" is not tracked by Git LFS.`); }
+    return { worktree, filePath };
+}
+
+async function runLfsCommand(run: () => Promise<void>): Promise<void> {
+    try {
+        await run();
+    } catch (error) {
+        if (isGitLfsMissingError(error)) { throw new Error(GIT_LFS_MISSING_MESSAGE); }
+        throw error;
+    }
+}
+
+// git-lfs refuses to release someone else's lock and points at `--force`.
+function isLockHeldByOtherUser(error: unknown): boolean {
+    return /owned by|--force/i.test(gitErrorText(error));
+}
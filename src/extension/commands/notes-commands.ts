@@ -0,0 +1,95 @@
+import * as vscode from 'vscode';
+import type { GitRepository } from '@application/ports/git-topology';
+import type { GitNote } from '@core/git/domain/git-note';
+import { DEFAULT_NOTES_REF, fullNotesRef, notesRefLabel } from '@core/git/notes';
+import { pickRemote } from '@extension/git/reference-pickers';
+import { promptForCommitMessage } from '@extension/utils/commit-message-editor';
+import { showModalWarningMessage } from '@extension/utils/confirmation';
+
+interface NotesRefItem extends vscode.QuickPickItem {
+    /** Undefined for the entry that asks for another ref name. */
+    readonly ref: string | undefined;
+}
+
+/** Adds or edits the note of `hash` under a picked notes ref in the commit message editor. */
+export async function editCommitNote(repository: GitRepository, hash: string, extensionUri: vscode.Uri | undefined): Promise<void> {
+    const shortHash = hash.substring(0, 7);
+    const notes = await repository.getCommitNotes(hash);
+    const ref = await pickNotesRef(repository, `Notes ref for the note on ${shortHash}`, notes);
+    if (!ref) { return; }
+    const current = notes.find((note) => note.ref === ref)?.message ?? '';
+    const message = await promptForCommitMessage(current, `${current ? 'Edit' : 'Add'} note on ${shortHash} (${notesRefLabel(ref)})`, extensionUri, {
+        prompt: `Note on ${shortHash} in ${notesRefLabel(ref)}:`,
+        applyLabel: 'Save Note',
+    });
+    if (!message?.trim()) { return; }
+    await repository.setCommitNote(hash, message.trim(), ref);
+}
+
+/** Removes one note of `hash` after confirmation; with several notes refs the user picks which note goes. */
+export async function removeCommitNote(repository: GitRepository, hash: string): Promise<void> {
+    const shortHash = hash.substring(0, 7);
+    const notes = await repository.getCommitNotes(hash);
+    if (notes.length === 0) {
+        await vscode.window.showInformationMessage(`Commit ${shortHash} has no notes.`);
+        return;
+    }
+    const note = notes.length === 1
+        ? notes[0]
+        : (await vscode.window.showQuickPick(notes.map((candidate) => ({
+            label: notesRefLabel(candidate.ref),
+            detail: candidate.message.split(/\r?\n/)[0],
+            note: candidate,
+        })), { placeHolder: `Remove a note from ${shortHash}` }))?.note;
+    if (!note) { return; }
+    const choice = await showModalWarningMessage(`Remove the ${notesRefLabel(note.ref)} note from ${shortHash}?`, 'Remove Note');
+    if (choice !== 'Remove Note') { return; }
+    await repository.removeCommitNote(hash, note.ref);
+}
+
+/** Pushes a picked local notes ref to the same ref on a picked remote. */
+export async function pushNotes(repository: GitRepository): Promise<void> {
+    const refs = await repository.listNotesRefs();
+    if (refs.length === 0) {
+        await vscode.window.showInformationMessage('This repository has no notes to push.');
+        return;
+    }
+    const ref = refs.length === 1
+        ? refs[0]
+        : await vscode.window.showQuickPick(refs, { placeHolder: 'Notes ref to push' });
+    if (!ref) { return; }
+    const remote = await pickRemote(`Push ${notesRefLabel(ref)} notes to remote`, repository);
+    if (!remote) { return; }
+    await repository.pushNotesRef(remote, ref);
+}
+
+/** Fetches a notes ref from a picked remote; the local ref only fast-forwards. */
+export async function fetchNotes(repository: GitRepository): Promise<void> {
+    const remote = await pickRemote('Fetch notes from remote', repository);
+    if (!remote) { return; }
+    const ref = await pickNotesRef(repository, `Notes ref to fetch from ${remote}`, []);
+    if (!ref) { return; }
+    await repository.fetchNotesRef(remote, ref);
+}
+
+async function pickNotesRef(repository: GitRepository, placeHolder: string, notes: readonly GitNote[]): Promise<string | undefined> {
+    const refs = Array.from(new Set([DEFAULT_NOTES_REF, ...await repository.listNotesRefs()]));
+    const notedRefs = new Set(notes.map((note) => note.ref));
+    const items: NotesRefItem[] = [
+        ...refs.map((ref) => ({
+            label: notesRefLabel(ref),
+            ...(notedRefs.has(ref) ? { description: 'has a note' } : {}),
+            ref,
+        })),
+        { label: '$(add) Other Notes Ref...', ref: undefined },
+    ];
+    const picked = await vscode.window.showQuickPick(items, { placeHolder });
+    if (!picked) { return undefined; }
+    if (picked.ref) { return picked.ref; }
+    const name = await vscode.window.showInputBox({
+        prompt: 'Notes ref name:',
+        placeHolder: 'qa, or refs/notes/qa',
+        validateInput: (value) => /^\S+$/.test(value.trim()) ? undefined : 'Enter a ref name without spaces.',
+    });
+    return name?.trim() ? fullNotesRef(name) : undefined;
+}
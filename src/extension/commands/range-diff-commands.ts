@@ -0,0 +1,59 @@
+import type * as vscode from 'vscode';
+import type { GitRepository } from '@application/ports/git-topology';
+import { orderSelectedCommits } from '@application/usecases/commits/order-selected-commits';
+import type { GitRebaseBackup } from '@core/git/domain/git-rebase-backup';
+import { firstParentRuns, rangeForRun, symmetricRangeDiffRanges } from '@core/git/range-diff';
+import { localBranchNameForRemote } from '@extension/git/remote-branch';
+import { openRangeDiffPanel } from '@extension/utils/range-diff-panel';
+
+/** Compares a branch as Visual Rebase backed it up with the branch now (or `HEAD` when the branch is gone). */
+export async function openRebaseBackupRangeDiff(repository: GitRepository, backup: GitRebaseBackup, extensionUri: vscode.Uri | undefined): Promise<void> {
+    const target = backup.branch ?? 'HEAD';
+    await openRangeDiffPanel(repository, requireExtensionUri(extensionUri), {
+        label: `${backup.branchLabel}@${backup.hash.substring(0, 7)} vs ${target}`,
+        ...symmetricRangeDiffRanges(backup.ref, target),
+    });
+}
+
+/** Compares a remote-tracking branch with the local branch that tracks it, e.g. before a force push. */
+export async function openRemoteBranchRangeDiff(repository: GitRepository, remoteBranch: string, extensionUri: vscode.Uri | undefined): Promise<void> {
+    const localBranches = (await repository.listBranches()).filter((branch) => !branch.isRemote);
+    const local = localBranches.find((branch) => branch.upstream === remoteBranch)
+        ?? localBranches.find((branch) => branch.name === localBranchNameForRemote(remoteBranch));
+    if (!local) { throw new Error(`No local branch tracks "${remoteBranch}".`); }
+    await openRangeDiffPanel(repository, requireExtensionUri(extensionUri), {
+        label: `${remoteBranch} vs ${local.name}`,
+        ...symmetricRangeDiffRanges(remoteBranch, local.name),
+    });
+}
+
+/**
+ * Compares two ranges selected in the graph. The selection must split into exactly two runs of commits linked
+ * by first parents; the run with the older tip is the old range.
+ */
+export async function openSelectedRangesDiff(repository: GitRepository, hashes: readonly string[], extensionUri: vscode.Uri | undefined): Promise<void> {
+    const ordered = await orderSelectedCommits(repository, hashes, 'newestFirst');
+    const commits = await Promise.all(ordered.map((hash) => repository.getCommitDetails(hash)));
+    const runs = firstParentRuns(commits);
+    const [newRun, oldRun] = runs;
+    if (runs.length !== 2 || !newRun || !oldRun) {
+        throw new Error(`Select two ranges of consecutive commits to compare; the selection forms ${runs.length}.`);
+    }
+    const oldRange = rangeForRun(oldRun);
+    const newRange = rangeForRun(newRun);
+    if (!oldRange || !newRange) { throw new Error('Ranges that start at a root commit cannot be compared.'); }
+    await openRangeDiffPanel(repository, requireExtensionUri(extensionUri), {
+        label: `${shortRange(oldRange)} vs ${shortRange(newRange)}`,
+        oldRange,
+        newRange,
+    });
+}
+
+function shortRange(range: string): string {
+    return range.split('..').map((hash) => hash.substring(0, 7)).join('..');
+}
+
+function requireExtensionUri(extensionUri: vscode.Uri | undefined): vscode.Uri {
+    if (!extensionUri) { throw new Error('Range Diff requires the extension URI.'); }
+    return extensionUri;
+}
@@ -0,0 +1,100 @@
+import type * as vscode from 'vscode';
+import type { GitRepository } from '@application/ports/git-topology';
+import type { GitRebaseBackup } from '@core/git/domain/git-rebase-backup';
+import { PlanDestructiveOperationUseCase } from '@application/usecases/guards/plan-destructive-operation';
+import type { RebaseBackupCommand } from '@protocol/graph/messages';
+import { openChangesBetweenRefs } from '@extension/commands/git-command-helpers';
+import { requireRuntimeRepository, requireRuntimeTargets, requireRuntimeWorktreePath, type RuntimeCommandTargets } from '@extension/commands/runtime-command-targets';
+import { commandExecutionResult, type CommandExecutionResult } from '@extension/commands/command-execution-result';
+import { openRebaseBackupRangeDiff } from '@extension/commands/range-diff-commands';
+import { currentBranchName } from '@extension/git/current-branch';
+import type { RequestGuardedOperation } from '@extension/operations/guarded-operation-coordinator';
+
+const destructivePlans = new PlanDestructiveOperationUseCase();
+
+/** Runs a Rebase Backups action; `hash` is where the backup pointed when the graph listed it. */
+export async function runRebaseBackupCommand(
+    runtimeTargets: RuntimeCommandTargets,
+    command: RebaseBackupCommand,
+    ref: string,
+    hash: string,
+    extensionUri?: vscode.Uri,
+    requestGuardedOperation?: RequestGuardedOperation,
+): Promise<CommandExecutionResult> {
+    const repo = requireRuntimeRepository(runtimeTargets);
+    const backup = (await repo.listRebaseBackups()).find((candidate) => candidate.ref === ref);
+    if (!backup || backup.hash !== hash) {
+        throw new Error(`Backup ${ref} was changed or deleted. Refresh Look Graph and try again.`);
+    }
+    switch (command) {
+        case 'restore':
+            await restoreRebaseBackup(repo, runtimeTargets, backup, requireGuardedOperations(requestGuardedOperation, 'Restoring a backup'));
+            return commandExecutionResult(false);
+        case 'compare': {
+            const currentBranch = await currentBranchName(repo);
+            await openChangesBetweenRefs(repo, backup.ref, 'HEAD', `Diff ${backupLabel(backup)}..${currentBranch}`);
+            return commandExecutionResult(false);
+        }
+        case 'rangeDiff':
+            await openRebaseBackupRangeDiff(repo, backup, extensionUri);
+            return commandExecutionResult(false);
+        case 'delete': {
+            const target = requireRuntimeTargets(runtimeTargets);
+            await requireGuardedOperations(requestGuardedOperation, 'Deleting a backup')({
+                title: `Delete Backup ${backupLabel(backup)}`,
+                confirmLabel: 'Delete',
+                context: () => ({ repositoryId: target.repository.repoId, worktreeId: target.worktree.worktreeId }),
+                plan: () => destructivePlans.deleteRef(target, backup.ref, `backup ${backupLabel(backup)}`),
+                execute: () => repo.deleteRef(backup.ref),
+            });
+            return commandExecutionResult(false);
+        }
+    }
+}
+
+/**
+ * Moves the backup's branch back to the backed-up commit. A checked-out branch is hard reset in its worktree,
+ * so the plan lists the changes that would be lost; any other branch ref is updated in place.
+ */
+async function restoreRebaseBackup(
+    repo: GitRepository,
+    runtimeTargets: RuntimeCommandTargets,
+    backup: GitRebaseBackup,
+    requestGuardedOperation: RequestGuardedOperation,
+): Promise<void> {
+    const branch = backup.branch;
+    if (!branch) {
+        throw new Error(`Branch "${backup.branchLabel}" no longer exists. Create a branch from ${backup.hash.substring(0, 7)} instead.`);
+    }
+    const title = `Restore ${branch} to ${backupLabel(backup)}`;
+    const checkout = (await repo.listWorktrees())
+        .find((worktree) => worktree.branch?.replace(/^refs\/heads\//, '') === branch);
+    if (!checkout) {
+        const target = requireRuntimeTargets(runtimeTargets);
+        await requestGuardedOperation({
+            title,
+            confirmLabel: 'Restore',
+            context: () => ({ repositoryId: target.repository.repoId, worktreeId: target.worktree.worktreeId }),
+            plan: () => destructivePlans.moveBranch(target, branch, backup.hash),
+            execute: () => repo.updateRef(`refs/heads/${branch}`, backup.hash),
+        });
+        return;
+    }
+    const target = { repository: repo, worktree: requireRuntimeWorktreePath(runtimeTargets, checkout.path) };
+    await requestGuardedOperation({
+        title,
+        confirmLabel: 'Restore',
+        context: () => ({ repositoryId: target.repository.repoId, worktreeId: target.worktree.worktreeId }),
+        plan: () => destructivePlans.resetHard(target, backup.hash),
+        execute: () => target.worktree.resetHard(backup.hash),
+    });
+}
+
+function requireGuardedOperations(requestGuardedOperation: RequestGuardedOperation | undefined, action: string): RequestGuardedOperation {
+    if (!requestGuardedOperation) { throw new Error(`${action} needs a view that can show its plan.`); }
+    return requestGuardedOperation;
+}
+
+function backupLabel(backup: GitRebaseBackup): string {
+    return `${backup.branchLabel}@${backup.hash.substring(0, 7)}`;
+}
@@ -0,0 +1,123 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import type { GitRepository } from '@application/ports/git-topology';
+import type { PublishedBranch, ResolveRemoteWebRepositoryUseCase } from '@application/usecases/remotes/resolve-remote-web-repository';
+import type { GitRemoteLineRange, GitRemoteWebRepository } from '@core/git/domain/git-remote-hosting';
+import { remoteBranchUrl, remoteCommitUrl, remoteCompareUrl, remoteFileUrl } from '@core/git/remote-hosting';
+import { defaultResolveRemoteWebRepository } from '@extension/adapters/vscode/default-resolve-remote-web-repository';
+import { currentLocalBranchName } from '@extension/git/current-branch';
+import type { RepositoryRegistry } from '@extension/repositories/repository-registry';
+import type { RepositoryContextAccessor } from '@extension/repositories/repository-selection-store';
+import { requireRuntimeLocator } from '@extension/repositories/runtime-repository-locator';
+import { isPathInside, normalizePathForComparison } from '@extension/utils/path-compare';
+
+export const COPY_REMOTE_PERMALINK_COMMAND = 'lookGit.file.copyRemotePermalink';
+
+/** Opens `url` in the browser; only web links are accepted because webviews can ask for arbitrary URLs. */
+export async function openRemoteUrl(url: string): Promise<void> {
+    if (!/^https?:\/\//i.test(url)) { throw new Error(`Only http and https links can be opened: ${url}`); }
+    await vscode.env.openExternal(vscode.Uri.parse(url));
+}
+
+export async function openCommitOnRemote(
+    repository: GitRepository,
+    hash: string,
+    resolver: ResolveRemoteWebRepositoryUseCase = defaultResolveRemoteWebRepository,
+): Promise<void> {
+    await openRemoteUrl(remoteCommitUrl(await requireRemoteWebRepository(resolver, repository), hash));
+}
+
+export async function openBranchOnRemote(
+    repository: GitRepository,
+    branch: string,
+    isRemote: boolean,
+    resolver: ResolveRemoteWebRepositoryUseCase = defaultResolveRemoteWebRepository,
+): Promise<void> {
+    const published = await requirePublishedBranch(resolver, repository, branch, isRemote);
+    const webRepository = await requireRemoteWebRepository(resolver, repository, published.remote);
+    await openRemoteUrl(remoteBranchUrl(webRepository, published.branchName));
+}
+
+/** Opens the hosting service's comparison of `branch` against the current branch. */
+export async function compareBranchOnRemote(
+    repository: GitRepository,
+    branch: string,
+    isRemote: boolean,
+    resolver: ResolveRemoteWebRepositoryUseCase = defaultResolveRemoteWebRepository,
+): Promise<void> {
+    const currentBranch = await currentLocalBranchName(repository);
+    if (!currentBranch) { throw new Error('Check out a branch to compare on the remote.'); }
+    const head = await requirePublishedBranch(resolver, repository, branch, isRemote);
+    const base = await requirePublishedBranch(resolver, repository, currentBranch, false);
+    if (head.branchName === base.branchName && head.remote === base.remote) {
+        throw new Error(`"${branch}" is the branch the current branch tracks.`);
+    }
+    const webRepository = await requireRemoteWebRepository(resolver, repository, head.remote);
+    await openRemoteUrl(remoteCompareUrl(webRepository, base.branchName, head.branchName));
+}
+
+/** Copies a link to the selected lines of the active editor at the current `HEAD` commit. */
+export function registerCopyRemotePermalinkCommand(input: {
+    readonly repositories: RepositoryContextAccessor;
+    readonly runtimeRepositories: RepositoryRegistry;
+    readonly resolver?: ResolveRemoteWebRepositoryUseCase;
+}): vscode.Disposable {
+    const resolver = input.resolver ?? defaultResolveRemoteWebRepository;
+    return vscode.commands.registerCommand(COPY_REMOTE_PERMALINK_COMMAND, async () => {
+        try {
+            const editor = vscode.window.activeTextEditor;
+            if (!editor) { throw new Error('No editor is active.'); }
+            const filePath = editor.document.uri.fsPath;
+            if (editor.document.uri.scheme !== 'file') { throw new Error('Permalinks are only available for local files.'); }
+
+            const context = input.repositories.contexts
+                .filter((candidate) => isPathInside(filePath, candidate.cwd))
+                .sort((left, right) => normalizePathForComparison(right.cwd).length - normalizePathForComparison(left.cwd).length)[0];
+            if (!context) { throw new Error('The file is not in an open Git repository.'); }
+            const repository = requireRuntimeLocator(input.runtimeRepositories, context).repository();
+
+            const webRepository = await requireRemoteWebRepository(resolver, repository);
+            const revision = await repository.resolveRef('HEAD');
+            const relativePath = path.relative(repository.cwd, filePath).split(path.sep).join('/');
+            const url = remoteFileUrl(webRepository, revision, relativePath, selectedLines(editor.selection));
+            await vscode.env.clipboard.writeText(url);
+            await vscode.window.showInformationMessage('Permalink copied to clipboard.');
+        } catch (error) {
+            await vscode.window.showErrorMessage(error instanceof Error ? error.message : String(error));
+        }
+    });
+}
+
+async function requireRemoteWebRepository(
+    resolver: ResolveRemoteWebRepositoryUseCase,
+    repository: GitRepository,
+    remote?: string,
+): Promise<GitRemoteWebRepository> {
+    const webRepository = await resolver.execute(repository, remote);
+    if (!webRepository) {
+        throw new Error(remote
+            ? `Remote "${remote}" is not on a known hosting service. Add its host to lookGit.remoteHosting.hosts.`
+            : 'No remote on a known hosting service. Add the host to lookGit.remoteHosting.hosts.');
+    }
+    return webRepository;
+}
+
+async function requirePublishedBranch(
+    resolver: ResolveRemoteWebRepositoryUseCase,
+    repository: GitRepository,
+    branch: string,
+    isRemote: boolean,
+): Promise<PublishedBranch> {
+    const published = await resolver.publishedBranch(repository, branch, isRemote);
+    if (!published) { throw new Error(`Branch "${branch}" has no upstream branch on a remote.`); }
+    return published;
+}
+
+/** One-based lines of the selection; a selection ending at column 0 does not include that last line. */
+function selectedLines(selection: vscode.Selection): GitRemoteLineRange {
+    const { anchor, active } = selection;
+    const anchorFirst = anchor.line < active.line || (anchor.line === active.line && anchor.character <= active.character);
+    const [first, last] = anchorFirst ? [anchor, active] : [active, anchor];
+    const end = last.character === 0 && last.line > first.line ? last.line : last.line + 1;
+    return { start: first.line + 1, end };
+}
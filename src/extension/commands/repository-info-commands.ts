@@ -0,0 +1,44 @@
+import * as vscode from 'vscode';
+import type { GitRepository } from '@application/ports/git-topology';
+import type { GitHooks } from '@core/git/domain/git-hooks';
+import { openReadonlyMarkdownDocument } from '@extension/utils/readonly-diff-documents';
+
+/** Opens a read-only summary of `repository`: where it lives and which hooks run for it. */
+export async function showRepositoryInfo(repository: GitRepository): Promise<void> {
+    const hooks = await repository.getHooks();
+    await openReadonlyMarkdownDocument(`Repository Info ${repository.label}`, repositoryInfoContent(repository, hooks));
+}
+
+/** Opens the script of the installed `hook`; a hook that is not installed is reported with the directory searched. */
+export async function openHookScript(repository: GitRepository, hook: string): Promise<void> {
+    const hooks = await repository.getHooks();
+    const installed = hooks.hooks.find((candidate) => candidate.name === hook);
+    if (!installed) {
+        throw new Error(`No ${hook} hook is installed in ${hooks.directory}.`);
+    }
+    await vscode.window.showTextDocument(vscode.Uri.file(installed.path), { preview: false });
+}
+
+export function repositoryInfoContent(repository: Pick<GitRepository, 'label' | 'cwd' | 'gitDir'>, hooks: GitHooks): string {
+    const rows = hooks.hooks.map((hook) => `| \`${escapeMarkdownInline(hook.name)}\` | ${hook.executable ? 'Yes' : 'No'} | \`${escapeMarkdownInline(hook.path)}\` |`);
+    return [
+        `# ${repository.label}`,
+        [
+            `Working tree: \`${escapeMarkdownInline(repository.cwd)}\``,
+            `Git directory: \`${escapeMarkdownInline(repository.gitDir)}\``,
+        ].join('  \n'),
+        '## Hooks',
+        [
+            `Hooks directory: \`${escapeMarkdownInline(hooks.directory)}\``,
+            `core.hooksPath: ${hooks.configuredPath === undefined ? '(not set)' : `\`${escapeMarkdownInline(hooks.configuredPath)}\``}`,
+        ].join('  \n'),
+        rows.length > 0
+            ? ['| Hook | Executable | Script |', '| --- | --- | --- |', ...rows].join('\n')
+            : 'No hooks are installed.',
+        ...(hooks.hooks.some((hook) => !hook.executable) ? ['> Git skips hooks that are not executable.'] : []),
+    ].join('\n\n');
+}
+
+function escapeMarkdownInline(value: string): string {
+    return value.replace(/\\/g, '\\\\').replace(/`/g, '\\`');
+}
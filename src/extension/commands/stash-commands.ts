@@ -0,0 +1,56 @@
+import { PlanDestructiveOperationUseCase } from '@application/usecases/guards/plan-destructive-operation';
+import type { StashCommand } from '@protocol/graph/messages';
+import { openChangesBetweenRefs } from '@extension/commands/git-command-helpers';
+import { requireRuntimeRepository, requireRuntimeTargets, requireRuntimeWorktree, type RuntimeCommandTargets } from '@extension/commands/runtime-command-targets';
+import { commandExecutionResult, type CommandExecutionResult } from '@extension/commands/command-execution-result';
+import { inputBranchName } from '@extension/git/reference-pickers';
+import type { RequestGuardedOperation } from '@extension/operations/guarded-operation-coordinator';
+
+const destructivePlans = new PlanDestructiveOperationUseCase();
+
+/** Runs a graph stash row action; `hash` is the stash commit the graph listed at `stash@{index}`. */
+export async function runStashCommand(
+    runtimeTargets: RuntimeCommandTargets,
+    command: StashCommand,
+    index: number,
+    hash: string,
+    requestGuardedOperation?: RequestGuardedOperation,
+): Promise<CommandExecutionResult> {
+    const worktree = requireRuntimeWorktree(runtimeTargets);
+    const ref = `stash@{${index}}`;
+    const stashes = (await worktree.listStashes({ limit: index + 1 })).items;
+    const stash = stashes.find((candidate) => candidate.index === index);
+    if (!stash || stash.hash !== hash) {
+        throw new Error(`${ref} was changed or dropped. Refresh Look Graph and try again.`);
+    }
+    switch (command) {
+        case 'apply':
+            await worktree.applyStash(ref, {});
+            return commandExecutionResult(true);
+        case 'pop':
+            await worktree.popStash(ref, {});
+            return commandExecutionResult(true);
+        case 'drop': {
+            if (!requestGuardedOperation) { throw new Error('Dropping a stash needs a view that can show its plan.'); }
+            const target = requireRuntimeTargets(runtimeTargets);
+            await requestGuardedOperation({
+                title: `Drop ${ref}`,
+                confirmLabel: 'Drop',
+                context: () => ({ repositoryId: target.repository.repoId, worktreeId: target.worktree.worktreeId }),
+                plan: () => destructivePlans.dropStash(target, index),
+                execute: () => target.worktree.dropStash(ref),
+            });
+            return commandExecutionResult(false);
+        }
+        case 'branch': {
+            // `git stash branch` checks the branch out at the stash's base commit, so the stash applies without conflicts.
+            const branch = await inputBranchName(`New branch for ${ref}`);
+            if (!branch) { return commandExecutionResult(false); }
+            await worktree.branchFromStash(ref, branch);
+            return commandExecutionResult(true);
+        }
+        case 'diff':
+            await openChangesBetweenRefs(requireRuntimeRepository(runtimeTargets), `${hash}^`, hash, `Stash ${ref}`);
+            return commandExecutionResult(false);
+    }
+}
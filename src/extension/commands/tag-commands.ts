@@ -0,0 +1,105 @@
+import * as vscode from 'vscode';
+import type { GitRepository } from '@application/ports/git-topology';
+import type { GitCommit } from '@core/git/domain/git-commit';
+import type { GitTag } from '@core/git/domain/git-status';
+import type { TagCommand } from '@protocol/graph/messages';
+import { previousTagVersion } from '@protocol/shared/tag-versions';
+import { openChangesBetweenRefs } from '@extension/commands/git-command-helpers';
+import { requireRuntimeRepository, requireRuntimeWorktree, type RuntimeCommandTargets } from '@extension/commands/runtime-command-targets';
+import { commandExecutionResult, type CommandExecutionResult } from '@extension/commands/command-execution-result';
+import { currentBranchName } from '@extension/git/current-branch';
+import { pickRemote } from '@extension/git/reference-pickers';
+import { showModalWarningMessage } from '@extension/utils/confirmation';
+import { openReadonlyMarkdownDocument } from '@extension/utils/readonly-diff-documents';
+
+const REVEAL_GRAPH_COMMIT_COMMAND = 'lookGit.graph.revealCommit';
+const MAX_RELEASE_NOTE_COMMITS = 500;
+
+/** Runs a Tags action; `hash` is the tag object (or commit, for a lightweight tag) the graph listed. */
+export async function runTagCommand(
+    runtimeTargets: RuntimeCommandTargets,
+    command: TagCommand,
+    name: string,
+    hash: string,
+): Promise<CommandExecutionResult> {
+    const repo = requireRuntimeRepository(runtimeTargets);
+    const tags = await repo.listTags();
+    const tag = tags.find((candidate) => candidate.name === name);
+    if (!tag || tag.hash !== hash) {
+        throw new Error(`Tag ${name} was changed or deleted. Refresh Look Graph and try again.`);
+    }
+    const target = tag.target ?? tag.hash;
+    switch (command) {
+        case 'reveal':
+            await vscode.commands.executeCommand(REVEAL_GRAPH_COMMIT_COMMAND, target);
+            return commandExecutionResult(false);
+        case 'checkout':
+            await requireRuntimeWorktree(runtimeTargets).checkout(target, { detach: true });
+            return commandExecutionResult(true);
+        case 'push': {
+            const remote = await pickRemote(`Push tag "${name}" to remote`, repo);
+            if (!remote) { return commandExecutionResult(false); }
+            await requireRuntimeWorktree(runtimeTargets).pushRef(remote, `refs/tags/${name}`, `refs/tags/${name}`, {});
+            return commandExecutionResult(true);
+        }
+        case 'delete': {
+            const choice = await showModalWarningMessage(`Delete tag "${name}"?`, 'Delete');
+            if (choice !== 'Delete') { return commandExecutionResult(false); }
+            await repo.deleteTag(name);
+            return commandExecutionResult(true);
+        }
+        case 'deleteRemote': {
+            const remote = await pickRemote(`Delete tag "${name}" from remote`, repo);
+            if (!remote) { return commandExecutionResult(false); }
+            const choice = await showModalWarningMessage(`Delete tag "${name}" from "${remote}"?`, 'Delete');
+            if (choice !== 'Delete') { return commandExecutionResult(false); }
+            await requireRuntimeWorktree(runtimeTargets).pushRef(remote, '', `refs/tags/${name}`, {});
+            return commandExecutionResult(true);
+        }
+        case 'compareWithCurrent': {
+            const currentBranch = await currentBranchName(repo);
+            await openChangesBetweenRefs(repo, `refs/tags/${name}`, 'HEAD', `Diff ${name}..${currentBranch}`);
+            return commandExecutionResult(false);
+        }
+        case 'createReleaseNotes':
+            await openReleaseNotes(repo, tag, tags);
+            return commandExecutionResult(false);
+    }
+}
+
+/** Opens draft notes for `tag` listing the commits since the previous version of its series. */
+async function openReleaseNotes(repo: GitRepository, tag: GitTag, tags: readonly GitTag[]): Promise<void> {
+    const previous = previousTagVersion(tag.name, tags.map((candidate) => candidate.name));
+    if (!previous) {
+        throw new Error(`No earlier version tag was found before ${tag.name} to write release notes from.`);
+    }
+    const commits = await repo.getCommitRange(`refs/tags/${previous}`, `refs/tags/${tag.name}`, { limit: MAX_RELEASE_NOTE_COMMITS });
+    await openReadonlyMarkdownDocument(
+        `Release Notes ${tag.name}`,
+        releaseNotesContent(tag.name, previous, commits.items, commits.hasMore),
+    );
+}
+
+/** Release notes grouped by conventional commit type; commits without a recognised type are listed as other changes. */
+export function releaseNotesContent(tag: string, previous: string, commits: readonly Pick<GitCommit, 'shortHash' | 'message'>[], truncated: boolean): string {
+    const groups: { readonly title: string; readonly lines: string[] }[] = [
+        { title: 'Features', lines: [] },
+        { title: 'Fixes', lines: [] },
+        { title: 'Other Changes', lines: [] },
+    ];
+    for (const commit of commits) {
+        const subject = commit.message.split(/\r?\n/, 1)[0]?.trim() ?? '';
+        const type = /^([A-Za-z]+)(?:\([^()]*\))?!?: /.exec(subject)?.[1]?.toLowerCase();
+        const group = type === 'feat' ? groups[0] : type === 'fix' ? groups[1] : groups[2];
+        group?.lines.push(`- ${subject} (${commit.shortHash})`);
+    }
+    const sections = groups
+        .filter((group) => group.lines.length > 0)
+        .map((group) => `## ${group.title}\n\n${group.lines.join('\n')}`);
+    return [
+        `# ${tag}`,
+        `Changes since ${previous}.`,
+        ...(sections.length > 0 ? sections : ['No commits.']),
+        ...(truncated ? [`> Only the first ${commits.length} commits are listed.`] : []),
+    ].join('\n\n');
+}
@@ -0,0 +1,42 @@
+import * as vscode from 'vscode';
+import type { OperationJournal } from '@application/ports/operation-journal';
+import { describeJournaledOperation, UndoLastOperationUseCase, type UndoTarget } from '@application/usecases/undo/undo-last-operation';
+import { isAbortError } from '@extension/messaging/error-serialization';
+import type { RepositoryRegistry } from '@extension/repositories/repository-registry';
+import type { RepositorySelectionStore } from '@extension/repositories/repository-selection-store';
+import { requireRuntimeLocator } from '@extension/repositories/runtime-repository-locator';
+
+export const UNDO_LAST_OPERATION_COMMAND = 'lookGit.undoLastOperation';
+
+const UNDO_COMMAND = 'Undo';
+
+/** Reverts the newest journaled operation of the current repository after a modal confirmation. */
+export function registerUndoLastOperationCommand(input: {
+    readonly journal: OperationJournal;
+    readonly repositories: RepositorySelectionStore;
+    readonly runtimeRepositories: RepositoryRegistry;
+    readonly refreshAll: () => Promise<void>;
+}): vscode.Disposable {
+    const undo = new UndoLastOperationUseCase(input.journal);
+    return vscode.commands.registerCommand(UNDO_LAST_OPERATION_COMMAND, async () => {
+        try {
+            const locator = requireRuntimeLocator(input.runtimeRepositories, input.repositories.currentContext);
+            const target: UndoTarget = { repository: locator.repository(), worktree: locator.worktree() };
+            const entry = undo.latest(target);
+            if (!entry) {
+                await vscode.window.showInformationMessage('Nothing to undo.');
+                return;
+            }
+            const description = describeJournaledOperation(entry);
+            const choice = await vscode.window.showWarningMessage(`Undo the ${description}?`, { modal: true }, UNDO_COMMAND);
+            if (choice !== UNDO_COMMAND) { return; }
+
+            await undo.execute(target);
+            await input.refreshAll();
+            await vscode.window.showInformationMessage(`Undid the ${description}.`);
+        } catch (error) {
+            if (isAbortError(error)) { return; }
+            await vscode.window.showErrorMessage(error instanceof Error ? error.message : String(error));
+        }
+    });
+}
@@ -8,6 +8,7 @@ import { openChangesWithWorkingTree } from '@extension/commands/git-command-help
 import { requireRuntimeRepository, requireRuntimeTargets, requireRuntimeWorktree, type RuntimeCommandTargets } from '@extension/commands/runtime-command-targets';
 import { samePath } from '@extension/utils/path-compare';
 import { commandExecutionResult, pushCommandExecutionResult, type CommandExecutionResult } from '@extension/commands/command-execution-result';
+import { confirmWorktreeOutgoingCommitMessages } from '@extension/utils/commit-message-conventions';
 
 export async function runWorktreeCommand(
     repo: GitRepository,
@@ -45,6 +46,9 @@ export async function runWorktreeCommand(
             await requireRuntimeWorktree(runtimeTargets).pull({});
             return commandExecutionResult(true);
         case 'push': {
+            if (!await confirmWorktreeOutgoingCommitMessages(runtimeRepository, requireRuntimeWorktree(runtimeTargets))) {
+                return commandExecutionResult(false);
+            }
             const outcome = await requireRuntimeWorktree(runtimeTargets).push(undefined, {});
             return pushCommandExecutionResult(outcome);
         }
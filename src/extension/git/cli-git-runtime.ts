@@ -2,10 +2,26 @@ import * as fs from 'fs/promises';
 import * as os from 'os';
 import * as path from 'path';
 import { Page } from '@core/git/domain/page';
+import type { GitIgnorePatternScope, GitIgnoreTarget } from '@core/git/domain/git-ignore';
 import type { GitExec } from '@extension/git/git-exec';
-import { queryAllBranches, queryAllTags, queryCommitFiles, queryCommitLineRangeLog, queryCommitLog, queryCommitMessage, queryCurrentBranch, queryGraphLog } from '@extension/git/queries/query-graph';
+import { queryAllBranches, queryAllTags, queryCommitFiles, queryCommitLineRangeLog, queryCommitLog, queryCommitMessage, queryCurrentBranch, queryFileRevisions, queryGraphLog } from '@extension/git/queries/query-graph';
 import { queryStatus, queryStashList } from '@extension/git/queries/query-status';
+import { queryReflog } from '@extension/git/queries/query-reflog';
+import { queryBisectState } from '@extension/git/queries/query-bisect';
+import { queryRebaseBackups } from '@extension/git/queries/query-rebase-backups';
+import { queryRangeDiff } from '@extension/git/queries/query-range-diff';
+import { querySigningConfig } from '@extension/git/queries/query-signing-config';
+import { queryCommitTemplate } from '@extension/git/queries/query-commit-template';
+import { queryHooks } from '@extension/git/queries/query-hooks';
+import { GitHookError } from '@extension/git/git-error';
+import { addIgnorePattern, queryIgnoredFiles, queryIgnoreRule } from '@extension/git/queries/query-ignore';
+import { queryLfsTrackedPaths } from '@extension/git/queries/query-lfs';
+import { queryCommitNotes, queryNotesRefs } from '@extension/git/queries/query-notes';
+import { NOTES_REF_PREFIX } from '@core/git/notes';
 import { parseNameStatusZ } from '@core/parsing/parse-name-status';
+import { parseDiffHunks } from '@core/parsing/parse-diff-hunks';
+import { parseCleanPreview } from '@core/parsing/parse-clean-preview';
+import { buildPartialPatch, PartialPatchDirection, selectDiffLines } from '@core/git/build-partial-patch';
 import { querySubmoduleStatus, updateSubmodule } from '@extension/git/queries/query-submodules';
 import { addWorktree, queryWorktrees, removeWorktree } from '@extension/git/queries/query-worktrees';
 import { UnsupportedGitOperationError, type GitExecutionContext, type GitRuntime } from '@application/ports/git-runtime';
@@ -21,6 +37,7 @@ interface CliInvocation {
 export interface CliGitRuntimeProcessOptions {
     readonly signal?: AbortSignal;
     readonly env?: Readonly<Record<string, string>>;
+    readonly onOutput?: (chunk: string) => void;
 }
 
 export type CliGitRuntimeProcess = (
@@ -72,6 +89,7 @@ const CLI_INVOCATIONS: Partial<Record<SemanticGitOperation, CliInvocationBuilder
     listRemotes: () => ({ args: ['remote'] }),
     resolveRef: (input) => ({ args: ['rev-parse', requiredString(input, 'ref')] }),
     updateRef: (input) => ({ args: ['update-ref', requiredStringField(input, 'ref'), requiredStringField(input, 'newValue')] }),
+    deleteRef: (input) => ({ args: ['update-ref', '-d', requiredString(input, 'ref')] }),
     fetch: (input) => ({ args: withOptionalRemote(['fetch'], optionalStringField(input, 'remote')) }),
     fetchAll: () => ({ args: ['fetch', '--all'] }),
     pruneRemote: (input) => ({ args: ['remote', 'prune', requiredString(input, 'remote')] }),
@@ -81,6 +99,17 @@ const CLI_INVOCATIONS: Partial<Record<SemanticGitOperation, CliInvocationBuilder
     removeRemote: (input) => ({ args: ['remote', 'remove', requiredString(input, 'remote')] }),
     getFileAtRevision: (input) => ({ args: ['show', `${requiredStringField(input, 'revision')}:${requiredStringField(input, 'path')}`], trim: false }),
     getFileFromIndex: (input) => ({ args: ['show', `:${requiredStringField(input, 'path')}`], trim: false }),
+    // `cat-file --filters` runs the checkout filters, so the LFS smudge filter swaps pointers for their content.
+    getLfsFileAtRevision: (input) => ({ args: ['cat-file', '--filters', `${requiredStringField(input, 'revision')}:${requiredStringField(input, 'path')}`], trim: false }),
+    getLfsFileFromIndex: (input) => ({ args: ['cat-file', '--filters', `:${requiredStringField(input, 'path')}`], trim: false }),
+    lockLfsFile: (input) => ({ args: ['lfs', 'lock', '--', requiredStringField(input, 'path')] }),
+    unlockLfsFile: (input) => ({ args: ['lfs', 'unlock', ...(optionalBooleanField(input, 'force') ? ['--force'] : []), '--', requiredStringField(input, 'path')] }),
+    fetchLfsObjects: (input) => ({ args: withOptionalRemote(['lfs', 'fetch'], optionalStringField(input, 'remote')) }),
+    setCommitNote: (input) => ({ args: ['notes', `--ref=${notesRefField(input)}`, 'add', '-f', '-m', requiredStringField(input, 'message'), requiredStringField(input, 'commit')] }),
+    removeCommitNote: (input) => ({ args: ['notes', `--ref=${notesRefField(input)}`, 'remove', '--ignore-missing', requiredStringField(input, 'commit')] }),
+    pushNotesRef: (input) => ({ args: ['push', requiredStringField(input, 'remote'), `${notesRefField(input)}:${notesRefField(input)}`] }),
+    // Without a leading `+` the fetch only fast-forwards, so local notes are never dropped.
+    fetchNotesRef: (input) => ({ args: ['fetch', requiredStringField(input, 'remote'), `${notesRefField(input)}:${notesRefField(input)}`] }),
     createBranch: (input) => ({ args: createBranchArgs(input) }),
     renameBranch: (input) => ({ args: ['branch', '-m', requiredStringField(input, 'oldName'), requiredStringField(input, 'newName')] }),
     deleteBranch: (input) => ({ args: deleteBranchArgs(input) }),
@@ -93,12 +122,12 @@ const CLI_INVOCATIONS: Partial<Record<SemanticGitOperation, CliInvocationBuilder
     unstageAll: () => ({ args: ['reset', 'HEAD'] }),
     discard: (input) => ({ args: ['checkout', '--', ...requiredStringArrayField(input, 'paths')] }),
     markResolved: (input) => ({ args: ['add', '--', ...requiredStringArrayField(input, 'paths')] }),
-    commit: (input) => ({ args: ['commit', '-m', requiredStringField(input, 'message')] }),
-    amendCommit: (input) => ({ args: ['commit', '--amend', '-m', requiredStringField(input, 'message')] }),
     applyStash: (input) => ({ args: ['stash', 'apply', requiredStringField(input, 'stash')] }),
     popStash: (input) => ({ args: ['stash', 'pop', requiredStringField(input, 'stash')] }),
     dropStash: (input) => ({ args: ['stash', 'drop', requiredString(input, 'stash')] }),
     clearStashes: () => ({ args: ['stash', 'clear'] }),
+    branchFromStash: (input) => ({ args: ['stash', 'branch', requiredStringField(input, 'branchName'), requiredStringField(input, 'stash')] }),
+    storeStash: (input) => ({ args: ['stash', 'store', '-m', requiredStringField(input, 'message'), requiredStringField(input, 'commit')] }),
     getStashSummary: (input) => ({ args: ['stash', 'show', '--include-untracked', '--stat', requiredStringField(input, 'stash')] }),
     checkout: (input) => ({ args: ['checkout', requiredStringField(input, 'ref')] }),
     checkoutNewBranch: (input) => ({ args: checkoutNewBranchArgs(input) }),
@@ -120,12 +149,20 @@ const CLI_INVOCATIONS: Partial<Record<SemanticGitOperation, CliInvocationBuilder
     continueRevert: () => ({ args: ['revert', '--continue'] }),
     abortRevert: () => ({ args: ['revert', '--abort'] }),
     skipRevert: () => ({ args: ['revert', '--skip'] }),
+    bisectStart: (input) => ({ args: bisectStartArgs(input) }),
+    bisectGood: (input) => ({ args: withOptionalCommit(['bisect', 'good'], optionalStringField(input, 'commit')) }),
+    bisectBad: (input) => ({ args: withOptionalCommit(['bisect', 'bad'], optionalStringField(input, 'commit')) }),
+    bisectSkip: (input) => ({ args: withOptionalCommit(['bisect', 'skip'], optionalStringField(input, 'commit')) }),
+    bisectReset: () => ({ args: ['bisect', 'reset'] }),
     resetSoft: (input) => ({ args: ['reset', '--soft', requiredString(input, 'ref')] }),
     resetMixed: (input) => ({ args: ['reset', '--mixed', requiredString(input, 'ref')] }),
     resetHard: (input) => ({ args: ['reset', '--hard', requiredString(input, 'ref')] }),
     resetKeep: (input) => ({ args: ['reset', '--keep', requiredString(input, 'ref')] }),
     resetPaths: (input) => ({ args: resetPathsArgs(input) }),
     undoLastCommit: (input) => ({ args: ['reset', `--${requiredStringField(input, 'mode')}`, 'HEAD~1'] }),
+    undoAmend: (input) => ({ args: ['reset', '--soft', requiredStringField(input, 'previousHead')] }),
+    undoCheckout: (input) => ({ args: ['checkout', requiredStringField(input, 'previousHead')] }),
+    restoreFromReflog: (input) => ({ args: ['reset', `--${requiredStringField(input, 'mode')}`, requiredStringField(input, 'entry')] }),
     cleanUntracked: (input) => ({ args: cleanArgs('cleanUntracked', input) }),
     cleanIgnored: (input) => ({ args: cleanArgs('cleanIgnored', input) }),
     pull: (input) => ({ args: pullArgs(input) }),
@@ -147,6 +184,34 @@ const CLI_HANDLERS: Partial<Record<SemanticGitOperation, CliSemanticHandler>> =
     getStatus: async (_input, runProcess, context, signal) => {
         return await queryStatus(readonlyRawExec(runProcess, context), signal);
     },
+    getIgnoredFiles: async (input, runProcess, context, signal) => {
+        const pageRequest = pageRequestFromInput(input);
+        const offset = decodeOffset(pageRequest.encodedCursor);
+        const items = await queryIgnoredFiles(readonlyRawExec(runProcess, context), signal);
+        return pageFromOffset(items.slice(offset), pageRequest.limit, offset);
+    },
+    explainIgnore: async (input, runProcess, context, signal) => {
+        return await queryIgnoreRule(readonlyRawExec(runProcess, context), requiredStringField(input, 'path'), signal);
+    },
+    addIgnorePattern: async (input, runProcess, context, signal) => {
+        return await addIgnorePattern(
+            readonlyRawExec(runProcess, context),
+            context.cwd,
+            requiredStringField(input, 'path'),
+            ignorePatternScopeField(input),
+            ignoreTargetField(input),
+            signal,
+        );
+    },
+    getLfsTrackedPaths: async (input, runProcess, context, signal) => {
+        return await queryLfsTrackedPaths(readonlyRawExec(runProcess, context), requiredStringArrayField(input, 'paths'), signal);
+    },
+    listNotesRefs: async (_input, runProcess, context, signal) => {
+        return await queryNotesRefs(readonlyRawExec(runProcess, context), signal);
+    },
+    getCommitNotes: async (input, runProcess, context, signal) => {
+        return await queryCommitNotes(readonlyRawExec(runProcess, context), requiredStringField(input, 'commit'), signal);
+    },
     getConflictStages: async (input, runProcess, context, signal) => {
         return await readConflictStages(runProcess, context, requiredStringField(input, 'path'), signal);
     },
@@ -207,6 +272,31 @@ const CLI_HANDLERS: Partial<Record<SemanticGitOperation, CliSemanticHandler>> =
         const items = await queryStashList(readonlyTrimmedExec(runProcess, context), signal);
         return pageFromOffset(items, pageRequest.limit, decodeOffset(pageRequest.encodedCursor));
     },
+    getReflog: async (input, runProcess, context, signal) => {
+        const pageRequest = pageRequestFromInput(input);
+        const offset = decodeOffset(pageRequest.encodedCursor);
+        const entries = await queryReflog(
+            readonlyRawExec(runProcess, context),
+            requiredStringField(input, 'ref'),
+            pageRequest.limit + 1,
+            offset,
+            signal,
+        );
+        return pageFromOffset(entries, pageRequest.limit, offset);
+    },
+    listRebaseBackups: async (_input, runProcess, context, signal) => {
+        return await queryRebaseBackups(readonlyRawExec(runProcess, context), signal);
+    },
+    getBisectState: async (_input, runProcess, context, signal) => {
+        return await queryBisectState(readonlyRawExec(runProcess, context), signal);
+    },
+    bisectRun: async (input, runProcess, context, signal) => {
+        // `git bisect run` shell-quotes its arguments, so the user's command line goes through `sh -c` as one script.
+        await runProcess(['bisect', 'run', 'sh', '-c', requiredStringField(input, 'command')], context, {
+            signal,
+            onOutput: outputListenerField(input),
+        });
+    },
     getStashFiles: async (input, runProcess, context, signal) => {
         const output = await readonlyRawExec(runProcess, context)(
             ['stash', 'show', '--include-untracked', '--name-status', '-M', '-z', requiredStringField(input, 'stash')],
@@ -255,12 +345,31 @@ const CLI_HANDLERS: Partial<Record<SemanticGitOperation, CliSemanticHandler>> =
     reverseApplyPatch: async (input, runProcess, context, signal) => {
         await applyPatchContent(runProcess, context, requiredStringField(input, 'patch'), [...patchApplyArgs(input, false), '--reverse'], signal);
     },
+    stageHunks: async (input, runProcess, context, signal) => {
+        await applyPatchContents(runProcess, context, requiredStringArrayField(input, 'hunks'), ['apply', '--cached'], signal);
+    },
+    unstageHunks: async (input, runProcess, context, signal) => {
+        await applyPatchContents(runProcess, context, requiredStringArrayField(input, 'hunks'), ['apply', '--cached', '--reverse'], signal);
+    },
+    discardHunks: async (input, runProcess, context, signal) => {
+        await applyPatchContents(runProcess, context, requiredStringArrayField(input, 'hunks'), ['apply', '--reverse'], signal);
+    },
+    stageLines: async (input, runProcess, context, signal) => {
+        const filePath = requiredStringField(input, 'path');
+        const diff = await readonlyRawExec(runProcess, context)(['diff', '--', filePath], signal);
+        const [file] = parseDiffHunks(diff);
+        const patch = file
+            ? buildPartialPatch(file, selectDiffLines(file, fileSelectionField(input)), PartialPatchDirection.Apply)
+            : undefined;
+        if (!patch) { throw new Error(`No unstaged changes in the selected lines of ${filePath}.`); }
+        await applyPatchContent(runProcess, context, patch, ['apply', '--cached'], signal);
+    },
     previewClean: async (input, runProcess, context, signal) => {
-        const output = await runProcess(['clean', '-n', ...cleanPathArgs(input)], context, {
+        const output = await runProcess(['clean', '-n', ...cleanOptionArgs(input), ...cleanPathArgs(input)], context, {
             signal,
             env: { LC_ALL: 'C', LANG: 'C' },
         });
-        return resultFor('previewClean', output.trim());
+        return parseCleanPreview(output);
     },
     getCommitGraph: handleCommitGraph,
     getCommitDetails: async (input, runProcess, context, signal) => {
@@ -290,29 +399,33 @@ const CLI_HANDLERS: Partial<Record<SemanticGitOperation, CliSemanticHandler>> =
         const path = requiredStringField(input, 'path');
         const offset = decodeOffset(pageRequest.encodedCursor);
         const ref = query.branches?.[0];
+        // `--follow` loses a rename that falls inside `--skip`, so read from the newest commit and slice.
         const commits = await queryCommitLog(
             readonlyRawExec(runProcess, context),
-            pageRequest.limit + 1,
-            offset,
+            offset + pageRequest.limit + 1,
+            0,
             ref,
             path,
             signal,
             ['--follow'],
         );
-        return pageFromOffset(commits, pageRequest.limit, offset);
+        return pageFromOffset(commits.slice(offset), pageRequest.limit, offset);
+    },
+    getFileRenameHistory: async (input, runProcess, context, signal) => {
+        const pageRequest = pageRequestFromInput(input);
+        const offset = decodeOffset(pageRequest.encodedCursor);
+        const revisions = await queryFileRevisions(
+            readonlyRawExec(runProcess, context),
+            requiredStringField(input, 'path'),
+            offset + pageRequest.limit + 1,
+            signal,
+        );
+        return pageFromOffset(revisions.slice(offset), pageRequest.limit, offset);
     },
     getFileSelectionHistory: async (input, runProcess, context, signal) => {
         const pageRequest = pageRequestFromInput(input);
         const path = requiredStringField(input, 'path');
-        const selection = objectField(input, 'selection');
-        if (typeof selection !== 'object' || selection === null) {
-            throw new Error('selection is required.');
-        }
-        const startLine = objectField(selection, 'startLine');
-        const endLine = objectField(selection, 'endLine');
-        if (typeof startLine !== 'number' || typeof endLine !== 'number') {
-            throw new Error('selection requires startLine and endLine numbers.');
-        }
+        const { startLine, endLine } = fileSelectionField(input);
         const offset = decodeOffset(pageRequest.encodedCursor);
         const commits = await queryCommitLineRangeLog(
             readonlyRawExec(runProcess, context),
@@ -414,6 +527,24 @@ const CLI_HANDLERS: Partial<Record<SemanticGitOperation, CliSemanticHandler>> =
         const allChanges = output ? parseNameStatusZ(output) : [];
         return pageFromOffset(allChanges.slice(offset), pageRequest.limit, offset);
     },
+    getSigningConfig: async (_input, runProcess, context, signal) => {
+        return await querySigningConfig(readonlyRawExec(runProcess, context), signal);
+    },
+    getCommitTemplate: async (_input, runProcess, context, signal) => {
+        return await queryCommitTemplate(readonlyRawExec(runProcess, context), context.cwd, signal);
+    },
+    getHooks: async (_input, runProcess, context, signal) => {
+        return await queryHooks(readonlyRawExec(runProcess, context), context.cwd, signal);
+    },
+    commit: async (input, runProcess, context, signal) => {
+        await runWithHookTrace(runProcess, commitArgs(input, []), context, signal);
+    },
+    amendCommit: async (input, runProcess, context, signal) => {
+        await runWithHookTrace(runProcess, commitArgs(input, ['--amend']), context, signal);
+    },
+    rangeDiff: async (input, runProcess, context, signal) => {
+        return await queryRangeDiff(readonlyRawExec(runProcess, context), requiredStringField(input, 'oldRange'), requiredStringField(input, 'newRange'), signal);
+    },
     getInteractiveRebasePlan: async (input, runProcess, context, signal) => {
         return interactiveRebasePlan(runProcess, context, requiredStringField(input, 'baseRef'), requiredStringField(input, 'headRef'), signal);
     },
@@ -530,10 +661,12 @@ async function createCommitWithMessage(
     if (!authorName || !authorEmail || !authorDate) { throw new Error('Could not read commit author metadata.'); }
     const tree = await runTrimmed(runProcess, context, ['show', '-s', '--format=%T', treeCommit], signal);
     const parentArgs = parentHash ? ['-p', parentHash] : [];
+    // commit-tree is plumbing and ignores commit.gpgSign, so the rewritten commit would silently lose its signature.
+    const { signCommits } = await querySigningConfig(readonlyRawExec(runProcess, context), signal);
     return runTrimmed(
         runProcess,
         context,
-        ['commit-tree', tree, ...parentArgs, '-m', message],
+        ['commit-tree', tree, ...parentArgs, ...(signCommits ? ['-S'] : []), '-m', message],
         signal,
         {
             GIT_AUTHOR_NAME: authorName,
@@ -693,6 +826,7 @@ async function startInteractiveRebase(
     const options = rebaseOptions(input);
     const args = ['rebase'];
     if (options.autostash) { args.push('--autostash'); }
+    args.push(...commitSignArgs(options));
     args.push('-i');
     if (options.rebaseMerges) { args.push('--rebase-merges'); }
     if (options.onto) { args.push('--onto', options.onto); }
@@ -794,6 +928,7 @@ function rebaseOptions(input: unknown): RebaseOptions {
         ...(booleanOption(options, 'rebaseMerges') ? { rebaseMerges: true } : {}),
         ...(optionalStringField(options, 'onto') ? { onto: optionalStringField(options, 'onto') } : {}),
         ...(editorEnv ? { editorEnv } : {}),
+        ...(optionalBooleanField(options, 'sign') !== undefined ? { sign: optionalBooleanField(options, 'sign') } : {}),
     };
 }
 
@@ -975,6 +1110,18 @@ async function applyPatchContent(
     }
 }
 
+async function applyPatchContents(
+    runProcess: CliGitRuntimeProcess,
+    context: GitExecutionContext,
+    patches: readonly string[],
+    args: readonly string[],
+    signal?: AbortSignal,
+): Promise<void> {
+    for (const patch of patches) {
+        await applyPatchContent(runProcess, context, patch, args, signal);
+    }
+}
+
 function patchApplyArgs(input: unknown, check: boolean, index = false): readonly string[] {
     const options = objectField(input, 'options');
     return [
@@ -997,7 +1144,7 @@ function resultFor(operation: SemanticGitOperation, output: string): unknown {
         case 'listRemotes':
             return output ? output.split(/\r?\n/).filter(Boolean) : [];
         case 'previewClean':
-            return output ? output.split(/\r?\n/).map(cleanPreviewPath).filter(Boolean) : [];
+            return parseCleanPreview(output);
         default:
             return output;
     }
@@ -1047,11 +1194,49 @@ function optionalStringArrayField(input: unknown, field: string): readonly strin
     throw new Error(`${field} must be a string array.`);
 }
 
+function outputListenerField(input: unknown): (chunk: string) => void {
+    const value = objectField(input, 'onOutput');
+    if (typeof value === 'function') { return value as (chunk: string) => void; }
+    throw new Error('onOutput must be a function.');
+}
+
+function ignorePatternScopeField(input: unknown): GitIgnorePatternScope {
+    const scope = objectField(input, 'scope');
+    if (scope === 'path' || scope === 'folder' || scope === 'extension') { return scope; }
+    throw new Error('scope must be path, folder or extension.');
+}
+
+function ignoreTargetField(input: unknown): GitIgnoreTarget {
+    const target = objectField(input, 'target');
+    if (target === 'gitignore' || target === 'infoExclude') { return target; }
+    throw new Error('target must be gitignore or infoExclude.');
+}
+
+// Keeps the push and fetch refspecs from ever naming a branch or tag.
+function notesRefField(input: unknown): string {
+    const ref = requiredStringField(input, 'ref');
+    if (ref.startsWith(NOTES_REF_PREFIX)) { return ref; }
+    throw new Error(`ref must be under ${NOTES_REF_PREFIX}.`);
+}
+
 function objectField(input: unknown, field: string): unknown {
     if (typeof input !== 'object' || input === null) { return undefined; }
     return (input as Readonly<Record<string, unknown>>)[field];
 }
 
+function fileSelectionField(input: unknown): { readonly startLine: number; readonly endLine: number } {
+    const selection = objectField(input, 'selection');
+    if (typeof selection !== 'object' || selection === null) {
+        throw new Error('selection is required.');
+    }
+    const startLine = objectField(selection, 'startLine');
+    const endLine = objectField(selection, 'endLine');
+    if (typeof startLine !== 'number' || typeof endLine !== 'number') {
+        throw new Error('selection requires startLine and endLine numbers.');
+    }
+    return { startLine, endLine };
+}
+
 function isRecord(value: unknown): value is Readonly<Record<string, unknown>> {
     return typeof value === 'object' && value !== null && !Array.isArray(value);
 }
@@ -1072,6 +1257,68 @@ function stringRecordField(input: unknown, field: string): Readonly<Record<strin
     return record;
 }
 
+/**
+ * Runs a command that may run hooks with git's trace2 event log in a temporary file, so a failure can name
+ * the hook that rejected it: git prints nothing of its own when a commit hook fails.
+ */
+async function runWithHookTrace(
+    runProcess: CliGitRuntimeProcess,
+    args: readonly string[],
+    context: GitExecutionContext,
+    signal?: AbortSignal,
+): Promise<string> {
+    const tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'look-git-hooks-'));
+    const tracePath = path.join(tempDir, 'trace.json');
+    try {
+        return await runProcess(args, context, { signal, env: { GIT_TRACE2_EVENT: tracePath } });
+    } catch (error) {
+        const hook = isAbortError(error) ? undefined : await readFailedHook(tracePath);
+        if (!hook) { throw error; }
+        throw new GitHookError(hook, stdoutFromExecError(error) ?? '', stderrFromExecError(error) ?? '', { cause: error });
+    } finally {
+        await fs.rm(tempDir, { recursive: true, force: true });
+    }
+}
+
+/**
+ * The hook whose child process exited non-zero, from trace2 `child_start` and `child_exit` events. Git commands a
+ * hook runs append to the same file under their own session ids, so only the first session's events count.
+ */
+async function readFailedHook(tracePath: string): Promise<string | undefined> {
+    const trace = await fs.readFile(tracePath, 'utf8').catch(() => '');
+    const hooksByChildId = new Map<number, string>();
+    let sessionId: unknown;
+    for (const line of trace.split('\n')) {
+        const event = parseTraceEvent(line);
+        if (!event) { continue; }
+        sessionId ??= event.sid;
+        const childId = event.child_id;
+        if (event.sid !== sessionId || typeof childId !== 'number') { continue; }
+        if (event.event === 'child_start' && event.child_class === 'hook' && typeof event.hook_name === 'string') {
+            hooksByChildId.set(childId, event.hook_name);
+        } else if (event.event === 'child_exit' && event.code !== 0 && hooksByChildId.has(childId)) {
+            return hooksByChildId.get(childId);
+        }
+    }
+    return undefined;
+}
+
+function parseTraceEvent(line: string): Readonly<Record<string, unknown>> | undefined {
+    if (!line.trim()) { return undefined; }
+    try {
+        const event: unknown = JSON.parse(line);
+        return typeof event === 'object' && event !== null ? event as Readonly<Record<string, unknown>> : undefined;
+    } catch {
+        return undefined;
+    }
+}
+
+function stderrFromExecError(error: unknown): string | undefined {
+    if (typeof error !== 'object' || error === null || !('stderr' in error)) { return undefined; }
+    const stderr = (error as { readonly stderr?: unknown }).stderr;
+    return typeof stderr === 'string' ? stderr : undefined;
+}
+
 function stdoutFromExecError(error: unknown): string | undefined {
     if (typeof error !== 'object' || error === null || !('stdout' in error)) { return undefined; }
     const stdout = (error as { readonly stdout?: unknown }).stdout;
@@ -1127,13 +1374,43 @@ function createTagArgs(input: unknown): readonly string[] {
     const name = requiredStringField(input, 'name');
     const target = requiredStringField(input, 'target');
     const message = optionalStringField(input, 'message');
-    return message ? ['tag', '-a', name, target, '-m', message] : ['tag', name, target];
+    const sign = optionalBooleanField(objectField(input, 'options'), 'sign');
+    if (sign) {
+        if (!message) { throw new Error('Signed tags need a message.'); }
+        return ['tag', '-s', name, target, '-m', message];
+    }
+    const signArgs = sign === false ? ['--no-sign'] : [];
+    return message ? ['tag', '-a', ...signArgs, name, target, '-m', message] : ['tag', ...signArgs, name, target];
+}
+
+function commitArgs(input: unknown, modeArgs: readonly string[]): readonly string[] {
+    const options = objectField(input, 'options');
+    const verifyArgs = optionalBooleanField(options, 'noVerify') ? ['--no-verify'] : [];
+    return ['commit', ...modeArgs, ...commitSignArgs(options), ...verifyArgs, '-m', requiredStringField(input, 'message')];
+}
+
+/** `--gpg-sign`/`--no-gpg-sign` for an explicit `sign` option; without one git applies `commit.gpgSign`. */
+function commitSignArgs(options: unknown): readonly string[] {
+    const sign = optionalBooleanField(options, 'sign');
+    if (sign === undefined) { return []; }
+    return sign ? ['--gpg-sign'] : ['--no-gpg-sign'];
 }
 
 function withOptionalRemote(args: readonly string[], remote: string | undefined): readonly string[] {
     return remote ? [...args, remote] : args;
 }
 
+function withOptionalCommit(args: readonly string[], commit: string | undefined): readonly string[] {
+    return commit ? [...args, commit] : args;
+}
+
+function bisectStartArgs(input: unknown): readonly string[] {
+    const bad = optionalStringField(input, 'bad');
+    const good = optionalStringArrayField(input, 'good');
+    if (good.length > 0) { return ['bisect', 'start', bad ?? 'HEAD', ...good, '--']; }
+    return bad ? ['bisect', 'start', bad, '--'] : ['bisect', 'start'];
+}
+
 function withOptionalMessage(args: readonly string[], message: string | undefined): readonly string[] {
     return message ? [...args, '-m', message] : args;
 }
@@ -1220,14 +1497,17 @@ function mergeArgs(input: unknown): readonly string[] {
 function rebaseArgs(input: unknown): readonly string[] {
     const upstream = requiredStringField(input, 'upstream');
     const branch = optionalStringField(input, 'branch');
-    return branch ? ['rebase', upstream, branch] : ['rebase', upstream];
+    const args = ['rebase', ...commitSignArgs(objectField(input, 'options')), upstream];
+    return branch ? [...args, branch] : args;
 }
 
 function cherryPickArgs(input: unknown): readonly string[] {
     const args = ['cherry-pick'];
     const options = objectField(input, 'options');
     if (booleanOption(options, 'noCommit')) { args.push('--no-commit'); }
-    args.push(requiredStringField(input, 'commit'));
+    if (booleanOption(options, 'recordOrigin')) { args.push('-x'); }
+    args.push(...mainlineArgs(options));
+    args.push(...nonEmptyCommitsField(input));
     return args;
 }
 
@@ -1236,10 +1516,26 @@ function revertCommitArgs(input: unknown): readonly string[] {
     const options = objectField(input, 'options');
     if (booleanOption(options, 'noCommit')) { args.push('--no-commit'); }
     if (booleanOption(options, 'noEdit')) { args.push('--no-edit'); }
-    args.push(requiredStringField(input, 'commit'));
+    args.push(...mainlineArgs(options));
+    args.push(...nonEmptyCommitsField(input));
     return args;
 }
 
+function mainlineArgs(options: unknown): readonly string[] {
+    const mainline = objectField(options, 'mainline');
+    if (mainline === undefined) { return []; }
+    if (typeof mainline !== 'number' || !Number.isInteger(mainline) || mainline < 1) {
+        throw new Error('options.mainline must be a positive integer.');
+    }
+    return ['-m', String(mainline)];
+}
+
+function nonEmptyCommitsField(input: unknown): readonly string[] {
+    const commits = requiredStringArrayField(input, 'commits');
+    if (commits.length === 0) { throw new Error('commits must not be empty.'); }
+    return commits;
+}
+
 function resetPathsArgs(input: unknown): readonly string[] {
     const paths = requiredStringArrayField(input, 'paths');
     const sourceRef = optionalStringField(input, 'sourceRef');
@@ -1260,23 +1556,23 @@ async function push(
     const options = objectField(input, 'options');
     const requestedRemote = optionalStringField(input, 'remote');
     if (requestedRemote) {
-        await runProcess(pushArgs(requestedRemote, options), context, { signal });
+        await runWithHookTrace(runProcess, pushArgs(requestedRemote, options), context, signal);
         return;
     }
 
     const branch = await resolveCurrentBranch(runProcess, context, signal);
     if (!branch) {
-        await runProcess(pushArgs(undefined, options), context, { signal });
+        await runWithHookTrace(runProcess, pushArgs(undefined, options), context, signal);
         return;
     }
 
     const upstream = await resolveBranchUpstream(runProcess, context, branch, signal);
     if (upstream) {
-        await runProcess(pushArgs(undefined, options), context, { signal });
+        await runWithHookTrace(runProcess, pushArgs(undefined, options), context, signal);
         return;
     }
 
-    await runProcess(pushBranchArgs(await defaultRemote(runProcess, context, signal), branch, options, true), context, { signal });
+    await runWithHookTrace(runProcess, pushBranchArgs(await defaultRemote(runProcess, context, signal), branch, options, true), context, signal);
 }
 
 function pushArgs(remote: string | undefined, options: unknown): readonly string[] {
@@ -1296,7 +1592,7 @@ async function pushBranch(
     const requestedRemote = optionalStringField(input, 'remote');
     const upstream = await resolveBranchUpstream(runProcess, context, branch, signal);
     const remote = requestedRemote ?? (upstream ? requireRemoteBranchName(upstream).remote : await defaultRemote(runProcess, context, signal));
-    await runProcess(pushBranchArgs(remote, branch, options, requestedRemote === undefined && upstream === undefined), context, { signal });
+    await runWithHookTrace(runProcess, pushBranchArgs(remote, branch, options, requestedRemote === undefined && upstream === undefined), context, signal);
 }
 
 function pushBranchArgs(remote: string, branch: string, options: unknown, setUpstreamByDefault: boolean): readonly string[] {
@@ -1355,10 +1651,18 @@ async function defaultRemote(
 }
 
 function cleanArgs(operation: 'cleanUntracked' | 'cleanIgnored', input: unknown): readonly string[] {
-    const modeArgs = operation === 'cleanIgnored' ? ['-f', '-X'] : ['-f'];
+    const modeArgs = operation === 'cleanIgnored' ? ['-f', '-X'] : ['-f', ...cleanOptionArgs(input)];
     return ['clean', ...modeArgs, ...cleanPathArgs(input)];
 }
 
+function cleanOptionArgs(input: unknown): readonly string[] {
+    const options = objectField(input, 'options');
+    return [
+        ...(booleanOption(options, 'directories') ? ['-d'] : []),
+        ...(booleanOption(options, 'ignored') ? ['-x'] : []),
+    ];
+}
+
 function cleanPathArgs(input: unknown): readonly string[] {
     const paths = objectField(input, 'paths');
     if (paths === undefined) { return []; }
@@ -1368,10 +1672,6 @@ function cleanPathArgs(input: unknown): readonly string[] {
     throw new Error('paths must be a string array.');
 }
 
-function cleanPreviewPath(line: string): string {
-    return line.replace(/^Would remove /, '').trim();
-}
-
 function readonlyRawExec(runProcess: CliGitRuntimeProcess, context: GitExecutionContext): GitExec {
     return async (args, signal) => await runProcess(args, context, { signal });
 }
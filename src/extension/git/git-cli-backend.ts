@@ -1,4 +1,4 @@
-import { execFile } from 'child_process';
+import { execFile, spawn } from 'child_process';
 import * as path from 'path';
 import { promisify } from 'util';
 import type { GitBackend, GitRunOptions } from '@application/ports/git-backend';
@@ -16,6 +16,11 @@ export class GitCliBackend implements GitBackend {
     ) {}
 
     async run(args: readonly string[], options: GitRunOptions = {}): Promise<string> {
+        if (options.onOutput) {
+            // Streamed output cannot be taken back, so lock retries only apply to buffered runs.
+            options.signal?.throwIfAborted();
+            return await this.runStreaming(args, options, options.onOutput);
+        }
         let delayMs = 80;
         for (let attempt = 0; ; attempt++) {
             options.signal?.throwIfAborted();
@@ -35,6 +40,38 @@ export class GitCliBackend implements GitBackend {
             }
         }
     }
+
+    private async runStreaming(args: readonly string[], options: GitRunOptions, onOutput: (chunk: string) => void): Promise<string> {
+        const invocation = executableInvocation(this.gitPath, args);
+        return await new Promise<string>((resolve, reject) => {
+            const child = spawn(invocation.command, invocation.args, {
+                cwd: this.cwd,
+                env: { ...process.env, ...options.env },
+                signal: options.signal,
+            });
+            let stdout = '';
+            let stderr = '';
+            child.stdout.setEncoding('utf8');
+            child.stderr.setEncoding('utf8');
+            child.stdout.on('data', (chunk: string) => {
+                stdout += chunk;
+                onOutput(chunk);
+            });
+            child.stderr.on('data', (chunk: string) => {
+                stderr += chunk;
+                onOutput(chunk);
+            });
+            child.on('error', reject);
+            child.on('close', (code) => {
+                if (code === 0) {
+                    resolve(stdout);
+                    return;
+                }
+                // Mirror the execFile error shape so git error helpers can read stderr and stdout.
+                reject(Object.assign(new Error(`Command failed: git ${args.join(' ')}\n${stderr}`), { code, stdout, stderr }));
+            });
+        });
+    }
 }
 
 function executableInvocation(command: string, args: readonly string[]): { readonly command: string; readonly args: readonly string[] } {
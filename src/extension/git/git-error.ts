@@ -25,3 +25,57 @@ function stringErrorProperty(error: unknown, propertyName: 'stderr' | 'stdout'):
     const value: unknown = descriptor?.value;
     return typeof value === 'string' ? value : '';
 }
+
+/** `git config --get`, `--get-all` and `--get-regexp` exit with 1 when no value is set for the key. */
+export function isMissingConfigValue(error: unknown): boolean {
+    return hasExitCode(error, 1);
+}
+
+/** `git grep` and `git check-ignore` exit with 1 when nothing matches. */
+export function isNoMatchExit(error: unknown): boolean {
+    return hasExitCode(error, 1);
+}
+
+function hasExitCode(error: unknown, code: number): boolean {
+    if (typeof error !== 'object' || error === null || !('code' in error)) { return false; }
+    return error.code === code || error.code === String(code);
+}
+
+/** `git lfs …` fails this way when the git-lfs extension is not installed. */
+export function isGitLfsMissingError(error: unknown): boolean {
+    return gitErrorText(error).toLowerCase().includes("'lfs' is not a git command");
+}
+
+/** Output of a hook that made a git command fail, apart from the command's own error. */
+export interface GitHookFailure {
+    readonly hook: string;
+    readonly stdout: string;
+    readonly stderr: string;
+}
+
+/** A commit or push a hook rejected; `stdout` and `stderr` are what the git command printed, hook output included. */
+export class GitHookError extends Error {
+    constructor(
+        readonly hook: string,
+        readonly stdout: string,
+        readonly stderr: string,
+        options?: ErrorOptions,
+    ) {
+        super(`The ${hook} hook failed.`, options);
+        this.name = 'GitHookError';
+    }
+}
+
+/**
+ * The hook behind a failed commit or push. The CLI runtime names the hook itself; pushes run through
+ * VS Code's git extension are recognized because a `pre-push` rejection stops git before it reports any ref.
+ */
+export function gitHookFailure(error: unknown): GitHookFailure | undefined {
+    if (error instanceof GitHookError) {
+        return { hook: error.hook, stdout: error.stdout, stderr: error.stderr };
+    }
+    const stderr = stringErrorProperty(error, 'stderr');
+    if (!/^error: failed to push some refs to\b/m.test(stderr)) { return undefined; }
+    if (/^To /m.test(stderr) || /^error: (src|dst) refspec\b/m.test(stderr)) { return undefined; }
+    return { hook: 'pre-push', stdout: stringErrorProperty(error, 'stdout'), stderr };
+}
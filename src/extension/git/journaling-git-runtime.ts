@@ -0,0 +1,47 @@
+import type { GitExecutionContext, GitRuntime } from '@application/ports/git-runtime';
+import type { SemanticGitOperation } from '@application/ports/git-operation';
+import type { OperationJournal } from '@application/ports/operation-journal';
+import { OperationJournalRecorder, type OperationSnapshotSource } from '@application/usecases/undo/operation-journal-recorder';
+
+/**
+ * Wraps the runtime that `RuntimeGitRepository` and `RuntimeWorktree` execute through, so every undoable operation
+ * lands in the journal whichever view, command, or panel started it.
+ */
+export class JournalingGitRuntime implements GitRuntime {
+    private readonly recorder: OperationJournalRecorder;
+
+    constructor(
+        private readonly runtime: GitRuntime,
+        journal: OperationJournal,
+    ) {
+        this.recorder = new OperationJournalRecorder(journal);
+    }
+
+    supports(operation: SemanticGitOperation, context: GitExecutionContext): boolean {
+        return this.runtime.supports(operation, context);
+    }
+
+    execute<TInput = unknown, TResult = unknown>(
+        operation: SemanticGitOperation,
+        context: GitExecutionContext,
+        input: TInput,
+        signal?: AbortSignal,
+    ): Promise<TResult> {
+        return this.recorder.record(
+            operation,
+            input,
+            { repositoryId: context.repositoryId, ...(context.worktreeId ? { worktreeId: context.worktreeId } : {}) },
+            snapshotSource(this.runtime, context),
+            () => this.runtime.execute<TInput, TResult>(operation, context, input, signal),
+            signal,
+        );
+    }
+}
+
+function snapshotSource(runtime: GitRuntime, context: GitExecutionContext): OperationSnapshotSource {
+    return {
+        resolveRef: (ref, signal) => runtime.execute('resolveRef', context, ref, signal),
+        listBranches: (signal) => runtime.execute('listBranches', context, undefined, signal),
+        listStashes: (pageRequest, signal) => runtime.execute('listStashes', context, { pageRequest }, signal),
+    };
+}
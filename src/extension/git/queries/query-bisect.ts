@@ -0,0 +1,37 @@
+import type { GitExec } from '@extension/git/git-exec';
+import type { GitBisectState } from '@core/git/domain/git-bisect';
+import { parseBisectLog, parseBisectRefs, parseBisectVars } from '@core/parsing/parse-bisect';
+import { gitPathExists } from '@extension/git/queries/query-status';
+
+export async function queryBisectState(execRawReadonly: GitExec, signal?: AbortSignal): Promise<GitBisectState | undefined> {
+    if (!await gitPathExists(execRawReadonly, 'BISECT_START', signal)) { return undefined; }
+
+    const [refsOutput, head, log] = await Promise.all([
+        execRawReadonly(['for-each-ref', '--format=%(objectname) %(refname)', 'refs/bisect/'], signal),
+        optionalOutput(execRawReadonly, ['rev-parse', '-q', '--verify', 'HEAD'], signal),
+        optionalOutput(execRawReadonly, ['bisect', 'log'], signal),
+    ]);
+    const refs = parseBisectRefs(refsOutput);
+    // Progress is only defined once both ends are known; before that git is still waiting for marks.
+    const vars = refs.badHash && refs.goodHashes.length > 0
+        ? parseBisectVars(await execRawReadonly(['rev-list', '--bisect-vars', refs.badHash, '--not', ...refs.goodHashes], signal))
+        : undefined;
+    const currentHash = head.trim();
+    return {
+        ...refs,
+        ...(currentHash ? { currentHash } : {}),
+        ...(vars?.remaining !== undefined ? { remainingRevisions: vars.remaining } : {}),
+        ...(vars?.steps !== undefined ? { remainingSteps: vars.steps } : {}),
+        ...(vars?.candidates === 1 && refs.badHash ? { firstBadHash: refs.badHash } : {}),
+        log: parseBisectLog(log),
+    };
+}
+
+async function optionalOutput(execRawReadonly: GitExec, args: readonly string[], signal?: AbortSignal): Promise<string> {
+    try {
+        return await execRawReadonly(args, signal);
+    } catch (error) {
+        if (error instanceof Error && error.name === 'AbortError') { throw error; }
+        return '';
+    }
+}
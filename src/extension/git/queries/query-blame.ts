@@ -1,12 +1,55 @@
-import type { GitBlameLine } from '@core/git/domain/git-blame';
-import { parseBlame } from '@core/parsing/parse-blame';
+import type { GitBlameLine, GitBlameMoveCopyDetection, GitBlameOptions } from '@core/git/domain/git-blame';
+import { parseBlame, parseBlameIgnoredLines } from '@core/parsing/parse-blame';
 import type { GitExec } from '@extension/git/git-exec';
+import { isMissingConfigValue } from '@extension/git/git-error';
 
+const MOVE_COPY_DETECTION_ARGS: Readonly<Record<GitBlameMoveCopyDetection, readonly string[]>> = {
+    off: [],
+    withinFile: ['-M'],
+    acrossFiles: ['-C'],
+    acrossFilesAtCreation: ['-C', '-C'],
+    acrossAllCommits: ['-C', '-C', '-C'],
+};
+
+/**
+ * Blames `filePath` in the working tree, or as it was in `revision` when one is given. Marking
+ * ignored lines takes a second pass in git's plain format, the only one that reports them.
+ */
 export async function queryBlame(
     execRawReadonly: GitExec,
     filePath: string,
+    revision: string | undefined,
+    options: GitBlameOptions = {},
     signal?: AbortSignal,
 ): Promise<GitBlameLine[]> {
-    const output = await execRawReadonly(['blame', '--line-porcelain', '--', filePath], signal);
-    return parseBlame(output);
+    const blameArgs = [
+        ...(options.ignoreRevsFiles ?? []).flatMap((file) => ['--ignore-revs-file', file]),
+        ...(options.ignoreWhitespace ? ['-w'] : []),
+        ...MOVE_COPY_DETECTION_ARGS[options.moveCopyDetection ?? 'off'],
+        ...(options.contentsFile ? ['--contents', options.contentsFile] : []),
+        ...(revision ? [revision] : []),
+        '--',
+        filePath,
+    ];
+    const porcelain = execRawReadonly(['blame', '--line-porcelain', ...blameArgs], signal);
+    if (!options.markIgnoredLines) { return parseBlame(await porcelain); }
+
+    const [output, marked] = await Promise.all([
+        porcelain,
+        execRawReadonly(['-c', 'blame.markIgnoredLines=true', 'blame', '-s', '-l', ...blameArgs], signal),
+    ]);
+    const ignored = parseBlameIgnoredLines(marked);
+    return parseBlame(output).map((line) => ignored.has(line.line) ? { ...line, ignored: true } : line);
+}
+
+/** Files git's `blame.ignoreRevsFile` config names; git applies them to every blame. */
+export async function queryBlameIgnoreRevsFiles(execRawReadonly: GitExec, signal?: AbortSignal): Promise<string[]> {
+    try {
+        const output = await execRawReadonly(['config', '-z', '--path', '--get-all', 'blame.ignoreRevsFile'], signal);
+        return output.split('\0').filter(Boolean);
+    } catch (error) {
+        // `git config --get-all` exits with 1 when the key is not set.
+        if (!isMissingConfigValue(error)) { throw error; }
+        return [];
+    }
 }
@@ -0,0 +1,28 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import type { GitExec } from '@extension/git/git-exec';
+import { isMissingConfigValue } from '@extension/git/git-error';
+
+/** Contents of the `commit.template` file, or an empty string when none is set or the file is missing. */
+export async function queryCommitTemplate(execRawReadonly: GitExec, cwd: string, signal?: AbortSignal): Promise<string> {
+    let templatePath: string;
+    try {
+        templatePath = (await execRawReadonly(['config', '--path', '--get', 'commit.template'], signal)).trim();
+    } catch (error) {
+        // `git config --get` exits with 1 when the key is not set.
+        if (!isMissingConfigValue(error)) { throw error; }
+        return '';
+    }
+    if (!templatePath) { return ''; }
+    try {
+        // Like git, a relative template path is taken from the directory git runs in.
+        return await fs.readFile(path.resolve(cwd, templatePath), 'utf8');
+    } catch (error) {
+        if (isMissingFile(error)) { return ''; }
+        throw error;
+    }
+}
+
+function isMissingFile(error: unknown): boolean {
+    return typeof error === 'object' && error !== null && 'code' in error && error.code === 'ENOENT';
+}
@@ -1,8 +1,9 @@
 import type { GitExec } from '@extension/git/git-exec';
-import type { GitGraphCommit, GitFileChange, GitCommit } from '@core/git/domain/git-commit';
+import type { GitGraphCommit, GitFileChange, GitFileRevision, GitCommit } from '@core/git/domain/git-commit';
 import type { GitBranch, GitTag } from '@core/git/domain/git-status';
 import { parseGraphLog, parseCommitLog, LOG_FIELD_SEP, LOG_RECORD_SEP } from '@core/parsing/parse-log';
 import { parseNameStatusZ } from '@core/parsing/parse-name-status';
+import { parseFileRevisionsZ } from '@core/parsing/parse-file-revisions';
 import { parseTrackingStatus } from '@core/parsing/parse-tracking-status';
 import { gitErrorText, isUnbornHeadError } from '@extension/git/git-error';
 
@@ -14,7 +15,10 @@ export interface GraphLogFilters {
     readonly skip?: number;
 }
 
-const LOG_FORMAT = ['%H', '%h', '%s', '%an', '%ae', '%aI', '%P', '%D'].join(LOG_FIELD_SEP) + LOG_RECORD_SEP;
+// `%G?`, `%GS` and `%GK` verify signed commits; unsigned commits cost nothing extra.
+const SIGNATURE_FIELDS = ['%G?', '%GS', '%GK'];
+const LOG_FORMAT = ['%H', '%h', '%s', '%an', '%ae', '%aI', '%P', '%D', ...SIGNATURE_FIELDS].join(LOG_FIELD_SEP) + LOG_RECORD_SEP;
+const COMMIT_LOG_FORMAT = ['%H', '%h', '%s', '%an', '%ae', '%aI', '%P', ...SIGNATURE_FIELDS].join(LOG_FIELD_SEP) + LOG_RECORD_SEP;
 
 export async function queryGraphLog(
     execRawReadonly: GitExec,
@@ -45,8 +49,7 @@ export async function queryCommitLog(
     signal?: AbortSignal,
     extraArgs?: readonly string[],
 ): Promise<GitCommit[]> {
-    const format = ['%H', '%h', '%s', '%an', '%ae', '%aI', '%P'].join(LOG_FIELD_SEP) + LOG_RECORD_SEP;
-    const args = ['log', `--format=${format}`, `--max-count=${limit}`, `--skip=${skip}`];
+    const args = ['log', `--format=${COMMIT_LOG_FORMAT}`, `--max-count=${limit}`, `--skip=${skip}`];
     if (extraArgs) { args.push(...extraArgs); }
     if (ref) { args.push(ref); }
     if (pathFilter) { args.push('--', pathFilter); }
@@ -73,11 +76,10 @@ export async function queryCommitLineRangeLog(
     endLine: number,
     signal?: AbortSignal,
 ): Promise<GitCommit[]> {
-    const format = ['%H', '%h', '%s', '%an', '%ae', '%aI', '%P'].join(LOG_FIELD_SEP) + LOG_RECORD_SEP;
     const args = [
         'log',
         '--no-patch',
-        `--format=${format}`,
+        `--format=${COMMIT_LOG_FORMAT}`,
         `--max-count=${limit}`,
         `--skip=${skip}`,
         '-L',
@@ -133,12 +135,34 @@ export async function queryAllBranches(
 }
 
 export async function queryAllTags(execRawReadonly: GitExec, signal?: AbortSignal): Promise<GitTag[]> {
-    const format = '%(refname:short)%00%(objectname)';
-    const output = await execRawReadonly(['tag', `--format=${format}`], signal);
+    // Tag messages span lines, so records end with an RS byte instead of a newline.
+    const format = [
+        '%(refname:short)',
+        '%(objectname)',
+        '%(objecttype)',
+        '%(*objectname)',
+        '%(taggername)',
+        '%(taggeremail)',
+        '%(creatordate:iso-strict)',
+        '%(contents:subject)',
+        '%(contents:body)',
+    ].join('%00');
+    const output = await execRawReadonly(['tag', `--format=${format}%1e`], signal);
     if (!output) { return []; }
-    return output.split(/\r?\n/).filter(Boolean).map((line) => {
-        const parts = line.split('\0');
-        return { name: parts[0] ?? '', hash: parts[1] ?? '' };
+    return output.split('\x1e').map((record) => record.replace(/^\r?\n/, '')).filter(Boolean).map((record) => {
+        const [name = '', hash = '', type = '', peeled = '', taggerName = '', taggerEmail = '', date = '', subject = '', body = ''] = record.split('\0');
+        const annotated = type === 'tag';
+        const message = annotated ? [subject, body.trimEnd()].filter(Boolean).join('\n\n') : '';
+        return {
+            name,
+            hash,
+            target: annotated ? peeled || hash : hash,
+            annotated,
+            ...(taggerName ? { taggerName } : {}),
+            ...(taggerEmail ? { taggerEmail: taggerEmail.replace(/^<|>$/g, '') } : {}),
+            ...(date ? { date } : {}),
+            ...(message ? { message } : {}),
+        };
     });
 }
 
@@ -188,6 +212,27 @@ export async function queryCommitFiles(
     return result;
 }
 
+/**
+ * Lists the newest `limit` revisions of a file, following renames.
+ * `--skip` is not used because `--follow` stops tracking a rename that falls inside the skipped commits.
+ */
+export async function queryFileRevisions(
+    execRawReadonly: GitExec,
+    filePath: string,
+    limit: number,
+    signal?: AbortSignal,
+): Promise<GitFileRevision[]> {
+    const args = ['log', '--follow', '-M', '--name-status', '-z', `--format=${LOG_RECORD_SEP}%H`, `--max-count=${limit}`, '--', filePath];
+    let output: string;
+    try {
+        output = await execRawReadonly(args, signal);
+    } catch (error) {
+        if (isUnbornCommitHistoryError(error, undefined)) { return []; }
+        throw error;
+    }
+    return parseFileRevisionsZ(output, filePath);
+}
+
 export async function queryCommitMessage(execReadonly: GitExec, commitHash: string, signal?: AbortSignal): Promise<string> {
     return execReadonly(['log', '-1', '--format=%B', commitHash], signal);
 }
@@ -0,0 +1,58 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import type { GitExec } from '@extension/git/git-exec';
+import { isMissingConfigValue } from '@extension/git/git-error';
+import type { GitHook, GitHooks } from '@core/git/domain/git-hooks';
+
+const SAMPLE_SUFFIX = '.sample';
+
+/** The hooks directory git uses in `cwd` and the hooks installed in it; a missing directory has no hooks. */
+export async function queryHooks(execRawReadonly: GitExec, cwd: string, signal?: AbortSignal): Promise<GitHooks> {
+    // `--git-path hooks` already follows `core.hooksPath`; a relative path is taken from the directory git runs in.
+    const [directory, configuredPath] = await Promise.all([
+        execRawReadonly(['rev-parse', '--git-path', 'hooks'], signal).then((output) => path.resolve(cwd, output.trim())),
+        queryConfiguredHooksPath(execRawReadonly, signal),
+    ]);
+    return {
+        directory,
+        ...(configuredPath ? { configuredPath } : {}),
+        hooks: await readHooks(directory),
+    };
+}
+
+async function queryConfiguredHooksPath(execRawReadonly: GitExec, signal?: AbortSignal): Promise<string | undefined> {
+    try {
+        return (await execRawReadonly(['config', '--path', '--get', 'core.hooksPath'], signal)).trim() || undefined;
+    } catch (error) {
+        // `git config --get` exits with 1 when the key is not set.
+        if (!isMissingConfigValue(error)) { throw error; }
+        return undefined;
+    }
+}
+
+async function readHooks(directory: string): Promise<readonly GitHook[]> {
+    const entries = await fs.readdir(directory, { withFileTypes: true }).catch((error: unknown) => {
+        if (isMissingDirectory(error)) { return []; }
+        throw error;
+    });
+    const hooks = await Promise.all(entries
+        .filter((entry) => (entry.isFile() || entry.isSymbolicLink()) && !entry.name.endsWith(SAMPLE_SUFFIX))
+        .map(async (entry): Promise<GitHook> => {
+            const hookPath = path.join(directory, entry.name);
+            return { name: entry.name, path: hookPath, executable: await isExecutable(hookPath) };
+        }));
+    return hooks.sort((left, right) => left.name.localeCompare(right.name));
+}
+
+async function isExecutable(filePath: string): Promise<boolean> {
+    try {
+        await fs.access(filePath, fs.constants.X_OK);
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+function isMissingDirectory(error: unknown): boolean {
+    return typeof error === 'object' && error !== null && 'code' in error && (error.code === 'ENOENT' || error.code === 'ENOTDIR');
+}
@@ -0,0 +1,91 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import type { GitExec } from '@extension/git/git-exec';
+import { isNoMatchExit } from '@extension/git/git-error';
+import type { GitIgnoreEdit, GitIgnorePatternScope, GitIgnoreRule, GitIgnoreTarget } from '@core/git/domain/git-ignore';
+import { appendIgnorePattern, ignoreFileDirectoriesFor, ignorePatternFor } from '@core/git/ignore-pattern';
+import { parseCheckIgnore } from '@core/parsing/parse-check-ignore';
+
+interface IgnoreFileLocation {
+    readonly filePath: string;
+    /** Repository-relative directory the file's patterns are anchored to. */
+    readonly baseDirectory: string;
+}
+
+/** Lists ignored entries, collapsing fully ignored directories into one `dir/` entry. */
+export async function queryIgnoredFiles(execRawReadonly: GitExec, signal?: AbortSignal): Promise<string[]> {
+    const output = await execRawReadonly(['ls-files', '--others', '--ignored', '--exclude-standard', '--directory', '-z'], signal);
+    return output.split('\0').filter(Boolean);
+}
+
+export async function queryIgnoreRule(execRawReadonly: GitExec, filePath: string, signal?: AbortSignal): Promise<GitIgnoreRule | undefined> {
+    try {
+        return parseCheckIgnore(await execRawReadonly(['check-ignore', '-v', '--', filePath], signal));
+    } catch (error) {
+        // `check-ignore` exits with 1 when no rule matches the path.
+        if (isNoMatchExit(error)) { return undefined; }
+        throw error;
+    }
+}
+
+export async function addIgnorePattern(
+    execRawReadonly: GitExec,
+    worktreePath: string,
+    filePath: string,
+    scope: GitIgnorePatternScope,
+    target: GitIgnoreTarget,
+    signal?: AbortSignal,
+): Promise<GitIgnoreEdit> {
+    const location = target === 'infoExclude'
+        ? { filePath: await infoExcludePath(execRawReadonly, signal), baseDirectory: '' }
+        : await nearestGitignore(worktreePath, filePath, scope);
+    const pattern = ignorePatternFor(filePath, scope, location.baseDirectory);
+    if (!pattern) {
+        throw new Error(scope === 'extension' ? `"${filePath}" has no file extension.` : `"${filePath}" has no parent folder to ignore.`);
+    }
+    const content = await readOptionalFile(location.filePath);
+    const next = appendIgnorePattern(content, pattern);
+    if (next !== undefined) {
+        await fs.mkdir(path.dirname(location.filePath), { recursive: true });
+        await fs.writeFile(location.filePath, next, 'utf8');
+    }
+    return {
+        ignoreFile: path.relative(worktreePath, location.filePath).split(path.sep).join('/'),
+        pattern,
+        added: next !== undefined,
+    };
+}
+
+async function infoExcludePath(execRawReadonly: GitExec, signal?: AbortSignal): Promise<string> {
+    const output = await execRawReadonly(['rev-parse', '--path-format=absolute', '--git-path', 'info/exclude'], signal);
+    return output.trim();
+}
+
+/** Falls back to the root `.gitignore`, which is created when missing. */
+async function nearestGitignore(worktreePath: string, filePath: string, scope: GitIgnorePatternScope): Promise<IgnoreFileLocation> {
+    for (const directory of ignoreFileDirectoriesFor(filePath, scope)) {
+        const candidate = path.join(worktreePath, directory, '.gitignore');
+        if (directory === '' || await fileExists(candidate)) {
+            return { filePath: candidate, baseDirectory: directory };
+        }
+    }
+    return { filePath: path.join(worktreePath, '.gitignore'), baseDirectory: '' };
+}
+
+async function fileExists(filePath: string): Promise<boolean> {
+    try {
+        await fs.access(filePath);
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+async function readOptionalFile(filePath: string): Promise<string> {
+    try {
+        return await fs.readFile(filePath, 'utf8');
+    } catch (error) {
+        if (typeof error === 'object' && error !== null && 'code' in error && error.code === 'ENOENT') { return ''; }
+        throw error;
+    }
+}
@@ -0,0 +1,50 @@
+import type { GitExec } from '@extension/git/git-exec';
+import { isGitLfsMissingError, isNoMatchExit } from '@extension/git/git-error';
+import { parseLfsCheckAttr, parseLfsLsFiles } from '@core/parsing/parse-lfs';
+
+// Keeps `check-attr` and `grep` command lines well below the Windows length limit in large change lists.
+const PATH_BATCH_SIZE = 200;
+// The version line every LFS pointer file starts with.
+const LFS_POINTER_VERSION_LINE = '^version https://git-lfs\\.github\\.com/spec/v1$';
+
+/**
+ * Returns the paths Git LFS tracks. With git-lfs installed, `git lfs ls-files` names the files stored as
+ * LFS objects. Without it, paths whose `filter` attribute is `lfs` count, and so do staged pointer files
+ * that no attribute covers, such as pointers committed before their `.gitattributes` rule.
+ */
+export async function queryLfsTrackedPaths(execRawReadonly: GitExec, paths: readonly string[], signal?: AbortSignal): Promise<string[]> {
+    if (paths.length === 0) { return []; }
+    try {
+        const stored = new Set(parseLfsLsFiles(await execRawReadonly(['lfs', 'ls-files', '--name-only'], signal)));
+        return paths.filter((filePath) => stored.has(filePath));
+    } catch (error) {
+        if (!isGitLfsMissingError(error)) { throw error; }
+    }
+    const tracked = new Set<string>();
+    for (let start = 0; start < paths.length; start += PATH_BATCH_SIZE) {
+        const batch = paths.slice(start, start + PATH_BATCH_SIZE);
+        for (const filePath of parseLfsCheckAttr(await execRawReadonly(['check-attr', '-z', 'filter', '--', ...batch], signal))) {
+            tracked.add(filePath);
+        }
+        for (const filePath of await queryLfsPointerPaths(execRawReadonly, batch, signal)) { tracked.add(filePath); }
+    }
+    return paths.filter((filePath) => tracked.has(filePath));
+}
+
+/** Staged paths whose blob is an LFS pointer; `-I` skips binary blobs, which a pointer never is. */
+async function queryLfsPointerPaths(execRawReadonly: GitExec, paths: readonly string[], signal?: AbortSignal): Promise<string[]> {
+    try {
+        const output = await execRawReadonly(
+            ['grep', '--cached', '-I', '-l', '-z', '--full-name', '-e', LFS_POINTER_VERSION_LINE, '--', ...paths.map(literalPathspec)],
+            signal,
+        );
+        return output.split('\0').filter(Boolean);
+    } catch (error) {
+        if (isNoMatchExit(error)) { return []; }
+        throw error;
+    }
+}
+
+function literalPathspec(filePath: string): string {
+    return `:(literal)${filePath}`;
+}
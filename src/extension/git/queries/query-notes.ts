@@ -0,0 +1,19 @@
+import type { GitExec } from '@extension/git/git-exec';
+import type { GitNote } from '@core/git/domain/git-note';
+import { NOTES_REF_PREFIX } from '@core/git/notes';
+
+export async function queryNotesRefs(execRawReadonly: GitExec, signal?: AbortSignal): Promise<string[]> {
+    const output = await execRawReadonly(['for-each-ref', '--format=%(refname)', NOTES_REF_PREFIX], signal);
+    return output.split(/\r?\n/).map((line) => line.trim()).filter(Boolean);
+}
+
+/** Reads the note of `commit` under every notes ref; `show --format=%N` prints nothing instead of failing when a ref has no note. */
+export async function queryCommitNotes(execRawReadonly: GitExec, commit: string, signal?: AbortSignal): Promise<GitNote[]> {
+    const refs = await queryNotesRefs(execRawReadonly, signal);
+    const notes = await Promise.all(refs.map(async (ref) => {
+        // `--no-notes` drops `notes.displayRef` so only `ref` is shown.
+        const output = await execRawReadonly(['show', '-s', '--no-notes', `--notes=${ref}`, '--format=%N', commit], signal);
+        return { ref, message: output.replace(/\s+$/, '') };
+    }));
+    return notes.filter((note) => note.message.length > 0);
+}
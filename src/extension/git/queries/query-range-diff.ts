@@ -0,0 +1,14 @@
+import type { GitExec } from '@extension/git/git-exec';
+import type { GitRangeDiffPair } from '@core/git/domain/git-range-diff';
+import { parseRangeDiff } from '@core/parsing/parse-range-diff';
+
+export async function queryRangeDiff(
+    execRawReadonly: GitExec,
+    oldRange: string,
+    newRange: string,
+    signal?: AbortSignal,
+): Promise<readonly GitRangeDiffPair[]> {
+    // Full hashes let the pairs be matched against graph rows and passed back to other commands.
+    const output = await execRawReadonly(['-c', 'core.abbrev=no', 'range-diff', '--no-color', oldRange, newRange], signal);
+    return parseRangeDiff(output);
+}
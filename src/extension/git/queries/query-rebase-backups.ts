@@ -0,0 +1,22 @@
+import type { GitExec } from '@extension/git/git-exec';
+import type { GitRebaseBackup } from '@core/git/domain/git-rebase-backup';
+import { REBASE_BACKUP_REF_PREFIX, rebaseBackupBranchLabel } from '@core/git/rebase-backups';
+import { parseRebaseBackupRefs } from '@core/parsing/parse-rebase-backups';
+
+export async function queryRebaseBackups(execRawReadonly: GitExec, signal?: AbortSignal): Promise<readonly GitRebaseBackup[]> {
+    const [refsOutput, branchesOutput] = await Promise.all([
+        execRawReadonly(['for-each-ref', '--format=%(objectname) %(refname)', REBASE_BACKUP_REF_PREFIX], signal),
+        execRawReadonly(['for-each-ref', '--format=%(refname:short)', 'refs/heads/'], signal),
+    ]);
+    const backups = parseRebaseBackupRefs(refsOutput);
+    if (backups.length === 0) { return backups; }
+    const branches = branchesOutput.split(/\r?\n/).map((line) => line.trim()).filter(Boolean);
+    return await Promise.all(backups.map(async (backup) => {
+        // Labels are lossy (`feature/x` and `feature-x` share one), so an exact name wins over a sanitised match.
+        const branch = branches.find((candidate) => candidate === backup.branchLabel)
+            ?? branches.find((candidate) => rebaseBackupBranchLabel(candidate) === backup.branchLabel);
+        if (!branch) { return backup; }
+        const count = await execRawReadonly(['rev-list', '--count', `refs/heads/${branch}..${backup.ref}`], signal);
+        return { ...backup, branch, commitCount: parseInt(count.trim(), 10) || 0 };
+    }));
+}
@@ -0,0 +1,26 @@
+import type { GitExec } from '@extension/git/git-exec';
+import type { GitReflogEntry } from '@core/git/domain/git-reflog';
+import { LOG_FIELD_SEP, LOG_RECORD_SEP } from '@core/parsing/parse-log';
+import { parseReflog } from '@core/parsing/parse-reflog';
+
+const REFLOG_FORMAT = ['%H', '%gd', '%gs', '%s'].join(LOG_FIELD_SEP) + LOG_RECORD_SEP;
+
+export async function queryReflog(
+    execRawReadonly: GitExec,
+    ref: string,
+    limit: number,
+    offset: number,
+    signal?: AbortSignal,
+): Promise<GitReflogEntry[]> {
+    const output = await execRawReadonly([
+        'log',
+        '--walk-reflogs',
+        '--date=iso-strict',
+        `--format=${REFLOG_FORMAT}`,
+        `--max-count=${limit}`,
+        ...(offset > 0 ? [`--skip=${offset}`] : []),
+        ref,
+        '--',
+    ], signal);
+    return parseReflog(output, ref, offset);
+}
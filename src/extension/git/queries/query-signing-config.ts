@@ -0,0 +1,16 @@
+import type { GitExec } from '@extension/git/git-exec';
+import { isMissingConfigValue } from '@extension/git/git-error';
+import type { GitSigningConfig } from '@core/git/domain/git-signature';
+import { parseGitSigningConfig } from '@core/parsing/parse-git-config';
+
+const SIGNING_CONFIG_KEYS = '^(commit|tag)\\.gpgsign$|^gpg\\.format$';
+
+export async function querySigningConfig(execRawReadonly: GitExec, signal?: AbortSignal): Promise<GitSigningConfig> {
+    try {
+        return parseGitSigningConfig(await execRawReadonly(['config', '-z', '--get-regexp', SIGNING_CONFIG_KEYS], signal));
+    } catch (error) {
+        // `git config --get-regexp` exits with 1 when none of the keys is set.
+        if (!isMissingConfigValue(error)) { throw error; }
+        return parseGitSigningConfig('');
+    }
+}
@@ -1,8 +1,8 @@
 import * as fs from 'fs/promises';
 import type { GitExec } from '@extension/git/git-exec';
-import type { GitStatus, GitStash } from '@core/git/domain/git-status';
+import type { GitSequencerState, GitStatus, GitStash } from '@core/git/domain/git-status';
 import type { GitFileChange } from '@core/git/domain/git-commit';
-import { detectConflictStateFromFiles, parsePorcelainStatus } from '@core/parsing/parse-status';
+import { detectConflictStateFromFiles, parsePorcelainStatus, parseSequencerTodo } from '@core/parsing/parse-status';
 import { parseNameStatusZ } from '@core/parsing/parse-name-status';
 import { querySubmoduleStatus } from '@extension/git/queries/query-submodules';
 
@@ -16,23 +16,47 @@ export async function queryStatus(
     ]);
 
     const { staged, unstaged, conflicts } = parsePorcelainStatus(output, submodulePaths);
-    return { staged, unstaged, conflicts, conflictState: await queryConflictState(execRawReadonly, signal) };
+    const { conflictState, sequencerRemaining } = await queryOperationState(execRawReadonly, signal);
+    return { staged, unstaged, conflicts, conflictState, ...(sequencerRemaining !== undefined ? { sequencerRemaining } : {}) };
 }
 
-async function queryConflictState(execRawReadonly: GitExec, signal?: AbortSignal): Promise<GitStatus['conflictState']> {
-    const [rebaseMerge, rebaseApply, mergeHead] = await Promise.all([
+async function queryOperationState(
+    execRawReadonly: GitExec,
+    signal?: AbortSignal,
+): Promise<Pick<GitStatus, 'conflictState' | 'sequencerRemaining'>> {
+    const [rebaseMerge, rebaseApply, mergeHead, cherryPickHead, revertHead, sequencer] = await Promise.all([
         gitPathExists(execRawReadonly, 'rebase-merge', signal),
         gitPathExists(execRawReadonly, 'rebase-apply', signal),
         refExists(execRawReadonly, 'MERGE_HEAD', signal),
+        refExists(execRawReadonly, 'CHERRY_PICK_HEAD', signal),
+        refExists(execRawReadonly, 'REVERT_HEAD', signal),
+        querySequencerState(execRawReadonly, signal),
     ]);
-    return detectConflictStateFromFiles([
+    const conflictState = detectConflictStateFromFiles([
         ...(rebaseMerge ? ['rebase-merge'] : []),
         ...(rebaseApply ? ['rebase-apply'] : []),
         ...(mergeHead ? ['MERGE_HEAD'] : []),
+        ...(cherryPickHead ? ['CHERRY_PICK_HEAD'] : []),
+        ...(revertHead ? ['REVERT_HEAD'] : []),
     ]);
+    if (conflictState === 'none' && sequencer) {
+        return { conflictState: sequencer.conflictState, sequencerRemaining: sequencer.remaining };
+    }
+    return sequencer && sequencer.conflictState === conflictState
+        ? { conflictState, sequencerRemaining: sequencer.remaining }
+        : { conflictState };
+}
+
+async function querySequencerState(execRawReadonly: GitExec, signal?: AbortSignal): Promise<GitSequencerState | undefined> {
+    try {
+        const todoPath = await execRawReadonly(['rev-parse', '--path-format=absolute', '--git-path', 'sequencer/todo'], signal);
+        return parseSequencerTodo(await fs.readFile(todoPath.trim(), 'utf8'));
+    } catch {
+        return undefined;
+    }
 }
 
-async function gitPathExists(execRawReadonly: GitExec, path: string, signal?: AbortSignal): Promise<boolean> {
+export async function gitPathExists(execRawReadonly: GitExec, path: string, signal?: AbortSignal): Promise<boolean> {
     try {
         const gitPath = await execRawReadonly(['rev-parse', '--path-format=absolute', '--git-path', path], signal);
         await fs.access(gitPath.trim());
@@ -68,12 +92,18 @@ export async function queryStashList(
     execReadonly: GitExec,
     signal?: AbortSignal,
 ): Promise<GitStash[]> {
-    const output = await execReadonly(['stash', 'list', '--format=%gd %s'], signal);
+    const output = await execReadonly(['stash', 'list', '--format=%gd%x00%H%x00%P%x00%cI%x00%s'], signal);
     if (!output) { return []; }
     return output.split(/\r?\n/).filter(Boolean).map((line) => {
-        const match = line.match(/^stash@\{(\d+)\}\s+(.*)/);
-        if (!match) { return { index: 0, message: line }; }
-        return { index: parseInt(match[1] ?? '0', 10), message: match[2] ?? '' };
+        const [selector = '', hash = '', parents = '', date = '', message = ''] = line.split('\0');
+        const match = selector.match(/^stash@\{(\d+)\}$/);
+        return {
+            index: match ? parseInt(match[1] ?? '0', 10) : 0,
+            message,
+            ...(hash ? { hash } : {}),
+            ...(parents ? { parentHashes: parents.split(' ') } : {}),
+            ...(date ? { date } : {}),
+        };
     });
 }
 
@@ -1,4 +1,5 @@
 import type { GitExec } from '@extension/git/git-exec';
+import { isMissingConfigValue } from '@extension/git/git-error';
 import type { GitSubmodule } from '@core/git/domain/git-worktree';
 import { parseNullTerminatedGitConfigValues } from '@core/parsing/parse-git-config';
 import { parseSubmoduleStatus } from '@core/parsing/parse-submodule-status';
@@ -38,8 +39,3 @@ export async function updateAllSubmodules(exec: GitExec, signal?: AbortSignal):
 function isAbortError(error: unknown): boolean {
     return error instanceof Error && error.name === 'AbortError';
 }
-
-function isMissingConfigValue(error: unknown): boolean {
-    if (typeof error !== 'object' || error === null || !('code' in error)) { return false; }
-    return error.code === 1 || error.code === '1';
-}
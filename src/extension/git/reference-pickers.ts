@@ -1,5 +1,5 @@
 import * as vscode from 'vscode';
-import type { MergeOptions } from '@application/ports/git-capabilities';
+import type { CherryPickOptions, MergeOptions, RevertOptions } from '@application/ports/git-capabilities';
 import type { GitRepository, Worktree } from '@application/ports/git-topology';
 import { showBranchNameInput } from '@extension/utils/branch-name-input';
 
@@ -10,6 +10,11 @@ const CHECKOUT_BRANCH = 'Check Out Branch';
 const FORCE_PUSH_WITH_LEASE = 'Force Push with Lease';
 const FORCE_PUSH = 'Force Push';
 const MORE_PUSH_ACTIONS = 'More Push Actions...';
+const CHERRY_PICK = 'Cherry-Pick';
+const CHERRY_PICK_RECORD_ORIGIN = 'Cherry-Pick and Record Origin (-x)';
+const CHERRY_PICK_NO_COMMIT = 'Apply Changes without Committing';
+const REVERT = 'Revert';
+const REVERT_NO_COMMIT = 'Revert Changes without Committing';
 
 export type DivergedPushAction = 'update' | 'checkout' | 'forceWithLease' | 'force';
 
@@ -79,6 +84,50 @@ export async function pickMergeOptions(ref: string): Promise<MergeOptions | unde
     return { squash: choice === SQUASH_MERGE };
 }
 
+export async function pickCherryPickOptions(commitCount: number): Promise<CherryPickOptions | undefined> {
+    const choice = await vscode.window.showQuickPick([CHERRY_PICK, CHERRY_PICK_RECORD_ORIGIN, CHERRY_PICK_NO_COMMIT], {
+        placeHolder: `Cherry-pick ${commitCountLabel(commitCount)}`,
+    });
+    if (!choice) { return undefined; }
+    if (choice === CHERRY_PICK_RECORD_ORIGIN) { return { recordOrigin: true }; }
+    return choice === CHERRY_PICK_NO_COMMIT ? { noCommit: true } : {};
+}
+
+export async function pickRevertOptions(commitCount: number): Promise<RevertOptions | undefined> {
+    const choice = await vscode.window.showQuickPick([REVERT, REVERT_NO_COMMIT], {
+        placeHolder: `Revert ${commitCountLabel(commitCount)}`,
+    });
+    if (!choice) { return undefined; }
+    return choice === REVERT_NO_COMMIT ? { noCommit: true } : { noEdit: true };
+}
+
+/**
+ * Asks which parent merge commits in `commits` are replayed against. Resolves to `{}` when there are no merges
+ * and to `undefined` when the pick is cancelled.
+ */
+export async function pickMergeMainline(
+    repository: GitRepository,
+    commits: readonly string[],
+    action: 'cherry-pick' | 'revert',
+): Promise<{ readonly mainline?: number } | undefined> {
+    const merges = (await Promise.all(commits.map((commit) => repository.getCommitDetails(commit))))
+        .filter((commit) => commit.parentHashes.length > 1);
+    const [merge] = merges;
+    if (!merge) { return {}; }
+    const parentCount = Math.max(...merges.map((commit) => commit.parentHashes.length));
+    const items = Array.from({ length: parentCount }, (_, index) => {
+        const parent = merges.length === 1 ? merge.parentHashes[index] : undefined;
+        return parent ? `Parent ${index + 1}: ${parent.substring(0, 7)}` : `Parent ${index + 1}`;
+    });
+    const choice = await vscode.window.showQuickPick(items, {
+        placeHolder: merges.length === 1
+            ? `${merge.hash.substring(0, 7)} is a merge commit. Pick the parent to ${action} it against`
+            : `${merges.length} selected commits are merges. Pick the parent to ${action} them against`,
+    });
+    if (!choice) { return undefined; }
+    return { mainline: items.indexOf(choice) + 1 };
+}
+
 export async function confirmBehindBranchUpdate(branch: string, upstream: string): Promise<boolean> {
     const choice = await vscode.window.showWarningMessage(
         `"${branch}" is behind "${upstream}". Update it before pushing.`,
@@ -115,3 +164,7 @@ export async function pickStash(placeHolder: string, worktree: Worktree): Promis
     const match = selected.match(/^stash@\{(\d+)\}/);
     return match ? Number(match[1]) : undefined;
 }
+
+function commitCountLabel(count: number): string {
+    return count === 1 ? '1 commit' : `${count} commits`;
+}
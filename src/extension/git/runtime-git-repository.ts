@@ -1,7 +1,12 @@
-import type { GitCommit, GitFileChange } from '@core/git/domain/git-commit';
+import type { GitCommit, GitFileChange, GitFileRevision } from '@core/git/domain/git-commit';
 import type { Page, PageRequest } from '@core/git/domain/page';
 import type { GitBranch, GitTag } from '@core/git/domain/git-status';
 import type { GitSubmodule, GitWorktree } from '@core/git/domain/git-worktree';
+import type { GitRebaseBackup } from '@core/git/domain/git-rebase-backup';
+import type { GitRangeDiffPair } from '@core/git/domain/git-range-diff';
+import type { GitSigningConfig } from '@core/git/domain/git-signature';
+import type { GitHooks } from '@core/git/domain/git-hooks';
+import type { GitNote } from '@core/git/domain/git-note';
 import type {
     AddWorktreeInput,
     CommitGraphQuery,
@@ -9,6 +14,7 @@ import type {
     FileSelection,
     RefCompareOptions,
     SubmoduleUpdateOptions,
+    TagOptions,
 } from '@application/ports/git-capabilities';
 import type { GitRepository } from '@application/ports/git-topology';
 import { UnsupportedGitOperationError, type GitExecutionContext, type GitRuntime, type RepositoryKind } from '@application/ports/git-runtime';
@@ -113,7 +119,7 @@ export class RuntimeGitRepository implements GitRepository {
         return this.execute('getFileAtRevision', { path, revision }, signal);
     }
 
-    getFileRenameHistory(path: string, pageRequest: PageRequest, signal?: AbortSignal): Promise<Page<GitFileChange>> {
+    getFileRenameHistory(path: string, pageRequest: PageRequest, signal?: AbortSignal): Promise<Page<GitFileRevision>> {
         return this.execute('getFileRenameHistory', { path, pageRequest }, signal);
     }
 
@@ -149,6 +155,10 @@ export class RuntimeGitRepository implements GitRepository {
         return this.execute('listChangedFiles', { baseRef, headRef, pageRequest }, signal);
     }
 
+    rangeDiff(oldRange: string, newRange: string, signal?: AbortSignal): Promise<readonly GitRangeDiffPair[]> {
+        return this.execute('rangeDiff', { oldRange, newRange }, signal);
+    }
+
     listBranches(signal?: AbortSignal): Promise<readonly GitBranch[]> {
         return this.execute('listBranches', undefined, signal);
     }
@@ -173,10 +183,30 @@ export class RuntimeGitRepository implements GitRepository {
         return this.execute('updateRef', { ref, newValue }, signal);
     }
 
+    deleteRef(ref: string, signal?: AbortSignal): Promise<void> {
+        return this.execute('deleteRef', ref, signal);
+    }
+
+    listRebaseBackups(signal?: AbortSignal): Promise<readonly GitRebaseBackup[]> {
+        return this.execute('listRebaseBackups', undefined, signal);
+    }
+
     getUserName(signal?: AbortSignal): Promise<string> {
         return this.execute('getUserName', undefined, signal);
     }
 
+    getSigningConfig(signal?: AbortSignal): Promise<GitSigningConfig> {
+        return this.execute('getSigningConfig', undefined, signal);
+    }
+
+    getCommitTemplate(signal?: AbortSignal): Promise<string> {
+        return this.execute('getCommitTemplate', undefined, signal);
+    }
+
+    getHooks(signal?: AbortSignal): Promise<GitHooks> {
+        return this.execute('getHooks', undefined, signal);
+    }
+
     getUpstreamBranch(branch: string, signal?: AbortSignal): Promise<string | undefined> {
         return this.execute('getUpstreamBranch', { branch }, signal);
     }
@@ -201,8 +231,8 @@ export class RuntimeGitRepository implements GitRepository {
         return this.execute('setUpstream', { branch, upstream }, signal);
     }
 
-    createTag(name: string, target: string, message: string | undefined, signal?: AbortSignal): Promise<void> {
-        return this.execute('createTag', { name, target, message }, signal);
+    createTag(name: string, target: string, message: string | undefined, options: TagOptions, signal?: AbortSignal): Promise<void> {
+        return this.execute('createTag', { name, target, message, options }, signal);
     }
 
     deleteTag(name: string, signal?: AbortSignal): Promise<void> {
@@ -301,6 +331,42 @@ export class RuntimeGitRepository implements GitRepository {
         return this.execute('openSubmoduleRepository', { path }, signal);
     }
 
+    getLfsTrackedPaths(paths: readonly string[], signal?: AbortSignal): Promise<readonly string[]> {
+        return this.execute('getLfsTrackedPaths', { paths }, signal);
+    }
+
+    getLfsFileAtRevision(path: string, revision: string, signal?: AbortSignal): Promise<string> {
+        return this.execute('getLfsFileAtRevision', { path, revision }, signal);
+    }
+
+    fetchLfsObjects(remote: string | undefined, signal?: AbortSignal): Promise<void> {
+        return this.execute('fetchLfsObjects', { remote }, signal);
+    }
+
+    listNotesRefs(signal?: AbortSignal): Promise<readonly string[]> {
+        return this.execute('listNotesRefs', {}, signal);
+    }
+
+    getCommitNotes(commit: string, signal?: AbortSignal): Promise<readonly GitNote[]> {
+        return this.execute('getCommitNotes', { commit }, signal);
+    }
+
+    setCommitNote(commit: string, message: string, ref: string, signal?: AbortSignal): Promise<void> {
+        return this.execute('setCommitNote', { commit, message, ref }, signal);
+    }
+
+    removeCommitNote(commit: string, ref: string, signal?: AbortSignal): Promise<void> {
+        return this.execute('removeCommitNote', { commit, ref }, signal);
+    }
+
+    pushNotesRef(remote: string, ref: string, signal?: AbortSignal): Promise<void> {
+        return this.execute('pushNotesRef', { remote, ref }, signal);
+    }
+
+    fetchNotesRef(remote: string, ref: string, signal?: AbortSignal): Promise<void> {
+        return this.execute('fetchNotesRef', { remote, ref }, signal);
+    }
+
     private execute<TInput, TResult>(operation: SemanticGitOperation, input: TInput, signal?: AbortSignal): Promise<TResult> {
         if (!this.runtime.supports(operation, this.context)) {
             return Promise.reject(new UnsupportedGitOperationError(operation, this.context));
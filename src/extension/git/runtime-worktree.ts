@@ -1,6 +1,9 @@
 import type { GitFileChange } from '@core/git/domain/git-commit';
 import type { Page, PageRequest } from '@core/git/domain/page';
 import type { GitStash, GitStatus } from '@core/git/domain/git-status';
+import type { GitReflogEntry } from '@core/git/domain/git-reflog';
+import type { GitBisectState } from '@core/git/domain/git-bisect';
+import type { GitIgnoreEdit, GitIgnorePatternScope, GitIgnoreRule, GitIgnoreTarget } from '@core/git/domain/git-ignore';
 import type {
     CheckoutOptions,
     CherryPickOptions,
@@ -80,6 +83,34 @@ export class RuntimeWorktree implements Worktree {
         return this.execute('getIgnoredFiles', { pageRequest }, signal);
     }
 
+    explainIgnore(path: string, signal?: AbortSignal): Promise<GitIgnoreRule | undefined> {
+        return this.execute('explainIgnore', { path }, signal);
+    }
+
+    addIgnorePattern(path: string, scope: GitIgnorePatternScope, target: GitIgnoreTarget, signal?: AbortSignal): Promise<GitIgnoreEdit> {
+        return this.execute('addIgnorePattern', { path, scope, target }, signal);
+    }
+
+    getLfsTrackedPaths(paths: readonly string[], signal?: AbortSignal): Promise<readonly string[]> {
+        return this.execute('getLfsTrackedPaths', { paths }, signal);
+    }
+
+    getLfsFileAtRevision(path: string, revision: string, signal?: AbortSignal): Promise<string> {
+        return this.execute('getLfsFileAtRevision', { path, revision }, signal);
+    }
+
+    getLfsFileFromIndex(path: string, signal?: AbortSignal): Promise<string> {
+        return this.execute('getLfsFileFromIndex', { path }, signal);
+    }
+
+    lockLfsFile(path: string, signal?: AbortSignal): Promise<void> {
+        return this.execute('lockLfsFile', { path }, signal);
+    }
+
+    unlockLfsFile(path: string, force: boolean, signal?: AbortSignal): Promise<void> {
+        return this.execute('unlockLfsFile', { path, force }, signal);
+    }
+
     stage(paths: readonly string[], signal?: AbortSignal): Promise<void> {
         return this.execute('stage', { paths }, signal);
     }
@@ -92,8 +123,8 @@ export class RuntimeWorktree implements Worktree {
         return this.execute('stageHunks', { hunks }, signal);
     }
 
-    stageLines(selection: FileSelection, signal?: AbortSignal): Promise<void> {
-        return this.execute('stageLines', { selection }, signal);
+    stageLines(path: string, selection: FileSelection, signal?: AbortSignal): Promise<void> {
+        return this.execute('stageLines', { path, selection }, signal);
     }
 
     unstage(paths: readonly string[], signal?: AbortSignal): Promise<void> {
@@ -228,6 +259,10 @@ export class RuntimeWorktree implements Worktree {
         return this.execute('branchFromStash', { stash, branchName }, signal);
     }
 
+    storeStash(commit: string, message: string, signal?: AbortSignal): Promise<void> {
+        return this.execute('storeStash', { commit, message }, signal);
+    }
+
     checkout(ref: string, options: CheckoutOptions, signal?: AbortSignal): Promise<void> {
         return this.execute('checkout', { ref, options }, signal);
     }
@@ -320,8 +355,8 @@ export class RuntimeWorktree implements Worktree {
         return this.execute('dropCommit', { commit }, signal);
     }
 
-    cherryPick(commit: string, options: CherryPickOptions, signal?: AbortSignal): Promise<void> {
-        return this.execute('cherryPick', { commit, options }, signal);
+    cherryPick(commits: readonly string[], options: CherryPickOptions, signal?: AbortSignal): Promise<void> {
+        return this.execute('cherryPick', { commits, options }, signal);
     }
 
     continueCherryPick(signal?: AbortSignal): Promise<void> {
@@ -336,8 +371,8 @@ export class RuntimeWorktree implements Worktree {
         return this.execute('skipCherryPick', undefined, signal);
     }
 
-    revertCommit(commit: string, options: RevertOptions, signal?: AbortSignal): Promise<void> {
-        return this.execute('revertCommit', { commit, options }, signal);
+    revertCommit(commits: readonly string[], options: RevertOptions, signal?: AbortSignal): Promise<void> {
+        return this.execute('revertCommit', { commits, options }, signal);
     }
 
     continueRevert(signal?: AbortSignal): Promise<void> {
@@ -352,6 +387,34 @@ export class RuntimeWorktree implements Worktree {
         return this.execute('skipRevert', undefined, signal);
     }
 
+    getBisectState(signal?: AbortSignal): Promise<GitBisectState | undefined> {
+        return this.execute('getBisectState', undefined, signal);
+    }
+
+    bisectStart(bad: string | undefined, good: readonly string[], signal?: AbortSignal): Promise<void> {
+        return this.execute('bisectStart', { bad, good }, signal);
+    }
+
+    bisectGood(commit: string | undefined, signal?: AbortSignal): Promise<void> {
+        return this.execute('bisectGood', { commit }, signal);
+    }
+
+    bisectBad(commit: string | undefined, signal?: AbortSignal): Promise<void> {
+        return this.execute('bisectBad', { commit }, signal);
+    }
+
+    bisectSkip(commit: string | undefined, signal?: AbortSignal): Promise<void> {
+        return this.execute('bisectSkip', { commit }, signal);
+    }
+
+    bisectReset(signal?: AbortSignal): Promise<void> {
+        return this.execute('bisectReset', undefined, signal);
+    }
+
+    bisectRun(command: string, onOutput: (chunk: string) => void, signal?: AbortSignal): Promise<void> {
+        return this.execute('bisectRun', { command, onOutput }, signal);
+    }
+
     resetSoft(ref: string, signal?: AbortSignal): Promise<void> {
         return this.execute('resetSoft', ref, signal);
     }
@@ -384,8 +447,8 @@ export class RuntimeWorktree implements Worktree {
         return this.execute('undoCheckout', { previousHead }, signal);
     }
 
-    getReflog(pageRequest: PageRequest, signal?: AbortSignal): Promise<Page<string>> {
-        return this.execute('getReflog', { pageRequest }, signal);
+    getReflog(ref: string, pageRequest: PageRequest, signal?: AbortSignal): Promise<Page<GitReflogEntry>> {
+        return this.execute('getReflog', { ref, pageRequest }, signal);
     }
 
     restoreFromReflog(entry: string, mode: ResetMode, signal?: AbortSignal): Promise<void> {
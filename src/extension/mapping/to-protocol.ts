@@ -1,9 +1,16 @@
 // Mapping functions: Git-prefix core types → protocol types (webview-facing)
 import type { GitCommit, GitGraphCommit } from '@core/git/domain/git-commit';
-import type { GitBranch } from '@core/git/domain/git-status';
+import type { GitDiffHunk } from '@core/git/domain/git-diff';
+import type { GitBisectState } from '@core/git/domain/git-bisect';
+import type { GitRebaseBackup } from '@core/git/domain/git-rebase-backup';
+import type { GitBranch, GitStash, GitTag } from '@core/git/domain/git-status';
 import type { GitWorktree, GitSubmodule } from '@core/git/domain/git-worktree';
 import { RepoKind, type RepoContext } from '@core/git/domain/repo-context';
-import type { BranchInfo, GraphCommit, GraphSubmoduleInfo, WorktreeInfo } from '@protocol/graph/types';
+import type { OperationPlan } from '@application/ports/operation-guard';
+import type { ChangeDiffHunk } from '@protocol/changes/types';
+import type { BranchInfo, GraphCommit, GraphStashInfo, GraphSubmoduleInfo, RebaseBackupInfo, TagInfo, WorktreeInfo } from '@protocol/graph/types';
+import type { BisectStatus } from '@protocol/shared/bisect';
+import type { OperationPlanPrompt } from '@protocol/shared/operation-plan';
 import { SubmoduleStatus, type RepositoryLocator, type SerializedRepoContext, type WorktreeLocator } from '@protocol/shared/repo';
 import { stableRepoContextId } from '@extension/repositories/repo-context-id';
 
@@ -18,6 +25,82 @@ export function toProtocolGraphCommit(commit: GitCommit | GitGraphCommit): Graph
         parentHashes: commit.parentHashes,
         refs: commit.refs ?? [],
         matchesFilter: 'matchesFilter' in commit ? commit.matchesFilter : undefined,
+        ...(commit.signature ? { signature: commit.signature } : {}),
+    };
+}
+
+export function toProtocolDiffHunk(hunk: GitDiffHunk): ChangeDiffHunk {
+    return {
+        header: hunk.header,
+        lines: hunk.lines.map((line) => ({
+            kind: line.kind,
+            text: line.text,
+            ...(line.oldLine !== undefined ? { oldLine: line.oldLine } : {}),
+            ...(line.newLine !== undefined ? { newLine: line.newLine } : {}),
+        })),
+    };
+}
+
+export function toProtocolBisectStatus(state: GitBisectState): BisectStatus {
+    return {
+        ...(state.badHash ? { badHash: state.badHash } : {}),
+        goodHashes: state.goodHashes,
+        skippedHashes: state.skippedHashes,
+        ...(state.currentHash ? { currentHash: state.currentHash } : {}),
+        ...(state.remainingRevisions !== undefined ? { remainingRevisions: state.remainingRevisions } : {}),
+        ...(state.remainingSteps !== undefined ? { remainingSteps: state.remainingSteps } : {}),
+        ...(state.firstBadHash ? { firstBadHash: state.firstBadHash } : {}),
+    };
+}
+
+export function toProtocolRebaseBackup(backup: GitRebaseBackup): RebaseBackupInfo {
+    return {
+        ref: backup.ref,
+        hash: backup.hash,
+        branchLabel: backup.branchLabel,
+        ...(backup.branch ? { branch: backup.branch } : {}),
+        createdAt: backup.createdAt,
+        ...(backup.commitCount !== undefined ? { commitCount: backup.commitCount } : {}),
+    };
+}
+
+export function toProtocolOperationPlan(plan: OperationPlan, title: string, confirmLabel: string): OperationPlanPrompt {
+    return {
+        planId: plan.id,
+        title,
+        confirmLabel,
+        guards: plan.guards.map((guard) => ({ kind: guard.kind, level: guard.level, reason: guard.reason })),
+        targets: plan.targets.map((target) => ({ kind: target.kind, id: target.id, label: target.label })),
+        ...(plan.preview?.hash ? { previewHash: plan.preview.hash } : {}),
+        ...(plan.recovery ? { recovery: plan.recovery.description } : {}),
+    };
+}
+
+export function toProtocolTag(tag: GitTag): TagInfo {
+    return {
+        name: tag.name,
+        hash: tag.hash,
+        ...(tag.target ? { target: tag.target } : {}),
+        ...(tag.annotated !== undefined ? { annotated: tag.annotated } : {}),
+        ...(tag.taggerName ? { taggerName: tag.taggerName } : {}),
+        ...(tag.taggerEmail ? { taggerEmail: tag.taggerEmail } : {}),
+        ...(tag.date ? { date: tag.date } : {}),
+        ...(tag.message ? { message: tag.message } : {}),
+    };
+}
+
+/** A stash the graph can place; entries listed without their commit or base commit have no row. */
+export function toProtocolGraphStash(stash: GitStash): GraphStashInfo | undefined {
+    const [baseHash, indexHash, untrackedHash] = stash.parentHashes ?? [];
+    if (!stash.hash || !baseHash) { return undefined; }
+    return {
+        index: stash.index,
+        hash: stash.hash,
+        baseHash,
+        ...(indexHash ? { indexHash } : {}),
+        ...(untrackedHash ? { untrackedHash } : {}),
+        message: stash.message,
+        ...(stash.date ? { date: stash.date } : {}),
     };
 }
 
@@ -1,8 +1,9 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
 import type { GitStash, GitStatus, GitStatusEntry } from '@core/git/domain/git-status';
+import type { GitBisectState } from '@core/git/domain/git-bisect';
 import type { GitSubmodule } from '@core/git/domain/git-worktree';
-import type { ChangesOperationStatusPush, ChangesSortPreference, ChangesToolbarCommand, ChangesViewPreference, ChangesWebviewToExtensionMessage, ChangesExtensionToWebviewMessage } from '@protocol/changes/messages';
+import type { ChangeHunkCommand, ChangesOperationStatusPush, CommitRequest, ChangesSortPreference, ChangesToolbarCommand, ChangesViewPreference, ChangesWebviewToExtensionMessage, ChangesExtensionToWebviewMessage } from '@protocol/changes/messages';
 import { CommitMode, ConflictState, RepositoryState } from '@protocol/changes/types';
 import type { StatusData, StatusEntry } from '@protocol/changes/types';
 import type { ErrorCode, RequestId } from '@protocol/shared/base';
@@ -11,21 +12,40 @@ import { SubmoduleStatus } from '@protocol/shared/repo';
 import type { RepositoryContextAccessor } from '@extension/repositories/repository-selection-store';
 import type { RepositoryRegistry } from '@extension/repositories/repository-registry';
 import type { GitRepository as RuntimeGitRepository, Worktree } from '@application/ports/git-topology';
-import { GitPushOutcome } from '@application/ports/git-capabilities';
-import { confirmTypedPhrase, showModalWarningMessage } from '@extension/utils/confirmation';
+import { GitPushOutcome, type CommitOptions } from '@application/ports/git-capabilities';
+import { showModalWarningMessage } from '@extension/utils/confirmation';
 import { createReadonlyDocumentUri, openReadonlyDiffDocument } from '@extension/utils/readonly-diff-documents';
-import { toProtocolSubmoduleStatus } from '@extension/mapping/to-protocol';
+import { lfsBlobContent } from '@extension/utils/git-blob-documents';
+import { runBisectCommand } from '@extension/commands/bisect-commands';
+import { fetchLfsObjects } from '@extension/commands/lfs-commands';
+import { fetchNotes, pushNotes } from '@extension/commands/notes-commands';
+import { openHookScript, showRepositoryInfo } from '@extension/commands/repository-info-commands';
+import { UNDO_LAST_OPERATION_COMMAND } from '@extension/commands/undo-commands';
+import { refreshBisectPanel } from '@extension/utils/bisect-panel';
+import { toProtocolBisectStatus, toProtocolDiffHunk, toProtocolSubmoduleStatus } from '@extension/mapping/to-protocol';
 import { GenerateCommitMessageUseCase } from '@application/usecases/changes/generate-commit-message';
 import { CheckoutBranchUseCase } from '@application/usecases/branches/checkout-branch';
+import { GetCoAuthorCandidatesUseCase } from '@application/usecases/commits/get-co-author-candidates';
+import { PartialChangeCommand, StagePartialChangesUseCase } from '@application/usecases/changes/stage-partial-changes';
+import { PlanDestructiveOperationUseCase, type GuardedOperationTarget } from '@application/usecases/guards/plan-destructive-operation';
+import type { OperationPlanDraft } from '@application/ports/operation-guard';
 import { VscodeLanguageModelCommitMessageGenerator } from '@extension/adapters/vscode/vscode-language-model-commit-message-generator';
 import { createErrorPayload, isAbortError } from '@extension/messaging/error-serialization';
 import { notifyRuntimeConflictsDetected, openAllRuntimeThreeWayMergeEditors, openRuntimeThreeWayMergeEditor } from '@extension/utils/runtime-merge-editor';
-import { operationActionsForStatus } from '@extension/utils/operation-feedback';
+import { operationActionsForStatus, undoableOperationActions } from '@extension/utils/operation-feedback';
+import {
+    blockedCommitMessageReason,
+    confirmOutgoingCommitMessages,
+    confirmWorktreeOutgoingCommitMessages,
+    loadCommitMessageConventions,
+} from '@extension/utils/commit-message-conventions';
 import { requireRuntimeLocator } from '@extension/repositories/runtime-repository-locator';
 import { currentLocalBranchName } from '@extension/git/current-branch';
 import { requireRemoteBranchName } from '@extension/git/remote-branch';
 import { inputBranchName, inputText, pickBranch, pickLocalBranch, pickMergeOptions, pickRef, pickRemote, pickRemoteBranch, pickStash, pickTag } from '@extension/git/reference-pickers';
 import { excludeNestedRepositoryChanges, nestedRepositoryPaths } from '@extension/repositories/nested-repository-boundaries';
+import { GuardAcknowledgementValidationError, type GuardValidationContext } from '@extension/operations/guard-acknowledgement-validator';
+import { GuardedOperationCoordinator } from '@extension/operations/guarded-operation-coordinator';
 
 type PostMessage = (msg: ChangesExtensionToWebviewMessage) => void;
 type RefreshCallback = () => Promise<void>;
@@ -47,6 +67,10 @@ export class ChangesMessageRouter {
     private readonly submoduleSquashMessagePresetByWorktreeId = new Map<string, string>();
     private operationSequence = 0;
     private submoduleCommitMessagePresetSequence = 0;
+    private readonly stagePartialChanges = new StagePartialChangesUseCase();
+    private readonly coAuthorCandidates = new GetCoAuthorCandidatesUseCase();
+    private readonly destructivePlans = new PlanDestructiveOperationUseCase();
+    private readonly guardedOperations = new GuardedOperationCoordinator();
 
     constructor(
         private readonly repositories: RepositoryContextAccessor,
@@ -68,7 +92,7 @@ export class ChangesMessageRouter {
             this.postChangesError(error, {
                 requestId: requestIdOf(msg),
                 operation: msg.type,
-                code: errorCodeFor(msg),
+                code: error instanceof GuardAcknowledgementValidationError ? 'validationFailed' : errorCodeFor(msg),
             });
             try {
                 await this.refresh();
@@ -135,6 +159,34 @@ export class ChangesMessageRouter {
                 await this.refreshAfterRepositoryUpdate();
                 break;
 
+            case 'changes/getFileHunks': {
+                const file = await this.stagePartialChanges.readFileDiff(currentRuntimeWorktree(), msg.filePath, msg.isStaged);
+                this.postMessage({
+                    type: 'changes/fileHunks',
+                    requestId: msg.requestId,
+                    filePath: msg.filePath,
+                    isStaged: msg.isStaged,
+                    hunks: file?.hunks.map(toProtocolDiffHunk) ?? [],
+                    binary: file?.binary ?? false,
+                });
+                break;
+            }
+
+            case 'changes/hunkCommand': {
+                const command = partialChangeCommand(msg.command);
+                if (command === PartialChangeCommand.Discard) {
+                    const scope = msg.lineIndexes ? 'the selected lines' : 'this hunk';
+                    const choice = await showModalWarningMessage(
+                        `Discard ${scope} in "${msg.filePath}"? This cannot be undone.`, 'Discard',
+                    );
+                    if (choice !== 'Discard') { break; }
+                }
+                await this.stagePartialChanges.applyHunk(currentRuntimeWorktree(), command, msg);
+                await this.refreshAfterRepositoryUpdate();
+                this.postMessage({ type: 'changes/fileHunksInvalidated' });
+                break;
+            }
+
             case 'changes/discardFile': {
                 const choice = await showModalWarningMessage(
                     `Discard unstaged changes in "${msg.filePath}"? This cannot be undone.`, 'Discard',
@@ -160,25 +212,39 @@ export class ChangesMessageRouter {
                 break;
             }
 
-            case 'changes/discardAll': {
-                const confirmed = await confirmTypedPhrase('Discard all changes? This cannot be undone.', 'DISCARD ALL');
-                if (confirmed) {
-                    try {
-                        await currentRuntimeWorktree().unstageAll();
-                    } catch (error) {
-                        this.postChangesError(error, {
-                            operation: 'changes/discardAll:unstage',
-                            code: 'gitOperationFailed',
-                        });
-                    }
-                    const status = this.visibleStatus(await currentRuntimeWorktree().getStatus());
-                    for (const entry of status.unstaged) {
-                        await discardRuntimeFile(currentRuntimeWorktree(), entry.filePath);
-                    }
-                    await this.refreshAfterRepositoryUpdate();
-                }
+            case 'changes/discardAll':
+                await this.requestGuardedOperation(
+                    () => this.requireCurrentGuardedTarget(),
+                    { title: 'Discard All Changes', confirmLabel: 'Discard All' },
+                    async (target) => this.destructivePlans.discardAll(target, this.visibleStatus(await target.worktree.getStatus())),
+                    async ({ worktree }) => {
+                        try {
+                            await worktree.unstageAll();
+                        } catch (error) {
+                            this.postChangesError(error, {
+                                operation: 'changes/discardAll:unstage',
+                                code: 'gitOperationFailed',
+                            });
+                        }
+                        const status = this.visibleStatus(await worktree.getStatus());
+                        for (const entry of status.unstaged) {
+                            await discardRuntimeFile(worktree, entry.filePath);
+                        }
+                    },
+                );
+                break;
+
+            case 'changes/acknowledgeOperationPlan':
+                await this.guardedOperations.acknowledge(msg.acknowledgement);
+                break;
+
+            case 'changes/cancelOperationPlan':
+                this.guardedOperations.cancel(msg.planId);
+                break;
+
+            case 'changes/undoLastOperation':
+                await vscode.commands.executeCommand(UNDO_LAST_OPERATION_COMMAND);
                 break;
-            }
 
             case 'changes/markResolved':
                 await currentRuntimeWorktree().markResolved([msg.filePath]);
@@ -236,38 +302,28 @@ export class ChangesMessageRouter {
                     });
                     return;
                 }
-                try {
-                    switch (msg.mode) {
-                        case CommitMode.Amend:
-                            await currentRuntimeWorktree().amendCommit(message, {});
-                            break;
-                        case CommitMode.CommitPush:
-                            await currentRuntimeWorktree().commit(message, {});
-                            await currentRuntimeWorktree().push(undefined, {});
-                            break;
-                        case CommitMode.CommitSync:
-                            await currentRuntimeWorktree().commit(message, {});
-                            await currentRuntimeWorktree().pull({ rebase: true });
-                            await currentRuntimeWorktree().push(undefined, {});
-                            break;
-                        default:
-                            await currentRuntimeWorktree().commit(message, {});
-                            break;
-                    }
-                    this.postMessage({ type: 'changes/commitResult', success: true });
-                    await vscode.window.showInformationMessage('Committed successfully.');
-                } catch (error) {
-                    this.postMessage({
-                        type: 'changes/commitResult',
-                        success: false,
-                        ...createErrorPayload(error, {
-                            code: 'gitOperationFailed',
-                            operation: msg.type,
-                            recoverable: true,
-                        }),
-                    });
-                }
-                await this.refreshAfterRepositoryUpdate();
+                await this.commitFromComposer(this.requireCurrentGuardedTarget(), undefined, commitRequest(message, msg), {}, msg.type);
+                break;
+            }
+
+            case 'changes/commitWithoutHooks': {
+                const submodulePath = msg.submodulePath ? await this.requireKnownSubmodulePath(msg.submodulePath) : undefined;
+                const request = commitRequest(msg.message.trim(), msg);
+                if (!request.message) { throw new Error('Commit message cannot be empty.'); }
+                await this.requestGuardedOperation(
+                    () => submodulePath ? this.requireSubmoduleGuardedTarget(submodulePath) : this.requireCurrentGuardedTarget(),
+                    { title: submodulePath ? `Commit ${submodulePath} Without Hooks` : 'Commit Without Hooks', confirmLabel: 'Commit with --no-verify' },
+                    (target) => this.destructivePlans.commitWithoutHooks(target, request.message),
+                    (target) => this.commitFromComposer(target, submodulePath, request, { noVerify: true }, msg.type),
+                );
+                break;
+            }
+
+            case 'changes/openHookScript': {
+                const repository = msg.submodulePath
+                    ? this.requireRuntimeSubmoduleRepository(await this.requireKnownSubmodulePath(msg.submodulePath))
+                    : this.requireCurrentRuntimeRepository();
+                await openHookScript(repository, msg.hook);
                 break;
             }
 
@@ -333,6 +389,34 @@ export class ChangesMessageRouter {
                 break;
             }
 
+            case 'changes/getCoAuthorCandidates': {
+                const repository = msg.submodulePath
+                    ? this.requireRuntimeSubmoduleRepository(await this.requireKnownSubmodulePath(msg.submodulePath))
+                    : this.requireCurrentRuntimeRepository();
+                const candidates = await this.coAuthorCandidates.execute(repository);
+                this.postMessage({
+                    type: 'changes/coAuthorCandidates',
+                    requestId: msg.requestId,
+                    ...(msg.submodulePath ? { submodulePath: msg.submodulePath } : {}),
+                    candidates,
+                });
+                break;
+            }
+
+            case 'changes/getCommitMessageConventions': {
+                const submodulePath = msg.submodulePath ? await this.requireKnownSubmodulePath(msg.submodulePath) : undefined;
+                const conventions = submodulePath
+                    ? await loadCommitMessageConventions(this.requireRuntimeSubmoduleRepository(submodulePath), this.requireRuntimeSubmoduleWorktree(submodulePath).path)
+                    : await loadCommitMessageConventions(this.requireCurrentRuntimeRepository(), currentRuntimeWorktree().path);
+                this.postMessage({
+                    type: 'changes/commitMessageConventions',
+                    requestId: msg.requestId,
+                    ...(msg.submodulePath ? { submodulePath: msg.submodulePath } : {}),
+                    conventions,
+                });
+                break;
+            }
+
             case 'changes/submoduleCommit': {
                 const submodulePath = await this.requireKnownSubmodulePath(msg.submodulePath);
                 const message = msg.message.trim();
@@ -349,40 +433,7 @@ export class ChangesMessageRouter {
                     });
                     return;
                 }
-                const runtimeSubmoduleWorktree = this.requireRuntimeSubmoduleWorktree(submodulePath);
-                try {
-                    switch (msg.mode) {
-                        case CommitMode.Amend:
-                            await runtimeSubmoduleWorktree.amendCommit(message, {});
-                            break;
-                        case CommitMode.CommitPush:
-                            await runtimeSubmoduleWorktree.commit(message, {});
-                            await runtimeSubmoduleWorktree.push(undefined, {});
-                            break;
-                        case CommitMode.CommitSync:
-                            await runtimeSubmoduleWorktree.commit(message, {});
-                            await runtimeSubmoduleWorktree.pull({ rebase: true });
-                            await runtimeSubmoduleWorktree.push(undefined, {});
-                            break;
-                        default:
-                            await runtimeSubmoduleWorktree.commit(message, {});
-                            break;
-                    }
-                    this.postMessage({ type: 'changes/submoduleCommitResult', path: submodulePath, success: true });
-                    await vscode.window.showInformationMessage(`Committed ${submodulePath} successfully.`);
-                } catch (error) {
-                    this.postMessage({
-                        type: 'changes/submoduleCommitResult',
-                        path: submodulePath,
-                        success: false,
-                        ...createErrorPayload(error, {
-                            code: 'gitOperationFailed',
-                            operation: msg.type,
-                            recoverable: true,
-                        }),
-                    });
-                }
-                await this.refreshAfterRepositoryUpdate();
+                await this.commitFromComposer(this.requireSubmoduleGuardedTarget(submodulePath), submodulePath, commitRequest(message, msg), {}, msg.type);
                 break;
             }
 
@@ -585,14 +636,13 @@ export class ChangesMessageRouter {
                 await this.refreshAfterRepositoryUpdate();
                 break;
 
-            case 'changes/stashDrop': {
-                const choice = await showModalWarningMessage('Drop this stash entry? This cannot be undone.', 'Drop');
-                if (choice === 'Drop') {
-                    await currentRuntimeWorktree().dropStash(stashRef(msg.index));
-                    await this.refreshAfterRepositoryUpdate();
-                }
+            case 'changes/stashDrop':
+                await this.requestDropStash(() => this.requireCurrentGuardedTarget(), msg.index);
+                break;
+
+            case 'changes/stashBranch':
+                await this.createBranchFromStash(currentRuntimeWorktree(), msg.index);
                 break;
-            }
 
             case 'changes/getStashFiles': {
                 const files = await currentRuntimeWorktree().getStashFiles(stashRef(msg.index));
@@ -615,6 +665,7 @@ export class ChangesMessageRouter {
             case 'changes/submoduleStashPop':
             case 'changes/submoduleStashApply':
             case 'changes/submoduleStashDrop':
+            case 'changes/submoduleStashBranch':
             case 'changes/getSubmoduleStashFiles':
             case 'changes/openSubmoduleStashDiff': {
                 const submodulePath = await this.requireKnownSubmodulePath(msg.submodulePath);
@@ -639,14 +690,12 @@ export class ChangesMessageRouter {
                         await runtimeSubmoduleWorktree().applyStash(stashRef(msg.index), {});
                         await this.refreshAfterRepositoryUpdate();
                         break;
-                    case 'changes/submoduleStashDrop': {
-                        const choice = await showModalWarningMessage('Drop this submodule stash entry? This cannot be undone.', 'Drop');
-                        if (choice === 'Drop') {
-                            await runtimeSubmoduleWorktree().dropStash(stashRef(msg.index));
-                            await this.refreshAfterRepositoryUpdate();
-                        }
+                    case 'changes/submoduleStashDrop':
+                        await this.requestDropStash(() => this.requireSubmoduleGuardedTarget(submodulePath), msg.index);
+                        break;
+                    case 'changes/submoduleStashBranch':
+                        await this.createBranchFromStash(runtimeSubmoduleWorktree(), msg.index);
                         break;
-                    }
                     case 'changes/getSubmoduleStashFiles': {
                         const files = await runtimeSubmoduleWorktree().getStashFiles(stashRef(msg.index));
                         this.postMessage({
@@ -706,20 +755,19 @@ export class ChangesMessageRouter {
 
             case 'changes/submoduleDiscardAll': {
                 const submodulePath = await this.requireKnownSubmodulePath(msg.submodulePath);
-                const confirmed = await confirmTypedPhrase(
-                    `Discard all changes inside "${submodulePath}"? This cannot be undone.`,
-                    'DISCARD ALL',
+                await this.requestGuardedOperation(
+                    () => this.requireSubmoduleGuardedTarget(submodulePath),
+                    { title: `Discard All Changes in ${submodulePath}`, confirmLabel: 'Discard All' },
+                    async (target) => this.destructivePlans.discardAll(target, await target.worktree.getStatus()),
+                    async ({ worktree }) => {
+                        const status = await worktree.getStatus();
+                        const stagedPaths = status.staged.map((entry) => entry.filePath);
+                        if (stagedPaths.length > 0) { await worktree.unstage(stagedPaths); }
+                        for (const entry of status.unstaged) {
+                            await discardRuntimeFile(worktree, entry.filePath);
+                        }
+                    },
                 );
-                if (confirmed) {
-                    const runtimeSubmoduleWorktree = this.requireRuntimeSubmoduleWorktree(submodulePath);
-                    const status = await runtimeSubmoduleWorktree.getStatus();
-                    const stagedPaths = status.staged.map((entry) => entry.filePath);
-                    if (stagedPaths.length > 0) { await runtimeSubmoduleWorktree.unstage(stagedPaths); }
-                    for (const entry of status.unstaged) {
-                        await discardRuntimeFile(runtimeSubmoduleWorktree, entry.filePath);
-                    }
-                    await this.refreshAfterRepositoryUpdate();
-                }
                 break;
             }
 
@@ -754,6 +802,7 @@ export class ChangesMessageRouter {
                         unstaged: status.unstaged.map(toStatusEntry),
                         conflicts: status.conflicts.map(toStatusEntry),
                         conflictState: toProtocolConflictState(status.conflictState),
+                        ...(status.sequencerRemaining !== undefined ? { sequencerRemaining: status.sequencerRemaining } : {}),
                         stashes: stashPage.items,
                     },
                 });
@@ -761,45 +810,67 @@ export class ChangesMessageRouter {
                 break;
             }
 
+            case 'changes/getIgnoredFiles': {
+                const worktree = msg.submodulePath
+                    ? this.requireRuntimeSubmoduleWorktree(await this.requireKnownSubmodulePath(msg.submodulePath))
+                    : currentRuntimeWorktree();
+                const page = await worktree.getIgnoredFiles({
+                    limit: msg.limit,
+                    ...(msg.offset > 0 ? { encodedCursor: String(msg.offset) } : {}),
+                });
+                this.postMessage({
+                    type: 'changes/ignoredFiles',
+                    requestId: msg.requestId,
+                    ...(msg.submodulePath ? { submodulePath: msg.submodulePath } : {}),
+                    offset: msg.offset,
+                    filePaths: page.items,
+                    hasMore: page.hasMore,
+                });
+                break;
+            }
+
             case 'changes/continueOp':
-                if (msg.conflictState === ConflictState.Merge) {
-                    await currentRuntimeWorktree().continueMerge();
-                } else {
-                    await currentRuntimeWorktree().continueRebase();
-                }
+                await continueOperation(currentRuntimeWorktree(), msg.conflictState);
                 await this.refreshAfterRepositoryUpdate();
                 break;
 
-            case 'changes/abortOp': {
-                if (msg.conflictState === ConflictState.Merge) {
-                    await currentRuntimeWorktree().abortMerge();
-                } else {
-                    await currentRuntimeWorktree().abortRebase();
-                }
+            case 'changes/abortOp':
+                await abortOperation(currentRuntimeWorktree(), msg.conflictState);
+                await this.refreshAfterRepositoryUpdate();
+                break;
+
+            case 'changes/skipOp':
+                await skipOperation(currentRuntimeWorktree(), msg.conflictState);
+                await this.refreshAfterRepositoryUpdate();
+                break;
+
+            case 'changes/bisectCommand': {
+                // The view provider opens the panel because it owns the extension URI.
+                if (msg.command === 'openPanel') { break; }
+                const worktree = currentRuntimeWorktree();
+                if (!await runBisectCommand(worktree, msg.command)) { break; }
                 await this.refreshAfterRepositoryUpdate();
+                await refreshBisectPanel(worktree.path);
                 break;
             }
 
             case 'changes/submoduleContinueOp': {
                 const submodulePath = await this.requireKnownSubmodulePath(msg.submodulePath);
-                const runtimeSubmoduleWorktree = this.requireRuntimeSubmoduleWorktree(submodulePath);
-                if (msg.conflictState === ConflictState.Merge) {
-                    await runtimeSubmoduleWorktree.continueMerge();
-                } else {
-                    await runtimeSubmoduleWorktree.continueRebase();
-                }
+                await continueOperation(this.requireRuntimeSubmoduleWorktree(submodulePath), msg.conflictState);
                 await this.refreshAfterRepositoryUpdate();
                 break;
             }
 
             case 'changes/submoduleAbortOp': {
                 const submodulePath = await this.requireKnownSubmodulePath(msg.submodulePath);
-                const runtimeSubmoduleWorktree = this.requireRuntimeSubmoduleWorktree(submodulePath);
-                if (msg.conflictState === ConflictState.Merge) {
-                    await runtimeSubmoduleWorktree.abortMerge();
-                } else {
-                    await runtimeSubmoduleWorktree.abortRebase();
-                }
+                await abortOperation(this.requireRuntimeSubmoduleWorktree(submodulePath), msg.conflictState);
+                await this.refreshAfterRepositoryUpdate();
+                break;
+            }
+
+            case 'changes/submoduleSkipOp': {
+                const submodulePath = await this.requireKnownSubmodulePath(msg.submodulePath);
+                await skipOperation(this.requireRuntimeSubmoduleWorktree(submodulePath), msg.conflictState);
                 await this.refreshAfterRepositoryUpdate();
                 break;
             }
@@ -853,6 +924,14 @@ export class ChangesMessageRouter {
         return requireRuntimeLocator(this.runtimeRepositories, this.repositories.currentContext).repository();
     }
 
+    private requireCurrentGuardedTarget(): GuardedOperationTarget {
+        return { repository: this.requireCurrentRuntimeRepository(), worktree: this.requireCurrentRuntimeWorktree() };
+    }
+
+    private requireSubmoduleGuardedTarget(submodulePath: string): GuardedOperationTarget {
+        return { repository: this.requireRuntimeSubmoduleRepository(submodulePath), worktree: this.requireRuntimeSubmoduleWorktree(submodulePath) };
+    }
+
     private requireCurrentRepoRoot(): string {
         const context = this.repositories.currentContext;
         if (!context) { throw new Error('Runtime repository context is required for this operation.'); }
@@ -909,13 +988,19 @@ export class ChangesMessageRouter {
             if (!runtimeWorktree) { throw new Error('Runtime Worktree is required for this git operation.'); }
             return runtimeWorktree;
         };
+        const guardedTarget = canUseCurrentRuntime
+            ? () => this.requireCurrentGuardedTarget()
+            : () => ({ repository: requireRuntimeRepository(), worktree: requireRuntimeWorktree() });
+        // Undo acts on the selected repository, so only its own pulls, merges, and rebases offer it.
+        const undoable = canUseCurrentRuntime;
         switch (command) {
             case 'pull':
                 await this.runTrackedToolbarOperation(command, () =>
-                    this.runRepositoryMutationWithConflictNotice(requireRuntimeWorktree(), () => requireRuntimeWorktree().pull({}), 'Pull stopped with conflicts.'));
+                    this.runRepositoryMutationWithConflictNotice(requireRuntimeWorktree(), () => requireRuntimeWorktree().pull({}), 'Pull stopped with conflicts.'), undoable);
                 return;
             case 'push':
                 await this.runTrackedToolbarOperation(command, async () => {
+                    if (!await confirmWorktreeOutgoingCommitMessages(requireRuntimeRepository(), requireRuntimeWorktree())) { return undefined; }
                     return this.completePush(await requireRuntimeWorktree().push(undefined, {}));
                 });
                 return;
@@ -935,16 +1020,35 @@ export class ChangesMessageRouter {
                     return undefined;
                 });
                 return;
+            case 'fetchLfsObjects':
+                await this.runTrackedToolbarOperation(command, async () => {
+                    await fetchLfsObjects(requireRuntimeRepository());
+                    return undefined;
+                });
+                return;
+            case 'fetchNotes':
+                await this.runTrackedToolbarOperation(command, async () => {
+                    await fetchNotes(requireRuntimeRepository());
+                    return undefined;
+                });
+                return;
+            case 'pushNotes':
+                await this.runTrackedToolbarOperation(command, async () => {
+                    await pushNotes(requireRuntimeRepository());
+                    return undefined;
+                });
+                return;
             case 'sync':
                 await this.runTrackedToolbarOperation(command, () =>
                     this.runRepositoryMutationWithConflictNotice(requireRuntimeWorktree(), async () => {
                         await requireRuntimeWorktree().pull({ rebase: true });
+                        if (!await confirmWorktreeOutgoingCommitMessages(requireRuntimeRepository(), requireRuntimeWorktree())) { return undefined; }
                         return requireRuntimeWorktree().push(undefined, {});
                     }, 'Sync stopped with conflicts.'));
                 return;
             case 'pullRebase':
                 await this.runTrackedToolbarOperation(command, () =>
-                    this.runRepositoryMutationWithConflictNotice(requireRuntimeWorktree(), () => requireRuntimeWorktree().pull({ rebase: true }), 'Pull with rebase stopped with conflicts.'));
+                    this.runRepositoryMutationWithConflictNotice(requireRuntimeWorktree(), () => requireRuntimeWorktree().pull({ rebase: true }), 'Pull with rebase stopped with conflicts.'), undoable);
                 return;
             case 'pullFrom':
                 await this.runTrackedToolbarOperation(command, () =>
@@ -954,10 +1058,11 @@ export class ChangesMessageRouter {
                         const parsed = requireRemoteBranchName(ref);
                         await requireRuntimeRepository().fetch(parsed.remote, {});
                         await requireRuntimeWorktree().merge(ref, {});
-                    }, 'Pull from remote stopped with conflicts.'));
+                    }, 'Pull from remote stopped with conflicts.'), undoable);
                 return;
             case 'pushForce':
                 await this.runTrackedToolbarOperation(command, async () => {
+                    if (!await confirmWorktreeOutgoingCommitMessages(requireRuntimeRepository(), requireRuntimeWorktree())) { return undefined; }
                     await requireRuntimeWorktree().push(undefined, { forceWithLease: true });
                     await this.refreshAfterRepositoryUpdate();
                     return undefined;
@@ -969,22 +1074,28 @@ export class ChangesMessageRouter {
                     if (!branch || branch === 'HEAD') { throw new Error('No local branch is checked out.'); }
                     const remote = await pickRemote('Push branch to remote', requireRuntimeRepository());
                     if (!remote) { return undefined; }
+                    if (!await confirmOutgoingCommitMessages(requireRuntimeRepository(), requireRuntimeWorktree().path, branch)) { return undefined; }
                     await requireRuntimeWorktree().pushBranch(remote, branch, {});
                     await this.refreshAfterRepositoryUpdate();
                     return undefined;
                 });
                 return;
-            case 'pushToForce':
-                await this.runTrackedToolbarOperation(command, async () => {
-                    const branch = await currentLocalBranchName(requireRuntimeRepository());
-                    if (!branch || branch === 'HEAD') { throw new Error('No local branch is checked out.'); }
-                    const remote = await pickRemote('Force push branch to remote', requireRuntimeRepository());
-                    if (!remote) { return undefined; }
-                    await requireRuntimeWorktree().pushBranch(remote, branch, { forceWithLease: true });
-                    await this.refreshAfterRepositoryUpdate();
-                    return undefined;
-                });
+            case 'pushToForce': {
+                const branch = await currentLocalBranchName(requireRuntimeRepository());
+                if (!branch || branch === 'HEAD') { throw new Error('No local branch is checked out.'); }
+                const remote = await pickRemote('Force push branch to remote', requireRuntimeRepository());
+                if (!remote) { return; }
+                await this.requestGuardedOperation(
+                    guardedTarget,
+                    { title: `Force Push ${branch} to ${remote}`, confirmLabel: 'Force Push' },
+                    (target) => this.destructivePlans.forcePushWithLease(target, branch, `${remote}/${branch}`),
+                    ({ worktree }) => this.runTrackedToolbarOperation(command, async () => {
+                        await worktree.pushBranch(remote, branch, { forceWithLease: true });
+                        return undefined;
+                    }),
+                );
                 return;
+            }
             case 'fetchPrune':
                 await this.runTrackedToolbarOperation(command, async () => {
                     const remote = await pickRemote('Fetch and prune remote', requireRuntimeRepository());
@@ -1025,14 +1136,14 @@ export class ChangesMessageRouter {
                 if (!options) { return; }
                 const worktree = requireRuntimeWorktree();
                 await this.runTrackedToolbarOperation(command, () =>
-                    this.runRepositoryMutationWithConflictNotice(worktree, () => worktree.merge(branch, options), 'Merge stopped with conflicts.'));
+                    this.runRepositoryMutationWithConflictNotice(worktree, () => worktree.merge(branch, options), 'Merge stopped with conflicts.'), undoable);
                 return;
             }
             case 'rebaseBranch': {
                 const branch = await pickBranch('Rebase current branch onto', requireRuntimeRepository());
                 if (!branch) { return; }
                 await this.runTrackedToolbarOperation(command, () =>
-                    this.runRepositoryMutationWithConflictNotice(requireRuntimeWorktree(), () => requireRuntimeWorktree().rebase(branch, undefined, {}), 'Rebase stopped with conflicts.'));
+                    this.runRepositoryMutationWithConflictNotice(requireRuntimeWorktree(), () => requireRuntimeWorktree().rebase(branch, undefined, {}), 'Rebase stopped with conflicts.'), undoable);
                 return;
             }
             case 'createBranch': {
@@ -1153,19 +1264,17 @@ export class ChangesMessageRouter {
             case 'dropStash': {
                 const index = await pickStash('Drop stash', requireRuntimeWorktree());
                 if (index === undefined) { return; }
-                const choice = await showModalWarningMessage(`Drop stash@{${index}}? This cannot be undone.`, 'Drop');
-                if (choice !== 'Drop') { return; }
-                await requireRuntimeWorktree().dropStash(stashRef(index));
-                await this.refreshAfterRepositoryUpdate();
+                await this.requestDropStash(guardedTarget, index);
                 return;
             }
-            case 'dropAllStashes': {
-                const confirmed = await confirmTypedPhrase('Drop all stashes? This cannot be undone.', 'DROP ALL STASHES');
-                if (!confirmed) { return; }
-                await requireRuntimeWorktree().clearStashes();
-                await this.refreshAfterRepositoryUpdate();
+            case 'dropAllStashes':
+                await this.requestGuardedOperation(
+                    guardedTarget,
+                    { title: 'Drop All Stashes', confirmLabel: 'Drop All' },
+                    (target) => this.destructivePlans.clearStashes(target),
+                    ({ worktree }) => worktree.clearStashes(),
+                );
                 return;
-            }
             case 'viewStash': {
                 const index = await pickStash('View stash', requireRuntimeWorktree());
                 if (index === undefined) { return; }
@@ -1178,10 +1287,23 @@ export class ChangesMessageRouter {
                 await vscode.window.showTextDocument(document);
                 return;
             }
+            case 'branchFromStash': {
+                const index = await pickStash('Create branch from stash', requireRuntimeWorktree());
+                if (index === undefined) { return; }
+                await this.createBranchFromStash(requireRuntimeWorktree(), index);
+                return;
+            }
             case 'createTag': {
                 const tag = await inputText('Create tag');
                 if (!tag) { return; }
-                await requireRuntimeRepository().createTag(tag, 'HEAD', undefined);
+                const repository = requireRuntimeRepository();
+                if (!(await repository.getSigningConfig()).signTags) {
+                    await repository.createTag(tag, 'HEAD', undefined, {});
+                } else {
+                    const message = await inputText(`Message for signed tag "${tag}"`);
+                    if (!message) { return; }
+                    await repository.createTag(tag, 'HEAD', message, { sign: true });
+                }
                 await this.refreshAfterRepositoryUpdate();
                 return;
             }
@@ -1208,6 +1330,9 @@ export class ChangesMessageRouter {
                 });
                 return;
             }
+            case 'showRepositoryInfo':
+                await showRepositoryInfo(requireRuntimeRepository());
+                return;
             case 'pushTags': {
                 await this.runTrackedToolbarOperation(command, async () => {
                     const remote = await pickRemote('Push tags to remote', requireRuntimeRepository());
@@ -1248,9 +1373,101 @@ export class ChangesMessageRouter {
         await openRuntimeThreeWayMergeEditor(worktree, conflict.filePath);
     }
 
+    /**
+     * Commits for the composer of the repository or of the submodule at `submodulePath`, then pushes or syncs as
+     * `mode` asks. The result goes back as a commit result; when a hook failed, it carries the request for a retry.
+     * Messages the worktree's rules block are refused here too, whatever the webview let through.
+     */
+    private async commitFromComposer(
+        { repository, worktree }: GuardedOperationTarget,
+        submodulePath: string | undefined,
+        request: CommitRequest,
+        hookOptions: CommitOptions,
+        operation: string,
+    ): Promise<void> {
+        const blocked = await blockedCommitMessageReason(worktree.path, request.message);
+        if (blocked) {
+            const failure = {
+                success: false,
+                ...createErrorPayload(new Error(blocked), { code: 'validationFailed', operation, recoverable: true }),
+            };
+            this.postMessage(submodulePath
+                ? { type: 'changes/submoduleCommitResult', path: submodulePath, ...failure }
+                : { type: 'changes/commitResult', ...failure });
+            return;
+        }
+        const options = request.sign === undefined ? hookOptions : { ...hookOptions, sign: request.sign };
+        try {
+            switch (request.mode) {
+                case CommitMode.Amend:
+                    await worktree.amendCommit(request.message, options);
+                    break;
+                case CommitMode.CommitPush:
+                    await worktree.commit(request.message, options);
+                    if (await confirmWorktreeOutgoingCommitMessages(repository, worktree)) {
+                        await worktree.push(undefined, {});
+                    }
+                    break;
+                case CommitMode.CommitSync:
+                    await worktree.commit(request.message, options);
+                    await worktree.pull({ rebase: true });
+                    if (await confirmWorktreeOutgoingCommitMessages(repository, worktree)) {
+                        await worktree.push(undefined, {});
+                    }
+                    break;
+                default:
+                    await worktree.commit(request.message, options);
+                    break;
+            }
+            this.postMessage(submodulePath
+                ? { type: 'changes/submoduleCommitResult', path: submodulePath, success: true }
+                : { type: 'changes/commitResult', success: true });
+            await vscode.window.showInformationMessage(submodulePath ? `Committed ${submodulePath} successfully.` : 'Committed successfully.');
+        } catch (error) {
+            const payload = createErrorPayload(error, { code: 'gitOperationFailed', operation, recoverable: true });
+            const failure = { success: false, ...payload, ...(payload.error.hookFailure ? { request } : {}) };
+            this.postMessage(submodulePath
+                ? { type: 'changes/submoduleCommitResult', path: submodulePath, ...failure }
+                : { type: 'changes/commitResult', ...failure });
+        }
+        await this.refreshAfterRepositoryUpdate();
+    }
+
+    /**
+     * Sends the plan for a destructive action to the webview. The action runs from `changes/acknowledgeOperationPlan`,
+     * against the targets resolved again at that point.
+     */
+    private async requestGuardedOperation(
+        resolveTarget: () => GuardedOperationTarget,
+        prompt: { readonly title: string; readonly confirmLabel: string },
+        plan: (target: GuardedOperationTarget) => Promise<OperationPlanDraft>,
+        execute: (target: GuardedOperationTarget) => Promise<void>,
+    ): Promise<void> {
+        const operationPlan = await this.guardedOperations.prepare({
+            ...prompt,
+            context: () => guardValidationContext(resolveTarget()),
+            plan: () => plan(resolveTarget()),
+            execute: async () => {
+                await execute(resolveTarget());
+                await this.refreshAfterRepositoryUpdate();
+            },
+        });
+        this.postMessage({ type: 'changes/operationPlan', plan: operationPlan });
+    }
+
+    private async requestDropStash(resolveTarget: () => GuardedOperationTarget, index: number): Promise<void> {
+        await this.requestGuardedOperation(
+            resolveTarget,
+            { title: `Drop stash@{${index}}`, confirmLabel: 'Drop' },
+            (target) => this.destructivePlans.dropStash(target, index),
+            ({ worktree }) => worktree.dropStash(stashRef(index)),
+        );
+    }
+
     private async runTrackedToolbarOperation(
         command: ChangesToolbarCommand,
         operation: () => Promise<OperationStatus | undefined>,
+        undoable = false,
     ): Promise<void> {
         const operationId = this.nextOperationId();
         this.postChangesOperation({
@@ -1259,11 +1476,12 @@ export class ChangesMessageRouter {
             command,
         });
         try {
-            const status = await operation();
+            const status = (await operation()) ?? OperationStatus.Success;
             this.postChangesOperation({
                 operationId,
-                status: status ?? OperationStatus.Success,
+                status,
                 command,
+                ...(undoable ? { actions: undoableOperationActions(status) } : {}),
             });
         } catch (error) {
             this.postChangesOperation({
@@ -1340,6 +1558,14 @@ export class ChangesMessageRouter {
         return true;
     }
 
+    /** `git stash branch` checks the branch out at the stash's base commit, so the stash applies without conflicts. */
+    private async createBranchFromStash(worktree: Worktree, index: number): Promise<void> {
+        const branch = await inputBranchName(`New branch for stash@{${index}}`);
+        if (!branch) { return; }
+        await worktree.branchFromStash(stashRef(index), branch);
+        await this.refreshAfterRepositoryUpdate();
+    }
+
     private async refreshAfterRepositoryUpdate(): Promise<void> {
         await this.onRepositoryUpdated();
     }
@@ -1404,10 +1630,26 @@ async function updateChangesViewContexts(viewMode: ChangesViewPreference, sortMo
     }
 }
 
+function partialChangeCommand(command: ChangeHunkCommand): PartialChangeCommand {
+    switch (command) {
+        case 'stage': return PartialChangeCommand.Stage;
+        case 'unstage': return PartialChangeCommand.Unstage;
+        case 'discard': return PartialChangeCommand.Discard;
+    }
+}
+
+function commitRequest(message: string, { mode, sign }: Pick<CommitRequest, 'mode' | 'sign'>): CommitRequest {
+    return { message, mode, ...(sign !== undefined ? { sign } : {}) };
+}
+
 function requestIdOf(msg: ChangesWebviewToExtensionMessage): RequestId | undefined {
     return 'requestId' in msg ? msg.requestId : undefined;
 }
 
+function guardValidationContext(target: GuardedOperationTarget): GuardValidationContext {
+    return { repositoryId: target.repository.repoId, worktreeId: target.worktree.worktreeId };
+}
+
 function errorCodeFor(msg: ChangesWebviewToExtensionMessage): ErrorCode {
     switch (msg.type) {
         case 'changes/openFile':
@@ -1573,11 +1815,17 @@ async function gitContent(
     ref: string,
     runtimeTargets?: DiffRuntimeTargets,
 ): Promise<string> {
-    if (ref === ':' && runtimeTargets?.worktree) {
-        return runtimeTargets.worktree.getFileFromIndex(filePath);
+    const worktree = runtimeTargets?.worktree;
+    const repository = runtimeTargets?.repository;
+    if (ref === ':' && worktree) {
+        return lfsBlobContent(await worktree.getFileFromIndex(filePath), () => worktree.getLfsFileFromIndex(filePath), repository?.gitDir);
     }
-    if (ref !== ':' && runtimeTargets?.repository) {
-        return runtimeTargets.repository.getFileAtRevision(filePath, ref);
+    if (ref !== ':' && repository) {
+        return lfsBlobContent(
+            await repository.getFileAtRevision(filePath, ref),
+            () => repository.getLfsFileAtRevision(filePath, ref),
+            repository.gitDir,
+        );
     }
     throw new Error(`Runtime ${ref === ':' ? 'Worktree' : 'GitRepository'} is required to read "${filePath}".`);
 }
@@ -1608,6 +1856,45 @@ function documentExtension(filePath: string): string {
     return extension || 'txt';
 }
 
+async function continueOperation(worktree: Worktree, conflictState: ConflictState): Promise<void> {
+    switch (conflictState) {
+        case ConflictState.Merge:
+            return worktree.continueMerge();
+        case ConflictState.CherryPick:
+            return worktree.continueCherryPick();
+        case ConflictState.Revert:
+            return worktree.continueRevert();
+        default:
+            return worktree.continueRebase();
+    }
+}
+
+async function abortOperation(worktree: Worktree, conflictState: ConflictState): Promise<void> {
+    switch (conflictState) {
+        case ConflictState.Merge:
+            return worktree.abortMerge();
+        case ConflictState.CherryPick:
+            return worktree.abortCherryPick();
+        case ConflictState.Revert:
+            return worktree.abortRevert();
+        default:
+            return worktree.abortRebase();
+    }
+}
+
+async function skipOperation(worktree: Worktree, conflictState: ConflictState): Promise<void> {
+    switch (conflictState) {
+        case ConflictState.CherryPick:
+            return worktree.skipCherryPick();
+        case ConflictState.Revert:
+            return worktree.skipRevert();
+        case ConflictState.Rebase:
+            return worktree.skipRebase();
+        default:
+            throw new Error('Only a rebase, cherry-pick, or revert can skip the current commit.');
+    }
+}
+
 async function discardRuntimeFile(worktree: Worktree, filePath: string): Promise<void> {
     try {
         await worktree.discard([filePath]);
@@ -1623,6 +1910,7 @@ function toStatusEntry(entry: GitStatusEntry): StatusEntry {
         filePath: entry.filePath,
         origPath: entry.origPath,
         isSubmodule: entry.isSubmodule,
+        isLfs: entry.isLfs,
     };
 }
 
@@ -1647,6 +1935,7 @@ export function buildStatusData(
     stashes: readonly GitStash[],
     submodules: readonly GitSubmodule[] = [],
     currentBranch?: string,
+    bisect?: GitBisectState,
 ): { type: 'changes/statusData'; data: StatusData } {
     const dirtySubmodulePaths = new Set(
         [...status.staged, ...status.unstaged, ...status.conflicts]
@@ -1667,6 +1956,7 @@ export function buildStatusData(
         origPath: e.origPath,
         isSubmodule: e.isSubmodule,
         submoduleStatus: e.isSubmodule ? submoduleStatusByPath.get(e.filePath) : undefined,
+        isLfs: e.isLfs,
     });
 
     return {
@@ -1678,12 +1968,14 @@ export function buildStatusData(
             unstaged: status.unstaged.map(toEntry),
             conflicts: status.conflicts.map(toEntry),
             conflictState: toProtocolConflictState(status.conflictState),
+            ...(status.sequencerRemaining !== undefined ? { sequencerRemaining: status.sequencerRemaining } : {}),
             stashes: stashes.map((s) => ({ index: s.index, message: s.message })),
             submodules: submodules.map((s) => ({
                 path: s.path,
                 name: s.path.split('/').pop() ?? s.path,
                 status: submoduleStatusByPath.get(s.path) ?? toProtocolSubmoduleStatus(s.status),
             })),
+            ...(bisect ? { bisect: toProtocolBisectStatus(bisect) } : {}),
         },
     };
 }
@@ -1703,10 +1995,12 @@ export function emptyStatusData(): { type: 'changes/statusData'; data: StatusDat
     };
 }
 
-function toProtocolConflictState(state: 'none' | 'merge' | 'rebase'): ConflictState {
+function toProtocolConflictState(state: GitStatus['conflictState']): ConflictState {
     switch (state) {
         case 'merge': return ConflictState.Merge;
         case 'rebase': return ConflictState.Rebase;
+        case 'cherryPick': return ConflictState.CherryPick;
+        case 'revert': return ConflictState.Revert;
         default: return ConflictState.None;
     }
 }
@@ -21,6 +21,11 @@ export function appendErrorToOutput(error: ProtocolError, fallbackOperation: str
     output.appendLine('');
 }
 
+/** Appends raw command output, e.g. streamed `git bisect run` progress, without the error framing. */
+export function appendTextToOutput(text: string): void {
+    getChannel().append(text);
+}
+
 export function showErrorOutput(): void {
     getChannel().show();
 }
@@ -1,4 +1,5 @@
 import type { ErrorCode, ProtocolError } from '@protocol/shared/base';
+import { gitHookFailure } from '@extension/git/git-error';
 
 export interface ErrorSerializationOptions {
     readonly code?: ErrorCode;
@@ -19,12 +20,14 @@ export function isAbortError(error: unknown): boolean {
 export function serializeProtocolError(error: unknown, options: ErrorSerializationOptions = {}): ProtocolError {
     const code = options.code ?? inferErrorCode(error);
     const details = options.details ?? inferDetails(error);
+    const hookFailure = gitHookFailure(error);
     return {
         code,
-        message: inferMessage(error),
+        message: hookFailure ? `The ${hookFailure.hook} hook failed.` : inferMessage(error),
         operation: options.operation,
         recoverable: options.recoverable ?? code !== 'cancelled',
         details,
+        ...(hookFailure ? { hookFailure } : {}),
     };
 }
 
@@ -1,5 +1,6 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
+import { randomUUID } from 'crypto';
 import {
     GraphOperationCategory,
     GraphOperationStatus,
@@ -9,6 +10,7 @@ import {
     type GraphDataRequest,
     type CommitDetailsResponse,
     type WorktreeDetailsResponse,
+    type StashDetailsResponse,
     type BranchDetailsResponse,
     type OpenWorktreeDiffRequest,
     type GraphOperationStatusPush,
@@ -24,17 +26,32 @@ import { GitPushOutcome } from '@application/ports/git-capabilities';
 import { GetGraphDataUseCase, type GraphDataResult, type GraphWorktreeWip } from '@application/usecases/graph/get-graph-data';
 import { GetCommitDetailsUseCase } from '@application/usecases/graph/get-commit-details';
 import { GetWorktreeDetailsUseCase } from '@application/usecases/graph/get-worktree-details';
+import { GetStashDetailsUseCase } from '@application/usecases/graph/get-stash-details';
 import { GetBranchDetailsUseCase } from '@application/usecases/graph/get-branch-details';
+import type { ResolveRemoteWebRepositoryUseCase } from '@application/usecases/remotes/resolve-remote-web-repository';
+import type { GitRemoteWebRepository } from '@core/git/domain/git-remote-hosting';
+import { commitMessageLinks, remoteCommitUrl } from '@core/git/remote-hosting';
+import { defaultResolveRemoteWebRepository } from '@extension/adapters/vscode/default-resolve-remote-web-repository';
 import type { RepositoryContextAccessor } from '@extension/repositories/repository-selection-store';
-import { toProtocolBranch, toProtocolGraphCommit, toProtocolGraphSubmodule, toProtocolWorktree } from '@extension/mapping/to-protocol';
+import { toProtocolBisectStatus, toProtocolBranch, toProtocolGraphCommit, toProtocolGraphStash, toProtocolGraphSubmodule, toProtocolRebaseBackup, toProtocolTag, toProtocolWorktree } from '@extension/mapping/to-protocol';
+import { GuardedOperationCoordinator, type GuardedOperation } from '@extension/operations/guarded-operation-coordinator';
 import { runCommitCommand } from '@extension/commands/commit-commands';
 import { runBranchCommand } from '@extension/commands/branch-commands';
 import { runWorktreeCommand } from '@extension/commands/worktree-commands';
-import { requireRuntimeRepository, requireRuntimeWorktree, type RuntimeCommandTargets } from '@extension/commands/runtime-command-targets';
-import { operationActionsForStatus } from '@extension/utils/operation-feedback';
+import { runBisectCommand } from '@extension/commands/bisect-commands';
+import { runRebaseBackupCommand } from '@extension/commands/rebase-backup-commands';
+import { runTagCommand } from '@extension/commands/tag-commands';
+import { runStashCommand } from '@extension/commands/stash-commands';
+import type { BlameRevisionTarget } from '@extension/commands/git-blame-annotations-command';
+import { UNDO_LAST_OPERATION_COMMAND } from '@extension/commands/undo-commands';
+import { openRemoteUrl } from '@extension/commands/remote-link-commands';
+import { requireRuntimeRepository, requireRuntimeTargets, requireRuntimeWorktree, type RuntimeCommandTargets } from '@extension/commands/runtime-command-targets';
+import { operationActionsForStatus, undoableOperationActions } from '@extension/utils/operation-feedback';
+import { openReflogPanel } from '@extension/utils/reflog-panel';
+import { openBisectPanel, refreshBisectPanel } from '@extension/utils/bisect-panel';
 import { openCommitGitlinkDiff, openWorktreeGitlinkDiff } from '@extension/utils/gitlink-diff';
 import { emptyDiffUri } from '@extension/utils/diff-uris';
-import { gitBlobUri } from '@extension/utils/git-blob-documents';
+import { gitBlobUri, lfsBlobContent } from '@extension/utils/git-blob-documents';
 import { createErrorPayload, isAbortError } from '@extension/messaging/error-serialization';
 import { appendErrorToOutput, showErrorOutput } from '@extension/messaging/error-output-channel';
 import type { RepositoryRegistry } from '@extension/repositories/repository-registry';
@@ -55,6 +72,7 @@ const ACTIVE_REPOSITORY_KEY = 'active';
 const NO_REPOSITORY_ID = '';
 const GRAPH_REFRESH_OFFSET = 0;
 const GRAPH_REFRESH_LIMIT = 300;
+const SHOW_BLAME_AT_REVISION_COMMAND = 'lookGit.blame.showAtRevision';
 
 interface BranchFilterInvalidation {
     readonly branch: string;
@@ -66,6 +84,8 @@ type LastGraphDataRequest = Pick<GraphDataRequest, 'repoId' | 'repository' | 'fi
 export class GraphMessageRouter {
     private readonly pending = new Map<string, AbortController>();
     private readonly graphDataPoster: DistinctMessagePoster<GraphExtensionToWebviewMessage, GraphData>;
+    private readonly getStashDetails = new GetStashDetailsUseCase();
+    private readonly guardedOperations = new GuardedOperationCoordinator();
     private lastGraphDataRequest: LastGraphDataRequest | undefined;
     private operationSequence = 0;
 
@@ -80,6 +100,7 @@ export class GraphMessageRouter {
         private readonly storageUri?: vscode.Uri,
         private readonly runtimeRepositories?: RepositoryRegistry,
         private readonly getBranchDetails = new GetBranchDetailsUseCase(),
+        private readonly resolveRemoteWebRepository: ResolveRemoteWebRepositoryUseCase = defaultResolveRemoteWebRepository,
     ) {
         this.graphDataPoster = new DistinctMessagePoster(postMessage, graphDataEqual, DISTINCT_MESSAGE_LAST_VALUE_ONLY);
     }
@@ -172,6 +193,22 @@ export class GraphMessageRouter {
                 showErrorOutput();
                 break;
 
+            case 'graph/undoLastOperation':
+                await vscode.commands.executeCommand(UNDO_LAST_OPERATION_COMMAND);
+                break;
+
+            case 'graph/openRemoteLink':
+                await openRemoteUrl(msg.url);
+                break;
+
+            case 'graph/acknowledgeOperationPlan':
+                await this.guardedOperations.acknowledge(msg.acknowledgement);
+                break;
+
+            case 'graph/cancelOperationPlan':
+                this.guardedOperations.cancel(msg.planId);
+                break;
+
             case 'graph/dataRequest': {
                 const repoId = this.repoIdForRequest(msg.repoId);
                 const key = graphRequestKey(repoId, msg.repository, 'replace');
@@ -210,26 +247,9 @@ export class GraphMessageRouter {
                 break;
             }
 
-            case 'graph/commitDetailsRequest': {
-                const runtimeRepo = this.runtimeTargetsForRepository(msg.repository).repository;
-                if (!runtimeRepo) { throw new Error('No runtime repository available.'); }
-                const details = await this.getCommitDetails.execute(runtimeRepo, msg.hash);
-                const response: CommitDetailsResponse = {
-                    type: 'graph/commitDetailsResponse',
-                    requestId: msg.requestId,
-                    hash: details.hash,
-                    fullMessage: details.fullMessage,
-                    files: details.files.map((file) => ({
-                        status: file.status,
-                        filePath: file.filePath,
-                        origPath: file.origPath,
-                        parentHash: file.parentHash,
-                        ...(file.isSubmodule ? { isSubmodule: true } : {}),
-                    })),
-                };
-                this.postMessage(response);
+            case 'graph/commitDetailsRequest':
+                await this.postCommitDetails(msg.requestId, msg.hash, msg.repository);
                 break;
-            }
 
             case 'graph/worktreeDetailsRequest': {
                 const runtimeWorktree = this.runtimeTargetsForWorktree(msg.repository, msg.worktree, msg.path).worktree;
@@ -252,6 +272,18 @@ export class GraphMessageRouter {
                 break;
             }
 
+            case 'graph/stashDetailsRequest': {
+                const details = await this.getStashDetails.execute(this.requireRuntimeRepositoryForRequest(msg.repository), msg.hash);
+                const response: StashDetailsResponse = {
+                    type: 'graph/stashDetailsResponse',
+                    requestId: msg.requestId,
+                    hash: details.hash,
+                    files: details.files,
+                };
+                this.postMessage(response);
+                break;
+            }
+
             case 'graph/branchDetailsRequest': {
                 const runtimeRepo = this.runtimeTargetsForRepository(msg.repository).repository;
                 if (!runtimeRepo) { throw new Error('No runtime repository available.'); }
@@ -299,6 +331,22 @@ export class GraphMessageRouter {
                 await this.handleCommitCommand(msg);
                 break;
 
+            case 'graph/bisectCommand':
+                await this.handleBisectCommand(msg);
+                break;
+
+            case 'graph/rebaseBackupCommand':
+                await this.handleRebaseBackupCommand(msg);
+                break;
+
+            case 'graph/tagCommand':
+                await this.handleTagCommand(msg);
+                break;
+
+            case 'graph/stashCommand':
+                await this.handleStashCommand(msg);
+                break;
+
             case 'graph/openDiff': {
                 if (msg.isSubmodule) {
                     await openCommitGitlinkDiff(this.requireRuntimeRepositoryForRequest(msg.repository), msg);
@@ -309,6 +357,16 @@ export class GraphMessageRouter {
                 break;
             }
 
+            case 'graph/openBlame': {
+                const target: BlameRevisionTarget = {
+                    repoRoot: this.requireRuntimeRepositoryForRequest(msg.repository).cwd,
+                    filePath: msg.filePath,
+                    revision: msg.commitHash,
+                };
+                await vscode.commands.executeCommand(SHOW_BLAME_AT_REVISION_COMMAND, target);
+                break;
+            }
+
             case 'graph/openWorktreeDiff': {
                 if (msg.isSubmodule) {
                     await openWorktreeGitlinkDiff(requireRuntimeWorktree(this.runtimeTargetsForWorktree(msg.repository, msg.worktree, msg.worktreePath)), msg);
@@ -403,6 +461,11 @@ export class GraphMessageRouter {
         const result = await this.getGraphData.execute(runtimeRepo, filters, { offset, limit }, signal, {
             includeSubmoduleRepositories,
             resolveWorktreeWips: (worktrees, wipSignal) => this.resolveWorktreeWips(repository, worktrees, wipSignal),
+            resolveBisectState: async (bisectSignal) => this.runtimeTargetsForRepository(repository).worktree?.getBisectState(bisectSignal),
+            resolveRemoteWebRepository: (remoteSignal) => this.resolveRemoteWebRepository.execute(runtimeRepo, undefined, remoteSignal),
+            resolveRebaseBackups: (backupSignal) => runtimeRepo.listRebaseBackups(backupSignal),
+            resolveStashes: async (stashSignal) => (await requireRuntimeWorktree(this.runtimeTargetsForRepository(repository))
+                .listStashes({ limit: Number.MAX_SAFE_INTEGER }, stashSignal)).items,
         });
         for (const warning of result.warnings) {
             this.postGraphError(warning.error, {
@@ -413,6 +476,15 @@ export class GraphMessageRouter {
         return toProtocolGraphData(result, repositoryLocatorForRuntimeRepository(runtimeRepo));
     }
 
+    /** Commit details still open when the remote cannot be read; the links are a convenience. */
+    private async remoteWebRepositoryOrUndefined(repository: GitRepository): Promise<GitRemoteWebRepository | undefined> {
+        try {
+            return await this.resolveRemoteWebRepository.execute(repository);
+        } catch {
+            return undefined;
+        }
+    }
+
     private repoIdForRequest(repoId: string | undefined): string {
         return repoId ?? this.repositories.currentContext?.id ?? NO_REPOSITORY_ID;
     }
@@ -558,6 +630,10 @@ export class GraphMessageRouter {
     }
 
     private async handleRepositoryCommand(msg: Extract<GraphWebviewToExtensionMessage, { readonly type: 'graph/repositoryCommand' }>): Promise<void> {
+        if (msg.command === 'showReflog') {
+            await this.openReflog(msg.repository);
+            return;
+        }
         const runtimeRepo = this.requireRuntimeRepositoryForRequest(msg.repository);
         switch (msg.command) {
             case 'fetch':
@@ -567,10 +643,16 @@ export class GraphMessageRouter {
         await this.refreshAfterRepositoryChange();
     }
 
+    private async openReflog(repository: RepositoryLocator | undefined): Promise<void> {
+        if (!this.extensionUri) { throw new Error('Extension URI is required to open the reflog.'); }
+        const { repository: runtimeRepo, worktree } = requireRuntimeTargets(this.runtimeTargetsForRepository(repository));
+        await openReflogPanel(runtimeRepo, worktree, this.extensionUri, () => this.refreshAfterRepositoryChange());
+    }
+
     private async handleBranchCommand(msg: Extract<GraphWebviewToExtensionMessage, { readonly type: 'graph/branchCommand' }>): Promise<GitPushOutcome | undefined> {
         const runtimeTargets = this.runtimeTargetsForRepository(msg.repository);
         const repo = requireRuntimeRepository(runtimeTargets);
-        const result = await runBranchCommand(repo, msg.command, msg.branch, msg.isRemote, undefined, runtimeTargets, this.extensionUri, this.storageUri);
+        const result = await runBranchCommand(repo, msg.command, msg.branch, msg.isRemote, undefined, runtimeTargets, this.extensionUri, this.storageUri, (operation) => this.requestGuardedOperation(operation));
         if (!result.shouldRefresh) { return result.pushOutcome; }
         // `delete` removes the branch and `rename` frees its old name; if the graph is
         // filtered to that branch, the next reload would query a now-missing ref, so the
@@ -594,8 +676,82 @@ export class GraphMessageRouter {
 
     private async handleCommitCommand(msg: Extract<GraphWebviewToExtensionMessage, { readonly type: 'graph/commitCommand' }>): Promise<void> {
         const runtimeTargets = this.runtimeTargetsForRepository(msg.repository);
-        const shouldRefresh = await runCommitCommand(requireRuntimeRepository(runtimeTargets), msg.command, msg.hash, msg.hashes, undefined, undefined, undefined, diffExplanationScopeFor(msg.repository), this.extensionUri, this.storageUri, undefined, runtimeTargets);
+        const shouldRefresh = await runCommitCommand(requireRuntimeRepository(runtimeTargets), msg.command, msg.hash, msg.hashes, undefined, undefined, undefined, diffExplanationScopeFor(msg.repository), this.extensionUri, this.storageUri, undefined, runtimeTargets, (operation) => this.requestGuardedOperation(operation));
         if (shouldRefresh) { await this.refreshAfterRepositoryChange(); }
+        // Notes leave the graph unchanged, so only the open details panel needs the new text.
+        if (msg.command === 'editNote' || msg.command === 'removeNote') { await this.postCommitDetails(randomUUID(), msg.hash, msg.repository); }
+    }
+
+    private async postCommitDetails(requestId: string, hash: string, repository: RepositoryLocator | undefined): Promise<void> {
+        const runtimeRepo = this.runtimeTargetsForRepository(repository).repository;
+        if (!runtimeRepo) { throw new Error('No runtime repository available.'); }
+        const details = await this.getCommitDetails.execute(runtimeRepo, hash);
+        const webRepository = await this.remoteWebRepositoryOrUndefined(runtimeRepo);
+        const messageLinks = commitMessageLinks(details.fullMessage, webRepository);
+        const response: CommitDetailsResponse = {
+            type: 'graph/commitDetailsResponse',
+            requestId,
+            hash: details.hash,
+            fullMessage: details.fullMessage,
+            files: details.files.map((file) => ({
+                status: file.status,
+                filePath: file.filePath,
+                origPath: file.origPath,
+                parentHash: file.parentHash,
+                ...(file.isSubmodule ? { isSubmodule: true } : {}),
+                ...(file.isLfs ? { isLfs: true } : {}),
+            })),
+            ...(webRepository ? { webUrl: remoteCommitUrl(webRepository, details.hash) } : {}),
+            ...(messageLinks.length > 0 ? { messageLinks } : {}),
+            ...(details.signature ? { signature: details.signature } : {}),
+            ...(details.notes.length > 0 ? { notes: details.notes } : {}),
+        };
+        this.postMessage(response);
+    }
+
+    private async handleBisectCommand(msg: Extract<GraphWebviewToExtensionMessage, { readonly type: 'graph/bisectCommand' }>): Promise<void> {
+        const worktree = requireRuntimeWorktree(this.runtimeTargetsForRepository(msg.repository));
+        if (msg.command === 'openPanel') {
+            if (!this.extensionUri) { throw new Error('Extension URI is required to open bisect.'); }
+            await openBisectPanel(worktree, this.extensionUri, () => this.refreshAfterRepositoryChange());
+            return;
+        }
+        if (!await runBisectCommand(worktree, msg.command)) { return; }
+        await this.refreshAfterRepositoryChange();
+        await refreshBisectPanel(worktree.path);
+    }
+
+    private async handleRebaseBackupCommand(msg: Extract<GraphWebviewToExtensionMessage, { readonly type: 'graph/rebaseBackupCommand' }>): Promise<void> {
+        const result = await runRebaseBackupCommand(this.runtimeTargetsForRepository(msg.repository), msg.command, msg.ref, msg.hash, this.extensionUri, (operation) => this.requestGuardedOperation(operation));
+        if (result.shouldRefresh) { await this.refreshAfterRepositoryChange(); }
+    }
+
+    private async handleTagCommand(msg: Extract<GraphWebviewToExtensionMessage, { readonly type: 'graph/tagCommand' }>): Promise<void> {
+        const result = await runTagCommand(this.runtimeTargetsForRepository(msg.repository), msg.command, msg.tag, msg.hash);
+        if (result.shouldRefresh) { await this.refreshAfterRepositoryChange(); }
+    }
+
+    private async handleStashCommand(msg: Extract<GraphWebviewToExtensionMessage, { readonly type: 'graph/stashCommand' }>): Promise<void> {
+        const result = await runStashCommand(
+            this.runtimeTargetsForRepository(msg.repository),
+            msg.command,
+            msg.index,
+            msg.hash,
+            (operation) => this.requestGuardedOperation(operation),
+        );
+        if (result.shouldRefresh) { await this.refreshAfterRepositoryChange(); }
+    }
+
+    /** Sends the plan for a destructive command to the webview; the command runs from `graph/acknowledgeOperationPlan`. */
+    private async requestGuardedOperation(operation: GuardedOperation): Promise<void> {
+        const plan = await this.guardedOperations.prepare({
+            ...operation,
+            execute: async () => {
+                await operation.execute();
+                await this.refreshAfterRepositoryChange();
+            },
+        });
+        this.postMessage({ type: 'graph/operationPlan', plan });
     }
 
     private runtimeTargetsForRepository(repository: RepositoryLocator | undefined): RuntimeCommandTargets {
@@ -672,7 +828,9 @@ export class GraphMessageRouter {
         this.postMessage({
             type: 'graph/operationStatus',
             ...operation,
-            actions: operation.actions ?? operationActionsForStatus(operation.status),
+            actions: operation.actions ?? (isUndoableGraphOperation(operation)
+                ? undoableOperationActions(operation.status)
+                : operationActionsForStatus(operation.status)),
         });
     }
 
@@ -721,7 +879,7 @@ function toProtocolGraphData(result: GraphDataResult, repository: RepositoryLoca
     return {
         repository,
         branches: result.branches.map(toProtocolBranch),
-        tags: result.tags.map((tag) => ({ name: tag.name, hash: tag.hash })),
+        tags: result.tags.map(toProtocolTag),
         commits: result.commits.map((commit) => ({
             ...toProtocolGraphCommit(commit),
             canCherryPick: !currentBranchCommits.has(commit.hash),
@@ -738,6 +896,10 @@ function toProtocolGraphData(result: GraphDataResult, repository: RepositoryLoca
             submodule,
             submoduleRepositoryLocator(repository, submodule.path, submodule.status),
         )),
+        ...(result.bisect ? { bisect: toProtocolBisectStatus(result.bisect) } : {}),
+        ...(result.remoteWebRepository ? { repositoryWebUrl: result.remoteWebRepository.url } : {}),
+        ...(result.rebaseBackups ? { rebaseBackups: result.rebaseBackups.map(toProtocolRebaseBackup) } : {}),
+        ...(result.stashes ? { stashes: result.stashes.flatMap((stash) => toProtocolGraphStash(stash) ?? []) } : {}),
     };
 }
 
@@ -805,16 +967,22 @@ function submoduleRepositoryLocator(parent: GitRepository | RepositoryLocator, s
 }
 
 function errorCodeFor(msg: GraphWebviewToExtensionMessage): ErrorCode {
-    if (msg.type === 'graph/openDiff' || msg.type === 'graph/openWorktreeDiff') { return 'vscodeCommandFailed'; }
+    if (msg.type === 'graph/openDiff' || msg.type === 'graph/openBlame' || msg.type === 'graph/openWorktreeDiff') { return 'vscodeCommandFailed'; }
     return 'gitOperationFailed';
 }
 
 function shouldNotifyUserForError(msg: GraphWebviewToExtensionMessage): boolean {
     return msg.type === 'graph/branchCommand'
         || msg.type === 'graph/commitCommand'
+        || msg.type === 'graph/bisectCommand'
+        || msg.type === 'graph/rebaseBackupCommand'
+        || msg.type === 'graph/tagCommand'
+        || msg.type === 'graph/stashCommand'
         || msg.type === 'graph/worktreeCommand'
         || msg.type === 'graph/repositoryCommand'
+        || msg.type === 'graph/acknowledgeOperationPlan'
         || msg.type === 'graph/openDiff'
+        || msg.type === 'graph/openBlame'
         || msg.type === 'graph/openWorktreeDiff';
 }
 
@@ -834,6 +1002,8 @@ function shouldRefreshAfterFailedRepositoryMutation(msg: GraphWebviewToExtension
                 || msg.command === 'squashInto'
                 || msg.command === 'resetCurrentBranchToHere'
                 || msg.command === 'undoCommit';
+        case 'graph/stashCommand':
+            return msg.command === 'apply' || msg.command === 'pop';
         case 'graph/worktreeCommand':
             return msg.command === 'pull'
                 || msg.command === 'checkoutBranch'
@@ -858,6 +1028,7 @@ function hasNewConflicts(current: ReadonlySet<string>, previous: ReadonlySet<str
 function graphOperationForMessage(msg: GraphWebviewToExtensionMessage): GraphOperationDescriptor | undefined {
     switch (msg.type) {
         case 'graph/repositoryCommand':
+            if (msg.command === 'showReflog') { return undefined; }
             return {
                 category: GraphOperationCategory.Repository,
                 command: msg.command,
@@ -874,6 +1045,26 @@ function graphOperationForMessage(msg: GraphWebviewToExtensionMessage): GraphOpe
     }
 }
 
+/**
+ * Graph operations whose effect the undo journal records. Undo acts on the selected repository, so operations
+ * started inside a submodule do not offer it.
+ */
+function isUndoableGraphOperation(operation: GraphOperationDescriptor): boolean {
+    if (operation.repository?.kind === 'submodule') { return false; }
+    switch (operation.category) {
+        case GraphOperationCategory.Branch:
+            return operation.command === 'checkout'
+                || operation.command === 'checkoutRebaseOnto'
+                || operation.command === 'rebaseOnto'
+                || operation.command === 'mergeInto';
+        case GraphOperationCategory.Commit:
+            return operation.command === 'checkoutRevision' || operation.command === 'fixup';
+        case GraphOperationCategory.Repository:
+        case GraphOperationCategory.Worktree:
+            return false;
+    }
+}
+
 function graphBranchOperation(msg: Extract<GraphWebviewToExtensionMessage, { readonly type: 'graph/branchCommand' }>): GraphOperationDescriptor | undefined {
     switch (msg.command) {
         case 'checkout':
@@ -907,6 +1098,8 @@ function graphBranchOperation(msg: Extract<GraphWebviewToExtensionMessage, { rea
         case 'showDiffWithWorkingTree':
         case 'compareBranchWithWorktree':
         case 'showDiffWithBranchWorktree':
+        case 'openOnRemote':
+        case 'compareOnRemote':
             return undefined;
     }
 }
@@ -969,6 +1162,12 @@ function graphCommitOperation(msg: Extract<GraphWebviewToExtensionMessage, { rea
         case 'showRepositoryAtRevision':
         case 'compareWithLocal':
         case 'compareCommitWithWorktree':
+        case 'bisectGood':
+        case 'bisectBad':
+        case 'bisectSkip':
+        case 'openOnRemote':
+        case 'editNote':
+        case 'removeNote':
             return undefined;
     }
 }
@@ -1013,7 +1212,11 @@ async function createCommitFileDiffUris(
 }
 
 async function commitBlobUri(repository: GitRepository, ref: string, filePath: string, side: string): Promise<vscode.Uri> {
-    const content = await repository.getFileAtRevision(filePath, ref);
+    const content = await lfsBlobContent(
+        await repository.getFileAtRevision(filePath, ref),
+        () => repository.getLfsFileAtRevision(filePath, ref),
+        repository.gitDir,
+    );
     return gitBlobUri(ref, filePath, side, content);
 }
 
@@ -1049,7 +1252,12 @@ async function worktreeHeadBlobUri(
     filePath: string,
     runtimeTargets: RuntimeCommandTargets,
 ): Promise<vscode.Uri> {
-    const content = await requireRuntimeWorktree(runtimeTargets).getFileAtRevision(filePath, 'HEAD');
+    const worktree = requireRuntimeWorktree(runtimeTargets);
+    const content = await lfsBlobContent(
+        await worktree.getFileAtRevision(filePath, 'HEAD'),
+        () => worktree.getLfsFileAtRevision(filePath, 'HEAD'),
+        runtimeTargets.repository?.gitDir,
+    );
     return gitBlobUri('worktree-head', filePath, 'head', content);
 }
 
@@ -0,0 +1,87 @@
+import { createHash, randomUUID } from 'crypto';
+import type { GuardAcknowledgement, OperationPlan, OperationPlanDraft } from '@application/ports/operation-guard';
+import type { OperationPlanPrompt } from '@protocol/shared/operation-plan';
+import { toProtocolOperationPlan } from '@extension/mapping/to-protocol';
+import {
+    GuardAcknowledgementValidationError,
+    GuardAcknowledgementValidator,
+    type GuardValidationContext,
+} from '@extension/operations/guard-acknowledgement-validator';
+import { OperationPlanRegistry } from '@extension/operations/operation-plan-registry';
+
+const PLAN_LIFETIME_MS = 5 * 60 * 1000;
+
+export interface GuardedOperation {
+    readonly title: string;
+    readonly confirmLabel: string;
+    /** Resolved again on acknowledgement, so a plan never runs after its panel switched to another repository. */
+    readonly context: () => GuardValidationContext;
+    /** Called again on acknowledgement; a different preview means the repository moved after the user reviewed it. */
+    readonly plan: () => Promise<OperationPlanDraft>;
+    readonly execute: () => Promise<void>;
+}
+
+/** Shows an operation's plan in the view that asked for it; the operation runs once that view acknowledges the plan. */
+export type RequestGuardedOperation = (operation: GuardedOperation) => Promise<void>;
+
+/**
+ * Keeps the plans a webview is currently asking the user to confirm and runs each one at most once,
+ * after `GuardAcknowledgementValidator` accepted the acknowledgement and a fresh plan still matches it.
+ */
+export class GuardedOperationCoordinator {
+    private readonly plans = new OperationPlanRegistry();
+    private readonly validator = new GuardAcknowledgementValidator(this.plans);
+    private readonly operations = new Map<string, GuardedOperation>();
+
+    async prepare(operation: GuardedOperation, now = new Date()): Promise<OperationPlanPrompt> {
+        this.clearExpired(now);
+        const context = operation.context();
+        const plan = this.plans.store({
+            ...withPreviewHash(await operation.plan()),
+            id: randomUUID(),
+            repositoryId: context.repositoryId,
+            ...(context.worktreeId ? { worktreeId: context.worktreeId } : {}),
+            expiresAt: new Date(now.getTime() + PLAN_LIFETIME_MS).toISOString(),
+        });
+        this.operations.set(plan.id, operation);
+        return toProtocolOperationPlan(plan, operation.title, operation.confirmLabel);
+    }
+
+    /** Validates, re-plans, and runs the acknowledged operation; any rejection throws `GuardAcknowledgementValidationError`. */
+    async acknowledge(acknowledgement: GuardAcknowledgement, now = new Date()): Promise<void> {
+        const operation = this.operations.get(acknowledgement.planId);
+        // A plan is single-use: forget it before validating so a rejected or repeated acknowledgement cannot run it.
+        this.operations.delete(acknowledgement.planId);
+        try {
+            if (!operation) {
+                throw new GuardAcknowledgementValidationError('This confirmation is no longer valid. Run the action again.');
+            }
+            const { plan } = this.validator.validate(acknowledgement, operation.context(), now);
+            const current = withPreviewHash(await operation.plan());
+            if (current.preview?.hash !== plan.preview?.hash) {
+                throw new GuardAcknowledgementValidationError('The repository changed after this action was reviewed. Run the action again to review the new state.');
+            }
+        } finally {
+            this.plans.expire(acknowledgement.planId);
+        }
+        await operation.execute();
+    }
+
+    cancel(planId: string): void {
+        this.plans.expire(planId);
+        this.operations.delete(planId);
+    }
+
+    private clearExpired(now: Date): void {
+        this.plans.clearExpired(now);
+        for (const planId of this.operations.keys()) {
+            if (!this.plans.get(planId)) { this.operations.delete(planId); }
+        }
+    }
+}
+
+function withPreviewHash(draft: OperationPlanDraft): Omit<OperationPlan, 'id' | 'repositoryId' | 'worktreeId' | 'expiresAt'> {
+    if (!draft.preview) { return draft; }
+    const hash = createHash('sha256').update(JSON.stringify(draft.preview)).digest('hex');
+    return { ...draft, preview: { ...draft.preview, hash } };
+}
@@ -4,6 +4,11 @@ const STORAGE_SCHEMA_VERSION_KEY = 'lookGit.storageSchemaVersion';
 const CURRENT_STORAGE_SCHEMA_VERSION = 1;
 const LOOK_GIT_KEY_PREFIX = 'lookGit.';
 
+/** Memento key for state kept per repository; `resetLookGitStorage` clears it with the rest of Look Git's state. */
+export function lookGitRepositoryStorageKey(name: string, repositoryId: string): string {
+    return `${LOOK_GIT_KEY_PREFIX}${name}.${repositoryId}`;
+}
+
 export async function migrateLookGitStorage(context: vscode.ExtensionContext): Promise<void> {
     await Promise.all([
         migrateMemento(context.globalState, context.globalStorageUri),
@@ -0,0 +1,52 @@
+import { randomUUID } from 'crypto';
+import type * as vscode from 'vscode';
+import type { OperationJournal, OperationJournalEntry, OperationJournalRecord } from '@application/ports/operation-journal';
+import { lookGitRepositoryStorageKey } from '@extension/storage/look-git-storage';
+
+const JOURNAL_STORAGE_NAME = 'operationJournal';
+const MAX_JOURNAL_ENTRIES = 20;
+
+/** Keeps the newest undoable operations of each repository in workspace state, so Undo survives a window reload. */
+export class MementoOperationJournal implements OperationJournal {
+    constructor(private readonly memento: vscode.Memento) {}
+
+    entries(repositoryId: string): readonly OperationJournalEntry[] {
+        const stored = this.memento.get<unknown>(lookGitRepositoryStorageKey(JOURNAL_STORAGE_NAME, repositoryId));
+        return Array.isArray(stored) ? stored.filter(isOperationJournalEntry) : [];
+    }
+
+    async append(repositoryId: string, record: OperationJournalRecord): Promise<OperationJournalEntry> {
+        const entry: OperationJournalEntry = { ...record, id: randomUUID() };
+        await this.write(repositoryId, [...this.entries(repositoryId), entry].slice(-MAX_JOURNAL_ENTRIES));
+        return entry;
+    }
+
+    async truncate(repositoryId: string, entryId: string): Promise<void> {
+        const entries = this.entries(repositoryId);
+        const index = entries.findIndex((entry) => entry.id === entryId);
+        if (index < 0) { return; }
+        await this.write(repositoryId, entries.slice(0, index));
+    }
+
+    private async write(repositoryId: string, entries: readonly OperationJournalEntry[]): Promise<void> {
+        await this.memento.update(lookGitRepositoryStorageKey(JOURNAL_STORAGE_NAME, repositoryId), entries.length > 0 ? entries : undefined);
+    }
+}
+
+function isOperationJournalEntry(value: unknown): value is OperationJournalEntry {
+    if (!value || typeof value !== 'object') { return false; }
+    const entry = value as Partial<OperationJournalEntry>;
+    return typeof entry.id === 'string'
+        && typeof entry.operation === 'string'
+        && typeof entry.recordedAt === 'string'
+        && isSnapshot(entry.before)
+        && isSnapshot(entry.after);
+}
+
+function isSnapshot(value: unknown): boolean {
+    if (!value || typeof value !== 'object') { return false; }
+    return ['head', 'branch', 'stash'].every((field) => {
+        const fieldValue = (value as Readonly<Record<string, unknown>>)[field];
+        return fieldValue === null || typeof fieldValue === 'string';
+    });
+}
@@ -0,0 +1,160 @@
+import * as path from 'path';
+import * as vscode from 'vscode';
+import type { Worktree } from '@application/ports/git-topology';
+import type { GitBisectLogEntry, GitBisectState } from '@core/git/domain/git-bisect';
+import type { BisectExtensionToWebviewMessage, BisectWebviewToExtensionMessage } from '@protocol/bisect/messages';
+import type { BisectLogEntry, BisectPanelAction } from '@protocol/bisect/types';
+import { markBisectCommit, runBisectScript } from '@extension/commands/bisect-commands';
+import { toProtocolBisectStatus } from '@extension/mapping/to-protocol';
+import { createErrorPayload } from '@extension/messaging/error-serialization';
+import { appendErrorToOutput, showErrorOutput } from '@extension/messaging/error-output-channel';
+import { getWebviewHtml } from '@extension/views/webview-html';
+import { movePanelToFloatingWindow } from '@extension/utils/floating-editor-window';
+
+interface OpenBisectPanel {
+    readonly panel: vscode.WebviewPanel;
+    readonly refresh: () => Promise<void>;
+}
+
+/** One panel per worktree: a second panel could start a competing `git bisect run`. */
+const openPanels = new Map<string, OpenBisectPanel>();
+
+export async function openBisectPanel(
+    worktree: Worktree,
+    extensionUri: vscode.Uri,
+    onRepositoryUpdated: () => Promise<void>,
+): Promise<void> {
+    const existing = openPanels.get(worktree.path);
+    if (existing) {
+        existing.panel.reveal();
+        await existing.refresh();
+        return;
+    }
+
+    const title = `Bisect: ${path.basename(worktree.path)}`;
+    const panel = vscode.window.createWebviewPanel(
+        'lookGit.bisect',
+        title,
+        vscode.ViewColumn.Active,
+        {
+            enableScripts: true,
+            retainContextWhenHidden: true,
+            localResourceRoots: [vscode.Uri.joinPath(extensionUri, 'dist', 'webview')],
+        },
+    );
+    panel.webview.html = getWebviewHtml(panel.webview, extensionUri, 'bisect');
+    void movePanelToFloatingWindow(panel, 'Could not open bisect in a separate window. Continuing in an editor tab.');
+
+    const post = (message: BisectExtensionToWebviewMessage) => { void panel.webview.postMessage(message); };
+    const postState = async () => {
+        const state = await worktree.getBisectState();
+        post({
+            type: 'bisect/state',
+            title,
+            ...(state ? { status: toProtocolBisectStatus(state) } : {}),
+            log: state?.log.map(toBisectLogEntry) ?? [],
+        });
+        return state;
+    };
+    const refresh = async () => {
+        await postState().catch((error: unknown) => {
+            void vscode.window.showErrorMessage(`Could not load bisect state: ${error instanceof Error ? error.message : String(error)}`);
+        });
+    };
+    openPanels.set(worktree.path, { panel, refresh });
+
+    let runController: AbortController | undefined;
+    let actionRunning = false;
+    const runAction = (action: BisectPanelAction, operation: () => Promise<void>) => {
+        if (actionRunning) { return; }
+        actionRunning = true;
+        post({ type: 'bisect/actionStarted', action });
+        void operation()
+            .then(async () => {
+                await onRepositoryUpdated();
+                const state = await postState();
+                const message = bisectProgressMessage(action, state);
+                post({ type: 'bisect/actionCompleted', action, ...(message ? { message } : {}) });
+            })
+            .catch((error: unknown) => {
+                const payload = createErrorPayload(error, { code: 'gitOperationFailed', operation: `bisect/${action}`, recoverable: true });
+                appendErrorToOutput(payload.error, `bisect/${action}`);
+                post({
+                    type: 'bisect/actionFailed',
+                    action,
+                    message: payload.message,
+                    ...(payload.error.details ? { details: payload.error.details } : {}),
+                });
+                void refresh();
+            })
+            .finally(() => { actionRunning = false; });
+    };
+
+    const messageSubscription = panel.webview.onDidReceiveMessage((message: BisectWebviewToExtensionMessage) => {
+        switch (message.type) {
+            case 'bisect/ready':
+                void refresh();
+                return;
+            case 'bisect/start':
+                runAction('start', () => worktree.bisectStart(message.bad.trim() || undefined, message.good.map((ref) => ref.trim()).filter(Boolean)));
+                return;
+            case 'bisect/mark':
+                runAction(message.mark, () => markBisectCommit(worktree, message.mark, undefined));
+                return;
+            case 'bisect/reset':
+                runAction('reset', () => worktree.bisectReset());
+                return;
+            case 'bisect/run': {
+                const controller = new AbortController();
+                runAction('run', async () => {
+                    runController = controller;
+                    try {
+                        await runBisectScript(worktree, message.command, (chunk) => post({ type: 'bisect/runOutput', chunk }), controller.signal);
+                    } finally {
+                        if (runController === controller) { runController = undefined; }
+                    }
+                });
+                return;
+            }
+            case 'bisect/cancelRun':
+                runController?.abort();
+                return;
+            case 'bisect/showOutput':
+                showErrorOutput();
+                return;
+        }
+    });
+    const viewStateSubscription = panel.onDidChangeViewState(({ webviewPanel }) => {
+        if (webviewPanel.visible && !actionRunning) { void refresh(); }
+    });
+    panel.onDidDispose(() => {
+        runController?.abort();
+        openPanels.delete(worktree.path);
+        viewStateSubscription.dispose();
+        messageSubscription.dispose();
+    });
+}
+
+/** Re-reads the bisect state of an open panel after the Changes or Graph view moved the session. */
+export async function refreshBisectPanel(worktreePath: string): Promise<void> {
+    await openPanels.get(worktreePath)?.refresh();
+}
+
+function bisectProgressMessage(action: BisectPanelAction, state: GitBisectState | undefined): string | undefined {
+    if (action === 'reset') { return 'Bisect finished. Returned to the original branch.'; }
+    if (!state) { return undefined; }
+    if (state.firstBadHash) {
+        const subject = state.log.find((entry) => entry.hash === state.firstBadHash)?.subject;
+        return `First bad commit: ${state.firstBadHash.substring(0, 7)}${subject ? ` ${subject}` : ''}`;
+    }
+    return undefined;
+}
+
+function toBisectLogEntry(entry: GitBisectLogEntry): BisectLogEntry {
+    return {
+        mark: entry.mark,
+        hash: entry.hash,
+        shortHash: entry.hash.substring(0, 7),
+        subject: entry.subject,
+    };
+}
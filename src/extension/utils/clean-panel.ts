@@ -0,0 +1,168 @@
+import * as path from 'path';
+import * as vscode from 'vscode';
+import type { GitRepository, Worktree } from '@application/ports/git-topology';
+import { PlanDestructiveOperationUseCase } from '@application/usecases/guards/plan-destructive-operation';
+import type { CleanExtensionToWebviewMessage, CleanWebviewToExtensionMessage } from '@protocol/clean/messages';
+import type { CleanEntry, CleanPreviewOptions } from '@protocol/clean/types';
+import type { OperationPlanAcknowledgement } from '@protocol/shared/operation-plan';
+import { createErrorPayload } from '@extension/messaging/error-serialization';
+import { appendErrorToOutput, showErrorOutput } from '@extension/messaging/error-output-channel';
+import { GuardedOperationCoordinator } from '@extension/operations/guarded-operation-coordinator';
+import { getWebviewHtml } from '@extension/views/webview-html';
+import { movePanelToFloatingWindow } from '@extension/utils/floating-editor-window';
+
+interface OpenCleanPanel {
+    readonly panel: vscode.WebviewPanel;
+    readonly refresh: () => void;
+}
+
+const openPanels = new Map<string, OpenCleanPanel>();
+
+export async function openCleanPanel(
+    repository: GitRepository,
+    worktree: Worktree,
+    extensionUri: vscode.Uri,
+    onRepositoryUpdated: () => Promise<void>,
+): Promise<void> {
+    const existing = openPanels.get(worktree.path);
+    if (existing) {
+        existing.panel.reveal();
+        existing.refresh();
+        return;
+    }
+
+    const title = `Clean: ${path.basename(worktree.path)}`;
+    const panel = vscode.window.createWebviewPanel(
+        'lookGit.clean',
+        title,
+        vscode.ViewColumn.Active,
+        {
+            enableScripts: true,
+            retainContextWhenHidden: true,
+            localResourceRoots: [vscode.Uri.joinPath(extensionUri, 'dist', 'webview')],
+        },
+    );
+    panel.webview.html = getWebviewHtml(panel.webview, extensionUri, 'clean');
+    void movePanelToFloatingWindow(panel, 'Could not open clean in a separate window. Continuing in an editor tab.');
+
+    const post = (message: CleanExtensionToWebviewMessage) => { void panel.webview.postMessage(message); };
+    let previewOptions: CleanPreviewOptions | undefined;
+    let previewController: AbortController | undefined;
+    const postPreview = async (options: CleanPreviewOptions) => {
+        previewOptions = options;
+        previewController?.abort();
+        const controller = new AbortController();
+        previewController = controller;
+        try {
+            const paths = await worktree.previewClean([], cleanOptions(options), controller.signal);
+            if (controller.signal.aborted) { return; }
+            post({ type: 'clean/preview', title, options, entries: paths.map(toCleanEntry) });
+        } catch (error) {
+            if (controller.signal.aborted) { return; }
+            post({ type: 'clean/previewFailed', options, message: error instanceof Error ? error.message : String(error) });
+        } finally {
+            if (previewController === controller) { previewController = undefined; }
+        }
+    };
+    const refresh = () => {
+        if (previewOptions) { void postPreview(previewOptions); }
+    };
+    openPanels.set(worktree.path, { panel, refresh });
+
+    const plans = new PlanDestructiveOperationUseCase();
+    const guardedOperations = new GuardedOperationCoordinator();
+    const target = { repository, worktree };
+    let actionRunning = false;
+    const postActionFailed = (error: unknown) => {
+        const payload = createErrorPayload(error, { code: 'gitOperationFailed', operation: 'clean/remove', recoverable: true });
+        appendErrorToOutput(payload.error, 'clean/remove');
+        post({
+            type: 'clean/actionFailed',
+            message: payload.message,
+            ...(payload.error.details ? { details: payload.error.details } : {}),
+        });
+    };
+    const requestRemove = async (paths: readonly string[], options: CleanPreviewOptions) => {
+        if (actionRunning || paths.length === 0) { return; }
+        try {
+            const plan = await guardedOperations.prepare({
+                title: 'Delete Untracked Files',
+                confirmLabel: 'Delete',
+                context: () => ({ repositoryId: repository.repoId, worktreeId: worktree.worktreeId }),
+                plan: () => plans.cleanUntracked(target, paths, cleanOptions(options)),
+                execute: () => remove(paths, options),
+            });
+            post({ type: 'clean/operationPlan', plan });
+        } catch (error) {
+            postActionFailed(error);
+            await postPreview(options);
+        }
+    };
+    const acknowledge = async (acknowledgement: OperationPlanAcknowledgement) => {
+        try {
+            await guardedOperations.acknowledge(acknowledgement);
+        } catch (error) {
+            postActionFailed(error);
+            refresh();
+        }
+    };
+    const remove = async (paths: readonly string[], options: CleanPreviewOptions) => {
+        if (actionRunning) { return; }
+        actionRunning = true;
+        post({ type: 'clean/actionStarted' });
+        try {
+            await worktree.cleanUntracked(paths.map(literalPathspec), { ...cleanOptions(options), force: true });
+            await onRepositoryUpdated();
+            post({ type: 'clean/actionCompleted', message: paths.length === 1 ? `Deleted ${paths[0]}.` : `Deleted ${paths.length} entries.` });
+        } catch (error) {
+            postActionFailed(error);
+        } finally {
+            actionRunning = false;
+            await postPreview(options);
+        }
+    };
+
+    const messageSubscription = panel.webview.onDidReceiveMessage((message: CleanWebviewToExtensionMessage) => {
+        switch (message.type) {
+            case 'clean/ready':
+            case 'clean/preview':
+                void postPreview(message.options);
+                return;
+            case 'clean/remove':
+                void requestRemove(message.paths, message.options);
+                return;
+            case 'clean/acknowledgeOperationPlan':
+                void acknowledge(message.acknowledgement);
+                return;
+            case 'clean/cancelOperationPlan':
+                guardedOperations.cancel(message.planId);
+                return;
+            case 'clean/showOutput':
+                showErrorOutput();
+                return;
+        }
+    });
+    const viewStateSubscription = panel.onDidChangeViewState(({ webviewPanel }) => {
+        if (webviewPanel.visible && !actionRunning) { refresh(); }
+    });
+    panel.onDidDispose(() => {
+        previewController?.abort();
+        openPanels.delete(worktree.path);
+        viewStateSubscription.dispose();
+        messageSubscription.dispose();
+    });
+}
+
+function cleanOptions(options: CleanPreviewOptions): { readonly directories: boolean; readonly ignored: boolean } {
+    return { directories: options.includeDirectories, ignored: options.includeIgnored };
+}
+
+/** `git clean -n` reports directories with a trailing slash. */
+function toCleanEntry(previewPath: string): CleanEntry {
+    return { path: previewPath, isDirectory: previewPath.endsWith('/') };
+}
+
+/** Preview paths are removed exactly as listed, so a file named `*.log` never expands to its siblings. */
+function literalPathspec(filePath: string): string {
+    return `:(literal)${filePath}`;
+}
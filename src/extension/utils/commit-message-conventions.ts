@@ -0,0 +1,179 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import type { GitHistoryOperations, GitReferenceOperations } from '@application/ports/git-capabilities';
+import type { GitRepository, Worktree } from '@application/ports/git-topology';
+import {
+    commitMessageRulesBlock,
+    evaluateCommitMessageRules,
+    type CommitMessageConventions,
+    type CommitMessageDiagnostic,
+    type CommitMessageRules,
+} from '@protocol/shared/commit-message-rules';
+import type { CommitSigningDefaults } from '@protocol/shared/commit';
+import { currentLocalBranchName } from '@extension/git/current-branch';
+import { showModalWarningMessage } from '@extension/utils/confirmation';
+import { isAbortError } from '@extension/messaging/error-serialization';
+
+export const COMMIT_RULES_FILE = '.lookgit/commit-rules.json';
+
+const MAX_CHECKED_COMMITS = 100;
+const MAX_LISTED_VIOLATIONS = 5;
+const PUSH_ANYWAY = 'Push Anyway';
+
+export type CommitMessageConventionsRepository = Pick<GitReferenceOperations, 'getCommitTemplate' | 'getSigningConfig'>;
+export type OutgoingCommitMessagesRepository =
+    Pick<GitReferenceOperations, 'getUpstreamBranch'> & Pick<GitHistoryOperations, 'getCommitRange' | 'getCommitMessage'>;
+
+/**
+ * `commit.template` and signing defaults of `repo` and the rule file of the worktree at `worktreePath`; none failing
+ * hides the others.
+ */
+export async function loadCommitMessageConventions(
+    repo: CommitMessageConventionsRepository,
+    worktreePath: string,
+    signal?: AbortSignal,
+): Promise<CommitMessageConventions> {
+    const [template, rules, signing] = await Promise.all([
+        repo.getCommitTemplate(signal).catch((error: unknown) => {
+            if (isAbortError(error)) { throw error; }
+            return '';
+        }),
+        readCommitMessageRules(worktreePath),
+        readCommitSigningDefaults(repo, signal),
+    ]);
+    return { template: commitMessageFromTemplate(template), ...rules, ...(signing ? { signing } : {}) };
+}
+
+/** `commit.gpgSign` and `gpg.format` of `repo`; undefined when git config cannot be read, so the toggles stay unset. */
+export async function readCommitSigningDefaults(
+    repo: Pick<GitReferenceOperations, 'getSigningConfig'>,
+    signal?: AbortSignal,
+): Promise<CommitSigningDefaults | undefined> {
+    try {
+        const { signCommits, format } = await repo.getSigningConfig(signal);
+        return { sign: signCommits, format };
+    } catch (error) {
+        if (isAbortError(error)) { throw error; }
+        return undefined;
+    }
+}
+
+/** Rules from `.lookgit/commit-rules.json`; a missing file means no rules, an invalid one is reported in `rulesError`. */
+export async function readCommitMessageRules(worktreePath: string): Promise<Pick<CommitMessageConventions, 'rules' | 'rulesError'>> {
+    let text: string;
+    try {
+        text = await fs.readFile(path.join(worktreePath, COMMIT_RULES_FILE), 'utf8');
+    } catch (error) {
+        if (isMissingFile(error)) { return {}; }
+        return { rulesError: `Could not read ${COMMIT_RULES_FILE}: ${errorMessage(error)}` };
+    }
+    try {
+        return { rules: parseCommitMessageRules(JSON.parse(text)) };
+    } catch (error) {
+        return { rulesError: `${COMMIT_RULES_FILE} is invalid: ${errorMessage(error)}` };
+    }
+}
+
+export function parseCommitMessageRules(value: unknown): CommitMessageRules {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        throw new Error('Expected an object of rules.');
+    }
+    const rules: { -readonly [K in keyof CommitMessageRules]: CommitMessageRules[K] } = {};
+    for (const [key, entry] of Object.entries(value)) {
+        switch (key) {
+            case 'subjectMaxLength':
+            case 'bodyWrapColumn':
+                if (!Number.isInteger(entry) || (entry as number) <= 0) { throw new Error(`"${key}" must be a positive whole number.`); }
+                rules[key] = entry as number;
+                break;
+            case 'requireScope':
+            case 'blockCommits':
+                if (typeof entry !== 'boolean') { throw new Error(`"${key}" must be true or false.`); }
+                rules[key] = entry;
+                break;
+            case 'allowedTypes':
+            case 'forbiddenWords':
+                if (!Array.isArray(entry) || !entry.every((item) => typeof item === 'string')) { throw new Error(`"${key}" must be a list of strings.`); }
+                rules[key] = entry as string[];
+                break;
+            case 'issueKeyPattern':
+                if (typeof entry !== 'string') { throw new Error(`"${key}" must be a regular expression string.`); }
+                try {
+                    new RegExp(entry);
+                } catch {
+                    throw new Error(`"${key}" is not a valid regular expression.`);
+                }
+                rules[key] = entry;
+                break;
+            default:
+                throw new Error(`Unknown rule "${key}".`);
+        }
+    }
+    return rules;
+}
+
+/** The template as a starting message: comment lines are hints for an editor, not message text. */
+export function commitMessageFromTemplate(template: string): string {
+    return template
+        .split(/\r?\n/)
+        .filter((line) => !line.startsWith('#'))
+        .join('\n')
+        .trimEnd();
+}
+
+/** Why the rules of the worktree at `worktreePath` refuse `message`; undefined when it may be committed. */
+export async function blockedCommitMessageReason(worktreePath: string, message: string): Promise<string | undefined> {
+    const { rules } = await readCommitMessageRules(worktreePath);
+    const diagnostics = evaluateCommitMessageRules(message, rules);
+    if (!commitMessageRulesBlock(rules, diagnostics)) { return undefined; }
+    return `The commit message breaks the commit message rules. ${diagnostics.map((diagnostic) => diagnostic.message).join(' ')}`;
+}
+
+/**
+ * Checks the commits `branch` would push to its upstream against the worktree's rules. Warns with
+ * a Push Anyway choice, or refuses when the rules block commits. Branches without an upstream and
+ * repositories without rules always pass.
+ */
+export async function confirmOutgoingCommitMessages(
+    repo: OutgoingCommitMessagesRepository,
+    worktreePath: string,
+    branch: string | undefined,
+    head: string | undefined = branch,
+): Promise<boolean> {
+    if (!branch || !head) { return true; }
+    const { rules } = await readCommitMessageRules(worktreePath);
+    if (!rules) { return true; }
+    const upstream = await repo.getUpstreamBranch(branch).catch(() => undefined);
+    if (!upstream) { return true; }
+
+    const commits = await repo.getCommitRange(upstream, head, { limit: MAX_CHECKED_COMMITS });
+    const violations: { readonly shortHash: string; readonly diagnostic: CommitMessageDiagnostic }[] = [];
+    for (const commit of commits.items) {
+        const diagnostics = evaluateCommitMessageRules(await repo.getCommitMessage(commit.hash), rules);
+        if (diagnostics[0]) { violations.push({ shortHash: commit.shortHash, diagnostic: diagnostics[0] }); }
+    }
+    if (violations.length === 0) { return true; }
+
+    const listed = violations.slice(0, MAX_LISTED_VIOLATIONS).map(({ shortHash, diagnostic }) => `${shortHash}: ${diagnostic.message}`);
+    if (violations.length > MAX_LISTED_VIOLATIONS) { listed.push(`...and ${violations.length - MAX_LISTED_VIOLATIONS} more.`); }
+    const summary = `${violations.length} outgoing commit${violations.length === 1 ? '' : 's'} on ${branch} break${violations.length === 1 ? 's' : ''} the commit message rules.`;
+    if (commitMessageRulesBlock(rules, violations.map(({ diagnostic }) => diagnostic))) {
+        await vscode.window.showErrorMessage(`${summary} Reword them before pushing.\n\n${listed.join('\n')}`, { modal: true });
+        return false;
+    }
+    return await showModalWarningMessage(`${summary}\n\n${listed.join('\n')}`, PUSH_ANYWAY) === PUSH_ANYWAY;
+}
+
+/** {@link confirmOutgoingCommitMessages} for the branch checked out in `worktree`. */
+export async function confirmWorktreeOutgoingCommitMessages(repo: GitRepository, worktree: Worktree): Promise<boolean> {
+    return confirmOutgoingCommitMessages(repo, worktree.path, worktree.branch ?? await currentLocalBranchName(repo));
+}
+
+function isMissingFile(error: unknown): boolean {
+    return typeof error === 'object' && error !== null && 'code' in error && error.code === 'ENOENT';
+}
+
+function errorMessage(error: unknown): string {
+    return error instanceof Error ? error.message : String(error);
+}
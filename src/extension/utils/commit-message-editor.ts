@@ -1,5 +1,7 @@
 import * as vscode from 'vscode';
 import type { CommitMessageWebviewToExtensionMessage } from '@protocol/commit-message/messages';
+import type { CommitIdentity } from '@protocol/shared/commit';
+import { commitMessageRulesBlock, evaluateCommitMessageRules, type CommitMessageRules } from '@protocol/shared/commit-message-rules';
 import { getWebviewHtml } from '@extension/views/webview-html';
 import { movePanelToFloatingWindow as moveWebviewPanelToFloatingWindow } from '@extension/utils/floating-editor-window';
 
@@ -11,6 +13,14 @@ const DEFAULT_MODE: CommitMessageEditorMode = 'window';
 
 export interface CommitMessageEditorOptions {
     readonly generateMessage?: (signal: AbortSignal) => Promise<string>;
+    /** Prompt of the input box mode. */
+    readonly prompt?: string;
+    /** Label of the editor's apply button. */
+    readonly applyLabel?: string;
+    /** Shows the trailers editor with these co-author suggestions; the input box mode has no trailers editor. */
+    readonly coAuthorCandidates?: readonly CommitIdentity[];
+    /** Repository rules the message is checked against; blocking rules keep it from being applied. */
+    readonly rules?: CommitMessageRules;
 }
 
 export function promptForCommitMessage(
@@ -23,7 +33,11 @@ export function promptForCommitMessage(
         .getConfiguration(CONFIG_SECTION)
         .get<CommitMessageEditorMode>(CONFIG_KEY, DEFAULT_MODE);
     if (mode === 'input') {
-        return Promise.resolve(vscode.window.showInputBox({ prompt: 'New commit message:', value: currentMessage }));
+        return Promise.resolve(vscode.window.showInputBox({
+            prompt: options.prompt ?? 'New commit message:',
+            value: currentMessage,
+            ...(options.rules ? { validateInput: (value: string) => validateCommitMessageInput(value, options.rules) } : {}),
+        }));
     }
     if (!extensionUri) {
         throw new Error('Commit message editor requires the extension URI.');
@@ -70,6 +84,9 @@ async function openCommitMessagePanel(
                         title,
                         message: currentMessage,
                         canGenerate: options.generateMessage !== undefined,
+                        ...(options.applyLabel ? { applyLabel: options.applyLabel } : {}),
+                        ...(options.coAuthorCandidates ? { coAuthorCandidates: options.coAuthorCandidates } : {}),
+                        ...(options.rules ? { rules: options.rules } : {}),
                     });
                     return;
                 case 'commitMessage/generate':
@@ -111,6 +128,16 @@ async function generateMessage(
     }
 }
 
+function validateCommitMessageInput(value: string, rules: CommitMessageRules | undefined): vscode.InputBoxValidationMessage | undefined {
+    const diagnostics = evaluateCommitMessageRules(value, rules);
+    const first = diagnostics[0];
+    if (!first) { return undefined; }
+    return {
+        message: first.message,
+        severity: commitMessageRulesBlock(rules, diagnostics) ? vscode.InputBoxValidationSeverity.Error : vscode.InputBoxValidationSeverity.Warning,
+    };
+}
+
 function movePanelToFloatingWindow(panel: vscode.WebviewPanel): void {
     void moveWebviewPanelToFloatingWindow(panel, 'Could not open commit message editor in a separate window. Continuing in an editor tab.');
 }
@@ -1,7 +1,7 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
 import type { GitRepository } from '@application/ports/git-topology';
-import { gitBlobUri } from '@extension/utils/git-blob-documents';
+import { gitBlobUri, lfsBlobContent } from '@extension/utils/git-blob-documents';
 import { openCommitGitlinkDiff } from '@extension/utils/gitlink-diff';
 
 export interface CommitDiffFile {
@@ -34,6 +34,23 @@ export async function openCommitFileDiff(repo: GitRepository, file: CommitDiffFi
     }
 }
 
+/**
+ * Compares a file as it was in `commitHash`, at the path it had then, with its current working copy.
+ * Used by file history to diff across renames.
+ */
+export async function openRevisionWorkingFileDiff(
+    repo: GitRepository,
+    commitHash: string,
+    file: Pick<CommitDiffFile, 'filePath' | 'status'>,
+    workingPath: string,
+): Promise<void> {
+    const left = file.status.charAt(0) === 'D'
+        ? emptyDiffUri(commitHash, file.filePath, 'commit')
+        : await refBlobUri(repo, repo.cwd, commitHash, file.filePath, 'commit');
+    const right = vscode.Uri.file(path.join(repo.cwd, workingPath));
+    await vscode.commands.executeCommand('vscode.diff', left, right, `${path.basename(workingPath)} (${commitHash.substring(0, 7)} ↔ Working Tree)`);
+}
+
 export async function commitFileTempDiffUris(repo: GitRepository, cwd: string, file: CommitDiffFile): Promise<DiffUris> {
     const parentRef = file.parentHash ?? `${file.commitHash}~1`;
     const status = file.status.charAt(0);
@@ -70,16 +87,26 @@ export async function refBlobUri(
     filePath: string,
     side: string,
 ): Promise<vscode.Uri> {
-    const content = await repo.getFileAtRevision(filePath, ref);
+    const content = await lfsBlobContent(
+        await repo.getFileAtRevision(filePath, ref),
+        () => repo.getLfsFileAtRevision(filePath, ref),
+        repo.gitDir,
+    );
     return gitBlobUri(ref, filePath, side, content);
 }
 
+/**
+ * Like `refBlobUri`; `readSmudged` reads the blob through the LFS smudge filter when it is a pointer,
+ * and `gitDir` locates the LFS objects already fetched.
+ */
 export async function refBlobUriFrom(
     readBlob: BlobContentReader,
+    readSmudged: BlobContentReader,
     ref: string,
     filePath: string,
     side: string,
+    gitDir?: string,
 ): Promise<vscode.Uri> {
-    const content = await readBlob(ref, filePath);
+    const content = await lfsBlobContent(await readBlob(ref, filePath), () => readSmudged(ref, filePath), gitDir);
     return gitBlobUri(ref, filePath, side, content);
 }
@@ -1,6 +1,16 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
 import * as vscode from 'vscode';
+import type { GitLfsPointer } from '@core/git/domain/git-lfs';
+import { parseLfsPointer } from '@core/parsing/parse-lfs';
+import { isAbortError } from '@core/shared/type-guards';
 
 const gitBlobScheme = 'lookgit-blob';
+// `cat-file --filters` buffers the whole object, so larger objects are described without smudging them.
+const MAX_LFS_DIFF_SIZE = 5 * 1024 * 1024;
+// Git's own binary check looks for a NUL byte in the first 8000 bytes.
+const BINARY_SNIFF_LENGTH = 8000;
+const BINARY_HINT = 'Binary content is not shown.';
 
 /**
  * Serves immutable Git blob content (and empty placeholders) as in-memory,
@@ -38,6 +48,70 @@ export function gitBlobUri(namespace: string, filePath: string, side: string, co
     return provider.createUri(namespace, filePath, side, content);
 }
 
+/**
+ * Replaces a Git LFS pointer with the content it stands for; other blobs come back unchanged.
+ * `readSmudged` reads the same blob through the LFS smudge filter. Objects too large to diff, or binary
+ * in the copy git-lfs keeps under `gitDir`, are described before smudging; so is content that cannot be
+ * smudged (git-lfs missing, object not fetched).
+ */
+export async function lfsBlobContent(content: string, readSmudged: () => Promise<string>, gitDir?: string): Promise<string> {
+    const pointer = parseLfsPointer(content);
+    if (!pointer) { return content; }
+    if (pointer.size > MAX_LFS_DIFF_SIZE) {
+        return lfsPlaceholder(pointer, `Content larger than ${formatByteSize(MAX_LFS_DIFF_SIZE)} is not shown.`);
+    }
+    if (gitDir && await isBinaryLfsObject(gitDir, pointer)) { return lfsPlaceholder(pointer, BINARY_HINT); }
+    let smudged: string;
+    try {
+        smudged = await readSmudged();
+    } catch (error) {
+        if (isAbortError(error)) { throw error; }
+        return lfsPlaceholder(pointer, 'The object is not available locally. Run "Fetch LFS Objects" and reopen the diff.');
+    }
+    // Without git-lfs, or without an attribute that sends the path through it, `cat-file --filters` returns the pointer again.
+    if (parseLfsPointer(smudged)) {
+        return lfsPlaceholder(
+            pointer,
+            'Install Git LFS, run "git lfs install", and track the path in .gitattributes to compare the stored content.',
+        );
+    }
+    if (smudged.includes('\0')) { return lfsPlaceholder(pointer, BINARY_HINT); }
+    return smudged;
+}
+
+/** Sniffs the object git-lfs stores under `<gitDir>/lfs/objects`; an object that is not fetched reads as text. */
+async function isBinaryLfsObject(gitDir: string, pointer: GitLfsPointer): Promise<boolean> {
+    const hash = pointer.oid.replace(/^sha256:/, '');
+    let file: fs.FileHandle;
+    try {
+        file = await fs.open(path.join(gitDir, 'lfs', 'objects', hash.slice(0, 2), hash.slice(2, 4), hash), 'r');
+    } catch {
+        return false;
+    }
+    try {
+        const buffer = Buffer.alloc(Math.min(BINARY_SNIFF_LENGTH, pointer.size));
+        const { bytesRead } = await file.read(buffer, 0, buffer.length, 0);
+        return buffer.subarray(0, bytesRead).includes(0);
+    } finally {
+        await file.close();
+    }
+}
+
+function lfsPlaceholder(pointer: GitLfsPointer, hint: string): string {
+    return `Stored in Git LFS: ${pointer.oid} (${formatByteSize(pointer.size)})\n${hint}\n`;
+}
+
+function formatByteSize(size: number): string {
+    const units = ['bytes', 'KB', 'MB', 'GB'];
+    let value = size;
+    let unit = 0;
+    while (value >= 1024 && unit < units.length - 1) {
+        value /= 1024;
+        unit++;
+    }
+    return unit === 0 ? `${size} bytes` : `${value.toFixed(1)} ${units[unit]}`;
+}
+
 function blobPath(namespace: string, side: string, filePath: string): string {
     const prefix = sanitizeSegment(`${side}-${namespace}`);
     const normalized = filePath.replace(/\\/g, '/').replace(/^\/+/, '');
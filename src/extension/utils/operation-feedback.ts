@@ -5,3 +5,10 @@ export function operationActionsForStatus(status: OperationStatus): readonly Ope
         ? [OperationNoticeActionKind.ShowOutput]
         : undefined;
 }
+
+/** Actions for an operation that lands in the undo journal: a successful run can be undone from its notice. */
+export function undoableOperationActions(status: OperationStatus): readonly OperationNoticeActionKind[] | undefined {
+    return status === OperationStatus.Success
+        ? [OperationNoticeActionKind.Undo]
+        : operationActionsForStatus(status);
+}
@@ -0,0 +1,107 @@
+import * as vscode from 'vscode';
+import type { GitRepository } from '@application/ports/git-topology';
+import type { GitRangeDiffCommit, GitRangeDiffPair, GitRangeDiffRanges } from '@core/git/domain/git-range-diff';
+import type { RangeDiffExtensionToWebviewMessage, RangeDiffWebviewToExtensionMessage } from '@protocol/range-diff/messages';
+import type { RangeDiffCommit, RangeDiffPair } from '@protocol/range-diff/types';
+import { openChangesBetweenRefs } from '@extension/commands/git-command-helpers';
+import { createErrorPayload } from '@extension/messaging/error-serialization';
+import { appendErrorToOutput } from '@extension/messaging/error-output-channel';
+import { getWebviewHtml } from '@extension/views/webview-html';
+import { movePanelToFloatingWindow } from '@extension/utils/floating-editor-window';
+import { openReadonlyDiffDocument } from '@extension/utils/readonly-diff-documents';
+
+export interface RangeDiffPanelInput extends GitRangeDiffRanges {
+    /** What is being compared, e.g. `feature/login before rebase`. */
+    readonly label: string;
+}
+
+export async function openRangeDiffPanel(repo: GitRepository, extensionUri: vscode.Uri, input: RangeDiffPanelInput): Promise<void> {
+    const title = `Range Diff: ${input.label}`;
+    const panel = vscode.window.createWebviewPanel(
+        'lookGit.rangeDiff',
+        title,
+        vscode.ViewColumn.Active,
+        {
+            enableScripts: true,
+            retainContextWhenHidden: true,
+            localResourceRoots: [vscode.Uri.joinPath(extensionUri, 'dist', 'webview')],
+        },
+    );
+    panel.webview.html = getWebviewHtml(panel.webview, extensionUri, 'range-diff');
+    void movePanelToFloatingWindow(panel, 'Could not open the range diff in a separate window. Continuing in an editor tab.');
+
+    const post = (message: RangeDiffExtensionToWebviewMessage) => { void panel.webview.postMessage(message); };
+    // Interdiffs stay on the extension side; the webview only learns which pairs have one.
+    let pairs: readonly GitRangeDiffPair[] = [];
+    let loadController: AbortController | undefined;
+    const load = async () => {
+        loadController?.abort();
+        const controller = new AbortController();
+        loadController = controller;
+        post({ type: 'rangeDiff/loading', title, oldRange: input.oldRange, newRange: input.newRange });
+        try {
+            const loaded = await repo.rangeDiff(input.oldRange, input.newRange, controller.signal);
+            if (controller.signal.aborted) { return; }
+            pairs = loaded;
+            post({ type: 'rangeDiff/loaded', pairs: loaded.map(toRangeDiffPair) });
+        } catch (error) {
+            if (controller.signal.aborted) { return; }
+            const payload = createErrorPayload(error, { code: 'gitOperationFailed', operation: 'rangeDiff', recoverable: true });
+            appendErrorToOutput(payload.error, 'rangeDiff');
+            post({ type: 'rangeDiff/failed', message: payload.message });
+        } finally {
+            if (loadController === controller) { loadController = undefined; }
+        }
+    };
+    const showError = (error: unknown) => {
+        void vscode.window.showErrorMessage(error instanceof Error ? error.message : String(error));
+    };
+
+    const messageSubscription = panel.webview.onDidReceiveMessage((message: RangeDiffWebviewToExtensionMessage) => {
+        switch (message.type) {
+            case 'rangeDiff/ready':
+            case 'rangeDiff/refresh':
+                void load();
+                return;
+            case 'rangeDiff/openInterdiff': {
+                const pair = pairs.find((candidate) => candidate.oldCommit?.hash === message.oldHash && candidate.newCommit?.hash === message.newHash);
+                if (!pair?.interdiff) {
+                    showError(new Error('The range diff changed since it was loaded. Refresh and try again.'));
+                    return;
+                }
+                void openReadonlyDiffDocument(
+                    `Interdiff ${message.oldHash.substring(0, 7)}..${message.newHash.substring(0, 7)}`,
+                    `${pair.interdiff}\n`,
+                ).catch(showError);
+                return;
+            }
+            case 'rangeDiff/openCommit':
+                void openCommitChanges(repo, message.hash).catch(showError);
+                return;
+        }
+    });
+    panel.onDidDispose(() => {
+        loadController?.abort();
+        messageSubscription.dispose();
+    });
+}
+
+async function openCommitChanges(repo: GitRepository, hash: string): Promise<void> {
+    const parent = (await repo.getCommitDetails(hash)).parentHashes[0];
+    if (!parent) { throw new Error(`${hash.substring(0, 7)} is a root commit and has no parent to compare with.`); }
+    await openChangesBetweenRefs(repo, parent, hash, `Diff ${hash.substring(0, 7)}^..${hash.substring(0, 7)}`);
+}
+
+function toRangeDiffPair(pair: GitRangeDiffPair): RangeDiffPair {
+    return {
+        status: pair.status,
+        ...(pair.oldCommit ? { oldCommit: toRangeDiffCommit(pair.oldCommit) } : {}),
+        ...(pair.newCommit ? { newCommit: toRangeDiffCommit(pair.newCommit) } : {}),
+        subject: pair.subject,
+        ...(pair.interdiff ? { hasInterdiff: true } : {}),
+    };
+}
+
+function toRangeDiffCommit(commit: GitRangeDiffCommit): RangeDiffCommit {
+    return { position: commit.position, hash: commit.hash, shortHash: commit.hash.substring(0, 7) };
+}
@@ -0,0 +1,15 @@
+import * as vscode from 'vscode';
+
+const CONFIGURATION_SECTION = 'lookGit';
+const REBASE_BACKUP_RETENTION_DAYS_KEY = 'rebaseBackups.retentionDays';
+const DEFAULT_REBASE_BACKUP_RETENTION_DAYS = 30;
+
+/** Days a Visual Rebase backup is kept; `0` keeps backups until they are deleted by hand. */
+export function getRebaseBackupRetentionDays(): number {
+    const value = vscode.workspace
+        .getConfiguration(CONFIGURATION_SECTION)
+        .get<unknown>(REBASE_BACKUP_RETENTION_DAYS_KEY, DEFAULT_REBASE_BACKUP_RETENTION_DAYS);
+    return typeof value === 'number' && Number.isFinite(value) && value >= 0
+        ? Math.floor(value)
+        : DEFAULT_REBASE_BACKUP_RETENTION_DAYS;
+}
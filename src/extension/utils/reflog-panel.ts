@@ -0,0 +1,233 @@
+import * as path from 'path';
+import * as vscode from 'vscode';
+import type { GitRepository, Worktree } from '@application/ports/git-topology';
+import { PlanDestructiveOperationUseCase } from '@application/usecases/guards/plan-destructive-operation';
+import type { GitReflogEntry } from '@core/git/domain/git-reflog';
+import type { ReflogEntryAction, ReflogExtensionToWebviewMessage, ReflogPageRequest, ReflogResetMessage, ReflogWebviewToExtensionMessage } from '@protocol/reflog/messages';
+import type { ReflogEntry, ReflogRef } from '@protocol/reflog/types';
+import { openChangesBetweenRefs } from '@extension/commands/git-command-helpers';
+import { currentBranchName } from '@extension/git/current-branch';
+import { createErrorPayload, isAbortError } from '@extension/messaging/error-serialization';
+import { appendErrorToOutput, showErrorOutput } from '@extension/messaging/error-output-channel';
+import { GuardedOperationCoordinator } from '@extension/operations/guarded-operation-coordinator';
+import { getWebviewHtml } from '@extension/views/webview-html';
+import { showBranchNameInput } from '@extension/utils/branch-name-input';
+import { showModalWarningMessage } from '@extension/utils/confirmation';
+import { movePanelToFloatingWindow } from '@extension/utils/floating-editor-window';
+
+const HEAD_REFLOG: ReflogRef = { ref: 'HEAD', label: 'HEAD' };
+
+export async function openReflogPanel(
+    repo: GitRepository,
+    worktree: Worktree,
+    extensionUri: vscode.Uri,
+    onRepositoryUpdated: () => Promise<void>,
+): Promise<void> {
+    const title = `Reflog: ${path.basename(worktree.path)}`;
+    const panel = vscode.window.createWebviewPanel(
+        'lookGit.reflog',
+        title,
+        vscode.ViewColumn.Active,
+        {
+            enableScripts: true,
+            retainContextWhenHidden: true,
+            localResourceRoots: [vscode.Uri.joinPath(extensionUri, 'dist', 'webview')],
+        },
+    );
+    panel.webview.html = getWebviewHtml(panel.webview, extensionUri, 'reflog');
+    void movePanelToFloatingWindow(panel, 'Could not open the reflog in a separate window. Continuing in an editor tab.');
+
+    const post = (message: ReflogExtensionToWebviewMessage) => { void panel.webview.postMessage(message); };
+    const postInit = async () => {
+        post({ type: 'reflog/init', title, refs: await loadReflogRefs(repo), selectedRef: HEAD_REFLOG.ref });
+    };
+    let pageController: AbortController | undefined;
+    let actionRunning = false;
+    const plans = new PlanDestructiveOperationUseCase();
+    const guardedOperations = new GuardedOperationCoordinator();
+    const postActionFailed = (action: ReflogEntryAction, hash: string, error: unknown) => {
+        const payload = createErrorPayload(error, { code: 'gitOperationFailed', operation: `reflog/${action}`, recoverable: true });
+        appendErrorToOutput(payload.error, `reflog/${action}`);
+        post({
+            type: 'reflog/actionFailed',
+            action,
+            hash,
+            message: payload.message,
+            ...(payload.error.details ? { details: payload.error.details } : {}),
+        });
+    };
+    const runAction = (action: ReflogEntryAction, hash: string, operation: () => Promise<string | undefined>) => {
+        if (actionRunning) { return; }
+        actionRunning = true;
+        void operation()
+            .then(async (message) => {
+                post({ type: 'reflog/actionCompleted', action, hash, ...(message ? { message } : {}) });
+                if (action === 'compareWithHead') { return; }
+                await onRepositoryUpdated();
+                await postInit();
+            })
+            .catch((error: unknown) => postActionFailed(action, hash, error))
+            .finally(() => { actionRunning = false; });
+    };
+
+    const runReset = (branch: string, message: ReflogResetMessage) => {
+        runAction('reset', message.hash, async () => {
+            post({ type: 'reflog/actionStarted', action: 'reset', hash: message.hash });
+            await resetToReflogEntry(repo, worktree, message);
+            return `Reset ${branch} to ${message.hash.substring(0, 7)}.`;
+        });
+    };
+    // Plan ids of hard resets awaiting confirmation, mapped to the entry hash their failures are reported against.
+    const pendingResets = new Map<string, string>();
+    // A hard reset discards working tree changes, so it goes through a plan that lists them and is checked again on confirm.
+    const requestHardReset = async (branch: string, message: ReflogResetMessage) => {
+        const plan = await guardedOperations.prepare({
+            title: `Hard Reset ${branch} to ${message.hash.substring(0, 7)}`,
+            confirmLabel: 'Hard Reset',
+            context: () => ({ repositoryId: repo.repoId, worktreeId: worktree.worktreeId }),
+            plan: () => plans.resetHard({ repository: repo, worktree }, message.hash),
+            execute: async () => runReset(branch, message),
+        });
+        pendingResets.set(plan.planId, message.hash);
+        post({ type: 'reflog/operationPlan', plan });
+    };
+
+    const messageSubscription = panel.webview.onDidReceiveMessage((message: ReflogWebviewToExtensionMessage) => {
+        switch (message.type) {
+            case 'reflog/ready':
+                void postInit().catch((error: unknown) => {
+                    void vscode.window.showErrorMessage(`Could not load reflog refs: ${error instanceof Error ? error.message : String(error)}`);
+                });
+                return;
+            case 'reflog/pageRequest': {
+                pageController?.abort();
+                const controller = new AbortController();
+                pageController = controller;
+                void postReflogPage(worktree, post, message, controller.signal).finally(() => {
+                    if (pageController === controller) { pageController = undefined; }
+                });
+                return;
+            }
+            case 'reflog/reset':
+                void currentBranchName(repo).then(async (branch) => {
+                    if (message.mode === 'hard') {
+                        await requestHardReset(branch, message).catch((error: unknown) => postActionFailed('reset', message.hash, error));
+                        return;
+                    }
+                    if (!await confirmReflogReset(branch, message)) { return; }
+                    runReset(branch, message);
+                });
+                return;
+            case 'reflog/acknowledgeOperationPlan': {
+                const { planId } = message.acknowledgement;
+                const hash = pendingResets.get(planId) ?? '';
+                pendingResets.delete(planId);
+                void guardedOperations.acknowledge(message.acknowledgement).catch((error: unknown) => postActionFailed('reset', hash, error));
+                return;
+            }
+            case 'reflog/cancelOperationPlan':
+                pendingResets.delete(message.planId);
+                guardedOperations.cancel(message.planId);
+                return;
+            case 'reflog/createBranch':
+                void showBranchNameInput({ prompt: `New branch name at ${message.hash.substring(0, 7)}:` }).then((branchName) => {
+                    if (!branchName) { return; }
+                    runAction('createBranch', message.hash, async () => {
+                        post({ type: 'reflog/actionStarted', action: 'createBranch', hash: message.hash });
+                        await repo.createBranch(branchName, message.hash);
+                        return `Created branch ${branchName}.`;
+                    });
+                });
+                return;
+            case 'reflog/compareWithHead':
+                runAction('compareWithHead', message.hash, async () => {
+                    await openChangesBetweenRefs(repo, message.hash, 'HEAD', `Diff ${message.hash.substring(0, 7)}..HEAD`);
+                    return undefined;
+                });
+                return;
+            case 'reflog/showOutput':
+                showErrorOutput();
+                return;
+        }
+    });
+    panel.onDidDispose(() => {
+        pageController?.abort();
+        messageSubscription.dispose();
+    });
+}
+
+async function loadReflogRefs(repo: GitRepository): Promise<readonly ReflogRef[]> {
+    const branches = await repo.listBranches();
+    return [
+        HEAD_REFLOG,
+        ...branches
+            .filter((branch) => !branch.isRemote)
+            .map((branch) => ({
+                ref: `refs/heads/${branch.name}`,
+                label: branch.name,
+                ...(branch.isCurrent ? { isCurrent: true } : {}),
+            })),
+    ];
+}
+
+async function postReflogPage(
+    worktree: Worktree,
+    post: (message: ReflogExtensionToWebviewMessage) => void,
+    message: ReflogPageRequest,
+    signal: AbortSignal,
+): Promise<void> {
+    try {
+        const page = await worktree.getReflog(message.ref, {
+            limit: message.page.limit,
+            ...(message.page.offset > 0 ? { encodedCursor: String(message.page.offset) } : {}),
+        }, signal);
+        post({
+            type: 'reflog/pageResponse',
+            requestId: message.requestId,
+            ref: message.ref,
+            page: message.page,
+            entries: page.items.map(toReflogEntry),
+            hasMore: page.hasMore,
+        });
+    } catch (error) {
+        if (isAbortError(error)) { return; }
+        post({
+            type: 'reflog/pageResponse',
+            requestId: message.requestId,
+            ref: message.ref,
+            page: message.page,
+            entries: [],
+            hasMore: false,
+            error: error instanceof Error ? error.message : String(error),
+        });
+    }
+}
+
+async function confirmReflogReset(branch: string, message: ReflogResetMessage): Promise<boolean> {
+    const target = `${branch} to ${message.hash.substring(0, 7)} (${message.selector})`;
+    const label = message.mode === 'soft' ? 'Soft Reset' : 'Mixed Reset';
+    const choice = await showModalWarningMessage(`${label} ${target}?`, label);
+    return choice === label;
+}
+
+async function resetToReflogEntry(repo: GitRepository, worktree: Worktree, message: ReflogResetMessage): Promise<void> {
+    // Selectors shift whenever the ref moves, so only reset when the entry still points at the hash the user saw.
+    const resolved = await repo.resolveRef(message.selector).catch(() => undefined);
+    if (resolved !== message.hash) {
+        throw new Error(`${message.selector} changed since the reflog was loaded. Refresh the reflog and try again.`);
+    }
+    await worktree.restoreFromReflog(message.selector, message.mode);
+}
+
+function toReflogEntry(entry: GitReflogEntry): ReflogEntry {
+    return {
+        selector: entry.selector,
+        hash: entry.hash,
+        shortHash: entry.hash.substring(0, 7),
+        ...(entry.previousHash ? { previousHash: entry.previousHash } : {}),
+        action: entry.action,
+        message: entry.message,
+        commitSubject: entry.commitSubject,
+        date: entry.date,
+    };
+}
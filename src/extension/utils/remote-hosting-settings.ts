@@ -0,0 +1,18 @@
+import * as vscode from 'vscode';
+import type { GitRemoteHostingProvider, GitRemoteHostPattern } from '@core/git/domain/git-remote-hosting';
+
+const CONFIGURATION_SECTION = 'lookGit';
+const REMOTE_HOSTING_HOSTS_KEY = 'remoteHosting.hosts';
+const REMOTE_HOSTING_PROVIDERS: readonly GitRemoteHostingProvider[] = ['github', 'gitlab', 'bitbucket', 'gitea', 'azureDevOps'];
+
+/** Self-hosted instances from `lookGit.remoteHosting.hosts`; entries with an unknown provider are skipped. */
+export function getRemoteHostPatterns(): readonly GitRemoteHostPattern[] {
+    const value = vscode.workspace
+        .getConfiguration(CONFIGURATION_SECTION)
+        .get<unknown>(REMOTE_HOSTING_HOSTS_KEY, {});
+    if (!value || typeof value !== 'object' || Array.isArray(value)) { return []; }
+    return Object.entries(value).flatMap(([host, provider]): GitRemoteHostPattern[] =>
+        host.trim() && REMOTE_HOSTING_PROVIDERS.includes(provider as GitRemoteHostingProvider)
+            ? [{ host, provider: provider as GitRemoteHostingProvider }]
+            : []);
+}
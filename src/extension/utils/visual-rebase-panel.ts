@@ -4,14 +4,19 @@ import * as vscode from 'vscode';
 import { createHash } from 'crypto';
 import type { GitRepository, Worktree } from '@application/ports/git-topology';
 import type { GitCommit } from '@core/git/domain/git-commit';
+import { rebaseBackupRef } from '@core/git/rebase-backups';
 import type { VisualRebaseErrorPush, VisualRebasePausedPush, VisualRebaseRecommendedAction, VisualRebaseWebviewToExtensionMessage } from '@protocol/visual-rebase/messages';
+import type { CommitMessageRules } from '@protocol/shared/commit-message-rules';
+import type { CommitSigningDefaults } from '@protocol/shared/commit';
 import type { VisualRebaseAction, VisualRebaseCommit, VisualRebaseConflictFile, VisualRebasePlanEntry, VisualRebaseRef, VisualRebaseSafety } from '@protocol/visual-rebase/types';
+import { defaultPruneRebaseBackups } from '@extension/adapters/vscode/default-prune-rebase-backups';
 import { assertNoUnmergedFiles } from '@extension/commands/git-command-helpers';
 import { currentBranchName } from '@extension/git/current-branch';
 import { getWebviewHtml } from '@extension/views/webview-html';
 import { openRuntimeThreeWayMergeEditor } from '@extension/utils/runtime-merge-editor';
 import { closePanelAndFloatingWindow, movePanelToFloatingWindow } from '@extension/utils/floating-editor-window';
 import { openCommitFileDiff } from '@extension/utils/diff-uris';
+import { readCommitMessageRules, readCommitSigningDefaults } from '@extension/utils/commit-message-conventions';
 import { isAbortError } from '@extension/messaging/error-serialization';
 
 const MAX_REBASE_COMMITS = 200;
@@ -41,6 +46,8 @@ export async function openVisualRebasePanel(
     const restoredRuntime = existingRebase ? await restoreVisualRebaseRuntime(worktree, storageUri) : undefined;
     const commits = existingRebase ? [] : await loadVisualRebasePreview(repo, options.upstream, currentBranch);
     const refs = await loadVisualRebaseRefs(repo);
+    const { rules } = await readCommitMessageRules(worktree.path);
+    const signing = await readCommitSigningDefaults(repo);
     const safety = existingRebase
         ? await visualRebaseSafetyForExistingRebase(repo, worktree, restoredRuntime)
         : await visualRebaseSafety(repo, worktree, currentBranch, commits.length);
@@ -80,6 +87,8 @@ export async function openVisualRebasePanel(
                     commits,
                     safety,
                     refs,
+                    rules,
+                    signing,
                     existingRebasePause,
                 });
                 return;
@@ -89,6 +98,7 @@ export async function openVisualRebasePanel(
                     upstream: message.rewriteAfter || options.upstream,
                     onto: message.replayOnto || options.onto,
                     plan: message.plan,
+                    ...(message.sign !== undefined ? { sign: message.sign } : {}),
                     backupRef: safety.backupRef,
                     backupTarget,
                     storageUri,
@@ -238,12 +248,11 @@ async function visualRebaseSafety(repo: GitRepository, worktree: Worktree, curre
     const ahead = upstream
         ? await repo.getAheadBehind(currentBranch, upstream).then((value) => value.ahead).catch(() => commitCount)
         : commitCount;
-    const safeBranch = currentBranch.replace(/[^A-Za-z0-9._-]+/g, '-').replace(/^-+|-+$/g, '') || 'branch';
     return {
         workingTreeClean: status.staged.length === 0 && status.unstaged.length === 0 && status.conflicts.length === 0,
         hasUpstream: upstream !== undefined,
         pushedCommits: Math.max(0, commitCount - (Number.isFinite(ahead) ? ahead : commitCount)),
-        backupRef: `refs/look-git/backup/${safeBranch}-${timestampForRef(new Date())}`,
+        backupRef: rebaseBackupRef(currentBranch, new Date()),
     };
 }
 
@@ -270,6 +279,8 @@ interface InitialVisualRebaseState {
     readonly commits: readonly VisualRebaseCommit[];
     readonly safety: VisualRebaseSafety;
     readonly refs: readonly VisualRebaseRef[];
+    readonly rules: CommitMessageRules | undefined;
+    readonly signing: CommitSigningDefaults | undefined;
     readonly existingRebasePause: VisualRebasePausedPush | undefined;
 }
 
@@ -283,6 +294,8 @@ async function postInitialVisualRebaseState(panel: vscode.WebviewPanel, state: I
         commits: state.commits,
         safety: state.safety,
         refs: state.refs,
+        ...(state.rules ? { rules: state.rules } : {}),
+        ...(state.signing ? { signing: state.signing } : {}),
     });
     if (state.existingRebasePause) {
         await panel.webview.postMessage(state.existingRebasePause);
@@ -294,6 +307,7 @@ interface RunVisualRebaseOptions {
     readonly upstream: string;
     readonly onto: string;
     readonly plan: readonly VisualRebasePlanEntry[];
+    readonly sign?: boolean;
     readonly backupRef: string;
     readonly backupTarget: string;
     readonly storageUri: vscode.Uri;
@@ -320,6 +334,8 @@ async function runVisualRebase(
         await validateVisualRebasePlan(worktree, options.plan, mergeCommitHashes);
         await cleanupVisualRebaseRuntime(worktree, options.storageUri, runtime);
         await repo.updateRef(options.backupRef, options.backupTarget);
+        // Retention only tidies up older backups, so a failed prune must not hold up the rebase.
+        await defaultPruneRebaseBackups.execute(repo, options.backupRef).catch(() => undefined);
         const tempDir = await createVisualRebaseRuntimeDir(worktree, options.storageUri);
         const todoPath = path.join(tempDir, 'git-rebase-todo');
         const editorPath = path.join(tempDir, 'sequence-editor.cjs');
@@ -345,6 +361,7 @@ async function runVisualRebase(
             rebaseMerges: mergeAware,
             onto: options.onto,
             editorEnv: runtime.env,
+            ...(options.sign !== undefined ? { sign: options.sign } : {}),
         });
         keepRuntime = await postRebasePausedOrCompleted(worktree, panel, options.backupRef);
     } catch (error) {
@@ -761,8 +778,3 @@ function isRecord(value: unknown): value is Record<string, unknown> {
 async function isRebaseInProgress(worktree: Worktree): Promise<boolean> {
     return (await worktree.getStatus().catch(() => undefined))?.conflictState === 'rebase';
 }
-
-function timestampForRef(date: Date): string {
-    const pad = (value: number) => String(value).padStart(2, '0');
-    return `${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}-${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}`;
-}
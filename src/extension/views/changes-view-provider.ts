@@ -1,3 +1,4 @@
+import * as path from 'path';
 import * as vscode from 'vscode';
 import type { RepositoryContextAccessor } from '@extension/repositories/repository-selection-store';
 import type { ChangesExtensionToWebviewMessage, ChangesOperationStatusPush, ChangesSortPreference, ChangesToolbarCommand, ChangesViewPreference, ChangesWebviewToExtensionMessage, RepoContextChangedPush, RepoNavigationStartedPush } from '@protocol/changes/messages';
@@ -6,6 +7,7 @@ import type { RepositoriesChangedPush, RepositoryNavigationMessage } from '@prot
 import type { RepoContext } from '@core/git/domain/repo-context';
 import { ChangesMessageRouter, buildStatusData, emptyStatusData } from '@extension/messaging/changes-message-router';
 import type { GitStatus } from '@core/git/domain/git-status';
+import type { GitIgnoreTarget } from '@core/git/domain/git-ignore';
 import type { RepositoryRegistry } from '@extension/repositories/repository-registry';
 import { OperationStatus } from '@protocol/shared/operation';
 import { createErrorPayload, isAbortError } from '@extension/messaging/error-serialization';
@@ -16,6 +18,8 @@ import { CreateChangesPatchResultKind, type CreateChangesPatchResult, type Creat
 import { ApplyPatchMode, ApplyPatchResultKind, ApplyPatchUseCase } from '@application/usecases/changes/apply-patch';
 import type { Worktree } from '@application/ports/git-topology';
 import { ExplainSelectedChangesUseCase, type ExplainSelectedChangesInput } from '@application/usecases/changes/explain-selected-changes';
+import { PartialChangeCommand, StagePartialChangesUseCase } from '@application/usecases/changes/stage-partial-changes';
+import type { DiffLineRange } from '@core/git/build-partial-patch';
 import { VscodeLanguageModelCommitMessageGenerator } from '@extension/adapters/vscode/vscode-language-model-commit-message-generator';
 import { VscodeLanguageModelDiffExplainer } from '@extension/adapters/vscode/vscode-language-model-diff-explainer';
 import { defaultCreateChangesPatch } from '@extension/adapters/vscode/default-create-changes-patch';
@@ -24,11 +28,16 @@ import { requireRuntimeLocator } from '@extension/repositories/runtime-repositor
 import { openDiffExplanationDocument, showDiffExplanationError } from '@extension/utils/diff-explanation-document';
 import { notifyRuntimeConflictsDetected } from '@extension/utils/runtime-merge-editor';
 import { operationActionsForStatus } from '@extension/utils/operation-feedback';
+import { openBisectPanel } from '@extension/utils/bisect-panel';
+import { openCleanPanel } from '@extension/utils/clean-panel';
+import { explainIgnoreRule, ignoreFiles } from '@extension/commands/ignore-commands';
+import { lockLfsFiles, unlockLfsFiles } from '@extension/commands/lfs-commands';
 import { withCancellationSignal } from '@extension/utils/vscode-cancellation';
 import { webviewFontSizeMessage } from '@extension/views/webview-font';
 import { statusDataEqual } from '@protocol/shared/protocol-data-equality';
 import { excludeNestedRepositoryChanges, nestedRepositoryPaths } from '@extension/repositories/nested-repository-boundaries';
 import { DISTINCT_MESSAGE_LAST_VALUE_ONLY, DistinctMessagePoster } from '@extension/messaging/distinct-message-poster';
+import { showModalWarningMessage } from '@extension/utils/confirmation';
 
 const APPLY_PATCH_FROM_CLIPBOARD = 'From Clipboard';
 const APPLY_PATCH_FROM_FILE = 'From File...';
@@ -69,6 +78,11 @@ enum ChangesSelectionCommandKind {
     ExplainDiff,
     CreatePatch,
     Discard,
+    AddToGitignore,
+    AddToInfoExclude,
+    ExplainIgnore,
+    LockLfs,
+    UnlockLfs,
 }
 
 interface ChangesSelectionCommandDescriptor {
@@ -89,6 +103,9 @@ const SHARED_TOOLBAR_COMMANDS: readonly ChangesToolbarCommand[] = [
     'pushToForce',
     'fetchPrune',
     'fetchAll',
+    'fetchLfsObjects',
+    'fetchNotes',
+    'pushNotes',
     'undoLastCommit',
     'abortRebase',
     'mergeBranch',
@@ -111,14 +128,16 @@ const SHARED_TOOLBAR_COMMANDS: readonly ChangesToolbarCommand[] = [
     'dropStash',
     'dropAllStashes',
     'viewStash',
+    'branchFromStash',
     'createTag',
     'deleteTag',
     'deleteRemoteTag',
     'pushTags',
     'showGitOutput',
+    'showRepositoryInfo',
 ];
 
-const REPOSITORY_TOOLBAR_COMMANDS: readonly ChangesToolbarCommand[] = ['openGraph', 'applyPatch', ...SHARED_TOOLBAR_COMMANDS];
+const REPOSITORY_TOOLBAR_COMMANDS: readonly ChangesToolbarCommand[] = ['openGraph', 'applyPatch', 'cleanUntracked', ...SHARED_TOOLBAR_COMMANDS];
 const SUBMODULE_TOOLBAR_COMMANDS = SHARED_TOOLBAR_COMMANDS;
 
 const CHANGES_VIEW_COMMANDS: readonly { readonly ids: readonly string[]; readonly viewMode: ChangesViewPreference }[] = [
@@ -169,6 +188,19 @@ const CHANGES_SELECTION_NATIVE_COMMANDS: readonly ChangesSelectionCommandDescrip
     { id: 'lookGit.changes.selection.explainDiff', kind: ChangesSelectionCommandKind.ExplainDiff },
     { id: 'lookGit.changes.selection.createPatch', kind: ChangesSelectionCommandKind.CreatePatch },
     { id: 'lookGit.changes.selection.discard', kind: ChangesSelectionCommandKind.Discard },
+    { id: 'lookGit.changes.selection.addToGitignore', kind: ChangesSelectionCommandKind.AddToGitignore },
+    { id: 'lookGit.changes.selection.addToInfoExclude', kind: ChangesSelectionCommandKind.AddToInfoExclude },
+    { id: 'lookGit.changes.selection.explainIgnore', kind: ChangesSelectionCommandKind.ExplainIgnore },
+    { id: 'lookGit.changes.selection.lockLfs', kind: ChangesSelectionCommandKind.LockLfs },
+    { id: 'lookGit.changes.selection.unlockLfs', kind: ChangesSelectionCommandKind.UnlockLfs },
+];
+
+const CHANGES_STASH_BRANCH_COMMAND = 'lookGit.changes.stashItem.createBranch';
+
+const CHANGES_EDITOR_LINE_COMMANDS: readonly { readonly id: string; readonly command: PartialChangeCommand }[] = [
+    { id: 'lookGit.changes.stageSelectedLines', command: PartialChangeCommand.Stage },
+    { id: 'lookGit.changes.unstageSelectedLines', command: PartialChangeCommand.Unstage },
+    { id: 'lookGit.changes.discardSelectedLines', command: PartialChangeCommand.Discard },
 ];
 
 function toolbarDescriptor(scope: ChangesCommandScope, toolbarCommand: ChangesToolbarCommand): ChangesCommandDescriptor {
@@ -216,6 +248,7 @@ export class ChangesViewProvider implements vscode.WebviewViewProvider {
     );
     private readonly squashMessagePresetByWorktreeId = new Map<string, string>();
     private commitMessagePresetSequence = 0;
+    private readonly stagePartialChanges = new StagePartialChangesUseCase();
 
     constructor(
         private readonly extensionUri: vscode.Uri,
@@ -263,6 +296,10 @@ export class ChangesViewProvider implements vscode.WebviewViewProvider {
                 void this.createPatchFromSelectedChanges(msg.target);
                 return;
             }
+            if (msg.type === 'changes/bisectCommand' && msg.command === 'openPanel') {
+                void this.openBisectPanel();
+                return;
+            }
             if (msg.type === 'changes/explainRepositoryChanges') {
                 void this.explainRepositoryChanges(msg.submodulePath);
                 return;
@@ -299,9 +336,27 @@ export class ChangesViewProvider implements vscode.WebviewViewProvider {
             ...CHANGES_NATIVE_COMMANDS.map((command) => vscode.commands.registerCommand(command.id, () => this.runNativeHandler(command.id, () => this.runNativeCommand(command)))),
             ...CHANGES_COMMIT_COMPOSER_NATIVE_COMMANDS.map((command) => vscode.commands.registerCommand(command.id, () => this.runNativeHandler(command.id, () => this.runCommitComposerNativeCommand(command)))),
             ...CHANGES_SELECTION_NATIVE_COMMANDS.map((command) => vscode.commands.registerCommand(command.id, () => this.runNativeHandler(command.id, () => this.runSelectionNativeCommand(command)))),
+            vscode.commands.registerCommand(CHANGES_STASH_BRANCH_COMMAND, () => this.runNativeHandler(CHANGES_STASH_BRANCH_COMMAND, () => this.createBranchFromContextStash())),
+            ...CHANGES_EDITOR_LINE_COMMANDS.map(({ id, command }) => vscode.commands.registerCommand(id, () => this.runNativeHandler(id, () => this.applyEditorSelection(command)))),
         ];
     }
 
+    private async applyEditorSelection(command: PartialChangeCommand): Promise<void> {
+        const editor = vscode.window.activeTextEditor;
+        if (!editor || editor.document.uri.scheme !== 'file') { throw new Error('Selected lines can only be changed in a local file.'); }
+        // Line numbers are matched against the file on disk, so unsaved edits would shift the selection.
+        if (editor.document.isDirty) { throw new Error(`Save ${path.basename(editor.document.uri.fsPath)} before changing selected lines.`); }
+        const worktree = this.requireCurrentRuntimeWorktree();
+        const filePath = worktreeRelativePath(worktree.path, editor.document.uri.fsPath);
+        if (command === PartialChangeCommand.Discard) {
+            const choice = await showModalWarningMessage(`Discard the selected lines in "${filePath}"? This cannot be undone.`, 'Discard');
+            if (choice !== 'Discard') { return; }
+        }
+        await this.stagePartialChanges.applyLineRange(worktree, command, filePath, editorSelectionLineRange(editor.selection));
+        await this.onRepositoryUpdated();
+        this.postMessage({ type: 'changes/fileHunksInvalidated' });
+    }
+
     private async runNativeHandler(commandId: string, handler: () => Promise<void>): Promise<void> {
         try {
             await handler();
@@ -341,9 +396,61 @@ export class ChangesViewProvider implements vscode.WebviewViewProvider {
                     ? { type: 'changes/submoduleDiscardFiles', submodulePath: target.submodulePath, filePaths: target.discardFilePaths }
                     : { type: 'changes/discardFiles', filePaths: target.discardFilePaths });
                 return;
+            case ChangesSelectionCommandKind.AddToGitignore:
+                await this.ignoreSelectedFiles(target, 'gitignore');
+                return;
+            case ChangesSelectionCommandKind.AddToInfoExclude:
+                await this.ignoreSelectedFiles(target, 'infoExclude');
+                return;
+            case ChangesSelectionCommandKind.ExplainIgnore: {
+                const [filePath] = [...target.patchUntrackedFilePaths, ...(target.ignoredFilePaths ?? [])];
+                if (!filePath) {
+                    await vscode.window.showWarningMessage('Select an untracked or ignored file to explain.');
+                    return;
+                }
+                await explainIgnoreRule(await this.selectionWorktree(target), filePath);
+                return;
+            }
+            case ChangesSelectionCommandKind.LockLfs:
+            case ChangesSelectionCommandKind.UnlockLfs: {
+                const filePaths = target.lfsFilePaths ?? [];
+                if (filePaths.length === 0) {
+                    await vscode.window.showWarningMessage('Select a file tracked by Git LFS.');
+                    return;
+                }
+                const worktree = await this.selectionWorktree(target);
+                await (command.kind === ChangesSelectionCommandKind.LockLfs ? lockLfsFiles(worktree, filePaths) : unlockLfsFiles(worktree, filePaths));
+                return;
+            }
         }
     }
 
+    private async createBranchFromContextStash(): Promise<void> {
+        const target = this.contextTarget;
+        if (!target || target.kind !== 'stash') {
+            await vscode.window.showWarningMessage('No stash is selected for this command.');
+            return;
+        }
+        await this.router?.handle(target.submodulePath
+            ? { type: 'changes/submoduleStashBranch', submodulePath: target.submodulePath, index: target.index }
+            : { type: 'changes/stashBranch', index: target.index });
+    }
+
+    private async ignoreSelectedFiles(target: Extract<ChangesContextTarget, { readonly kind: 'selection' }>, ignoreTarget: GitIgnoreTarget): Promise<void> {
+        if (target.patchUntrackedFilePaths.length === 0) {
+            await vscode.window.showWarningMessage('Only untracked files can be added to ignore rules.');
+            return;
+        }
+        const edits = await ignoreFiles(await this.selectionWorktree(target), target.patchUntrackedFilePaths, ignoreTarget);
+        if (edits?.some((edit) => edit.added)) { await this.onRepositoryUpdated(); }
+    }
+
+    private async selectionWorktree(target: Extract<ChangesContextTarget, { readonly kind: 'selection' }>): Promise<Worktree> {
+        return target.submodulePath
+            ? this.requireRuntimeSubmoduleWorktree(await this.requireKnownSubmodulePath(target.submodulePath))
+            : this.requireCurrentRuntimeWorktree();
+    }
+
     private async explainSelectedDiff(target: Extract<ChangesContextTarget, { readonly kind: 'selection' }>): Promise<void> {
         try {
             const worktree = target.submodulePath
@@ -366,6 +473,14 @@ export class ChangesViewProvider implements vscode.WebviewViewProvider {
         }
     }
 
+    private async openBisectPanel(): Promise<void> {
+        try {
+            await openBisectPanel(this.requireCurrentRuntimeWorktree(), this.extensionUri, this.onRepositoryUpdated);
+        } catch (error) {
+            void vscode.window.showErrorMessage(`Could not open bisect: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
     private async explainRepositoryChanges(submodulePath: string | undefined): Promise<void> {
         try {
             const worktree = submodulePath
@@ -508,6 +623,7 @@ export class ChangesViewProvider implements vscode.WebviewViewProvider {
                 submodulePath: target.submodulePath,
                 message: target.message,
                 mode: command.mode,
+                ...(target.sign !== undefined ? { sign: target.sign } : {}),
             });
             return;
         }
@@ -515,6 +631,7 @@ export class ChangesViewProvider implements vscode.WebviewViewProvider {
             type: 'changes/commit',
             message: target.message,
             mode: command.mode,
+            ...(target.sign !== undefined ? { sign: target.sign } : {}),
         });
     }
 
@@ -566,6 +683,11 @@ export class ChangesViewProvider implements vscode.WebviewViewProvider {
                 await this.applyPatchToRepository(this.requireCurrentRuntimeWorktree());
                 return;
             }
+            if (command === 'cleanUntracked') {
+                const locator = requireRuntimeLocator(this.runtimeRepositories, this.repositories.currentContext);
+                await openCleanPanel(locator.repository(), locator.worktree(), this.extensionUri, this.onRepositoryUpdated);
+                return;
+            }
             await this.router?.handleToolbarCommand(command);
             return;
         }
@@ -705,14 +827,14 @@ export class ChangesViewProvider implements vscode.WebviewViewProvider {
                 }
                 if (!await this.beforeRefresh()) { continue; }
 
-                const { status, stashes, submodules, currentBranch, worktree } = await this.loadChangesStatus(controller.signal);
+                const { status, stashes, submodules, currentBranch, bisect, worktree } = await this.loadChangesStatus(controller.signal);
                 const visibleStatus = excludeNestedRepositoryChanges(
                     status,
                     nestedRepositoryPaths(context, this.repositories.contexts),
                 );
                 this.router?.setKnownSubmodulePaths(submodules.map((submodule) => submodule.path));
                 this.updateBadge(visibleStatus.staged.length + visibleStatus.unstaged.length + visibleStatus.conflicts.length);
-                this.postStatusDataIfChanged(buildStatusData(visibleStatus, stashes, submodules, currentBranch));
+                this.postStatusDataIfChanged(buildStatusData(visibleStatus, stashes, submodules, currentBranch, bisect));
                 await this.postSquashMergeMessagePresetIfNeeded(worktree, controller.signal);
             } catch (error) {
                 if (isAbortError(error)) { continue; }
@@ -973,3 +1095,19 @@ function uniqueStatusPaths(entries: readonly GitStatus['staged'][number][]): rea
 function isUntrackedStatusEntry(entry: GitStatus['unstaged'][number]): boolean {
     return entry.indexStatus === '?' || entry.workTreeStatus === '?';
 }
+
+function worktreeRelativePath(worktreePath: string, filePath: string): string {
+    const relative = path.relative(worktreePath, filePath);
+    if (!relative || path.isAbsolute(relative) || relative.split(path.sep).includes('..')) {
+        throw new Error('The active file is outside the current repository.');
+    }
+    return relative.split(path.sep).join('/');
+}
+
+/** 1-based lines covered by the selection; a selection ending at column 0 does not include that last line. */
+function editorSelectionLineRange(selection: vscode.Selection): DiffLineRange {
+    const endLine = selection.end.line > selection.start.line && selection.end.character === 0
+        ? selection.end.line
+        : selection.end.line + 1;
+    return { startLine: selection.start.line + 1, endLine };
+}
@@ -1,6 +1,7 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
-import type { GitCommit, GitFileChange } from '@core/git/domain/git-commit';
+import { randomUUID } from 'crypto';
+import type { GitCommit, GitFileChange, GitFileRevision } from '@core/git/domain/git-commit';
 import type { GitBranch, GitTag } from '@core/git/domain/git-status';
 import type { GitRepository, Worktree } from '@application/ports/git-topology';
 import { GitPushOutcome } from '@application/ports/git-capabilities';
@@ -10,10 +11,12 @@ import { OperationStatus } from '@protocol/shared/operation';
 import type { RepositoriesChangedPush, RepositoryNavigationMessage } from '@protocol/shared/repo';
 import type { RepoContext } from '@core/git/domain/repo-context';
 import type { CommitCommand } from '@protocol/graph/messages';
-import type { HistoryCommitDetails, HistoryCommitRef, HistoryContextTarget, HistoryData } from '@protocol/history/types';
-import type { HistoryCommitDetailsRequest, HistoryDataRequest, HistoryExtensionToWebviewMessage, HistoryOpenDiffRequest, HistoryOperationStatusPush, HistoryToolbarCommand, HistoryWebviewToExtensionMessage, RepoContextChangedPush, RepoNavigationStartedPush } from '@protocol/history/messages';
+import type { HistoryCommitDetails, HistoryCommitFile, HistoryCommitRef, HistoryContextTarget, HistoryData } from '@protocol/history/types';
+import type { HistoryBlameAtRevisionRequest, HistoryCommitDetailsRequest, HistoryCompareWithWorkingFileRequest, HistoryDataRequest, HistoryExtensionToWebviewMessage, HistoryOpenDiffRequest, HistoryOperationStatusPush, HistoryToolbarCommand, HistoryWebviewToExtensionMessage, RepoContextChangedPush, RepoNavigationStartedPush } from '@protocol/history/messages';
 import { runCommitCommand } from '@extension/commands/commit-commands';
+import { GuardedOperationCoordinator, type GuardedOperation } from '@extension/operations/guarded-operation-coordinator';
 import { runBranchCommand } from '@extension/commands/branch-commands';
+import type { BlameRevisionTarget } from '@extension/commands/git-blame-annotations-command';
 import { createErrorPayload, isAbortError } from '@extension/messaging/error-serialization';
 import { appendErrorToOutput, showErrorOutput } from '@extension/messaging/error-output-channel';
 import { getWebviewHtml } from '@extension/views/webview-html';
@@ -22,13 +25,15 @@ import { webviewFontSizeMessage } from '@extension/views/webview-font';
 import { operationActionsForStatus } from '@extension/utils/operation-feedback';
 import type { GitSubmodule } from '@core/git/domain/git-worktree';
 import { getReachableCommitHashes } from '@application/usecases/commits/get-reachable-commit-hashes';
-import { openCommitFileDiff } from '@extension/utils/diff-uris';
+import { markLfsCommitFiles } from '@application/usecases/commits/mark-lfs-commit-files';
+import { openCommitFileDiff, openRevisionWorkingFileDiff } from '@extension/utils/diff-uris';
 import type { RepositoryRegistry } from '@extension/repositories/repository-registry';
 import type { RuntimeCommandTargets } from '@extension/commands/runtime-command-targets';
 import { requireRuntimeLocator } from '@extension/repositories/runtime-repository-locator';
 import { historyDataEqual } from '@protocol/shared/protocol-data-equality';
 import { DISTINCT_MESSAGE_LAST_VALUE_ONLY, DistinctMessagePoster } from '@extension/messaging/distinct-message-poster';
 import { movePanelToFloatingWindow } from '@extension/utils/floating-editor-window';
+import { confirmOutgoingCommitMessages, confirmWorktreeOutgoingCommitMessages } from '@extension/utils/commit-message-conventions';
 
 const DEFAULT_PAGE: Pagination = { offset: 0, limit: 50 };
 const MAX_PAGE_LIMIT = 300;
@@ -56,6 +61,8 @@ const HISTORY_COMMIT_COMMANDS: readonly { readonly id: string; readonly command:
     { id: 'lookGit.history.pushAllUpToHere', command: 'pushAllUpToHere' },
     { id: 'lookGit.history.newBranch', command: 'newBranch' },
     { id: 'lookGit.history.newTag', command: 'newTag' },
+    { id: 'lookGit.history.editNote', command: 'editNote' },
+    { id: 'lookGit.history.removeNote', command: 'removeNote' },
 ];
 const HISTORY_TITLE_COMMANDS: readonly { readonly id: string; readonly command: HistoryToolbarCommand }[] = [
     { id: 'lookGit.history.selectRepositoryScope', command: 'selectRepositoryScope' },
@@ -72,6 +79,7 @@ const HISTORY_FILE_VIEW_COMMANDS: readonly { readonly id: string; readonly mode:
 const SHOW_FILE_HISTORY_COMMAND = 'lookGit.file.showHistory';
 const SHOW_FILE_HISTORY_FOR_SELECTION_COMMAND = 'lookGit.file.showHistoryForSelection';
 const REVEAL_HISTORY_COMMIT_COMMAND = 'lookGit.history.revealCommit';
+const SHOW_BLAME_AT_REVISION_COMMAND = 'lookGit.blame.showAtRevision';
 
 export class CommitHistoryViewProvider implements vscode.WebviewViewProvider {
     static readonly viewType = 'lookGit.commitHistory';
@@ -86,6 +94,7 @@ export class CommitHistoryViewProvider implements vscode.WebviewViewProvider {
     private refCache?: HistoryRefCache;
     private operationSequence = 0;
     private repositoryRequestController = new AbortController();
+    private readonly guardedOperations = new GuardedOperationCoordinator();
     private readonly historyDataPoster = new DistinctMessagePoster<HistoryExtensionToWebviewMessage, HistoryData>(
         (message) => { this.postMessage(message); },
         historyDataEqual,
@@ -132,6 +141,7 @@ export class CommitHistoryViewProvider implements vscode.WebviewViewProvider {
             vscode.commands.registerCommand('lookGit.history.goToChildCommit', () => this.selectContextCommit('child')),
             vscode.commands.registerCommand('lookGit.history.goToParentCommit', () => this.selectContextCommit('parent')),
             vscode.commands.registerCommand('lookGit.history.openFileDiff', () => this.openContextFileDiff()),
+            vscode.commands.registerCommand('lookGit.history.blameFileAtRevision', () => this.blameContextFileAtRevision()),
         ];
     }
 
@@ -175,6 +185,9 @@ export class CommitHistoryViewProvider implements vscode.WebviewViewProvider {
             case 'history/openDiff':
                 await this.handleOpenDiff(message);
                 return;
+            case 'history/compareWithWorkingFile':
+            case 'history/blameAtRevision':
+                return;
             case 'history/contextTarget':
                 this.contextTarget = message.target;
                 this.contextRepository = undefined;
@@ -185,6 +198,16 @@ export class CommitHistoryViewProvider implements vscode.WebviewViewProvider {
             case 'history/showOutput':
                 showErrorOutput();
                 return;
+            case 'history/acknowledgeOperationPlan':
+                try {
+                    await this.guardedOperations.acknowledge(message.acknowledgement);
+                } catch (error) {
+                    this.postHistoryError(error, 'history/acknowledgeOperationPlan', 'gitOperationFailed');
+                }
+                return;
+            case 'history/cancelOperationPlan':
+                this.guardedOperations.cancel(message.planId);
+                return;
         }
     }
 
@@ -296,6 +319,13 @@ export class CommitHistoryViewProvider implements vscode.WebviewViewProvider {
             const selectedBranchWorktree = selectedBranch ? runtimeWorktreeForBranch(runtimeTargets.worktrees ?? [], selectedBranch) : undefined;
             conflictWorktree = selectedBranchWorktree ?? (selectedBranch ? undefined : this.requireRuntimeWorktreeForHistoryScope());
             const existingConflicts = operation === 'pull' && conflictWorktree ? await conflictFileSet(conflictWorktree) : undefined;
+            if (operation === 'push') {
+                const pushWorktree = selectedBranchWorktree ?? this.requireRuntimeWorktreeForHistoryScope();
+                const confirmed = selectedBranch
+                    ? await confirmOutgoingCommitMessages(runtimeRepository, pushWorktree.path, selectedBranch)
+                    : await confirmWorktreeOutgoingCommitMessages(runtimeRepository, pushWorktree);
+                if (!confirmed) { return; }
+            }
             if (!nativeFileContext) {
                 this.postHistoryOperation({ operationId, status: OperationStatus.Running, command: operation });
             }
@@ -513,13 +543,30 @@ export class CommitHistoryViewProvider implements vscode.WebviewViewProvider {
                 this.storageUri,
                 undefined,
                 this.runtimeTargetsForHistoryScope(),
+                (operation) => this.requestGuardedOperation(operation),
             );
             if (shouldRefresh) { await this.refresh(); }
+            // Notes leave the commit list unchanged, so only the expanded details need the new text.
+            if ((command === 'editNote' || command === 'removeNote') && !this.contextRepository) {
+                await this.handleCommitDetailsRequest({ type: 'history/commitDetailsRequest', requestId: randomUUID(), hash: target.hash });
+            }
         } catch (error) {
             this.postHistoryError(error, `history/${command}`, 'gitOperationFailed');
         }
     }
 
+    /** Sends the plan for a destructive commit command to the view; the command runs from `history/acknowledgeOperationPlan`. */
+    private async requestGuardedOperation(operation: GuardedOperation): Promise<void> {
+        const plan = await this.guardedOperations.prepare({
+            ...operation,
+            execute: async () => {
+                await operation.execute();
+                await this.refresh();
+            },
+        });
+        this.postMessage({ type: 'history/operationPlan', plan });
+    }
+
     private selectContextCommit(direction: 'child' | 'parent'): void {
         const target = this.contextTarget;
         if (target?.kind !== 'commit') {
@@ -558,6 +605,19 @@ export class CommitHistoryViewProvider implements vscode.WebviewViewProvider {
         }
     }
 
+    private async blameContextFileAtRevision(): Promise<void> {
+        const target = this.contextTarget;
+        if (target?.kind !== 'file') {
+            this.postHistoryError(new Error('No history file is selected for this command.'), 'history/blameAtRevision', 'validationFailed');
+            return;
+        }
+        try {
+            await blameFileAtRevision(this.contextRepository ?? this.requireRuntimeRepository(), target.commitHash, target.file);
+        } catch (error) {
+            this.postHistoryError(error, 'history/blameAtRevision', 'vscodeCommandFailed');
+        }
+    }
+
     private postHistoryError(error: unknown, operation: string, code: ErrorCode, requestId?: RequestId): void {
         const payload = createErrorPayload(error, {
             code,
@@ -842,6 +902,12 @@ class FileHistoryPanelController {
             case 'history/openDiff':
                 await this.handleOpenDiff(message);
                 return;
+            case 'history/compareWithWorkingFile':
+                await this.handleCompareWithWorkingFile(message);
+                return;
+            case 'history/blameAtRevision':
+                await this.handleBlameAtRevision(message);
+                return;
             case 'history/contextTarget':
                 this.onContextTarget(message.target);
                 return;
@@ -849,6 +915,8 @@ class FileHistoryPanelController {
                 showErrorOutput();
                 return;
             case 'history/toolbarCommand':
+            case 'history/acknowledgeOperationPlan':
+            case 'history/cancelOperationPlan':
                 return;
         }
     }
@@ -911,6 +979,22 @@ class FileHistoryPanelController {
         }
     }
 
+    private async handleCompareWithWorkingFile(message: HistoryCompareWithWorkingFileRequest): Promise<void> {
+        try {
+            await openRevisionWorkingFileDiff(this.repo, message.commitHash, message.file, this.pathFilter);
+        } catch (error) {
+            this.postHistoryError(error, 'history/compareWithWorkingFile', 'vscodeCommandFailed');
+        }
+    }
+
+    private async handleBlameAtRevision(message: HistoryBlameAtRevisionRequest): Promise<void> {
+        try {
+            await blameFileAtRevision(this.repo, message.commitHash, message.file);
+        } catch (error) {
+            this.postHistoryError(error, 'history/blameAtRevision', 'vscodeCommandFailed');
+        }
+    }
+
     private postMessage(message: HistoryExtensionToWebviewMessage): void {
         void this.panel.webview.postMessage(message);
     }
@@ -942,9 +1026,10 @@ async function loadHistoryPageFor(
     options: LoadHistoryPageOptions,
 ): Promise<HistoryData> {
     const pageLimit = page.limit + 1;
-    const [commits, refs] = await Promise.all([
+    const [commits, refs, revisions] = await Promise.all([
         loadHistoryCommits(repo, pageLimit, page.offset, options.selectedHistoryRef, options.pathFilter, options.lineRange, options.signal),
         options.loadRefs(),
+        loadFileRevisions(repo, page, options),
     ]);
     const visibleCommits = commits.slice(0, page.limit);
     const currentBranchCommits = options.selectedHistoryRef
@@ -955,6 +1040,7 @@ async function loadHistoryPageFor(
             commit,
             refsForCommit(commit, refs.branches, refs.tags),
             !currentBranchCommits.has(commit.hash),
+            revisions.get(commit.hash),
         )),
         page,
         hasMore: commits.length > page.limit,
@@ -994,15 +1080,29 @@ async function loadHistoryCommits(
     return page.items;
 }
 
+/** Maps each commit of a followed file history to the file change it made, so renamed paths stay visible. */
+async function loadFileRevisions(
+    repo: GitRepository,
+    page: Pagination,
+    options: LoadHistoryPageOptions,
+): Promise<ReadonlyMap<string, GitFileRevision>> {
+    if (!options.pathFilter || options.lineRange || options.selectedHistoryRef) { return new Map(); }
+    const pageRequest = { limit: page.limit, encodedCursor: page.offset > 0 ? String(page.offset) : undefined };
+    const revisions = await repo.getFileRenameHistory(options.pathFilter, pageRequest, options.signal);
+    return new Map(revisions.items.map((revision) => [revision.commitHash, revision]));
+}
+
 async function loadCommitDetails(repo: GitRepository, hash: string, signal?: AbortSignal): Promise<HistoryCommitDetails> {
-    const [fullMessage, files] = await Promise.all([
+    const [fullMessage, files, notes] = await Promise.all([
         repo.getCommitMessage(hash, signal),
         repo.getCommitFiles(hash, signal),
+        repo.getCommitNotes(hash, signal),
     ]);
     return {
         hash,
         fullMessage,
-        files: files.map(toHistoryCommitFile),
+        files: (await markLfsCommitFiles(repo, files, signal)).map(toHistoryCommitFile),
+        ...(notes.length > 0 ? { notes } : {}),
     };
 }
 
@@ -1031,7 +1131,12 @@ async function openHistoryDiff(repo: GitRepository, message: HistoryOpenDiffRequ
     await openCommitFileDiff(repo, message);
 }
 
-function toHistoryCommit(commit: GitCommit, refs: readonly HistoryCommitRef[], canCherryPick: boolean) {
+async function blameFileAtRevision(repo: GitRepository, commitHash: string, file: HistoryCommitFile): Promise<void> {
+    const target: BlameRevisionTarget = { repoRoot: repo.cwd, filePath: file.filePath, revision: commitHash };
+    await vscode.commands.executeCommand(SHOW_BLAME_AT_REVISION_COMMAND, target);
+}
+
+function toHistoryCommit(commit: GitCommit, refs: readonly HistoryCommitRef[], canCherryPick: boolean, revision?: GitFileRevision) {
     return {
         hash: commit.hash,
         shortHash: commit.shortHash,
@@ -1041,6 +1146,8 @@ function toHistoryCommit(commit: GitCommit, refs: readonly HistoryCommitRef[], c
         parentHashes: commit.parentHashes,
         refs,
         canCherryPick,
+        ...(commit.signature ? { signature: commit.signature } : {}),
+        ...(revision ? { file: toHistoryCommitFile(revision) } : {}),
     };
 }
 
@@ -1091,6 +1198,7 @@ function toHistoryCommitFile(file: GitFileChange) {
         origPath: file.origPath,
         parentHash: file.parentHash,
         isSubmodule: file.isSubmodule,
+        isLfs: file.isLfs,
     };
 }
 
@@ -2,7 +2,7 @@ import * as vscode from 'vscode';
 import type { RepositoryContextAccessor } from '@extension/repositories/repository-selection-store';
 import type { GitRepository } from '@application/ports/git-topology';
 import type { GitBranch } from '@core/git/domain/git-status';
-import type { BranchCommand, CommitCommand, GraphWebviewToExtensionMessage, RepoContextChangedPush, RepoNavigationStartedPush, WorktreeCommand } from '@protocol/graph/messages';
+import type { BranchCommand, CommitCommand, GraphWebviewToExtensionMessage, RebaseBackupCommand, RepoContextChangedPush, RepoNavigationStartedPush, StashCommand, TagCommand, WorktreeCommand } from '@protocol/graph/messages';
 import type { GraphContextTarget } from '@protocol/graph/types';
 import type { RepoContext } from '@core/git/domain/repo-context';
 import type { RepositoriesChangedPush, RepositoryNavigationMessage } from '@protocol/shared/repo';
@@ -16,12 +16,14 @@ import { createErrorPayload } from '@extension/messaging/error-serialization';
 
 const GRAPH_COMMIT_COMMANDS: readonly { readonly id: string; readonly command: CommitCommand }[] = [
     { id: 'lookGit.graph.commit.copyRevisionNumber', command: 'copyRevisionNumber' },
+    { id: 'lookGit.graph.commit.openOnRemote', command: 'openOnRemote' },
     { id: 'lookGit.graph.commit.createPatch', command: 'createPatch' },
     { id: 'lookGit.graph.commit.explainDiff', command: 'explainDiff' },
     { id: 'lookGit.graph.commit.cherryPick', command: 'cherryPick' },
     { id: 'lookGit.graph.commit.checkoutRevision', command: 'checkoutRevision' },
     { id: 'lookGit.graph.commit.showRepositoryAtRevision', command: 'showRepositoryAtRevision' },
     { id: 'lookGit.graph.commit.compareWithLocal', command: 'compareWithLocal' },
+    { id: 'lookGit.graph.commit.rangeDiffSelectedRanges', command: 'rangeDiffSelectedRanges' },
     { id: 'lookGit.graph.commit.newWorktreeFromCommit', command: 'newWorktreeFromCommit' },
     { id: 'lookGit.graph.commit.compareCommitWithWorktree', command: 'compareCommitWithWorktree' },
     { id: 'lookGit.graph.commit.resetCurrentBranchToHere', command: 'resetCurrentBranchToHere' },
@@ -35,6 +37,11 @@ const GRAPH_COMMIT_COMMANDS: readonly { readonly id: string; readonly command: C
     { id: 'lookGit.graph.commit.pushAllUpToHere', command: 'pushAllUpToHere' },
     { id: 'lookGit.graph.commit.newBranch', command: 'newBranch' },
     { id: 'lookGit.graph.commit.newTag', command: 'newTag' },
+    { id: 'lookGit.graph.commit.editNote', command: 'editNote' },
+    { id: 'lookGit.graph.commit.removeNote', command: 'removeNote' },
+    { id: 'lookGit.graph.commit.bisectGood', command: 'bisectGood' },
+    { id: 'lookGit.graph.commit.bisectBad', command: 'bisectBad' },
+    { id: 'lookGit.graph.commit.bisectSkip', command: 'bisectSkip' },
 ];
 
 const GRAPH_BRANCH_COMMANDS: readonly { readonly id: string; readonly command: BranchCommand }[] = [
@@ -48,6 +55,9 @@ const GRAPH_BRANCH_COMMANDS: readonly { readonly id: string; readonly command: B
     { id: 'lookGit.graph.branch.showDiffWithWorkingTree', command: 'showDiffWithWorkingTree' },
     { id: 'lookGit.graph.branch.compareBranchWithWorktree', command: 'compareBranchWithWorktree' },
     { id: 'lookGit.graph.branch.showDiffWithBranchWorktree', command: 'showDiffWithBranchWorktree' },
+    { id: 'lookGit.graph.branch.openOnRemote', command: 'openOnRemote' },
+    { id: 'lookGit.graph.branch.compareOnRemote', command: 'compareOnRemote' },
+    { id: 'lookGit.graph.branch.rangeDiffWithLocal', command: 'rangeDiffWithLocal' },
     { id: 'lookGit.graph.branch.rebaseOnto', command: 'rebaseOnto' },
     { id: 'lookGit.graph.branch.planInteractiveRebaseOnto', command: 'planInteractiveRebaseOnto' },
     { id: 'lookGit.graph.branch.mergeInto', command: 'mergeInto' },
@@ -81,6 +91,32 @@ const GRAPH_WORKTREE_COMMANDS: readonly { readonly id: string; readonly command:
     { id: 'lookGit.graph.worktree.remove', command: 'remove' },
     { id: 'lookGit.graph.worktree.removeForce', command: 'removeForce' },
 ];
+
+const GRAPH_REBASE_BACKUP_COMMANDS: readonly { readonly id: string; readonly command: RebaseBackupCommand }[] = [
+    { id: 'lookGit.graph.rebaseBackup.restore', command: 'restore' },
+    { id: 'lookGit.graph.rebaseBackup.compare', command: 'compare' },
+    { id: 'lookGit.graph.rebaseBackup.rangeDiff', command: 'rangeDiff' },
+    { id: 'lookGit.graph.rebaseBackup.delete', command: 'delete' },
+];
+
+const GRAPH_TAG_COMMANDS: readonly { readonly id: string; readonly command: TagCommand }[] = [
+    { id: 'lookGit.graph.tag.reveal', command: 'reveal' },
+    { id: 'lookGit.graph.tag.checkout', command: 'checkout' },
+    { id: 'lookGit.graph.tag.push', command: 'push' },
+    { id: 'lookGit.graph.tag.delete', command: 'delete' },
+    { id: 'lookGit.graph.tag.deleteRemote', command: 'deleteRemote' },
+    { id: 'lookGit.graph.tag.compareWithCurrent', command: 'compareWithCurrent' },
+    { id: 'lookGit.graph.tag.createReleaseNotes', command: 'createReleaseNotes' },
+];
+
+const GRAPH_STASH_COMMANDS: readonly { readonly id: string; readonly command: StashCommand }[] = [
+    { id: 'lookGit.graph.stash.apply', command: 'apply' },
+    { id: 'lookGit.graph.stash.pop', command: 'pop' },
+    { id: 'lookGit.graph.stash.drop', command: 'drop' },
+    { id: 'lookGit.graph.stash.branch', command: 'branch' },
+    { id: 'lookGit.graph.stash.diff', command: 'diff' },
+];
+
 const REVEAL_GRAPH_COMMIT_COMMAND = 'lookGit.graph.revealCommit';
 
 export class GraphViewProvider implements vscode.WebviewViewProvider {
@@ -137,6 +173,9 @@ export class GraphViewProvider implements vscode.WebviewViewProvider {
             ...GRAPH_COMMIT_COMMANDS.map(({ id, command }) => vscode.commands.registerCommand(id, () => this.runCommitContextCommand(command))),
             ...GRAPH_BRANCH_COMMANDS.map(({ id, command }) => vscode.commands.registerCommand(id, () => this.runBranchContextCommand(command, { allowUnpublishedBranchPush: id === 'lookGit.graph.branch.publish' }))),
             ...GRAPH_WORKTREE_COMMANDS.map(({ id, command }) => vscode.commands.registerCommand(id, () => this.runWorktreeContextCommand(command))),
+            ...GRAPH_REBASE_BACKUP_COMMANDS.map(({ id, command }) => vscode.commands.registerCommand(id, () => this.runRebaseBackupContextCommand(command))),
+            ...GRAPH_TAG_COMMANDS.map(({ id, command }) => vscode.commands.registerCommand(id, () => this.runTagContextCommand(command))),
+            ...GRAPH_STASH_COMMANDS.map(({ id, command }) => vscode.commands.registerCommand(id, () => this.runStashContextCommand(command))),
             vscode.commands.registerCommand(REVEAL_GRAPH_COMMIT_COMMAND, (hash: unknown) => this.revealCommit(hash)),
             vscode.commands.registerCommand('lookGit.graph.commit.goToChildCommit', () => this.selectContextCommit('child')),
             vscode.commands.registerCommand('lookGit.graph.commit.goToParentCommit', () => this.selectContextCommit('parent')),
@@ -290,6 +329,42 @@ export class GraphViewProvider implements vscode.WebviewViewProvider {
         });
     }
 
+    private async runRebaseBackupContextCommand(command: RebaseBackupCommand): Promise<void> {
+        const target = this.contextTarget;
+        if (target?.kind !== 'rebaseBackup') { return; }
+        await this.router?.handle({
+            type: 'graph/rebaseBackupCommand',
+            command,
+            ref: target.ref,
+            hash: target.hash,
+            ...(target.repository ? { repository: target.repository } : {}),
+        });
+    }
+
+    private async runTagContextCommand(command: TagCommand): Promise<void> {
+        const target = this.contextTarget;
+        if (target?.kind !== 'tag') { return; }
+        await this.router?.handle({
+            type: 'graph/tagCommand',
+            command,
+            tag: target.tag,
+            hash: target.hash,
+            ...(target.repository ? { repository: target.repository } : {}),
+        });
+    }
+
+    private async runStashContextCommand(command: StashCommand): Promise<void> {
+        const target = this.contextTarget;
+        if (target?.kind !== 'stash') { return; }
+        await this.router?.handle({
+            type: 'graph/stashCommand',
+            command,
+            index: target.index,
+            hash: target.hash,
+            ...(target.repository ? { repository: target.repository } : {}),
+        });
+    }
+
     private selectContextCommit(direction: 'child' | 'parent'): void {
         const target = this.contextTarget;
         if (target?.kind !== 'commit') { return; }
@@ -7,7 +7,7 @@ const WEBVIEW_CONTEXT = JSON.stringify({ preventDefaultContextMenuItems: true })
 export function getWebviewHtml(
     webview: vscode.Webview,
     extensionUri: vscode.Uri,
-    scriptName: 'changes' | 'commitMessage' | 'fileHistory' | 'graph' | 'history' | 'visual-rebase',
+    scriptName: 'bisect' | 'changes' | 'clean' | 'commitMessage' | 'fileHistory' | 'graph' | 'history' | 'range-diff' | 'reflog' | 'visual-rebase',
 ): string {
     const nonce = crypto.randomBytes(16).toString('hex');
     const scriptUri = webview.asWebviewUri(
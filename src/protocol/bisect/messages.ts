@@ -0,0 +1,83 @@
+import type { BisectLogEntry, BisectPanelAction } from '@protocol/bisect/types';
+import type { BisectMark, BisectStatus } from '@protocol/shared/bisect';
+import type { WebviewFontSizeChangedPush } from '@protocol/shared/ui';
+
+export interface BisectStatePush {
+    readonly type: 'bisect/state';
+    readonly title: string;
+    /** Absent when the worktree is not bisecting. */
+    readonly status?: BisectStatus;
+    readonly log: readonly BisectLogEntry[];
+}
+
+export interface BisectRunOutputPush {
+    readonly type: 'bisect/runOutput';
+    readonly chunk: string;
+}
+
+export interface BisectActionStartedPush {
+    readonly type: 'bisect/actionStarted';
+    readonly action: BisectPanelAction;
+}
+
+export interface BisectActionCompletedPush {
+    readonly type: 'bisect/actionCompleted';
+    readonly action: BisectPanelAction;
+    readonly message?: string;
+}
+
+export interface BisectActionFailedPush {
+    readonly type: 'bisect/actionFailed';
+    readonly action: BisectPanelAction;
+    readonly message: string;
+    readonly details?: string;
+}
+
+export interface BisectReadyMessage {
+    readonly type: 'bisect/ready';
+}
+
+export interface BisectStartMessage {
+    readonly type: 'bisect/start';
+    readonly bad: string;
+    readonly good: readonly string[];
+}
+
+export interface BisectMarkMessage {
+    readonly type: 'bisect/mark';
+    readonly mark: BisectMark;
+}
+
+export interface BisectResetMessage {
+    readonly type: 'bisect/reset';
+}
+
+export interface BisectRunMessage {
+    readonly type: 'bisect/run';
+    readonly command: string;
+}
+
+export interface BisectCancelRunMessage {
+    readonly type: 'bisect/cancelRun';
+}
+
+export interface BisectShowOutputMessage {
+    readonly type: 'bisect/showOutput';
+}
+
+export type BisectExtensionToWebviewMessage =
+    | BisectStatePush
+    | BisectRunOutputPush
+    | BisectActionStartedPush
+    | BisectActionCompletedPush
+    | BisectActionFailedPush
+    | WebviewFontSizeChangedPush;
+
+export type BisectWebviewToExtensionMessage =
+    | BisectReadyMessage
+    | BisectStartMessage
+    | BisectMarkMessage
+    | BisectResetMessage
+    | BisectRunMessage
+    | BisectCancelRunMessage
+    | BisectShowOutputMessage;
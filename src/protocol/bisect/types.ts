@@ -0,0 +1,10 @@
+import type { BisectMark } from '@protocol/shared/bisect';
+
+export type BisectPanelAction = 'start' | BisectMark | 'reset' | 'run';
+
+export interface BisectLogEntry {
+    readonly mark: BisectMark;
+    readonly hash: string;
+    readonly shortHash: string;
+    readonly subject: string;
+}
@@ -2,7 +2,11 @@ import type { RequestId, ErrorMessage, ProtocolError } from '@protocol/shared/ba
 import type { OperationNoticeActionKind, OperationStatus } from '@protocol/shared/operation';
 import type { RepositoriesChangedPush, RepositoryNavigationMessage, SerializedRepoContext } from '@protocol/shared/repo';
 import type { WebviewFontSizeChangedPush } from '@protocol/shared/ui';
-import type { StatusData, CommitMode, StashFileEntry, ConflictState, SubmoduleStatusData, ChangesContextTarget, ChangesSelectionContextTarget } from '@protocol/changes/types';
+import type { BisectBannerCommand } from '@protocol/shared/bisect';
+import type { OperationPlanAcknowledgement, OperationPlanPrompt } from '@protocol/shared/operation-plan';
+import type { CommitIdentity } from '@protocol/shared/commit';
+import type { CommitMessageConventions } from '@protocol/shared/commit-message-rules';
+import type { StatusData, CommitMode, StashFileEntry, ConflictState, SubmoduleStatusData, ChangesContextTarget, ChangesSelectionContextTarget, ChangeDiffHunk } from '@protocol/changes/types';
 
 // ── Extension → Webview (push) ──────────────────────────────────────────────
 
@@ -26,6 +30,15 @@ export interface CommitResultPush {
     readonly success: boolean;
     readonly message?: string;
     readonly error?: ProtocolError;
+    /** The failed commit, sent back when a hook rejected it or its push so the composer can retry. */
+    readonly request?: CommitRequest;
+}
+
+export interface CommitRequest {
+    readonly message: string;
+    readonly mode: CommitMode;
+    /** Signs the commit or refuses to sign it; unset follows `commit.gpgSign`. */
+    readonly sign?: boolean;
 }
 
 export interface GeneratedCommitMessageResponse {
@@ -54,12 +67,28 @@ export interface SubmoduleCommitMessagePresetPush {
     readonly message: string;
 }
 
+/** Recent authors of the repository, or of the submodule at `submodulePath`, to offer as co-authors. */
+export interface CoAuthorCandidatesResponse {
+    readonly type: 'changes/coAuthorCandidates';
+    readonly requestId: RequestId;
+    readonly submodulePath?: string;
+    readonly candidates: readonly CommitIdentity[];
+}
+
+export interface CommitMessageConventionsResponse {
+    readonly type: 'changes/commitMessageConventions';
+    readonly requestId: RequestId;
+    readonly submodulePath?: string;
+    readonly conventions: CommitMessageConventions;
+}
+
 export interface SubmoduleCommitResultPush {
     readonly type: 'changes/submoduleCommitResult';
     readonly path: string;
     readonly success: boolean;
     readonly message?: string;
     readonly error?: ProtocolError;
+    readonly request?: CommitRequest;
 }
 
 export interface StashFilesResponse {
@@ -69,6 +98,30 @@ export interface StashFilesResponse {
     readonly files: readonly StashFileEntry[];
 }
 
+/** Page of ignored paths; a fully ignored directory is listed once as `dir/`. */
+export interface IgnoredFilesResponse {
+    readonly type: 'changes/ignoredFiles';
+    readonly requestId: RequestId;
+    readonly submodulePath?: string;
+    readonly offset: number;
+    readonly filePaths: readonly string[];
+    readonly hasMore: boolean;
+}
+
+export interface FileHunksResponse {
+    readonly type: 'changes/fileHunks';
+    readonly requestId: RequestId;
+    readonly filePath: string;
+    readonly isStaged: boolean;
+    readonly hunks: readonly ChangeDiffHunk[];
+    readonly binary: boolean;
+}
+
+/** Hunks loaded earlier no longer match the index after a partial stage, unstage or discard. */
+export interface FileHunksInvalidatedPush {
+    readonly type: 'changes/fileHunksInvalidated';
+}
+
 export interface SubmoduleStatusResponse {
     readonly type: 'changes/submoduleStatusData';
     readonly requestId: RequestId;
@@ -100,6 +153,12 @@ export interface ChangesOperationStatusPush {
     readonly actions?: readonly OperationNoticeActionKind[];
 }
 
+/** Asks the webview to confirm a destructive action before the host runs it. */
+export interface ChangesOperationPlanPush {
+    readonly type: 'changes/operationPlan';
+    readonly plan: OperationPlanPrompt;
+}
+
 export type ChangesViewPreference = 'list' | 'tree';
 export type ChangesSortPreference = 'name' | 'path' | 'status' | 'extension' | 'directory';
 
@@ -138,6 +197,7 @@ export type ChangesToolbarCommand =
     | 'checkout'
     | 'fetch'
     | 'applyPatch'
+    | 'cleanUntracked'
     | 'sync'
     | 'pullRebase'
     | 'pullFrom'
@@ -146,6 +206,9 @@ export type ChangesToolbarCommand =
     | 'pushToForce'
     | 'fetchPrune'
     | 'fetchAll'
+    | 'fetchLfsObjects'
+    | 'fetchNotes'
+    | 'pushNotes'
     | 'undoLastCommit'
     | 'abortRebase'
     | 'mergeBranch'
@@ -168,11 +231,13 @@ export type ChangesToolbarCommand =
     | 'dropStash'
     | 'dropAllStashes'
     | 'viewStash'
+    | 'branchFromStash'
     | 'createTag'
     | 'deleteTag'
     | 'deleteRemoteTag'
     | 'pushTags'
-    | 'showGitOutput';
+    | 'showGitOutput'
+    | 'showRepositoryInfo';
 export interface ChangesToolbarCommandMessage {
     readonly type: 'changes/toolbarCommand';
     readonly command: ChangesToolbarCommand;
@@ -215,10 +280,44 @@ export interface AcceptOursFilesMessage { readonly type: 'changes/acceptOursFile
 export interface AcceptTheirsFilesMessage { readonly type: 'changes/acceptTheirsFiles'; readonly filePaths: readonly string[]; }
 export interface AcceptAllTheirsMessage { readonly type: 'changes/acceptAllTheirs'; }
 
+export interface AcknowledgeOperationPlanMessage {
+    readonly type: 'changes/acknowledgeOperationPlan';
+    readonly acknowledgement: OperationPlanAcknowledgement;
+}
+
+export interface CancelOperationPlanMessage {
+    readonly type: 'changes/cancelOperationPlan';
+    readonly planId: string;
+}
+
+export interface UndoLastOperationMessage {
+    readonly type: 'changes/undoLastOperation';
+}
+
+export interface GetFileHunksRequest {
+    readonly type: 'changes/getFileHunks';
+    readonly requestId: RequestId;
+    readonly filePath: string;
+    readonly isStaged: boolean;
+}
+
+export type ChangeHunkCommand = 'stage' | 'unstage' | 'discard';
+
+export interface HunkCommandMessage {
+    readonly type: 'changes/hunkCommand';
+    readonly command: ChangeHunkCommand;
+    readonly filePath: string;
+    readonly hunkIndex: number;
+    readonly hunkHeader: string;
+    /** Line indexes within the hunk; the whole hunk when omitted. */
+    readonly lineIndexes?: readonly number[];
+}
+
 export interface CommitMessage {
     readonly type: 'changes/commit';
     readonly message: string;
     readonly mode: CommitMode;
+    readonly sign?: boolean;
 }
 
 export interface GenerateCommitMessageRequest {
@@ -232,11 +331,39 @@ export interface GenerateSubmoduleCommitMessageRequest {
     readonly submodulePath: string;
 }
 
+export interface GetCoAuthorCandidatesRequest {
+    readonly type: 'changes/getCoAuthorCandidates';
+    readonly requestId: RequestId;
+    readonly submodulePath?: string;
+}
+
+export interface GetCommitMessageConventionsRequest {
+    readonly type: 'changes/getCommitMessageConventions';
+    readonly requestId: RequestId;
+    readonly submodulePath?: string;
+}
+
 export interface SubmoduleCommitMessage {
     readonly type: 'changes/submoduleCommit';
     readonly submodulePath: string;
     readonly message: string;
     readonly mode: CommitMode;
+    readonly sign?: boolean;
+}
+
+/** Commits with `--no-verify` once the user acknowledged the plan sent back as `changes/operationPlan`. */
+export interface CommitWithoutHooksMessage {
+    readonly type: 'changes/commitWithoutHooks';
+    readonly submodulePath?: string;
+    readonly message: string;
+    readonly mode: CommitMode;
+    readonly sign?: boolean;
+}
+
+export interface OpenHookScriptMessage {
+    readonly type: 'changes/openHookScript';
+    readonly submodulePath?: string;
+    readonly hook: string;
 }
 
 export interface OpenFileMessage     { readonly type: 'changes/openFile'; readonly filePath: string; }
@@ -317,6 +444,7 @@ export interface StashSelectedFilesMessage {
 export interface StashPopMessage      { readonly type: 'changes/stashPop'; readonly index: number; }
 export interface StashApplyMessage    { readonly type: 'changes/stashApply'; readonly index: number; }
 export interface StashDropMessage     { readonly type: 'changes/stashDrop'; readonly index: number; }
+export interface StashBranchMessage   { readonly type: 'changes/stashBranch'; readonly index: number; }
 
 export interface GetStashFilesRequest {
     readonly type: 'changes/getStashFiles';
@@ -343,6 +471,7 @@ export interface SubmoduleStashSelectedFilesMessage {
 export interface SubmoduleStashPopMessage    { readonly type: 'changes/submoduleStashPop'; readonly submodulePath: string; readonly index: number; }
 export interface SubmoduleStashApplyMessage  { readonly type: 'changes/submoduleStashApply'; readonly submodulePath: string; readonly index: number; }
 export interface SubmoduleStashDropMessage   { readonly type: 'changes/submoduleStashDrop'; readonly submodulePath: string; readonly index: number; }
+export interface SubmoduleStashBranchMessage { readonly type: 'changes/submoduleStashBranch'; readonly submodulePath: string; readonly index: number; }
 export interface GetSubmoduleStashFilesRequest {
     readonly type: 'changes/getSubmoduleStashFiles';
     readonly requestId: RequestId;
@@ -360,8 +489,12 @@ export interface OpenSubmoduleStashDiffMessage {
 
 export interface ContinueOpMessage { readonly type: 'changes/continueOp'; readonly conflictState: ConflictState; }
 export interface AbortOpMessage    { readonly type: 'changes/abortOp'; readonly conflictState: ConflictState; }
+export interface SkipOpMessage     { readonly type: 'changes/skipOp'; readonly conflictState: ConflictState; }
 export interface SubmoduleContinueOpMessage { readonly type: 'changes/submoduleContinueOp'; readonly submodulePath: string; readonly conflictState: ConflictState; }
 export interface SubmoduleAbortOpMessage    { readonly type: 'changes/submoduleAbortOp'; readonly submodulePath: string; readonly conflictState: ConflictState; }
+export interface SubmoduleSkipOpMessage     { readonly type: 'changes/submoduleSkipOp'; readonly submodulePath: string; readonly conflictState: ConflictState; }
+
+export interface BisectCommandMessage { readonly type: 'changes/bisectCommand'; readonly command: BisectBannerCommand; }
 
 export interface SubmoduleUpdateMessage    { readonly type: 'changes/submoduleUpdate'; readonly path: string; }
 export interface SubmoduleUpdateAllMessage { readonly type: 'changes/submoduleUpdateAll'; }
@@ -370,6 +503,13 @@ export interface GetSubmoduleStatusRequest {
     readonly requestId: RequestId;
     readonly path: string;
 }
+export interface GetIgnoredFilesRequest {
+    readonly type: 'changes/getIgnoredFiles';
+    readonly requestId: RequestId;
+    readonly submodulePath?: string;
+    readonly offset: number;
+    readonly limit: number;
+}
 
 // ── Union types ─────────────────────────────────────────────────────────────
 
@@ -385,7 +525,12 @@ export type ChangesExtensionToWebviewMessage =
     | SubmoduleCommitResultPush
     | SubmoduleGeneratedCommitMessageResponse
     | SubmoduleCommitMessagePresetPush
+    | CoAuthorCandidatesResponse
+    | CommitMessageConventionsResponse
     | StashFilesResponse
+    | IgnoredFilesResponse
+    | FileHunksResponse
+    | FileHunksInvalidatedPush
     | SubmoduleStatusResponse
     | SubmoduleStashFilesResponse
     | ApplyViewModePush
@@ -393,6 +538,7 @@ export type ChangesExtensionToWebviewMessage =
     | FocusCommitComposerPush
     | FocusSubmoduleCommitComposerPush
     | ChangesOperationStatusPush
+    | ChangesOperationPlanPush
     | ChangesErrorPush
     | ErrorMessage;
 
@@ -401,13 +547,17 @@ export type ChangesWebviewToExtensionMessage =
     | ChangesReadyMessage | ViewModeChangedMessage | ChangesPreferencesChangedMessage | ChangesToolbarCommandMessage | ChangesContextTargetMessage | ExplainSelectionMessage | CreatePatchFromSelectionMessage | ExplainRepositoryChangesMessage | SubmoduleToolbarCommandMessage
     | StageFileMessage | UnstageFileMessage | StageFilesMessage | UnstageFilesMessage | StageAllMessage | UnstageAllMessage
     | DiscardFileMessage | DiscardFilesMessage | DiscardAllMessage
+    | AcknowledgeOperationPlanMessage | CancelOperationPlanMessage | UndoLastOperationMessage
+    | GetFileHunksRequest | HunkCommandMessage
     | MarkResolvedMessage | MarkResolvedFilesMessage
     | AcceptOursMessage | AcceptTheirsMessage | AcceptOursFilesMessage | AcceptTheirsFilesMessage | AcceptAllTheirsMessage
-    | CommitMessage | GenerateCommitMessageRequest | SubmoduleCommitMessage | GenerateSubmoduleCommitMessageRequest | OpenFileMessage | OpenSubmoduleMessage | OpenMergeEditorMessage | OpenFirstMergeEditorMessage | OpenAllMergeEditorsMessage | OpenDiffMessage | OpenSubmoduleDiffMessage
+    | CommitMessage | GenerateCommitMessageRequest | SubmoduleCommitMessage | GenerateSubmoduleCommitMessageRequest | GetCoAuthorCandidatesRequest | GetCommitMessageConventionsRequest | CommitWithoutHooksMessage | OpenHookScriptMessage | OpenFileMessage | OpenSubmoduleMessage | OpenMergeEditorMessage | OpenFirstMergeEditorMessage | OpenAllMergeEditorsMessage | OpenDiffMessage | OpenSubmoduleDiffMessage
     | SubmoduleFileMessage | SubmoduleFilesMessage | SubmoduleBulkMessage | SubmoduleOpenAllMergeEditorsMessage | SubmoduleOpenFirstMergeEditorMessage
-    | StashMessage | StashStagedMessage | StashSelectedFilesMessage | StashPopMessage | StashApplyMessage | StashDropMessage
+    | StashMessage | StashStagedMessage | StashSelectedFilesMessage | StashPopMessage | StashApplyMessage | StashDropMessage | StashBranchMessage
     | GetStashFilesRequest | OpenStashDiffMessage
-    | SubmoduleStashMessage | SubmoduleStashSelectedFilesMessage | SubmoduleStashPopMessage | SubmoduleStashApplyMessage | SubmoduleStashDropMessage
+    | SubmoduleStashMessage | SubmoduleStashSelectedFilesMessage | SubmoduleStashPopMessage | SubmoduleStashApplyMessage | SubmoduleStashDropMessage | SubmoduleStashBranchMessage
     | GetSubmoduleStashFilesRequest | OpenSubmoduleStashDiffMessage
-    | ContinueOpMessage | AbortOpMessage | SubmoduleContinueOpMessage | SubmoduleAbortOpMessage
-    | SubmoduleUpdateMessage | SubmoduleUpdateAllMessage | GetSubmoduleStatusRequest;
+    | ContinueOpMessage | AbortOpMessage | SkipOpMessage | SubmoduleContinueOpMessage | SubmoduleAbortOpMessage | SubmoduleSkipOpMessage
+    | BisectCommandMessage
+    | SubmoduleUpdateMessage | SubmoduleUpdateAllMessage | GetSubmoduleStatusRequest
+    | GetIgnoredFilesRequest;
@@ -1,4 +1,5 @@
 import type { SubmoduleStatus } from '@protocol/shared/repo';
+import type { BisectStatus } from '@protocol/shared/bisect';
 
 export interface SubmoduleEntry {
     readonly path: string;
@@ -12,6 +13,7 @@ export interface SubmoduleStatusData {
     readonly unstaged: readonly StatusEntry[];
     readonly conflicts: readonly StatusEntry[];
     readonly conflictState: ConflictState;
+    readonly sequencerRemaining?: number;
     readonly stashes: readonly StashEntry[];
 }
 
@@ -24,6 +26,7 @@ export interface ChangesCommitComposerContextTarget {
     readonly kind: 'commitComposer';
     readonly message: string;
     readonly submodulePath?: string;
+    readonly sign?: boolean;
 }
 
 export interface ChangesSelectionContextTarget {
@@ -38,12 +41,23 @@ export interface ChangesSelectionContextTarget {
     readonly patchUnstagedFilePaths: readonly string[];
     readonly patchUntrackedFilePaths: readonly string[];
     readonly stashIncludeUntracked: boolean;
+    /** Rows picked from the Ignored section; present only when the selection includes any. */
+    readonly ignoredFilePaths?: readonly string[];
+    /** Files tracked by Git LFS; present only when the selection includes any. */
+    readonly lfsFilePaths?: readonly string[];
+}
+
+export interface ChangesStashContextTarget {
+    readonly kind: 'stash';
+    readonly index: number;
+    readonly submodulePath?: string;
 }
 
 export type ChangesContextTarget =
     | ChangesSubmoduleToolbarContextTarget
     | ChangesCommitComposerContextTarget
-    | ChangesSelectionContextTarget;
+    | ChangesSelectionContextTarget
+    | ChangesStashContextTarget;
 
 export interface StatusEntry {
     readonly indexStatus: string;
@@ -52,6 +66,22 @@ export interface StatusEntry {
     readonly origPath?: string;
     readonly isSubmodule?: boolean;
     readonly submoduleStatus?: SubmoduleStatus;
+    /** Tracked by Git LFS. */
+    readonly isLfs?: boolean;
+}
+
+export type ChangeDiffLineKind = 'context' | 'add' | 'remove';
+
+export interface ChangeDiffLine {
+    readonly kind: ChangeDiffLineKind;
+    readonly text: string;
+    readonly oldLine?: number;
+    readonly newLine?: number;
+}
+
+export interface ChangeDiffHunk {
+    readonly header: string;
+    readonly lines: readonly ChangeDiffLine[];
 }
 
 export interface StashEntry {
@@ -69,6 +99,8 @@ export enum ConflictState {
     None = 'none',
     Merge = 'merge',
     Rebase = 'rebase',
+    CherryPick = 'cherryPick',
+    Revert = 'revert',
 }
 
 export enum RepositoryState {
@@ -83,6 +115,9 @@ export interface StatusData {
     readonly unstaged: readonly StatusEntry[];
     readonly conflicts: readonly StatusEntry[];
     readonly conflictState: ConflictState;
+    /** Commits left in a multi-commit cherry-pick or revert, including the one that stopped. */
+    readonly sequencerRemaining?: number;
+    readonly bisect?: BisectStatus;
     readonly stashes: readonly StashEntry[];
     readonly submodules: readonly SubmoduleEntry[];
 }
@@ -0,0 +1,83 @@
+import type { CleanEntry, CleanPreviewOptions } from '@protocol/clean/types';
+import type { OperationPlanAcknowledgement, OperationPlanPrompt } from '@protocol/shared/operation-plan';
+import type { WebviewFontSizeChangedPush } from '@protocol/shared/ui';
+
+export interface CleanPreviewPush {
+    readonly type: 'clean/preview';
+    readonly title: string;
+    readonly options: CleanPreviewOptions;
+    readonly entries: readonly CleanEntry[];
+}
+
+export interface CleanPreviewFailedPush {
+    readonly type: 'clean/previewFailed';
+    readonly options: CleanPreviewOptions;
+    readonly message: string;
+}
+
+export interface CleanOperationPlanPush {
+    readonly type: 'clean/operationPlan';
+    readonly plan: OperationPlanPrompt;
+}
+
+export interface CleanActionStartedPush {
+    readonly type: 'clean/actionStarted';
+}
+
+export interface CleanActionCompletedPush {
+    readonly type: 'clean/actionCompleted';
+    readonly message: string;
+}
+
+export interface CleanActionFailedPush {
+    readonly type: 'clean/actionFailed';
+    readonly message: string;
+    readonly details?: string;
+}
+
+export interface CleanReadyMessage {
+    readonly type: 'clean/ready';
+    readonly options: CleanPreviewOptions;
+}
+
+export interface CleanPreviewMessage {
+    readonly type: 'clean/preview';
+    readonly options: CleanPreviewOptions;
+}
+
+export interface CleanRemoveMessage {
+    readonly type: 'clean/remove';
+    readonly paths: readonly string[];
+    readonly options: CleanPreviewOptions;
+}
+
+export interface CleanAcknowledgeOperationPlanMessage {
+    readonly type: 'clean/acknowledgeOperationPlan';
+    readonly acknowledgement: OperationPlanAcknowledgement;
+}
+
+export interface CleanCancelOperationPlanMessage {
+    readonly type: 'clean/cancelOperationPlan';
+    readonly planId: string;
+}
+
+export interface CleanShowOutputMessage {
+    readonly type: 'clean/showOutput';
+}
+
+export type CleanExtensionToWebviewMessage =
+    | CleanPreviewPush
+    | CleanPreviewFailedPush
+    | CleanOperationPlanPush
+    | CleanActionStartedPush
+    | CleanActionCompletedPush
+    | CleanActionFailedPush
+    | WebviewFontSizeChangedPush;
+
+export type CleanWebviewToExtensionMessage =
+    | CleanReadyMessage
+    | CleanPreviewMessage
+    | CleanRemoveMessage
+    | CleanAcknowledgeOperationPlanMessage
+    | CleanCancelOperationPlanMessage
+    | CleanShowOutputMessage;
@@ -0,0 +1,11 @@
+export interface CleanPreviewOptions {
+    /** Also list files matched by `.gitignore` (`git clean -x`). */
+    readonly includeIgnored: boolean;
+    /** List untracked directories as single entries (`git clean -d`). */
+    readonly includeDirectories: boolean;
+}
+
+export interface CleanEntry {
+    readonly path: string;
+    readonly isDirectory: boolean;
+}
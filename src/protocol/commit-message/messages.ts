@@ -1,10 +1,18 @@
 import type { RequestId } from '@protocol/shared/base';
+import type { CommitIdentity } from '@protocol/shared/commit';
+import type { CommitMessageRules } from '@protocol/shared/commit-message-rules';
 
 export interface CommitMessageInitPush {
     readonly type: 'commitMessage/init';
     readonly title: string;
     readonly message: string;
     readonly canGenerate: boolean;
+    /** Label of the apply button; `Commit` when absent. */
+    readonly applyLabel?: string;
+    /** Turns on the trailers editor, suggesting these identities as co-authors. */
+    readonly coAuthorCandidates?: readonly CommitIdentity[];
+    /** Repository rules checked live against the message. */
+    readonly rules?: CommitMessageRules;
 }
 
 export interface CommitMessageGeneratingPush {
@@ -3,7 +3,10 @@ import type { OperationNoticeActionKind, OperationStatus } from '@protocol/share
 export { OperationStatus as GraphOperationStatus } from '@protocol/shared/operation';
 import type { RepositoriesChangedPush, RepositoryLocator, RepositoryNavigationMessage, SerializedRepoContext, WorktreeLocator } from '@protocol/shared/repo';
 import type { WebviewFontSizeChangedPush } from '@protocol/shared/ui';
+import type { BisectBannerCommand } from '@protocol/shared/bisect';
 import type { BranchDetails, GraphContextTarget, GraphData, GraphFilters, GraphPage, CommitFileChange, GraphSubmoduleInfo } from '@protocol/graph/types';
+import type { CommitMessageLink, CommitNote, CommitSignature } from '@protocol/shared/commit';
+import type { OperationPlanAcknowledgement, OperationPlanPrompt } from '@protocol/shared/operation-plan';
 
 // ── Extension → Webview (push — no requestId) ──────────────────────────────
 
@@ -82,6 +85,12 @@ export interface GraphOperationStatusPush {
     readonly actions?: readonly OperationNoticeActionKind[];
 }
 
+/** A destructive command waits for `graph/acknowledgeOperationPlan` before it runs. */
+export interface GraphOperationPlanPush {
+    readonly type: 'graph/operationPlan';
+    readonly plan: OperationPlanPrompt;
+}
+
 // ── Extension → Webview (responses — echo requestId) ───────────────────────
 
 export interface GraphDataResponse {
@@ -96,6 +105,11 @@ export interface CommitDetailsResponse {
     readonly hash: string;
     readonly fullMessage: string;
     readonly files: readonly CommitFileChange[];
+    /** Commit page on the hosting service; absent when no remote is on a recognised host. */
+    readonly webUrl?: string;
+    readonly messageLinks?: readonly CommitMessageLink[];
+    readonly signature?: CommitSignature;
+    readonly notes?: readonly CommitNote[];
 }
 
 export interface WorktreeDetailsResponse {
@@ -107,6 +121,14 @@ export interface WorktreeDetailsResponse {
     readonly files: readonly CommitFileChange[];
 }
 
+export interface StashDetailsResponse {
+    readonly type: 'graph/stashDetailsResponse';
+    readonly requestId: RequestId;
+    readonly hash: string;
+    /** Changes against the base commit, then the stashed untracked files with status `?`. */
+    readonly files: readonly CommitFileChange[];
+}
+
 export interface BranchDetailsResponse {
     readonly type: 'graph/branchDetailsResponse';
     readonly requestId: RequestId;
@@ -150,6 +172,14 @@ export interface WorktreeDetailsRequest {
     readonly worktree?: WorktreeLocator;
 }
 
+export interface StashDetailsRequest {
+    readonly type: 'graph/stashDetailsRequest';
+    readonly requestId: RequestId;
+    readonly index: number;
+    readonly hash: string;
+    readonly repository?: RepositoryLocator;
+}
+
 export interface BranchDetailsRequest {
     readonly type: 'graph/branchDetailsRequest';
     readonly requestId: RequestId;
@@ -174,7 +204,10 @@ export type BranchCommand =
     | 'pushBranchWorktree'
     | 'lockBranchWorktree'
     | 'unlockBranchWorktree'
-    | 'removeBranchWorktree';
+    | 'removeBranchWorktree'
+    | 'openOnRemote'
+    | 'compareOnRemote'
+    | 'rangeDiffWithLocal';
 
 export interface BranchCommandRequest {
     readonly type: 'graph/branchCommand';
@@ -231,7 +264,14 @@ export type CommitCommand =
     | 'newBranch'
     | 'newTag'
     | 'newWorktreeFromCommit'
-    | 'compareCommitWithWorktree';
+    | 'compareCommitWithWorktree'
+    | 'bisectGood'
+    | 'bisectBad'
+    | 'bisectSkip'
+    | 'openOnRemote'
+    | 'rangeDiffSelectedRanges'
+    | 'editNote'
+    | 'removeNote';
 
 export interface CommitCommandRequest {
     readonly type: 'graph/commitCommand';
@@ -252,6 +292,13 @@ export interface OpenDiffRequest {
     readonly repository?: RepositoryLocator;
 }
 
+export interface OpenBlameRequest {
+    readonly type: 'graph/openBlame';
+    readonly filePath: string;
+    readonly commitHash: string;
+    readonly repository?: RepositoryLocator;
+}
+
 export interface OpenWorktreeDiffRequest {
     readonly type: 'graph/openWorktreeDiff';
     readonly worktreePath: string;
@@ -275,12 +322,22 @@ export interface GraphShowOutputMessage {
     readonly type: 'graph/showOutput';
 }
 
+export interface GraphUndoLastOperationMessage {
+    readonly type: 'graph/undoLastOperation';
+}
+
+/** Link in the commit details panel; the extension only opens http and https URLs. */
+export interface GraphOpenRemoteLinkMessage {
+    readonly type: 'graph/openRemoteLink';
+    readonly url: string;
+}
+
 export interface GraphContextTargetMessage {
     readonly type: 'graph/contextTarget';
     readonly target: GraphContextTarget;
 }
 
-export type GraphRepositoryCommand = 'fetch';
+export type GraphRepositoryCommand = 'fetch' | 'showReflog';
 
 export interface GraphRepositoryCommandRequest {
     readonly type: 'graph/repositoryCommand';
@@ -288,6 +345,55 @@ export interface GraphRepositoryCommandRequest {
     readonly repository?: RepositoryLocator;
 }
 
+export interface GraphBisectCommandRequest {
+    readonly type: 'graph/bisectCommand';
+    readonly command: BisectBannerCommand;
+    readonly repository?: RepositoryLocator;
+}
+
+export type RebaseBackupCommand = 'restore' | 'compare' | 'rangeDiff' | 'delete';
+
+export interface GraphRebaseBackupCommandRequest {
+    readonly type: 'graph/rebaseBackupCommand';
+    readonly command: RebaseBackupCommand;
+    readonly ref: string;
+    /** Commit the backup pointed at when it was listed; the command refuses to run if the ref has moved since. */
+    readonly hash: string;
+    readonly repository?: RepositoryLocator;
+}
+
+export type TagCommand = 'reveal' | 'checkout' | 'push' | 'delete' | 'deleteRemote' | 'compareWithCurrent' | 'createReleaseNotes';
+
+export interface GraphTagCommandRequest {
+    readonly type: 'graph/tagCommand';
+    readonly command: TagCommand;
+    readonly tag: string;
+    /** Object the tag named when it was listed; the command refuses to run if the tag has moved since. */
+    readonly hash: string;
+    readonly repository?: RepositoryLocator;
+}
+
+export type StashCommand = 'apply' | 'pop' | 'drop' | 'branch' | 'diff';
+
+export interface GraphStashCommandRequest {
+    readonly type: 'graph/stashCommand';
+    readonly command: StashCommand;
+    readonly index: number;
+    /** Stash commit listed at `index`; the command refuses to run if the stash list has changed since. */
+    readonly hash: string;
+    readonly repository?: RepositoryLocator;
+}
+
+export interface GraphAcknowledgeOperationPlanMessage {
+    readonly type: 'graph/acknowledgeOperationPlan';
+    readonly acknowledgement: OperationPlanAcknowledgement;
+}
+
+export interface GraphCancelOperationPlanMessage {
+    readonly type: 'graph/cancelOperationPlan';
+    readonly planId: string;
+}
+
 // ── Union types ─────────────────────────────────────────────────────────────
 
 export type GraphExtensionToWebviewMessage =
@@ -302,11 +408,13 @@ export type GraphExtensionToWebviewMessage =
     | GraphDataResponse
     | CommitDetailsResponse
     | WorktreeDetailsResponse
+    | StashDetailsResponse
     | BranchDetailsResponse
     | GraphSelectCommitPush
     | GraphRevealCommitPush
     | GraphSelectWorktreePush
     | GraphOperationStatusPush
+    | GraphOperationPlanPush
     | GraphErrorPush
     | ErrorMessage;
 
@@ -315,15 +423,25 @@ export type GraphWebviewToExtensionMessage =
     | GraphReadyMessage
     | GraphRefreshMessage
     | GraphShowOutputMessage
+    | GraphUndoLastOperationMessage
+    | GraphOpenRemoteLinkMessage
     | GraphDataRequest
     | LoadMoreGraphRequest
     | CommitDetailsRequest
     | WorktreeDetailsRequest
+    | StashDetailsRequest
     | BranchDetailsRequest
     | GraphContextTargetMessage
     | GraphRepositoryCommandRequest
+    | GraphBisectCommandRequest
+    | GraphRebaseBackupCommandRequest
+    | GraphTagCommandRequest
+    | GraphStashCommandRequest
+    | GraphAcknowledgeOperationPlanMessage
+    | GraphCancelOperationPlanMessage
     | BranchCommandRequest
     | WorktreeCommandRequest
     | CommitCommandRequest
     | OpenDiffRequest
+    | OpenBlameRequest
     | OpenWorktreeDiffRequest;
@@ -1,6 +1,7 @@
 import type { Pagination } from '@protocol/shared/base';
-import type { CommitFileChange as SharedCommitFileChange } from '@protocol/shared/commit';
+import type { CommitFileChange as SharedCommitFileChange, CommitSignature } from '@protocol/shared/commit';
 import type { RepositoryLocator, SubmoduleStatus, WorktreeLocator } from '@protocol/shared/repo';
+import type { BisectStatus } from '@protocol/shared/bisect';
 
 export interface GraphFilters {
     readonly search?: string;
@@ -24,6 +25,7 @@ export interface GraphCommit {
     readonly refs: readonly string[];
     readonly matchesFilter?: boolean;
     readonly canCherryPick?: boolean;
+    readonly signature?: CommitSignature;
 }
 
 export interface BranchInfo {
@@ -48,6 +50,14 @@ export interface BranchDetails extends BranchInfo {
 export interface TagInfo {
     readonly name: string;
     readonly hash: string;
+    /** Tagged commit; differs from `hash` for annotated tags. */
+    readonly target?: string;
+    readonly annotated?: boolean;
+    readonly taggerName?: string;
+    readonly taggerEmail?: string;
+    /** ISO 8601 tagger date, or the commit date of a lightweight tag. */
+    readonly date?: string;
+    readonly message?: string;
 }
 
 export interface WorktreeInfo {
@@ -95,6 +105,37 @@ export interface GraphData {
     readonly worktrees: readonly WorktreeInfo[];
     readonly worktreeWips: readonly WorktreeWip[];
     readonly submodules: readonly GraphSubmoduleInfo[];
+    /** Bisect session of the repository's worktree; absent when it is not bisecting. */
+    readonly bisect?: BisectStatus;
+    /** Backups Visual Rebase wrote before rewriting a branch, newest first; absent when there are none. */
+    readonly rebaseBackups?: readonly RebaseBackupInfo[];
+    /** Stashes of the repository, newest first; absent when there are none. */
+    readonly stashes?: readonly GraphStashInfo[];
+}
+
+export interface RebaseBackupInfo {
+    readonly ref: string;
+    readonly hash: string;
+    /** Branch name as recorded in the backup ref. */
+    readonly branchLabel: string;
+    /** Local branch the backup belongs to; absent when that branch no longer exists. */
+    readonly branch?: string;
+    /** Milliseconds since the epoch. */
+    readonly createdAt: number;
+    /** Commits of the backup that its branch no longer contains. */
+    readonly commitCount?: number;
+}
+
+/** A stash commit; its parents are the base commit it was taken on, the index commit and the untracked files commit. */
+export interface GraphStashInfo {
+    readonly index: number;
+    readonly hash: string;
+    readonly baseHash: string;
+    readonly indexHash?: string;
+    /** Present when the stash includes untracked files. */
+    readonly untrackedHash?: string;
+    readonly message: string;
+    readonly date?: string;
 }
 
 export type CommitFileChange = SharedCommitFileChange;
@@ -131,7 +172,31 @@ export interface GraphWorktreeContextTarget {
     readonly worktree?: WorktreeLocator;
 }
 
+export interface GraphRebaseBackupContextTarget {
+    readonly kind: 'rebaseBackup';
+    readonly ref: string;
+    readonly hash: string;
+    readonly repository?: RepositoryLocator;
+}
+
+export interface GraphTagContextTarget {
+    readonly kind: 'tag';
+    readonly tag: string;
+    readonly hash: string;
+    readonly repository?: RepositoryLocator;
+}
+
+export interface GraphStashContextTarget {
+    readonly kind: 'stash';
+    readonly index: number;
+    readonly hash: string;
+    readonly repository?: RepositoryLocator;
+}
+
 export type GraphContextTarget =
     | GraphCommitContextTarget
     | GraphBranchContextTarget
-    | GraphWorktreeContextTarget;
+    | GraphWorktreeContextTarget
+    | GraphRebaseBackupContextTarget
+    | GraphTagContextTarget
+    | GraphStashContextTarget;
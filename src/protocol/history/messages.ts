@@ -2,7 +2,8 @@ import type { ErrorMessage, Pagination, ProtocolError, RequestId } from '@protoc
 import type { OperationNoticeActionKind, OperationStatus } from '@protocol/shared/operation';
 import type { RepositoriesChangedPush, RepositoryNavigationMessage, SerializedRepoContext } from '@protocol/shared/repo';
 import type { WebviewFontSizeChangedPush } from '@protocol/shared/ui';
-import type { HistoryCommitDetails, HistoryContextTarget, HistoryData } from '@protocol/history/types';
+import type { OperationPlanAcknowledgement, OperationPlanPrompt } from '@protocol/shared/operation-plan';
+import type { HistoryCommitDetails, HistoryCommitFile, HistoryContextTarget, HistoryData } from '@protocol/history/types';
 
 export interface RepoContextChangedPush {
     readonly type: 'repo/contextChanged';
@@ -56,6 +57,12 @@ export interface HistoryOperationStatusPush {
     readonly actions?: readonly OperationNoticeActionKind[];
 }
 
+/** A destructive commit command waits for `history/acknowledgeOperationPlan` before it runs. */
+export interface HistoryOperationPlanPush {
+    readonly type: 'history/operationPlan';
+    readonly plan: OperationPlanPrompt;
+}
+
 export type HistoryExtensionToWebviewMessage =
     | RepoContextChangedPush
     | RepoNavigationStartedPush
@@ -67,6 +74,7 @@ export type HistoryExtensionToWebviewMessage =
     | HistorySelectCommitPush
     | HistoryApplyFileViewModePush
     | HistoryOperationStatusPush
+    | HistoryOperationPlanPush
     | HistoryErrorPush
     | ErrorMessage;
 
@@ -100,6 +108,18 @@ export interface HistoryOpenDiffRequest {
     readonly isSubmodule?: boolean;
 }
 
+export interface HistoryCompareWithWorkingFileRequest {
+    readonly type: 'history/compareWithWorkingFile';
+    readonly commitHash: string;
+    readonly file: HistoryCommitFile;
+}
+
+export interface HistoryBlameAtRevisionRequest {
+    readonly type: 'history/blameAtRevision';
+    readonly commitHash: string;
+    readonly file: HistoryCommitFile;
+}
+
 export interface HistoryContextTargetMessage {
     readonly type: 'history/contextTarget';
     readonly target: HistoryContextTarget;
@@ -122,6 +142,16 @@ export interface HistoryShowOutputMessage {
     readonly type: 'history/showOutput';
 }
 
+export interface HistoryAcknowledgeOperationPlanMessage {
+    readonly type: 'history/acknowledgeOperationPlan';
+    readonly acknowledgement: OperationPlanAcknowledgement;
+}
+
+export interface HistoryCancelOperationPlanMessage {
+    readonly type: 'history/cancelOperationPlan';
+    readonly planId: string;
+}
+
 export type HistoryWebviewToExtensionMessage =
     | RepositoryNavigationMessage
     | HistoryReadyMessage
@@ -129,6 +159,10 @@ export type HistoryWebviewToExtensionMessage =
     | HistoryRefreshMessage
     | HistoryCommitDetailsRequest
     | HistoryOpenDiffRequest
+    | HistoryCompareWithWorkingFileRequest
+    | HistoryBlameAtRevisionRequest
     | HistoryContextTargetMessage
     | HistoryToolbarCommandMessage
-    | HistoryShowOutputMessage;
+    | HistoryShowOutputMessage
+    | HistoryAcknowledgeOperationPlanMessage
+    | HistoryCancelOperationPlanMessage;
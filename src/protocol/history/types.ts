@@ -1,4 +1,5 @@
 import type { Pagination } from '@protocol/shared/base';
+import type { CommitNote, CommitSignature } from '@protocol/shared/commit';
 
 export interface HistoryCommit {
     readonly hash: string;
@@ -9,6 +10,9 @@ export interface HistoryCommit {
     readonly parentHashes: readonly string[];
     readonly refs: readonly HistoryCommitRef[];
     readonly canCherryPick?: boolean;
+    readonly signature?: CommitSignature;
+    /** File history only: the followed file as changed in this commit, at the path it had then. */
+    readonly file?: HistoryCommitFile;
 }
 
 export type HistoryCommitRefKind = 'local' | 'remote' | 'tag';
@@ -33,12 +37,15 @@ export interface HistoryCommitFile {
     readonly origPath?: string;
     readonly parentHash?: string;
     readonly isSubmodule?: boolean;
+    /** Tracked by Git LFS. */
+    readonly isLfs?: boolean;
 }
 
 export interface HistoryCommitDetails {
     readonly hash: string;
     readonly fullMessage: string;
     readonly files: readonly HistoryCommitFile[];
+    readonly notes?: readonly CommitNote[];
 }
 
 export interface HistoryCommitContextTarget {
@@ -0,0 +1,50 @@
+import type { RangeDiffPair } from '@protocol/range-diff/types';
+import type { WebviewFontSizeChangedPush } from '@protocol/shared/ui';
+
+export interface RangeDiffLoadingPush {
+    readonly type: 'rangeDiff/loading';
+    readonly title: string;
+    readonly oldRange: string;
+    readonly newRange: string;
+}
+
+export interface RangeDiffLoadedPush {
+    readonly type: 'rangeDiff/loaded';
+    readonly pairs: readonly RangeDiffPair[];
+}
+
+export interface RangeDiffFailedPush {
+    readonly type: 'rangeDiff/failed';
+    readonly message: string;
+}
+
+export interface RangeDiffReadyMessage {
+    readonly type: 'rangeDiff/ready';
+}
+
+export interface RangeDiffRefreshMessage {
+    readonly type: 'rangeDiff/refresh';
+}
+
+export interface RangeDiffOpenInterdiffMessage {
+    readonly type: 'rangeDiff/openInterdiff';
+    readonly oldHash: string;
+    readonly newHash: string;
+}
+
+export interface RangeDiffOpenCommitMessage {
+    readonly type: 'rangeDiff/openCommit';
+    readonly hash: string;
+}
+
+export type RangeDiffExtensionToWebviewMessage =
+    | RangeDiffLoadingPush
+    | RangeDiffLoadedPush
+    | RangeDiffFailedPush
+    | WebviewFontSizeChangedPush;
+
+export type RangeDiffWebviewToExtensionMessage =
+    | RangeDiffReadyMessage
+    | RangeDiffRefreshMessage
+    | RangeDiffOpenInterdiffMessage
+    | RangeDiffOpenCommitMessage;
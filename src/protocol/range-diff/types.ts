@@ -0,0 +1,17 @@
+export type RangeDiffPairStatus = 'unchanged' | 'modified' | 'added' | 'dropped';
+
+export interface RangeDiffCommit {
+    /** One-based position of the commit in its range, oldest first. */
+    readonly position: number;
+    readonly hash: string;
+    readonly shortHash: string;
+}
+
+export interface RangeDiffPair {
+    readonly status: RangeDiffPairStatus;
+    readonly oldCommit?: RangeDiffCommit;
+    readonly newCommit?: RangeDiffCommit;
+    readonly subject: string;
+    /** Set for modified pairs, whose interdiff can be opened. */
+    readonly hasInterdiff?: boolean;
+}
@@ -0,0 +1,110 @@
+import type { Pagination, RequestId } from '@protocol/shared/base';
+import type { ReflogEntry, ReflogRef, ReflogResetMode } from '@protocol/reflog/types';
+import type { OperationPlanAcknowledgement, OperationPlanPrompt } from '@protocol/shared/operation-plan';
+import type { WebviewFontSizeChangedPush } from '@protocol/shared/ui';
+
+export type ReflogEntryAction = 'reset' | 'createBranch' | 'compareWithHead';
+
+export interface ReflogInitPush {
+    readonly type: 'reflog/init';
+    readonly title: string;
+    readonly refs: readonly ReflogRef[];
+    readonly selectedRef: string;
+}
+
+export interface ReflogPageResponse {
+    readonly type: 'reflog/pageResponse';
+    readonly requestId: RequestId;
+    readonly ref: string;
+    readonly page: Pagination;
+    readonly entries: readonly ReflogEntry[];
+    readonly hasMore: boolean;
+    readonly error?: string;
+}
+
+export interface ReflogOperationPlanPush {
+    readonly type: 'reflog/operationPlan';
+    readonly plan: OperationPlanPrompt;
+}
+
+export interface ReflogActionStartedPush {
+    readonly type: 'reflog/actionStarted';
+    readonly action: ReflogEntryAction;
+    readonly hash: string;
+}
+
+export interface ReflogActionCompletedPush {
+    readonly type: 'reflog/actionCompleted';
+    readonly action: ReflogEntryAction;
+    readonly hash: string;
+    readonly message?: string;
+}
+
+export interface ReflogActionFailedPush {
+    readonly type: 'reflog/actionFailed';
+    readonly action: ReflogEntryAction;
+    readonly hash: string;
+    readonly message: string;
+    readonly details?: string;
+}
+
+export interface ReflogReadyMessage {
+    readonly type: 'reflog/ready';
+}
+
+export interface ReflogPageRequest {
+    readonly type: 'reflog/pageRequest';
+    readonly requestId: RequestId;
+    readonly ref: string;
+    readonly page: Pagination;
+}
+
+export interface ReflogResetMessage {
+    readonly type: 'reflog/reset';
+    readonly selector: string;
+    readonly hash: string;
+    readonly mode: ReflogResetMode;
+}
+
+export interface ReflogCreateBranchMessage {
+    readonly type: 'reflog/createBranch';
+    readonly hash: string;
+}
+
+export interface ReflogCompareWithHeadMessage {
+    readonly type: 'reflog/compareWithHead';
+    readonly hash: string;
+}
+
+export interface ReflogAcknowledgeOperationPlanMessage {
+    readonly type: 'reflog/acknowledgeOperationPlan';
+    readonly acknowledgement: OperationPlanAcknowledgement;
+}
+
+export interface ReflogCancelOperationPlanMessage {
+    readonly type: 'reflog/cancelOperationPlan';
+    readonly planId: string;
+}
+
+export interface ReflogShowOutputMessage {
+    readonly type: 'reflog/showOutput';
+}
+
+export type ReflogExtensionToWebviewMessage =
+    | ReflogInitPush
+    | ReflogPageResponse
+    | ReflogOperationPlanPush
+    | ReflogActionStartedPush
+    | ReflogActionCompletedPush
+    | ReflogActionFailedPush
+    | WebviewFontSizeChangedPush;
+
+export type ReflogWebviewToExtensionMessage =
+    | ReflogReadyMessage
+    | ReflogPageRequest
+    | ReflogResetMessage
+    | ReflogCreateBranchMessage
+    | ReflogCompareWithHeadMessage
+    | ReflogAcknowledgeOperationPlanMessage
+    | ReflogCancelOperationPlanMessage
+    | ReflogShowOutputMessage;
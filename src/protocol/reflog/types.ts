@@ -0,0 +1,19 @@
+export type ReflogResetMode = 'soft' | 'mixed' | 'hard';
+
+export interface ReflogEntry {
+    readonly selector: string;
+    readonly hash: string;
+    readonly shortHash: string;
+    readonly previousHash?: string;
+    readonly action: string;
+    readonly message: string;
+    readonly commitSubject: string;
+    readonly date: string;
+}
+
+export interface ReflogRef {
+    /** Ref passed to `git log --walk-reflogs`, e.g. `HEAD` or `refs/heads/main`. */
+    readonly ref: string;
+    readonly label: string;
+    readonly isCurrent?: boolean;
+}
@@ -17,6 +17,16 @@ export interface ProtocolError {
     readonly operation?: string;
     readonly recoverable: boolean;
     readonly details?: string;
+    /** Set when a git hook made the operation fail. */
+    readonly hookFailure?: HookFailure;
+}
+
+/** Output of the git hook that rejected an operation, kept apart from the operation's own error. */
+export interface HookFailure {
+    /** Hook name, such as `pre-commit`. */
+    readonly hook: string;
+    readonly stdout: string;
+    readonly stderr: string;
 }
 
 export interface Pagination {
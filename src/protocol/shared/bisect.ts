@@ -0,0 +1,14 @@
+export type BisectMark = 'good' | 'bad' | 'skip';
+
+/** Actions offered by the bisect banner of the Changes and Graph views. */
+export type BisectBannerCommand = BisectMark | 'reset' | 'run' | 'openPanel';
+
+export interface BisectStatus {
+    readonly badHash?: string;
+    readonly goodHashes: readonly string[];
+    readonly skippedHashes: readonly string[];
+    readonly currentHash?: string;
+    readonly remainingRevisions?: number;
+    readonly remainingSteps?: number;
+    readonly firstBadHash?: string;
+}
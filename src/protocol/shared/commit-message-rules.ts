@@ -0,0 +1,107 @@
+import type { CommitSigningDefaults } from '@protocol/shared/commit';
+
+/** Repository rules for commit messages, read from `.lookgit/commit-rules.json`; every rule is optional. */
+export interface CommitMessageRules {
+    readonly subjectMaxLength?: number;
+    /** Subjects must read `type(scope): summary`. */
+    readonly requireScope?: boolean;
+    /** Conventional commit types the subject may start with. */
+    readonly allowedTypes?: readonly string[];
+    /** Regular expression source that must match somewhere in the message, such as `[A-Z]+-\d+`. */
+    readonly issueKeyPattern?: string;
+    /** Whole words rejected anywhere in the message, compared case-insensitively. */
+    readonly forbiddenWords?: readonly string[];
+    readonly bodyWrapColumn?: number;
+    /** Violations block the commit instead of only warning. */
+    readonly blockCommits?: boolean;
+}
+
+export type CommitMessageRule = Exclude<keyof CommitMessageRules, 'blockCommits'>;
+
+export interface CommitMessageDiagnostic {
+    readonly rule: CommitMessageRule;
+    readonly message: string;
+    /** 1-based message line the diagnostic points at. */
+    readonly line: number;
+}
+
+/** Template and rules applied to new commit messages of a repository. */
+export interface CommitMessageConventions {
+    /** `commit.template` without its comment lines; empty when unset. */
+    readonly template: string;
+    readonly rules?: CommitMessageRules;
+    /** Why the rule file could not be read; the other conventions still apply. */
+    readonly rulesError?: string;
+    readonly signing?: CommitSigningDefaults;
+}
+
+const CONVENTIONAL_HEADER = /^([A-Za-z][\w-]*)(?:\(([^()]*)\))?!?: \S/;
+// Trailers and lines without spaces (URLs, paths) cannot be wrapped, so the wrap column skips them.
+const TRAILER_LINE = /^[A-Za-z0-9][A-Za-z0-9-]*: /;
+
+/** Checks `message` against `rules`; an empty message has no diagnostics since the composers reject it anyway. */
+export function evaluateCommitMessageRules(message: string, rules: CommitMessageRules | undefined): readonly CommitMessageDiagnostic[] {
+    if (!rules || !message.trim()) { return []; }
+    const lines = message.trim().split(/\r?\n/);
+    const subject = lines[0]?.trim() ?? '';
+    const header = CONVENTIONAL_HEADER.exec(subject);
+    const diagnostics: CommitMessageDiagnostic[] = [];
+
+    if (rules.allowedTypes && rules.allowedTypes.length > 0) {
+        const allowed = rules.allowedTypes.join(', ');
+        const type = header?.[1];
+        if (type === undefined) {
+            diagnostics.push({ rule: 'allowedTypes', line: 1, message: `Subject must start with one of: ${allowed}.` });
+        } else if (!rules.allowedTypes.includes(type)) {
+            diagnostics.push({ rule: 'allowedTypes', line: 1, message: `Type "${type}" is not allowed; use one of: ${allowed}.` });
+        }
+    }
+    if (rules.requireScope && !header?.[2]?.trim()) {
+        diagnostics.push({ rule: 'requireScope', line: 1, message: 'Subject needs a scope, as in "type(scope): summary".' });
+    }
+    if (rules.subjectMaxLength !== undefined && subject.length > rules.subjectMaxLength) {
+        diagnostics.push({
+            rule: 'subjectMaxLength',
+            line: 1,
+            message: `Subject is ${subject.length} characters; keep it to ${rules.subjectMaxLength}.`,
+        });
+    }
+    if (rules.issueKeyPattern) {
+        const pattern = compilePattern(rules.issueKeyPattern, '');
+        if (pattern && !pattern.test(message)) {
+            diagnostics.push({ rule: 'issueKeyPattern', line: 1, message: `Reference an issue matching /${rules.issueKeyPattern}/.` });
+        }
+    }
+    for (const word of rules.forbiddenWords ?? []) {
+        const pattern = word.trim() ? compilePattern(`(?<![\\w])${escapeRegExp(word.trim())}(?![\\w])`, 'i') : undefined;
+        const index = pattern ? lines.findIndex((line) => pattern.test(line)) : -1;
+        if (index >= 0) {
+            diagnostics.push({ rule: 'forbiddenWords', line: index + 1, message: `"${word.trim()}" is not allowed in commit messages.` });
+        }
+    }
+    if (rules.bodyWrapColumn !== undefined) {
+        const column = rules.bodyWrapColumn;
+        lines.forEach((line, index) => {
+            if (index === 0 || line.length <= column || !/\s/.test(line.trim()) || TRAILER_LINE.test(line)) { return; }
+            diagnostics.push({ rule: 'bodyWrapColumn', line: index + 1, message: `Line ${index + 1} is ${line.length} characters; wrap the body at ${column}.` });
+        });
+    }
+    return diagnostics;
+}
+
+/** Whether `diagnostics` keep a message from being committed under `rules`. */
+export function commitMessageRulesBlock(rules: CommitMessageRules | undefined, diagnostics: readonly CommitMessageDiagnostic[]): boolean {
+    return rules?.blockCommits === true && diagnostics.length > 0;
+}
+
+function compilePattern(source: string, flags: string): RegExp | undefined {
+    try {
+        return new RegExp(source, flags);
+    } catch {
+        return undefined;
+    }
+}
+
+function escapeRegExp(value: string): string {
+    return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
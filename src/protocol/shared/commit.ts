@@ -4,4 +4,41 @@ export interface CommitFileChange {
     readonly origPath?: string;
     readonly parentHash?: string;
     readonly isSubmodule?: boolean;
+    /** Tracked by Git LFS. */
+    readonly isLfs?: boolean;
+}
+
+/** Linkable range of a commit message; `start` and `end` are UTF-16 offsets, `end` exclusive. */
+export interface CommitMessageLink {
+    readonly start: number;
+    readonly end: number;
+    readonly url: string;
+}
+
+export type CommitSignatureStatus = 'good' | 'bad' | 'untrusted' | 'expired' | 'unknown';
+
+/** Verification result of a signed commit; unsigned commits carry none. */
+export interface CommitSignature {
+    readonly status: CommitSignatureStatus;
+    readonly signer?: string;
+    readonly key?: string;
+}
+
+/** `commit.gpgSign` and `gpg.format` of a repository; the sign toggles start from them. */
+export interface CommitSigningDefaults {
+    readonly sign: boolean;
+    /** `openpgp`, `ssh` or `x509`. */
+    readonly format: string;
+}
+
+/** Note attached to a commit; `ref` is the full notes ref, e.g. `refs/notes/commits`. */
+export interface CommitNote {
+    readonly ref: string;
+    readonly message: string;
+}
+
+/** Author identity offered as a `Co-authored-by` trailer. */
+export interface CommitIdentity {
+    readonly name: string;
+    readonly email: string;
 }
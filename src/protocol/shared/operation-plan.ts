@@ -0,0 +1,40 @@
+export type OperationPlanGuardKind =
+    | 'confirm'
+    | 'previewRequired'
+    | 'cleanWorktreeRequired'
+    | 'noOperationInProgress'
+    | 'requiresCredentials'
+    | 'requiresInitializedSubmodule'
+    | 'destructive'
+    | 'highRiskRemote';
+
+export type OperationPlanGuardLevel = 'info' | 'warning' | 'danger';
+
+export interface OperationPlanGuard {
+    readonly kind: OperationPlanGuardKind;
+    readonly level: OperationPlanGuardLevel;
+    readonly reason: string;
+}
+
+export interface OperationPlanTarget {
+    readonly kind: string;
+    readonly id: string;
+    readonly label: string;
+}
+
+/** A host-built plan for a guarded action. The webview only renders it and returns the user's acknowledgement. */
+export interface OperationPlanPrompt {
+    readonly planId: string;
+    readonly title: string;
+    readonly confirmLabel: string;
+    readonly guards: readonly OperationPlanGuard[];
+    readonly targets: readonly OperationPlanTarget[];
+    readonly previewHash?: string;
+    readonly recovery?: string;
+}
+
+export interface OperationPlanAcknowledgement {
+    readonly planId: string;
+    readonly acknowledgedGuards: readonly OperationPlanGuardKind[];
+    readonly previewHash?: string;
+}
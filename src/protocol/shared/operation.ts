@@ -9,4 +9,5 @@ export enum OperationStatus {
 export enum OperationNoticeActionKind {
     ShowOutput = 'showOutput',
     Retry = 'retry',
+    Undo = 'undo',
 }
@@ -1,13 +1,17 @@
 import type { StatusData, StatusEntry, StashEntry, SubmoduleEntry } from '@protocol/changes/types';
-import type { BranchInfo, GraphCommit, GraphData, GraphSubmoduleInfo, TagInfo, WorktreeInfo, WorktreeWip } from '@protocol/graph/types';
-import type { HistoryCommit, HistoryCommitRef, HistoryData } from '@protocol/history/types';
+import type { BranchInfo, GraphCommit, GraphData, GraphStashInfo, GraphSubmoduleInfo, RebaseBackupInfo, TagInfo, WorktreeInfo, WorktreeWip } from '@protocol/graph/types';
+import type { HistoryCommit, HistoryCommitFile, HistoryCommitRef, HistoryData } from '@protocol/history/types';
 import type { Pagination } from '@protocol/shared/base';
+import type { CommitSignature } from '@protocol/shared/commit';
 import type { RepositoryLocator, WorktreeLocator } from '@protocol/shared/repo';
+import type { BisectStatus } from '@protocol/shared/bisect';
 
 export function statusDataEqual(a: StatusData, b: StatusData): boolean {
     return a.repositoryState === b.repositoryState
         && a.currentBranch === b.currentBranch
         && a.conflictState === b.conflictState
+        && a.sequencerRemaining === b.sequencerRemaining
+        && bisectStatusEqual(a.bisect, b.bisect)
         && statusEntriesEqual(a.staged, b.staged)
         && statusEntriesEqual(a.unstaged, b.unstaged)
         && statusEntriesEqual(a.conflicts, b.conflicts)
@@ -29,7 +33,10 @@ export function graphDataEqual(a: GraphData, b: GraphData): boolean {
         && graphCommitsEqual(a.commits, b.commits)
         && worktreesEqual(a.worktrees, b.worktrees)
         && worktreeWipsEqual(a.worktreeWips, b.worktreeWips)
-        && graphSubmodulesEqual(a.submodules, b.submodules);
+        && graphSubmodulesEqual(a.submodules, b.submodules)
+        && bisectStatusEqual(a.bisect, b.bisect)
+        && rebaseBackupsEqual(a.rebaseBackups ?? [], b.rebaseBackups ?? [])
+        && graphStashesEqual(a.stashes ?? [], b.stashes ?? []);
 }
 
 export function historyDataEqual(a: HistoryData, b: HistoryData): boolean {
@@ -47,7 +54,14 @@ export function branchesEqual(a: readonly BranchInfo[], b: readonly BranchInfo[]
 }
 
 export function tagsEqual(a: readonly TagInfo[], b: readonly TagInfo[]): boolean {
-    return arraysEqual(a, b, (left, right) => left.name === right.name && left.hash === right.hash);
+    return arraysEqual(a, b, (left, right) => left.name === right.name
+        && left.hash === right.hash
+        && left.target === right.target
+        && left.annotated === right.annotated
+        && left.taggerName === right.taggerName
+        && left.taggerEmail === right.taggerEmail
+        && left.date === right.date
+        && left.message === right.message);
 }
 
 export function worktreesEqual(a: readonly WorktreeInfo[], b: readonly WorktreeInfo[]): boolean {
@@ -62,6 +76,34 @@ export function graphSubmodulesEqual(a: readonly GraphSubmoduleInfo[], b: readon
     return arraysEqual(a, b, graphSubmoduleEqual);
 }
 
+export function rebaseBackupsEqual(a: readonly RebaseBackupInfo[], b: readonly RebaseBackupInfo[]): boolean {
+    return arraysEqual(a, b, (left, right) => left.ref === right.ref
+        && left.hash === right.hash
+        && left.branch === right.branch
+        && left.commitCount === right.commitCount);
+}
+
+export function graphStashesEqual(a: readonly GraphStashInfo[], b: readonly GraphStashInfo[]): boolean {
+    return arraysEqual(a, b, (left, right) => left.index === right.index
+        && left.hash === right.hash
+        && left.baseHash === right.baseHash
+        && left.indexHash === right.indexHash
+        && left.untrackedHash === right.untrackedHash
+        && left.message === right.message
+        && left.date === right.date);
+}
+
+export function bisectStatusEqual(a: BisectStatus | undefined, b: BisectStatus | undefined): boolean {
+    if (!a || !b) { return a === b; }
+    return a.badHash === b.badHash
+        && a.currentHash === b.currentHash
+        && a.remainingRevisions === b.remainingRevisions
+        && a.remainingSteps === b.remainingSteps
+        && a.firstBadHash === b.firstBadHash
+        && stringArraysEqual(a.goodHashes, b.goodHashes)
+        && stringArraysEqual(a.skippedHashes, b.skippedHashes);
+}
+
 function statusEntriesEqual(a: readonly StatusEntry[], b: readonly StatusEntry[]): boolean {
     return arraysEqual(a, b, statusEntryEqual);
 }
@@ -72,7 +114,8 @@ function statusEntryEqual(a: StatusEntry, b: StatusEntry): boolean {
         && a.filePath === b.filePath
         && a.origPath === b.origPath
         && a.isSubmodule === b.isSubmodule
-        && a.submoduleStatus === b.submoduleStatus;
+        && a.submoduleStatus === b.submoduleStatus
+        && a.isLfs === b.isLfs;
 }
 
 function stashesEqual(a: readonly StashEntry[], b: readonly StashEntry[]): boolean {
@@ -93,7 +136,8 @@ function graphCommitEqual(a: GraphCommit, b: GraphCommit): boolean {
         && a.matchesFilter === b.matchesFilter
         && a.canCherryPick === b.canCherryPick
         && stringArraysEqual(a.parentHashes, b.parentHashes)
-        && stringArraysEqual(a.refs, b.refs);
+        && stringArraysEqual(a.refs, b.refs)
+        && commitSignatureEqual(a.signature, b.signature);
 }
 
 function branchEqual(a: BranchInfo, b: BranchInfo): boolean {
@@ -148,7 +192,19 @@ function historyCommitEqual(a: HistoryCommit, b: HistoryCommit): boolean {
         && a.authorDate === b.authorDate
         && a.canCherryPick === b.canCherryPick
         && stringArraysEqual(a.parentHashes, b.parentHashes)
-        && historyCommitRefsEqual(a.refs, b.refs);
+        && historyCommitRefsEqual(a.refs, b.refs)
+        && historyCommitFileEqual(a.file, b.file)
+        && commitSignatureEqual(a.signature, b.signature);
+}
+
+function commitSignatureEqual(a: CommitSignature | undefined, b: CommitSignature | undefined): boolean {
+    if (!a || !b) { return a === b; }
+    return a.status === b.status && a.signer === b.signer && a.key === b.key;
+}
+
+function historyCommitFileEqual(a: HistoryCommitFile | undefined, b: HistoryCommitFile | undefined): boolean {
+    if (!a || !b) { return a === b; }
+    return a.status === b.status && a.filePath === b.filePath && a.origPath === b.origPath;
 }
 
 function historyCommitRefsEqual(a: readonly HistoryCommitRef[], b: readonly HistoryCommitRef[]): boolean {
@@ -0,0 +1,108 @@
+import type { TagInfo } from '@protocol/graph/types';
+
+export type TagSortOrder = 'version' | 'date';
+
+interface TagVersion {
+    /** Text before the version numbers, such as `v` or `api/v`; tags of one series share it. */
+    readonly prefix: string;
+    readonly numbers: readonly number[];
+    readonly prerelease: readonly string[];
+}
+
+// `v1.2.3`, `release-2.0`, `api/v1.4.0-rc.1+build.5`; build metadata never affects the order.
+const VERSION_PATTERN = /^(.*?)(\d+(?:\.\d+)*)(?:-([0-9A-Za-z.-]+))?(?:\+[0-9A-Za-z.-]+)?$/;
+
+/**
+ * Orders tag names by version, oldest first: `v1.10.0` after `v1.9.0` and prereleases before
+ * their release, as in semver. Names without a version sort after every versioned name.
+ */
+export function compareTagVersions(left: string, right: string): number {
+    const leftVersion = parseTagVersion(left);
+    const rightVersion = parseTagVersion(right);
+    if (!leftVersion || !rightVersion) {
+        if (leftVersion) { return -1; }
+        if (rightVersion) { return 1; }
+        return compareText(left, right);
+    }
+    return compareNumbers(leftVersion.numbers, rightVersion.numbers)
+        || comparePrerelease(leftVersion.prerelease, rightVersion.prerelease)
+        || compareText(leftVersion.prefix, rightVersion.prefix)
+        || compareText(left, right);
+}
+
+/** Tags newest first: by descending version, or by descending tag date with undated tags last. Names without a version stay last. */
+export function sortTags(tags: readonly TagInfo[], order: TagSortOrder): TagInfo[] {
+    return [...tags].sort((left, right) => {
+        if (order === 'date') {
+            const leftTime = tagTime(left);
+            const rightTime = tagTime(right);
+            if (leftTime !== rightTime) { return rightTime > leftTime ? 1 : -1; }
+        }
+        const leftIsVersion = parseTagVersion(left.name) !== undefined;
+        const rightIsVersion = parseTagVersion(right.name) !== undefined;
+        if (leftIsVersion !== rightIsVersion) { return leftIsVersion ? -1 : 1; }
+        return leftIsVersion ? compareTagVersions(right.name, left.name) : compareText(left.name, right.name);
+    });
+}
+
+/**
+ * The release `tag` follows: the highest version below it in the same series (same prefix).
+ * A release skips prereleases, so `v1.2.0` follows `v1.1.0` rather than `v1.2.0-rc.1`.
+ */
+export function previousTagVersion(tag: string, candidates: readonly string[]): string | undefined {
+    const version = parseTagVersion(tag);
+    if (!version) { return undefined; }
+    let previous: string | undefined;
+    for (const candidate of candidates) {
+        const candidateVersion = parseTagVersion(candidate);
+        if (!candidateVersion || candidateVersion.prefix !== version.prefix) { continue; }
+        if (version.prerelease.length === 0 && candidateVersion.prerelease.length > 0) { continue; }
+        if (compareTagVersions(candidate, tag) >= 0) { continue; }
+        if (previous === undefined || compareTagVersions(candidate, previous) > 0) { previous = candidate; }
+    }
+    return previous;
+}
+
+function parseTagVersion(name: string): TagVersion | undefined {
+    const match = VERSION_PATTERN.exec(name);
+    if (!match) { return undefined; }
+    return {
+        prefix: match[1] ?? '',
+        numbers: (match[2] ?? '').split('.').map(Number),
+        prerelease: match[3] ? match[3].split('.') : [],
+    };
+}
+
+function compareNumbers(left: readonly number[], right: readonly number[]): number {
+    for (let index = 0; index < Math.max(left.length, right.length); index++) {
+        const difference = (left[index] ?? 0) - (right[index] ?? 0);
+        if (difference !== 0) { return difference; }
+    }
+    return 0;
+}
+
+function comparePrerelease(left: readonly string[], right: readonly string[]): number {
+    if (left.length === 0 || right.length === 0) { return right.length - left.length; }
+    for (let index = 0; index < Math.max(left.length, right.length); index++) {
+        const leftPart = left[index];
+        const rightPart = right[index];
+        if (leftPart === undefined) { return -1; }
+        if (rightPart === undefined) { return 1; }
+        const leftNumeric = /^\d+$/.test(leftPart);
+        const rightNumeric = /^\d+$/.test(rightPart);
+        const difference = leftNumeric && rightNumeric
+            ? Number(leftPart) - Number(rightPart)
+            : leftNumeric !== rightNumeric ? (leftNumeric ? -1 : 1) : compareText(leftPart, rightPart);
+        if (difference !== 0) { return difference; }
+    }
+    return 0;
+}
+
+function tagTime(tag: TagInfo): number {
+    const time = tag.date ? Date.parse(tag.date) : NaN;
+    return Number.isNaN(time) ? -Infinity : time;
+}
+
+function compareText(left: string, right: string): number {
+    return left < right ? -1 : left > right ? 1 : 0;
+}
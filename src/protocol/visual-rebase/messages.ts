@@ -1,6 +1,7 @@
-import type { CommitFileChange } from '@protocol/shared/commit';
+import type { CommitFileChange, CommitSigningDefaults } from '@protocol/shared/commit';
 import type { VisualRebaseCommit, VisualRebaseConflictFile, VisualRebasePlanEntry, VisualRebaseRef, VisualRebaseSafety } from '@protocol/visual-rebase/types';
 import type { WebviewFontSizeChangedPush } from '@protocol/shared/ui';
+import type { CommitMessageRules } from '@protocol/shared/commit-message-rules';
 
 export type VisualRebaseRecommendedAction = 'continue' | 'skip';
 export type VisualRebaseOperation = 'start' | 'continue' | 'skip' | 'abort' | 'resolveConflict';
@@ -15,6 +16,9 @@ export interface VisualRebaseInitPush {
     readonly commits: readonly VisualRebaseCommit[];
     readonly safety: VisualRebaseSafety;
     readonly refs: readonly VisualRebaseRef[];
+    /** Repository rules reworded messages are checked against. */
+    readonly rules?: CommitMessageRules;
+    readonly signing?: CommitSigningDefaults;
 }
 
 export interface VisualRebaseStartedPush {
@@ -73,6 +77,8 @@ export interface VisualRebaseStartMessage {
     readonly rewriteAfter: string;
     readonly replayOnto: string;
     readonly plan: readonly VisualRebasePlanEntry[];
+    /** Signs the rewritten commits or refuses to sign them; unset follows `commit.gpgSign`. */
+    readonly sign?: boolean;
 }
 
 export interface VisualRebasePreviewRequest {
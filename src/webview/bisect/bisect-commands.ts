@@ -0,0 +1,31 @@
+import type { BisectCancelRunMessage, BisectMarkMessage, BisectReadyMessage, BisectResetMessage, BisectRunMessage, BisectShowOutputMessage, BisectStartMessage } from '@protocol/bisect/messages';
+import type { BisectMark } from '@protocol/shared/bisect';
+
+export function messageForBisectReady(): BisectReadyMessage {
+    return { type: 'bisect/ready' };
+}
+
+/** Good revisions may be separated by spaces or commas, as typed on a `git bisect start` command line. */
+export function messageForBisectStart(bad: string, good: string): BisectStartMessage {
+    return { type: 'bisect/start', bad: bad.trim(), good: good.split(/[\s,]+/).filter(Boolean) };
+}
+
+export function messageForBisectMark(mark: BisectMark): BisectMarkMessage {
+    return { type: 'bisect/mark', mark };
+}
+
+export function messageForBisectReset(): BisectResetMessage {
+    return { type: 'bisect/reset' };
+}
+
+export function messageForBisectRun(command: string): BisectRunMessage {
+    return { type: 'bisect/run', command: command.trim() };
+}
+
+export function messageForBisectCancelRun(): BisectCancelRunMessage {
+    return { type: 'bisect/cancelRun' };
+}
+
+export function messageForBisectShowOutput(): BisectShowOutputMessage {
+    return { type: 'bisect/showOutput' };
+}
@@ -0,0 +1,55 @@
+import { useEffect, useReducer } from 'react';
+import type { BisectExtensionToWebviewMessage, BisectWebviewToExtensionMessage } from '@protocol/bisect/messages';
+import type { BisectMark } from '@protocol/shared/bisect';
+import { BisectApp } from '@webview/features/bisect/bisect-app';
+import { initialBisectState, reduceBisectState } from '@webview/features/bisect/bisect-state';
+import { applyWebviewFontSize, isWebviewFontSizeMessage } from '@webview/platform/font-size';
+import { vscodeApi } from '@webview/platform/vscode-host';
+import {
+    messageForBisectCancelRun,
+    messageForBisectMark,
+    messageForBisectReady,
+    messageForBisectReset,
+    messageForBisectRun,
+    messageForBisectShowOutput,
+    messageForBisectStart,
+} from '@webview/bisect/bisect-commands';
+
+export function BisectWebview() {
+    const [state, dispatch] = useReducer(reduceBisectState, initialBisectState);
+
+    useEffect(() => {
+        const onMessage = (event: MessageEvent<BisectExtensionToWebviewMessage>) => {
+            if (isWebviewFontSizeMessage(event.data)) {
+                applyWebviewFontSize(event.data.fontSize);
+                return;
+            }
+            dispatch({ type: 'message', message: event.data });
+        };
+        window.addEventListener('message', onMessage);
+        postToExtension(messageForBisectReady());
+        return () => window.removeEventListener('message', onMessage);
+    }, []);
+
+    return (
+        <BisectApp
+            title={state.title}
+            loading={state.loading}
+            status={state.status}
+            log={state.log}
+            runOutput={state.runOutput}
+            actionStatus={state.actionStatus}
+            onStart={(bad: string, good: string) => postToExtension(messageForBisectStart(bad, good))}
+            onMark={(mark: BisectMark) => postToExtension(messageForBisectMark(mark))}
+            onReset={() => postToExtension(messageForBisectReset())}
+            onRun={(command: string) => postToExtension(messageForBisectRun(command))}
+            onCancelRun={() => postToExtension(messageForBisectCancelRun())}
+            onShowOutput={() => postToExtension(messageForBisectShowOutput())}
+            onDismissStatus={() => dispatch({ type: 'clearActionStatus' })}
+        />
+    );
+}
+
+function postToExtension(message: BisectWebviewToExtensionMessage): void {
+    vscodeApi.postMessage(message);
+}
@@ -0,0 +1,5 @@
+import { BisectWebview } from '@webview/bisect/bisect-webview';
+import { mountWebview } from '@webview/shared/mount-webview';
+import '@webview/styles.css';
+
+mountWebview(<BisectWebview />);
@@ -1,6 +1,7 @@
-import { useEffect, useReducer } from 'react';
-import type { ChangesExtensionToWebviewMessage, ChangesWebviewToExtensionMessage } from '@protocol/changes/messages';
-import type { CommitMode, StashFileEntry } from '@protocol/changes/types';
+import { useCallback, useEffect, useReducer } from 'react';
+import type { ChangeHunkCommand, ChangesExtensionToWebviewMessage, ChangesWebviewToExtensionMessage } from '@protocol/changes/messages';
+import type { ChangeDiffHunk, CommitMode, StashFileEntry } from '@protocol/changes/types';
+import type { BisectBannerCommand } from '@protocol/shared/bisect';
 import { OperationStatus } from '@protocol/shared/operation';
 import {
     messageForBulkAction,
@@ -11,18 +12,32 @@ import {
     type ChangeBulkAction,
     type ChangeRowAction,
 } from '@webview/features/changes/change-commands';
-import type { ChangeListItem, ChangeSection, ChangeSectionId } from '@webview/features/changes/change-tree';
-import { messageForGenerateCommitMessage, messageForGenerateSubmoduleCommitMessage } from '@webview/features/changes/commit-message-commands';
+import { buildChangeSections, type ChangeListItem, type ChangeSection, type ChangeSectionId } from '@webview/features/changes/change-tree';
+import {
+    messageForGenerateCommitMessage,
+    messageForGenerateSubmoduleCommitMessage,
+    messageForGetCoAuthorCandidates,
+    messageForGetCommitMessageConventions,
+} from '@webview/features/changes/commit-message-commands';
 import { ChangesApp } from '@webview/features/changes/changes-app';
+import {
+    messageForCommitWithoutHooks,
+    messageForOpenHookScript,
+    messageForRetryAfterHookFailure,
+} from '@webview/features/changes/hook-failure-commands';
 import {
     createInitialChangesState,
     reduceChangesState,
     submoduleStashKey,
     type ChangeSelectionMode,
+    type HookFailureState,
 } from '@webview/features/changes/changes-state';
 import { changesStateToPersisted, readChangesStatePreferences } from '@webview/features/changes/changes-persistence';
-import { messageForOperationAction, type ActiveConflictState, type OperationAction } from '@webview/features/changes/operation-commands';
+import { messageForBisectCommand, messageForOperationAction, type ActiveConflictState, type OperationAction } from '@webview/features/changes/operation-commands';
 import { changesSelectionTarget } from '@webview/features/changes/change-selection-model';
+import { messageForGetFileHunks, messageForHunkCommand } from '@webview/features/changes/hunk-commands';
+import { messageForGetIgnoredFiles } from '@webview/features/changes/ignore-commands';
+import { CHANGE_SECTION_PAGE_SIZE } from '@webview/features/changes/change-pagination';
 import { messageForSelectionAction, ChangeSelectionAction } from '@webview/features/changes/selection-commands';
 import {
     messageForCreateSelectedStash,
@@ -119,6 +134,21 @@ export function ChangesWebview() {
         }
     }, [state.expandedStashIndexes, state.status.stashes, state.stashFilesByIndex]);
 
+    useEffect(() => {
+        if (state.expandedDiffItemIds.length === 0) { return; }
+        const itemsById = new Map(buildChangeSections(state.status).flatMap((section) => section.items).map((item) => [item.id, item]));
+        for (const itemId of state.expandedDiffItemIds) {
+            const item = itemsById.get(itemId);
+            if (!item || state.loadingDiffItemIds.includes(itemId)) { continue; }
+            if (
+                Object.prototype.hasOwnProperty.call(state.fileHunksByItemId, itemId)
+                && !state.staleDiffItemIds.includes(itemId)
+            ) { continue; }
+            dispatch({ type: 'requestFileHunks', itemId });
+            postToExtension(messageForGetFileHunks(item));
+        }
+    }, [state.expandedDiffItemIds, state.fileHunksByItemId, state.loadingDiffItemIds, state.staleDiffItemIds, state.status]);
+
     useEffect(() => {
         const knownSubmodulePaths = new Set(state.status.submodules.map((submodule) => submodule.path));
         for (const submodulePath of state.expandedSubmodulePaths) {
@@ -139,6 +169,17 @@ export function ChangesWebview() {
         state.submoduleStatusByPath,
     ]);
 
+    useEffect(() => {
+        for (const scope of state.expandedIgnoredScopes) {
+            if (state.loadingIgnoredScopes.includes(scope)) { continue; }
+            const page = state.ignoredFilesByScope[scope];
+            if (page && !state.staleIgnoredScopes.includes(scope)) { continue; }
+            // Reload as many paths as were listed, so a refresh keeps the pages the user already opened.
+            dispatch({ type: 'requestIgnoredFiles', scope });
+            postToExtension(messageForGetIgnoredFiles(scope, 0, Math.max(CHANGE_SECTION_PAGE_SIZE, page?.filePaths.length ?? 0)));
+        }
+    }, [state.expandedIgnoredScopes, state.ignoredFilesByScope, state.loadingIgnoredScopes, state.staleIgnoredScopes]);
+
     useEffect(() => {
         for (const [submodulePath, statusData] of Object.entries(state.submoduleStatusByPath)) {
             for (const stash of statusData.stashes) {
@@ -154,6 +195,20 @@ export function ChangesWebview() {
         dispatch({ type: 'toggleStash', index });
     };
 
+    const toggleFileDiff = useCallback((item: ChangeListItem) => {
+        dispatch({ type: 'toggleFileDiff', itemId: item.id });
+    }, []);
+
+    const handleHunkCommand = useCallback((
+        item: ChangeListItem,
+        command: ChangeHunkCommand,
+        hunkIndex: number,
+        hunk: ChangeDiffHunk,
+        lineIndexes?: readonly number[],
+    ) => {
+        postToExtension(messageForHunkCommand(item, command, hunkIndex, hunk, lineIndexes));
+    }, []);
+
     const toggleSubmodule = (submodulePath: string) => {
         dispatch({ type: 'toggleSubmodule', path: submodulePath });
     };
@@ -163,6 +218,13 @@ export function ChangesWebview() {
         dispatch({ type: 'toggleSubmoduleStash', key });
     };
 
+    const loadMoreIgnoredFiles = (scope: string) => {
+        const page = state.ignoredFilesByScope[scope];
+        if (!page?.hasMore || state.loadingIgnoredScopes.includes(scope)) { return; }
+        dispatch({ type: 'requestIgnoredFiles', scope });
+        postToExtension(messageForGetIgnoredFiles(scope, page.filePaths.length, CHANGE_SECTION_PAGE_SIZE));
+    };
+
     const handleSubmoduleAction = (path: string, action: SubmoduleAction) => {
         if (action === SubmoduleAction.Refresh) {
             dispatch({ type: 'requestSubmoduleStatus', path });
@@ -170,6 +232,16 @@ export function ChangesWebview() {
         postToExtension(messageForSubmoduleAction(path, action));
     };
 
+    // Retrying or skipping hooks starts a new attempt, so the old output goes; opening the script keeps it to compare.
+    const hookFailureAction = (messageFor: (failure: HookFailureState) => ChangesWebviewToExtensionMessage | undefined) => {
+        const message = state.hookFailure ? messageFor(state.hookFailure) : undefined;
+        if (!message) { return undefined; }
+        return () => {
+            if (message.type !== 'changes/openHookScript') { dispatch({ type: 'clearError' }); }
+            postToExtension(message);
+        };
+    };
+
     return (
         <ChangesApp
             state={state}
@@ -178,7 +250,11 @@ export function ChangesWebview() {
                 dispatch({ type: 'selectChange', selection: { itemId: item.id, mode, visibleItemIds } });
             }}
             onRowAction={(item: ChangeListItem, action: ChangeRowAction) => postToExtension(messageForRowAction(item, action))}
+            onToggleFileDiff={toggleFileDiff}
+            onHunkCommand={handleHunkCommand}
             onBulkAction={(section: ChangeSection, action: ChangeBulkAction) => postToExtension(messageForBulkAction(section, action))}
+            onToggleIgnoredFiles={(scope: string) => dispatch({ type: 'toggleIgnoredFiles', scope })}
+            onLoadMoreIgnoredFiles={loadMoreIgnoredFiles}
             onExplainSelection={(target) => postToExtension(messageForExplainSelection(target))}
             onSelectionContextTarget={(target) => postToExtension(messageForChangesContextTarget(target))}
             onSelectionAction={(items, action) => {
@@ -190,38 +266,55 @@ export function ChangesWebview() {
                 if (message) { postToExtension(message); }
             }}
             onClearSelection={() => dispatch({ type: 'clearSelection' })}
-            onCommit={(message: string, mode: CommitMode) => {
+            onCommit={(message: string, mode: CommitMode, sign?: boolean) => {
                 dispatch({ type: 'rememberCommitMessage', message });
-                postToExtension({ type: 'changes/commit', message, mode });
+                postToExtension({ type: 'changes/commit', message, mode, ...(sign !== undefined ? { sign } : {}) });
             }}
-            onCommitComposerContextTarget={(message: string) => postToExtension(messageForChangesContextTarget({
+            onCommitComposerContextTarget={(message: string, sign?: boolean) => postToExtension(messageForChangesContextTarget({
                 kind: 'commitComposer',
                 message,
+                ...(sign !== undefined ? { sign } : {}),
             }))}
             onGenerateCommitMessage={() => {
                 const message = messageForGenerateCommitMessage();
                 dispatch({ type: 'requestCommitMessageGeneration', requestId: message.requestId });
                 postToExtension(message);
             }}
+            onRequestCoAuthorCandidates={(submodulePath?: string) => postToExtension(messageForGetCoAuthorCandidates(submodulePath))}
+            onRequestCommitMessageConventions={(submodulePath?: string) => postToExtension(messageForGetCommitMessageConventions(submodulePath))}
             onClearPathFilter={() => dispatch({ type: 'setPathFilter', pathFilter: '' })}
             onToggleShowConflictsOnly={(showConflictsOnly: boolean) =>
                 dispatch({ type: 'setShowConflictsOnly', showConflictsOnly })}
             onOperationAction={(conflictState: ActiveConflictState, action: OperationAction) => {
                 postToExtension(messageForOperationAction(conflictState, action));
             }}
+            onBisectCommand={(command: BisectBannerCommand) => postToExtension(messageForBisectCommand(command))}
             onShowErrorOutput={() => postToExtension(messageForChangesToolbarCommand('showGitOutput'))}
             onDismissError={() => dispatch({ type: 'clearError' })}
+            onRetryHookFailure={hookFailureAction(messageForRetryAfterHookFailure)}
+            onCommitWithoutHooks={hookFailureAction(messageForCommitWithoutHooks)}
+            onOpenHookScript={hookFailureAction(messageForOpenHookScript)}
             onShowOperationOutput={() => postToExtension(messageForChangesToolbarCommand('showGitOutput'))}
+            onUndoOperation={() => postToExtension({ type: 'changes/undoLastOperation' })}
             onDismissOperation={() => {
                 if (state.operationStatus) {
                     dispatch({ type: 'clearOperationStatus', operationId: state.operationStatus.operationId });
                 }
             }}
+            onAcknowledgeOperationPlan={(acknowledgement) => {
+                dispatch({ type: 'closeOperationPlan', planId: acknowledgement.planId });
+                postToExtension({ type: 'changes/acknowledgeOperationPlan', acknowledgement });
+            }}
+            onCancelOperationPlan={(planId) => {
+                dispatch({ type: 'closeOperationPlan', planId });
+                postToExtension({ type: 'changes/cancelOperationPlan', planId });
+            }}
             onCreateStash={(kind: CreateStashKind, message: string) => postToExtension(messageForCreateStash(kind, message))}
             onCreateSelectedStash={(target, message) => postToExtension(messageForCreateSelectedStash(target, message))}
             onToggleStash={toggleStash}
             onStashAction={(index: number, action: StashEntryAction) => postToExtension(messageForStashAction(index, action))}
             onStashFileDiff={(index: number, file: StashFileEntry) => postToExtension(messageForStashFileDiff(index, file))}
+            onStashContextTarget={(index: number) => postToExtension(messageForChangesContextTarget({ kind: 'stash', index }))}
             onToggleSubmodule={toggleSubmodule}
             onSubmoduleContextTarget={(path: string) => postToExtension(messageForChangesContextTarget({
                 kind: 'submoduleToolbar',
@@ -238,15 +331,16 @@ export function ChangesWebview() {
             onSubmoduleSelectionContextTarget={(target) => postToExtension(messageForChangesContextTarget(target))}
             onSubmoduleOperationAction={(submodulePath: string, conflictState: ActiveConflictState, action: OperationAction) =>
                 postToExtension(messageForSubmoduleOperationAction(submodulePath, conflictState, action))}
-            onSubmoduleCommit={(submodulePath: string, message: string, mode: CommitMode) => {
+            onSubmoduleCommit={(submodulePath: string, message: string, mode: CommitMode, sign?: boolean) => {
                 dispatch({ type: 'rememberCommitMessage', message });
                 dispatch({ type: 'clearSubmoduleCommitMessageGeneration', path: submodulePath });
-                postToExtension(messageForSubmoduleCommit(submodulePath, message, mode));
+                postToExtension(messageForSubmoduleCommit(submodulePath, message, mode, sign));
             }}
-            onSubmoduleCommitComposerContextTarget={(submodulePath: string, message: string) => postToExtension(messageForChangesContextTarget({
+            onSubmoduleCommitComposerContextTarget={(submodulePath: string, message: string, sign?: boolean) => postToExtension(messageForChangesContextTarget({
                 kind: 'commitComposer',
                 submodulePath,
                 message,
+                ...(sign !== undefined ? { sign } : {}),
             }))}
             onGenerateCommitMessageForSubmodule={(submodulePath: string) => {
                 const message = messageForGenerateSubmoduleCommitMessage(submodulePath);
@@ -264,6 +358,8 @@ export function ChangesWebview() {
                 postToExtension(messageForSubmoduleStashAction(submodulePath, index, action))}
             onSubmoduleStashFileDiff={(submodulePath: string, index: number, file: StashFileEntry) =>
                 postToExtension(messageForSubmoduleStashFileDiff(submodulePath, index, file))}
+            onSubmoduleStashContextTarget={(submodulePath: string, index: number) =>
+                postToExtension(messageForChangesContextTarget({ kind: 'stash', index, submodulePath }))}
             onRepositoryNavigate={(contextId) => {
                 dispatch({ type: 'navigateRepository', contextId });
                 postToExtension({ type: 'repo/navigateRepository', ...(contextId ? { contextId } : {}) });
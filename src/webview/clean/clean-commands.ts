@@ -0,0 +1,43 @@
+import type {
+    CleanAcknowledgeOperationPlanMessage,
+    CleanCancelOperationPlanMessage,
+    CleanPreviewMessage,
+    CleanReadyMessage,
+    CleanRemoveMessage,
+    CleanShowOutputMessage,
+} from '@protocol/clean/messages';
+import type { CleanEntry, CleanPreviewOptions } from '@protocol/clean/types';
+import type { OperationPlanAcknowledgement } from '@protocol/shared/operation-plan';
+
+export function messageForCleanReady(options: CleanPreviewOptions): CleanReadyMessage {
+    return { type: 'clean/ready', options };
+}
+
+export function messageForCleanPreview(options: CleanPreviewOptions): CleanPreviewMessage {
+    return { type: 'clean/preview', options };
+}
+
+/** Sends the checked entries in list order; checks left on entries the last preview dropped are ignored. */
+export function messageForCleanRemove(
+    entries: readonly CleanEntry[],
+    selectedPaths: ReadonlySet<string>,
+    options: CleanPreviewOptions,
+): CleanRemoveMessage {
+    return {
+        type: 'clean/remove',
+        paths: entries.filter((entry) => selectedPaths.has(entry.path)).map((entry) => entry.path),
+        options,
+    };
+}
+
+export function messageForCleanAcknowledgeOperationPlan(acknowledgement: OperationPlanAcknowledgement): CleanAcknowledgeOperationPlanMessage {
+    return { type: 'clean/acknowledgeOperationPlan', acknowledgement };
+}
+
+export function messageForCleanCancelOperationPlan(planId: string): CleanCancelOperationPlanMessage {
+    return { type: 'clean/cancelOperationPlan', planId };
+}
+
+export function messageForCleanShowOutput(): CleanShowOutputMessage {
+    return { type: 'clean/showOutput' };
+}
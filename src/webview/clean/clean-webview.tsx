@@ -0,0 +1,67 @@
+import { useEffect, useReducer } from 'react';
+import type { CleanExtensionToWebviewMessage, CleanWebviewToExtensionMessage } from '@protocol/clean/messages';
+import type { CleanPreviewOptions } from '@protocol/clean/types';
+import type { OperationPlanAcknowledgement } from '@protocol/shared/operation-plan';
+import { CleanApp } from '@webview/features/clean/clean-app';
+import { initialCleanState, reduceCleanState } from '@webview/features/clean/clean-state';
+import { applyWebviewFontSize, isWebviewFontSizeMessage } from '@webview/platform/font-size';
+import { vscodeApi } from '@webview/platform/vscode-host';
+import {
+    messageForCleanAcknowledgeOperationPlan,
+    messageForCleanCancelOperationPlan,
+    messageForCleanPreview,
+    messageForCleanReady,
+    messageForCleanRemove,
+    messageForCleanShowOutput,
+} from '@webview/clean/clean-commands';
+
+export function CleanWebview() {
+    const [state, dispatch] = useReducer(reduceCleanState, initialCleanState);
+
+    useEffect(() => {
+        const onMessage = (event: MessageEvent<CleanExtensionToWebviewMessage>) => {
+            if (isWebviewFontSizeMessage(event.data)) {
+                applyWebviewFontSize(event.data.fontSize);
+                return;
+            }
+            dispatch({ type: 'message', message: event.data });
+        };
+        window.addEventListener('message', onMessage);
+        postToExtension(messageForCleanReady(initialCleanState.options));
+        return () => window.removeEventListener('message', onMessage);
+    }, []);
+
+    return (
+        <CleanApp
+            title={state.title}
+            loading={state.loading}
+            options={state.options}
+            entries={state.entries}
+            selectedPaths={state.selectedPaths}
+            previewError={state.previewError}
+            actionStatus={state.actionStatus}
+            operationPlan={state.operationPlan}
+            onChangeOptions={(options: CleanPreviewOptions) => {
+                dispatch({ type: 'previewRequested', options });
+                postToExtension(messageForCleanPreview(options));
+            }}
+            onToggleEntry={(path: string) => dispatch({ type: 'toggleEntry', path })}
+            onSelectAll={(selected: boolean) => dispatch({ type: 'selectAll', selected })}
+            onRemove={() => postToExtension(messageForCleanRemove(state.entries, state.selectedPaths, state.options))}
+            onShowOutput={() => postToExtension(messageForCleanShowOutput())}
+            onDismissStatus={() => dispatch({ type: 'clearActionStatus' })}
+            onAcknowledgeOperationPlan={(acknowledgement: OperationPlanAcknowledgement) => {
+                dispatch({ type: 'closeOperationPlan', planId: acknowledgement.planId });
+                postToExtension(messageForCleanAcknowledgeOperationPlan(acknowledgement));
+            }}
+            onCancelOperationPlan={(planId: string) => {
+                dispatch({ type: 'closeOperationPlan', planId });
+                postToExtension(messageForCleanCancelOperationPlan(planId));
+            }}
+        />
+    );
+}
+
+function postToExtension(message: CleanWebviewToExtensionMessage): void {
+    vscodeApi.postMessage(message);
+}
@@ -0,0 +1,5 @@
+import { CleanWebview } from '@webview/clean/clean-webview';
+import { mountWebview } from '@webview/shared/mount-webview';
+import '@webview/styles.css';
+
+mountWebview(<CleanWebview />);
@@ -1,14 +1,26 @@
 import { useEffect, useRef } from 'react';
+import type { CommitIdentity } from '@protocol/shared/commit';
+import { commitMessageRulesBlock, evaluateCommitMessageRules, type CommitMessageRules } from '@protocol/shared/commit-message-rules';
 import { Codicon } from '@webview/shared/codicon';
+import { CommitMessageDiagnostics } from '@webview/shared/commit-message-diagnostics';
+import { composeCommitMessage, type CommitTrailer } from '@webview/shared/commit-trailers';
+import { CommitTrailersEditor } from '@webview/shared/commit-trailers-editor';
 
 interface CommitMessageEditorProps {
     readonly title: string;
     readonly message: string;
     readonly canGenerate: boolean;
+    readonly applyLabel?: string;
+    /** Trailers kept apart from the message; the trailers editor is hidden when undefined. */
+    readonly trailers?: readonly CommitTrailer[];
+    readonly coAuthorCandidates?: readonly CommitIdentity[];
+    /** Repository rules checked against the message with its trailers. */
+    readonly rules?: CommitMessageRules;
     readonly generating: boolean;
     readonly generationError: string | undefined;
     readonly focusToken: number;
     readonly onMessageChange: (message: string) => void;
+    readonly onTrailersChange?: (trailers: readonly CommitTrailer[]) => void;
     readonly onGenerate: () => void;
     readonly onApply: () => void;
     readonly onCancel: () => void;
@@ -18,10 +30,15 @@ export function CommitMessageEditor({
     title,
     message,
     canGenerate,
+    applyLabel = 'Commit',
+    trailers,
+    coAuthorCandidates,
+    rules,
     generating,
     generationError,
     focusToken,
     onMessageChange,
+    onTrailersChange,
     onGenerate,
     onApply,
     onCancel,
@@ -41,7 +58,9 @@ export function CommitMessageEditor({
         return () => cancelAnimationFrame(frame);
     }, [focusToken]);
 
-    const canCommit = message.trim().length > 0;
+    const diagnostics = evaluateCommitMessageRules(trailers ? composeCommitMessage(message, trailers) : message, rules);
+    const blocked = commitMessageRulesBlock(rules, diagnostics);
+    const canCommit = message.trim().length > 0 && !blocked;
 
     return (
         <main className="commit-message-editor">
@@ -64,6 +83,14 @@ export function CommitMessageEditor({
                 spellCheck="false"
                 onChange={(event) => { onMessageChange(event.target.value); }}
             />
+            <CommitMessageDiagnostics diagnostics={diagnostics} blocking={blocked} />
+            {trailers && onTrailersChange ? (
+                <CommitTrailersEditor
+                    trailers={trailers}
+                    coAuthorCandidates={coAuthorCandidates ?? []}
+                    onChange={onTrailersChange}
+                />
+            ) : null}
             <div className="commit-message-editor-bottom">
                 <footer className="commit-message-editor-actions">
                     <div className="commit-message-editor-secondary-actions">
@@ -88,7 +115,7 @@ export function CommitMessageEditor({
                         onClick={onApply}
                     >
                         <Codicon name="check" />
-                        <span>Commit</span>
+                        <span>{applyLabel}</span>
                     </button>
                 </footer>
                 {generationError ? (
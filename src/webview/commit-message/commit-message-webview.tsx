@@ -1,6 +1,9 @@
 import { useEffect, useRef, useState } from 'react';
 import type { CommitMessageExtensionToWebviewMessage, CommitMessageWebviewToExtensionMessage } from '@protocol/commit-message/messages';
+import type { CommitIdentity } from '@protocol/shared/commit';
+import type { CommitMessageRules } from '@protocol/shared/commit-message-rules';
 import { vscodeApi } from '@webview/platform/vscode-host';
+import { composeCommitMessage, splitCommitTrailers, type CommitTrailer } from '@webview/shared/commit-trailers';
 import { CommitMessageEditor } from '@webview/commit-message/commit-message-editor';
 import {
     messageForCommitMessageApply,
@@ -13,6 +16,10 @@ export function CommitMessageWebview() {
     const [title, setTitle] = useState('Commit Message');
     const [message, setMessage] = useState('');
     const [canGenerate, setCanGenerate] = useState(false);
+    const [applyLabel, setApplyLabel] = useState<string | undefined>(undefined);
+    const [coAuthorCandidates, setCoAuthorCandidates] = useState<readonly CommitIdentity[] | undefined>(undefined);
+    const [trailers, setTrailers] = useState<readonly CommitTrailer[]>([]);
+    const [rules, setRules] = useState<CommitMessageRules | undefined>(undefined);
     const [generatingRequestId, setGeneratingRequestId] = useState<string | undefined>(undefined);
     const [generationError, setGenerationError] = useState<string | undefined>(undefined);
     const [focusToken, setFocusToken] = useState(0);
@@ -22,12 +29,19 @@ export function CommitMessageWebview() {
     useEffect(() => {
         const onMessage = (event: MessageEvent<CommitMessageExtensionToWebviewMessage>): void => {
             switch (event.data.type) {
-                case 'commitMessage/init':
+                case 'commitMessage/init': {
+                    // With the trailers editor on, trailers move out of the text into chips and are written back on apply.
+                    const split = event.data.coAuthorCandidates ? splitCommitTrailers(event.data.message) : undefined;
                     setTitle(event.data.title);
-                    setMessage(event.data.message);
+                    setMessage(split ? split.body : event.data.message);
+                    setTrailers(split ? split.trailers : []);
+                    setCoAuthorCandidates(event.data.coAuthorCandidates);
+                    setRules(event.data.rules);
                     setCanGenerate(event.data.canGenerate);
+                    setApplyLabel(event.data.applyLabel);
                     setFocusToken((value) => value + 1);
                     return;
+                }
                 case 'commitMessage/generating':
                     setGenerationError(undefined);
                     activeGenerationRequestIdRef.current = event.data.requestId;
@@ -69,12 +83,17 @@ export function CommitMessageWebview() {
             title={title}
             message={message}
             canGenerate={canGenerate}
+            applyLabel={applyLabel}
+            trailers={coAuthorCandidates ? trailers : undefined}
+            coAuthorCandidates={coAuthorCandidates}
+            rules={rules}
             generating={generatingRequestId !== undefined}
             generationError={generationError}
             focusToken={focusToken}
             onMessageChange={setMessage}
+            onTrailersChange={setTrailers}
             onGenerate={generateMessage}
-            onApply={() => postToExtension(messageForCommitMessageApply(message))}
+            onApply={() => postToExtension(messageForCommitMessageApply(coAuthorCandidates ? composeCommitMessage(message, trailers) : message))}
             onCancel={() => postToExtension(messageForCommitMessageCancel())}
         />
     );
@@ -0,0 +1,227 @@
+import { useState } from 'react';
+import type { BisectLogEntry } from '@protocol/bisect/types';
+import type { BisectMark, BisectStatus } from '@protocol/shared/bisect';
+import { OperationStatus } from '@protocol/shared/operation';
+import { bisectSummary } from '@webview/shared/bisect-summary';
+import { OperationNotice, type OperationNoticeAction } from '@webview/shared/operation-notice';
+import type { BisectActionStatus } from '@webview/features/bisect/bisect-state';
+
+interface BisectAppProps {
+    readonly title: string;
+    readonly loading: boolean;
+    readonly status: BisectStatus | undefined;
+    readonly log: readonly BisectLogEntry[];
+    readonly runOutput: string;
+    readonly actionStatus: BisectActionStatus | undefined;
+    readonly onStart: (bad: string, good: string) => void;
+    readonly onMark: (mark: BisectMark) => void;
+    readonly onReset: () => void;
+    readonly onRun: (command: string) => void;
+    readonly onCancelRun: () => void;
+    readonly onShowOutput: () => void;
+    readonly onDismissStatus: () => void;
+}
+
+const MARK_LABELS: Readonly<Record<BisectMark, string>> = {
+    good: 'good',
+    bad: 'bad',
+    skip: 'skipped',
+};
+
+export function BisectApp({
+    title,
+    loading,
+    status,
+    log,
+    runOutput,
+    actionStatus,
+    onStart,
+    onMark,
+    onReset,
+    onRun,
+    onCancelRun,
+    onShowOutput,
+    onDismissStatus,
+}: BisectAppProps) {
+    const actionRunning = actionStatus?.status === OperationStatus.Running;
+    const running = actionRunning && actionStatus.action === 'run';
+    return (
+        <main className="bisect" aria-busy={loading ? 'true' : undefined}>
+            <header className="bisect-header">
+                <h1>{title}</h1>
+            </header>
+            {actionStatus ? (
+                <OperationNotice
+                    status={actionStatus.status}
+                    message={actionStatus.message ?? runningMessage(actionStatus)}
+                    {...(actionStatus.details ? { detail: actionStatus.details } : {})}
+                    actions={statusActions(actionStatus, onShowOutput, onDismissStatus)}
+                />
+            ) : null}
+            {loading ? null : status ? (
+                <>
+                    <BisectSession status={status} disabled={actionRunning} onMark={onMark} onReset={onReset} />
+                    {status.firstBadHash ? null : (
+                        <BisectRunForm running={running} disabled={actionRunning && !running} onRun={onRun} onCancel={onCancelRun} />
+                    )}
+                </>
+            ) : (
+                <BisectStartForm disabled={actionRunning} onStart={onStart} />
+            )}
+            {runOutput ? (
+                <section className="bisect-output" aria-label="Bisect run output">
+                    <pre>{runOutput}</pre>
+                </section>
+            ) : null}
+            {log.length > 0 ? (
+                <ol className="bisect-log" aria-label="Bisect log">
+                    {log.map((entry, index) => (
+                        <li key={`${index}:${entry.hash}`} className="bisect-log-entry">
+                            <span className={`bisect-log-mark bisect-log-mark-${entry.mark}`}>{MARK_LABELS[entry.mark]}</span>
+                            <code className="bisect-log-hash" title={entry.hash}>{entry.shortHash}</code>
+                            <span className="bisect-log-subject" title={entry.subject}>{entry.subject}</span>
+                        </li>
+                    ))}
+                </ol>
+            ) : null}
+        </main>
+    );
+}
+
+interface BisectSessionProps {
+    readonly status: BisectStatus;
+    readonly disabled: boolean;
+    readonly onMark: (mark: BisectMark) => void;
+    readonly onReset: () => void;
+}
+
+function BisectSession({ status, disabled, onMark, onReset }: BisectSessionProps) {
+    const summary = bisectSummary(status);
+    return (
+        <section className="bisect-session" aria-live="polite">
+            <div className="bisect-session-summary">
+                <strong>{summary.title}</strong>
+                <span>{summary.detail}</span>
+                {status.currentHash && !summary.finished ? (
+                    <span>Checked out: <code title={status.currentHash}>{status.currentHash.substring(0, 7)}</code></span>
+                ) : null}
+            </div>
+            <div className="operation-actions">
+                {summary.finished ? null : (
+                    <>
+                        <button type="button" disabled={disabled} onClick={() => onMark('good')}>Good</button>
+                        <button type="button" disabled={disabled} onClick={() => onMark('bad')}>Bad</button>
+                        <button type="button" disabled={disabled} onClick={() => onMark('skip')}>Skip</button>
+                    </>
+                )}
+                <button
+                    type="button"
+                    className={summary.finished ? 'operation-primary-action' : undefined}
+                    disabled={disabled}
+                    title="End the bisect and return to the original branch"
+                    onClick={onReset}
+                >
+                    Reset
+                </button>
+            </div>
+        </section>
+    );
+}
+
+interface BisectStartFormProps {
+    readonly disabled: boolean;
+    readonly onStart: (bad: string, good: string) => void;
+}
+
+function BisectStartForm({ disabled, onStart }: BisectStartFormProps) {
+    const [bad, setBad] = useState('');
+    const [good, setGood] = useState('');
+    return (
+        <form
+            className="bisect-form"
+            onSubmit={(event) => {
+                event.preventDefault();
+                onStart(bad, good);
+            }}
+        >
+            <p className="bisect-hint">No bisect is in progress. Name a bad revision and one or more good revisions to start.</p>
+            <label>
+                <span>Bad revision</span>
+                <input value={bad} placeholder="HEAD" disabled={disabled} onChange={(event) => setBad(event.target.value)} />
+            </label>
+            <label>
+                <span>Good revisions</span>
+                <input value={good} placeholder="v1.0 a1b2c3d" disabled={disabled} onChange={(event) => setGood(event.target.value)} />
+            </label>
+            <div className="operation-actions">
+                <button type="submit" className="operation-primary-action" disabled={disabled}>Start Bisect</button>
+            </div>
+        </form>
+    );
+}
+
+interface BisectRunFormProps {
+    readonly running: boolean;
+    readonly disabled: boolean;
+    readonly onRun: (command: string) => void;
+    readonly onCancel: () => void;
+}
+
+function BisectRunForm({ running, disabled, onRun, onCancel }: BisectRunFormProps) {
+    const [command, setCommand] = useState('');
+    return (
+        <form
+            className="bisect-form"
+            onSubmit={(event) => {
+                event.preventDefault();
+                if (command.trim()) { onRun(command); }
+            }}
+        >
+            <label>
+                <span>Run command</span>
+                <input
+                    value={command}
+                    placeholder="npm test"
+                    title="Exit 0 for good, 125 to skip, and any other code below 128 for bad"
+                    disabled={running || disabled}
+                    onChange={(event) => setCommand(event.target.value)}
+                />
+            </label>
+            <div className="operation-actions">
+                {running ? (
+                    <button type="button" onClick={onCancel}>Cancel Run</button>
+                ) : (
+                    <button type="submit" disabled={disabled || !command.trim()}>Run</button>
+                )}
+            </div>
+        </form>
+    );
+}
+
+function runningMessage(status: BisectActionStatus): string {
+    switch (status.action) {
+        case 'start':
+            return 'Starting bisect…';
+        case 'good':
+        case 'bad':
+        case 'skip':
+            return `Marking commit as ${MARK_LABELS[status.action]}…`;
+        case 'reset':
+            return 'Resetting bisect…';
+        case 'run':
+            return 'Running bisect…';
+    }
+}
+
+function statusActions(
+    status: BisectActionStatus,
+    onShowOutput: () => void,
+    onDismiss: () => void,
+): readonly OperationNoticeAction[] {
+    if (status.status === OperationStatus.Running) {
+        return status.action === 'run' ? [{ label: 'Show Output', onClick: onShowOutput }] : [];
+    }
+    return status.status === OperationStatus.Failed
+        ? [{ label: 'Show Output', onClick: onShowOutput }, { label: 'Dismiss', onClick: onDismiss }]
+        : [{ label: 'Dismiss', onClick: onDismiss }];
+}
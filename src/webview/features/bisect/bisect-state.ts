@@ -0,0 +1,84 @@
+import type { BisectExtensionToWebviewMessage } from '@protocol/bisect/messages';
+import type { BisectLogEntry, BisectPanelAction } from '@protocol/bisect/types';
+import type { BisectStatus } from '@protocol/shared/bisect';
+import { OperationStatus } from '@protocol/shared/operation';
+
+/** Long-running scripts can print without bound; the output channel keeps the full transcript. */
+export const MAX_RUN_OUTPUT_LENGTH = 100_000;
+
+export interface BisectActionStatus {
+    readonly action: BisectPanelAction;
+    readonly status: OperationStatus;
+    readonly message?: string;
+    readonly details?: string;
+}
+
+export interface BisectState {
+    readonly title: string;
+    readonly loading: boolean;
+    readonly status: BisectStatus | undefined;
+    readonly log: readonly BisectLogEntry[];
+    readonly runOutput: string;
+    readonly actionStatus: BisectActionStatus | undefined;
+}
+
+export type BisectStateAction =
+    | { readonly type: 'message'; readonly message: BisectExtensionToWebviewMessage }
+    | { readonly type: 'clearActionStatus' };
+
+export const initialBisectState: BisectState = {
+    title: 'Bisect',
+    loading: true,
+    status: undefined,
+    log: [],
+    runOutput: '',
+    actionStatus: undefined,
+};
+
+export function reduceBisectState(state: BisectState, action: BisectStateAction): BisectState {
+    switch (action.type) {
+        case 'clearActionStatus':
+            return { ...state, actionStatus: undefined };
+        case 'message':
+            return reduceBisectMessage(state, action.message);
+    }
+}
+
+function reduceBisectMessage(state: BisectState, message: BisectExtensionToWebviewMessage): BisectState {
+    switch (message.type) {
+        case 'bisect/state':
+            return { ...state, title: message.title, loading: false, status: message.status, log: message.log };
+        case 'bisect/runOutput':
+            return { ...state, runOutput: appendRunOutput(state.runOutput, message.chunk) };
+        case 'bisect/actionStarted':
+            return {
+                ...state,
+                ...(message.action === 'run' ? { runOutput: '' } : {}),
+                actionStatus: { action: message.action, status: OperationStatus.Running },
+            };
+        case 'bisect/actionCompleted':
+            return {
+                ...state,
+                actionStatus: message.message
+                    ? { action: message.action, status: OperationStatus.Success, message: message.message }
+                    : undefined,
+            };
+        case 'bisect/actionFailed':
+            return {
+                ...state,
+                actionStatus: {
+                    action: message.action,
+                    status: OperationStatus.Failed,
+                    message: message.message,
+                    ...(message.details ? { details: message.details } : {}),
+                },
+            };
+        default:
+            return state;
+    }
+}
+
+function appendRunOutput(current: string, chunk: string): string {
+    const next = current + chunk;
+    return next.length > MAX_RUN_OUTPUT_LENGTH ? next.slice(next.length - MAX_RUN_OUTPUT_LENGTH) : next;
+}
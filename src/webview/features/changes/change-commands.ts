@@ -15,6 +15,9 @@ export enum ChangeBulkAction {
 }
 
 export function rowActionsFor(item: ChangeListItem): readonly ChangeActionDescriptor<ChangeRowAction>[] {
+    if (item.section === ChangeSectionId.Ignored) {
+        return [{ action: ChangeRowAction.Open, icon: 'go-to-file', label: 'Open', title: 'Open file' }];
+    }
     if (item.section === ChangeSectionId.Staged) {
         if (item.entry.isSubmodule) {
             return [
@@ -65,6 +68,7 @@ export function rowActionsFor(item: ChangeListItem): readonly ChangeActionDescri
 
 export function primaryRowActionFor(item: ChangeListItem): ChangeRowAction | undefined {
     if (item.entry.isSubmodule) { return ChangeRowAction.Diff; }
+    if (item.section === ChangeSectionId.Ignored) { return ChangeRowAction.Open; }
     return item.section === ChangeSectionId.Conflicts
         ? ChangeRowAction.OpenMergeEditor
         : ChangeRowAction.Diff;
@@ -0,0 +1,151 @@
+import { useState, type MouseEvent } from 'react';
+import type { ChangeHunkCommand } from '@protocol/changes/messages';
+import type { ChangeDiffHunk, ChangeDiffLine } from '@protocol/changes/types';
+import { IconButton } from '@webview/shared/icon-button';
+import { depthStyle } from '@webview/shared/view-styles';
+import type { ChangeListItem } from '@webview/features/changes/change-tree';
+import type { ChangeFileHunks } from '@webview/features/changes/changes-state';
+import { hunkCommandsFor } from '@webview/features/changes/hunk-commands';
+
+export interface InlineDiffBinding {
+    readonly expandedItemIds: ReadonlySet<string>;
+    readonly hunksByItemId: Readonly<Record<string, ChangeFileHunks>>;
+    readonly onToggle: (item: ChangeListItem) => void;
+    readonly onHunkCommand: (
+        item: ChangeListItem,
+        command: ChangeHunkCommand,
+        hunkIndex: number,
+        hunk: ChangeDiffHunk,
+        lineIndexes?: readonly number[],
+    ) => void;
+}
+
+interface LineSelection {
+    readonly hunkIndex: number;
+    readonly lineIndexes: readonly number[];
+    readonly anchor: number;
+}
+
+interface ChangeHunkListProps {
+    readonly item: ChangeListItem;
+    readonly depth: number;
+    readonly fileHunks: ChangeFileHunks | undefined;
+    readonly onHunkCommand: InlineDiffBinding['onHunkCommand'];
+}
+
+export function ChangeHunkList({ item, depth, fileHunks, onHunkCommand }: ChangeHunkListProps) {
+    const [selection, setSelection] = useState<LineSelection | undefined>(undefined);
+    const commands = hunkCommandsFor(item);
+    const style = depthStyle(depth);
+
+    if (!fileHunks) {
+        return <p className="change-hunks-placeholder" style={style}><i className="codicon codicon-loading codicon-modifier-spin" aria-hidden="true" /> Loading…</p>;
+    }
+    if (fileHunks.binary) {
+        return <p className="change-hunks-placeholder" style={style}>Binary file; lines cannot be staged separately</p>;
+    }
+    if (fileHunks.hunks.length === 0) {
+        return <p className="change-hunks-placeholder" style={style}>No line changes</p>;
+    }
+
+    const selectLine = (hunkIndex: number, lineIndex: number, event: MouseEvent<HTMLElement>) => {
+        const current = selection?.hunkIndex === hunkIndex ? selection : undefined;
+        if (event.shiftKey && current) {
+            setSelection({ ...current, lineIndexes: changedLineRange(fileHunks.hunks[hunkIndex], current.anchor, lineIndex) });
+            return;
+        }
+        if ((event.ctrlKey || event.metaKey) && current) {
+            const lineIndexes = current.lineIndexes.includes(lineIndex)
+                ? current.lineIndexes.filter((index) => index !== lineIndex)
+                : [...current.lineIndexes, lineIndex].sort((left, right) => left - right);
+            setSelection(lineIndexes.length > 0 ? { ...current, lineIndexes, anchor: lineIndex } : undefined);
+            return;
+        }
+        const alreadyOnlySelection = current?.lineIndexes.length === 1 && current.lineIndexes[0] === lineIndex;
+        setSelection(alreadyOnlySelection ? undefined : { hunkIndex, lineIndexes: [lineIndex], anchor: lineIndex });
+    };
+
+    return (
+        <div className="change-hunks" aria-label={`Changes in ${item.entry.filePath}`}>
+            {fileHunks.hunks.map((hunk, hunkIndex) => {
+                const selectedLines = selection?.hunkIndex === hunkIndex ? selection.lineIndexes : [];
+                const target = selectedLines.length > 0 ? 'Selected Lines' : 'Hunk';
+                return (
+                    <section key={`${hunkIndex}:${hunk.header}`} className="change-hunk">
+                        <header className="change-hunk-header" style={style}>
+                            <code className="change-hunk-range" title={hunk.header}>{hunk.header}</code>
+                            <div className="change-hunk-actions">
+                                {commands.map((descriptor) => (
+                                    <IconButton
+                                        key={descriptor.command}
+                                        icon={descriptor.icon}
+                                        title={`${descriptor.label} ${target}`}
+                                        onClick={(event) => {
+                                            event.stopPropagation();
+                                            onHunkCommand(item, descriptor.command, hunkIndex, hunk, selectedLines.length > 0 ? selectedLines : undefined);
+                                            setSelection(undefined);
+                                        }}
+                                    />
+                                ))}
+                            </div>
+                        </header>
+                        <div className="change-hunk-lines" role="list">
+                            {hunk.lines.map((line, lineIndex) => (
+                                <HunkLine
+                                    key={lineIndex}
+                                    line={line}
+                                    selected={selectedLines.includes(lineIndex)}
+                                    onSelect={line.kind === 'context' ? undefined : (event) => selectLine(hunkIndex, lineIndex, event)}
+                                />
+                            ))}
+                        </div>
+                    </section>
+                );
+            })}
+        </div>
+    );
+}
+
+interface HunkLineProps {
+    readonly line: ChangeDiffLine;
+    readonly selected: boolean;
+    readonly onSelect: ((event: MouseEvent<HTMLElement>) => void) | undefined;
+}
+
+function HunkLine({ line, selected, onSelect }: HunkLineProps) {
+    return (
+        <div
+            className={`change-hunk-line change-hunk-line-${line.kind}`}
+            role="listitem"
+            aria-selected={onSelect ? selected : undefined}
+            onClick={onSelect}
+        >
+            <span className="change-hunk-line-number">{line.oldLine ?? ''}</span>
+            <span className="change-hunk-line-number">{line.newLine ?? ''}</span>
+            <span className="change-hunk-line-prefix" aria-hidden="true">{linePrefix(line)}</span>
+            <span className="change-hunk-line-text">{line.text}</span>
+        </div>
+    );
+}
+
+function changedLineRange(hunk: ChangeDiffHunk | undefined, from: number, to: number): readonly number[] {
+    if (!hunk) { return []; }
+    const start = Math.min(from, to);
+    const end = Math.max(from, to);
+    const indexes: number[] = [];
+    for (let index = start; index <= end; index++) {
+        if (hunk.lines[index]?.kind !== 'context') { indexes.push(index); }
+    }
+    return indexes;
+}
+
+function linePrefix(line: ChangeDiffLine): string {
+    switch (line.kind) {
+        case 'add':
+            return '+';
+        case 'remove':
+            return '-';
+        case 'context':
+            return ' ';
+    }
+}
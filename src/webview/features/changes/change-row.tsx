@@ -1,6 +1,8 @@
 import { ChangeRowAction, primaryRowActionFor, rowActionsFor, type ChangeActionDescriptor } from '@webview/features/changes/change-commands';
 import type { ChangeListItem } from '@webview/features/changes/change-tree';
 import { ChangeSelectionMode } from '@webview/features/changes/changes-state';
+import { ChangeHunkList, type InlineDiffBinding } from '@webview/features/changes/change-hunk-list';
+import { canShowInlineDiff } from '@webview/features/changes/hunk-commands';
 import { SharedChangeRow, type ChangeRowSelectionMode } from '@webview/shared/change-row';
 
 interface ChangeRowProps {
@@ -15,6 +17,7 @@ interface ChangeRowProps {
     readonly primaryAction?: ChangeRowAction;
     readonly alwaysShowActions?: boolean;
     readonly showSelectionCheckbox?: boolean;
+    readonly inlineDiff?: InlineDiffBinding;
 }
 
 export function ChangeRow({
@@ -29,8 +32,11 @@ export function ChangeRow({
     primaryAction: primaryActionOverride,
     alwaysShowActions = false,
     showSelectionCheckbox = false,
+    inlineDiff,
 }: ChangeRowProps) {
-    return (
+    const diff = inlineDiff && canShowInlineDiff(item) ? inlineDiff : undefined;
+    const expanded = diff?.expandedItemIds.has(item.id) ?? false;
+    const row = (
         <SharedChangeRow
             item={item}
             depth={depth}
@@ -40,11 +46,20 @@ export function ChangeRow({
             primaryAction={primaryActionOverride ?? primaryRowActionFor(item)}
             alwaysShowActions={alwaysShowActions}
             showSelectionCheckbox={showSelectionCheckbox}
+            expanded={expanded}
+            onToggleExpanded={diff?.onToggle}
             onSelect={(selectedItem, mode) => onSelect(selectedItem, toChangeSelectionMode(mode))}
             onOpenContextMenu={onOpenContextMenu}
             onAction={onAction}
         />
     );
+    if (!diff || !expanded) { return row; }
+    return (
+        <>
+            {row}
+            <ChangeHunkList item={item} depth={depth} fileHunks={diff.hunksByItemId[item.id]} onHunkCommand={diff.onHunkCommand} />
+        </>
+    );
 }
 
 function toChangeSelectionMode(mode: ChangeRowSelectionMode): ChangeSelectionMode {
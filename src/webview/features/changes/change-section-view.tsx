@@ -5,6 +5,7 @@ import { buildChangeTree, type ChangeListItem, type ChangeSection } from '@webvi
 import { ChangesViewMode, type ChangeSelectionMode, type ChangesSortMode } from '@webview/features/changes/changes-state';
 import { CHANGE_SECTION_PAGE_SIZE, visibleChangeItems } from '@webview/features/changes/change-pagination';
 import { ChangeRow } from '@webview/features/changes/change-row';
+import type { InlineDiffBinding } from '@webview/features/changes/change-hunk-list';
 import { compareChangeItems } from '@webview/features/changes/change-view-model';
 import { TreeNodeView } from '@webview/features/changes/tree-node-view';
 
@@ -26,6 +27,11 @@ interface ChangeSectionViewProps {
     readonly onStashSelected?: (items: readonly ChangeListItem[], message: string) => void;
     readonly stashTitle?: string;
     readonly showWhenEmpty?: boolean;
+    readonly inlineDiff?: InlineDiffBinding;
+    /** Set when the section lists a page of a longer result that `onLoadMore` fetches from the extension. */
+    readonly hasMoreItems?: boolean;
+    readonly onLoadMore?: () => void;
+    readonly countLabel?: string;
 }
 
 export function ChangeSectionView({
@@ -46,6 +52,10 @@ export function ChangeSectionView({
     onStashSelected,
     stashTitle = 'Stash changes',
     showWhenEmpty = false,
+    inlineDiff,
+    hasMoreItems = false,
+    onLoadMore,
+    countLabel,
 }: ChangeSectionViewProps) {
     const [visibleLimit, setVisibleLimit] = useState(CHANGE_SECTION_PAGE_SIZE);
     const [showStashPrompt, setShowStashPrompt] = useState(false);
@@ -126,7 +136,7 @@ export function ChangeSectionView({
                             onClick={() => setShowStashPrompt(!showStashPrompt)}
                         />
                     ) : null}
-                    <span>{section.items.length}</span>
+                    <span>{countLabel ?? section.items.length}</span>
                 </div>
             </header>
             {stashAction && showStashPrompt ? (
@@ -160,6 +170,7 @@ export function ChangeSectionView({
                                 onSelectItem={onSelectItem}
                                 onOpenSelectionContext={onOpenSelectionContext}
                                 onRowAction={onRowAction}
+                                inlineDiff={inlineDiff}
                             />
                         ))
                         : visible.items.map((item) => (
@@ -173,6 +184,7 @@ export function ChangeSectionView({
                                 onSelect={onSelectItem}
                                 onOpenContextMenu={onOpenSelectionContext}
                                 onAction={onRowAction}
+                                inlineDiff={inlineDiff}
                             />
                         ))}
                     {visible.hasMore ? (
@@ -183,6 +195,17 @@ export function ChangeSectionView({
                         >
                             Show more
                         </button>
+                    ) : hasMoreItems && onLoadMore ? (
+                        <button
+                            type="button"
+                            className="show-more-changes"
+                            onClick={() => {
+                                setVisibleLimit(visible.nextLimit);
+                                onLoadMore();
+                            }}
+                        >
+                            Show more
+                        </button>
                     ) : null}
                 </div>
             )}
@@ -11,6 +11,8 @@ export function changesSelectionTarget(
     const stashableItems = fileItems.filter((item) => item.section === ChangeSectionId.Unstaged || item.section === ChangeSectionId.Staged);
     const untrackedItems = stageableItems.filter(isUntracked);
     const trackedUnstagedItems = stageableItems.filter((item) => !isUntracked(item));
+    const ignoredItems = items.filter((item) => item.section === ChangeSectionId.Ignored);
+    const lfsItems = fileItems.filter((item) => item.entry.isLfs);
     return {
         kind: 'selection',
         ...(submodulePath ? { submodulePath } : {}),
@@ -23,6 +25,8 @@ export function changesSelectionTarget(
         patchUnstagedFilePaths: uniqueFilePaths(trackedUnstagedItems.filter(isPatchableChangeItem)),
         patchUntrackedFilePaths: uniqueFilePaths(untrackedItems.filter(isPatchableChangeItem)),
         stashIncludeUntracked: stashableItems.some((item) => isUntracked(item)),
+        ...(ignoredItems.length > 0 ? { ignoredFilePaths: uniqueFilePaths(ignoredItems) } : {}),
+        ...(lfsItems.length > 0 ? { lfsFilePaths: uniqueFilePaths(lfsItems) } : {}),
     };
 }
 
@@ -5,6 +5,7 @@ export enum ChangeSectionId {
     Conflicts = 'conflicts',
     Staged = 'staged',
     Unstaged = 'unstaged',
+    Ignored = 'ignored',
 }
 
 export interface ChangeListItem {
@@ -51,6 +52,15 @@ export function buildChangeSections(status: StatusData): readonly ChangeSection[
     ];
 }
 
+/** Ignored paths are listed on demand, so they arrive as bare paths rather than status entries. */
+export function buildIgnoredSection(filePaths: readonly string[]): ChangeSection {
+    return {
+        id: ChangeSectionId.Ignored,
+        title: 'Ignored',
+        items: filePaths.map((filePath) => toItem(ChangeSectionId.Ignored, { filePath, indexStatus: '!', workTreeStatus: '!' }, false)),
+    };
+}
+
 export function buildChangeTree(items: readonly ChangeListItem[], compareItems: ChangeItemCompare = compareChangeItemsByPath): readonly ChangeTreeNode[] {
     const roots = new Map<string, MutableTreeNode>();
 
@@ -95,6 +105,7 @@ export function statusLabel(entry: StatusEntry): string {
     if (entry.isSubmodule) { return submoduleLabel(entry.submoduleStatus); }
     const code = statusCode(entry);
     if (code.includes('U')) { return 'Conflict'; }
+    if (code.includes('!')) { return 'Ignored'; }
     if (code.includes('R')) { return 'Renamed'; }
     if (code.includes('A') || code.includes('?')) { return 'Added'; }
     if (code.includes('D')) { return 'Deleted'; }
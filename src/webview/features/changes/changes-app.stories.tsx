@@ -139,6 +139,7 @@ function appArgs(state: ChangesState) {
         onShowErrorOutput: noop,
         onDismissError: noop,
         onShowOperationOutput: noop,
+        onUndoOperation: noop,
         onDismissOperation: noop,
         onCreateStash: noop,
         onCreateSelectedStash: noop,
@@ -1,30 +1,37 @@
 import { useMemo } from 'react';
-import type { ChangesToolbarCommand } from '@protocol/changes/messages';
+import type { ChangeHunkCommand, ChangesToolbarCommand } from '@protocol/changes/messages';
 import { ConflictState, RepositoryState } from '@protocol/changes/types';
-import type { ChangesSelectionContextTarget, CommitMode, StashFileEntry } from '@protocol/changes/types';
+import type { ChangeDiffHunk, ChangesSelectionContextTarget, CommitMode, StashFileEntry } from '@protocol/changes/types';
 import { OperationStatus } from '@protocol/shared/operation';
+import type { BisectBannerCommand } from '@protocol/shared/bisect';
+import type { OperationPlanAcknowledgement } from '@protocol/shared/operation-plan';
 import { ErrorNotice } from '@webview/shared/error-notice';
 import { OperationNotice } from '@webview/shared/operation-notice';
+import { OperationPlanDialog } from '@webview/shared/operation-plan-dialog';
 import { operationNoticeActions } from '@webview/shared/operation-notice-actions';
 import { RepositoryNavigator } from '@webview/shared/repository-navigator';
 import type { ChangeBulkAction, ChangeRowAction } from '@webview/features/changes/change-commands';
 import { ChangeSectionView } from '@webview/features/changes/change-section-view';
+import type { InlineDiffBinding } from '@webview/features/changes/change-hunk-list';
 import { changesSelectionTarget, hasPatchableSelectionTarget, isChangeListItem } from '@webview/features/changes/change-selection-model';
 import { CommitComposer } from '@webview/features/changes/commit-composer';
 import { EmptyState } from '@webview/features/changes/empty-state';
+import { HookFailurePanel } from '@webview/features/changes/hook-failure-panel';
 import { OperationBanner } from '@webview/features/changes/operation-banner';
+import { BisectBanner } from '@webview/shared/bisect-banner';
 import { StashList } from '@webview/features/changes/stash-list';
 import { SubmoduleSection } from '@webview/features/changes/submodule-section';
 import { SelectionToolbar } from '@webview/features/changes/selection-toolbar';
 import type { ChangeSelectionAction } from '@webview/features/changes/selection-commands';
-import { buildChangeSections, ChangeSectionId, type ChangeListItem, type ChangeSection } from '@webview/features/changes/change-tree';
+import { buildChangeSections, buildIgnoredSection, ChangeSectionId, type ChangeListItem, type ChangeSection } from '@webview/features/changes/change-tree';
 import {
     ChangeSelectionMode,
     getChangeCount,
     type ChangesState,
 } from '@webview/features/changes/changes-state';
 import { filterAndSortSections, flattenedItems } from '@webview/features/changes/change-view-model';
-import { changesSelectionContext } from '@webview/features/changes/context-menu-model';
+import { changesSelectionContext, selectionContextFlags } from '@webview/features/changes/context-menu-model';
+import { ignoredFilesCountLabel, REPOSITORY_IGNORED_SCOPE } from '@webview/features/changes/ignore-commands';
 import type { ActiveConflictState, OperationAction } from '@webview/features/changes/operation-commands';
 import { CreateStashKind, type StashEntryAction } from '@webview/features/changes/stash-commands';
 import { SubmoduleAction } from '@webview/features/changes/submodule-commands';
@@ -34,26 +41,41 @@ interface ChangesAppProps {
     readonly onSectionToggle: (sectionId: ChangeSectionId) => void;
     readonly onSelectItem: (item: ChangeListItem, mode: ChangeSelectionMode, visibleItemIds: readonly string[]) => void;
     readonly onRowAction: (item: ChangeListItem, action: ChangeRowAction) => void;
+    readonly onToggleFileDiff?: (item: ChangeListItem) => void;
+    readonly onHunkCommand?: (item: ChangeListItem, command: ChangeHunkCommand, hunkIndex: number, hunk: ChangeDiffHunk, lineIndexes?: readonly number[]) => void;
     readonly onBulkAction: (section: ChangeSection, action: ChangeBulkAction) => void;
+    readonly onToggleIgnoredFiles?: (scope: string) => void;
+    readonly onLoadMoreIgnoredFiles?: (scope: string) => void;
     readonly onExplainSelection: (target: ChangesSelectionContextTarget) => void;
     readonly onSelectionContextTarget: (target: ChangesSelectionContextTarget) => void;
     readonly onSelectionAction: (items: readonly ChangeListItem[], action: ChangeSelectionAction) => void;
     readonly onClearSelection: () => void;
-    readonly onCommit: (message: string, mode: CommitMode) => void;
-    readonly onCommitComposerContextTarget: (message: string) => void;
+    readonly onCommit: (message: string, mode: CommitMode, sign?: boolean) => void;
+    readonly onCommitComposerContextTarget: (message: string, sign?: boolean) => void;
     readonly onGenerateCommitMessage: () => void;
+    readonly onRequestCoAuthorCandidates?: (submodulePath?: string) => void;
+    readonly onRequestCommitMessageConventions?: (submodulePath?: string) => void;
     readonly onClearPathFilter: () => void;
     readonly onToggleShowConflictsOnly: (showConflictsOnly: boolean) => void;
     readonly onOperationAction: (conflictState: ActiveConflictState, action: OperationAction) => void;
+    readonly onBisectCommand?: (command: BisectBannerCommand) => void;
     readonly onShowErrorOutput?: () => void;
     readonly onDismissError?: () => void;
+    /** Hook failure actions; each is left out when it cannot apply to the failed hook. */
+    readonly onRetryHookFailure?: () => void;
+    readonly onCommitWithoutHooks?: () => void;
+    readonly onOpenHookScript?: () => void;
     readonly onShowOperationOutput?: () => void;
+    readonly onUndoOperation?: () => void;
     readonly onDismissOperation?: () => void;
+    readonly onAcknowledgeOperationPlan?: (acknowledgement: OperationPlanAcknowledgement) => void;
+    readonly onCancelOperationPlan?: (planId: string) => void;
     readonly onCreateStash: (kind: CreateStashKind, message: string) => void;
     readonly onCreateSelectedStash: (target: ChangesSelectionContextTarget, message: string) => void;
     readonly onToggleStash: (index: number) => void;
     readonly onStashAction: (index: number, action: StashEntryAction) => void;
     readonly onStashFileDiff: (index: number, file: StashFileEntry) => void;
+    readonly onStashContextTarget?: (index: number) => void;
     readonly onSubmoduleAction: (path: string, action: SubmoduleAction) => void;
     readonly onSubmoduleContextTarget: (path: string) => void;
     readonly onToggleSubmodule: (path: string) => void;
@@ -63,13 +85,14 @@ interface ChangesAppProps {
     readonly onExplainSubmoduleSelection: (target: ChangesSelectionContextTarget) => void;
     readonly onSubmoduleSelectionContextTarget: (target: ChangesSelectionContextTarget) => void;
     readonly onSubmoduleOperationAction: (submodulePath: string, conflictState: ActiveConflictState, action: OperationAction) => void;
-    readonly onSubmoduleCommit: (submodulePath: string, message: string, mode: CommitMode) => void;
-    readonly onSubmoduleCommitComposerContextTarget: (submodulePath: string, message: string) => void;
+    readonly onSubmoduleCommit: (submodulePath: string, message: string, mode: CommitMode, sign?: boolean) => void;
+    readonly onSubmoduleCommitComposerContextTarget: (submodulePath: string, message: string, sign?: boolean) => void;
     readonly onGenerateCommitMessageForSubmodule: (submodulePath: string) => void;
     readonly onSubmoduleCreateStash: (submodulePath: string, message: string) => void;
     readonly onToggleSubmoduleStash: (submodulePath: string, index: number) => void;
     readonly onSubmoduleStashAction: (submodulePath: string, index: number, action: StashEntryAction) => void;
     readonly onSubmoduleStashFileDiff: (submodulePath: string, index: number, file: StashFileEntry) => void;
+    readonly onSubmoduleStashContextTarget?: (submodulePath: string, index: number) => void;
     readonly onRepositoryNavigate?: (contextId: string | undefined) => void;
     readonly onOpenRepositoryInNewWindow?: (contextId: string) => void;
 }
@@ -79,7 +102,11 @@ export function ChangesApp({
     onSectionToggle,
     onSelectItem,
     onRowAction,
+    onToggleFileDiff,
+    onHunkCommand,
     onBulkAction,
+    onToggleIgnoredFiles,
+    onLoadMoreIgnoredFiles,
     onExplainSelection,
     onSelectionContextTarget,
     onSelectionAction,
@@ -87,18 +114,28 @@ export function ChangesApp({
     onCommit,
     onCommitComposerContextTarget,
     onGenerateCommitMessage,
+    onRequestCoAuthorCandidates,
+    onRequestCommitMessageConventions,
     onClearPathFilter,
     onToggleShowConflictsOnly,
     onOperationAction,
+    onBisectCommand,
     onShowErrorOutput,
     onDismissError,
+    onRetryHookFailure,
+    onCommitWithoutHooks,
+    onOpenHookScript,
     onShowOperationOutput,
+    onUndoOperation,
     onDismissOperation,
+    onAcknowledgeOperationPlan = noop,
+    onCancelOperationPlan = noop,
     onCreateStash,
     onCreateSelectedStash,
     onToggleStash,
     onStashAction,
     onStashFileDiff,
+    onStashContextTarget,
     onSubmoduleAction,
     onSubmoduleContextTarget,
     onToggleSubmodule,
@@ -115,6 +152,7 @@ export function ChangesApp({
     onToggleSubmoduleStash,
     onSubmoduleStashAction,
     onSubmoduleStashFileDiff,
+    onSubmoduleStashContextTarget,
     onRepositoryNavigate = noop,
     onOpenRepositoryInNewWindow = noop,
 }: ChangesAppProps) {
@@ -129,7 +167,17 @@ export function ChangesApp({
         () => filterAndSortSections(visibleRawSections, state.pathFilter, state.sortMode),
         [visibleRawSections, state.pathFilter, state.sortMode],
     );
-    const visibleItems = useMemo(() => flattenedItems(sections), [sections]);
+    const ignoredPage = state.ignoredFilesByScope[REPOSITORY_IGNORED_SCOPE];
+    const ignoredExpanded = state.expandedIgnoredScopes.includes(REPOSITORY_IGNORED_SCOPE);
+    const ignoredSection = useMemo(
+        () => filterAndSortSections([buildIgnoredSection(ignoredPage?.filePaths ?? [])], state.pathFilter, state.sortMode)[0],
+        [ignoredPage, state.pathFilter, state.sortMode],
+    );
+    const showIgnoredSection = Boolean(onToggleIgnoredFiles) && !state.showConflictsOnly;
+    const visibleItems = useMemo(
+        () => flattenedItems(showIgnoredSection && ignoredSection ? [...sections, ignoredSection] : sections),
+        [sections, ignoredSection, showIgnoredSection],
+    );
     const visibleItemIds = useMemo(() => visibleItems.map((item) => item.id), [visibleItems]);
     const visibleItemsById = useMemo(() => new Map(visibleItems.map((item) => [item.id, item])), [visibleItems]);
     const selectedItemIds = useMemo(() => new Set(state.selectedItemIds), [state.selectedItemIds]);
@@ -137,8 +185,18 @@ export function ChangesApp({
         () => state.selectedItemIds.map((id) => visibleItemsById.get(id)).filter(isChangeListItem),
         [state.selectedItemIds, visibleItemsById],
     );
+    const inlineDiff = useMemo((): InlineDiffBinding | undefined => (
+        onToggleFileDiff && onHunkCommand
+            ? {
+                expandedItemIds: new Set(state.expandedDiffItemIds),
+                hunksByItemId: state.fileHunksByItemId,
+                onToggle: onToggleFileDiff,
+                onHunkCommand,
+            }
+            : undefined
+    ), [state.expandedDiffItemIds, state.fileHunksByItemId, onToggleFileDiff, onHunkCommand]);
     const changeCount = getChangeCount(state.status);
-    const visibleChangeCount = visibleItemIds.length;
+    const visibleChangeCount = visibleItemIds.length - (showIgnoredSection ? ignoredSection?.items.length ?? 0 : 0);
     const hasRepository = state.status.repositoryState !== RepositoryState.Missing;
     const selectionItemsFor = (item: ChangeListItem): readonly ChangeListItem[] => (
         selectedItemIds.has(item.id)
@@ -147,15 +205,7 @@ export function ChangesApp({
     );
     const selectionTargetFor = (item: ChangeListItem) => changesSelectionTarget(selectionItemsFor(item));
     const contextForItem = (item: ChangeListItem) => {
-        const target = selectionTargetFor(item);
-        return changesSelectionContext({
-            canStage: target.stageFilePaths.length > 0,
-            canUnstage: target.unstageFilePaths.length > 0,
-            canStash: target.stashFilePaths.length > 0,
-            canExplainDiff: hasPatchableSelectionTarget(target),
-            canCreatePatch: hasPatchableSelectionTarget(target),
-            canDiscard: target.discardFilePaths.length > 0,
-        });
+        return changesSelectionContext(selectionContextFlags(selectionTargetFor(item)));
     };
     const openSelectionContext = (item: ChangeListItem) => {
         if (!selectedItemIds.has(item.id)) {
@@ -179,11 +229,22 @@ export function ChangesApp({
                 onNavigate={onRepositoryNavigate}
                 onOpenInNewWindow={onOpenRepositoryInNewWindow}
             >
-            <ErrorNotice
-                error={state.error}
-                primaryAction={showErrorOutputAction ?? dismissErrorAction}
-                secondaryAction={showErrorOutputAction ? dismissErrorAction : undefined}
-            />
+            {state.hookFailure && onOpenHookScript && onDismissError ? (
+                <HookFailurePanel
+                    failure={state.hookFailure.failure}
+                    submodulePath={state.hookFailure.submodulePath}
+                    onRetry={onRetryHookFailure}
+                    onCommitWithoutHooks={onCommitWithoutHooks}
+                    onOpenHookScript={onOpenHookScript}
+                    onDismiss={onDismissError}
+                />
+            ) : (
+                <ErrorNotice
+                    error={state.error}
+                    primaryAction={showErrorOutputAction ?? dismissErrorAction}
+                    secondaryAction={showErrorOutputAction ? dismissErrorAction : undefined}
+                />
+            )}
             {state.operationStatus ? (
                 <OperationNotice
                     status={state.operationStatus.status}
@@ -191,7 +252,7 @@ export function ChangesApp({
                     detail={state.operationStatus.target}
                     actions={operationNoticeActions(
                         state.operationStatus.actions,
-                        { onShowOutput: onShowOperationOutput, onDismiss: onDismissOperation },
+                        { onShowOutput: onShowOperationOutput, onUndo: onUndoOperation, onDismiss: onDismissOperation },
                         { dismissible: isPersistentOperationNotice(state.operationStatus.status) },
                     )}
                 />
@@ -200,11 +261,16 @@ export function ChangesApp({
             {!state.loading && hasRepository ? operationBannerFor(
                 state.status.conflictState,
                 state.status.conflicts.length,
+                state.status.sequencerRemaining,
                 state.showConflictsOnly,
                 onToggleShowConflictsOnly,
                 onOperationAction,
             ) : null}
 
+            {!state.loading && hasRepository && state.status.bisect && onBisectCommand ? (
+                <BisectBanner status={state.status.bisect} onCommand={onBisectCommand} />
+            ) : null}
+
             {!state.loading && hasRepository && !state.showConflictsOnly ? (
                 <CommitComposer
                     stagedCount={state.status.staged.length}
@@ -215,9 +281,13 @@ export function ChangesApp({
                     generatedMessage={state.generatedCommitMessage}
                     generationError={state.commitMessageGenerationError}
                     targetLabel={state.status.currentBranch}
+                    coAuthorCandidates={state.coAuthorCandidates}
+                    onRequestCoAuthorCandidates={onRequestCoAuthorCandidates ? () => onRequestCoAuthorCandidates() : undefined}
+                    conventions={state.commitMessageConventions}
+                    onRequestConventions={onRequestCommitMessageConventions ? () => onRequestCommitMessageConventions() : undefined}
                     onGenerateMessage={onGenerateCommitMessage}
                     onCommit={onCommit}
-                    onOpenNativeMenu={(message) => onCommitComposerContextTarget(message)}
+                    onOpenNativeMenu={(message, _submodulePath, sign) => onCommitComposerContextTarget(message, sign)}
                 />
             ) : null}
 
@@ -259,8 +329,29 @@ export function ChangesApp({
                         onStash={stashHandlerFor(section.id, onCreateStash)}
                         onStashSelected={(items, message) => onCreateSelectedStash(changesSelectionTarget(items), message)}
                         stashTitle={stashTitleFor(section.id)}
+                        inlineDiff={inlineDiff}
                     />
                 )) : null}
+                {!state.loading && hasRepository && showIgnoredSection && ignoredSection ? (
+                    <ChangeSectionView
+                        section={ignoredSection}
+                        viewMode={state.viewMode}
+                        sortMode={state.sortMode}
+                        collapsed={!ignoredExpanded}
+                        selectedItemIds={selectedItemIds}
+                        showSelectionCheckboxes={selectedItemIds.size > 0}
+                        contextForItem={contextForItem}
+                        onToggleCollapsed={() => onToggleIgnoredFiles?.(REPOSITORY_IGNORED_SCOPE)}
+                        onSelectItem={(item, mode) => onSelectItem(item, mode, visibleItemIds)}
+                        onOpenSelectionContext={openSelectionContext}
+                        onRowAction={onRowAction}
+                        onBulkAction={onBulkAction}
+                        showWhenEmpty
+                        countLabel={ignoredFilesCountLabel(ignoredPage)}
+                        hasMoreItems={ignoredPage?.hasMore ?? false}
+                        onLoadMore={() => onLoadMoreIgnoredFiles?.(REPOSITORY_IGNORED_SCOPE)}
+                    />
+                ) : null}
                 {!state.loading && hasRepository && state.status.submodules.length > 0 ? (
                     <SubmoduleSection
                         submodules={state.status.submodules}
@@ -274,6 +365,10 @@ export function ChangesApp({
                         commitMessageGenerationErrorByPath={state.submoduleCommitMessageGenerationErrorByPath}
                         loadingStatusPaths={state.loadingSubmoduleStatusPaths}
                         commitFocusRequestByPath={state.submoduleCommitFocusRequestByPath}
+                        coAuthorCandidatesByPath={state.submoduleCoAuthorCandidatesByPath}
+                        onRequestCoAuthorCandidates={onRequestCoAuthorCandidates}
+                        commitMessageConventionsByPath={state.submoduleCommitMessageConventionsByPath}
+                        onRequestCommitMessageConventions={onRequestCommitMessageConventions}
                         onToggle={onToggleSubmodule}
                         onContextTarget={onSubmoduleContextTarget}
                         onAction={onSubmoduleAction}
@@ -292,6 +387,11 @@ export function ChangesApp({
                         onToggleStash={onToggleSubmoduleStash}
                         onStashAction={onSubmoduleStashAction}
                         onStashFileDiff={onSubmoduleStashFileDiff}
+                        onStashContextMenu={onSubmoduleStashContextTarget}
+                        expandedIgnoredPaths={state.expandedIgnoredScopes}
+                        ignoredFilesByPath={state.ignoredFilesByScope}
+                        onToggleIgnoredFiles={onToggleIgnoredFiles}
+                        onLoadMoreIgnoredFiles={onLoadMoreIgnoredFiles}
                     />
                 ) : null}
                 {!state.loading && hasRepository && !state.showConflictsOnly && state.status.stashes.length > 0 ? (
@@ -302,10 +402,12 @@ export function ChangesApp({
                         onToggleStash={onToggleStash}
                         onStashAction={onStashAction}
                         onStashFileDiff={onStashFileDiff}
+                        onStashContextMenu={onStashContextTarget}
                     />
                 ) : null}
             </section>
             </RepositoryNavigator>
+            <OperationPlanDialog plan={state.operationPlan} onConfirm={onAcknowledgeOperationPlan} onCancel={onCancelOperationPlan} />
         </main>
     );
 }
@@ -327,6 +429,7 @@ function reviewHandlerFor(
 function operationBannerFor(
     conflictState: ConflictState,
     conflictCount: number,
+    sequencerRemaining: number | undefined,
     conflictsOnly: boolean,
     onToggleConflictsOnly: (showConflictsOnly: boolean) => void,
     onOperationAction: (conflictState: ActiveConflictState, action: OperationAction) => void,
@@ -336,6 +439,7 @@ function operationBannerFor(
         <OperationBanner
             conflictState={conflictState}
             conflictCount={conflictCount}
+            {...(sequencerRemaining !== undefined ? { sequencerRemaining } : {})}
             conflictsOnly={conflictsOnly}
             onToggleConflictsOnly={() => onToggleConflictsOnly(!conflictsOnly)}
             onAction={(action) => onOperationAction(conflictState, action)}
@@ -365,6 +469,12 @@ function changesOperationLabel(command: ChangesToolbarCommand): string {
             return 'fetch all remotes';
         case 'fetchPrune':
             return 'fetch and prune';
+        case 'fetchLfsObjects':
+            return 'fetch LFS objects';
+        case 'fetchNotes':
+            return 'fetch notes';
+        case 'pushNotes':
+            return 'push notes';
         case 'pullRebase':
             return 'pull with rebase';
         case 'pullFrom':
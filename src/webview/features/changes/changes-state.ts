@@ -1,12 +1,16 @@
-import type { ChangesExtensionToWebviewMessage, ChangesOperationStatusPush } from '@protocol/changes/messages';
+import type { ChangesExtensionToWebviewMessage, ChangesOperationStatusPush, CommitRequest } from '@protocol/changes/messages';
 import { ConflictState, RepositoryState } from '@protocol/changes/types';
-import type { StashFileEntry, StatusData, SubmoduleStatusData } from '@protocol/changes/types';
-import type { ProtocolError, Resource } from '@protocol/shared/base';
+import type { ChangeDiffHunk, StashFileEntry, StatusData, SubmoduleStatusData } from '@protocol/changes/types';
+import type { HookFailure, ProtocolError, Resource } from '@protocol/shared/base';
+import type { CommitIdentity } from '@protocol/shared/commit';
+import type { CommitMessageConventions } from '@protocol/shared/commit-message-rules';
+import type { OperationPlanPrompt } from '@protocol/shared/operation-plan';
 import type { RepositorySummary } from '@protocol/shared/repo';
 import { nextOperationStatus } from '@webview/shared/operation-state';
 import { readProtocolError } from '@webview/shared/use-protocol-error';
 import { buildChangeSections, ChangeSectionId } from '@webview/features/changes/change-tree';
 import { rememberCommitMessage } from '@webview/features/changes/commit-composer-model';
+import { ignoredScopeFromRequestId, REPOSITORY_IGNORED_SCOPE } from '@webview/features/changes/ignore-commands';
 
 export enum ChangesViewMode {
     Tree = 'tree',
@@ -38,12 +42,19 @@ export interface ChangesState {
     readonly commitMessageHistory: readonly string[];
     readonly loading: boolean;
     readonly error: ProtocolError | undefined;
+    /** A hook that rejected the last composer commit or its push; shown in place of the plain error. */
+    readonly hookFailure: HookFailureState | undefined;
     readonly operationStatus: ChangesOperationStatusPush | undefined;
+    readonly operationPlan: OperationPlanPrompt | undefined;
     readonly commitFocusRequest: number;
     readonly commitFeedback: CommitFeedback | undefined;
     readonly commitMessageGenerationRequestId: string | undefined;
     readonly generatedCommitMessage: GeneratedCommitMessage | undefined;
     readonly commitMessageGenerationError: ProtocolError | undefined;
+    readonly coAuthorCandidates: readonly CommitIdentity[] | undefined;
+    readonly submoduleCoAuthorCandidatesByPath: Readonly<Record<string, readonly CommitIdentity[]>>;
+    readonly commitMessageConventions: CommitMessageConventions | undefined;
+    readonly submoduleCommitMessageConventionsByPath: Readonly<Record<string, CommitMessageConventions>>;
     readonly submoduleCommitFeedbackByPath: Readonly<Record<string, CommitFeedback>>;
     readonly submoduleCommitMessageGenerationRequestIdByPath: Readonly<Record<string, string>>;
     readonly generatedSubmoduleCommitMessageByPath: Readonly<Record<string, GeneratedCommitMessage>>;
@@ -60,6 +71,14 @@ export interface ChangesState {
     readonly loadingSubmoduleStatusPaths: readonly string[];
     readonly expandedSubmoduleStashKeys: readonly string[];
     readonly submoduleStashFilesByKey: Readonly<Record<string, readonly StashFileEntry[]>>;
+    readonly expandedDiffItemIds: readonly string[];
+    readonly fileHunksByItemId: Readonly<Record<string, ChangeFileHunks>>;
+    readonly staleDiffItemIds: readonly string[];
+    readonly loadingDiffItemIds: readonly string[];
+    readonly expandedIgnoredScopes: readonly string[];
+    readonly ignoredFilesByScope: Readonly<Record<string, IgnoredFilesPage>>;
+    readonly staleIgnoredScopes: readonly string[];
+    readonly loadingIgnoredScopes: readonly string[];
 }
 
 export interface ChangesStatePreferences {
@@ -75,6 +94,23 @@ export interface CommitFeedback {
     readonly message: string | undefined;
 }
 
+export interface HookFailureState {
+    readonly failure: HookFailure;
+    /** Undefined when the hook ran for the repository's own composer. */
+    readonly submodulePath: string | undefined;
+    readonly request: CommitRequest | undefined;
+}
+
+export interface ChangeFileHunks {
+    readonly hunks: readonly ChangeDiffHunk[];
+    readonly binary: boolean;
+}
+
+export interface IgnoredFilesPage {
+    readonly filePaths: readonly string[];
+    readonly hasMore: boolean;
+}
+
 export interface GeneratedCommitMessage {
     readonly requestId: string;
     readonly message: string;
@@ -100,13 +136,18 @@ export type ChangesAction =
     | { readonly type: 'selectChange'; readonly selection: SelectChangeInput }
     | { readonly type: 'clearSelection' }
     | { readonly type: 'toggleStash'; readonly index: number }
+    | { readonly type: 'toggleFileDiff'; readonly itemId: string }
+    | { readonly type: 'requestFileHunks'; readonly itemId: string }
     | { readonly type: 'clearError' }
     | { readonly type: 'clearOperationStatus'; readonly operationId: string }
+    | { readonly type: 'closeOperationPlan'; readonly planId: string }
     | { readonly type: 'clearCommitFeedback' }
     | { readonly type: 'clearSubmoduleCommitFeedback'; readonly path: string }
     | { readonly type: 'toggleSubmodule'; readonly path: string }
     | { readonly type: 'requestSubmoduleStatus'; readonly path: string }
     | { readonly type: 'toggleSubmoduleStash'; readonly key: string }
+    | { readonly type: 'toggleIgnoredFiles'; readonly scope: string }
+    | { readonly type: 'requestIgnoredFiles'; readonly scope: string }
     | { readonly type: 'navigateRepository'; readonly contextId?: string };
 
 export function createInitialChangesState(preferences: ChangesStatePreferences = {}): ChangesState {
@@ -121,12 +162,18 @@ export function createInitialChangesState(preferences: ChangesStatePreferences =
         commitMessageHistory: preferences.commitMessageHistory ?? [],
         loading: true,
         error: undefined,
+        hookFailure: undefined,
         operationStatus: undefined,
+        operationPlan: undefined,
         commitFocusRequest: 0,
         commitFeedback: undefined,
         commitMessageGenerationRequestId: undefined,
         generatedCommitMessage: undefined,
         commitMessageGenerationError: undefined,
+        coAuthorCandidates: undefined,
+        submoduleCoAuthorCandidatesByPath: {},
+        commitMessageConventions: undefined,
+        submoduleCommitMessageConventionsByPath: {},
         submoduleCommitFeedbackByPath: {},
         submoduleCommitMessageGenerationRequestIdByPath: {},
         generatedSubmoduleCommitMessageByPath: {},
@@ -143,6 +190,14 @@ export function createInitialChangesState(preferences: ChangesStatePreferences =
         loadingSubmoduleStatusPaths: [],
         expandedSubmoduleStashKeys: [],
         submoduleStashFilesByKey: {},
+        expandedDiffItemIds: [],
+        fileHunksByItemId: {},
+        staleDiffItemIds: [],
+        loadingDiffItemIds: [],
+        expandedIgnoredScopes: [],
+        ignoredFilesByScope: {},
+        staleIgnoredScopes: [],
+        loadingIgnoredScopes: [],
     };
 }
 
@@ -200,6 +255,17 @@ export function reduceChangesState(state: ChangesState, action: ChangesAction):
             return { ...state, selectedItemIds: [], selectionAnchorId: undefined };
         case 'toggleStash':
             return { ...state, expandedStashIndexes: toggledIndex(state.expandedStashIndexes, action.index) };
+        case 'toggleFileDiff':
+            return state.expandedDiffItemIds.includes(action.itemId)
+                ? {
+                    ...state,
+                    expandedDiffItemIds: state.expandedDiffItemIds.filter((itemId) => itemId !== action.itemId),
+                    fileHunksByItemId: withoutKey(state.fileHunksByItemId, action.itemId),
+                    staleDiffItemIds: state.staleDiffItemIds.filter((itemId) => itemId !== action.itemId),
+                }
+                : { ...state, expandedDiffItemIds: [...state.expandedDiffItemIds, action.itemId] };
+        case 'requestFileHunks':
+            return { ...state, loadingDiffItemIds: addedPath(state.loadingDiffItemIds, action.itemId) };
         case 'clearCommitFeedback':
             return { ...state, commitFeedback: undefined };
         case 'clearSubmoduleCommitFeedback':
@@ -210,14 +276,27 @@ export function reduceChangesState(state: ChangesState, action: ChangesAction):
             return { ...state, loadingSubmoduleStatusPaths: addedPath(state.loadingSubmoduleStatusPaths, action.path) };
         case 'toggleSubmoduleStash':
             return { ...state, expandedSubmoduleStashKeys: toggledPath(state.expandedSubmoduleStashKeys, action.key) };
+        case 'toggleIgnoredFiles':
+            return state.expandedIgnoredScopes.includes(action.scope)
+                ? {
+                    ...state,
+                    expandedIgnoredScopes: state.expandedIgnoredScopes.filter((scope) => scope !== action.scope),
+                    ignoredFilesByScope: withoutKey(state.ignoredFilesByScope, action.scope),
+                    staleIgnoredScopes: state.staleIgnoredScopes.filter((scope) => scope !== action.scope),
+                }
+                : { ...state, expandedIgnoredScopes: [...state.expandedIgnoredScopes, action.scope] };
+        case 'requestIgnoredFiles':
+            return { ...state, loadingIgnoredScopes: addedPath(state.loadingIgnoredScopes, action.scope) };
         case 'navigateRepository':
             return resetForRepositoryNavigation(state, action.contextId);
         case 'clearError':
-            return { ...state, error: undefined };
+            return { ...state, error: undefined, hookFailure: undefined };
         case 'clearOperationStatus':
             return state.operationStatus?.operationId === action.operationId
                 ? { ...state, operationStatus: undefined }
                 : state;
+        case 'closeOperationPlan':
+            return state.operationPlan?.planId === action.planId ? { ...state, operationPlan: undefined } : state;
     }
 }
 
@@ -231,6 +310,10 @@ function reduceMessage(state: ChangesState, message: ChangesExtensionToWebviewMe
             const submodulePaths = new Set(message.data.submodules.map((submodule) => submodule.path));
             const expandedSubmodulePaths = keepKnownPaths(state.expandedSubmodulePaths, submodulePaths);
             const selectedItemIds = keepKnownChangeItemIds(state.selectedItemIds, message.data);
+            const expandedDiffItemIds = keepKnownChangeItemIds(state.expandedDiffItemIds, message.data);
+            const knownDiffItemIds = new Set(expandedDiffItemIds);
+            const knownIgnoredScopes = new Set([REPOSITORY_IGNORED_SCOPE, ...submodulePaths]);
+            const expandedIgnoredScopes = keepKnownPaths(state.expandedIgnoredScopes, knownIgnoredScopes);
             return {
                 ...state,
                 status: message.data,
@@ -259,6 +342,15 @@ function reduceMessage(state: ChangesState, message: ChangesExtensionToWebviewMe
                 generatedSubmoduleCommitMessageByPath: keepKnownRecord(state.generatedSubmoduleCommitMessageByPath, submodulePaths),
                 submoduleCommitMessageGenerationErrorByPath: keepKnownRecord(state.submoduleCommitMessageGenerationErrorByPath, submodulePaths),
                 submoduleCommitFocusRequestByPath: keepKnownRecord(state.submoduleCommitFocusRequestByPath, submodulePaths),
+                expandedDiffItemIds,
+                fileHunksByItemId: keepKnownRecord(state.fileHunksByItemId, knownDiffItemIds),
+                staleDiffItemIds: expandedDiffItemIds,
+                loadingDiffItemIds: keepKnownPaths(state.loadingDiffItemIds, knownDiffItemIds),
+                // Keep the listed page on screen while it reloads, so a refresh does not collapse the list.
+                expandedIgnoredScopes,
+                ignoredFilesByScope: keepKnownRecord(state.ignoredFilesByScope, knownIgnoredScopes),
+                staleIgnoredScopes: expandedIgnoredScopes,
+                loadingIgnoredScopes: keepKnownPaths(state.loadingIgnoredScopes, knownIgnoredScopes),
             };
         }
         case 'changes/error':
@@ -270,6 +362,10 @@ function reduceMessage(state: ChangesState, message: ChangesExtensionToWebviewMe
                 message.requestId,
             );
             const protocolError = readProtocolError(message);
+            const failedDiffItemId = message.requestId && state.loadingDiffItemIds.includes(message.requestId)
+                ? message.requestId
+                : undefined;
+            const failedIgnoredScope = ignoredScopeFromRequestId(message.requestId);
             return {
                 ...state,
                 loading: false,
@@ -285,6 +381,15 @@ function reduceMessage(state: ChangesState, message: ChangesExtensionToWebviewMe
                 loadingSubmoduleStatusPaths: failedSubmodulePath
                     ? state.loadingSubmoduleStatusPaths.filter((path) => path !== failedSubmodulePath)
                     : state.loadingSubmoduleStatusPaths,
+                // Collapse the diff that failed to load so the request is not retried in a loop.
+                ...(failedDiffItemId ? {
+                    expandedDiffItemIds: state.expandedDiffItemIds.filter((itemId) => itemId !== failedDiffItemId),
+                    loadingDiffItemIds: state.loadingDiffItemIds.filter((itemId) => itemId !== failedDiffItemId),
+                } : {}),
+                ...(failedIgnoredScope !== undefined ? {
+                    expandedIgnoredScopes: state.expandedIgnoredScopes.filter((scope) => scope !== failedIgnoredScope),
+                    loadingIgnoredScopes: state.loadingIgnoredScopes.filter((scope) => scope !== failedIgnoredScope),
+                } : {}),
             };
         }
         case 'changes/generatedCommitMessage':
@@ -345,15 +450,22 @@ function reduceMessage(state: ChangesState, message: ChangesExtensionToWebviewMe
                 ? {
                     ...state,
                     error: undefined,
+                    hookFailure: undefined,
                     generatedCommitMessage: undefined,
                     commitMessageGenerationError: undefined,
                     commitFeedback: { success: true, message: undefined },
                 }
-                : { ...state, error: message.error, commitFeedback: { success: false, message: message.message } };
+                : {
+                    ...state,
+                    error: message.error,
+                    hookFailure: hookFailureState(message.error, undefined, message.request),
+                    commitFeedback: { success: false, message: message.message },
+                };
         case 'changes/submoduleCommitResult':
             return {
                 ...state,
                 error: message.success ? undefined : message.error,
+                hookFailure: message.success ? undefined : hookFailureState(message.error, message.path, message.request),
                 generatedSubmoduleCommitMessageByPath: message.success
                     ? withoutKey(state.generatedSubmoduleCommitMessageByPath, message.path)
                     : state.generatedSubmoduleCommitMessageByPath,
@@ -379,6 +491,39 @@ function reduceMessage(state: ChangesState, message: ChangesExtensionToWebviewMe
                     [message.index]: message.files,
                 },
             };
+        case 'changes/fileHunks':
+            if (!state.expandedDiffItemIds.includes(message.requestId)) { return state; }
+            return {
+                ...state,
+                fileHunksByItemId: {
+                    ...state.fileHunksByItemId,
+                    [message.requestId]: { hunks: message.hunks, binary: message.binary },
+                },
+                staleDiffItemIds: state.staleDiffItemIds.filter((itemId) => itemId !== message.requestId),
+                loadingDiffItemIds: state.loadingDiffItemIds.filter((itemId) => itemId !== message.requestId),
+            };
+        case 'changes/coAuthorCandidates':
+            if (message.submodulePath === undefined) { return { ...state, coAuthorCandidates: message.candidates }; }
+            return {
+                ...state,
+                submoduleCoAuthorCandidatesByPath: {
+                    ...state.submoduleCoAuthorCandidatesByPath,
+                    [message.submodulePath]: message.candidates,
+                },
+            };
+        case 'changes/commitMessageConventions':
+            if (message.submodulePath === undefined) { return { ...state, commitMessageConventions: message.conventions }; }
+            return {
+                ...state,
+                submoduleCommitMessageConventionsByPath: {
+                    ...state.submoduleCommitMessageConventionsByPath,
+                    [message.submodulePath]: message.conventions,
+                },
+            };
+        case 'changes/ignoredFiles':
+            return reduceIgnoredFiles(state, message.submodulePath ?? REPOSITORY_IGNORED_SCOPE, message.offset, message.filePaths, message.hasMore);
+        case 'changes/fileHunksInvalidated':
+            return { ...state, staleDiffItemIds: state.expandedDiffItemIds };
         case 'changes/submoduleStatusData': {
             if (!isKnownSubmodulePath(state.status, message.path)) { return state; }
             return {
@@ -422,6 +567,8 @@ function reduceMessage(state: ChangesState, message: ChangesExtensionToWebviewMe
             return { ...state, sortMode: sortModeFromProtocol(message.sortMode), selectedItemIds: [], selectionAnchorId: undefined };
         case 'changes/operationStatus':
             return reduceChangesOperationStatus(state, message);
+        case 'changes/operationPlan':
+            return { ...state, operationPlan: message.plan };
         case 'changes/focusCommitComposer':
             return { ...state, commitFocusRequest: state.commitFocusRequest + 1 };
         case 'changes/focusSubmoduleCommitComposer':
@@ -451,11 +598,38 @@ function reduceMessage(state: ChangesState, message: ChangesExtensionToWebviewMe
     }
 }
 
+function reduceIgnoredFiles(
+    state: ChangesState,
+    scope: string,
+    offset: number,
+    filePaths: readonly string[],
+    hasMore: boolean,
+): ChangesState {
+    if (!state.loadingIgnoredScopes.includes(scope) || !state.expandedIgnoredScopes.includes(scope)) { return state; }
+    const loaded = state.ignoredFilesByScope[scope]?.filePaths ?? [];
+    const loadingIgnoredScopes = state.loadingIgnoredScopes.filter((entry) => entry !== scope);
+    // A page that does not continue the listed paths belongs to an older listing; drop it and let the next request reload.
+    if (offset > 0 && offset !== loaded.length) { return { ...state, loadingIgnoredScopes }; }
+    return {
+        ...state,
+        ignoredFilesByScope: {
+            ...state.ignoredFilesByScope,
+            [scope]: { filePaths: offset === 0 ? filePaths : [...loaded, ...filePaths], hasMore },
+        },
+        staleIgnoredScopes: state.staleIgnoredScopes.filter((entry) => entry !== scope),
+        loadingIgnoredScopes,
+    };
+}
+
 function reduceChangesOperationStatus(state: ChangesState, message: ChangesOperationStatusPush): ChangesState {
     const operationStatus = nextOperationStatus(state.operationStatus, message);
     return operationStatus === state.operationStatus ? state : { ...state, operationStatus };
 }
 
+function hookFailureState(error: ProtocolError | undefined, submodulePath: string | undefined, request: CommitRequest | undefined): HookFailureState | undefined {
+    return error?.hookFailure ? { failure: error.hookFailure, submodulePath, request } : undefined;
+}
+
 function resetForRepositoryNavigation(state: ChangesState, contextId: string | undefined): ChangesState {
     return {
         ...createInitialChangesState({
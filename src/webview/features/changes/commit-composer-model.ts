@@ -18,6 +18,10 @@ export interface CommitAvailabilityInput {
     readonly mode: CommitMode;
     readonly stagedCount: number;
     readonly conflictState: ConflictState;
+    /** Message prefilled from `commit.template`; committing it unedited is refused, as git does. */
+    readonly template?: string;
+    /** Repository commit message rules that block commits report violations. */
+    readonly blockedByRules?: boolean;
 }
 
 export interface CommitModeOption {
@@ -66,6 +70,8 @@ export function commitBlockReason(input: CommitAvailabilityInput): string | unde
     if (input.conflictState !== ConflictState.None) { return 'Resolve conflicts before committing.'; }
     if (input.message.trim().length === 0) { return 'Commit message required.'; }
     if (input.mode !== CommitMode.Amend && input.stagedCount === 0) { return 'Stage files before committing.'; }
+    if (input.template?.trim() && input.message.trim() === input.template.trim()) { return 'Edit the commit message template before committing.'; }
+    if (input.blockedByRules) { return 'Fix the commit message rule errors before committing.'; }
     return undefined;
 }
 
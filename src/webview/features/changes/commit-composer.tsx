@@ -1,9 +1,15 @@
 import { useEffect, useRef, useState, type MouseEvent } from 'react';
 import { CommitMode, ConflictState } from '@protocol/changes/types';
 import type { ProtocolError } from '@protocol/shared/base';
+import type { CommitIdentity } from '@protocol/shared/commit';
+import { commitMessageRulesBlock, evaluateCommitMessageRules, type CommitMessageConventions } from '@protocol/shared/commit-message-rules';
 import type { CommitFeedback, GeneratedCommitMessage } from '@webview/features/changes/changes-state';
 import { canSubmitCommit, commitBlockReason } from '@webview/features/changes/commit-composer-model';
 import { changesCommitComposerContext } from '@webview/features/changes/context-menu-model';
+import { CommitMessageDiagnostics } from '@webview/shared/commit-message-diagnostics';
+import { signToggleTitle } from '@webview/shared/commit-signing';
+import { composeCommitMessage, type CommitTrailer } from '@webview/shared/commit-trailers';
+import { CommitTrailersEditor } from '@webview/shared/commit-trailers-editor';
 
 interface CommitComposerProps {
     readonly stagedCount: number;
@@ -16,9 +22,15 @@ interface CommitComposerProps {
     readonly showGenerateMessage?: boolean;
     readonly targetLabel?: string;
     readonly submodulePath?: string;
+    readonly coAuthorCandidates?: readonly CommitIdentity[];
+    readonly onRequestCoAuthorCandidates?: () => void;
+    /** Template and rules of the target repository; undefined until they are loaded. */
+    readonly conventions?: CommitMessageConventions;
+    readonly onRequestConventions?: () => void;
     readonly onGenerateMessage: () => void;
-    readonly onCommit: (message: string, mode: CommitMode) => void;
-    readonly onOpenNativeMenu: (message: string, submodulePath: string | undefined) => void;
+    /** `sign` is unset until the signing defaults are loaded, leaving the choice to `commit.gpgSign`. */
+    readonly onCommit: (message: string, mode: CommitMode, sign?: boolean) => void;
+    readonly onOpenNativeMenu: (message: string, submodulePath: string | undefined, sign?: boolean) => void;
 }
 
 export function CommitComposer({
@@ -32,18 +44,34 @@ export function CommitComposer({
     showGenerateMessage = true,
     targetLabel,
     submodulePath,
+    coAuthorCandidates,
+    onRequestCoAuthorCandidates,
+    conventions,
+    onRequestConventions,
     onGenerateMessage,
     onCommit,
     onOpenNativeMenu,
 }: CommitComposerProps) {
     const [message, setMessage] = useState('');
+    const [trailers, setTrailers] = useState<readonly CommitTrailer[]>([]);
+    const [showTrailers, setShowTrailers] = useState(false);
+    const [signOverride, setSignOverride] = useState<boolean | undefined>(undefined);
     const inputRef = useRef<HTMLTextAreaElement>(null);
     const appliedGeneratedRequestIdRef = useRef<string | undefined>(undefined);
     const appliedSuccessFeedbackRef = useRef<CommitFeedback | undefined>(undefined);
     const ignoreSyntheticContextMenuRef = useRef(false);
+    const requestedConventionsRef = useRef(false);
+    const appliedTemplateRef = useRef<string | undefined>(undefined);
 
-    const canCommit = canSubmitCommit({ message, mode: CommitMode.Commit, stagedCount, conflictState });
-    const blockedReason = commitBlockReason({ message, mode: CommitMode.Commit, stagedCount, conflictState });
+    const template = conventions?.template ?? '';
+    const signing = conventions?.signing;
+    const sign = signOverride ?? signing?.sign;
+    const signTitle = signing ? signToggleTitle(sign ?? signing.sign, signing.format, signing.sign) : undefined;
+    const diagnostics = evaluateCommitMessageRules(composeCommitMessage(message, trailers), conventions?.rules);
+    const blockedByRules = commitMessageRulesBlock(conventions?.rules, diagnostics);
+    const availability = { message, stagedCount, conflictState, template, blockedByRules };
+    const canCommit = canSubmitCommit({ ...availability, mode: CommitMode.Commit });
+    const blockedReason = commitBlockReason({ ...availability, mode: CommitMode.Commit });
     const canGenerateMessage = showGenerateMessage && stagedCount > 0 && conflictState === ConflictState.None && !generatingMessage;
 
     useEffect(() => {
@@ -51,6 +79,19 @@ export function CommitComposer({
         inputRef.current?.focus();
     }, [focusRequest]);
 
+    useEffect(() => {
+        if (conventions !== undefined || requestedConventionsRef.current) { return; }
+        requestedConventionsRef.current = true;
+        onRequestConventions?.();
+    }, [conventions, onRequestConventions]);
+
+    // A template fills the composer when it loads empty; typed text is never replaced.
+    useEffect(() => {
+        if (!template || appliedTemplateRef.current === template) { return; }
+        appliedTemplateRef.current = template;
+        setMessage((current) => current || template);
+    }, [template]);
+
     useEffect(() => {
         if (!generatedMessage) { return; }
         if (appliedGeneratedRequestIdRef.current === generatedMessage.requestId) { return; }
@@ -63,8 +104,9 @@ export function CommitComposer({
         if (!feedback?.success) { return; }
         if (appliedSuccessFeedbackRef.current === feedback) { return; }
         appliedSuccessFeedbackRef.current = feedback;
-        setMessage('');
-    }, [feedback]);
+        setMessage(template);
+        setTrailers([]);
+    }, [feedback, template]);
 
     // Grow the textarea to fit the message (multiline), capped by CSS max-height.
     useEffect(() => {
@@ -75,13 +117,14 @@ export function CommitComposer({
     }, [message]);
 
     const submitCommit = (mode: CommitMode) => {
-        if (!canSubmitCommit({ message, mode, stagedCount, conflictState })) { return; }
-        onCommit(message.trim(), mode);
-        setMessage('');
+        if (!canSubmitCommit({ ...availability, mode })) { return; }
+        onCommit(composeCommitMessage(message, trailers), mode, sign);
+        setMessage(template);
+        setTrailers([]);
     };
 
     const rememberNativeMenuTarget = () => {
-        onOpenNativeMenu(message, submodulePath);
+        onOpenNativeMenu(composeCommitMessage(message, trailers), submodulePath, sign);
     };
 
     const handleNativeMenuContext = () => {
@@ -117,6 +160,29 @@ export function CommitComposer({
                         }
                     }}
                 />
+                <button
+                    type="button"
+                    className="commit-generate-button commit-trailers-toggle"
+                    aria-pressed={showTrailers}
+                    title={trailers.length > 0 ? `Trailers (${trailers.length})` : 'Trailers and co-authors'}
+                    aria-label={trailers.length > 0 ? `Trailers (${trailers.length})` : 'Trailers and co-authors'}
+                    onClick={() => setShowTrailers((value) => !value)}
+                >
+                    <i className="codicon codicon-person-add" aria-hidden="true" />
+                    {trailers.length > 0 ? <span className="commit-trailers-count">{trailers.length}</span> : null}
+                </button>
+                {signTitle ? (
+                    <button
+                        type="button"
+                        className="commit-generate-button commit-trailers-toggle"
+                        aria-pressed={sign}
+                        title={signTitle}
+                        aria-label={signTitle}
+                        onClick={() => setSignOverride(!sign)}
+                    >
+                        <i className={`codicon ${sign ? 'codicon-verified-filled' : 'codicon-unverified'}`} aria-hidden="true" />
+                    </button>
+                ) : null}
                 {showGenerateMessage ? (
                     <button
                         type="button"
@@ -130,6 +196,15 @@ export function CommitComposer({
                     </button>
                 ) : null}
             </div>
+            {showTrailers ? (
+                <CommitTrailersEditor
+                    trailers={trailers}
+                    coAuthorCandidates={coAuthorCandidates}
+                    onChange={setTrailers}
+                    onRequestCoAuthorCandidates={onRequestCoAuthorCandidates}
+                />
+            ) : null}
+            <CommitMessageDiagnostics diagnostics={diagnostics} blocking={blockedByRules} rulesError={conventions?.rulesError} />
             {generationError ? (
                 <span className="commit-hint commit-hint-error">{generationError.message}</span>
             ) : message.trim() && !canCommit && blockedReason ? (
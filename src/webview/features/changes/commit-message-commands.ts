@@ -1,4 +1,4 @@
-import type { GenerateCommitMessageRequest, GenerateSubmoduleCommitMessageRequest } from '@protocol/changes/messages';
+import type { GenerateCommitMessageRequest, GenerateSubmoduleCommitMessageRequest, GetCoAuthorCandidatesRequest, GetCommitMessageConventionsRequest } from '@protocol/changes/messages';
 
 let requestCounter = 0;
 
@@ -16,3 +16,19 @@ export function messageForGenerateSubmoduleCommitMessage(submodulePath: string):
         submodulePath,
     };
 }
+
+export function messageForGetCoAuthorCandidates(submodulePath?: string): GetCoAuthorCandidatesRequest {
+    return {
+        type: 'changes/getCoAuthorCandidates',
+        requestId: `changes:co-author-candidates:${++requestCounter}`,
+        ...(submodulePath ? { submodulePath } : {}),
+    };
+}
+
+export function messageForGetCommitMessageConventions(submodulePath?: string): GetCommitMessageConventionsRequest {
+    return {
+        type: 'changes/getCommitMessageConventions',
+        requestId: `changes:commit-message-conventions:${++requestCounter}`,
+        ...(submodulePath ? { submodulePath } : {}),
+    };
+}
@@ -1,8 +1,15 @@
+import type { ChangesSelectionContextTarget } from '@protocol/changes/types';
+import { hasPatchableSelectionTarget } from '@webview/features/changes/change-selection-model';
+
 const CHANGES_ITEM_CONTEXT = JSON.stringify({ preventDefaultContextMenuItems: true });
 const CHANGES_SUBMODULE_TOOLBAR_CONTEXT = JSON.stringify({
     webviewSection: 'changesSubmoduleToolbar',
     preventDefaultContextMenuItems: true,
 });
+const CHANGES_STASH_CONTEXT = JSON.stringify({
+    webviewSection: 'changesStash',
+    preventDefaultContextMenuItems: true,
+});
 const CHANGES_COMMIT_COMPOSER_CONTEXT = JSON.stringify({
     webviewSection: 'changesCommitComposer',
     preventDefaultContextMenuItems: true,
@@ -15,6 +22,24 @@ export interface ChangesSelectionContextFlags {
     readonly canExplainDiff: boolean;
     readonly canCreatePatch: boolean;
     readonly canDiscard: boolean;
+    readonly canIgnore: boolean;
+    readonly canExplainIgnore: boolean;
+    readonly canLockLfs: boolean;
+}
+
+export function selectionContextFlags(target: ChangesSelectionContextTarget): ChangesSelectionContextFlags {
+    const ignorablePaths = [...target.patchUntrackedFilePaths, ...(target.ignoredFilePaths ?? [])];
+    return {
+        canStage: target.stageFilePaths.length > 0,
+        canUnstage: target.unstageFilePaths.length > 0,
+        canStash: target.stashFilePaths.length > 0,
+        canExplainDiff: hasPatchableSelectionTarget(target),
+        canCreatePatch: hasPatchableSelectionTarget(target),
+        canDiscard: target.discardFilePaths.length > 0,
+        canIgnore: target.patchUntrackedFilePaths.length > 0,
+        canExplainIgnore: ignorablePaths.length === 1,
+        canLockLfs: (target.lfsFilePaths?.length ?? 0) > 0,
+    };
 }
 
 export function changesItemContext(): string {
@@ -25,6 +50,10 @@ export function changesSubmoduleToolbarContext(): string {
     return CHANGES_SUBMODULE_TOOLBAR_CONTEXT;
 }
 
+export function changesStashContext(): string {
+    return CHANGES_STASH_CONTEXT;
+}
+
 export function changesCommitComposerContext(): string {
     return CHANGES_COMMIT_COMPOSER_CONTEXT;
 }
@@ -39,5 +68,8 @@ export function changesSelectionContext(flags: ChangesSelectionContextFlags): st
         changesSelectionCanExplainDiff: flags.canExplainDiff,
         changesSelectionCanCreatePatch: flags.canCreatePatch,
         changesSelectionCanDiscard: flags.canDiscard,
+        changesSelectionCanIgnore: flags.canIgnore,
+        changesSelectionCanExplainIgnore: flags.canExplainIgnore,
+        changesSelectionCanLockLfs: flags.canLockLfs,
     });
 }
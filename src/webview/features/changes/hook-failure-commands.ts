@@ -0,0 +1,28 @@
+import type { ChangesWebviewToExtensionMessage } from '@protocol/changes/messages';
+import { messageForChangesToolbarCommand } from '@webview/features/changes/change-commands';
+import type { HookFailureState } from '@webview/features/changes/changes-state';
+import { messageForSubmoduleCommit, messageForSubmoduleToolbarCommand } from '@webview/features/changes/submodule-commands';
+
+// `--no-verify` only bypasses these; other hooks still run, so skipping cannot help them.
+const HOOKS_SKIPPED_BY_NO_VERIFY: readonly string[] = ['pre-commit', 'commit-msg'];
+
+/** Runs the rejected step again: the push for `pre-push`, otherwise the commit; undefined when nothing can be resent. */
+export function messageForRetryAfterHookFailure({ failure, submodulePath, request }: HookFailureState): ChangesWebviewToExtensionMessage | undefined {
+    if (failure.hook === 'pre-push') {
+        return submodulePath ? messageForSubmoduleToolbarCommand(submodulePath, 'push') : messageForChangesToolbarCommand('push');
+    }
+    if (!request) { return undefined; }
+    return submodulePath
+        ? messageForSubmoduleCommit(submodulePath, request.message, request.mode, request.sign)
+        : { type: 'changes/commit', ...request };
+}
+
+/** Commits again with `--no-verify`; only offered when the failed hook is one that flag skips. */
+export function messageForCommitWithoutHooks({ failure, submodulePath, request }: HookFailureState): ChangesWebviewToExtensionMessage | undefined {
+    if (!request || !HOOKS_SKIPPED_BY_NO_VERIFY.includes(failure.hook)) { return undefined; }
+    return { type: 'changes/commitWithoutHooks', ...(submodulePath ? { submodulePath } : {}), ...request };
+}
+
+export function messageForOpenHookScript({ failure, submodulePath }: HookFailureState): ChangesWebviewToExtensionMessage {
+    return { type: 'changes/openHookScript', ...(submodulePath ? { submodulePath } : {}), hook: failure.hook };
+}
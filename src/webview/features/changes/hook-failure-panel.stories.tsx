@@ -0,0 +1,46 @@
+import type { Meta, StoryObj } from '@storybook/react-vite';
+import { HookFailurePanel } from '@webview/features/changes/hook-failure-panel';
+
+const noop = () => undefined;
+
+const meta = {
+    title: 'Changes/HookFailurePanel',
+    component: HookFailurePanel,
+    args: {
+        failure: {
+            hook: 'pre-commit',
+            stdout: 'Running eslint on 3 staged files...\n',
+            stderr: 'src/app.ts\n  12:7  error  \'unused\' is assigned a value but never used  no-unused-vars\n\n1 problem (1 error, 0 warnings)\n',
+        },
+        onRetry: noop,
+        onCommitWithoutHooks: noop,
+        onOpenHookScript: noop,
+        onDismiss: noop,
+    },
+    argTypes: {
+        onRetry: { control: false },
+        onCommitWithoutHooks: { control: false },
+        onOpenHookScript: { control: false },
+        onDismiss: { control: false },
+    },
+} satisfies Meta<typeof HookFailurePanel>;
+
+export default meta;
+
+type Story = StoryObj<typeof meta>;
+
+export const PreCommit = {} satisfies Story;
+
+export const PrePushInSubmodule = {
+    args: {
+        failure: { hook: 'pre-push', stdout: '', stderr: 'Tests failed; refusing to push.\nerror: failed to push some refs to \'origin\'\n' },
+        submodulePath: 'modules/lib',
+        onCommitWithoutHooks: undefined,
+    },
+} satisfies Story;
+
+export const SilentHook = {
+    args: {
+        failure: { hook: 'commit-msg', stdout: '', stderr: '' },
+    },
+} satisfies Story;
@@ -0,0 +1,48 @@
+import type { HookFailure } from '@protocol/shared/base';
+
+interface HookFailurePanelProps {
+    readonly failure: HookFailure;
+    /** Shown for a submodule's composer so the panel says which repository ran the hook. */
+    readonly submodulePath?: string;
+    readonly onRetry?: () => void;
+    readonly onCommitWithoutHooks?: () => void;
+    readonly onOpenHookScript: () => void;
+    readonly onDismiss: () => void;
+}
+
+/** The output of a hook that rejected a commit or push, with the ways forward; absent actions are not offered. */
+export function HookFailurePanel({ failure, submodulePath, onRetry, onCommitWithoutHooks, onOpenHookScript, onDismiss }: HookFailurePanelProps) {
+    const stdout = failure.stdout.trimEnd();
+    const stderr = failure.stderr.trimEnd();
+    return (
+        <section className="error-notice hook-failure-panel" role="alert" aria-label={`${failure.hook} hook failed`}>
+            <div className="error-notice-content">
+                <strong>The <code>{failure.hook}</code> hook failed{submodulePath ? ` in ${submodulePath}` : ''}.</strong>
+                {stdout ? <HookOutput label="Output" text={stdout} /> : null}
+                {stderr ? <HookOutput label="Errors" text={stderr} /> : null}
+                {!stdout && !stderr ? <span>The hook printed nothing.</span> : null}
+                <div className="error-notice-actions hook-failure-actions">
+                    {onRetry ? (
+                        <button type="button" className="error-notice-action-primary" onClick={onRetry}>Retry</button>
+                    ) : null}
+                    {onCommitWithoutHooks ? (
+                        <button type="button" className="error-notice-action-secondary" onClick={onCommitWithoutHooks}>
+                            Commit with --no-verify
+                        </button>
+                    ) : null}
+                    <button type="button" className="error-notice-action-secondary" onClick={onOpenHookScript}>Open Hook Script</button>
+                    <button type="button" className="error-notice-action-secondary" onClick={onDismiss}>Dismiss</button>
+                </div>
+            </div>
+        </section>
+    );
+}
+
+function HookOutput({ label, text }: { readonly label: string; readonly text: string }) {
+    return (
+        <div className="hook-failure-output">
+            <span>{label}</span>
+            <pre>{text}</pre>
+        </div>
+    );
+}
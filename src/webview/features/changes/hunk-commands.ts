@@ -0,0 +1,56 @@
+import type { ChangeHunkCommand, ChangesWebviewToExtensionMessage } from '@protocol/changes/messages';
+import type { ChangeDiffHunk } from '@protocol/changes/types';
+import { ChangeSectionId, isFileActionItem, type ChangeListItem } from '@webview/features/changes/change-tree';
+
+export interface HunkCommandDescriptor {
+    readonly command: ChangeHunkCommand;
+    readonly icon: string;
+    readonly label: string;
+}
+
+/** Untracked files and conflicts have no index diff to split, and gitlinks have no lines. */
+export function canShowInlineDiff(item: ChangeListItem): boolean {
+    if (item.section === ChangeSectionId.Conflicts || !isFileActionItem(item)) { return false; }
+    return item.entry.indexStatus !== '?' && item.entry.workTreeStatus !== '?';
+}
+
+export function hunkCommandsFor(item: ChangeListItem): readonly HunkCommandDescriptor[] {
+    if (item.isStaged) {
+        return [{ command: 'unstage', icon: 'remove', label: 'Unstage' }];
+    }
+    return [
+        { command: 'discard', icon: 'discard', label: 'Discard' },
+        { command: 'stage', icon: 'add', label: 'Stage' },
+    ];
+}
+
+export function messageForGetFileHunks(item: ChangeListItem): ChangesWebviewToExtensionMessage {
+    return {
+        type: 'changes/getFileHunks',
+        requestId: fileHunksRequestId(item),
+        filePath: item.entry.filePath,
+        isStaged: item.isStaged,
+    };
+}
+
+export function messageForHunkCommand(
+    item: ChangeListItem,
+    command: ChangeHunkCommand,
+    hunkIndex: number,
+    hunk: ChangeDiffHunk,
+    lineIndexes?: readonly number[],
+): ChangesWebviewToExtensionMessage {
+    return {
+        type: 'changes/hunkCommand',
+        command,
+        filePath: item.entry.filePath,
+        hunkIndex,
+        hunkHeader: hunk.header,
+        ...(lineIndexes && lineIndexes.length > 0 ? { lineIndexes } : {}),
+    };
+}
+
+/** Responses are keyed by the row id so the staged and unstaged diffs of one file stay apart. */
+export function fileHunksRequestId(item: ChangeListItem): string {
+    return item.id;
+}
@@ -0,0 +1,31 @@
+import type { ChangesWebviewToExtensionMessage } from '@protocol/changes/messages';
+
+/** Ignored files are keyed by submodule path; the empty key is the repository itself. */
+export const REPOSITORY_IGNORED_SCOPE = '';
+
+const IGNORED_FILES_REQUEST_PREFIX = 'changes:ignored:';
+
+export function messageForGetIgnoredFiles(scope: string, offset: number, limit: number): ChangesWebviewToExtensionMessage {
+    return {
+        type: 'changes/getIgnoredFiles',
+        requestId: ignoredFilesRequestId(scope),
+        ...(scope !== REPOSITORY_IGNORED_SCOPE ? { submodulePath: scope } : {}),
+        offset,
+        limit,
+    };
+}
+
+export function ignoredFilesRequestId(scope: string): string {
+    return `${IGNORED_FILES_REQUEST_PREFIX}${scope}`;
+}
+
+export function ignoredScopeFromRequestId(requestId: string | undefined): string | undefined {
+    if (!requestId?.startsWith(IGNORED_FILES_REQUEST_PREFIX)) { return undefined; }
+    return requestId.substring(IGNORED_FILES_REQUEST_PREFIX.length);
+}
+
+/** Nothing is counted until the section is first expanded, and a partial page is marked as open-ended. */
+export function ignoredFilesCountLabel(page: { readonly filePaths: readonly string[]; readonly hasMore: boolean } | undefined): string {
+    if (!page) { return ''; }
+    return page.hasMore ? `${page.filePaths.length}+` : String(page.filePaths.length);
+}
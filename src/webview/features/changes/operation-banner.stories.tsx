@@ -35,3 +35,11 @@ export const MergeReadyToContinue = {
         conflictsOnly: true,
     },
 } satisfies Story;
+
+export const CherryPickSequence = {
+    args: {
+        conflictState: ConflictState.CherryPick,
+        conflictCount: 1,
+        sequencerRemaining: 3,
+    },
+} satisfies Story;
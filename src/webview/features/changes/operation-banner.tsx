@@ -4,18 +4,20 @@ import { ConflictState } from '@protocol/changes/types';
 interface OperationBannerProps {
     readonly conflictState: ActiveConflictState;
     readonly conflictCount: number;
+    readonly sequencerRemaining?: number;
     readonly conflictsOnly: boolean;
     readonly onToggleConflictsOnly: () => void;
     readonly onAction: (action: OperationAction) => void;
 }
 
-export function OperationBanner({ conflictState, conflictCount, conflictsOnly, onToggleConflictsOnly, onAction }: OperationBannerProps) {
+export function OperationBanner({ conflictState, conflictCount, sequencerRemaining, conflictsOnly, onToggleConflictsOnly, onAction }: OperationBannerProps) {
     const hasConflicts = conflictCount > 0;
     const readyToContinue = !hasConflicts;
     return (
         <section className={`changes-banner${readyToContinue ? ' changes-banner-ready' : ''}`} aria-label="Operation in progress" aria-live="polite">
             <div>
                 <strong>{operationLabel(conflictState)} in progress</strong>
+                {sequencerRemaining !== undefined ? <span>{remainingText(conflictState, sequencerRemaining)}</span> : null}
                 <span>{operationHelpText(conflictCount)}</span>
             </div>
             <div className="operation-actions">
@@ -51,6 +53,15 @@ export function OperationBanner({ conflictState, conflictCount, conflictsOnly, o
                 >
                     Continue
                 </button>
+                {conflictState === ConflictState.Merge ? null : (
+                    <button
+                        type="button"
+                        title="Drop the commit that stopped and continue with the next one"
+                        onClick={() => onAction(OperationAction.Skip)}
+                    >
+                        Skip
+                    </button>
+                )}
                 <button type="button" onClick={() => onAction(OperationAction.Abort)}>Abort</button>
                 <button
                     type="button"
@@ -70,6 +81,20 @@ function operationHelpText(count: number): string {
     return `${label}. Continue is disabled until every conflict is resolved.`;
 }
 
+function remainingText(state: ActiveConflictState, remaining: number): string {
+    const noun = state === ConflictState.Revert ? 'revert' : 'pick';
+    return remaining === 1 ? `1 ${noun} remaining.` : `${remaining} ${noun}s remaining.`;
+}
+
 function operationLabel(state: ActiveConflictState): string {
-    return state === ConflictState.Merge ? 'Merge' : 'Rebase';
+    switch (state) {
+        case ConflictState.Merge:
+            return 'Merge';
+        case ConflictState.Rebase:
+            return 'Rebase';
+        case ConflictState.CherryPick:
+            return 'Cherry-pick';
+        case ConflictState.Revert:
+            return 'Revert';
+    }
 }
@@ -1,5 +1,6 @@
 import type { ChangesWebviewToExtensionMessage } from '@protocol/changes/messages';
 import { ConflictState } from '@protocol/changes/types';
+import type { BisectBannerCommand } from '@protocol/shared/bisect';
 
 export type ActiveConflictState = Exclude<ConflictState, ConflictState.None>;
 
@@ -8,6 +9,7 @@ export enum OperationAction {
     OpenAllMergeEditors = 'openAllMergeEditors',
     Continue = 'continue',
     Abort = 'abort',
+    Skip = 'skip',
     AcceptAllTheirs = 'acceptAllTheirs',
 }
 
@@ -24,7 +26,13 @@ export function messageForOperationAction(
             return { type: 'changes/continueOp', conflictState };
         case OperationAction.Abort:
             return { type: 'changes/abortOp', conflictState };
+        case OperationAction.Skip:
+            return { type: 'changes/skipOp', conflictState };
         case OperationAction.AcceptAllTheirs:
             return { type: 'changes/acceptAllTheirs' };
     }
 }
+
+export function messageForBisectCommand(command: BisectBannerCommand): ChangesWebviewToExtensionMessage {
+    return { type: 'changes/bisectCommand', command };
+}
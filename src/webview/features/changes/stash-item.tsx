@@ -1,7 +1,7 @@
 import type { StashEntry, StashFileEntry } from '@protocol/changes/types';
 import { Codicon } from '@webview/shared/codicon';
 import { IconButton } from '@webview/shared/icon-button';
-import { changesItemContext } from '@webview/features/changes/context-menu-model';
+import { changesStashContext } from '@webview/features/changes/context-menu-model';
 import { StashEntryAction } from '@webview/features/changes/stash-commands';
 import { StashFileRow } from '@webview/features/changes/stash-file-row';
 
@@ -12,12 +12,17 @@ interface StashItemProps {
     readonly onToggle: (index: number) => void;
     readonly onAction: (index: number, action: StashEntryAction) => void;
     readonly onFileDiff: (index: number, file: StashFileEntry) => void;
+    readonly onContextMenu?: (index: number) => void;
 }
 
-export function StashItem({ stash, expanded, files, onToggle, onAction, onFileDiff }: StashItemProps) {
+export function StashItem({ stash, expanded, files, onToggle, onAction, onFileDiff, onContextMenu }: StashItemProps) {
     const displayMessage = stash.message || `stash@{${stash.index}}`;
     return (
-        <article className="stash-item" data-vscode-context={changesItemContext()}>
+        <article
+            className="stash-item"
+            data-vscode-context={changesStashContext()}
+            onContextMenu={onContextMenu ? () => onContextMenu(stash.index) : undefined}
+        >
             <header
                 className="stash-item-header"
                 onClick={() => onToggle(stash.index)}
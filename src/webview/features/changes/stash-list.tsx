@@ -11,6 +11,7 @@ interface StashListProps {
     readonly onToggleStash: (index: number) => void;
     readonly onStashAction: (index: number, action: StashEntryAction) => void;
     readonly onStashFileDiff: (index: number, file: StashFileEntry) => void;
+    readonly onStashContextMenu?: (index: number) => void;
     readonly title?: string;
     readonly showWhenEmpty?: boolean;
 }
@@ -22,6 +23,7 @@ export function StashList({
     onToggleStash,
     onStashAction,
     onStashFileDiff,
+    onStashContextMenu,
     title = 'Stashes',
     showWhenEmpty = false,
 }: StashListProps) {
@@ -70,6 +72,7 @@ export function StashList({
                             onToggle={onToggleStash}
                             onAction={onStashAction}
                             onFileDiff={onStashFileDiff}
+                            onContextMenu={onStashContextMenu}
                         />
                     ))}
                 </div>
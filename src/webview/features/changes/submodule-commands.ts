@@ -135,6 +135,8 @@ export function messageForSubmoduleOperationAction(
             return { type: 'changes/submoduleContinueOp', submodulePath, conflictState };
         case OperationAction.Abort:
             return { type: 'changes/submoduleAbortOp', submodulePath, conflictState };
+        case OperationAction.Skip:
+            return { type: 'changes/submoduleSkipOp', submodulePath, conflictState };
     }
 }
 
@@ -149,8 +151,9 @@ export function messageForSubmoduleCommit(
     submodulePath: string,
     message: string,
     mode: CommitMode,
+    sign?: boolean,
 ): ChangesWebviewToExtensionMessage {
-    return { type: 'changes/submoduleCommit', submodulePath, message, mode };
+    return { type: 'changes/submoduleCommit', submodulePath, message, mode, ...(sign !== undefined ? { sign } : {}) };
 }
 
 export function messageForSubmoduleStashAction(
@@ -4,17 +4,27 @@ import type { ChangesSelectionContextTarget, StashFileEntry, SubmoduleEntry, Sub
 import { ConflictState } from '@protocol/changes/types';
 import type { CommitMode } from '@protocol/changes/types';
 import type { ProtocolError } from '@protocol/shared/base';
+import type { CommitIdentity } from '@protocol/shared/commit';
+import type { CommitMessageConventions } from '@protocol/shared/commit-message-rules';
 import { Codicon } from '@webview/shared/codicon';
 import { IconButton } from '@webview/shared/icon-button';
 import { SubmoduleAction } from '@webview/features/changes/submodule-commands';
 import type { ChangeBulkAction, ChangeRowAction } from '@webview/features/changes/change-commands';
 import { ChangeSectionView } from '@webview/features/changes/change-section-view';
 import type { ChangeListItem, ChangeSection } from '@webview/features/changes/change-tree';
-import { ChangeSectionId } from '@webview/features/changes/change-tree';
-import { ChangeSelectionMode, ChangesSortMode, ChangesViewMode, type CommitFeedback, type GeneratedCommitMessage } from '@webview/features/changes/changes-state';
+import { buildIgnoredSection, ChangeSectionId } from '@webview/features/changes/change-tree';
+import {
+    ChangeSelectionMode,
+    ChangesSortMode,
+    ChangesViewMode,
+    type CommitFeedback,
+    type GeneratedCommitMessage,
+    type IgnoredFilesPage,
+} from '@webview/features/changes/changes-state';
 import { changesSelectionTarget, hasPatchableSelectionTarget, isChangeListItem } from '@webview/features/changes/change-selection-model';
 import { CommitComposer } from '@webview/features/changes/commit-composer';
-import { changesItemContext, changesSelectionContext, changesSubmoduleToolbarContext } from '@webview/features/changes/context-menu-model';
+import { changesItemContext, changesSelectionContext, changesSubmoduleToolbarContext, selectionContextFlags } from '@webview/features/changes/context-menu-model';
+import { ignoredFilesCountLabel } from '@webview/features/changes/ignore-commands';
 import { OperationBanner } from '@webview/features/changes/operation-banner';
 import type { ActiveConflictState, OperationAction } from '@webview/features/changes/operation-commands';
 import { StashList } from '@webview/features/changes/stash-list';
@@ -41,14 +51,23 @@ interface SubmoduleItemProps {
     readonly commitMessageGenerating: boolean;
     readonly generatedCommitMessage: GeneratedCommitMessage | undefined;
     readonly commitMessageGenerationError: ProtocolError | undefined;
-    readonly onCommit: (message: string, mode: CommitMode) => void;
-    readonly onCommitComposerContextTarget: (message: string) => void;
+    readonly onCommit: (message: string, mode: CommitMode, sign?: boolean) => void;
+    readonly onCommitComposerContextTarget: (message: string, sign?: boolean) => void;
     readonly onGenerateCommitMessage: () => void;
+    readonly coAuthorCandidates?: readonly CommitIdentity[];
+    readonly onRequestCoAuthorCandidates?: () => void;
+    readonly commitMessageConventions?: CommitMessageConventions;
+    readonly onRequestCommitMessageConventions?: () => void;
     readonly onCreateStash: (message: string) => void;
     readonly onCreateSelectedStash: (target: ChangesSelectionContextTarget, message: string) => void;
     readonly onToggleStash: (index: number) => void;
     readonly onStashAction: (index: number, action: StashEntryAction) => void;
     readonly onStashFileDiff: (index: number, file: StashFileEntry) => void;
+    readonly onStashContextMenu?: (index: number) => void;
+    readonly ignoredExpanded?: boolean;
+    readonly ignoredFiles?: IgnoredFilesPage;
+    readonly onToggleIgnoredFiles?: () => void;
+    readonly onLoadMoreIgnoredFiles?: () => void;
 }
 
 const BADGE_LABELS: Partial<Record<SubmoduleStatus, string>> = {
@@ -81,11 +100,20 @@ export function SubmoduleItem({
     onCommit,
     onCommitComposerContextTarget,
     onGenerateCommitMessage,
+    coAuthorCandidates,
+    onRequestCoAuthorCandidates,
+    commitMessageConventions,
+    onRequestCommitMessageConventions,
     onCreateStash,
     onCreateSelectedStash,
     onToggleStash,
     onStashAction,
     onStashFileDiff,
+    onStashContextMenu,
+    ignoredExpanded = false,
+    ignoredFiles,
+    onToggleIgnoredFiles,
+    onLoadMoreIgnoredFiles,
 }: SubmoduleItemProps) {
     const [collapsedSectionIds, setCollapsedSectionIds] = useState<readonly ChangeSectionId[]>([]);
     const [selectedItemIds, setSelectedItemIds] = useState<readonly string[]>([]);
@@ -98,9 +126,11 @@ export function SubmoduleItem({
     const sections = conflictsOnly
         ? allSections.filter((section) => section.id === ChangeSectionId.Conflicts)
         : allSections;
-    const visibleItems = sections
-        .filter((section) => !collapsedSectionIds.includes(section.id))
-        .flatMap((section) => section.items);
+    const ignoredSection = onToggleIgnoredFiles && !conflictsOnly ? buildIgnoredSection(ignoredFiles?.filePaths ?? []) : undefined;
+    const visibleItems = [
+        ...sections.filter((section) => !collapsedSectionIds.includes(section.id)),
+        ...(ignoredSection && ignoredExpanded ? [ignoredSection] : []),
+    ].flatMap((section) => section.items);
     const visibleItemIds = visibleItems.map((item) => item.id);
     const visibleItemsById = new Map(visibleItems.map((item) => [item.id, item]));
     const selectedItemIdsSet = new Set(selectedItemIds);
@@ -111,15 +141,7 @@ export function SubmoduleItem({
     );
     const selectionTargetFor = (item: ChangeListItem) => changesSelectionTarget(selectionItemsFor(item), submodule.path);
     const contextForItem = (item: ChangeListItem) => {
-        const target = selectionTargetFor(item);
-        return changesSelectionContext({
-            canStage: target.stageFilePaths.length > 0,
-            canUnstage: target.unstageFilePaths.length > 0,
-            canStash: target.stashFilePaths.length > 0,
-            canExplainDiff: hasPatchableSelectionTarget(target),
-            canCreatePatch: hasPatchableSelectionTarget(target),
-            canDiscard: target.discardFilePaths.length > 0,
-        });
+        return changesSelectionContext(selectionContextFlags(selectionTargetFor(item)));
     };
     const selectItem = (item: ChangeListItem, mode: ChangeSelectionMode) => {
         if (mode === ChangeSelectionMode.Range) {
@@ -247,6 +269,7 @@ export function SubmoduleItem({
                             {operationBannerFor(
                                 statusData.conflictState,
                                 statusData.conflicts.length,
+                                statusData.sequencerRemaining,
                                 conflictsOnly,
                                 () => setShowConflictsOnly(!conflictsOnly),
                                 onOperationAction,
@@ -262,9 +285,13 @@ export function SubmoduleItem({
                                     generationError={commitMessageGenerationError}
                                     targetLabel={statusData.currentBranch ?? submodule.name}
                                     submodulePath={submodule.path}
+                                    coAuthorCandidates={coAuthorCandidates}
+                                    onRequestCoAuthorCandidates={onRequestCoAuthorCandidates}
+                                    conventions={commitMessageConventions}
+                                    onRequestConventions={onRequestCommitMessageConventions}
                                     onGenerateMessage={onGenerateCommitMessage}
                                     onCommit={onCommit}
-                                    onOpenNativeMenu={(message) => onCommitComposerContextTarget(message)}
+                                    onOpenNativeMenu={(message, _submodulePath, sign) => onCommitComposerContextTarget(message, sign)}
                                 />
                             ) : null}
                             {sections.map((section) => (
@@ -287,6 +314,26 @@ export function SubmoduleItem({
                                     onStashSelected={(items, message) => onCreateSelectedStash(changesSelectionTarget(items, submodule.path), message)}
                                 />
                             ))}
+                            {ignoredSection ? (
+                                <ChangeSectionView
+                                    section={ignoredSection}
+                                    viewMode={ChangesViewMode.List}
+                                    sortMode={ChangesSortMode.Path}
+                                    collapsed={!ignoredExpanded}
+                                    selectedItemIds={selectedItemIdsSet}
+                                    showSelectionCheckboxes={selectedItemIdsSet.size > 0}
+                                    contextForItem={contextForItem}
+                                    onToggleCollapsed={() => onToggleIgnoredFiles?.()}
+                                    onSelectItem={selectItem}
+                                    onOpenSelectionContext={openSelectionContext}
+                                    onRowAction={onRowAction}
+                                    onBulkAction={onBulkAction}
+                                    showWhenEmpty
+                                    countLabel={ignoredFilesCountLabel(ignoredFiles)}
+                                    hasMoreItems={ignoredFiles?.hasMore ?? false}
+                                    onLoadMore={onLoadMoreIgnoredFiles}
+                                />
+                            ) : null}
                             {!conflictsOnly ? (
                                 <StashList
                                     title="Stashed"
@@ -296,6 +343,7 @@ export function SubmoduleItem({
                                     onToggleStash={onToggleStash}
                                     onStashAction={onStashAction}
                                     onStashFileDiff={onStashFileDiff}
+                                    onStashContextMenu={onStashContextMenu}
                                 />
                             ) : null}
                             {!hasVisibleDetails ? (
@@ -376,6 +424,7 @@ function buildSubmoduleSections(statusData: SubmoduleStatusData): readonly Chang
 function operationBannerFor(
     conflictState: ConflictState,
     conflictCount: number,
+    sequencerRemaining: number | undefined,
     conflictsOnly: boolean,
     onToggleConflictsOnly: () => void,
     onOperationAction: (conflictState: ActiveConflictState, action: OperationAction) => void,
@@ -385,6 +434,7 @@ function operationBannerFor(
         <OperationBanner
             conflictState={conflictState}
             conflictCount={conflictCount}
+            {...(sequencerRemaining !== undefined ? { sequencerRemaining } : {})}
             conflictsOnly={conflictsOnly}
             onToggleConflictsOnly={onToggleConflictsOnly}
             onAction={(action) => onOperationAction(conflictState, action)}
@@ -5,8 +5,10 @@ import { Codicon } from '@webview/shared/codicon';
 import { IconButton } from '@webview/shared/icon-button';
 import type { ChangeBulkAction, ChangeRowAction } from '@webview/features/changes/change-commands';
 import type { ChangeListItem, ChangeSection } from '@webview/features/changes/change-tree';
-import { submoduleStashKey, type CommitFeedback, type GeneratedCommitMessage } from '@webview/features/changes/changes-state';
+import { submoduleStashKey, type CommitFeedback, type GeneratedCommitMessage, type IgnoredFilesPage } from '@webview/features/changes/changes-state';
 import type { ProtocolError } from '@protocol/shared/base';
+import type { CommitIdentity } from '@protocol/shared/commit';
+import type { CommitMessageConventions } from '@protocol/shared/commit-message-rules';
 import type { ActiveConflictState, OperationAction } from '@webview/features/changes/operation-commands';
 import { SubmoduleAction } from '@webview/features/changes/submodule-commands';
 import { SubmoduleItem } from '@webview/features/changes/submodule-item';
@@ -24,6 +26,14 @@ interface SubmoduleSectionProps {
     readonly commitMessageGenerationErrorByPath: Readonly<Record<string, ProtocolError>>;
     readonly loadingStatusPaths: readonly string[];
     readonly commitFocusRequestByPath: Readonly<Record<string, number>>;
+    readonly coAuthorCandidatesByPath?: Readonly<Record<string, readonly CommitIdentity[]>>;
+    readonly onRequestCoAuthorCandidates?: (submodulePath: string) => void;
+    readonly commitMessageConventionsByPath?: Readonly<Record<string, CommitMessageConventions>>;
+    readonly onRequestCommitMessageConventions?: (submodulePath: string) => void;
+    readonly expandedIgnoredPaths?: readonly string[];
+    readonly ignoredFilesByPath?: Readonly<Record<string, IgnoredFilesPage>>;
+    readonly onToggleIgnoredFiles?: (submodulePath: string) => void;
+    readonly onLoadMoreIgnoredFiles?: (submodulePath: string) => void;
     readonly onToggle: (path: string) => void;
     readonly onContextTarget: (path: string) => void;
     readonly onAction: (path: string, action: SubmoduleAction) => void;
@@ -34,14 +44,15 @@ interface SubmoduleSectionProps {
     readonly onExplainSelection: (target: ChangesSelectionContextTarget) => void;
     readonly onSelectionContextTarget: (target: ChangesSelectionContextTarget) => void;
     readonly onOperationAction: (submodulePath: string, conflictState: ActiveConflictState, action: OperationAction) => void;
-    readonly onCommit: (submodulePath: string, message: string, mode: CommitMode) => void;
-    readonly onCommitComposerContextTarget: (submodulePath: string, message: string) => void;
+    readonly onCommit: (submodulePath: string, message: string, mode: CommitMode, sign?: boolean) => void;
+    readonly onCommitComposerContextTarget: (submodulePath: string, message: string, sign?: boolean) => void;
     readonly onGenerateCommitMessage: (submodulePath: string) => void;
     readonly onCreateStash: (submodulePath: string, message: string) => void;
     readonly onCreateSelectedStash: (target: ChangesSelectionContextTarget, message: string) => void;
     readonly onToggleStash: (submodulePath: string, index: number) => void;
     readonly onStashAction: (submodulePath: string, index: number, action: StashEntryAction) => void;
     readonly onStashFileDiff: (submodulePath: string, index: number, file: StashFileEntry) => void;
+    readonly onStashContextMenu?: (submodulePath: string, index: number) => void;
 }
 
 export function SubmoduleSection({
@@ -56,6 +67,14 @@ export function SubmoduleSection({
     commitMessageGenerationErrorByPath,
     loadingStatusPaths,
     commitFocusRequestByPath,
+    coAuthorCandidatesByPath = {},
+    onRequestCoAuthorCandidates,
+    commitMessageConventionsByPath = {},
+    onRequestCommitMessageConventions,
+    expandedIgnoredPaths = [],
+    ignoredFilesByPath = {},
+    onToggleIgnoredFiles,
+    onLoadMoreIgnoredFiles,
     onToggle,
     onContextTarget,
     onAction,
@@ -74,6 +93,7 @@ export function SubmoduleSection({
     onToggleStash,
     onStashAction,
     onStashFileDiff,
+    onStashContextMenu,
 }: SubmoduleSectionProps) {
     const [collapsed, setCollapsed] = useState(false);
 
@@ -132,14 +152,23 @@ export function SubmoduleSection({
                                 commitMessageGenerating={commitMessageGenerationRequestIdByPath[submodule.path] !== undefined}
                                 generatedCommitMessage={generatedCommitMessageByPath[submodule.path]}
                                 commitMessageGenerationError={commitMessageGenerationErrorByPath[submodule.path]}
-                                onCommit={(message, mode) => onCommit(submodule.path, message, mode)}
-                                onCommitComposerContextTarget={(message) => onCommitComposerContextTarget(submodule.path, message)}
+                                onCommit={(message, mode, sign) => onCommit(submodule.path, message, mode, sign)}
+                                onCommitComposerContextTarget={(message, sign) => onCommitComposerContextTarget(submodule.path, message, sign)}
                                 onGenerateCommitMessage={() => onGenerateCommitMessage(submodule.path)}
+                                coAuthorCandidates={coAuthorCandidatesByPath[submodule.path]}
+                                onRequestCoAuthorCandidates={onRequestCoAuthorCandidates ? () => onRequestCoAuthorCandidates(submodule.path) : undefined}
+                                commitMessageConventions={commitMessageConventionsByPath[submodule.path]}
+                                onRequestCommitMessageConventions={onRequestCommitMessageConventions ? () => onRequestCommitMessageConventions(submodule.path) : undefined}
                                 onCreateStash={(message) => onCreateStash(submodule.path, message)}
                                 onCreateSelectedStash={onCreateSelectedStash}
                                 onToggleStash={(index) => onToggleStash(submodule.path, index)}
                                 onStashAction={(index, action) => onStashAction(submodule.path, index, action)}
                                 onStashFileDiff={(index, file) => onStashFileDiff(submodule.path, index, file)}
+                                onStashContextMenu={onStashContextMenu ? (index) => onStashContextMenu(submodule.path, index) : undefined}
+                                ignoredExpanded={expandedIgnoredPaths.includes(submodule.path)}
+                                ignoredFiles={ignoredFilesByPath[submodule.path]}
+                                onToggleIgnoredFiles={onToggleIgnoredFiles ? () => onToggleIgnoredFiles(submodule.path) : undefined}
+                                onLoadMoreIgnoredFiles={onLoadMoreIgnoredFiles ? () => onLoadMoreIgnoredFiles(submodule.path) : undefined}
                             />
                         );
                     })}
@@ -5,6 +5,7 @@ import type { ChangeRowAction } from '@webview/features/changes/change-commands'
 import type { ChangeListItem, ChangeTreeNode } from '@webview/features/changes/change-tree';
 import type { ChangeSelectionMode } from '@webview/features/changes/changes-state';
 import { ChangeRow } from '@webview/features/changes/change-row';
+import type { InlineDiffBinding } from '@webview/features/changes/change-hunk-list';
 import { changesItemContext } from '@webview/features/changes/context-menu-model';
 
 interface TreeNodeViewProps {
@@ -15,9 +16,10 @@ interface TreeNodeViewProps {
     readonly onSelectItem: (item: ChangeListItem, mode: ChangeSelectionMode) => void;
     readonly onOpenSelectionContext: (item: ChangeListItem) => void;
     readonly onRowAction: (item: ChangeListItem, action: ChangeRowAction) => void;
+    readonly inlineDiff?: InlineDiffBinding;
 }
 
-export function TreeNodeView({ node, selectedItemIds, showSelectionCheckboxes, contextForItem, onSelectItem, onOpenSelectionContext, onRowAction }: TreeNodeViewProps) {
+export function TreeNodeView({ node, selectedItemIds, showSelectionCheckboxes, contextForItem, onSelectItem, onOpenSelectionContext, onRowAction, inlineDiff }: TreeNodeViewProps) {
     const [folderCollapsed, setFolderCollapsed] = useState(false);
 
     if (node.item) {
@@ -31,6 +33,7 @@ export function TreeNodeView({ node, selectedItemIds, showSelectionCheckboxes, c
                 onSelect={onSelectItem}
                 onOpenContextMenu={onOpenSelectionContext}
                 onAction={onRowAction}
+                inlineDiff={inlineDiff}
             />
         );
     }
@@ -68,6 +71,7 @@ export function TreeNodeView({ node, selectedItemIds, showSelectionCheckboxes, c
                     onSelectItem={onSelectItem}
                     onOpenSelectionContext={onOpenSelectionContext}
                     onRowAction={onRowAction}
+                    inlineDiff={inlineDiff}
                 />
             )) : null}
         </div>
@@ -0,0 +1,134 @@
+import type { CleanEntry, CleanPreviewOptions } from '@protocol/clean/types';
+import { OperationStatus } from '@protocol/shared/operation';
+import type { OperationPlanAcknowledgement, OperationPlanPrompt } from '@protocol/shared/operation-plan';
+import { Codicon } from '@webview/shared/codicon';
+import { OperationNotice, type OperationNoticeAction } from '@webview/shared/operation-notice';
+import { OperationPlanDialog } from '@webview/shared/operation-plan-dialog';
+import { SelectionCheckbox } from '@webview/shared/selection-checkbox';
+import type { CleanActionStatus } from '@webview/features/clean/clean-state';
+
+interface CleanAppProps {
+    readonly title: string;
+    readonly loading: boolean;
+    readonly options: CleanPreviewOptions;
+    readonly entries: readonly CleanEntry[];
+    readonly selectedPaths: ReadonlySet<string>;
+    readonly previewError: string | undefined;
+    readonly actionStatus: CleanActionStatus | undefined;
+    readonly operationPlan: OperationPlanPrompt | undefined;
+    readonly onChangeOptions: (options: CleanPreviewOptions) => void;
+    readonly onToggleEntry: (path: string) => void;
+    readonly onSelectAll: (selected: boolean) => void;
+    readonly onRemove: () => void;
+    readonly onShowOutput: () => void;
+    readonly onDismissStatus: () => void;
+    readonly onAcknowledgeOperationPlan: (acknowledgement: OperationPlanAcknowledgement) => void;
+    readonly onCancelOperationPlan: (planId: string) => void;
+}
+
+export function CleanApp({
+    title,
+    loading,
+    options,
+    entries,
+    selectedPaths,
+    previewError,
+    actionStatus,
+    operationPlan,
+    onChangeOptions,
+    onToggleEntry,
+    onSelectAll,
+    onRemove,
+    onShowOutput,
+    onDismissStatus,
+    onAcknowledgeOperationPlan,
+    onCancelOperationPlan,
+}: CleanAppProps) {
+    const removing = actionStatus?.status === OperationStatus.Running;
+    const selectedCount = entries.filter((entry) => selectedPaths.has(entry.path)).length;
+    const allSelected = entries.length > 0 && selectedCount === entries.length;
+    return (
+        <main className="clean" aria-busy={loading ? 'true' : undefined}>
+            <header className="clean-header">
+                <h1>{title}</h1>
+                <div className="clean-options">
+                    <label>
+                        <input
+                            type="checkbox"
+                            checked={options.includeDirectories}
+                            disabled={removing}
+                            onChange={() => onChangeOptions({ ...options, includeDirectories: !options.includeDirectories })}
+                        />
+                        Include untracked directories
+                    </label>
+                    <label>
+                        <input
+                            type="checkbox"
+                            checked={options.includeIgnored}
+                            disabled={removing}
+                            onChange={() => onChangeOptions({ ...options, includeIgnored: !options.includeIgnored })}
+                        />
+                        Include ignored files
+                    </label>
+                </div>
+            </header>
+            {actionStatus ? (
+                <OperationNotice
+                    status={actionStatus.status}
+                    message={actionStatus.message ?? 'Deleting files…'}
+                    {...(actionStatus.details ? { detail: actionStatus.details } : {})}
+                    actions={statusActions(actionStatus, onShowOutput, onDismissStatus)}
+                />
+            ) : null}
+            {previewError ? (
+                <OperationNotice status={OperationStatus.Failed} message={`Could not preview clean: ${previewError}`} />
+            ) : null}
+            {loading ? (
+                <p className="clean-hint"><Codicon name="loading" spin /> Looking for files to clean…</p>
+            ) : entries.length === 0 ? (
+                previewError ? null : <p className="clean-hint">Nothing to clean.</p>
+            ) : (
+                <ul className="clean-list" aria-label="Files that would be removed">
+                    {entries.map((entry) => (
+                        <li key={entry.path} className="clean-entry">
+                            <label>
+                                <SelectionCheckbox
+                                    checked={selectedPaths.has(entry.path)}
+                                    ariaLabel={`Delete ${entry.path}`}
+                                    onToggle={() => onToggleEntry(entry.path)}
+                                />
+                                <Codicon name={entry.isDirectory ? 'folder' : 'file'} />
+                                <span className="clean-entry-path" title={entry.path}>{entry.path}</span>
+                            </label>
+                        </li>
+                    ))}
+                </ul>
+            )}
+            <footer className="clean-footer">
+                <span className="clean-hint">{selectedCount} of {entries.length} selected</span>
+                <div className="operation-actions">
+                    <button type="button" disabled={loading || removing || entries.length === 0} onClick={() => onSelectAll(!allSelected)}>
+                        {allSelected ? 'Clear Selection' : 'Select All'}
+                    </button>
+                    <button
+                        type="button"
+                        className="operation-primary-action"
+                        disabled={loading || removing || selectedCount === 0}
+                        title="Permanently delete the checked files and directories"
+                        onClick={onRemove}
+                    >
+                        Delete Selected
+                    </button>
+                </div>
+            </footer>
+            <OperationPlanDialog plan={operationPlan} onConfirm={onAcknowledgeOperationPlan} onCancel={onCancelOperationPlan} />
+        </main>
+    );
+}
+
+function statusActions(status: CleanActionStatus, onShowOutput: () => void, onDismiss: () => void): readonly OperationNoticeAction[] {
+    if (status.status === OperationStatus.Running) { return []; }
+    return status.status === OperationStatus.Failed
+        ? [{ label: 'Show Output', onClick: onShowOutput }, { label: 'Dismiss', onClick: onDismiss }]
+        : [{ label: 'Dismiss', onClick: onDismiss }];
+}
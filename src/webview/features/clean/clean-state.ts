@@ -0,0 +1,102 @@
+import type { CleanExtensionToWebviewMessage } from '@protocol/clean/messages';
+import type { CleanEntry, CleanPreviewOptions } from '@protocol/clean/types';
+import { OperationStatus } from '@protocol/shared/operation';
+import type { OperationPlanPrompt } from '@protocol/shared/operation-plan';
+
+export interface CleanActionStatus {
+    readonly status: OperationStatus;
+    readonly message?: string;
+    readonly details?: string;
+}
+
+export interface CleanState {
+    readonly title: string;
+    readonly loading: boolean;
+    readonly options: CleanPreviewOptions;
+    readonly entries: readonly CleanEntry[];
+    readonly selectedPaths: ReadonlySet<string>;
+    readonly previewError: string | undefined;
+    readonly actionStatus: CleanActionStatus | undefined;
+    readonly operationPlan: OperationPlanPrompt | undefined;
+}
+
+export type CleanStateAction =
+    | { readonly type: 'message'; readonly message: CleanExtensionToWebviewMessage }
+    | { readonly type: 'previewRequested'; readonly options: CleanPreviewOptions }
+    | { readonly type: 'toggleEntry'; readonly path: string }
+    | { readonly type: 'selectAll'; readonly selected: boolean }
+    | { readonly type: 'clearActionStatus' }
+    | { readonly type: 'closeOperationPlan'; readonly planId: string };
+
+export const initialCleanState: CleanState = {
+    title: 'Clean',
+    loading: true,
+    options: { includeIgnored: false, includeDirectories: true },
+    entries: [],
+    selectedPaths: new Set(),
+    previewError: undefined,
+    actionStatus: undefined,
+    operationPlan: undefined,
+};
+
+export function reduceCleanState(state: CleanState, action: CleanStateAction): CleanState {
+    switch (action.type) {
+        case 'previewRequested':
+            return { ...state, loading: true, options: action.options, previewError: undefined };
+        case 'toggleEntry': {
+            const selectedPaths = new Set(state.selectedPaths);
+            if (!selectedPaths.delete(action.path)) { selectedPaths.add(action.path); }
+            return { ...state, selectedPaths };
+        }
+        case 'selectAll':
+            return { ...state, selectedPaths: new Set(action.selected ? state.entries.map((entry) => entry.path) : []) };
+        case 'clearActionStatus':
+            return { ...state, actionStatus: undefined };
+        case 'closeOperationPlan':
+            return state.operationPlan?.planId === action.planId ? { ...state, operationPlan: undefined } : state;
+        case 'message':
+            return reduceCleanMessage(state, action.message);
+    }
+}
+
+function reduceCleanMessage(state: CleanState, message: CleanExtensionToWebviewMessage): CleanState {
+    switch (message.type) {
+        case 'clean/preview': {
+            if (!previewOptionsEqual(message.options, state.options)) { return state; }
+            const listed = new Set(message.entries.map((entry) => entry.path));
+            return {
+                ...state,
+                title: message.title,
+                loading: false,
+                entries: message.entries,
+                // Keep only checks on entries that are still listed, so a refresh never selects new files.
+                selectedPaths: new Set([...state.selectedPaths].filter((path) => listed.has(path))),
+                previewError: undefined,
+            };
+        }
+        case 'clean/previewFailed':
+            if (!previewOptionsEqual(message.options, state.options)) { return state; }
+            return { ...state, loading: false, entries: [], selectedPaths: new Set(), previewError: message.message };
+        case 'clean/operationPlan':
+            return { ...state, operationPlan: message.plan };
+        case 'clean/actionStarted':
+            return { ...state, actionStatus: { status: OperationStatus.Running } };
+        case 'clean/actionCompleted':
+            return { ...state, actionStatus: { status: OperationStatus.Success, message: message.message } };
+        case 'clean/actionFailed':
+            return {
+                ...state,
+                actionStatus: {
+                    status: OperationStatus.Failed,
+                    message: message.message,
+                    ...(message.details ? { details: message.details } : {}),
+                },
+            };
+        default:
+            return state;
+    }
+}
+
+function previewOptionsEqual(a: CleanPreviewOptions, b: CleanPreviewOptions): boolean {
+    return a.includeIgnored === b.includeIgnored && a.includeDirectories === b.includeDirectories;
+}
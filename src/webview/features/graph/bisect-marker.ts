@@ -0,0 +1,26 @@
+import type { BisectStatus } from '@protocol/shared/bisect';
+
+export type BisectMarker = 'firstBad' | 'bad' | 'good' | 'skip' | 'current';
+
+const BISECT_MARKER_LABELS: Readonly<Record<BisectMarker, string>> = {
+    firstBad: 'first bad',
+    bad: 'bad',
+    good: 'good',
+    skip: 'skipped',
+    current: 'testing',
+};
+
+/** The first bad commit outranks its bad mark, and a marked commit keeps its mark while checked out. */
+export function bisectMarkerFor(hash: string, bisect: BisectStatus | undefined): BisectMarker | undefined {
+    if (!bisect) { return undefined; }
+    if (bisect.firstBadHash === hash) { return 'firstBad'; }
+    if (bisect.badHash === hash) { return 'bad'; }
+    if (bisect.goodHashes.includes(hash)) { return 'good'; }
+    if (bisect.skippedHashes.includes(hash)) { return 'skip'; }
+    if (bisect.currentHash === hash && !bisect.firstBadHash) { return 'current'; }
+    return undefined;
+}
+
+export function bisectMarkerLabel(marker: BisectMarker): string {
+    return BISECT_MARKER_LABELS[marker];
+}
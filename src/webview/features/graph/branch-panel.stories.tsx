@@ -1,6 +1,6 @@
 import type { Meta, StoryObj } from '@storybook/react-vite';
 import { GraphOperationCategory } from '@protocol/graph/messages';
-import { branches, graphOperation, graphSubmodules, noop, worktrees } from '@webview/storybook-fixtures';
+import { branches, graphOperation, graphSubmodules, noop, rebaseBackups, tags, worktrees } from '@webview/storybook-fixtures';
 import { BranchPanel } from '@webview/features/graph/branch-panel';
 
 const meta = {
@@ -31,6 +31,8 @@ const meta = {
         onSelectWorktree: { control: false },
         onOpenWorktree: { control: false },
         onAddWorktree: { control: false },
+        onRebaseBackupCommand: { control: false },
+        onTagCommand: { control: false },
         onContextTarget: { control: false },
     },
 } satisfies Meta<typeof BranchPanel>;
@@ -51,6 +53,18 @@ export const Fetching = {
     },
 } satisfies Story;
 
+export const WithRebaseBackups = {
+    args: {
+        rebaseBackups,
+    },
+} satisfies Story;
+
+export const WithTags = {
+    args: {
+        tags,
+    },
+} satisfies Story;
+
 export const SubmoduleScope = {
     args: {
         selectedRepository: {
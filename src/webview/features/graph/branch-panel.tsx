@@ -1,7 +1,8 @@
 import { useState } from 'react';
-import type { CSSProperties } from 'react';
-import { GraphOperationCategory, GraphOperationStatus, type BranchCommand, type GraphOperationStatusPush } from '@protocol/graph/messages';
-import type { BranchInfo, GraphContextTarget, GraphSubmoduleInfo, WorktreeInfo } from '@protocol/graph/types';
+import type { CSSProperties, MouseEvent } from 'react';
+import { GraphOperationCategory, GraphOperationStatus, type BranchCommand, type GraphOperationStatusPush, type RebaseBackupCommand, type TagCommand } from '@protocol/graph/messages';
+import type { BranchInfo, GraphContextTarget, GraphSubmoduleInfo, RebaseBackupInfo, TagInfo, WorktreeInfo } from '@protocol/graph/types';
+import { sortTags, type TagSortOrder } from '@protocol/shared/tag-versions';
 import { mainGraphRepositorySelection, type GraphRepositorySelection } from '@webview/features/graph/graph-repository-selection';
 import { buildBranchTree, buildRemoteBranchTree } from '@webview/features/graph/graph-branch-tree';
 import { BranchTreeNode, type BranchTreeExpansionRequest } from '@webview/features/graph/branch-tree-node';
@@ -16,6 +17,8 @@ interface BranchPanelProps {
     readonly branches: readonly BranchInfo[];
     readonly worktrees: readonly WorktreeInfo[];
     readonly submodules: readonly GraphSubmoduleInfo[];
+    readonly rebaseBackups?: readonly RebaseBackupInfo[];
+    readonly tags?: readonly TagInfo[];
     readonly selectedRepository?: GraphRepositorySelection;
     readonly currentBranch: string;
     readonly hasRemotes?: boolean;
@@ -28,9 +31,13 @@ interface BranchPanelProps {
     readonly onSelectSubmodule?: (submodule: GraphSubmoduleInfo) => void;
     readonly onBranchCommand: (command: BranchCommand, branch: string, isRemote: boolean) => void;
     readonly onFetch: () => void;
+    readonly onShowReflog?: () => void;
+    readonly onOpenBisect?: () => void;
     readonly onSelectWorktree: (path: string) => void;
     readonly onOpenWorktree: (path: string) => void;
     readonly onAddWorktree: () => void;
+    readonly onRebaseBackupCommand?: (command: RebaseBackupCommand, backup: RebaseBackupInfo) => void;
+    readonly onTagCommand?: (command: TagCommand, tag: TagInfo) => void;
     readonly onContextTarget: (target: GraphContextTarget) => void;
 }
 
@@ -39,6 +46,8 @@ export function BranchPanel({
     branches,
     worktrees,
     submodules,
+    rebaseBackups = [],
+    tags = [],
     selectedRepository = mainGraphRepositorySelection(),
     currentBranch,
     hasRemotes = false,
@@ -51,15 +60,22 @@ export function BranchPanel({
     onSelectSubmodule = () => undefined,
     onBranchCommand,
     onFetch,
+    onShowReflog,
+    onOpenBisect,
     onSelectWorktree,
     onOpenWorktree,
     onAddWorktree,
+    onRebaseBackupCommand = () => undefined,
+    onTagCommand = () => undefined,
     onContextTarget,
 }: BranchPanelProps) {
     const [search, setSearch] = useState('');
     const [localCollapsed, setLocalCollapsed] = useState(false);
     const [remoteCollapsed, setRemoteCollapsed] = useState(false);
     const [worktreesCollapsed, setWorktreesCollapsed] = useState(false);
+    const [rebaseBackupsCollapsed, setRebaseBackupsCollapsed] = useState(false);
+    const [tagsCollapsed, setTagsCollapsed] = useState(false);
+    const [tagSortOrder, setTagSortOrder] = useState<TagSortOrder>('version');
     const [submodulesCollapsed, setSubmodulesCollapsed] = useState(false);
     const [treeExpansionRequest, setTreeExpansionRequest] = useState<BranchTreeExpansionRequest>({
         mode: 'expanded',
@@ -70,6 +86,10 @@ export function BranchPanel({
     const filtered = normalizedSearch
         ? branches.filter((b) => b.name.toLowerCase().includes(normalizedSearch))
         : branches;
+    const filteredRebaseBackups = normalizedSearch
+        ? rebaseBackups.filter((backup) => backup.branchLabel.toLowerCase().includes(normalizedSearch))
+        : rebaseBackups;
+    const filteredTags = sortTags(normalizedSearch ? tags.filter((tag) => tagMatchesSearch(tag, normalizedSearch)) : tags, tagSortOrder);
     const filteredSubmodules = normalizedSearch
         ? submodules.filter((submodule) => submoduleMatchesSearch(submodule, normalizedSearch))
         : submodules;
@@ -172,6 +192,16 @@ export function BranchPanel({
         onContextTarget({ kind: 'worktree', path: worktree.path });
     };
 
+    const runRebaseBackupCommand = (event: MouseEvent, command: RebaseBackupCommand, backup: RebaseBackupInfo) => {
+        event.stopPropagation();
+        onRebaseBackupCommand(command, backup);
+    };
+
+    const runTagCommand = (event: MouseEvent, command: TagCommand, tag: TagInfo) => {
+        event.stopPropagation();
+        onTagCommand(command, tag);
+    };
+
     return (
         <div className="graph-branch-panel graph-scope-transition-surface" style={style}>
             <div className="graph-branch-panel-body">
@@ -225,6 +255,18 @@ export function BranchPanel({
                         busy={fetching}
                         onClick={onFetch}
                     />
+                    <IconButton
+                        icon="history"
+                        title="Show Reflog"
+                        disabled={!onShowReflog}
+                        onClick={() => onShowReflog?.()}
+                    />
+                    <IconButton
+                        icon="debug-alt"
+                        title="Open Bisect"
+                        disabled={!onOpenBisect}
+                        onClick={() => onOpenBisect?.()}
+                    />
                     <span className="graph-branch-action-separator" aria-hidden="true" />
                     <IconButton
                         icon="expand-all"
@@ -242,8 +284,8 @@ export function BranchPanel({
                     <div className="branch-search">
                         <SearchInput
                             value={search}
-                            placeholder="Branch, worktree, submodule"
-                            ariaLabel="Search branches, worktrees, and submodules"
+                            placeholder="Branch, tag, worktree, submodule"
+                            ariaLabel="Search branches, tags, worktrees, and submodules"
                             onChange={setSearch}
                         />
                     </div>
@@ -390,6 +432,147 @@ export function BranchPanel({
                             ))}
                         </div>
 
+                        {filteredTags.length > 0 && (
+                            <div className="branch-group">
+                                <div className="graph-group-header-row">
+                                    <button
+                                        type="button"
+                                        className="branch-group-header"
+                                        onClick={() => setTagsCollapsed(!tagsCollapsed)}
+                                    >
+                                        <i
+                                            className={`codicon codicon-chevron-${tagsCollapsed ? 'right' : 'down'}`}
+                                            aria-hidden="true"
+                                        />
+                                        <span>Tags</span>
+                                        <span className="graph-resource-count">{filteredTags.length}</span>
+                                    </button>
+                                    <IconButton
+                                        icon={tagSortOrder === 'version' ? 'versions' : 'calendar'}
+                                        title={tagSortOrder === 'version' ? 'Sorted by version. Sort by date' : 'Sorted by date. Sort by version'}
+                                        className="graph-resource-action"
+                                        onClick={() => setTagSortOrder(tagSortOrder === 'version' ? 'date' : 'version')}
+                                    />
+                                </div>
+                                {!tagsCollapsed && filteredTags.map((tag) => (
+                                    <div
+                                        className="graph-resource-row graph-resource-row-clickable graph-tag-row"
+                                        key={tag.name}
+                                        role="button"
+                                        tabIndex={0}
+                                        title={tagTooltip(tag)}
+                                        data-vscode-context={JSON.stringify({
+                                            webviewSection: 'graphTag',
+                                            graphTagIsAnnotated: tag.annotated === true,
+                                            preventDefaultContextMenuItems: true,
+                                        })}
+                                        onClick={() => onTagCommand('reveal', tag)}
+                                        onContextMenu={() => onContextTarget({ kind: 'tag', tag: tag.name, hash: tag.hash })}
+                                        onKeyDown={(e) => {
+                                            if (e.key === 'Enter' || e.key === ' ') {
+                                                e.preventDefault();
+                                                onTagCommand('reveal', tag);
+                                            }
+                                        }}
+                                    >
+                                        <i className="codicon codicon-tag branch-leaf-icon" aria-hidden="true" />
+                                        <span className="branch-node-name">{tag.name}</span>
+                                        <span className="graph-tag-target">{(tag.target ?? tag.hash).substring(0, 7)}</span>
+                                        {tag.annotated ? <span className="graph-resource-badge" title="Annotated tag">annotated</span> : null}
+                                        <IconButton
+                                            icon="git-compare"
+                                            title="Compare Tag with Current Branch"
+                                            className="graph-resource-action"
+                                            onClick={(e) => runTagCommand(e, 'compareWithCurrent', tag)}
+                                        />
+                                        <IconButton
+                                            icon="cloud-upload"
+                                            title="Push Tag..."
+                                            className="graph-resource-action"
+                                            disabled={!hasRemotes}
+                                            onClick={(e) => runTagCommand(e, 'push', tag)}
+                                        />
+                                        <IconButton
+                                            icon="trash"
+                                            title="Delete Tag..."
+                                            className="graph-resource-action"
+                                            onClick={(e) => runTagCommand(e, 'delete', tag)}
+                                        />
+                                    </div>
+                                ))}
+                            </div>
+                        )}
+
+                        {filteredRebaseBackups.length > 0 && (
+                            <div className="branch-group">
+                                <button
+                                    type="button"
+                                    className="branch-group-header"
+                                    onClick={() => setRebaseBackupsCollapsed(!rebaseBackupsCollapsed)}
+                                >
+                                    <i
+                                        className={`codicon codicon-chevron-${rebaseBackupsCollapsed ? 'right' : 'down'}`}
+                                        aria-hidden="true"
+                                    />
+                                    <span>Rebase Backups</span>
+                                    <span className="graph-resource-count">{filteredRebaseBackups.length}</span>
+                                </button>
+                                {!rebaseBackupsCollapsed && filteredRebaseBackups.map((backup) => (
+                                    <div
+                                        className="graph-resource-row graph-rebase-backup-row"
+                                        key={backup.ref}
+                                        title={`${backup.ref}\n${backup.hash}`}
+                                        data-vscode-context={JSON.stringify({
+                                            webviewSection: 'graphRebaseBackup',
+                                            graphRebaseBackupHasBranch: backup.branch !== undefined,
+                                            preventDefaultContextMenuItems: true,
+                                        })}
+                                        onContextMenu={() => onContextTarget({ kind: 'rebaseBackup', ref: backup.ref, hash: backup.hash })}
+                                    >
+                                        <i className="codicon codicon-history branch-leaf-icon" aria-hidden="true" />
+                                        <span className="branch-node-name">{backup.branchLabel}</span>
+                                        <time className="graph-rebase-backup-date" dateTime={new Date(backup.createdAt).toISOString()}>
+                                            {new Date(backup.createdAt).toLocaleString()}
+                                        </time>
+                                        {backup.commitCount ? (
+                                            <span
+                                                className="graph-resource-badge"
+                                                title={`${backup.commitCount} commit${backup.commitCount === 1 ? '' : 's'} not on ${backup.branch ?? backup.branchLabel}`}
+                                            >
+                                                {backup.commitCount}
+                                            </span>
+                                        ) : null}
+                                        {backup.branch ? null : <span className="graph-resource-badge" title="The branch no longer exists">gone</span>}
+                                        <IconButton
+                                            icon="discard"
+                                            title={`Restore ${backup.branchLabel} to Backup...`}
+                                            className="graph-resource-action"
+                                            disabled={backup.branch === undefined}
+                                            onClick={(e) => runRebaseBackupCommand(e, 'restore', backup)}
+                                        />
+                                        <IconButton
+                                            icon="git-compare"
+                                            title="Compare Backup with Current Branch"
+                                            className="graph-resource-action"
+                                            onClick={(e) => runRebaseBackupCommand(e, 'compare', backup)}
+                                        />
+                                        <IconButton
+                                            icon="diff"
+                                            title="Range Diff Backup with Branch"
+                                            className="graph-resource-action"
+                                            onClick={(e) => runRebaseBackupCommand(e, 'rangeDiff', backup)}
+                                        />
+                                        <IconButton
+                                            icon="trash"
+                                            title="Delete Backup..."
+                                            className="graph-resource-action"
+                                            onClick={(e) => runRebaseBackupCommand(e, 'delete', backup)}
+                                        />
+                                    </div>
+                                ))}
+                            </div>
+                        )}
+
                         {filteredSubmodules.length > 0 && (
                             <div className="branch-group">
                                 <button
@@ -438,6 +621,22 @@ function shortWorktreeBranch(branch: string | undefined): string | undefined {
     return branch?.replace(/^refs\/heads\//, '');
 }
 
+function tagMatchesSearch(tag: TagInfo, normalizedSearch: string): boolean {
+    return tag.name.toLowerCase().includes(normalizedSearch)
+        || (tag.taggerName?.toLowerCase().includes(normalizedSearch) ?? false)
+        || (tag.message?.toLowerCase().includes(normalizedSearch) ?? false);
+}
+
+function tagTooltip(tag: TagInfo): string {
+    return [
+        `${tag.name} (${tag.annotated ? 'annotated' : 'lightweight'})`,
+        ...(tag.taggerName ? [`Tagger: ${tag.taggerName}${tag.taggerEmail ? ` <${tag.taggerEmail}>` : ''}`] : []),
+        ...(tag.date ? [`Date: ${new Date(tag.date).toLocaleString()}`] : []),
+        `Commit: ${tag.target ?? tag.hash}`,
+        ...(tag.message ? ['', tag.message] : []),
+    ].join('\n');
+}
+
 function submoduleMatchesSearch(submodule: GraphSubmoduleInfo, normalizedSearch: string): boolean {
     return submodule.path.toLowerCase().includes(normalizedSearch)
         || submodule.name.toLowerCase().includes(normalizedSearch)
@@ -1,5 +1,6 @@
-import { useState } from 'react';
+import { useState, type MouseEvent, type ReactNode } from 'react';
 import type { CommitFileChange } from '@protocol/graph/types';
+import type { CommitMessageLink } from '@protocol/shared/commit';
 import { ResizablePanel } from '@webview/shared/resizable-panel';
 import { ResizeAxis } from '@webview/shared/resize-axis';
 import { ResizeHandleSide } from '@webview/shared/resize-handle-side';
@@ -9,6 +10,10 @@ import { ViewMode } from '@webview/shared/view-mode';
 import { readViewMode, writeViewMode } from '@webview/shared/view-mode-storage';
 import { CommitFileTree } from '@webview/shared/commit-file-tree';
 import { filterCommitDetailFiles } from '@webview/shared/commit-file-filter';
+import { SignatureBadge } from '@webview/shared/signature-badge';
+import { CommitNotes } from '@webview/shared/commit-notes';
+import { CommitTrailerChips } from '@webview/shared/commit-trailer-chips';
+import { splitCommitTrailers } from '@webview/shared/commit-trailers';
 import type { CommitDetails } from '@webview/features/graph/graph-state';
 
 const COMMIT_MESSAGE_PANEL_MIN = 72;
@@ -20,12 +25,18 @@ const COMMIT_DETAILS_FILE_VIEW_MODE_STORAGE_KEY = 'lookGit.commitDetailsFileView
 interface CommitDetailsContentProps {
     readonly details: CommitDetails;
     readonly onDiff: (file: CommitFileChange) => void;
+    readonly onBlame?: (file: CommitFileChange) => void;
+    readonly onOpenLink: (url: string) => void;
 }
 
-export function CommitDetailsContent({ details, onDiff }: CommitDetailsContentProps) {
+export function CommitDetailsContent({ details, onDiff, onBlame, onOpenLink }: CommitDetailsContentProps) {
     const [fileSearch, setFileSearch] = useState('');
     const [fileViewMode, setFileViewMode] = useState(() => readViewMode(COMMIT_DETAILS_FILE_VIEW_MODE_STORAGE_KEY, ViewMode.Tree));
     const filteredFiles = filterCommitDetailFiles(details.files, fileSearch);
+    const { body: message, trailers } = splitCommitTrailers(details.fullMessage);
+    // Links were found in the full message; keep those whose text is unchanged in the message without trailers.
+    const messageLinks = (details.messageLinks ?? []).filter((link) =>
+        message.substring(link.start, link.end) === details.fullMessage.substring(link.start, link.end));
 
     const changeFileViewMode = (nextViewMode: ViewMode) => {
         setFileViewMode(nextViewMode);
@@ -45,7 +56,7 @@ export function CommitDetailsContent({ details, onDiff }: CommitDetailsContentPr
             </div>
             <div className="graph-details-file-tree">
                 {filteredFiles.length > 0 ? (
-                    <CommitFileTree files={filteredFiles} viewMode={fileViewMode} onDiff={onDiff} />
+                    <CommitFileTree files={filteredFiles} viewMode={fileViewMode} onDiff={onDiff} onBlame={onBlame} />
                 ) : (
                     <div className="graph-details-file-empty">No files match</div>
                 )}
@@ -62,11 +73,49 @@ export function CommitDetailsContent({ details, onDiff }: CommitDetailsContentPr
             >
                 {(style) => (
                     <div className="graph-details-meta" style={style}>
-                        <p className="graph-details-message">{details.fullMessage}</p>
-                        <p className="graph-details-hash-full">{details.hash}</p>
+                        <p className="graph-details-message">{linkedMessage(message, messageLinks, onOpenLink)}</p>
+                        <CommitTrailerChips trailers={trailers} />
+                        <CommitNotes notes={details.notes} />
+                        <p className="graph-details-hash-full">
+                            {details.webUrl ? (
+                                <RemoteLink url={details.webUrl} title="Open Commit on Remote" onOpenLink={onOpenLink}>{details.hash}</RemoteLink>
+                            ) : details.hash}
+                        </p>
+                        <SignatureBadge signature={details.signature} showLabel />
                     </div>
                 )}
             </ResizablePanel>
         </>
     );
 }
+
+function linkedMessage(message: string, links: readonly CommitMessageLink[], onOpenLink: (url: string) => void): ReactNode[] {
+    const parts: ReactNode[] = [];
+    let offset = 0;
+    for (const link of links) {
+        if (link.start < offset) { continue; }
+        parts.push(message.substring(offset, link.start));
+        parts.push(
+            <RemoteLink key={link.start} url={link.url} title={link.url} onOpenLink={onOpenLink}>
+                {message.substring(link.start, link.end)}
+            </RemoteLink>,
+        );
+        offset = link.end;
+    }
+    parts.push(message.substring(offset));
+    return parts;
+}
+
+function RemoteLink({ url, title, onOpenLink, children }: {
+    readonly url: string;
+    readonly title: string;
+    readonly onOpenLink: (url: string) => void;
+    readonly children: ReactNode;
+}) {
+    // The extension opens the link so it can refuse anything that is not a web URL.
+    const open = (event: MouseEvent<HTMLAnchorElement>) => {
+        event.preventDefault();
+        onOpenLink(url);
+    };
+    return <a className="graph-details-link" href={url} title={title} onClick={open}>{children}</a>;
+}
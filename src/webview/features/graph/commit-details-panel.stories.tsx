@@ -1,5 +1,5 @@
 import type { Meta, StoryObj } from '@storybook/react-vite';
-import { commitDetails, noop } from '@webview/storybook-fixtures';
+import { commitDetails, commitDetailsWithRemoteLinks, noop } from '@webview/storybook-fixtures';
 import { CommitDetailsPanel } from '@webview/features/graph/commit-details-panel';
 
 const meta = {
@@ -10,10 +10,12 @@ const meta = {
         loading: false,
         onClose: noop,
         onDiff: noop,
+        onOpenLink: noop,
     },
     argTypes: {
         onClose: { control: false },
         onDiff: { control: false },
+        onOpenLink: { control: false },
     },
     decorators: [
         (Story) => (
@@ -30,6 +32,12 @@ type Story = StoryObj<typeof meta>;
 
 export const Loaded = {} satisfies Story;
 
+export const WithRemoteLinks = {
+    args: {
+        details: commitDetailsWithRemoteLinks,
+    },
+} satisfies Story;
+
 export const Loading = {
     args: {
         details: undefined,
@@ -10,13 +10,19 @@ interface CommitDetailsPanelProps {
     readonly loading: boolean;
     readonly onClose: () => void;
     readonly onDiff: (file: CommitFileChange) => void;
+    readonly onBlame?: (file: CommitFileChange) => void;
+    readonly onOpenLink: (url: string) => void;
 }
 
-export function CommitDetailsPanel({ style, details, loading, onClose, onDiff }: CommitDetailsPanelProps) {
+export function CommitDetailsPanel({ style, details, loading, onClose, onDiff, onBlame, onOpenLink }: CommitDetailsPanelProps) {
     const title = details?.kind === 'worktree'
         ? details.branch ?? worktreeName(details.path ?? details.hash)
-        : details?.hash.slice(0, 8);
+        : details?.kind === 'stash' && details.stash
+            ? `stash@{${details.stash.index}}`
+            : details?.hash.slice(0, 8);
     const detailsKey = details ? `${details.kind}:${details.path ?? details.hash}` : undefined;
+    // Worktree and stash files are not at one revision, so only commit files can be blamed.
+    const blame = details?.kind === 'commit' ? onBlame : undefined;
 
     return (
         <GraphDetailsPanel
@@ -28,7 +34,7 @@ export function CommitDetailsPanel({ style, details, loading, onClose, onDiff }:
             onClose={onClose}
         >
             {details ? (
-                <CommitDetailsContent key={detailsKey} details={details} onDiff={onDiff} />
+                <CommitDetailsContent key={detailsKey} details={details} onDiff={onDiff} onBlame={blame} onOpenLink={onOpenLink} />
             ) : undefined}
         </GraphDetailsPanel>
     );
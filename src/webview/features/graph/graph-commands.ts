@@ -1,6 +1,8 @@
-import type { GraphContextTarget, GraphFilters, GraphPage } from '@protocol/graph/types';
-import type { BranchCommand, BranchDetailsRequest, CommitCommand, GraphDataRequest, GraphRepositoryCommand, GraphWebviewToExtensionMessage, LoadMoreGraphRequest, WorktreeCommand } from '@protocol/graph/messages';
+import type { GraphContextTarget, GraphFilters, GraphPage, GraphStashInfo, RebaseBackupInfo, TagInfo } from '@protocol/graph/types';
+import type { BranchCommand, BranchDetailsRequest, CommitCommand, GraphDataRequest, GraphRepositoryCommand, GraphWebviewToExtensionMessage, LoadMoreGraphRequest, RebaseBackupCommand, StashCommand, TagCommand, WorktreeCommand } from '@protocol/graph/messages';
 import type { RepositoryLocator, WorktreeLocator } from '@protocol/shared/repo';
+import type { BisectBannerCommand } from '@protocol/shared/bisect';
+import type { OperationPlanAcknowledgement } from '@protocol/shared/operation-plan';
 
 let requestCounter = 0;
 function nextRequestId(): string {
@@ -74,6 +76,16 @@ export function messageForWorktreeDetails(path: string, repository?: RepositoryL
     };
 }
 
+export function messageForStashDetails(stash: GraphStashInfo, repository?: RepositoryLocator): GraphWebviewToExtensionMessage {
+    return {
+        type: 'graph/stashDetailsRequest',
+        requestId: nextRequestId(),
+        index: stash.index,
+        hash: stash.hash,
+        ...repositoryProperty(repository),
+    };
+}
+
 export function messageForBranchCheckout(branch: string, isRemote: boolean, repository?: RepositoryLocator): GraphWebviewToExtensionMessage {
     return messageForBranchCommand('checkout', branch, isRemote, repository);
 }
@@ -123,6 +135,15 @@ export function messageForGraphRepositoryCommand(command: GraphRepositoryCommand
     };
 }
 
+export function messageForOpenBlame(filePath: string, commitHash: string, repository?: RepositoryLocator): GraphWebviewToExtensionMessage {
+    return {
+        type: 'graph/openBlame',
+        filePath,
+        commitHash,
+        ...repositoryProperty(repository),
+    };
+}
+
 export function messageForOpenDiff(
     filePath: string,
     commitHash: string,
@@ -176,3 +197,49 @@ function repositoryProperty(repository: RepositoryLocator | undefined): { readon
 function worktreeProperty(worktree: WorktreeLocator | undefined): { readonly worktree: WorktreeLocator } | Record<string, never> {
     return worktree ? { worktree } : {};
 }
+
+export function messageForGraphBisectCommand(command: BisectBannerCommand, repository?: RepositoryLocator): GraphWebviewToExtensionMessage {
+    return {
+        type: 'graph/bisectCommand',
+        command,
+        ...repositoryProperty(repository),
+    };
+}
+
+export function messageForRebaseBackupCommand(command: RebaseBackupCommand, backup: RebaseBackupInfo, repository?: RepositoryLocator): GraphWebviewToExtensionMessage {
+    return {
+        type: 'graph/rebaseBackupCommand',
+        command,
+        ref: backup.ref,
+        hash: backup.hash,
+        ...repositoryProperty(repository),
+    };
+}
+
+export function messageForTagCommand(command: TagCommand, tag: TagInfo, repository?: RepositoryLocator): GraphWebviewToExtensionMessage {
+    return {
+        type: 'graph/tagCommand',
+        command,
+        tag: tag.name,
+        hash: tag.hash,
+        ...repositoryProperty(repository),
+    };
+}
+
+export function messageForStashCommand(command: StashCommand, stash: GraphStashInfo, repository?: RepositoryLocator): GraphWebviewToExtensionMessage {
+    return {
+        type: 'graph/stashCommand',
+        command,
+        index: stash.index,
+        hash: stash.hash,
+        ...repositoryProperty(repository),
+    };
+}
+
+export function messageForAcknowledgeOperationPlan(acknowledgement: OperationPlanAcknowledgement): GraphWebviewToExtensionMessage {
+    return { type: 'graph/acknowledgeOperationPlan', acknowledgement };
+}
+
+export function messageForCancelOperationPlan(planId: string): GraphWebviewToExtensionMessage {
+    return { type: 'graph/cancelOperationPlan', planId };
+}
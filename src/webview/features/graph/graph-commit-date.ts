@@ -0,0 +1,18 @@
+/** `YYYY-MM-DD hh:mm:ss` in local time, as the graph's Date column shows it; unparsable dates are shown as given. */
+export function formatGraphCommitDate(iso: string): string {
+    const date = new Date(iso);
+    if (Number.isNaN(date.getTime())) { return iso; }
+    return [
+        date.getFullYear(),
+        twoDigits(date.getMonth() + 1),
+        twoDigits(date.getDate()),
+    ].join('-') + ' ' + [
+        twoDigits(date.getHours()),
+        twoDigits(date.getMinutes()),
+        twoDigits(date.getSeconds()),
+    ].join(':');
+}
+
+function twoDigits(value: number): string {
+    return String(value).padStart(2, '0');
+}
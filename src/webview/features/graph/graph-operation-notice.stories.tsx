@@ -1,6 +1,7 @@
 import type { Meta, StoryObj } from '@storybook/react-vite';
 import { graphOperation, noop } from '@webview/storybook-fixtures';
-import { OperationStatus } from '@protocol/shared/operation';
+import { OperationNoticeActionKind, OperationStatus } from '@protocol/shared/operation';
+import { GraphOperationCategory } from '@protocol/graph/messages';
 import { GraphOperationNotice } from '@webview/features/graph/graph-operation-notice';
 
 const meta = {
@@ -9,10 +10,12 @@ const meta = {
     args: {
         operation: graphOperation,
         onShowOutput: noop,
+        onUndo: noop,
         onDismiss: noop,
     },
     argTypes: {
         onShowOutput: { control: false },
+        onUndo: { control: false },
         onDismiss: { control: false },
     },
 } satisfies Meta<typeof GraphOperationNotice>;
@@ -31,3 +34,16 @@ export const Running = {
         },
     },
 } satisfies Story;
+
+export const Undoable = {
+    args: {
+        operation: {
+            ...graphOperation,
+            status: OperationStatus.Success,
+            category: GraphOperationCategory.Branch,
+            command: 'checkout',
+            target: 'feature/runtime',
+            actions: [OperationNoticeActionKind.Undo],
+        },
+    },
+} satisfies Story;
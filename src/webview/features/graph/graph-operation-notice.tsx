@@ -9,10 +9,11 @@ import { operationNoticeActions } from '@webview/shared/operation-notice-actions
 interface GraphOperationNoticeProps {
     readonly operation: GraphOperationStatusPush | undefined;
     readonly onShowOutput: () => void;
+    readonly onUndo: () => void;
     readonly onDismiss: () => void;
 }
 
-export function GraphOperationNotice({ operation, onShowOutput, onDismiss }: GraphOperationNoticeProps) {
+export function GraphOperationNotice({ operation, onShowOutput, onUndo, onDismiss }: GraphOperationNoticeProps) {
     if (!operation) { return null; }
     return (
         <OperationNotice
@@ -20,7 +21,7 @@ export function GraphOperationNotice({ operation, onShowOutput, onDismiss }: Gra
             message={operationText(operation)}
             actions={operationNoticeActions(
                 operation.actions,
-                { onShowOutput, onDismiss },
+                { onShowOutput, onUndo, onDismiss },
                 { dismissible: isPersistentOperationNotice(operation.status) },
             )}
         />
@@ -116,6 +117,8 @@ function commitOperationLabel(command: string, target: string): string {
         case 'pushAllUpToHere': return `push commits up to${target}`;
         case 'newBranch': return `create branch from${target}`;
         case 'newTag': return `create tag at${target}`;
+        case 'editNote': return `edit note for${target}`;
+        case 'removeNote': return `remove note from${target}`;
         case 'newWorktreeFromCommit': return `create worktree from${target}`;
         default: return readableCommand(command) + target;
     }
@@ -4,6 +4,9 @@ import { getLaneDataMaxLane, type GraphRow } from '@webview/features/graph/layou
 import { GraphLaneCell, LANE_WIDTH } from '@webview/features/graph/graph-lane-cell';
 import { RefBadge } from '@webview/features/graph/ref-badge';
 import { parseRefs } from '@webview/features/graph/ref-model';
+import { bisectMarkerLabel, type BisectMarker } from '@webview/features/graph/bisect-marker';
+import { SignatureBadge } from '@webview/shared/signature-badge';
+import { formatGraphCommitDate } from '@webview/features/graph/graph-commit-date';
 
 export type CommitSelectMode = 'replace' | 'toggle' | 'range';
 
@@ -16,6 +19,8 @@ interface GraphRowProps {
     readonly canUndoCommit: boolean;
     readonly canCherryPick: boolean;
     readonly hasMultipleSelectedCommits: boolean;
+    readonly bisectInProgress?: boolean;
+    readonly bisectMarker?: BisectMarker;
     readonly rowHeight?: number;
     readonly style: CSSProperties;
     readonly onSelect: (hash: string, mode: CommitSelectMode) => void;
@@ -24,7 +29,7 @@ interface GraphRowProps {
     readonly onMoveFocus: (currentHash: string, direction: 'previous' | 'next', mode?: CommitSelectMode) => void;
 }
 
-export function GraphCommitRow({ row, branches, selected, childHash, parentHash, canUndoCommit, canCherryPick, hasMultipleSelectedCommits, rowHeight, style, onSelect, onOpenContextMenu, onBranchDoubleClick, onMoveFocus }: GraphRowProps) {
+export function GraphCommitRow({ row, branches, selected, childHash, parentHash, canUndoCommit, canCherryPick, hasMultipleSelectedCommits, bisectInProgress = false, bisectMarker, rowHeight, style, onSelect, onOpenContextMenu, onBranchDoubleClick, onMoveFocus }: GraphRowProps) {
     const { commit, laneData } = row;
     const refs = parseRefs(commit.refs, branches);
     const disabledReasons = graphCommitDisabledReasons({ canCherryPick, canUndoCommit, hasMultipleSelectedCommits, childHash, parentHash });
@@ -50,6 +55,7 @@ export function GraphCommitRow({ row, branches, selected, childHash, parentHash,
                 graphCommitCanCherryPick: canCherryPick,
                 graphCommitCanSquash: hasMultipleSelectedCommits,
                 graphCommitHasMultipleSelectedCommits: hasMultipleSelectedCommits,
+                graphBisectInProgress: bisectInProgress,
                 graphCommitDisabledReason: disabledReasons.join('\n'),
                 preventDefaultContextMenuItems: true,
             })}
@@ -83,6 +89,11 @@ export function GraphCommitRow({ row, branches, selected, childHash, parentHash,
                 <GraphLaneCell laneData={laneData} merge={commit.parentHashes.length > 1} rowHeight={rowHeight} />
             </div>
             <div className="graph-message-cell">
+                {bisectMarker && (
+                    <span className={`graph-bisect-marker graph-bisect-marker-${bisectMarker}`} title={`Bisect: ${bisectMarkerLabel(bisectMarker)}`}>
+                        {bisectMarkerLabel(bisectMarker)}
+                    </span>
+                )}
                 {refs.map((ref) => (
                     <RefBadge
                         key={ref.fullRef}
@@ -92,6 +103,7 @@ export function GraphCommitRow({ row, branches, selected, childHash, parentHash,
                             : undefined}
                     />
                 ))}
+                <SignatureBadge signature={commit.signature} />
                 <span className="graph-message-text">{commit.message}</span>
             </div>
             <div className="graph-author-cell" title={`${commit.authorName} <${commit.authorEmail}>`}>
@@ -102,24 +114,6 @@ export function GraphCommitRow({ row, branches, selected, childHash, parentHash,
     );
 }
 
-function formatGraphCommitDate(iso: string): string {
-    const date = new Date(iso);
-    if (Number.isNaN(date.getTime())) { return iso; }
-    return [
-        date.getFullYear(),
-        twoDigits(date.getMonth() + 1),
-        twoDigits(date.getDate()),
-    ].join('-') + ' ' + [
-        twoDigits(date.getHours()),
-        twoDigits(date.getMinutes()),
-        twoDigits(date.getSeconds()),
-    ].join(':');
-}
-
-function twoDigits(value: number): string {
-    return String(value).padStart(2, '0');
-}
-
 function graphCommitDisabledReasons(input: {
     readonly canCherryPick: boolean;
     readonly canUndoCommit: boolean;
@@ -4,6 +4,7 @@ import {
     commitDetails,
     graphOperation,
     graphRows,
+    graphStash,
     graphSubmodules,
     noop,
     worktrees,
@@ -41,11 +42,12 @@ function GraphScenario({ loadingMore = false }: { readonly loadingMore?: boolean
                 <GraphOperationNotice
                     operation={graphOperation}
                     onShowOutput={noop}
+                    onUndo={noop}
                     onDismiss={noop}
                 />
                 <GraphTable
                     rows={graphRows}
-                    displayRows={buildDisplayRows(graphRows, [worktreeWip])}
+                    displayRows={buildDisplayRows(graphRows, [worktreeWip], [graphStash])}
                     branches={branches}
                     selectedHashes={[graphRows[0].commit.hash, graphRows[1].commit.hash]}
                     selectedWorktreePath={worktreeWip.path}
@@ -65,6 +67,7 @@ function GraphScenario({ loadingMore = false }: { readonly loadingMore?: boolean
                 loading={false}
                 onClose={noop}
                 onDiff={noop}
+                onOpenLink={noop}
             />
         </div>
     );
@@ -0,0 +1,47 @@
+import type { Meta, StoryObj } from '@storybook/react-vite';
+import { graphRows, graphStash, noop } from '@webview/storybook-fixtures';
+import { GraphStashRow } from '@webview/features/graph/graph-stash-row';
+
+const meta = {
+    title: 'Graph/GraphStashRow',
+    component: GraphStashRow,
+    args: {
+        stash: graphStash,
+        laneData: graphRows[1].laneData,
+        style: { height: 28 },
+        rowHeight: 28,
+        selected: false,
+        onSelect: noop,
+        onOpenContextMenu: noop,
+    },
+    argTypes: {
+        style: { control: false },
+        onSelect: { control: false },
+        onOpenContextMenu: { control: false },
+    },
+    decorators: [
+        (Story) => (
+            <div className="storybook-surface graph-table">
+                <Story />
+            </div>
+        ),
+    ],
+} satisfies Meta<typeof GraphStashRow>;
+
+export default meta;
+
+type Story = StoryObj<typeof meta>;
+
+export const WithUntrackedFiles = {} satisfies Story;
+
+export const TrackedChangesOnly = {
+    args: {
+        stash: { ...graphStash, untrackedHash: undefined },
+    },
+} satisfies Story;
+
+export const Selected = {
+    args: {
+        selected: true,
+    },
+} satisfies Story;
@@ -0,0 +1,75 @@
+import type { CSSProperties } from 'react';
+import type { GraphStashInfo } from '@protocol/graph/types';
+import { getLaneDataMaxLane, type LaneData } from '@webview/features/graph/layout/graph-lane-model';
+import { GraphLaneCell, LANE_WIDTH } from '@webview/features/graph/graph-lane-cell';
+import { formatGraphCommitDate } from '@webview/features/graph/graph-commit-date';
+
+interface GraphStashRowProps {
+    readonly stash: GraphStashInfo;
+    readonly laneData: LaneData;
+    readonly style: CSSProperties;
+    readonly rowHeight?: number;
+    readonly selected: boolean;
+    readonly onSelect: (hash: string) => void;
+    readonly onOpenContextMenu: (stash: GraphStashInfo) => void;
+}
+
+export function GraphStashRow({ stash, laneData, style, rowHeight, selected, onSelect, onOpenContextMenu }: GraphStashRowProps) {
+    const ref = `stash@{${stash.index}}`;
+    const messageOffset = (getLaneDataMaxLane(laneData) + 1) * LANE_WIDTH + 4;
+    const rowStyle: CSSProperties & { readonly '--graph-row-message-offset': string } = {
+        ...style,
+        '--graph-row-message-offset': `${messageOffset}px`,
+    };
+    return (
+        <div
+            className="graph-row graph-row-wip graph-row-stash"
+            style={rowStyle}
+            tabIndex={0}
+            title={`${ref}: ${stash.message}`}
+            role="button"
+            aria-selected={selected}
+            data-vscode-context={JSON.stringify({
+                webviewSection: 'graphStash',
+                preventDefaultContextMenuItems: true,
+            })}
+            onClick={() => onSelect(stash.hash)}
+            onMouseDown={(event) => {
+                if (event.button === 2) { onOpenContextMenu(stash); }
+            }}
+            onContextMenu={() => onOpenContextMenu(stash)}
+            onKeyDown={(e) => {
+                if (e.key === 'Enter' || e.key === ' ') {
+                    e.preventDefault();
+                    onSelect(stash.hash);
+                }
+            }}
+        >
+            <div className="graph-lane-cell">
+                <GraphLaneCell laneData={laneData} wip rowHeight={rowHeight} />
+            </div>
+            <div className="graph-message-cell graph-wip-message">
+                <span className="wip-label stash-label">Stash</span>
+                <span className="graph-message-text">{stash.message}</span>
+                <span className="wip-stats">
+                    {stash.indexHash && (
+                        <span className="stash-parent" title={`Index commit ${stash.indexHash}`}>
+                            index {stash.indexHash.slice(0, 7)}
+                        </span>
+                    )}
+                    {stash.untrackedHash && (
+                        <span className="stash-parent wip-untracked" title={`Untracked files commit ${stash.untrackedHash}`}>
+                            untracked {stash.untrackedHash.slice(0, 7)}
+                        </span>
+                    )}
+                </span>
+            </div>
+            <div className="graph-author-cell graph-wip-path" title={stash.hash}>
+                {ref}
+            </div>
+            <div className="graph-date-cell wip-date-cell" title={stash.date}>
+                {stash.date ? formatGraphCommitDate(stash.date) : ''}
+            </div>
+        </div>
+    );
+}
@@ -1,8 +1,11 @@
 import type { GraphExtensionToWebviewMessage, GraphOperationStatusPush } from '@protocol/graph/messages';
-import type { BranchDetails, BranchInfo, CommitFileChange, GraphCommit, GraphData, GraphFilters, GraphSubmoduleInfo, TagInfo, WorktreeInfo, WorktreeWip } from '@protocol/graph/types';
+import type { BranchDetails, BranchInfo, CommitFileChange, GraphCommit, GraphData, GraphFilters, GraphStashInfo, GraphSubmoduleInfo, RebaseBackupInfo, TagInfo, WorktreeInfo, WorktreeWip } from '@protocol/graph/types';
 import type { ProtocolError, Resource } from '@protocol/shared/base';
+import type { BisectStatus } from '@protocol/shared/bisect';
+import type { CommitMessageLink, CommitNote, CommitSignature } from '@protocol/shared/commit';
+import type { OperationPlanPrompt } from '@protocol/shared/operation-plan';
 import type { RepositoryLocator, RepositorySummary } from '@protocol/shared/repo';
-import { branchesEqual, graphCommitsEqual, graphSubmodulesEqual, tagsEqual, worktreesEqual, worktreeWipsEqual as protocolWorktreeWipsEqual } from '@protocol/shared/protocol-data-equality';
+import { bisectStatusEqual, branchesEqual, graphCommitsEqual, graphStashesEqual, graphSubmodulesEqual, rebaseBackupsEqual, tagsEqual, worktreesEqual, worktreeWipsEqual as protocolWorktreeWipsEqual } from '@protocol/shared/protocol-data-equality';
 import { mainGraphRepositorySelection, sameRepositoryLocator, submoduleGraphRepositorySelection, type GraphRepositorySelection } from '@webview/features/graph/graph-repository-selection';
 import type { GraphRow, LaneData, LineDef } from '@webview/features/graph/layout/graph-lane-model';
 import { layoutGraphRowsV4, type GraphLayoutStateV4 } from '@webview/features/graph/layout/layout-graph-rows-v4';
@@ -11,19 +14,26 @@ import { nextOperationStatus } from '@webview/shared/operation-state';
 
 export type DisplayRow =
     | { readonly kind: 'commit'; readonly row: GraphRow }
-    | { readonly kind: 'wip'; readonly wip: WorktreeWip; readonly laneData: LaneData };
+    | { readonly kind: 'wip'; readonly wip: WorktreeWip; readonly laneData: LaneData }
+    | { readonly kind: 'stash'; readonly stash: GraphStashInfo; readonly laneData: LaneData };
 
-export function buildDisplayRows(rows: readonly GraphRow[], wips: readonly WorktreeWip[]): readonly DisplayRow[] {
-    const wipsByHead = groupWipsByHead(wips);
+/** Commit rows with WIP rows, then stash rows, above the commit they were made on; stashes on commits not loaded are left out. */
+export function buildDisplayRows(rows: readonly GraphRow[], wips: readonly WorktreeWip[], stashes: readonly GraphStashInfo[] = []): readonly DisplayRow[] {
+    const wipsByHead = groupByHash(wips, (wip) => wip.head);
+    const stashesByBase = groupByHash(stashes, (stash) => stash.baseHash);
     const result: DisplayRow[] = wips
         .filter((wip) => isUnbornHead(wip.head))
         .map((wip) => ({ kind: 'wip', wip, laneData: unbornWipLaneData() }));
     for (const row of rows) {
         const rowWips = wipsByHead.get(row.commit.hash) ?? [];
+        const rowStashes = stashesByBase.get(row.commit.hash) ?? [];
         rowWips.forEach((wip, index) => {
             result.push({ kind: 'wip', wip, laneData: wipLaneData(row.laneData, index) });
         });
-        if (rowWips.length > 0) {
+        rowStashes.forEach((stash, index) => {
+            result.push({ kind: 'stash', stash, laneData: wipLaneData(row.laneData, rowWips.length + index) });
+        });
+        if (rowWips.length + rowStashes.length > 0) {
             result.push({ kind: 'commit', row: connectCommitFromWip(row) });
         } else {
             result.push({ kind: 'commit', row });
@@ -45,12 +55,12 @@ function unbornWipLaneData(): LaneData {
     };
 }
 
-function groupWipsByHead(wips: readonly WorktreeWip[]): ReadonlyMap<string, readonly WorktreeWip[]> {
-    const groups = new Map<string, WorktreeWip[]>();
-    for (const wip of wips) {
-        const group = groups.get(wip.head) ?? [];
-        group.push(wip);
-        groups.set(wip.head, group);
+function groupByHash<T>(items: readonly T[], hashOf: (item: T) => string): ReadonlyMap<string, readonly T[]> {
+    const groups = new Map<string, T[]>();
+    for (const item of items) {
+        const group = groups.get(hashOf(item)) ?? [];
+        group.push(item);
+        groups.set(hashOf(item), group);
     }
     return groups;
 }
@@ -88,12 +98,17 @@ function connectCommitFromWip(row: GraphRow): GraphRow {
 }
 
 export interface CommitDetails {
-    readonly kind: 'commit' | 'worktree';
+    readonly kind: 'commit' | 'worktree' | 'stash';
     readonly hash: string;
     readonly fullMessage: string;
     readonly files: readonly CommitFileChange[];
     readonly path?: string;
     readonly branch?: string;
+    readonly webUrl?: string;
+    readonly messageLinks?: readonly CommitMessageLink[];
+    readonly signature?: CommitSignature;
+    readonly notes?: readonly CommitNote[];
+    readonly stash?: GraphStashInfo;
 }
 
 export interface GraphState {
@@ -108,9 +123,16 @@ export interface GraphState {
     readonly tags: readonly TagInfo[];
     readonly worktrees: readonly WorktreeInfo[];
     readonly submodules: readonly GraphSubmoduleInfo[];
+    readonly rebaseBackups: readonly RebaseBackupInfo[];
+    readonly stashes: readonly GraphStashInfo[];
+    /** Stash rows are drawn in the graph. */
+    readonly showStashes: boolean;
     readonly currentBranch: string;
     readonly currentUser: string;
     readonly hasRemotes: boolean;
+    /** Repository page on its hosting service; enables the Open on Remote menu items. */
+    readonly repositoryWebUrl: string | undefined;
+    readonly bisect: BisectStatus | undefined;
     readonly hasMore: boolean;
     readonly loadedCount: number;
     readonly filters: GraphFilters;
@@ -119,6 +141,7 @@ export interface GraphState {
     readonly error: ProtocolError | undefined;
     readonly selectedHash: string | undefined;
     readonly selectedWorktreePath: string | undefined;
+    readonly selectedStashHash: string | undefined;
     readonly selectedBranchDetailsName: string | undefined;
     readonly selectedHashes: readonly string[];
     readonly selectionAnchorHash: string | undefined;
@@ -133,6 +156,7 @@ export interface GraphState {
     readonly refreshVersion: number;
     readonly activeGraphRequestId: string | undefined;
     readonly operationStatus: GraphOperationStatusPush | undefined;
+    readonly operationPlan: OperationPlanPrompt | undefined;
 }
 
 export type GraphAction =
@@ -143,6 +167,8 @@ export type GraphAction =
     | { readonly type: 'selectSubmodule'; readonly submodulePath: string; readonly submoduleLabel: string; readonly repository?: RepositoryLocator }
     | { readonly type: 'selectCommit'; readonly hash: string }
     | { readonly type: 'selectWorktree'; readonly path: string }
+    | { readonly type: 'selectStash'; readonly hash: string }
+    | { readonly type: 'toggleStashes' }
     | { readonly type: 'selectBranchDetails'; readonly branch: string }
     | { readonly type: 'startBranchDetailsRequest'; readonly requestId: string; readonly offset: number }
     | { readonly type: 'toggleCommitSelection'; readonly hash: string }
@@ -150,6 +176,7 @@ export type GraphAction =
     | { readonly type: 'clearSelection' }
     | { readonly type: 'clearError' }
     | { readonly type: 'clearOperationStatus'; readonly operationId: string }
+    | { readonly type: 'closeOperationPlan'; readonly planId: string }
     | { readonly type: 'clearFilters' }
     | { readonly type: 'refreshRequested' }
     | { readonly type: 'startLoadMore' }
@@ -168,9 +195,14 @@ export function createInitialGraphState(): GraphState {
         tags: [],
         worktrees: [],
         submodules: [],
+        rebaseBackups: [],
+        stashes: [],
+        showStashes: true,
         currentBranch: '',
         currentUser: '',
         hasRemotes: false,
+        repositoryWebUrl: undefined,
+        bisect: undefined,
         hasMore: false,
         loadedCount: 0,
         filters: {},
@@ -179,6 +211,7 @@ export function createInitialGraphState(): GraphState {
         error: undefined,
         selectedHash: undefined,
         selectedWorktreePath: undefined,
+        selectedStashHash: undefined,
         selectedBranchDetailsName: undefined,
         selectedHashes: [],
         selectionAnchorHash: undefined,
@@ -193,6 +226,7 @@ export function createInitialGraphState(): GraphState {
         refreshVersion: 0,
         activeGraphRequestId: graphRequestId(0, 'replace'),
         operationStatus: undefined,
+        operationPlan: undefined,
     };
 }
 
@@ -225,6 +259,7 @@ export function reduceGraphState(state: GraphState, action: GraphAction): GraphS
                 filters: { ...state.filters, branches: undefined },
                 selectedHash: undefined,
                 selectedWorktreePath: undefined,
+                selectedStashHash: undefined,
                 selectedBranchDetailsName: undefined,
                 selectedHashes: [],
                 selectionAnchorHash: undefined,
@@ -244,6 +279,7 @@ export function reduceGraphState(state: GraphState, action: GraphAction): GraphS
                 filters: { ...state.filters, branches: undefined },
                 selectedHash: undefined,
                 selectedWorktreePath: undefined,
+                selectedStashHash: undefined,
                 selectedBranchDetailsName: undefined,
                 selectedHashes: [],
                 selectionAnchorHash: undefined,
@@ -258,6 +294,10 @@ export function reduceGraphState(state: GraphState, action: GraphAction): GraphS
             return selectCommit(state, action.hash, [action.hash], action.hash);
         case 'selectWorktree':
             return selectWorktree(state, action.path);
+        case 'selectStash':
+            return selectStash(state, action.hash);
+        case 'toggleStashes':
+            return toggleStashes(state);
         case 'selectBranchDetails':
             return selectBranchDetails(state, action.branch);
         case 'startBranchDetailsRequest':
@@ -280,6 +320,8 @@ export function reduceGraphState(state: GraphState, action: GraphAction): GraphS
             return state.operationStatus?.operationId === action.operationId
                 ? { ...state, operationStatus: undefined }
                 : state;
+        case 'closeOperationPlan':
+            return state.operationPlan?.planId === action.planId ? { ...state, operationPlan: undefined } : state;
         case 'navigateRepository':
             return resetForRepositoryNavigation(state, action.contextId);
         case 'clearFilters':
@@ -304,6 +346,7 @@ function selectCommit(state: GraphState, hash: string, hashes: readonly string[]
         ...state,
         selectedHash: hash,
         selectedWorktreePath: undefined,
+        selectedStashHash: undefined,
         selectedBranchDetailsName: undefined,
         selectedHashes: nextHashes,
         selectionAnchorHash: anchorHash,
@@ -321,6 +364,7 @@ function selectWorktree(state: GraphState, path: string): GraphState {
         ...state,
         selectedHash: undefined,
         selectedWorktreePath: path,
+        selectedStashHash: undefined,
         selectedBranchDetailsName: undefined,
         selectedHashes: [],
         selectionAnchorHash: undefined,
@@ -333,12 +377,41 @@ function selectWorktree(state: GraphState, path: string): GraphState {
     };
 }
 
+function selectStash(state: GraphState, hash: string): GraphState {
+    return {
+        ...state,
+        selectedHash: undefined,
+        selectedWorktreePath: undefined,
+        selectedStashHash: hash,
+        selectedBranchDetailsName: undefined,
+        selectedHashes: [],
+        selectionAnchorHash: undefined,
+        detailsLoading: hash !== state.selectedStashHash || state.commitDetails === undefined,
+        commitDetails: hash === state.selectedStashHash ? state.commitDetails : undefined,
+        branchDetails: undefined,
+        branchDetailsLoadingMore: false,
+        activeBranchDetailsRequestId: undefined,
+        activeBranchDetailsRequestOffset: undefined,
+    };
+}
+
+function toggleStashes(state: GraphState): GraphState {
+    const showStashes = !state.showStashes;
+    const next = {
+        ...state,
+        showStashes,
+        displayRows: buildDisplayRows(state.rows, displayedWorktreeWips(state.displayRows), showStashes ? state.stashes : []),
+    };
+    return !showStashes && state.selectedStashHash ? clearDetailsSelection(next) : next;
+}
+
 function selectBranchDetails(state: GraphState, branch: string): GraphState {
     const sameBranch = state.selectedBranchDetailsName === branch;
     return {
         ...state,
         selectedHash: undefined,
         selectedWorktreePath: undefined,
+        selectedStashHash: undefined,
         selectedBranchDetailsName: branch,
         selectedHashes: [],
         selectionAnchorHash: undefined,
@@ -356,6 +429,7 @@ function clearDetailsSelection(state: GraphState): GraphState {
         ...state,
         selectedHash: undefined,
         selectedWorktreePath: undefined,
+        selectedStashHash: undefined,
         selectedBranchDetailsName: undefined,
         selectedHashes: [],
         selectionAnchorHash: undefined,
@@ -378,7 +452,7 @@ function toggleCommitSelection(state: GraphState, hash: string): GraphState {
     const selectedHashes = Array.from(selected);
     const selectedHash = selected.has(hash) ? hash : selectedHashes.at(-1);
     if (!selectedHash) {
-        return { ...state, selectedHash: undefined, selectedWorktreePath: undefined, selectedHashes, selectionAnchorHash: undefined, commitDetails: undefined, detailsLoading: false };
+        return { ...state, selectedHash: undefined, selectedWorktreePath: undefined, selectedStashHash: undefined, selectedHashes, selectionAnchorHash: undefined, commitDetails: undefined, detailsLoading: false };
     }
     return selectCommit(state, selectedHash, selectedHashes, hash);
 }
@@ -406,6 +480,10 @@ function reduceMessage(state: GraphState, message: GraphExtensionToWebviewMessag
                     hash: message.hash,
                     fullMessage: message.fullMessage,
                     files: message.files,
+                    ...(message.webUrl ? { webUrl: message.webUrl } : {}),
+                    ...(message.messageLinks ? { messageLinks: message.messageLinks } : {}),
+                    ...(message.signature ? { signature: message.signature } : {}),
+                    ...(message.notes ? { notes: message.notes } : {}),
                 },
             };
         case 'graph/worktreeDetailsResponse':
@@ -422,6 +500,21 @@ function reduceMessage(state: GraphState, message: GraphExtensionToWebviewMessag
                     branch: message.branch,
                 },
             };
+        case 'graph/stashDetailsResponse': {
+            const stash = state.stashes.find((candidate) => candidate.hash === message.hash);
+            if (!stash || message.hash !== state.selectedStashHash) { return state; }
+            return {
+                ...state,
+                detailsLoading: false,
+                commitDetails: {
+                    kind: 'stash',
+                    hash: message.hash,
+                    fullMessage: stash.message,
+                    files: message.files,
+                    stash,
+                },
+            };
+        }
         case 'graph/branchDetailsResponse':
             if (message.requestId !== state.activeBranchDetailsRequestId
                 || message.details.name !== state.selectedBranchDetailsName) { return state; }
@@ -451,6 +544,8 @@ function reduceMessage(state: GraphState, message: GraphExtensionToWebviewMessag
             return selectWorktree(state, message.path);
         case 'graph/operationStatus':
             return reduceGraphOperationStatus(state, message);
+        case 'graph/operationPlan':
+            return { ...state, operationPlan: message.plan };
         case 'graph/error':
             if (isExpectedGraphError(state, message.requestId)) {
                 return message.requestId
@@ -561,7 +656,7 @@ function isExpectedGraphError(state: GraphState, requestId: string | undefined):
     return state.activeGraphRequestId === requestId;
 }
 
-const DETAILS_OPERATIONS = new Set(['graph/branchDetailsRequest', 'graph/commitDetailsRequest', 'graph/worktreeDetailsRequest']);
+const DETAILS_OPERATIONS = new Set(['graph/branchDetailsRequest', 'graph/commitDetailsRequest', 'graph/stashDetailsRequest', 'graph/worktreeDetailsRequest']);
 
 function isDetailsError(error: ProtocolError): boolean {
     return Boolean(error.operation) && DETAILS_OPERATIONS.has(error.operation!);
@@ -608,9 +703,12 @@ function applyGraphData(state: GraphState, data: GraphData, repoId: string | und
         previous: appending ? state.layoutState : undefined,
     });
     const rows = layoutState.rows;
-    const displayRows = buildDisplayRows(rows, data.worktreeWips ?? []);
+    const stashes = data.stashes ?? [];
+    const displayRows = buildDisplayRows(rows, data.worktreeWips ?? [], state.showStashes ? stashes : []);
     const branchDetailsAvailable = !state.selectedBranchDetailsName
         || data.branches.some((branch) => branch.name === state.selectedBranchDetailsName);
+    const stashDetailsAvailable = !state.selectedStashHash
+        || stashes.some((stash) => stash.hash === state.selectedStashHash);
     return {
         ...state,
         rows,
@@ -620,10 +718,14 @@ function applyGraphData(state: GraphState, data: GraphData, repoId: string | und
         tags: data.tags,
         worktrees: data.worktrees,
         submodules,
+        rebaseBackups: data.rebaseBackups ?? [],
+        stashes,
         repository,
         currentBranch,
         currentUser: data.currentUser,
         hasRemotes: data.hasRemotes,
+        repositoryWebUrl: data.repositoryWebUrl,
+        bisect: data.bisect,
         hasMore: data.hasMore,
         loadedCount: Math.max(data.loadedCount, commits.length),
         loading: false,
@@ -632,6 +734,7 @@ function applyGraphData(state: GraphState, data: GraphData, repoId: string | und
         repoId: repoId ?? state.repoId,
         activeGraphRequestId: undefined,
         ...(branchDetailsAvailable ? {} : clearedBranchDetailsState()),
+        ...(stashDetailsAvailable ? {} : { selectedStashHash: undefined, commitDetails: undefined, detailsLoading: false }),
     };
 }
 
@@ -681,8 +784,12 @@ function clearGraphContent(state: GraphState): GraphState {
         tags: [],
         worktrees: [],
         submodules: [],
+        rebaseBackups: [],
+        stashes: [],
         currentBranch: '',
         hasRemotes: false,
+        repositoryWebUrl: undefined,
+        bisect: undefined,
         hasMore: false,
         loadedCount: 0,
     };
@@ -727,12 +834,16 @@ function graphDataMatchesState(state: GraphState, data: GraphData, submodules: r
         && state.currentBranch === data.currentBranch
         && state.currentUser === data.currentUser
         && state.hasRemotes === data.hasRemotes
+        && state.repositoryWebUrl === data.repositoryWebUrl
+        && bisectStatusEqual(state.bisect, data.bisect)
         && state.hasMore === data.hasMore
         && state.loadedCount === data.loadedCount
         && graphCommitsEqual(state.rows.map((row) => row.commit), data.commits)
         && branchesEqual(state.branches, data.branches)
         && tagsEqual(state.tags, data.tags)
         && worktreesEqual(state.worktrees, data.worktrees)
+        && rebaseBackupsEqual(state.rebaseBackups, data.rebaseBackups ?? [])
+        && graphStashesEqual(state.stashes, data.stashes ?? [])
         && worktreeWipsEqual(state.displayRows, data.worktreeWips)
         && graphSubmodulesEqual(state.submodules, submodules);
 }
@@ -778,8 +889,11 @@ function hydrateKnownSubmodules(
 }
 
 function worktreeWipsEqual(displayRows: readonly DisplayRow[], wips: readonly WorktreeWip[]): boolean {
-    const currentWips = displayRows
+    return protocolWorktreeWipsEqual(displayedWorktreeWips(displayRows), wips);
+}
+
+function displayedWorktreeWips(displayRows: readonly DisplayRow[]): readonly WorktreeWip[] {
+    return displayRows
         .filter((displayRow): displayRow is Extract<DisplayRow, { readonly kind: 'wip' }> => displayRow.kind === 'wip')
         .map((displayRow) => displayRow.wip);
-    return protocolWorktreeWipsEqual(currentWips, wips);
 }
@@ -1,13 +1,16 @@
 import { useCallback, useEffect, useLayoutEffect, useMemo, useRef, useState } from 'react';
 import type { BranchInfo, GraphContextTarget } from '@protocol/graph/types';
+import type { BisectStatus } from '@protocol/shared/bisect';
 import type { GraphRow } from '@webview/features/graph/layout/graph-lane-model';
 import { GraphColumnHeader } from '@webview/features/graph/graph-column-header';
 import { sameResourcePath } from '@webview/shared/resource-path';
 import { GraphCommitRow, type CommitSelectMode } from '@webview/features/graph/graph-row';
 import { GraphWIPRow } from '@webview/features/graph/graph-wip-row';
+import { GraphStashRow } from '@webview/features/graph/graph-stash-row';
 import { ROW_HEIGHT, rowHeightForFontSize } from '@webview/features/graph/graph-row-sizing';
 import { getVisibleGraphRowRange } from '@webview/features/graph/graph-virtualization';
 import type { DisplayRow } from '@webview/features/graph/graph-state';
+import { bisectMarkerFor } from '@webview/features/graph/bisect-marker';
 import {
     graphTableColumnStyle,
     readSavedGraphColumnWidths,
@@ -18,12 +21,15 @@ interface GraphTableProps {
     readonly rows: readonly GraphRow[];
     readonly displayRows: readonly DisplayRow[];
     readonly branches: readonly BranchInfo[];
+    readonly bisect?: BisectStatus;
     readonly selectedHashes: readonly string[];
     readonly selectedWorktreePath: string | undefined;
+    readonly selectedStashHash?: string;
     readonly hasMore: boolean;
     readonly loadingMore: boolean;
     readonly onSelectCommit: (hash: string, mode: CommitSelectMode) => void;
     readonly onSelectWorktree: (path: string) => void;
+    readonly onSelectStash?: (hash: string) => void;
     readonly onContextTarget: (target: GraphContextTarget) => void;
     readonly onLoadMore: () => void;
     readonly onBranchDoubleClick: (branch: string, isRemote: boolean) => void;
@@ -34,12 +40,15 @@ export function GraphTable({
     rows,
     displayRows,
     branches,
+    bisect,
     selectedHashes,
     selectedWorktreePath,
+    selectedStashHash,
     hasMore,
     loadingMore,
     onSelectCommit,
     onSelectWorktree,
+    onSelectStash = () => {},
     onContextTarget,
     onLoadMore,
     onBranchDoubleClick,
@@ -169,6 +178,20 @@ export function GraphTable({
                                     />
                                 );
                             }
+                            if (displayRow.kind === 'stash') {
+                                return (
+                                    <GraphStashRow
+                                        key={`stash:${displayRow.stash.hash}`}
+                                        stash={displayRow.stash}
+                                        laneData={displayRow.laneData}
+                                        style={rowStyle}
+                                        rowHeight={rowHeight}
+                                        selected={displayRow.stash.hash === selectedStashHash}
+                                        onSelect={onSelectStash}
+                                        onOpenContextMenu={(stash) => onContextTarget({ kind: 'stash', index: stash.index, hash: stash.hash })}
+                                    />
+                                );
+                            }
                             const { row } = displayRow;
                             const rowSelected = selectedHashSet.has(row.commit.hash);
                             const selectedCanCherryPick = selectedHashes.every((hash) => commitByHash.get(hash)?.canCherryPick ?? true);
@@ -183,6 +206,8 @@ export function GraphTable({
                                     canUndoCommit={rows[0]?.commit.hash === row.commit.hash}
                                     canCherryPick={rowSelected ? selectedCanCherryPick : row.commit.canCherryPick ?? true}
                                     hasMultipleSelectedCommits={rowSelected && selectedHashes.length > 1}
+                                    bisectInProgress={bisect !== undefined}
+                                    bisectMarker={bisectMarkerFor(row.commit.hash, bisect)}
                                     style={rowStyle}
                                     rowHeight={rowHeight}
                                     onSelect={onSelectCommit}
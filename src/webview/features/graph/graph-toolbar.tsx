@@ -7,9 +7,11 @@ interface GraphToolbarProps {
     readonly branches: readonly BranchInfo[];
     readonly selectedBranchFilter: string | undefined;
     readonly refreshing?: boolean;
+    readonly showStashes?: boolean;
     readonly onFiltersChange: (filters: Partial<GraphFilters>) => void;
     readonly onBranchFilterChange: (branch: string | undefined) => void;
     readonly onRefresh: () => void;
+    readonly onToggleStashes?: () => void;
 }
 
 export function GraphToolbar({
@@ -17,9 +19,11 @@ export function GraphToolbar({
     branches,
     selectedBranchFilter,
     refreshing = false,
+    showStashes = true,
     onFiltersChange,
     onBranchFilterChange,
     onRefresh,
+    onToggleStashes,
 }: GraphToolbarProps) {
     const searchRef = useRef<HTMLInputElement>(null);
 
@@ -68,6 +72,19 @@ export function GraphToolbar({
                 onChange={(e) => onFiltersChange({ path: e.currentTarget.value || undefined })}
             />
 
+            {onToggleStashes && (
+                <button
+                    type="button"
+                    className="graph-toolbar-btn"
+                    title={showStashes ? 'Hide Stashes' : 'Show Stashes'}
+                    aria-label="Show stashes"
+                    aria-pressed={showStashes}
+                    onClick={onToggleStashes}
+                >
+                    <i className="codicon codicon-git-stash" aria-hidden="true" />
+                </button>
+            )}
+
             <button
                 type="button"
                 className="graph-toolbar-btn"
@@ -2,14 +2,20 @@ import { HistoryCommitSelectionMode, type HistoryState } from '@webview/features
 import type { HistoryToolbarCommand } from '@protocol/history/messages';
 import { OperationStatus } from '@protocol/shared/operation';
 import type { HistoryCommit, HistoryCommitFile, HistoryContextTarget } from '@protocol/history/types';
+import type { OperationPlanAcknowledgement } from '@protocol/shared/operation-plan';
 import { CommitHistoryFileList } from '@webview/features/history/commit-history-file-list';
 import { CommitHistoryRow } from '@webview/features/history/commit-history-row';
-import { filterHistoryCommits, formatHistoryDate, historyEmptyLabel, parseCommitMessage, formatRelativeDate } from '@webview/features/history/history-model';
+import { filterHistoryCommits, formatHistoryDate, historyEmptyLabel, parseCommitMessage } from '@webview/features/history/history-model';
+import { formatRelativeDate } from '@webview/shared/relative-date';
 import { ErrorNotice } from '@webview/shared/error-notice';
 import { OperationNotice } from '@webview/shared/operation-notice';
+import { OperationPlanDialog } from '@webview/shared/operation-plan-dialog';
 import { operationNoticeActions } from '@webview/shared/operation-notice-actions';
 import { RepositoryNavigator } from '@webview/shared/repository-navigator';
 import { SearchInput } from '@webview/shared/search-input';
+import { CommitNotes } from '@webview/shared/commit-notes';
+import { CommitTrailerChips } from '@webview/shared/commit-trailer-chips';
+import { splitCommitTrailers } from '@webview/shared/commit-trailers';
 
 interface CommitHistoryAppProps {
     readonly state: HistoryState;
@@ -19,11 +25,15 @@ interface CommitHistoryAppProps {
     readonly onToggleCommit: (hash: string) => void;
     readonly onSelectCommit: (hash: string, mode: HistoryCommitSelectionMode, visibleHashes: readonly string[]) => void;
     readonly onOpenFileDiff: (hash: string, file: HistoryCommitFile) => void;
+    readonly onCompareWithWorkingFile?: (hash: string, file: HistoryCommitFile) => void;
+    readonly onBlameAtRevision?: (hash: string, file: HistoryCommitFile) => void;
     readonly onContextTarget: (target: HistoryContextTarget) => void;
     readonly onLoadMore: () => void;
     readonly onCopyHash: (hash: string) => void;
     readonly onShowOperationOutput?: () => void;
     readonly onDismissOperation?: () => void;
+    readonly onAcknowledgeOperationPlan?: (acknowledgement: OperationPlanAcknowledgement) => void;
+    readonly onCancelOperationPlan?: (planId: string) => void;
     readonly repositoryNavigatorEnabled?: boolean;
     readonly onRepositoryNavigate?: (contextId: string | undefined) => void;
     readonly onOpenRepositoryInNewWindow?: (contextId: string) => void;
@@ -37,11 +47,15 @@ export function CommitHistoryApp({
     onToggleCommit,
     onSelectCommit,
     onOpenFileDiff,
+    onCompareWithWorkingFile,
+    onBlameAtRevision,
     onContextTarget,
     onLoadMore,
     onCopyHash,
     onShowOperationOutput,
     onDismissOperation,
+    onAcknowledgeOperationPlan = noop,
+    onCancelOperationPlan = noop,
     repositoryNavigatorEnabled = true,
     onRepositoryNavigate = noop,
     onOpenRepositoryInNewWindow = noop,
@@ -145,9 +159,16 @@ export function CommitHistoryApp({
                                 <div className="history-item-expanded">
                                     <div className="history-item-meta">
                                         {(() => {
-                                            const { body } = parseCommitMessage(details?.fullMessage ?? commit.message);
-                                            return body ? <p className="history-item-body">{body}</p> : null;
+                                            const { body: message, trailers } = splitCommitTrailers(details?.fullMessage ?? commit.message);
+                                            const { body } = parseCommitMessage(message);
+                                            return (
+                                                <>
+                                                    {body ? <p className="history-item-body">{body}</p> : null}
+                                                    <CommitTrailerChips trailers={trailers} />
+                                                </>
+                                            );
                                         })()}
+                                        <CommitNotes notes={details?.notes} />
                                         <div className="history-item-info">
                                             <span className="history-item-author">{commit.authorName}</span>
                                             <span className="history-item-sep" aria-hidden="true">·</span>
@@ -168,6 +189,15 @@ export function CommitHistoryApp({
                                                 <i className="codicon codicon-copy" aria-hidden="true" />
                                             </button>
                                         </div>
+                                        {commit.file ? (
+                                            <HistoryFollowedFileActions
+                                                hash={commit.hash}
+                                                file={commit.file}
+                                                onOpenFileDiff={onOpenFileDiff}
+                                                onCompareWithWorkingFile={onCompareWithWorkingFile}
+                                                onBlameAtRevision={onBlameAtRevision}
+                                            />
+                                        ) : null}
                                     </div>
                                     <CommitHistoryFileList
                                         details={details}
@@ -209,10 +239,51 @@ export function CommitHistoryApp({
                     {content}
                 </RepositoryNavigator>
             ) : content}
+            <OperationPlanDialog plan={state.operationPlan} onConfirm={onAcknowledgeOperationPlan} onCancel={onCancelOperationPlan} />
         </main>
     );
 }
 
+interface HistoryFollowedFileActionsProps {
+    readonly hash: string;
+    readonly file: HistoryCommitFile;
+    readonly onOpenFileDiff: (hash: string, file: HistoryCommitFile) => void;
+    readonly onCompareWithWorkingFile: ((hash: string, file: HistoryCommitFile) => void) | undefined;
+    readonly onBlameAtRevision: ((hash: string, file: HistoryCommitFile) => void) | undefined;
+}
+
+function HistoryFollowedFileActions({ hash, file, onOpenFileDiff, onCompareWithWorkingFile, onBlameAtRevision }: HistoryFollowedFileActionsProps) {
+    return (
+        <div className="history-item-file-actions">
+            <button
+                type="button"
+                title={file.origPath ? `Compare ${file.origPath} with ${file.filePath}` : `Show changes to ${file.filePath}`}
+                onClick={() => onOpenFileDiff(hash, file)}
+            >
+                Open File Diff
+            </button>
+            {onCompareWithWorkingFile && file.status !== 'D' ? (
+                <button
+                    type="button"
+                    title={`Compare ${file.filePath} in this commit with the working file`}
+                    onClick={() => onCompareWithWorkingFile(hash, file)}
+                >
+                    Compare with Working File
+                </button>
+            ) : null}
+            {onBlameAtRevision && file.status !== 'D' ? (
+                <button
+                    type="button"
+                    title={`Blame ${file.filePath} as it was in this commit`}
+                    onClick={() => onBlameAtRevision(hash, file)}
+                >
+                    Blame at Revision
+                </button>
+            ) : null}
+        </div>
+    );
+}
+
 function historyOperationMessage(command: HistoryToolbarCommand, status: OperationStatus): string {
     const label = historyOperationLabel(command);
     switch (status) {
@@ -4,6 +4,7 @@ import { buildHistoryFileTree, type HistoryFileTreeNode } from '@webview/feature
 import { FileTypeIcon } from '@webview/shared/file-type-icon';
 import { FolderIcon } from '@webview/shared/folder-icon';
 import { iconKindForPath } from '@webview/shared/file-icon-model';
+import { LfsBadge } from '@webview/shared/lfs-badge';
 import { depthStyle } from '@webview/shared/view-styles';
 
 interface CommitHistoryFileListProps {
@@ -130,6 +131,7 @@ function CommitHistoryFileRow({
             <FileTypeIcon kind={file.isSubmodule ? 'file-type-git' : iconKindForPath(file.filePath)} />
             <span className="history-file-path" title={file.filePath}>{name}</span>
             {file.origPath ? <span className="history-file-original" title={file.origPath}>{file.origPath}</span> : null}
+            <LfsBadge isLfs={file.isLfs} />
         </>
     );
 
@@ -142,6 +144,7 @@ function CommitHistoryFileRow({
             data-vscode-context={JSON.stringify({
                 webviewSection: 'historyFile',
                 historyFileDiffable: true,
+                historyFileBlameable: file.status !== 'D' && !file.isSubmodule,
                 preventDefaultContextMenuItems: true,
             })}
             onClick={() => onOpenDiff(file)}
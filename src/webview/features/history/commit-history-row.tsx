@@ -1,8 +1,10 @@
 import type { KeyboardEvent, MouseEvent } from 'react';
 import type { HistoryCommit, HistoryCommitRef } from '@protocol/history/types';
-import { formatHistoryDate, formatRelativeDate } from '@webview/features/history/history-model';
+import { formatHistoryDate, historyFilePathLabel } from '@webview/features/history/history-model';
+import { formatRelativeDate } from '@webview/shared/relative-date';
 import { HistoryCommitSelectionMode } from '@webview/features/history/history-state';
 import { SelectionCheckbox } from '@webview/shared/selection-checkbox';
+import { SignatureBadge } from '@webview/shared/signature-badge';
 
 interface CommitHistoryRowProps {
     readonly commit: HistoryCommit;
@@ -79,6 +81,7 @@ export function CommitHistoryRow({ commit, expanded, selected, showSelectionChec
             <i className={`codicon codicon-chevron-${expanded ? 'down' : 'right'} history-row-chevron`} aria-hidden="true" />
             <span className="history-row-main">
                 <span className="history-row-title">
+                    <SignatureBadge signature={commit.signature} />
                     <span className="history-row-message">{commit.message}</span>
                     <span className="history-row-refs">
                         {commit.refs.map((ref) => <HistoryRefBadge key={`${ref.kind}:${ref.name}`} refInfo={ref} />)}
@@ -93,6 +96,14 @@ export function CommitHistoryRow({ commit, expanded, selected, showSelectionChec
                         {formatRelativeDate(commit.authorDate)}
                     </span>
                 </span>
+                {commit.file ? (
+                    <span
+                        className={`history-row-path${commit.file.status === 'R' ? ' history-row-path-renamed' : ''}`}
+                        title={historyFilePathLabel(commit.file)}
+                    >
+                        {historyFilePathLabel(commit.file)}
+                    </span>
+                ) : null}
             </span>
             <span className="history-row-hash">{commit.shortHash}</span>
         </div>
@@ -1,6 +1,7 @@
 import type { Pagination } from '@protocol/shared/base';
 import type { HistoryToolbarCommand, HistoryWebviewToExtensionMessage } from '@protocol/history/messages';
 import type { HistoryCommitFile, HistoryContextTarget } from '@protocol/history/types';
+import type { OperationPlanAcknowledgement } from '@protocol/shared/operation-plan';
 
 let requestCounter = 0;
 
@@ -44,6 +45,22 @@ export function messageForHistoryOpenDiff(commitHash: string, file: HistoryCommi
     };
 }
 
+export function messageForHistoryCompareWithWorkingFile(commitHash: string, file: HistoryCommitFile): HistoryWebviewToExtensionMessage {
+    return {
+        type: 'history/compareWithWorkingFile',
+        commitHash,
+        file,
+    };
+}
+
+export function messageForHistoryBlameAtRevision(commitHash: string, file: HistoryCommitFile): HistoryWebviewToExtensionMessage {
+    return {
+        type: 'history/blameAtRevision',
+        commitHash,
+        file,
+    };
+}
+
 export function messageForHistoryContextTarget(target: HistoryContextTarget): HistoryWebviewToExtensionMessage {
     return {
         type: 'history/contextTarget',
@@ -61,3 +78,11 @@ export function messageForHistoryToolbarCommand(command: HistoryToolbarCommand):
 export function messageForHistoryShowOutput(): HistoryWebviewToExtensionMessage {
     return { type: 'history/showOutput' };
 }
+
+export function messageForHistoryAcknowledgeOperationPlan(acknowledgement: OperationPlanAcknowledgement): HistoryWebviewToExtensionMessage {
+    return { type: 'history/acknowledgeOperationPlan', acknowledgement };
+}
+
+export function messageForHistoryCancelOperationPlan(planId: string): HistoryWebviewToExtensionMessage {
+    return { type: 'history/cancelOperationPlan', planId };
+}
@@ -1,4 +1,4 @@
-import type { HistoryCommit } from '@protocol/history/types';
+import type { HistoryCommit, HistoryCommitFile } from '@protocol/history/types';
 
 export function filterHistoryCommits(commits: readonly HistoryCommit[], query: string): readonly HistoryCommit[] {
     const normalized = query.trim().toLowerCase();
@@ -10,9 +10,20 @@ export function filterHistoryCommits(commits: readonly HistoryCommit[], query: s
         commit.authorName,
         commit.authorDate,
         ...commit.refs.map((ref) => ref.name),
+        ...historyFilePaths(commit.file),
     ].some((value) => value.toLowerCase().includes(normalized)));
 }
 
+/** Labels the followed file in a history row, showing both paths when the commit renamed it. */
+export function historyFilePathLabel(file: HistoryCommitFile): string {
+    return file.origPath && file.origPath !== file.filePath ? `${file.origPath} → ${file.filePath}` : file.filePath;
+}
+
+function historyFilePaths(file: HistoryCommitFile | undefined): readonly string[] {
+    if (!file) { return []; }
+    return file.origPath ? [file.origPath, file.filePath] : [file.filePath];
+}
+
 export function selectedHistoryCommit(commits: readonly HistoryCommit[], selectedHash: string | undefined): HistoryCommit | undefined {
     return commits.find((commit) => commit.hash === selectedHash);
 }
@@ -29,22 +40,6 @@ export function formatHistoryDate(iso: string): string {
     }).format(date);
 }
 
-export function formatRelativeDate(iso: string): string {
-    const date = new Date(iso);
-    if (Number.isNaN(date.getTime())) { return iso; }
-    const diffMs = Date.now() - date.getTime();
-    const minutes = Math.floor(diffMs / 60_000);
-    if (minutes < 1) { return 'just now'; }
-    if (minutes < 60) { return `${minutes}m ago`; }
-    const hours = Math.floor(minutes / 60);
-    if (hours < 24) { return `${hours}h ago`; }
-    const days = Math.floor(hours / 24);
-    if (days < 30) { return `${days}d ago`; }
-    const months = Math.floor(days / 30);
-    if (months < 12) { return `${months}mo ago`; }
-    return `${Math.floor(months / 12)}y ago`;
-}
-
 export function parseCommitMessage(fullMessage: string): { subject: string; body: string } {
     const idx = fullMessage.indexOf('\n\n');
     if (idx === -1) { return { subject: fullMessage.trim(), body: '' }; }
@@ -1,6 +1,7 @@
 import type { HistoryExtensionToWebviewMessage, HistoryOperationStatusPush } from '@protocol/history/messages';
 import type { HistoryCommit, HistoryCommitDetails, HistoryData } from '@protocol/history/types';
 import type { ProtocolError, Resource } from '@protocol/shared/base';
+import type { OperationPlanPrompt } from '@protocol/shared/operation-plan';
 import type { RepositorySummary } from '@protocol/shared/repo';
 import { nextOperationStatus } from '@webview/shared/operation-state';
 
@@ -19,6 +20,7 @@ export interface HistoryState {
     readonly loadedCount: number;
     readonly error: ProtocolError | undefined;
     readonly operationStatus: HistoryOperationStatusPush | undefined;
+    readonly operationPlan: OperationPlanPrompt | undefined;
 }
 
 export type HistoryAction =
@@ -30,6 +32,7 @@ export type HistoryAction =
     | { readonly type: 'startLoadMore' }
     | { readonly type: 'clearError' }
     | { readonly type: 'clearOperationStatus'; readonly operationId: string }
+    | { readonly type: 'closeOperationPlan'; readonly planId: string }
     | { readonly type: 'navigateRepository'; readonly contextId?: string };
 
 export function createInitialHistoryState(): HistoryState {
@@ -48,6 +51,7 @@ export function createInitialHistoryState(): HistoryState {
         loadedCount: 0,
         error: undefined,
         operationStatus: undefined,
+        operationPlan: undefined,
     };
 }
 
@@ -73,6 +77,8 @@ export function reduceHistoryState(state: HistoryState, action: HistoryAction):
             return state.operationStatus?.operationId === action.operationId
                 ? { ...state, operationStatus: undefined }
                 : state;
+        case 'closeOperationPlan':
+            return state.operationPlan?.planId === action.planId ? { ...state, operationPlan: undefined } : state;
         case 'navigateRepository':
             return resetForRepositoryNavigation(state, action.contextId);
     }
@@ -91,6 +97,8 @@ function reduceMessage(state: HistoryState, message: HistoryExtensionToWebviewMe
             return state;
         case 'history/operationStatus':
             return reduceHistoryOperationStatus(state, message);
+        case 'history/operationPlan':
+            return { ...state, operationPlan: message.plan };
         case 'history/error':
         case 'error':
             return { ...state, loading: false, loadingMore: false, detailsLoadingHash: undefined, error: message.error };
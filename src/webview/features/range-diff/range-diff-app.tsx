@@ -0,0 +1,117 @@
+import type { RangeDiffCommit, RangeDiffPair, RangeDiffPairStatus } from '@protocol/range-diff/types';
+import { OperationStatus } from '@protocol/shared/operation';
+import { IconButton } from '@webview/shared/icon-button';
+import { OperationNotice } from '@webview/shared/operation-notice';
+import { rangeDiffSummary } from '@webview/features/range-diff/range-diff-state';
+
+interface RangeDiffAppProps {
+    readonly title: string;
+    readonly oldRange: string;
+    readonly newRange: string;
+    readonly pairs: readonly RangeDiffPair[];
+    readonly loading: boolean;
+    readonly error: string | undefined;
+    readonly showUnchanged: boolean;
+    readonly onToggleUnchanged: () => void;
+    readonly onRefresh: () => void;
+    readonly onOpenInterdiff: (pair: RangeDiffPair) => void;
+    readonly onOpenCommit: (hash: string) => void;
+}
+
+const STATUS_LABELS: Readonly<Record<RangeDiffPairStatus, string>> = {
+    unchanged: 'Unchanged',
+    modified: 'Modified',
+    added: 'Added',
+    dropped: 'Dropped',
+};
+
+export function RangeDiffApp({
+    title,
+    oldRange,
+    newRange,
+    pairs,
+    loading,
+    error,
+    showUnchanged,
+    onToggleUnchanged,
+    onRefresh,
+    onOpenInterdiff,
+    onOpenCommit,
+}: RangeDiffAppProps) {
+    const visiblePairs = showUnchanged ? pairs : pairs.filter((pair) => pair.status !== 'unchanged');
+    return (
+        <main className="range-diff" aria-busy={loading ? 'true' : undefined}>
+            <header className="range-diff-header">
+                <h1>{title}</h1>
+                <IconButton icon="refresh" title="Refresh Range Diff" busy={loading} onClick={onRefresh} />
+                <div className="range-diff-ranges">
+                    <span>Old <code>{oldRange}</code></span>
+                    <span>New <code>{newRange}</code></span>
+                </div>
+                <div className="range-diff-options">
+                    <span className="range-diff-summary">
+                        {rangeDiffSummary(pairs).map(({ status, count }) => (
+                            <span key={status} className={`range-diff-status range-diff-status-${status}`}>
+                                {count} {STATUS_LABELS[status].toLowerCase()}
+                            </span>
+                        ))}
+                    </span>
+                    <label>
+                        <input type="checkbox" checked={showUnchanged} onChange={onToggleUnchanged} />
+                        Show unchanged commits
+                    </label>
+                </div>
+            </header>
+            {error ? (
+                <OperationNotice
+                    status={OperationStatus.Failed}
+                    message={error}
+                    actions={[{ label: 'Retry', onClick: onRefresh }]}
+                />
+            ) : null}
+            <ol className="range-diff-pairs" aria-label="Commit pairs">
+                {visiblePairs.map((pair) => (
+                    <li key={pairKey(pair)} className={`range-diff-pair range-diff-pair-${pair.status}`}>
+                        <span className={`range-diff-status range-diff-status-${pair.status}`}>{STATUS_LABELS[pair.status]}</span>
+                        <CommitCell commit={pair.oldCommit} side="old" onOpenCommit={onOpenCommit} />
+                        <CommitCell commit={pair.newCommit} side="new" onOpenCommit={onOpenCommit} />
+                        <span className="range-diff-subject" title={pair.subject}>{pair.subject}</span>
+                        <span className="range-diff-pair-actions">
+                            {pair.hasInterdiff ? (
+                                <IconButton icon="diff" title="Open Interdiff" onClick={() => onOpenInterdiff(pair)} />
+                            ) : null}
+                        </span>
+                    </li>
+                ))}
+            </ol>
+            {!loading && !error && visiblePairs.length === 0 ? (
+                <p className="range-diff-empty">
+                    {pairs.length === 0 ? 'Both ranges are empty.' : 'Every commit is unchanged.'}
+                </p>
+            ) : null}
+        </main>
+    );
+}
+
+function CommitCell({ commit, side, onOpenCommit }: {
+    readonly commit: RangeDiffCommit | undefined;
+    readonly side: 'old' | 'new';
+    readonly onOpenCommit: (hash: string) => void;
+}) {
+    if (!commit) { return <span className="range-diff-commit range-diff-commit-missing" aria-label={`No ${side} commit`}>—</span>; }
+    return (
+        <button
+            type="button"
+            className="range-diff-commit"
+            title={`Open changes of ${side} commit ${commit.hash}`}
+            onClick={() => onOpenCommit(commit.hash)}
+        >
+            <span className="range-diff-position">{commit.position}:</span>
+            <code>{commit.shortHash}</code>
+        </button>
+    );
+}
+
+function pairKey(pair: RangeDiffPair): string {
+    return `${pair.oldCommit?.hash ?? '-'}:${pair.newCommit?.hash ?? '-'}`;
+}
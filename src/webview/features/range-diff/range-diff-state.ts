@@ -0,0 +1,55 @@
+import type { RangeDiffExtensionToWebviewMessage } from '@protocol/range-diff/messages';
+import type { RangeDiffPair, RangeDiffPairStatus } from '@protocol/range-diff/types';
+
+export interface RangeDiffState {
+    readonly title: string;
+    readonly oldRange: string;
+    readonly newRange: string;
+    readonly pairs: readonly RangeDiffPair[];
+    readonly loading: boolean;
+    readonly error: string | undefined;
+    readonly showUnchanged: boolean;
+}
+
+export type RangeDiffStateAction =
+    | { readonly type: 'message'; readonly message: RangeDiffExtensionToWebviewMessage }
+    | { readonly type: 'toggleUnchanged' };
+
+export const initialRangeDiffState: RangeDiffState = {
+    title: 'Range Diff',
+    oldRange: '',
+    newRange: '',
+    pairs: [],
+    loading: true,
+    error: undefined,
+    showUnchanged: true,
+};
+
+export function reduceRangeDiffState(state: RangeDiffState, action: RangeDiffStateAction): RangeDiffState {
+    switch (action.type) {
+        case 'toggleUnchanged':
+            return { ...state, showUnchanged: !state.showUnchanged };
+        case 'message':
+            return reduceRangeDiffMessage(state, action.message);
+    }
+}
+
+/** Number of pairs with each status, in the order the summary lists them. */
+export function rangeDiffSummary(pairs: readonly RangeDiffPair[]): readonly { readonly status: RangeDiffPairStatus; readonly count: number }[] {
+    const statuses: readonly RangeDiffPairStatus[] = ['unchanged', 'modified', 'added', 'dropped'];
+    return statuses.map((status) => ({ status, count: pairs.filter((pair) => pair.status === status).length }));
+}
+
+function reduceRangeDiffMessage(state: RangeDiffState, message: RangeDiffExtensionToWebviewMessage): RangeDiffState {
+    switch (message.type) {
+        case 'rangeDiff/loading':
+            // Pairs stay visible while a refresh runs so the list does not flash empty.
+            return { ...state, title: message.title, oldRange: message.oldRange, newRange: message.newRange, loading: true, error: undefined };
+        case 'rangeDiff/loaded':
+            return { ...state, pairs: message.pairs, loading: false, error: undefined };
+        case 'rangeDiff/failed':
+            return { ...state, pairs: [], loading: false, error: message.message };
+        default:
+            return state;
+    }
+}
@@ -0,0 +1,175 @@
+import type { ReflogEntry, ReflogRef, ReflogResetMode } from '@protocol/reflog/types';
+import { OperationStatus } from '@protocol/shared/operation';
+import type { OperationPlanAcknowledgement, OperationPlanPrompt } from '@protocol/shared/operation-plan';
+import { Dropdown, type DropdownOption } from '@webview/shared/dropdown';
+import { IconButton } from '@webview/shared/icon-button';
+import { OperationNotice, type OperationNoticeAction } from '@webview/shared/operation-notice';
+import { OperationPlanDialog } from '@webview/shared/operation-plan-dialog';
+import { formatRelativeDate } from '@webview/shared/relative-date';
+import type { ReflogActionStatus } from '@webview/features/reflog/reflog-state';
+
+interface ReflogAppProps {
+    readonly title: string;
+    readonly refs: readonly ReflogRef[];
+    readonly selectedRef: string;
+    readonly entries: readonly ReflogEntry[];
+    readonly hasMore: boolean;
+    readonly loading: boolean;
+    readonly error: string | undefined;
+    readonly actionStatus: ReflogActionStatus | undefined;
+    readonly operationPlan: OperationPlanPrompt | undefined;
+    readonly onSelectRef: (ref: string) => void;
+    readonly onLoadMore: () => void;
+    readonly onRefresh: () => void;
+    readonly onReset: (entry: ReflogEntry, mode: ReflogResetMode) => void;
+    readonly onCreateBranch: (entry: ReflogEntry) => void;
+    readonly onCompareWithHead: (entry: ReflogEntry) => void;
+    readonly onShowOutput: () => void;
+    readonly onDismissStatus: () => void;
+    readonly onAcknowledgeOperationPlan: (acknowledgement: OperationPlanAcknowledgement) => void;
+    readonly onCancelOperationPlan: (planId: string) => void;
+}
+
+const RESET_BUTTONS: readonly { readonly mode: ReflogResetMode; readonly icon: string; readonly title: string }[] = [
+    { mode: 'soft', icon: 'debug-step-back', title: 'Soft reset to this entry (keep index and working tree)' },
+    { mode: 'mixed', icon: 'discard', title: 'Mixed reset to this entry (keep working tree)' },
+    { mode: 'hard', icon: 'warning', title: 'Hard reset to this entry (discard local changes)' },
+];
+
+export function ReflogApp({
+    title,
+    refs,
+    selectedRef,
+    entries,
+    hasMore,
+    loading,
+    error,
+    actionStatus,
+    operationPlan,
+    onSelectRef,
+    onLoadMore,
+    onRefresh,
+    onReset,
+    onCreateBranch,
+    onCompareWithHead,
+    onShowOutput,
+    onDismissStatus,
+    onAcknowledgeOperationPlan,
+    onCancelOperationPlan,
+}: ReflogAppProps) {
+    const actionRunning = actionStatus?.status === OperationStatus.Running;
+    return (
+        <main className="reflog" aria-busy={loading ? 'true' : undefined}>
+            <header className="reflog-header">
+                <h1>{title}</h1>
+                <Dropdown
+                    className="reflog-ref-select"
+                    value={selectedRef}
+                    ariaLabel="Reflog ref"
+                    options={refOptions(refs, selectedRef)}
+                    disabled={actionRunning}
+                    onChange={onSelectRef}
+                />
+                <IconButton icon="refresh" title="Refresh Reflog" busy={loading} onClick={onRefresh} />
+            </header>
+            {actionStatus ? (
+                <OperationNotice
+                    status={actionStatus.status}
+                    message={actionStatus.message ?? runningMessage(actionStatus)}
+                    {...(actionStatus.details ? { detail: actionStatus.details } : {})}
+                    actions={statusActions(actionStatus, onShowOutput, onDismissStatus)}
+                />
+            ) : null}
+            {error ? (
+                <OperationNotice
+                    status={OperationStatus.Failed}
+                    message={error}
+                    actions={[{ label: 'Retry', onClick: onRefresh }]}
+                />
+            ) : null}
+            <ol className="reflog-entries" aria-label={`Reflog entries for ${selectedRef}`}>
+                {entries.map((entry) => (
+                    <li key={entry.selector} className="reflog-entry">
+                        <div className="reflog-entry-main">
+                            <span className={`reflog-action reflog-action-${actionKind(entry.action)}`}>{entry.action}</span>
+                            <span className="reflog-message" title={entry.message}>{entry.message || entry.commitSubject}</span>
+                        </div>
+                        <div className="reflog-entry-meta">
+                            <code className="reflog-selector">{entry.selector}</code>
+                            <code className="reflog-hash" title={entry.hash}>
+                                {entry.previousHash ? `${entry.previousHash.substring(0, 7)} → ${entry.shortHash}` : entry.shortHash}
+                            </code>
+                            <span className="reflog-date" title={entry.date}>{formatRelativeDate(entry.date)}</span>
+                            <span className="reflog-subject" title={entry.commitSubject}>{entry.commitSubject}</span>
+                        </div>
+                        <div className="reflog-entry-actions">
+                            {RESET_BUTTONS.map((button) => (
+                                <IconButton
+                                    key={button.mode}
+                                    icon={button.icon}
+                                    title={button.title}
+                                    disabled={actionRunning}
+                                    onClick={() => onReset(entry, button.mode)}
+                                />
+                            ))}
+                            <IconButton
+                                icon="git-branch"
+                                title="Create Branch Here"
+                                disabled={actionRunning}
+                                onClick={() => onCreateBranch(entry)}
+                            />
+                            <IconButton
+                                icon="git-compare"
+                                title="Compare with HEAD"
+                                onClick={() => onCompareWithHead(entry)}
+                            />
+                        </div>
+                    </li>
+                ))}
+            </ol>
+            {!loading && !error && entries.length === 0 ? (
+                <p className="reflog-empty">No reflog entries for {selectedRef}.</p>
+            ) : null}
+            {hasMore ? (
+                <button type="button" className="reflog-load-more" disabled={loading} onClick={onLoadMore}>
+                    {loading ? 'Loading…' : 'Load More'}
+                </button>
+            ) : null}
+            <OperationPlanDialog plan={operationPlan} onConfirm={onAcknowledgeOperationPlan} onCancel={onCancelOperationPlan} />
+        </main>
+    );
+}
+
+function refOptions(refs: readonly ReflogRef[], selectedRef: string): readonly DropdownOption<string>[] {
+    const options = refs.map((ref) => ({ value: ref.ref, label: ref.isCurrent ? `${ref.label} (current)` : ref.label }));
+    return options.some((option) => option.value === selectedRef)
+        ? options
+        : [{ value: selectedRef, label: selectedRef }, ...options];
+}
+
+function actionKind(action: string): string {
+    const kind = /^[a-z-]+/.exec(action)?.[0];
+    return kind ?? 'other';
+}
+
+function runningMessage(status: ReflogActionStatus): string {
+    switch (status.action) {
+        case 'reset':
+            return `Resetting to ${status.hash.substring(0, 7)}…`;
+        case 'createBranch':
+            return `Creating branch at ${status.hash.substring(0, 7)}…`;
+        case 'compareWithHead':
+            return `Comparing ${status.hash.substring(0, 7)} with HEAD…`;
+    }
+}
+
+function statusActions(
+    status: ReflogActionStatus,
+    onShowOutput: () => void,
+    onDismiss: () => void,
+): readonly OperationNoticeAction[] {
+    if (status.status === OperationStatus.Running) { return []; }
+    return status.status === OperationStatus.Failed
+        ? [{ label: 'Show Output', onClick: onShowOutput }, { label: 'Dismiss', onClick: onDismiss }]
+        : [{ label: 'Dismiss', onClick: onDismiss }];
+}
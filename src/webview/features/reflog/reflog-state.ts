@@ -0,0 +1,113 @@
+import type { ReflogEntryAction, ReflogExtensionToWebviewMessage } from '@protocol/reflog/messages';
+import type { ReflogEntry, ReflogRef } from '@protocol/reflog/types';
+import { OperationStatus } from '@protocol/shared/operation';
+import type { OperationPlanPrompt } from '@protocol/shared/operation-plan';
+
+export const REFLOG_PAGE_SIZE = 100;
+
+export interface ReflogActionStatus {
+    readonly action: ReflogEntryAction;
+    readonly hash: string;
+    readonly status: OperationStatus;
+    readonly message?: string;
+    readonly details?: string;
+}
+
+export interface ReflogState {
+    readonly title: string;
+    readonly refs: readonly ReflogRef[];
+    readonly selectedRef: string;
+    /** Bumped whenever the visible reflog must be reloaded from the first page. */
+    readonly generation: number;
+    readonly entries: readonly ReflogEntry[];
+    readonly hasMore: boolean;
+    readonly loading: boolean;
+    readonly error: string | undefined;
+    readonly activeRequestId: string | undefined;
+    readonly actionStatus: ReflogActionStatus | undefined;
+    readonly operationPlan: OperationPlanPrompt | undefined;
+}
+
+export type ReflogStateAction =
+    | { readonly type: 'message'; readonly message: ReflogExtensionToWebviewMessage }
+    | { readonly type: 'pageRequested'; readonly requestId: string }
+    | { readonly type: 'selectRef'; readonly ref: string }
+    | { readonly type: 'clearActionStatus' }
+    | { readonly type: 'closeOperationPlan'; readonly planId: string };
+
+export const initialReflogState: ReflogState = {
+    title: 'Reflog',
+    refs: [],
+    selectedRef: 'HEAD',
+    generation: 0,
+    entries: [],
+    hasMore: false,
+    loading: true,
+    error: undefined,
+    activeRequestId: undefined,
+    actionStatus: undefined,
+    operationPlan: undefined,
+};
+
+export function reduceReflogState(state: ReflogState, action: ReflogStateAction): ReflogState {
+    switch (action.type) {
+        case 'pageRequested':
+            return { ...state, loading: true, error: undefined, activeRequestId: action.requestId };
+        case 'selectRef':
+            if (action.ref === state.selectedRef) { return state; }
+            return { ...state, selectedRef: action.ref, generation: state.generation + 1, entries: [], hasMore: false };
+        case 'clearActionStatus':
+            return { ...state, actionStatus: undefined };
+        case 'closeOperationPlan':
+            return state.operationPlan?.planId === action.planId ? { ...state, operationPlan: undefined } : state;
+        case 'message':
+            return reduceReflogMessage(state, action.message);
+    }
+}
+
+function reduceReflogMessage(state: ReflogState, message: ReflogExtensionToWebviewMessage): ReflogState {
+    switch (message.type) {
+        case 'reflog/init':
+            return {
+                ...state,
+                title: message.title,
+                refs: message.refs,
+                selectedRef: message.refs.some((ref) => ref.ref === state.selectedRef) ? state.selectedRef : message.selectedRef,
+                generation: state.generation + 1,
+            };
+        case 'reflog/pageResponse':
+            if (message.requestId !== state.activeRequestId || message.ref !== state.selectedRef) { return state; }
+            return {
+                ...state,
+                entries: message.page.offset === 0 ? message.entries : [...state.entries, ...message.entries],
+                hasMore: message.hasMore,
+                loading: false,
+                error: message.error,
+                activeRequestId: undefined,
+            };
+        case 'reflog/operationPlan':
+            return { ...state, operationPlan: message.plan };
+        case 'reflog/actionStarted':
+            return { ...state, actionStatus: { action: message.action, hash: message.hash, status: OperationStatus.Running } };
+        case 'reflog/actionCompleted':
+            return {
+                ...state,
+                actionStatus: message.message
+                    ? { action: message.action, hash: message.hash, status: OperationStatus.Success, message: message.message }
+                    : undefined,
+            };
+        case 'reflog/actionFailed':
+            return {
+                ...state,
+                actionStatus: {
+                    action: message.action,
+                    hash: message.hash,
+                    status: OperationStatus.Failed,
+                    message: message.message,
+                    ...(message.details ? { details: message.details } : {}),
+                },
+            };
+        default:
+            return state;
+    }
+}
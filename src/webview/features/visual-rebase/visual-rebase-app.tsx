@@ -1,8 +1,10 @@
 import { useEffect, useMemo, useRef, useState, type DragEvent } from 'react';
-import type { CommitFileChange } from '@protocol/shared/commit';
+import type { CommitFileChange, CommitSigningDefaults } from '@protocol/shared/commit';
+import { commitMessageRulesBlock, evaluateCommitMessageRules, type CommitMessageRules } from '@protocol/shared/commit-message-rules';
 import type { VisualRebaseOperation } from '@protocol/visual-rebase/messages';
 import type { VisualRebaseAction, VisualRebaseCommit, VisualRebaseCommitDetails, VisualRebaseConflictFile, VisualRebasePlanEntry, VisualRebaseRef, VisualRebaseSafety } from '@protocol/visual-rebase/types';
 import { Codicon } from '@webview/shared/codicon';
+import { signToggleTitle, signingFormatLabel } from '@webview/shared/commit-signing';
 import { Dropdown, type DropdownOption } from '@webview/shared/dropdown';
 import { Modal } from '@webview/shared/modal';
 import { VisualRebaseCommitInspector } from '@webview/features/visual-rebase/visual-rebase-commit-inspector';
@@ -21,6 +23,10 @@ interface VisualRebaseAppProps {
     readonly initialCommits: readonly VisualRebaseCommit[];
     readonly safety: VisualRebaseSafety | undefined;
     readonly refs?: readonly VisualRebaseRef[];
+    /** Repository commit message rules applied to reworded messages. */
+    readonly rules?: CommitMessageRules;
+    /** Defaults of the "Sign rewritten commits" toggle; the toggle is hidden until they are known. */
+    readonly signing?: CommitSigningDefaults;
     readonly previewRunning?: boolean;
     readonly previewError?: string;
     readonly phase: VisualRebasePhase;
@@ -32,7 +38,7 @@ interface VisualRebaseAppProps {
     readonly commitDetails?: VisualRebaseCommitDetails;
     readonly commitDetailsLoading?: boolean;
     readonly commitDetailsError?: string;
-    readonly onStart: (rewriteAfter: string, replayOnto: string, plan: readonly VisualRebasePlanEntry[]) => void;
+    readonly onStart: (rewriteAfter: string, replayOnto: string, plan: readonly VisualRebasePlanEntry[], sign?: boolean) => void;
     readonly onPreview?: (rewriteAfter: string, replayOnto: string) => void;
     readonly onContinue: () => void;
     readonly onAbort: () => void;
@@ -64,6 +70,8 @@ export function VisualRebaseApp({
     initialCommits,
     safety,
     refs = [],
+    rules,
+    signing,
     previewRunning = false,
     previewError,
     phase,
@@ -95,6 +103,7 @@ export function VisualRebaseApp({
     const [confirming, setConfirming] = useState(false);
     const [rewriteAfter, setRewriteAfter] = useState(upstream);
     const [replayOnto, setReplayOnto] = useState(onto);
+    const [signOverride, setSignOverride] = useState<boolean | undefined>(undefined);
     const [pickerTarget, setPickerTarget] = useState<'rewriteAfter' | 'replayOnto' | undefined>(undefined);
     const [refSearch, setRefSearch] = useState('');
     const [draggedHash, setDraggedHash] = useState<string | undefined>(undefined);
@@ -102,6 +111,7 @@ export function VisualRebaseApp({
     const editedSetup = useRef(false);
     const requestedCommitHash = useRef<string | undefined>(undefined);
 
+    const sign = signOverride ?? signing?.sign;
     const selected = commits.find((commit) => commit.hash === selectedHash) ?? commits[0];
     const selectedCommitHash = selected?.hash;
     const plan = useMemo(() => commits.map(toPlanEntry), [commits]);
@@ -116,7 +126,7 @@ export function VisualRebaseApp({
     const executableProblem = firstExecutableProblem(plan);
     const planStatus = previewRunning
         ? 'Preview is updating.'
-        : executableProblem;
+        : executableProblem ?? firstBlockedReword(commits, rules);
     const startBlockReason = previewError ?? planStatus;
     const startDisabledReason = running
         ? 'Visual Rebase is starting.'
@@ -222,17 +232,26 @@ export function VisualRebaseApp({
         finishDragging();
     };
 
+    const submitPlan = () => {
+        // Without signing defaults the choice stays with `commit.gpgSign`.
+        if (sign === undefined) {
+            onStart(rewriteAfter.trim(), replayOnto.trim(), plan);
+        } else {
+            onStart(rewriteAfter.trim(), replayOnto.trim(), plan, sign);
+        }
+    };
+
     const startRebase = () => {
         if (safety && requiresRiskConfirmation(safety)) {
             setConfirming(true);
             return;
         }
-        onStart(rewriteAfter.trim(), replayOnto.trim(), plan);
+        submitPlan();
     };
 
     const confirmStart = () => {
         setConfirming(false);
-        onStart(rewriteAfter.trim(), replayOnto.trim(), plan);
+        submitPlan();
     };
 
     return (
@@ -306,6 +325,20 @@ export function VisualRebaseApp({
                                     setPickerTarget('replayOnto');
                                 }}
                             />
+                            {signing ? (
+                                <label
+                                    className="visual-rebase-sign-toggle"
+                                    title={signToggleTitle(sign ?? signing.sign, signing.format, signing.sign)}
+                                >
+                                    <input
+                                        type="checkbox"
+                                        checked={sign ?? signing.sign}
+                                        disabled={phase !== 'planning'}
+                                        onChange={(event) => setSignOverride(event.currentTarget.checked)}
+                                    />
+                                    <span>Sign rewritten commits with {signingFormatLabel(signing.format)}</span>
+                                </label>
+                            ) : null}
                         </div>
                         {pickerTarget ? (
                             <RefPicker
@@ -426,6 +459,7 @@ export function VisualRebaseApp({
                                 details={commitDetails}
                                 loading={commitDetailsLoading}
                                 error={commitDetailsError}
+                                rules={rules}
                                 onMessageChange={(message) => updateMessage(selected.hash, message)}
                                 onOpenDiff={(file) => onOpenCommitDiff(selected.hash, file)}
                             />
@@ -615,6 +649,12 @@ function firstExecutableProblem(plan: readonly VisualRebasePlanEntry[]): string
     return undefined;
 }
 
+function firstBlockedReword(commits: readonly VisualRebaseCommit[], rules: CommitMessageRules | undefined): string | undefined {
+    const blocked = commits.find((commit) => commit.action === 'reword'
+        && commitMessageRulesBlock(rules, evaluateCommitMessageRules(commit.message, rules)));
+    return blocked ? `The reworded message of ${blocked.shortHash} breaks the commit message rules.` : undefined;
+}
+
 function planSummary(plan: readonly VisualRebasePlanEntry[]): string {
     const counts = new Map<VisualRebaseAction, number>();
     for (const entry of plan) {
@@ -1,9 +1,11 @@
 import { useState } from 'react';
 import type { CommitFileChange } from '@protocol/shared/commit';
+import { commitMessageRulesBlock, evaluateCommitMessageRules, type CommitMessageRules } from '@protocol/shared/commit-message-rules';
 import type { VisualRebaseCommit, VisualRebaseCommitDetails } from '@protocol/visual-rebase/types';
 import { CommitFileTree } from '@webview/shared/commit-file-tree';
 import { filterCommitDetailFiles } from '@webview/shared/commit-file-filter';
 import { Codicon } from '@webview/shared/codicon';
+import { CommitMessageDiagnostics } from '@webview/shared/commit-message-diagnostics';
 import { SearchInput } from '@webview/shared/search-input';
 import { ViewMode } from '@webview/shared/view-mode';
 import { readViewMode, writeViewMode } from '@webview/shared/view-mode-storage';
@@ -16,15 +18,17 @@ interface VisualRebaseCommitInspectorProps {
     readonly details: VisualRebaseCommitDetails | undefined;
     readonly loading: boolean;
     readonly error: string | undefined;
+    readonly rules?: CommitMessageRules;
     readonly onMessageChange: (message: string) => void;
     readonly onOpenDiff: (file: CommitFileChange) => void;
 }
 
-export function VisualRebaseCommitInspector({ commit, details, loading, error, onMessageChange, onOpenDiff }: VisualRebaseCommitInspectorProps) {
+export function VisualRebaseCommitInspector({ commit, details, loading, error, rules, onMessageChange, onOpenDiff }: VisualRebaseCommitInspectorProps) {
     const [fileSearch, setFileSearch] = useState('');
     const [fileViewMode, setFileViewMode] = useState(() => readViewMode(FILE_VIEW_MODE_STORAGE_KEY, ViewMode.Tree));
     const files = details?.hash === commit.hash ? details.files : [];
     const filteredFiles = filterCommitDetailFiles(files, fileSearch);
+    const diagnostics = commit.action === 'reword' ? evaluateCommitMessageRules(commit.message, rules) : [];
 
     const changeFileViewMode = (nextViewMode: ViewMode) => {
         setFileViewMode(nextViewMode);
@@ -74,6 +78,7 @@ export function VisualRebaseCommitInspector({ commit, details, loading, error, o
                     onChange={(event) => onMessageChange(event.target.value)}
                 />
             </label>
+            <CommitMessageDiagnostics diagnostics={diagnostics} blocking={commitMessageRulesBlock(rules, diagnostics)} />
         </>
     );
 }
@@ -1,5 +1,7 @@
 import type { VisualRebaseExtensionToWebviewMessage, VisualRebaseOperation, VisualRebaseRecommendedAction } from '@protocol/visual-rebase/messages';
 import type { VisualRebaseCommit, VisualRebaseCommitDetails, VisualRebaseConflictFile, VisualRebaseRef, VisualRebaseSafety } from '@protocol/visual-rebase/types';
+import type { CommitMessageRules } from '@protocol/shared/commit-message-rules';
+import type { CommitSigningDefaults } from '@protocol/shared/commit';
 
 export type VisualRebasePhase = 'loading' | 'planning' | 'running' | 'paused' | 'conflicts' | 'completed' | 'failed' | 'aborted';
 
@@ -17,6 +19,8 @@ export interface VisualRebaseState {
     readonly commits: readonly VisualRebaseCommit[];
     readonly safety: VisualRebaseSafety | undefined;
     readonly refs: readonly VisualRebaseRef[];
+    readonly rules: CommitMessageRules | undefined;
+    readonly signing: CommitSigningDefaults | undefined;
     readonly phase: VisualRebasePhase;
     readonly running: boolean;
     readonly operation: VisualRebaseOperation | undefined;
@@ -46,6 +50,8 @@ export const initialVisualRebaseState: VisualRebaseState = {
     commits: [],
     safety: undefined,
     refs: [],
+    rules: undefined,
+    signing: undefined,
     phase: 'loading',
     running: false,
     operation: undefined,
@@ -98,6 +104,8 @@ export function reduceVisualRebaseState(state: VisualRebaseState, action: Visual
                 commits: message.commits,
                 safety: message.safety,
                 refs: message.refs,
+                rules: message.rules,
+                signing: message.signing,
                 phase: 'planning',
                 previewError: undefined,
                 commitDetails: undefined,
@@ -4,7 +4,9 @@ import type { HistoryCommitFile, HistoryContextTarget } from '@protocol/history/
 import { CommitHistoryApp } from '@webview/features/history/commit-history-app';
 import { createInitialHistoryState, reduceHistoryState } from '@webview/features/history/history-state';
 import {
+    messageForHistoryBlameAtRevision,
     messageForHistoryCommitDetails,
+    messageForHistoryCompareWithWorkingFile,
     messageForHistoryContextTarget,
     messageForHistoryDataRequest,
     messageForHistoryOpenDiff,
@@ -67,6 +69,14 @@ export function FileHistoryWebview() {
         vscodeApi.postMessage(messageForHistoryOpenDiff(hash, file));
     }, []);
 
+    const handleCompareWithWorkingFile = useCallback((hash: string, file: HistoryCommitFile) => {
+        vscodeApi.postMessage(messageForHistoryCompareWithWorkingFile(hash, file));
+    }, []);
+
+    const handleBlameAtRevision = useCallback((hash: string, file: HistoryCommitFile) => {
+        vscodeApi.postMessage(messageForHistoryBlameAtRevision(hash, file));
+    }, []);
+
     const handleContextTarget = useCallback((target: HistoryContextTarget) => {
         vscodeApi.postMessage(messageForHistoryContextTarget(target));
     }, []);
@@ -80,6 +90,8 @@ export function FileHistoryWebview() {
             onToggleCommit={(hash: string) => dispatch({ type: 'toggleCommit', hash })}
             onSelectCommit={(hash, mode, visibleHashes) => dispatch({ type: 'selectCommit', hash, mode, visibleHashes })}
             onOpenFileDiff={handleOpenFileDiff}
+            onCompareWithWorkingFile={handleCompareWithWorkingFile}
+            onBlameAtRevision={handleBlameAtRevision}
             onContextTarget={handleContextTarget}
             onLoadMore={handleLoadMore}
             onCopyHash={(hash) => navigator.clipboard.writeText(hash).catch(() => {})}
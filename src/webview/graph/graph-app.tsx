@@ -20,15 +20,24 @@ import {
     messageForGraphDataRequest,
     messageForGraphContextTarget,
     messageForLoadMore,
+    messageForOpenBlame,
     messageForOpenDiff,
     messageForOpenWorktreeDiff,
     messageForBranchCommand,
     messageForGraphRepositoryCommand,
     messageForWorktreeCommand,
     messageForWorktreeDetails,
+    messageForStashDetails,
     messageForBranchCheckout,
+    messageForGraphBisectCommand,
+    messageForRebaseBackupCommand,
+    messageForTagCommand,
+    messageForAcknowledgeOperationPlan,
+    messageForCancelOperationPlan,
 } from '@webview/features/graph/graph-commands';
 import { ErrorNotice } from '@webview/shared/error-notice';
+import { OperationPlanDialog } from '@webview/shared/operation-plan-dialog';
+import { BisectBanner } from '@webview/shared/bisect-banner';
 import { GraphOperationStatus } from '@protocol/graph/messages';
 import { graphRepositorySelectionKey } from '@webview/features/graph/graph-repository-selection';
 import { RepositoryNavigator } from '@webview/shared/repository-navigator';
@@ -95,6 +104,15 @@ export function GraphApp({ sendMessage }: GraphAppProps) {
         sendMessage(messageForWorktreeDetails(state.selectedWorktreePath, state.repository, worktree));
     }, [sendMessage, state.repository, state.selectedWorktreePath, state.worktrees]);
 
+    const selectedStash = state.selectedStashHash
+        ? state.stashes.find((stash) => stash.hash === state.selectedStashHash)
+        : undefined;
+
+    useEffect(() => {
+        if (!selectedStash) { return; }
+        sendMessage(messageForStashDetails(selectedStash, state.repository));
+    }, [sendMessage, selectedStash, state.repository]);
+
     const selectedDetailsBranch = state.selectedBranchDetailsName
         ? state.branches.find((branch) => branch.name === state.selectedBranchDetailsName)
         : undefined;
@@ -169,6 +187,21 @@ export function GraphApp({ sendMessage }: GraphAppProps) {
             ));
             return;
         }
+        if (state.commitDetails?.kind === 'stash' && state.commitDetails.stash) {
+            const { stash } = state.commitDetails;
+            // Untracked files live in the stash's third parent, a root commit, so they diff as additions.
+            const untrackedHash = file.status === '?' ? stash.untrackedHash : undefined;
+            sendMessage(messageForOpenDiff(
+                file.filePath,
+                untrackedHash ?? stash.hash,
+                untrackedHash ? 'A' : file.status,
+                file.origPath,
+                untrackedHash ? undefined : file.parentHash,
+                file.isSubmodule,
+                state.repository,
+            ));
+            return;
+        }
         if (!state.selectedHash) { return; }
         sendMessage(messageForOpenDiff(
             file.filePath,
@@ -181,6 +214,11 @@ export function GraphApp({ sendMessage }: GraphAppProps) {
         ));
     }, [sendMessage, state.commitDetails, state.repository, state.selectedHash, state.worktrees]);
 
+    const handleBlame = useCallback((file: CommitFileChange) => {
+        if (!state.selectedHash) { return; }
+        sendMessage(messageForOpenBlame(file.filePath, state.selectedHash, state.repository));
+    }, [sendMessage, state.repository, state.selectedHash]);
+
     const handleSelectCommit = useCallback((hash: string, mode: 'replace' | 'toggle' | 'range') => {
         if (mode === 'toggle') {
             dispatch({ type: 'toggleCommitSelection', hash });
@@ -197,6 +235,10 @@ export function GraphApp({ sendMessage }: GraphAppProps) {
         dispatch({ type: 'selectWorktree', path });
     }, []);
 
+    const handleSelectStash = useCallback((hash: string) => {
+        dispatch({ type: 'selectStash', hash });
+    }, []);
+
     const handleLoadMoreBranchDetails = useCallback(() => {
         if (!state.selectedBranchDetailsName || !state.branchDetails?.hasMore || state.branchDetailsLoadingMore) { return; }
         const message = messageForBranchDetails(
@@ -243,7 +285,10 @@ export function GraphApp({ sendMessage }: GraphAppProps) {
             onOpenInNewWindow={(contextId) => sendMessage({ type: 'repo/openRepositoryInNewWindow', contextId })}
         >
 
-            <div className="graph-shell">
+            <div
+                className="graph-shell"
+                data-vscode-context={JSON.stringify({ graphHasRepositoryWebUrl: state.repositoryWebUrl !== undefined })}
+            >
 
                 <ResizablePanel
                     storageKey={BRANCH_PANEL_STORAGE_KEY}
@@ -262,6 +307,8 @@ export function GraphApp({ sendMessage }: GraphAppProps) {
                             style={style}
                             branches={state.branches}
                             worktrees={state.worktrees}
+                            rebaseBackups={state.rebaseBackups}
+                            tags={state.tags}
                             submodules={state.submodules}
                             selectedRepository={state.selectedRepository}
                             currentBranch={state.currentBranch}
@@ -275,9 +322,13 @@ export function GraphApp({ sendMessage }: GraphAppProps) {
                             onSelectSubmodule={handleSelectSubmodule}
                             onBranchCommand={(command, branch, isRemote) => sendMessage(messageForBranchCommand(command, branch, isRemote, state.repository))}
                             onFetch={() => sendMessage(messageForGraphRepositoryCommand('fetch', state.repository))}
+                            onShowReflog={() => sendMessage(messageForGraphRepositoryCommand('showReflog', state.repository))}
+                            onOpenBisect={() => sendMessage(messageForGraphBisectCommand('openPanel', state.repository))}
                             onSelectWorktree={handleSelectWorktree}
                             onOpenWorktree={(path) => sendMessage(messageForWorktreeCommand('openInNewWindow', path, state.repository, state.worktrees.find((worktree) => sameResourcePath(worktree.path, path))?.locator))}
                             onAddWorktree={() => sendMessage(messageForWorktreeCommand('add', undefined, state.repository))}
+                            onRebaseBackupCommand={(command, backup) => sendMessage(messageForRebaseBackupCommand(command, backup, state.repository))}
+                            onTagCommand={(command, tag) => sendMessage(messageForTagCommand(command, tag, state.repository))}
                             onContextTarget={handleContextTarget}
                         />}
                 </ResizablePanel>
@@ -289,14 +340,17 @@ export function GraphApp({ sendMessage }: GraphAppProps) {
                             branches={state.branches}
                             selectedBranchFilter={state.selectedBranchFilter}
                             refreshing={state.loading && state.rows.length > 0}
+                            showStashes={state.showStashes}
                             onFiltersChange={(filters) => dispatch({ type: 'setFilters', filters })}
                             onBranchFilterChange={(branch) => dispatch({ type: 'setBranchFilter', branch })}
                             onRefresh={() => dispatch({ type: 'refreshRequested' })}
+                            onToggleStashes={() => dispatch({ type: 'toggleStashes' })}
                         /> : null}
 
                         <GraphOperationNotice
                             operation={state.operationStatus}
                             onShowOutput={() => sendMessage({ type: 'graph/showOutput' })}
+                            onUndo={() => sendMessage({ type: 'graph/undoLastOperation' })}
                             onDismiss={() => {
                                 if (state.operationStatus) {
                                     dispatch({ type: 'clearOperationStatus', operationId: state.operationStatus.operationId });
@@ -304,6 +358,13 @@ export function GraphApp({ sendMessage }: GraphAppProps) {
                             }}
                         />
 
+                        {state.bisect ? (
+                            <BisectBanner
+                                status={state.bisect}
+                                onCommand={(command) => sendMessage(messageForGraphBisectCommand(command, state.repository))}
+                            />
+                        ) : null}
+
                         <ErrorNotice
                             error={state.error}
                             primaryAction={{ label: 'Retry', onClick: () => dispatch({ type: 'refreshRequested' }) }}
@@ -331,12 +392,15 @@ export function GraphApp({ sendMessage }: GraphAppProps) {
                                 rows={state.rows}
                                 displayRows={state.displayRows}
                                 branches={state.branches}
+                                bisect={state.bisect}
                                 selectedHashes={state.selectedHashes}
                                 selectedWorktreePath={state.selectedWorktreePath}
+                                selectedStashHash={state.selectedStashHash}
                                 hasMore={state.hasMore}
                                 loadingMore={state.loadingMore}
                                 onSelectCommit={handleSelectCommit}
                                 onSelectWorktree={handleSelectWorktree}
+                                onSelectStash={handleSelectStash}
                                 onContextTarget={handleContextTarget}
                                 onLoadMore={handleLoadMore}
                                 onBranchDoubleClick={(branch, isRemote) => sendMessage(messageForBranchCheckout(branch, isRemote, state.repository))}
@@ -346,7 +410,7 @@ export function GraphApp({ sendMessage }: GraphAppProps) {
                     </div>
                 </div>
 
-                {state.selectedHash || state.selectedWorktreePath || state.selectedBranchDetailsName ? (
+                {state.selectedHash || state.selectedWorktreePath || state.selectedStashHash || state.selectedBranchDetailsName ? (
                     <ResizablePanel
                         storageKey={DETAILS_PANEL_STORAGE_KEY}
                         defaultSize={DETAILS_PANEL_DEFAULT}
@@ -374,11 +438,24 @@ export function GraphApp({ sendMessage }: GraphAppProps) {
                                 loading={state.detailsLoading}
                                 onClose={() => dispatch({ type: 'clearSelection' })}
                                 onDiff={handleDiff}
+                                onBlame={handleBlame}
+                                onOpenLink={(url) => sendMessage({ type: 'graph/openRemoteLink', url })}
                             />
                         )}
                     </ResizablePanel>
                 ) : null}
             </div>
+            <OperationPlanDialog
+                plan={state.operationPlan}
+                onConfirm={(acknowledgement) => {
+                    dispatch({ type: 'closeOperationPlan', planId: acknowledgement.planId });
+                    sendMessage(messageForAcknowledgeOperationPlan(acknowledgement));
+                }}
+                onCancel={(planId) => {
+                    dispatch({ type: 'closeOperationPlan', planId });
+                    sendMessage(messageForCancelOperationPlan(planId));
+                }}
+            />
         </RepositoryNavigator>
 
     );
@@ -4,7 +4,16 @@ import type { HistoryCommitFile, HistoryContextTarget } from '@protocol/history/
 import { OperationStatus } from '@protocol/shared/operation';
 import { CommitHistoryApp } from '@webview/features/history/commit-history-app';
 import { createInitialHistoryState, reduceHistoryState } from '@webview/features/history/history-state';
-import { messageForHistoryCommitDetails, messageForHistoryContextTarget, messageForHistoryDataRequest, messageForHistoryOpenDiff, messageForHistoryReady, messageForHistoryShowOutput } from '@webview/features/history/history-commands';
+import {
+    messageForHistoryAcknowledgeOperationPlan,
+    messageForHistoryCancelOperationPlan,
+    messageForHistoryCommitDetails,
+    messageForHistoryContextTarget,
+    messageForHistoryDataRequest,
+    messageForHistoryOpenDiff,
+    messageForHistoryReady,
+    messageForHistoryShowOutput,
+} from '@webview/features/history/history-commands';
 import { applyWebviewFontSize, isWebviewFontSizeMessage } from '@webview/platform/font-size';
 import { vscodeApi } from '@webview/platform/vscode-host';
 
@@ -91,6 +100,14 @@ export function HistoryWebview() {
                     dispatch({ type: 'clearOperationStatus', operationId: state.operationStatus.operationId });
                 }
             }}
+            onAcknowledgeOperationPlan={(acknowledgement) => {
+                dispatch({ type: 'closeOperationPlan', planId: acknowledgement.planId });
+                vscodeApi.postMessage(messageForHistoryAcknowledgeOperationPlan(acknowledgement));
+            }}
+            onCancelOperationPlan={(planId) => {
+                dispatch({ type: 'closeOperationPlan', planId });
+                vscodeApi.postMessage(messageForHistoryCancelOperationPlan(planId));
+            }}
             onRepositoryNavigate={(contextId) => {
                 dispatch({ type: 'navigateRepository', contextId });
                 vscodeApi.postMessage({ type: 'repo/navigateRepository', ...(contextId ? { contextId } : {}) });
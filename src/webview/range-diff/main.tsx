@@ -0,0 +1,5 @@
+import { RangeDiffWebview } from '@webview/range-diff/range-diff-webview';
+import { mountWebview } from '@webview/shared/mount-webview';
+import '@webview/styles.css';
+
+mountWebview(<RangeDiffWebview />);
@@ -0,0 +1,24 @@
+import type {
+    RangeDiffOpenCommitMessage,
+    RangeDiffOpenInterdiffMessage,
+    RangeDiffReadyMessage,
+    RangeDiffRefreshMessage,
+} from '@protocol/range-diff/messages';
+import type { RangeDiffPair } from '@protocol/range-diff/types';
+
+export function messageForRangeDiffReady(): RangeDiffReadyMessage {
+    return { type: 'rangeDiff/ready' };
+}
+
+export function messageForRangeDiffRefresh(): RangeDiffRefreshMessage {
+    return { type: 'rangeDiff/refresh' };
+}
+
+export function messageForRangeDiffOpenInterdiff(pair: RangeDiffPair): RangeDiffOpenInterdiffMessage | undefined {
+    if (!pair.oldCommit || !pair.newCommit) { return undefined; }
+    return { type: 'rangeDiff/openInterdiff', oldHash: pair.oldCommit.hash, newHash: pair.newCommit.hash };
+}
+
+export function messageForRangeDiffOpenCommit(hash: string): RangeDiffOpenCommitMessage {
+    return { type: 'rangeDiff/openCommit', hash };
+}
@@ -0,0 +1,53 @@
+import { useEffect, useReducer } from 'react';
+import type { RangeDiffExtensionToWebviewMessage, RangeDiffWebviewToExtensionMessage } from '@protocol/range-diff/messages';
+import type { RangeDiffPair } from '@protocol/range-diff/types';
+import { RangeDiffApp } from '@webview/features/range-diff/range-diff-app';
+import { initialRangeDiffState, reduceRangeDiffState } from '@webview/features/range-diff/range-diff-state';
+import { applyWebviewFontSize, isWebviewFontSizeMessage } from '@webview/platform/font-size';
+import { vscodeApi } from '@webview/platform/vscode-host';
+import {
+    messageForRangeDiffOpenCommit,
+    messageForRangeDiffOpenInterdiff,
+    messageForRangeDiffReady,
+    messageForRangeDiffRefresh,
+} from '@webview/range-diff/range-diff-commands';
+
+export function RangeDiffWebview() {
+    const [state, dispatch] = useReducer(reduceRangeDiffState, initialRangeDiffState);
+
+    useEffect(() => {
+        const onMessage = (event: MessageEvent<RangeDiffExtensionToWebviewMessage>) => {
+            if (isWebviewFontSizeMessage(event.data)) {
+                applyWebviewFontSize(event.data.fontSize);
+                return;
+            }
+            dispatch({ type: 'message', message: event.data });
+        };
+        window.addEventListener('message', onMessage);
+        postToExtension(messageForRangeDiffReady());
+        return () => window.removeEventListener('message', onMessage);
+    }, []);
+
+    return (
+        <RangeDiffApp
+            title={state.title}
+            oldRange={state.oldRange}
+            newRange={state.newRange}
+            pairs={state.pairs}
+            loading={state.loading}
+            error={state.error}
+            showUnchanged={state.showUnchanged}
+            onToggleUnchanged={() => dispatch({ type: 'toggleUnchanged' })}
+            onRefresh={() => postToExtension(messageForRangeDiffRefresh())}
+            onOpenInterdiff={(pair: RangeDiffPair) => {
+                const message = messageForRangeDiffOpenInterdiff(pair);
+                if (message) { postToExtension(message); }
+            }}
+            onOpenCommit={(hash: string) => postToExtension(messageForRangeDiffOpenCommit(hash))}
+        />
+    );
+}
+
+function postToExtension(message: RangeDiffWebviewToExtensionMessage): void {
+    vscodeApi.postMessage(message);
+}
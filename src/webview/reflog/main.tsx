@@ -0,0 +1,5 @@
+import { ReflogWebview } from '@webview/reflog/reflog-webview';
+import { mountWebview } from '@webview/shared/mount-webview';
+import '@webview/styles.css';
+
+mountWebview(<ReflogWebview />);
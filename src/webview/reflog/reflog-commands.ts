@@ -0,0 +1,44 @@
+import type {
+    ReflogAcknowledgeOperationPlanMessage,
+    ReflogCancelOperationPlanMessage,
+    ReflogCompareWithHeadMessage,
+    ReflogCreateBranchMessage,
+    ReflogPageRequest,
+    ReflogReadyMessage,
+    ReflogResetMessage,
+    ReflogShowOutputMessage,
+} from '@protocol/reflog/messages';
+import type { ReflogEntry, ReflogResetMode } from '@protocol/reflog/types';
+import type { OperationPlanAcknowledgement } from '@protocol/shared/operation-plan';
+
+export function messageForReflogReady(): ReflogReadyMessage {
+    return { type: 'reflog/ready' };
+}
+
+export function messageForReflogPage(requestId: string, ref: string, offset: number, limit: number): ReflogPageRequest {
+    return { type: 'reflog/pageRequest', requestId, ref, page: { offset, limit } };
+}
+
+export function messageForReflogReset(entry: ReflogEntry, mode: ReflogResetMode): ReflogResetMessage {
+    return { type: 'reflog/reset', selector: entry.selector, hash: entry.hash, mode };
+}
+
+export function messageForReflogCreateBranch(entry: ReflogEntry): ReflogCreateBranchMessage {
+    return { type: 'reflog/createBranch', hash: entry.hash };
+}
+
+export function messageForReflogCompareWithHead(entry: ReflogEntry): ReflogCompareWithHeadMessage {
+    return { type: 'reflog/compareWithHead', hash: entry.hash };
+}
+
+export function messageForReflogAcknowledgeOperationPlan(acknowledgement: OperationPlanAcknowledgement): ReflogAcknowledgeOperationPlanMessage {
+    return { type: 'reflog/acknowledgeOperationPlan', acknowledgement };
+}
+
+export function messageForReflogCancelOperationPlan(planId: string): ReflogCancelOperationPlanMessage {
+    return { type: 'reflog/cancelOperationPlan', planId };
+}
+
+export function messageForReflogShowOutput(): ReflogShowOutputMessage {
+    return { type: 'reflog/showOutput' };
+}
@@ -0,0 +1,84 @@
+import { useCallback, useEffect, useReducer } from 'react';
+import type { ReflogExtensionToWebviewMessage, ReflogWebviewToExtensionMessage } from '@protocol/reflog/messages';
+import type { ReflogEntry, ReflogResetMode } from '@protocol/reflog/types';
+import type { OperationPlanAcknowledgement } from '@protocol/shared/operation-plan';
+import { ReflogApp } from '@webview/features/reflog/reflog-app';
+import { REFLOG_PAGE_SIZE, initialReflogState, reduceReflogState } from '@webview/features/reflog/reflog-state';
+import { applyWebviewFontSize, isWebviewFontSizeMessage } from '@webview/platform/font-size';
+import { vscodeApi } from '@webview/platform/vscode-host';
+import {
+    messageForReflogAcknowledgeOperationPlan,
+    messageForReflogCancelOperationPlan,
+    messageForReflogCompareWithHead,
+    messageForReflogCreateBranch,
+    messageForReflogPage,
+    messageForReflogReady,
+    messageForReflogReset,
+    messageForReflogShowOutput,
+} from '@webview/reflog/reflog-commands';
+
+export function ReflogWebview() {
+    const [state, dispatch] = useReducer(reduceReflogState, initialReflogState);
+
+    useEffect(() => {
+        const onMessage = (event: MessageEvent<ReflogExtensionToWebviewMessage>) => {
+            if (isWebviewFontSizeMessage(event.data)) {
+                applyWebviewFontSize(event.data.fontSize);
+                return;
+            }
+            dispatch({ type: 'message', message: event.data });
+        };
+        window.addEventListener('message', onMessage);
+        postToExtension(messageForReflogReady());
+        return () => window.removeEventListener('message', onMessage);
+    }, []);
+
+    const requestPage = useCallback((ref: string, offset: number) => {
+        const requestId = requestIdForReflog();
+        dispatch({ type: 'pageRequested', requestId });
+        postToExtension(messageForReflogPage(requestId, ref, offset, REFLOG_PAGE_SIZE));
+    }, []);
+
+    useEffect(() => {
+        if (state.generation === 0) { return; }
+        requestPage(state.selectedRef, 0);
+    }, [requestPage, state.generation, state.selectedRef]);
+
+    return (
+        <ReflogApp
+            title={state.title}
+            refs={state.refs}
+            selectedRef={state.selectedRef}
+            entries={state.entries}
+            hasMore={state.hasMore}
+            loading={state.loading}
+            error={state.error}
+            actionStatus={state.actionStatus}
+            operationPlan={state.operationPlan}
+            onSelectRef={(ref: string) => dispatch({ type: 'selectRef', ref })}
+            onLoadMore={() => requestPage(state.selectedRef, state.entries.length)}
+            onRefresh={() => requestPage(state.selectedRef, 0)}
+            onReset={(entry: ReflogEntry, mode: ReflogResetMode) => postToExtension(messageForReflogReset(entry, mode))}
+            onCreateBranch={(entry: ReflogEntry) => postToExtension(messageForReflogCreateBranch(entry))}
+            onCompareWithHead={(entry: ReflogEntry) => postToExtension(messageForReflogCompareWithHead(entry))}
+            onShowOutput={() => postToExtension(messageForReflogShowOutput())}
+            onDismissStatus={() => dispatch({ type: 'clearActionStatus' })}
+            onAcknowledgeOperationPlan={(acknowledgement: OperationPlanAcknowledgement) => {
+                dispatch({ type: 'closeOperationPlan', planId: acknowledgement.planId });
+                postToExtension(messageForReflogAcknowledgeOperationPlan(acknowledgement));
+            }}
+            onCancelOperationPlan={(planId: string) => {
+                dispatch({ type: 'closeOperationPlan', planId });
+                postToExtension(messageForReflogCancelOperationPlan(planId));
+            }}
+        />
+    );
+}
+
+function requestIdForReflog(): string {
+    return globalThis.crypto?.randomUUID?.() ?? `${Date.now()}-${Math.random().toString(16).slice(2)}`;
+}
+
+function postToExtension(message: ReflogWebviewToExtensionMessage): void {
+    vscodeApi.postMessage(message);
+}
@@ -0,0 +1,38 @@
+import type { BisectBannerCommand, BisectStatus } from '@protocol/shared/bisect';
+import { bisectSummary } from '@webview/shared/bisect-summary';
+
+interface BisectBannerProps {
+    readonly status: BisectStatus;
+    readonly onCommand: (command: BisectBannerCommand) => void;
+}
+
+export function BisectBanner({ status, onCommand }: BisectBannerProps) {
+    const summary = bisectSummary(status);
+    return (
+        <section className={`bisect-banner${summary.finished ? ' bisect-banner-finished' : ''}`} aria-label="Bisect in progress" aria-live="polite">
+            <div className="bisect-banner-summary">
+                <strong>{summary.title}</strong>
+                <span>{summary.detail}</span>
+            </div>
+            <div className="operation-actions">
+                {!summary.finished && (
+                    <>
+                        <button type="button" title="Mark the checked-out commit as good" onClick={() => onCommand('good')}>Good</button>
+                        <button type="button" title="Mark the checked-out commit as bad" onClick={() => onCommand('bad')}>Bad</button>
+                        <button type="button" title="Skip the checked-out commit" onClick={() => onCommand('skip')}>Skip</button>
+                        <button type="button" title="Run a shell command on each step" onClick={() => onCommand('run')}>Run…</button>
+                    </>
+                )}
+                <button type="button" title="Open the bisect panel" onClick={() => onCommand('openPanel')}>Open Panel</button>
+                <button
+                    type="button"
+                    className={summary.finished ? 'operation-primary-action' : undefined}
+                    title="End the bisect and return to the original branch"
+                    onClick={() => onCommand('reset')}
+                >
+                    Reset
+                </button>
+            </div>
+        </section>
+    );
+}
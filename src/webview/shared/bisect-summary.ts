@@ -0,0 +1,30 @@
+import type { BisectStatus } from '@protocol/shared/bisect';
+
+export interface BisectSummary {
+    readonly title: string;
+    readonly detail: string;
+    readonly finished: boolean;
+}
+
+export function bisectSummary(status: BisectStatus): BisectSummary {
+    if (status.firstBadHash) {
+        return {
+            title: `First bad commit: ${status.firstBadHash.substring(0, 7)}`,
+            detail: 'Reset the bisect to return to the original branch.',
+            finished: true,
+        };
+    }
+    if (!status.badHash) {
+        return { title: 'Bisecting', detail: 'Mark a bad commit to narrow the search.', finished: false };
+    }
+    if (status.goodHashes.length === 0) {
+        return { title: 'Bisecting', detail: 'Mark a good commit to narrow the search.', finished: false };
+    }
+    const revisions = status.remainingRevisions ?? 0;
+    const steps = status.remainingSteps ?? 0;
+    return {
+        title: `Bisecting: ${revisions} ${revisions === 1 ? 'revision' : 'revisions'} left`,
+        detail: `Roughly ${steps} ${steps === 1 ? 'step' : 'steps'} to go. Test the checked-out commit, then mark it.`,
+        finished: false,
+    };
+}
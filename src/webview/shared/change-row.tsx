@@ -4,6 +4,7 @@ import type { ChangeActionDescriptor } from '@webview/shared/change-row-actions'
 import { FileTypeIcon } from '@webview/shared/file-type-icon';
 import { iconKindForPath } from '@webview/shared/file-icon-model';
 import { IconButton } from '@webview/shared/icon-button';
+import { LfsBadge } from '@webview/shared/lfs-badge';
 import { SelectionCheckbox } from '@webview/shared/selection-checkbox';
 import { depthStyle } from '@webview/shared/view-styles';
 
@@ -23,6 +24,9 @@ interface SharedChangeRowProps<TItem extends SharedChangeRowItem, TAction extend
     readonly primaryAction?: TAction;
     readonly alwaysShowActions?: boolean;
     readonly showSelectionCheckbox?: boolean;
+    /** Renders a disclosure toggle before the file icon when provided. */
+    readonly expanded?: boolean;
+    readonly onToggleExpanded?: (item: TItem) => void;
     readonly onSelect: (item: TItem, mode: ChangeRowSelectionMode) => void;
     readonly onOpenContextMenu: (item: TItem) => void;
     readonly onAction: (item: TItem, action: TAction) => void;
@@ -37,6 +41,8 @@ export function SharedChangeRow<TItem extends SharedChangeRowItem, TAction exten
     primaryAction,
     alwaysShowActions = false,
     showSelectionCheckbox = false,
+    expanded = false,
+    onToggleExpanded,
     onSelect,
     onOpenContextMenu,
     onAction,
@@ -117,11 +123,27 @@ export function SharedChangeRow<TItem extends SharedChangeRowItem, TAction exten
                     onToggle={() => onSelect(item, 'toggle')}
                 />
             ) : null}
+            {onToggleExpanded ? (
+                <button
+                    type="button"
+                    className="change-row-toggle"
+                    title={expanded ? 'Hide changed lines' : 'Show changed lines'}
+                    aria-label={expanded ? 'Hide changed lines' : 'Show changed lines'}
+                    aria-expanded={expanded}
+                    onClick={(event) => {
+                        event.stopPropagation();
+                        onToggleExpanded(item);
+                    }}
+                >
+                    <i className={`codicon codicon-chevron-${expanded ? 'down' : 'right'}`} aria-hidden="true" />
+                </button>
+            ) : null}
             <FileTypeIcon kind={entry.isSubmodule ? 'file-type-git' : iconKindForPath(entry.filePath)} />
             <div className="file-info">
                 <span className="file-name">{fileName(entry.filePath)}</span>
                 <span className="file-path">{parentPath(entry)}</span>
             </div>
+            <LfsBadge isLfs={entry.isLfs} />
             {showActions ? (
                 <div className="row-actions" aria-label={`Actions for ${entry.filePath}`}>
                     {actions.map((descriptor) => (
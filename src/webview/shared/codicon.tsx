@@ -8,8 +8,10 @@ export type CodiconName =
     | 'discard'
     | 'diff'
     | 'error'
+    | 'file'
     | 'fold-down'
     | 'fold-up'
+    | 'folder'
     | 'folder-opened'
     | 'git-compare'
     | 'git-merge'
@@ -17,7 +19,10 @@ export type CodiconName =
     | 'git-stash-apply'
     | 'go-to-file'
     | 'grabber'
+    | 'history'
+    | 'info'
     | 'loading'
+    | 'note'
     | 'pass'
     | 'remove'
     | 'search'
@@ -25,6 +30,8 @@ export type CodiconName =
     | 'sparkle'
     | 'trash'
     | 'unarchive'
+    | 'unverified'
+    | 'verified'
     | 'warning';
 
 interface CodiconProps {
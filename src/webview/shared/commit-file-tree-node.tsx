@@ -4,17 +4,20 @@ import { IconButton } from '@webview/shared/icon-button';
 import { CommitFileTypeIcon } from '@webview/shared/commit-file-type-icon';
 import { iconKindForCommitFile } from '@webview/shared/commit-file-icon-model';
 import type { FileTreeNode } from '@webview/shared/commit-file-tree-model';
+import { LfsBadge } from '@webview/shared/lfs-badge';
 
 interface FileTreeNodeViewProps {
     readonly node: FileTreeNode;
     readonly depth: number;
     readonly onDiff: (file: CommitFileChange) => void;
+    /** Shows a blame action on files that exist after the change. */
+    readonly onBlame?: (file: CommitFileChange) => void;
     readonly diffable?: boolean;
     readonly selectedFileId?: string;
     readonly onSelectFile?: (fileId: string) => void;
 }
 
-export function FileTreeNodeView({ node, depth, onDiff, diffable = true, selectedFileId, onSelectFile }: FileTreeNodeViewProps) {
+export function FileTreeNodeView({ node, depth, onDiff, onBlame, diffable = true, selectedFileId, onSelectFile }: FileTreeNodeViewProps) {
     const [collapsed, setCollapsed] = useState(false);
     const indent = depth * 14 + 10;
 
@@ -44,6 +47,7 @@ export function FileTreeNodeView({ node, depth, onDiff, diffable = true, selecte
                         node={child}
                         depth={depth + 1}
                         onDiff={onDiff}
+                        onBlame={onBlame}
                         diffable={diffable}
                         selectedFileId={selectedFileId}
                         onSelectFile={onSelectFile}
@@ -82,8 +86,16 @@ export function FileTreeNodeView({ node, depth, onDiff, diffable = true, selecte
         >
             <CommitFileTypeIcon kind={kind} />
             <span className="commit-file-name">{node.name}</span>
+            <LfsBadge isLfs={file.isLfs} />
             {diffable ? (
                 <div className="commit-file-actions">
+                    {onBlame && file.status.charAt(0) !== 'D' && !file.isSubmodule ? (
+                        <IconButton
+                            icon="git-commit"
+                            title="Blame at this revision"
+                            onClick={(e) => { e.stopPropagation(); onBlame(file); }}
+                        />
+                    ) : null}
                     <IconButton
                         icon="diff"
                         title="Open diff"
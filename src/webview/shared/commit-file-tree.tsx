@@ -7,11 +7,12 @@ import { buildFileTree, type FileTreeNode } from '@webview/shared/commit-file-tr
 interface CommitFileTreeProps {
     readonly files: readonly CommitFileChange[];
     readonly onDiff: (file: CommitFileChange) => void;
+    readonly onBlame?: (file: CommitFileChange) => void;
     readonly diffable?: boolean;
     readonly viewMode?: ViewMode;
 }
 
-export function CommitFileTree({ files, onDiff, diffable = true, viewMode = ViewMode.Tree }: CommitFileTreeProps) {
+export function CommitFileTree({ files, onDiff, onBlame, diffable = true, viewMode = ViewMode.Tree }: CommitFileTreeProps) {
     const [selectedFileId, setSelectedFileId] = useState<string | undefined>(undefined);
     const tree = viewMode === ViewMode.Tree ? buildFileTree(files) : files.map(fileListNode);
     return (
@@ -22,6 +23,7 @@ export function CommitFileTree({ files, onDiff, diffable = true, viewMode = View
                     node={node}
                     depth={0}
                     onDiff={onDiff}
+                    onBlame={onBlame}
                     diffable={diffable}
                     selectedFileId={selectedFileId}
                     onSelectFile={setSelectedFileId}
@@ -0,0 +1,28 @@
+import type { CommitMessageDiagnostic } from '@protocol/shared/commit-message-rules';
+import { Codicon } from '@webview/shared/codicon';
+
+interface CommitMessageDiagnosticsProps {
+    readonly diagnostics: readonly CommitMessageDiagnostic[];
+    /** Shows the diagnostics as errors that keep the message from being committed. */
+    readonly blocking: boolean;
+    readonly rulesError?: string;
+}
+
+/** Commit message rule violations as a warning list; renders nothing when the message passes. */
+export function CommitMessageDiagnostics({ diagnostics, blocking, rulesError }: CommitMessageDiagnosticsProps) {
+    if (diagnostics.length === 0 && !rulesError) { return null; }
+    const level = blocking ? 'error' : 'warning';
+    return (
+        <ul className="commit-message-diagnostics" aria-label="Commit message rules">
+            {rulesError ? (
+                <li data-level="warning"><Codicon name="warning" /><span>{rulesError}</span></li>
+            ) : null}
+            {diagnostics.map((diagnostic) => (
+                <li key={`${diagnostic.rule}:${diagnostic.line}:${diagnostic.message}`} data-level={level} title={`Line ${diagnostic.line}`}>
+                    <Codicon name={level} />
+                    <span>{diagnostic.message}</span>
+                </li>
+            ))}
+        </ul>
+    );
+}
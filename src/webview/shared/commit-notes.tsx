@@ -0,0 +1,26 @@
+import type { CommitNote } from '@protocol/shared/commit';
+import { Codicon } from '@webview/shared/codicon';
+
+const NOTES_REF_PREFIX = 'refs/notes/';
+
+interface CommitNotesProps {
+    readonly notes: readonly CommitNote[] | undefined;
+}
+
+/** Notes of a commit, one block per notes ref; renders nothing for commits without notes. */
+export function CommitNotes({ notes }: CommitNotesProps) {
+    if (!notes || notes.length === 0) { return null; }
+    return (
+        <section className="commit-notes" aria-label="Notes">
+            {notes.map((note) => (
+                <div key={note.ref} className="commit-note">
+                    <div className="commit-note-ref" title={note.ref}>
+                        <Codicon name="note" />
+                        <span>{note.ref.startsWith(NOTES_REF_PREFIX) ? note.ref.substring(NOTES_REF_PREFIX.length) : note.ref}</span>
+                    </div>
+                    <p className="commit-note-message">{note.message}</p>
+                </div>
+            ))}
+        </section>
+    );
+}
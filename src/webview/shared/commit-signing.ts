@@ -0,0 +1,16 @@
+const SIGNING_FORMAT_LABELS: Readonly<Record<string, string>> = {
+    openpgp: 'GPG',
+    ssh: 'SSH',
+    x509: 'X.509',
+};
+
+/** Names a `gpg.format` value the way the sign toggles show it; unknown formats are shown as configured. */
+export function signingFormatLabel(format: string): string {
+    return SIGNING_FORMAT_LABELS[format] ?? format;
+}
+
+/** Tooltip of a sign toggle: whether it signs, with which format, and whether that is `commit.gpgSign`'s default. */
+export function signToggleTitle(sign: boolean, format: string, configured: boolean): string {
+    const action = sign ? `Sign with ${signingFormatLabel(format)}` : `Do not sign (${signingFormatLabel(format)} signing available)`;
+    return sign === configured ? `${action}, as commit.gpgSign sets` : `${action}, overriding commit.gpgSign`;
+}
@@ -0,0 +1,33 @@
+import { Codicon } from '@webview/shared/codicon';
+import type { CommitTrailer } from '@webview/shared/commit-trailers';
+
+interface CommitTrailerChipsProps {
+    readonly trailers: readonly CommitTrailer[];
+    /** Adds a remove button to each chip. */
+    readonly onRemove?: (index: number) => void;
+}
+
+/** Commit trailers as `Key value` chips; renders nothing without trailers. */
+export function CommitTrailerChips({ trailers, onRemove }: CommitTrailerChipsProps) {
+    if (trailers.length === 0) { return null; }
+    return (
+        <ul className="commit-trailer-chips" aria-label="Trailers">
+            {trailers.map((trailer, index) => (
+                <li key={`${trailer.key}:${trailer.value}`} className="commit-trailer-chip" title={`${trailer.key}: ${trailer.value}`}>
+                    <span className="commit-trailer-key">{trailer.key}</span>
+                    <span className="commit-trailer-value">{trailer.value}</span>
+                    {onRemove ? (
+                        <button
+                            type="button"
+                            className="commit-trailer-remove"
+                            aria-label={`Remove ${trailer.key}: ${trailer.value}`}
+                            onClick={() => onRemove(index)}
+                        >
+                            <Codicon name="close" />
+                        </button>
+                    ) : null}
+                </li>
+            ))}
+        </ul>
+    );
+}
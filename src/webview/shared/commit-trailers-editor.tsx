@@ -0,0 +1,105 @@
+import { useEffect, useId, useRef, useState } from 'react';
+import type { CommitIdentity } from '@protocol/shared/commit';
+import { Codicon } from '@webview/shared/codicon';
+import { CommitTrailerChips } from '@webview/shared/commit-trailer-chips';
+import {
+    CO_AUTHORED_BY,
+    COMMON_TRAILER_KEYS,
+    formatTrailerIdentity,
+    isValidTrailerKey,
+    normalizeCommitTrailers,
+    type CommitTrailer,
+} from '@webview/shared/commit-trailers';
+
+const CUSTOM_KEY = '';
+
+interface CommitTrailersEditorProps {
+    readonly trailers: readonly CommitTrailer[];
+    /** Suggested `Co-authored-by` identities; undefined until they are loaded. */
+    readonly coAuthorCandidates: readonly CommitIdentity[] | undefined;
+    readonly onChange: (trailers: readonly CommitTrailer[]) => void;
+    readonly onRequestCoAuthorCandidates?: () => void;
+}
+
+/** Trailers as removable chips plus a key/value row to add one; co-authors are suggested from recent authors. */
+export function CommitTrailersEditor({ trailers, coAuthorCandidates, onChange, onRequestCoAuthorCandidates }: CommitTrailersEditorProps) {
+    const [selectedKey, setSelectedKey] = useState(CO_AUTHORED_BY);
+    const [customKey, setCustomKey] = useState('');
+    const [value, setValue] = useState('');
+    const suggestionsId = useId();
+    const requestedCandidatesRef = useRef(false);
+
+    useEffect(() => {
+        if (coAuthorCandidates !== undefined || requestedCandidatesRef.current) { return; }
+        requestedCandidatesRef.current = true;
+        onRequestCoAuthorCandidates?.();
+    }, [coAuthorCandidates, onRequestCoAuthorCandidates]);
+
+    const key = selectedKey === CUSTOM_KEY ? customKey.trim() : selectedKey;
+    const canAdd = isValidTrailerKey(key) && value.trim().length > 0;
+    const suggestions = key === CO_AUTHORED_BY
+        ? (coAuthorCandidates ?? [])
+            .map(formatTrailerIdentity)
+            .filter((identity) => !trailers.some((trailer) => trailer.key === CO_AUTHORED_BY && trailer.value === identity))
+        : [];
+
+    const addTrailer = () => {
+        if (!canAdd) { return; }
+        onChange(normalizeCommitTrailers([...trailers, { key, value }]));
+        setValue('');
+    };
+
+    return (
+        <div className="commit-trailers-editor" role="group" aria-label="Trailers">
+            <CommitTrailerChips trailers={trailers} onRemove={(index) => onChange(trailers.filter((_, candidate) => candidate !== index))} />
+            <div className="commit-trailer-add-row">
+                <select
+                    className="commit-trailer-key-select"
+                    aria-label="Trailer key"
+                    value={selectedKey}
+                    onChange={(event) => setSelectedKey(event.currentTarget.value)}
+                >
+                    {COMMON_TRAILER_KEYS.map((option) => <option key={option} value={option}>{option}</option>)}
+                    <option value={CUSTOM_KEY}>Custom...</option>
+                </select>
+                {selectedKey === CUSTOM_KEY ? (
+                    <input
+                        className="commit-trailer-input commit-trailer-custom-key"
+                        aria-label="Custom trailer key"
+                        placeholder="Key"
+                        value={customKey}
+                        onChange={(event) => setCustomKey(event.currentTarget.value)}
+                    />
+                ) : null}
+                <input
+                    className="commit-trailer-input"
+                    aria-label="Trailer value"
+                    placeholder={key === CO_AUTHORED_BY ? 'Name <email>' : 'Value'}
+                    list={suggestions.length > 0 ? suggestionsId : undefined}
+                    value={value}
+                    onChange={(event) => setValue(event.currentTarget.value)}
+                    onKeyDown={(event) => {
+                        if (event.key !== 'Enter') { return; }
+                        event.preventDefault();
+                        addTrailer();
+                    }}
+                />
+                {suggestions.length > 0 ? (
+                    <datalist id={suggestionsId}>
+                        {suggestions.map((identity) => <option key={identity} value={identity} />)}
+                    </datalist>
+                ) : null}
+                <button
+                    type="button"
+                    className="commit-trailer-add"
+                    title="Add trailer"
+                    aria-label="Add trailer"
+                    disabled={!canAdd}
+                    onClick={addTrailer}
+                >
+                    <Codicon name="add" />
+                </button>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,102 @@
+import type { CommitIdentity } from '@protocol/shared/commit';
+
+export interface CommitTrailer {
+    readonly key: string;
+    readonly value: string;
+}
+
+/** Message split at its trailer block; `body` is the text before the block, without trailing blank lines. */
+export interface CommitMessageTrailers {
+    readonly body: string;
+    readonly trailers: readonly CommitTrailer[];
+}
+
+export const CO_AUTHORED_BY = 'Co-authored-by';
+export const SIGNED_OFF_BY = 'Signed-off-by';
+
+export const COMMON_TRAILER_KEYS: readonly string[] = [CO_AUTHORED_BY, SIGNED_OFF_BY, 'Reviewed-by', 'Refs'];
+
+// Lines git itself writes into trailer blocks; they let a block with some free text still count as trailers.
+const GIT_GENERATED_PREFIXES = [`${SIGNED_OFF_BY}: `, '(cherry picked from commit '];
+const TRAILER_LINE = /^([A-Za-z0-9][A-Za-z0-9-]*)\s*:\s*(.*)$/;
+const TRAILER_KEY = /^[A-Za-z0-9][A-Za-z0-9-]*$/;
+const CANONICAL_KEYS = new Map(COMMON_TRAILER_KEYS.map((key) => [key.toLowerCase(), key]));
+
+/**
+ * Splits off the trailer block the way `git interpret-trailers --parse` finds it: the last paragraph,
+ * never the subject, made of `Key: value` lines with indented continuation lines folded in. A paragraph
+ * mixing in free text still counts when a git-generated line is present and at least a quarter of it is
+ * trailers; its free-text lines then stay at the end of `body` so nothing is lost on rewrite.
+ */
+export function splitCommitTrailers(message: string): CommitMessageTrailers {
+    const lines = message.split(/\r?\n/);
+    let end = lines.length;
+    while (end > 0 && !lines[end - 1]?.trim()) { end -= 1; }
+    let start = end;
+    while (start > 0 && lines[start - 1]?.trim()) { start -= 1; }
+    if (start === 0 || start === end) { return { body: message, trailers: [] }; }
+
+    const trailers: { key: string; value: string }[] = [];
+    const freeText: string[] = [];
+    let recognized = false;
+    let continues: { key: string; value: string } | undefined;
+    for (const line of lines.slice(start, end)) {
+        if (/^\s/.test(line) && continues) {
+            continues.value = `${continues.value} ${line.trim()}`;
+            continue;
+        }
+        if (GIT_GENERATED_PREFIXES.some((prefix) => line.startsWith(prefix))) { recognized = true; }
+        const match = TRAILER_LINE.exec(line);
+        if (match) {
+            continues = { key: match[1] ?? '', value: match[2] ?? '' };
+            trailers.push(continues);
+        } else {
+            continues = undefined;
+            freeText.push(line);
+        }
+    }
+    const isBlock = trailers.length > 0 && (freeText.length === 0 || (recognized && trailers.length * 3 >= freeText.length));
+    if (!isBlock) { return { body: message, trailers: [] }; }
+
+    const bodyLines = freeText.length > 0 ? [...lines.slice(0, start), ...freeText] : lines.slice(0, start);
+    return { body: bodyLines.join('\n').trimEnd(), trailers: normalizeCommitTrailers(trailers) };
+}
+
+/** Known keys take their usual spelling, values are trimmed, and empty or repeated trailers are dropped. */
+export function normalizeCommitTrailers(trailers: readonly CommitTrailer[]): readonly CommitTrailer[] {
+    const seen = new Set<string>();
+    const normalized: CommitTrailer[] = [];
+    for (const trailer of trailers) {
+        const key = normalizeTrailerKey(trailer.key);
+        const value = trailer.value.replace(/\s+/g, ' ').trim();
+        if (!isValidTrailerKey(key) || !value) { continue; }
+        const identity = `${key.toLowerCase()}\n${value}`;
+        if (seen.has(identity)) { continue; }
+        seen.add(identity);
+        normalized.push({ key, value });
+    }
+    return normalized;
+}
+
+export function normalizeTrailerKey(key: string): string {
+    const trimmed = key.trim().replace(/:$/, '').trim();
+    return CANONICAL_KEYS.get(trimmed.toLowerCase()) ?? trimmed;
+}
+
+export function isValidTrailerKey(key: string): boolean {
+    return TRAILER_KEY.test(key.trim());
+}
+
+/** Appends `trailers` to the trailer block of `message`, merging with the trailers it already has. */
+export function composeCommitMessage(message: string, trailers: readonly CommitTrailer[]): string {
+    const parsed = splitCommitTrailers(message.trim());
+    const merged = normalizeCommitTrailers([...parsed.trailers, ...trailers]);
+    const body = parsed.body.trim();
+    if (merged.length === 0) { return body; }
+    const block = merged.map((trailer) => `${trailer.key}: ${trailer.value}`).join('\n');
+    return body ? `${body}\n\n${block}` : block;
+}
+
+export function formatTrailerIdentity(identity: CommitIdentity): string {
+    return `${identity.name} <${identity.email}>`;
+}
@@ -0,0 +1,9 @@
+interface LfsBadgeProps {
+    readonly isLfs: boolean | undefined;
+}
+
+/** Marks a file tracked by Git LFS; renders nothing for other files. */
+export function LfsBadge({ isLfs }: LfsBadgeProps) {
+    if (!isLfs) { return null; }
+    return <span className="lfs-badge" title="Stored in Git LFS">LFS</span>;
+}
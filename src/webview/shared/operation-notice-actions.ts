@@ -4,6 +4,7 @@ import type { OperationNoticeAction } from '@webview/shared/operation-notice';
 interface OperationNoticeActionHandlers {
     readonly onShowOutput?: () => void;
     readonly onRetry?: () => void;
+    readonly onUndo?: () => void;
     readonly onDismiss?: () => void;
 }
 
@@ -22,6 +23,10 @@ export function operationNoticeActions(
                 return handlers.onRetry
                     ? [{ label: 'Retry', title: 'Run the operation again', onClick: handlers.onRetry }]
                     : [];
+            case OperationNoticeActionKind.Undo:
+                return handlers.onUndo
+                    ? [{ label: 'Undo', title: 'Undo this operation', onClick: handlers.onUndo }]
+                    : [];
         }
     });
     if (options.dismissible && handlers.onDismiss) {
@@ -0,0 +1,99 @@
+import { useState } from 'react';
+import type { OperationPlanAcknowledgement, OperationPlanGuard, OperationPlanGuardKind, OperationPlanPrompt } from '@protocol/shared/operation-plan';
+import { Codicon, type CodiconName } from '@webview/shared/codicon';
+import { Modal } from '@webview/shared/modal';
+
+const MAX_LISTED_TARGETS = 50;
+
+interface OperationPlanDialogProps {
+    readonly plan: OperationPlanPrompt | undefined;
+    readonly onConfirm: (acknowledgement: OperationPlanAcknowledgement) => void;
+    readonly onCancel: (planId: string) => void;
+}
+
+/** Structured confirmation for a host-built operation plan. Danger guards must each be checked before the action is enabled. */
+export function OperationPlanDialog({ plan, onConfirm, onCancel }: OperationPlanDialogProps) {
+    if (!plan) { return null; }
+    return <OperationPlanDialogContent key={plan.planId} plan={plan} onConfirm={onConfirm} onCancel={onCancel} />;
+}
+
+interface OperationPlanDialogContentProps {
+    readonly plan: OperationPlanPrompt;
+    readonly onConfirm: (acknowledgement: OperationPlanAcknowledgement) => void;
+    readonly onCancel: (planId: string) => void;
+}
+
+function OperationPlanDialogContent({ plan, onConfirm, onCancel }: OperationPlanDialogContentProps) {
+    const [checkedGuards, setCheckedGuards] = useState<ReadonlySet<OperationPlanGuardKind>>(() => new Set());
+    const unchecked = plan.guards.filter((guard) => guard.level === 'danger' && !checkedGuards.has(guard.kind));
+    const listedTargets = plan.targets.slice(0, MAX_LISTED_TARGETS);
+    const toggleGuard = (kind: OperationPlanGuardKind) => {
+        setCheckedGuards((current) => {
+            const next = new Set(current);
+            if (!next.delete(kind)) { next.add(kind); }
+            return next;
+        });
+    };
+    return (
+        <Modal
+            isOpen
+            title={plan.title}
+            className="operation-plan-modal"
+            closeOnBackdropClick={false}
+            onClose={() => onCancel(plan.planId)}
+        >
+            <ul className="operation-plan-guards" aria-label="Before you continue">
+                {plan.guards.map((guard) => (
+                    <li key={guard.kind} data-level={guard.level}>
+                        {guard.level === 'danger' ? (
+                            <label>
+                                <input type="checkbox" checked={checkedGuards.has(guard.kind)} onChange={() => toggleGuard(guard.kind)} />
+                                <span>{guard.reason}</span>
+                            </label>
+                        ) : (
+                            <>
+                                <Codicon name={guardIcon(guard)} />
+                                <span>{guard.reason}</span>
+                            </>
+                        )}
+                    </li>
+                ))}
+            </ul>
+            {listedTargets.length > 0 ? (
+                <ul className="operation-plan-targets" aria-label="Affected items">
+                    {listedTargets.map((target) => (
+                        <li key={`${target.kind}:${target.id}`} title={target.label}>{target.label}</li>
+                    ))}
+                    {plan.targets.length > listedTargets.length ? (
+                        <li className="operation-plan-more">and {plan.targets.length - listedTargets.length} more</li>
+                    ) : null}
+                </ul>
+            ) : null}
+            {plan.recovery ? (
+                <p className="operation-plan-recovery">
+                    <Codicon name="history" />
+                    <span>{plan.recovery}</span>
+                </p>
+            ) : null}
+            <div className="operation-actions operation-plan-actions">
+                <button type="button" onClick={() => onCancel(plan.planId)}>Cancel</button>
+                <button
+                    type="button"
+                    className="operation-primary-action"
+                    disabled={unchecked.length > 0}
+                    onClick={() => onConfirm({
+                        planId: plan.planId,
+                        acknowledgedGuards: plan.guards.map((guard) => guard.kind),
+                        ...(plan.previewHash ? { previewHash: plan.previewHash } : {}),
+                    })}
+                >
+                    {plan.confirmLabel}
+                </button>
+            </div>
+        </Modal>
+    );
+}
+
+function guardIcon(guard: OperationPlanGuard): CodiconName {
+    return guard.level === 'warning' ? 'warning' : 'info';
+}
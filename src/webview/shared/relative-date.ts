@@ -0,0 +1,15 @@
+export function formatRelativeDate(iso: string): string {
+    const date = new Date(iso);
+    if (Number.isNaN(date.getTime())) { return iso; }
+    const diffMs = Date.now() - date.getTime();
+    const minutes = Math.floor(diffMs / 60_000);
+    if (minutes < 1) { return 'just now'; }
+    if (minutes < 60) { return `${minutes}m ago`; }
+    const hours = Math.floor(minutes / 60);
+    if (hours < 24) { return `${hours}h ago`; }
+    const days = Math.floor(hours / 24);
+    if (days < 30) { return `${days}d ago`; }
+    const months = Math.floor(days / 30);
+    if (months < 12) { return `${months}mo ago`; }
+    return `${Math.floor(months / 12)}y ago`;
+}
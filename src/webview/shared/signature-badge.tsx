@@ -0,0 +1,35 @@
+import type { CommitSignature, CommitSignatureStatus } from '@protocol/shared/commit';
+import { Codicon } from '@webview/shared/codicon';
+
+const SIGNATURE_LABELS: Readonly<Record<CommitSignatureStatus, string>> = {
+    good: 'Good signature',
+    bad: 'Bad signature',
+    untrusted: 'Good signature from an untrusted key',
+    expired: 'Signature made with an expired key',
+    unknown: 'Signature cannot be checked',
+};
+
+interface SignatureBadgeProps {
+    readonly signature: CommitSignature | undefined;
+    readonly showLabel?: boolean;
+}
+
+/** Verification badge of a signed commit; renders nothing for unsigned commits. */
+export function SignatureBadge({ signature, showLabel = false }: SignatureBadgeProps) {
+    if (!signature) { return null; }
+    const title = signatureTooltip(signature);
+    return (
+        <span className={`signature-badge signature-badge-${signature.status}`} title={title} aria-label={showLabel ? undefined : title}>
+            <Codicon name={signature.status === 'good' ? 'verified' : 'unverified'} />
+            {showLabel ? <span className="signature-badge-label">{SIGNATURE_LABELS[signature.status]}</span> : null}
+        </span>
+    );
+}
+
+function signatureTooltip(signature: CommitSignature): string {
+    return [
+        SIGNATURE_LABELS[signature.status],
+        ...(signature.signer ? [`Signer: ${signature.signer}`] : []),
+        ...(signature.key ? [`Key: ${signature.key}`] : []),
+    ].join('\n');
+}
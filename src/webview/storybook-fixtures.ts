@@ -1,5 +1,5 @@
 import { ConflictState, type StatusEntry, type StashEntry, type StashFileEntry, type SubmoduleEntry, type SubmoduleStatusData } from '@protocol/changes/types';
-import type { BranchInfo, CommitFileChange, GraphCommit, GraphSubmoduleInfo, WorktreeInfo, WorktreeWip } from '@protocol/graph/types';
+import type { BranchInfo, CommitFileChange, GraphCommit, GraphStashInfo, GraphSubmoduleInfo, RebaseBackupInfo, TagInfo, WorktreeInfo, WorktreeWip } from '@protocol/graph/types';
 import type { HistoryCommit, HistoryCommitDetails, HistoryCommitFile } from '@protocol/history/types';
 import { OperationNoticeActionKind, OperationStatus } from '@protocol/shared/operation';
 import { SubmoduleStatus } from '@protocol/shared/repo';
@@ -67,6 +67,50 @@ export const worktrees = [
     { path: '/workspace/look-git-review', head: 'ccccccc', branch: 'refs/heads/feature/rebase-panel', isMain: false, isDetached: false, isLocked: true, lockReason: 'reviewing visual rebase' },
 ] as const satisfies readonly WorktreeInfo[];
 
+export const rebaseBackups = [
+    {
+        ref: 'refs/look-git/backup/feature-storybook-20260412-091530',
+        hash: 'd4e5f6a7b8c9d0e1f2a3b4c5d6e7f8a9b0c1d2e3',
+        branchLabel: 'feature-storybook',
+        branch: 'feature/storybook',
+        createdAt: Date.UTC(2026, 3, 12, 9, 15, 30),
+        commitCount: 3,
+    },
+    {
+        ref: 'refs/look-git/backup/spike-lanes-20260328-170204',
+        hash: 'e5f6a7b8c9d0e1f2a3b4c5d6e7f8a9b0c1d2e3f4',
+        branchLabel: 'spike-lanes',
+        createdAt: Date.UTC(2026, 2, 28, 17, 2, 4),
+    },
+] satisfies readonly RebaseBackupInfo[];
+
+export const tags = [
+    {
+        name: 'v1.10.0',
+        hash: 'f6a7b8c9d0e1f2a3b4c5d6e7f8a9b0c1d2e3f4a5',
+        target: 'a7b8c9d0e1f2a3b4c5d6e7f8a9b0c1d2e3f4a5b6',
+        annotated: true,
+        taggerName: 'Ana Storybook',
+        taggerEmail: 'ana@example.test',
+        date: '2026-04-10T12:00:00+00:00',
+        message: 'Release 1.10.0\n\nAdds the Tags group.',
+    },
+    {
+        name: 'v1.9.2',
+        hash: 'b8c9d0e1f2a3b4c5d6e7f8a9b0c1d2e3f4a5b6c7',
+        target: 'b8c9d0e1f2a3b4c5d6e7f8a9b0c1d2e3f4a5b6c7',
+        annotated: false,
+        date: '2026-04-18T08:30:00+00:00',
+    },
+    {
+        name: 'v1.10.0-rc.1',
+        hash: 'c9d0e1f2a3b4c5d6e7f8a9b0c1d2e3f4a5b6c7d8',
+        target: 'c9d0e1f2a3b4c5d6e7f8a9b0c1d2e3f4a5b6c7d8',
+        annotated: false,
+        date: '2026-04-02T16:45:00+00:00',
+    },
+] satisfies readonly TagInfo[];
+
 export const graphSubmodules = [
     {
         path: 'vendor/ui-kit',
@@ -99,6 +143,16 @@ export const commitDetails = {
     files: commitFiles,
 } satisfies CommitDetails;
 
+export const commitDetailsWithRemoteLinks = {
+    ...commitDetails,
+    fullMessage: 'feat(webview): add Storybook component previews (#42)\n\nDesign notes: https://example.com/look-git/storybook.',
+    webUrl: 'https://github.com/look-git/look-git/commit/bbbbbbb222222222222222222222222222222222',
+    messageLinks: [
+        { start: 49, end: 52, url: 'https://github.com/look-git/look-git/issues/42' },
+        { start: 69, end: 107, url: 'https://example.com/look-git/storybook' },
+    ],
+} satisfies CommitDetails;
+
 export const graphCommits = [
     graphCommit('bbbbbbb222222222222222222222222222222222', 'feat(webview): add Storybook component previews', ['HEAD -> feature/storybook', 'origin/feature/storybook'], ['aaaaaaa111111111111111111111111111111111']),
     graphCommit('aaaaaaa111111111111111111111111111111111', 'fix(graph): make reset command context safe', ['main', 'origin/main'], []),
@@ -143,6 +197,16 @@ export const worktreeWip = {
     conflicts: 1,
 } satisfies WorktreeWip;
 
+export const graphStash = {
+    index: 0,
+    hash: 'ccccccc333333333333333333333333333333333',
+    baseHash: graphCommits[1].hash,
+    indexHash: 'ddddddd444444444444444444444444444444444',
+    untrackedHash: 'eeeeeee555555555555555555555555555555555',
+    message: 'WIP on main: try a denser lane layout',
+    date: '2026-01-12T16:40:00Z',
+} satisfies GraphStashInfo;
+
 export const graphOperation = {
     type: 'graph/operationStatus',
     operationId: 'storybook-operation',
@@ -10,8 +10,9 @@ export function messageForVisualRebaseStart(
     rewriteAfter: string,
     replayOnto: string,
     plan: readonly VisualRebasePlanEntry[],
+    sign?: boolean,
 ): VisualRebaseStartMessage {
-    return { type: 'visualRebase/start', rewriteAfter, replayOnto, plan };
+    return { type: 'visualRebase/start', rewriteAfter, replayOnto, plan, ...(sign !== undefined ? { sign } : {}) };
 }
 
 export function messageForVisualRebasePreview(
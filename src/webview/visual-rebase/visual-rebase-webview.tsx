@@ -49,6 +49,8 @@ export function VisualRebaseWebview() {
             initialCommits={state.commits}
             safety={state.safety}
             refs={state.refs}
+            rules={state.rules}
+            signing={state.signing}
             previewRunning={state.previewRunning}
             previewError={state.previewError}
             phase={state.phase}
@@ -60,7 +62,8 @@ export function VisualRebaseWebview() {
             commitDetails={state.commitDetails}
             commitDetailsLoading={state.commitDetailsLoading}
             commitDetailsError={state.commitDetailsError}
-            onStart={(rewriteAfter: string, replayOnto: string, plan: readonly VisualRebasePlanEntry[]) => postToExtension(messageForVisualRebaseStart(rewriteAfter, replayOnto, plan))}
+            onStart={(rewriteAfter: string, replayOnto: string, plan: readonly VisualRebasePlanEntry[], sign?: boolean) =>
+                postToExtension(messageForVisualRebaseStart(rewriteAfter, replayOnto, plan, sign))}
             onPreview={(rewriteAfter: string, replayOnto: string) => {
                 const requestId = requestIdForVisualRebase();
                 lastPreviewRequestId.current = requestId;
@@ -3,7 +3,15 @@ import { Page } from '@core/git/domain/page';
 import type { GitStatus } from '@core/git/domain/git-status';
 import type { GitSubmodule } from '@core/git/domain/git-worktree';
 import { GetRuntimeChangesStatusUseCase } from '@application/usecases/changes/get-runtime-changes-status';
-import type { GitReferenceOperations, GitStashOperations, GitStatusOperations, GitSubmoduleOperations } from '@application/ports/git-capabilities';
+import type {
+    GitBisectOperations,
+    GitLfsFileOperations,
+    GitReferenceOperations,
+    GitStashOperations,
+    GitStatusOperations,
+    GitSubmoduleOperations,
+} from '@application/ports/git-capabilities';
+import type { GitBisectState } from '@core/git/domain/git-bisect';
 
 describe('GetRuntimeChangesStatusUseCase', () => {
     it('loads status from a worktree and repository metadata from repository capabilities', async () => {
@@ -32,9 +40,26 @@ describe('GetRuntimeChangesStatusUseCase', () => {
         expect(result.stashes).toEqual([{ index: 0, message: 'WIP runtime' }]);
         expect(result.submodules).toEqual(submodules);
         expect(result.currentBranch).toBe('feature/runtime');
+        expect(result.bisect).toBeUndefined();
         expect(result.warnings).toEqual([]);
     });
 
+    it('includes the bisect session of the worktree and keeps bisect failures optional', async () => {
+        const bisect: GitBisectState = { badHash: 'bad', goodHashes: ['good'], skippedHashes: [], currentHash: 'mid', remainingRevisions: 2, remainingSteps: 1, log: [] };
+        const bisecting = await new GetRuntimeChangesStatusUseCase().execute(
+            repositoryCapabilities(),
+            worktreeCapabilities({ getBisectState: vi.fn(async () => bisect) }),
+        );
+        const unreadable = await new GetRuntimeChangesStatusUseCase().execute(
+            repositoryCapabilities(),
+            worktreeCapabilities({ getBisectState: vi.fn(async () => { throw new Error('bisect refs unavailable'); }) }),
+        );
+
+        expect(bisecting.bisect).toBe(bisect);
+        expect(unreadable.bisect).toBeUndefined();
+        expect(unreadable.warnings.map((warning) => warning.operation)).toEqual(['changes/bisectState']);
+    });
+
     it('keeps repository metadata failures optional', async () => {
         const status: GitStatus = { staged: [], unstaged: [], conflicts: [], conflictState: 'none' };
         const repository = repositoryCapabilities({
@@ -53,6 +78,36 @@ describe('GetRuntimeChangesStatusUseCase', () => {
         expect(result.warnings.map((warning) => warning.operation)).toEqual(['changes/listSubmodules', 'changes/listBranches']);
     });
 
+    it('flags LFS-tracked entries and keeps attribute failures optional', async () => {
+        const status: GitStatus = {
+            staged: [{ indexStatus: 'M', workTreeStatus: ' ', filePath: 'art/hero.psd' }],
+            unstaged: [
+                { indexStatus: ' ', workTreeStatus: 'M', filePath: 'art/hero.psd' },
+                { indexStatus: ' ', workTreeStatus: 'M', filePath: 'README.md' },
+            ],
+            conflicts: [],
+            conflictState: 'none',
+        };
+        const getLfsTrackedPaths = vi.fn(async () => ['art/hero.psd']);
+        const tracked = await new GetRuntimeChangesStatusUseCase().execute(
+            repositoryCapabilities(),
+            worktreeCapabilities({ getStatus: vi.fn(async () => status), getLfsTrackedPaths }),
+        );
+        const unreadable = await new GetRuntimeChangesStatusUseCase().execute(
+            repositoryCapabilities(),
+            worktreeCapabilities({
+                getStatus: vi.fn(async () => status),
+                getLfsTrackedPaths: vi.fn(async () => { throw new Error('check-attr failed'); }),
+            }),
+        );
+
+        expect(getLfsTrackedPaths).toHaveBeenCalledWith(['art/hero.psd', 'README.md'], undefined);
+        expect(tracked.status.staged[0]?.isLfs).toBe(true);
+        expect(tracked.status.unstaged.map((entry) => entry.isLfs)).toEqual([true, undefined]);
+        expect(unreadable.status).toBe(status);
+        expect(unreadable.warnings.map((warning) => warning.operation)).toEqual(['changes/lfsTrackedPaths']);
+    });
+
     it('propagates critical worktree status failures', async () => {
         const repository = repositoryCapabilities();
         const worktree = worktreeCapabilities({
@@ -85,7 +140,9 @@ function repositoryCapabilities(overrides: Partial<GitReferenceOperations & GitS
     };
 }
 
-function worktreeCapabilities(overrides: Partial<GitStatusOperations & GitStashOperations> = {}): GitStatusOperations & GitStashOperations {
+type ChangesStatusWorktree = GitStatusOperations & GitStashOperations & Pick<GitBisectOperations, 'getBisectState'> & Pick<GitLfsFileOperations, 'getLfsTrackedPaths'>;
+
+function worktreeCapabilities(overrides: Partial<ChangesStatusWorktree> = {}): ChangesStatusWorktree {
     return {
         getStatus: vi.fn(async () => emptyStatus()),
         getUntrackedFiles: vi.fn(async () => new Page([], false)),
@@ -99,6 +156,9 @@ function worktreeCapabilities(overrides: Partial<GitStatusOperations & GitStashO
         dropStash: vi.fn(async () => {}),
         clearStashes: vi.fn(async () => {}),
         branchFromStash: vi.fn(async () => {}),
+        storeStash: vi.fn(async () => {}),
+        getBisectState: vi.fn(async () => undefined),
+        getLfsTrackedPaths: vi.fn(async () => []),
         ...overrides,
     };
 }
@@ -0,0 +1,45 @@
+import { describe, expect, it, vi } from 'vitest';
+import { GetCoAuthorCandidatesUseCase, type CoAuthorCandidatesRepository } from '@application/usecases/commits/get-co-author-candidates';
+import { GitCommit } from '@core/git/domain/git-commit';
+import { Page } from '@core/git/domain/page';
+
+describe('GetCoAuthorCandidatesUseCase', () => {
+    it('lists distinct recent authors other than the configured user', async () => {
+        const repository = {
+            getCommitGraph: vi.fn(async () => new Page([
+                commit('Me', 'me@example.test'),
+                commit('Ana', 'ana@example.test'),
+                commit('Bo', 'bo@example.test'),
+                commit('Ana Lee', 'ANA@example.test'),
+            ], false)),
+            getUserName: vi.fn(async () => 'Me'),
+        } satisfies CoAuthorCandidatesRepository;
+
+        await expect(new GetCoAuthorCandidatesUseCase().execute(repository)).resolves.toEqual([
+            { name: 'Ana', email: 'ana@example.test' },
+            { name: 'Bo', email: 'bo@example.test' },
+        ]);
+        expect(repository.getCommitGraph).toHaveBeenCalledWith({}, { limit: 200 }, undefined);
+    });
+
+    it('offers no candidates when history cannot be read', async () => {
+        const repository = {
+            getCommitGraph: vi.fn(async () => { throw new Error('does not have any commits yet'); }),
+            getUserName: vi.fn(async () => ''),
+        } satisfies CoAuthorCandidatesRepository;
+
+        await expect(new GetCoAuthorCandidatesUseCase().execute(repository)).resolves.toEqual([]);
+    });
+});
+
+function commit(authorName: string, authorEmail: string): GitCommit {
+    return new GitCommit({
+        hash: `${authorName}-hash`,
+        shortHash: authorName,
+        message: 'change',
+        authorName,
+        authorEmail,
+        authorDate: '2026-01-01T00:00:00Z',
+        parentHashes: [],
+    });
+}
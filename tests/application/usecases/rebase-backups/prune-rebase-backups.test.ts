@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import type { GitRepository } from '@application/ports/git-topology';
+import type { GitRebaseBackup } from '@core/git/domain/git-rebase-backup';
+import { PruneRebaseBackupsUseCase } from '@application/usecases/rebase-backups/prune-rebase-backups';
+
+describe('PruneRebaseBackupsUseCase', () => {
+    const now = Date.UTC(2026, 5, 30);
+    const recent = backup('refs/look-git/backup/main-20260629-000000', Date.UTC(2026, 5, 29));
+    const old = backup('refs/look-git/backup/main-20260101-000000', Date.UTC(2026, 0, 1));
+    const kept = backup('refs/look-git/backup/topic-20260102-000000', Date.UTC(2026, 0, 2));
+
+    it('deletes backups past the retention period except the one being kept', async () => {
+        const deleted: string[] = [];
+        const useCase = new PruneRebaseBackupsUseCase(() => 30, () => now);
+
+        const result = await useCase.execute(repositoryDouble([recent, old, kept], deleted), kept.ref);
+
+        expect(result).toEqual([old]);
+        expect(deleted).toEqual([old.ref]);
+    });
+
+    it('keeps every backup when retention is zero', async () => {
+        const deleted: string[] = [];
+        const useCase = new PruneRebaseBackupsUseCase(() => 0, () => now);
+
+        await expect(useCase.execute(repositoryDouble([recent, old], deleted))).resolves.toEqual([]);
+        expect(deleted).toEqual([]);
+    });
+});
+
+function backup(ref: string, createdAt: number): GitRebaseBackup {
+    return { ref, hash: 'abc123', branchLabel: 'main', createdAt };
+}
+
+function repositoryDouble(backups: readonly GitRebaseBackup[], deleted: string[]): GitRepository {
+    return {
+        listRebaseBackups: async () => backups,
+        deleteRef: async (ref: string) => { deleted.push(ref); },
+    } as unknown as GitRepository; // Test double only implements PruneRebaseBackupsUseCase collaborators.
+}
@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import type { GitBranch } from '@core/git/domain/git-status';
+import type { GitRepository } from '@application/ports/git-topology';
+import { ResolveRemoteWebRepositoryUseCase } from '@application/usecases/remotes/resolve-remote-web-repository';
+
+describe('ResolveRemoteWebRepositoryUseCase', () => {
+    const useCase = new ResolveRemoteWebRepositoryUseCase(() => [{ host: 'git.example.com', provider: 'gitlab' }]);
+
+    it('prefers the remote tracked by the current branch, then origin', async () => {
+        const remotes = {
+            origin: 'git@github.com:owner/repo.git',
+            fork: 'https://git.example.com/me/repo.git',
+        };
+
+        await expect(useCase.execute(repositoryDouble(remotes, [
+            branch({ name: 'main', isCurrent: true, upstream: 'fork/main' }),
+        ]))).resolves.toEqual({ provider: 'gitlab', url: 'https://git.example.com/me/repo' });
+        await expect(useCase.execute(repositoryDouble(remotes, [
+            branch({ name: 'main', isCurrent: true }),
+        ]))).resolves.toEqual({ provider: 'github', url: 'https://github.com/owner/repo' });
+        await expect(useCase.execute(repositoryDouble(remotes, []), 'fork')).resolves.toMatchObject({ provider: 'gitlab' });
+    });
+
+    it('returns undefined without remotes or for unknown hosts', async () => {
+        await expect(useCase.execute(repositoryDouble({}, []))).resolves.toBeUndefined();
+        await expect(useCase.execute(repositoryDouble({ origin: 'git@unknown.example:repo.git' }, []))).resolves.toBeUndefined();
+    });
+
+    it('finds the published name of local and remote branches', async () => {
+        const repository = repositoryDouble({ origin: '', 'team/fork': '' }, [
+            branch({ name: 'feature', upstream: 'team/fork/feature/x' }),
+            branch({ name: 'local-only' }),
+        ]);
+
+        await expect(useCase.publishedBranch(repository, 'feature', false)).resolves.toEqual({ remote: 'team/fork', branchName: 'feature/x' });
+        await expect(useCase.publishedBranch(repository, 'origin/main', true)).resolves.toEqual({ remote: 'origin', branchName: 'main' });
+        await expect(useCase.publishedBranch(repository, 'local-only', false)).resolves.toBeUndefined();
+    });
+});
+
+function branch(overrides: Partial<GitBranch>): GitBranch {
+    return {
+        name: 'main',
+        isRemote: false,
+        isCurrent: false,
+        hash: 'abc123',
+        ahead: 0,
+        behind: 0,
+        ...overrides,
+    };
+}
+
+function repositoryDouble(remotes: Readonly<Record<string, string>>, branches: readonly GitBranch[]): GitRepository {
+    return {
+        listRemotes: async () => Object.keys(remotes),
+        listBranches: async () => branches,
+        getRemoteUrl: async (remote: string) => remotes[remote],
+    } as unknown as GitRepository; // Test double only implements ResolveRemoteWebRepositoryUseCase collaborators.
+}
@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import type { GitBlameLine } from '@core/git/domain/git-blame';
+import { applyBlameLineEdit, lineBeforeChange, UNCOMMITTED_BLAME_COMMIT } from '@core/git/blame-line-tracking';
+
+describe('lineBeforeChange', () => {
+    it('keeps lines of an unchanged file', () => {
+        expect(lineBeforeChange([], 7)).toBe(7);
+    });
+
+    it('shifts lines below inserted and removed lines', () => {
+        const inserted = [{ oldStart: 2, oldLines: 0, newStart: 3, newLines: 2 }];
+        const removed = [{ oldStart: 3, oldLines: 2, newStart: 2, newLines: 0 }];
+
+        expect(lineBeforeChange(inserted, 2)).toBe(2);
+        expect(lineBeforeChange(inserted, 5)).toBe(3);
+        expect(lineBeforeChange(removed, 2)).toBe(2);
+        expect(lineBeforeChange(removed, 3)).toBe(5);
+    });
+
+    it('maps changed lines to the start of the text they replaced', () => {
+        const rewritten = [{ oldStart: 2, oldLines: 1, newStart: 2, newLines: 2 }];
+        const prepended = [{ oldStart: 0, oldLines: 0, newStart: 1, newLines: 1 }];
+
+        expect(lineBeforeChange(rewritten, 3)).toBe(2);
+        expect(lineBeforeChange(rewritten, 4)).toBe(3);
+        expect(lineBeforeChange(prepended, 1)).toBe(1);
+        expect(lineBeforeChange(prepended, 2)).toBe(1);
+    });
+});
+
+describe('applyBlameLineEdit', () => {
+    const blamed = ['a', 'b', 'c', 'd'].map((commit, index): GitBlameLine => ({
+        line: index + 1,
+        commit: commit.repeat(40),
+        author: commit,
+        authorTime: undefined,
+        summary: undefined,
+    }));
+    const commits = (lines: readonly GitBlameLine[]) => lines.map((line) => `${line.line}:${line.commit === UNCOMMITTED_BLAME_COMMIT ? '-' : line.commit[0]}`);
+
+    it('marks a line typed in as not committed yet', () => {
+        expect(commits(applyBlameLineEdit(blamed, { startLine: 2, endLine: 2, lineCount: 1 }))).toEqual(['1:a', '2:-', '3:c', '4:d']);
+    });
+
+    it('shifts the lines below inserted and deleted lines', () => {
+        expect(commits(applyBlameLineEdit(blamed, { startLine: 2, endLine: 2, lineCount: 3, intactLine: 'end' })))
+            .toEqual(['1:a', '2:-', '3:-', '4:b', '5:c', '6:d']);
+        expect(commits(applyBlameLineEdit(blamed, { startLine: 2, endLine: 4, lineCount: 1, intactLine: 'end' })))
+            .toEqual(['1:a', '2:d']);
+    });
+
+    it('keeps the line a line break was typed after', () => {
+        expect(commits(applyBlameLineEdit(blamed, { startLine: 3, endLine: 3, lineCount: 2, intactLine: 'start' })))
+            .toEqual(['1:a', '2:b', '3:c', '4:-', '5:d']);
+    });
+
+    it('joins replaced lines into lines not committed yet', () => {
+        expect(commits(applyBlameLineEdit(blamed, { startLine: 1, endLine: 3, lineCount: 1 }))).toEqual(['1:-', '2:d']);
+    });
+});
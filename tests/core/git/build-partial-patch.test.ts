@@ -0,0 +1,126 @@
+import { describe, expect, it } from 'vitest';
+import { buildPartialPatch, mapDiffLineRangeToOldSide, PartialPatchDirection, selectDiffLines } from '@core/git/build-partial-patch';
+import { parseDiffHunks } from '@core/parsing/parse-diff-hunks';
+import { expectItem } from '@tests/helpers/assertions';
+
+const HEADER = [
+    'diff --git a/notes.txt b/notes.txt',
+    'index 1111111..2222222 100644',
+    '--- a/notes.txt',
+    '+++ b/notes.txt',
+];
+
+function fileDiff(...lines: string[]) {
+    return expectItem(parseDiffHunks([...HEADER, ...lines, ''].join('\n')), 0);
+}
+
+describe('buildPartialPatch', () => {
+    const twoHunks = fileDiff(
+        '@@ -1,2 +1,3 @@',
+        ' a',
+        '+a2',
+        ' b',
+        '@@ -8,3 +9,2 @@ section',
+        ' h',
+        '-i',
+        ' j',
+    );
+
+    it('shifts later hunk headers by the changes of earlier selected hunks only', () => {
+        expect(buildPartialPatch(twoHunks, new Map([[1, undefined]]), PartialPatchDirection.Apply)).toBe([
+            ...HEADER,
+            '@@ -8,3 +8,2 @@ section',
+            ' h',
+            '-i',
+            ' j',
+            '',
+        ].join('\n'));
+    });
+
+    it('returns undefined when nothing is selected', () => {
+        expect(buildPartialPatch(twoHunks, new Map(), PartialPatchDirection.Apply)).toBeUndefined();
+    });
+
+    it('keeps unselected removals as context when applying and unselected additions when reversing', () => {
+        const mixed = fileDiff(
+            '@@ -1,3 +1,3 @@',
+            ' a',
+            '-b',
+            '-c',
+            '+B',
+            '+C',
+        );
+
+        expect(buildPartialPatch(mixed, new Map([[0, new Set([1, 3])]]), PartialPatchDirection.Apply)).toBe([
+            ...HEADER,
+            '@@ -1,3 +1,3 @@',
+            ' a',
+            '-b',
+            ' c',
+            '+B',
+            '',
+        ].join('\n'));
+        expect(buildPartialPatch(mixed, new Map([[0, new Set([1, 3])]]), PartialPatchDirection.Reverse)).toBe([
+            ...HEADER,
+            '@@ -1,3 +1,3 @@',
+            ' a',
+            '-b',
+            '+B',
+            ' C',
+            '',
+        ].join('\n'));
+    });
+
+    it('rejects partial selections of added files and binary diffs', () => {
+        const added = expectItem(parseDiffHunks([
+            'diff --git a/new.txt b/new.txt',
+            '--- /dev/null',
+            '+++ b/new.txt',
+            '@@ -0,0 +1,2 @@',
+            '+one',
+            '+two',
+        ].join('\n')), 0);
+        const binary = expectItem(parseDiffHunks('diff --git a/a.png b/a.png\nBinary files a/a.png and b/a.png differ\n'), 0);
+
+        expect(() => buildPartialPatch(added, new Map([[0, new Set([0])]]), PartialPatchDirection.Apply)).toThrow('as a whole');
+        expect(buildPartialPatch(added, new Map([[0, undefined]]), PartialPatchDirection.Apply)).toContain('@@ -0,0 +1,2 @@');
+        expect(() => buildPartialPatch(binary, new Map([[0, undefined]]), PartialPatchDirection.Apply)).toThrow('Binary');
+    });
+});
+
+describe('selectDiffLines', () => {
+    const replaced = fileDiff(
+        '@@ -1,4 +1,4 @@',
+        ' a',
+        '-b',
+        '+B',
+        ' c',
+        '-d',
+    );
+
+    it('selects additions by their new line and deletions by the line they precede', () => {
+        expect(selectDiffLines(replaced, { startLine: 2, endLine: 2 })).toEqual(new Map([[0, new Set([1, 2])]]));
+    });
+
+    it('attaches trailing deletions to the last line of the hunk', () => {
+        expect(selectDiffLines(replaced, { startLine: 3, endLine: 3 })).toEqual(new Map([[0, new Set([4])]]));
+    });
+
+    it('returns an empty selection outside of every hunk', () => {
+        expect(selectDiffLines(replaced, { startLine: 20, endLine: 30 }).size).toBe(0);
+    });
+});
+
+describe('mapDiffLineRangeToOldSide', () => {
+    it('maps lines after a hunk by its line delta and added lines to their old position', () => {
+        const insertion = fileDiff(
+            '@@ -1,2 +1,4 @@',
+            ' a',
+            '+x',
+            '+y',
+            ' b',
+        );
+
+        expect(mapDiffLineRangeToOldSide(insertion, { startLine: 3, endLine: 10 })).toEqual({ startLine: 2, endLine: 8 });
+    });
+});
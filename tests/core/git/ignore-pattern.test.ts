@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { appendIgnorePattern, ignoreFileDirectoriesFor, ignorePatternFor } from '@core/git/ignore-pattern';
+
+describe('ignorePatternFor', () => {
+    it('anchors path patterns to the exclude file directory', () => {
+        expect(ignorePatternFor('src/app/debug.txt', 'path')).toBe('/src/app/debug.txt');
+        expect(ignorePatternFor('src/app/debug.txt', 'path', 'src')).toBe('/app/debug.txt');
+    });
+
+    it('ignores the containing folder with a trailing slash', () => {
+        expect(ignorePatternFor('src/app/debug.txt', 'folder')).toBe('/src/app/');
+        expect(ignorePatternFor('src/app/debug.txt', 'folder', 'src')).toBe('/app/');
+        expect(ignorePatternFor('debug.txt', 'folder')).toBeUndefined();
+        expect(ignorePatternFor('src/debug.txt', 'folder', 'src')).toBeUndefined();
+    });
+
+    it('matches every file with the same extension', () => {
+        expect(ignorePatternFor('src/app/trace.LOG', 'extension', 'src')).toBe('*.LOG');
+        expect(ignorePatternFor('src/.env', 'extension')).toBeUndefined();
+        expect(ignorePatternFor('Makefile', 'extension')).toBeUndefined();
+    });
+
+    it('escapes glob characters and trailing spaces', () => {
+        expect(ignorePatternFor('notes/[draft]*?.md', 'path')).toBe('/notes/\\[draft]\\*\\?.md');
+        expect(ignorePatternFor('notes/trailing  ', 'path')).toBe('/notes/trailing\\ \\ ');
+    });
+});
+
+describe('ignoreFileDirectoriesFor', () => {
+    it('walks from the file directory up to the root', () => {
+        expect(ignoreFileDirectoriesFor('src/app/debug.txt', 'path')).toEqual(['src/app', 'src', '']);
+        expect(ignoreFileDirectoriesFor('debug.txt', 'extension')).toEqual(['']);
+    });
+
+    it('starts above the folder that a folder pattern ignores', () => {
+        expect(ignoreFileDirectoriesFor('src/app/debug.txt', 'folder')).toEqual(['src', '']);
+    });
+});
+
+describe('appendIgnorePattern', () => {
+    it('adds the pattern on its own line', () => {
+        expect(appendIgnorePattern('', '/tmp/')).toBe('/tmp/\n');
+        expect(appendIgnorePattern('node_modules/\n', '/tmp/')).toBe('node_modules/\n/tmp/\n');
+        expect(appendIgnorePattern('node_modules/', '/tmp/')).toBe('node_modules/\n/tmp/\n');
+    });
+
+    it('returns undefined when the file already lists the pattern', () => {
+        expect(appendIgnorePattern('node_modules/\r\n/tmp/\r\n', '/tmp/')).toBeUndefined();
+    });
+});
@@ -0,0 +1,16 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_NOTES_REF, fullNotesRef, notesRefLabel } from '@core/git/notes';
+
+describe('notes refs', () => {
+    it('expands short notes ref names like git notes --ref', () => {
+        expect(fullNotesRef('qa')).toBe('refs/notes/qa');
+        expect(fullNotesRef('notes/build')).toBe('refs/notes/build');
+        expect(fullNotesRef(' refs/notes/release/qa ')).toBe('refs/notes/release/qa');
+        expect(fullNotesRef('commits')).toBe(DEFAULT_NOTES_REF);
+    });
+
+    it('labels notes refs without the refs/notes/ prefix', () => {
+        expect(notesRefLabel('refs/notes/release/qa')).toBe('release/qa');
+        expect(notesRefLabel('refs/custom/qa')).toBe('refs/custom/qa');
+    });
+});
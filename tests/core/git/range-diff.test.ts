@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest';
+import { firstParentRuns, rangeForRun, symmetricRangeDiffRanges } from '@core/git/range-diff';
+
+describe('range diff ranges', () => {
+    it('compares what each tip has that the other lacks', () => {
+        expect(symmetricRangeDiffRanges('backup', 'feature')).toEqual({ oldRange: 'feature..backup', newRange: 'backup..feature' });
+    });
+
+    it('splits a newest-first selection into first-parent runs', () => {
+        const runs = firstParentRuns([
+            commit('e', 'd'),
+            commit('d', 'c'),
+            commit('y', 'x'),
+            commit('c', 'b'),
+            commit('x', 'w'),
+        ]);
+
+        expect(runs.map((run) => run.map((item) => item.hash))).toEqual([['e', 'd', 'c'], ['y', 'x']]);
+        expect(runs.map(rangeForRun)).toEqual(['b..e', 'w..y']);
+    });
+
+    it('has no range for a run ending at a root commit', () => {
+        expect(rangeForRun([commit('b', 'a'), commit('a')])).toBeUndefined();
+    });
+});
+
+function commit(hash: string, parent?: string): { readonly hash: string; readonly parentHashes: readonly string[] } {
+    return { hash, parentHashes: parent ? [parent] : [] };
+}
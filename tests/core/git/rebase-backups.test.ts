@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest';
+import { expiredRebaseBackups, parseRebaseBackupRef, rebaseBackupRef } from '@core/git/rebase-backups';
+
+describe('rebase backup refs', () => {
+    it('names backups after a sanitized branch and a UTC timestamp', () => {
+        const date = new Date(Date.UTC(2026, 0, 2, 3, 4, 5));
+
+        expect(rebaseBackupRef('feature/login', date)).toBe('refs/look-git/backup/feature-login-20260102-030405');
+        expect(rebaseBackupRef('//', date)).toBe('refs/look-git/backup/branch-20260102-030405');
+    });
+
+    it('reads the label and time back from a backup ref', () => {
+        expect(parseRebaseBackupRef('refs/look-git/backup/feature-login-20260102-030405')).toEqual({
+            branchLabel: 'feature-login',
+            createdAt: Date.UTC(2026, 0, 2, 3, 4, 5),
+        });
+        expect(parseRebaseBackupRef('refs/look-git/backup/feature-login')).toBeUndefined();
+        expect(parseRebaseBackupRef('refs/heads/feature-login-20260102-030405')).toBeUndefined();
+    });
+
+    it('expires backups older than the retention period unless retention is disabled', () => {
+        const now = Date.UTC(2026, 0, 31);
+        const fresh = { createdAt: Date.UTC(2026, 0, 30) };
+        const stale = { createdAt: Date.UTC(2026, 0, 1) };
+
+        expect(expiredRebaseBackups([fresh, stale], 7, now)).toEqual([stale]);
+        expect(expiredRebaseBackups([fresh, stale], 0, now)).toEqual([]);
+    });
+});
@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { parseBisectLog, parseBisectRefs, parseBisectVars } from '@core/parsing/parse-bisect';
+
+describe('parseBisectRefs', () => {
+    it('splits bad, good and skipped refs', () => {
+        const output = [
+            'b1 refs/bisect/bad',
+            'g1 refs/bisect/good-g1',
+            'g2 refs/bisect/good-g2',
+            's1 refs/bisect/skip-s1',
+            '',
+        ].join('\n');
+
+        expect(parseBisectRefs(output)).toEqual({ badHash: 'b1', goodHashes: ['g1', 'g2'], skippedHashes: ['s1'] });
+    });
+
+    it('leaves the bad hash unset before a bad commit is marked', () => {
+        expect(parseBisectRefs('g1 refs/bisect/good-g1\n')).toEqual({ goodHashes: ['g1'], skippedHashes: [] });
+    });
+});
+
+describe('parseBisectVars', () => {
+    it('reads the quoted revision and numeric counters', () => {
+        const output = [
+            "bisect_rev='c3'",
+            'bisect_nr=2',
+            'bisect_good=1',
+            'bisect_bad=1',
+            'bisect_all=6',
+            'bisect_steps=2',
+        ].join('\n');
+
+        expect(parseBisectVars(output)).toEqual({ rev: 'c3', remaining: 2, steps: 2, candidates: 6 });
+    });
+
+    it('returns an empty result for empty output', () => {
+        expect(parseBisectVars('')).toEqual({});
+    });
+});
+
+describe('parseBisectLog', () => {
+    it('keeps the decision comments in order and ignores replay commands', () => {
+        const output = [
+            'git bisect start',
+            '# status: waiting for both good and bad commits',
+            '# bad: [b1] feat: broken',
+            'git bisect bad b1',
+            '# good: [a0] feat: working',
+            'git bisect good a0',
+            '# skip: [c2] wip: does not build',
+            'git bisect skip c2',
+            '# first bad commit: [b1] feat: broken',
+        ].join('\n');
+
+        expect(parseBisectLog(output)).toEqual([
+            { mark: 'bad', hash: 'b1', subject: 'feat: broken' },
+            { mark: 'good', hash: 'a0', subject: 'feat: working' },
+            { mark: 'skip', hash: 'c2', subject: 'wip: does not build' },
+        ]);
+    });
+});
@@ -1,5 +1,5 @@
 import { describe, expect, it } from 'vitest';
-import { parseBlame } from '@core/parsing/parse-blame';
+import { parseBlame, parseBlameIgnoredLines } from '@core/parsing/parse-blame';
 
 describe('parseBlame', () => {
     it('returns no lines for empty output', () => {
@@ -32,6 +32,8 @@ describe('parseBlame', () => {
                 author: 'Alice Example',
                 authorTime: 1704067200,
                 summary: 'add first line',
+                originalLine: 1,
+                filePath: 'src/app.ts',
             },
             {
                 line: 2,
@@ -39,6 +41,8 @@ describe('parseBlame', () => {
                 author: 'Bob Example',
                 authorTime: 1704153600,
                 summary: 'add second line',
+                originalLine: 2,
+                filePath: 'src/app.ts',
             },
         ]);
     });
@@ -60,6 +64,40 @@ describe('parseBlame', () => {
             author: 'Chloé Example',
             authorTime: 1704240000,
             summary: 'unicode author',
+            originalLine: 4,
+            filePath: 'docs/readme.md',
         }]);
     });
+
+    it('reads the revision before each change and the path the file had then', () => {
+        const raw = [
+            'dddddddddddddddddddddddddddddddddddddddd 3 5 1',
+            'author Dana Example',
+            'author-time 1704326400',
+            'summary move parser',
+            'previous eeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeee src/old parser.ts',
+            'filename "src/parser\\tnew.ts"',
+            '\tparse();',
+            '',
+        ].join('\n');
+
+        expect(parseBlame(raw)).toEqual([expect.objectContaining({
+            line: 5,
+            originalLine: 3,
+            filePath: 'src/parser\\tnew.ts',
+            previous: { commit: 'eeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeee', filePath: 'src/old parser.ts' },
+        })]);
+    });
+
+    it('reads the lines git marks as attributed past an ignored revision', () => {
+        const raw = [
+            '^?b985b42d84525a2b9060cbc54a23c6ef1acdc0 1) A',
+            '^b985b42d84525a2b9060cbc54a23c6ef1acdc02 2) ?b',
+            '?b985b42d84525a2b9060cbc54a23c6ef1acdc02 3) C',
+            '*ae35bdf178276dcc146579f075dd160c50525e3 4) new',
+            '',
+        ].join('\n');
+
+        expect([...parseBlameIgnoredLines(raw)]).toEqual([1, 3]);
+    });
 });
@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { parseCheckIgnore } from '@core/parsing/parse-check-ignore';
+
+describe('parseCheckIgnore', () => {
+    it('returns undefined when no rule matched', () => {
+        expect(parseCheckIgnore('')).toBeUndefined();
+        expect(parseCheckIgnore('::\tnotes.txt\n')).toBeUndefined();
+    });
+
+    it('parses source, line, pattern, and path of the matching rule', () => {
+        expect(parseCheckIgnore('src/.gitignore:3:build/\tsrc/build/out.js\n')).toEqual({
+            source: 'src/.gitignore',
+            line: 3,
+            pattern: 'build/',
+            path: 'src/build/out.js',
+            negated: false,
+        });
+    });
+
+    it('marks re-including rules as negated', () => {
+        expect(parseCheckIgnore('.gitignore:2:!keep.log\tkeep.log\n')).toMatchObject({ pattern: '!keep.log', negated: true });
+    });
+
+    it('keeps colons in absolute sources and patterns and drops C-style quotes', () => {
+        expect(parseCheckIgnore('C:\\Users\\dev\\.gitignore_global:7:*:tmp\t"tab\\tname:tmp"\n')).toEqual({
+            source: 'C:\\Users\\dev\\.gitignore_global',
+            line: 7,
+            pattern: '*:tmp',
+            path: 'tab\\tname:tmp',
+            negated: false,
+        });
+    });
+});
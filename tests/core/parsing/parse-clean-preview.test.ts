@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { parseCleanPreview } from '@core/parsing/parse-clean-preview';
+
+describe('parseCleanPreview', () => {
+    it('reads the path of every would-remove line', () => {
+        expect(parseCleanPreview('Would remove tmp.txt\r\nWould remove build/\n')).toEqual(['tmp.txt', 'build/']);
+    });
+
+    it('decodes git C-quoted paths', () => {
+        const output = [
+            'Would remove "back\\\\slash.txt"',
+            'Would remove "caf\\303\\251.txt"',
+            'Would remove plain.txt',
+            'Would remove "say \\"hi\\".txt"',
+            'Would remove "tab\\there.txt"',
+            '',
+        ].join('\n');
+
+        expect(parseCleanPreview(output)).toEqual(['back\\slash.txt', 'café.txt', 'plain.txt', 'say "hi".txt', 'tab\there.txt']);
+    });
+
+    it('keeps raw UTF-8 inside quoted paths when core.quotePath is off', () => {
+        expect(parseCleanPreview('Would remove "naïve \\"🚀\\".txt"\n')).toEqual(['naïve "🚀".txt']);
+    });
+
+    it('keeps leading and trailing spaces of unquoted paths', () => {
+        expect(parseCleanPreview('Would remove notes \r\nWould remove  draft.md\n')).toEqual(['notes ', ' draft.md']);
+    });
+
+    it('returns no paths for empty output', () => {
+        expect(parseCleanPreview('')).toEqual([]);
+    });
+});
@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import { parseDiffHunks } from '@core/parsing/parse-diff-hunks';
+import { expectItem } from '@tests/helpers/assertions';
+
+const MODIFIED_DIFF = [
+    'diff --git a/src/app.ts b/src/app.ts',
+    'index 1111111..2222222 100644',
+    '--- a/src/app.ts',
+    '+++ b/src/app.ts',
+    '@@ -1,3 +1,3 @@ export function app() {',
+    ' one',
+    '-two',
+    '+TWO',
+    ' three',
+    '@@ -10 +10,2 @@',
+    ' ten',
+    '+eleven',
+    '\\ No newline at end of file',
+    '',
+].join('\n');
+
+describe('parseDiffHunks', () => {
+    it('returns an empty list for empty output', () => {
+        expect(parseDiffHunks('')).toEqual([]);
+    });
+
+    it('keeps file headers and numbers old and new lines per hunk', () => {
+        const file = expectItem(parseDiffHunks(MODIFIED_DIFF), 0);
+
+        expect(file.headerLines).toEqual([
+            'diff --git a/src/app.ts b/src/app.ts',
+            'index 1111111..2222222 100644',
+            '--- a/src/app.ts',
+            '+++ b/src/app.ts',
+        ]);
+        expect(file.oldPath).toBe('src/app.ts');
+        expect(file.newPath).toBe('src/app.ts');
+        expect(file.hunks).toHaveLength(2);
+        expect(expectItem(file.hunks, 0)).toMatchObject({ oldStart: 1, oldLines: 3, newStart: 1, newLines: 3 });
+        expect(expectItem(file.hunks, 0).lines).toEqual([
+            { kind: 'context', text: 'one', oldLine: 1, newLine: 1 },
+            { kind: 'remove', text: 'two', oldLine: 2 },
+            { kind: 'add', text: 'TWO', newLine: 2 },
+            { kind: 'context', text: 'three', oldLine: 3, newLine: 3 },
+        ]);
+    });
+
+    it('defaults omitted range counts to one and flags the missing final newline', () => {
+        const hunk = expectItem(expectItem(parseDiffHunks(MODIFIED_DIFF), 0).hunks, 1);
+
+        expect(hunk).toMatchObject({ oldStart: 10, oldLines: 1, newStart: 10, newLines: 2 });
+        expect(expectItem(hunk.lines, 1)).toEqual({ kind: 'add', text: 'eleven', newLine: 11, noNewlineAtEnd: true });
+    });
+
+    it('reports added files without an old path and binary files without hunks', () => {
+        const files = parseDiffHunks([
+            'diff --git a/new.txt b/new.txt',
+            'new file mode 100644',
+            '--- /dev/null',
+            '+++ b/new.txt',
+            '@@ -0,0 +1 @@',
+            '+created',
+            'diff --git a/logo.png b/logo.png',
+            'Binary files a/logo.png and b/logo.png differ',
+        ].join('\n'));
+
+        expect(expectItem(files, 0)).toMatchObject({ oldPath: undefined, newPath: 'new.txt', binary: false });
+        expect(expectItem(files, 1)).toMatchObject({ binary: true, hunks: [] });
+    });
+
+    it('keeps carriage returns in content lines', () => {
+        const file = expectItem(parseDiffHunks('diff --git a/a.txt b/a.txt\r\n--- a/a.txt\r\n+++ b/a.txt\r\n@@ -1 +1 @@\r\n-old\r\n+new\r\n'), 0);
+
+        expect(file.newPath).toBe('a.txt');
+        expect(expectItem(file.hunks, 0).lines.map((line) => line.text)).toEqual(['old\r', 'new\r']);
+    });
+});
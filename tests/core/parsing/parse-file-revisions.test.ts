@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import { parseFileRevisionsZ } from '@core/parsing/parse-file-revisions';
+
+describe('parseFileRevisionsZ', () => {
+    it('returns empty array for empty output', () => {
+        expect(parseFileRevisionsZ('', 'a.txt')).toEqual([]);
+    });
+
+    it('reports the path the file had at each commit across a rename', () => {
+        const output = [
+            '\x1eccc\0\nM\0lib/b.txt\0',
+            '\x1ebbb\0\nR100\0a.txt\0lib/b.txt\0',
+            '\x1eaaa\0\nA\0a.txt\0',
+        ].join('');
+
+        expect(parseFileRevisionsZ(output, 'lib/b.txt')).toEqual([
+            { commitHash: 'ccc', status: 'M', filePath: 'lib/b.txt' },
+            { commitHash: 'bbb', status: 'R', filePath: 'lib/b.txt', origPath: 'a.txt' },
+            { commitHash: 'aaa', status: 'A', filePath: 'a.txt' },
+        ]);
+    });
+
+    it('keeps the newer path for commits that list no change', () => {
+        const output = '\x1eccc\0\nR100\0old.txt\0new.txt\0\x1ebbb\0\n\x1eaaa\0\nM\0old.txt\0';
+
+        expect(parseFileRevisionsZ(output, 'new.txt').map((revision) => revision.filePath)).toEqual([
+            'new.txt',
+            'old.txt',
+            'old.txt',
+        ]);
+    });
+});
@@ -1,5 +1,5 @@
 import { describe, expect, it } from 'vitest';
-import { parseNullTerminatedGitConfigValues } from '@core/parsing/parse-git-config';
+import { parseGitSigningConfig, parseNullTerminatedGitConfigEntries, parseNullTerminatedGitConfigValues } from '@core/parsing/parse-git-config';
 
 describe('parseNullTerminatedGitConfigValues', () => {
     it('returns no values for empty output', () => {
@@ -22,3 +22,31 @@ describe('parseNullTerminatedGitConfigValues', () => {
         expect(parseNullTerminatedGitConfigValues('submodule.invalid.path\0')).toEqual([]);
     });
 });
+
+describe('parseNullTerminatedGitConfigEntries', () => {
+    it('lower-cases keys and lets later entries win', () => {
+        const output = 'commit.gpgSign\nfalse\0commit.gpgsign\ntrue\0gpg.format\nssh\0';
+
+        expect(parseNullTerminatedGitConfigEntries(output)).toEqual(new Map([['commit.gpgsign', 'true'], ['gpg.format', 'ssh']]));
+    });
+
+    it('maps keys set without a value to the empty string', () => {
+        expect(parseNullTerminatedGitConfigEntries('tag.gpgsign\0')).toEqual(new Map([['tag.gpgsign', '']]));
+    });
+});
+
+describe('parseGitSigningConfig', () => {
+    it('defaults to unsigned OpenPGP when nothing is configured', () => {
+        expect(parseGitSigningConfig('')).toEqual({ signCommits: false, signTags: false, format: 'openpgp' });
+    });
+
+    it('reads git booleans for commits and tags', () => {
+        const output = 'commit.gpgsign\nyes\0tag.gpgsign\0gpg.format\nssh\0';
+
+        expect(parseGitSigningConfig(output)).toEqual({ signCommits: true, signTags: true, format: 'ssh' });
+    });
+
+    it('treats unrecognised booleans as unset', () => {
+        expect(parseGitSigningConfig('commit.gpgsign\nmaybe\0tag.gpgsign\noff\0')).toEqual({ signCommits: false, signTags: false, format: 'openpgp' });
+    });
+});
@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { parseLfsCheckAttr, parseLfsLsFiles, parseLfsPointer } from '@core/parsing/parse-lfs';
+
+const OID = 'sha256:4d7a214614ab2935c943f9e0ff69d22eadbb8f32b1258daaa5e2ca24d17e2393';
+
+describe('parseLfsPointer', () => {
+    it('reads the object id and size of a pointer file', () => {
+        const pointer = `version https://git-lfs.github.com/spec/v1\noid ${OID}\nsize 12345\n`;
+
+        expect(parseLfsPointer(pointer)).toEqual({ oid: OID, size: 12345 });
+    });
+
+    it('ignores extension lines of newer pointers', () => {
+        const pointer = `version https://git-lfs.github.com/spec/v1\next-0-foo sha256:${'0'.repeat(64)}\noid ${OID}\nsize 7\n`;
+
+        expect(parseLfsPointer(pointer)).toEqual({ oid: OID, size: 7 });
+    });
+
+    it('rejects regular content and incomplete pointers', () => {
+        expect(parseLfsPointer('hello world\n')).toBeUndefined();
+        expect(parseLfsPointer(`version https://git-lfs.github.com/spec/v1\noid ${OID}\n`)).toBeUndefined();
+        expect(parseLfsPointer(`version https://git-lfs.github.com/spec/v1\noid sha256:abc\nsize 1\n`)).toBeUndefined();
+        expect(parseLfsPointer(`version https://git-lfs.github.com/spec/v1\noid ${OID}\nsize 1\n${'x'.repeat(1024)}`)).toBeUndefined();
+    });
+});
+
+describe('parseLfsCheckAttr', () => {
+    it('keeps the paths whose filter attribute is lfs', () => {
+        const output = 'art/hero.psd\0filter\0lfs\0README.md\0filter\0unspecified\0sounds/a b.wav\0filter\0lfs\0';
+
+        expect(parseLfsCheckAttr(output)).toEqual(['art/hero.psd', 'sounds/a b.wav']);
+    });
+
+    it('returns no paths for empty output', () => {
+        expect(parseLfsCheckAttr('')).toEqual([]);
+    });
+});
+
+describe('parseLfsLsFiles', () => {
+    it('reads one path per line', () => {
+        expect(parseLfsLsFiles('art/hero.psd\r\nsounds/a b.wav\n')).toEqual(['art/hero.psd', 'sounds/a b.wav']);
+        expect(parseLfsLsFiles('')).toEqual([]);
+    });
+});
@@ -67,6 +67,17 @@ describe('parseCommitLog', () => {
         expect(expectItem(result, 1).hash).toBe('bbb');
         expect(expectItem(result, 1).parentHashes).toEqual(['aaa']);
     });
+
+    it('parses signature fields after the parents', () => {
+        const output = makeLogOutput([
+            makeLogRecord(['aaa', 'aaa', 'signed', 'A', 'a@a.com', '2024-01-01T00:00:00Z', '', 'G', 'Alice <a@a.com>', 'ABCDEF0123456789']),
+            makeLogRecord(['bbb', 'bbb', 'unsigned', 'B', 'b@b.com', '2024-01-02T00:00:00Z', 'aaa', 'N', '', '']),
+        ]);
+        const result = parseCommitLog(output);
+
+        expect(expectItem(result, 0).signature).toEqual({ status: 'good', signer: 'Alice <a@a.com>', key: 'ABCDEF0123456789' });
+        expect(expectItem(result, 1)).not.toHaveProperty('signature');
+    });
 });
 
 describe('parseGraphLog', () => {
@@ -93,4 +104,14 @@ describe('parseGraphLog', () => {
         expect(expectItem(result, 0).hash).toBe('abc');
         expect(expectItem(result, 0).refs).toEqual(['HEAD -> main']);
     });
+
+    it('parses signature fields after the refs', () => {
+        const output = makeLogOutput([
+            makeLogRecord(['abc', 'abc', 'msg', 'A', 'a@a.com', '2024-01-01T00:00:00Z', '', 'tag: v1', 'B', 'Mallory', 'F00D']),
+        ]);
+        const result = parseGraphLog(output);
+
+        expect(expectItem(result, 0).refs).toEqual(['tag: v1']);
+        expect(expectItem(result, 0).signature).toEqual({ status: 'bad', signer: 'Mallory', key: 'F00D' });
+    });
 });
@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { parseRangeDiff } from '@core/parsing/parse-range-diff';
+
+const OLD_A = 'a'.repeat(40);
+const NEW_A = 'b'.repeat(40);
+const OLD_C = 'c'.repeat(40);
+const NEW_C = 'd'.repeat(40);
+const NEW_E = 'e'.repeat(40);
+const OLD_F = 'f'.repeat(40);
+const NONE = '-'.repeat(40);
+
+describe('parseRangeDiff', () => {
+    it('returns empty array for empty output', () => {
+        expect(parseRangeDiff('')).toEqual([]);
+    });
+
+    it('pairs unchanged, modified, added, and dropped commits', () => {
+        const output = [
+            `1:  ${OLD_A} = 1:  ${NEW_A} add a`,
+            `2:  ${OLD_C} ! 2:  ${NEW_C} add c, reworded`,
+            '    @@ Metadata',
+            '     Author: t <a@b>',
+            '     ',
+            '      ## Commit message ##',
+            '    -    add c',
+            '    +    add c, reworded',
+            '     ',
+            `-:  ${NONE} > 3:  ${NEW_E} add e`,
+            `3:  ${OLD_F} < -:  ${NONE} add f`,
+            '',
+        ].join('\n');
+
+        expect(parseRangeDiff(output)).toEqual([
+            { status: 'unchanged', oldCommit: { position: 1, hash: OLD_A }, newCommit: { position: 1, hash: NEW_A }, subject: 'add a' },
+            {
+                status: 'modified',
+                oldCommit: { position: 2, hash: OLD_C },
+                newCommit: { position: 2, hash: NEW_C },
+                subject: 'add c, reworded',
+                interdiff: [
+                    '@@ Metadata',
+                    ' Author: t <a@b>',
+                    ' ',
+                    '  ## Commit message ##',
+                    '-    add c',
+                    '+    add c, reworded',
+                    ' ',
+                ].join('\n'),
+            },
+            { status: 'added', newCommit: { position: 3, hash: NEW_E }, subject: 'add e' },
+            { status: 'dropped', oldCommit: { position: 3, hash: OLD_F }, subject: 'add f' },
+        ]);
+    });
+
+    it('reads positions padded for ranges of ten or more commits', () => {
+        const [pair] = parseRangeDiff(` 9:  ${OLD_A} = 10:  ${NEW_A} later commit`);
+
+        expect(pair).toMatchObject({ oldCommit: { position: 9 }, newCommit: { position: 10 }, subject: 'later commit' });
+    });
+});
@@ -0,0 +1,22 @@
+import { describe, expect, it } from 'vitest';
+import { parseRebaseBackupRefs } from '@core/parsing/parse-rebase-backups';
+
+describe('parseRebaseBackupRefs', () => {
+    it('returns empty array for empty output', () => {
+        expect(parseRebaseBackupRefs('')).toEqual([]);
+    });
+
+    it('parses backup refs newest first and skips foreign refs', () => {
+        const output = [
+            'aaa refs/look-git/backup/main-20260101-120000',
+            'bbb refs/look-git/backup/manual',
+            'ccc refs/look-git/backup/feature-x-20260301-080000',
+            '',
+        ].join('\n');
+
+        expect(parseRebaseBackupRefs(output)).toEqual([
+            { ref: 'refs/look-git/backup/feature-x-20260301-080000', hash: 'ccc', branchLabel: 'feature-x', createdAt: Date.UTC(2026, 2, 1, 8) },
+            { ref: 'refs/look-git/backup/main-20260101-120000', hash: 'aaa', branchLabel: 'main', createdAt: Date.UTC(2026, 0, 1, 12) },
+        ]);
+    });
+});
@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { LOG_FIELD_SEP, LOG_RECORD_SEP } from '@core/parsing/parse-log';
+import { parseReflog, parseReflogSubject } from '@core/parsing/parse-reflog';
+import { expectItem } from '@tests/helpers/assertions';
+
+function record(hash: string, date: string, subject: string, commitSubject: string): string {
+    return [hash, `HEAD@{${date}}`, subject, commitSubject].join(LOG_FIELD_SEP) + LOG_RECORD_SEP;
+}
+
+describe('parseReflog', () => {
+    it('returns empty array for empty output', () => {
+        expect(parseReflog('', 'HEAD')).toEqual([]);
+    });
+
+    it('parses selector, action, message, and date for each entry', () => {
+        const output = [
+            record('c3', '2026-10-18T10:00:00+00:00', 'reset: moving to HEAD~1', 'feat: two'),
+            record('b2', '2026-10-18T09:00:00+00:00', 'rebase (finish): returning to refs/heads/main', 'feat: three'),
+        ].join('\n');
+
+        const entries = parseReflog(output, 'HEAD');
+
+        expect(entries).toHaveLength(2);
+        expect(expectItem(entries, 0)).toEqual({
+            selector: 'HEAD@{0}',
+            hash: 'c3',
+            previousHash: 'b2',
+            action: 'reset',
+            message: 'moving to HEAD~1',
+            commitSubject: 'feat: two',
+            date: '2026-10-18T10:00:00+00:00',
+        });
+        expect(expectItem(entries, 1).action).toBe('rebase (finish)');
+    });
+
+    it('offsets selectors by the skipped entry count and leaves the last previous hash unknown', () => {
+        const output = [
+            record('a1', '2026-10-18T10:00:00+00:00', 'commit: one', 'one'),
+            record('a0', '2026-10-18T09:00:00+00:00', 'commit (initial): zero', 'zero'),
+        ].join('');
+
+        const entries = parseReflog(output, 'main', 5);
+
+        expect(entries.map((entry) => entry.selector)).toEqual(['main@{5}', 'main@{6}']);
+        expect(expectItem(entries, 1).previousHash).toBeUndefined();
+    });
+});
+
+describe('parseReflogSubject', () => {
+    it('keeps subjects without an action separator as the action', () => {
+        expect(parseReflogSubject('branch: Created from HEAD')).toEqual({ action: 'branch', message: 'Created from HEAD' });
+        expect(parseReflogSubject('update by push')).toEqual({ action: 'update by push', message: '' });
+    });
+});
@@ -0,0 +1,24 @@
+import { describe, expect, it } from 'vitest';
+import { parseCommitSignature } from '@core/parsing/parse-signature';
+
+describe('parseCommitSignature', () => {
+    it('returns no signature for unsigned commits', () => {
+        expect(parseCommitSignature('N', '', '')).toBeUndefined();
+        expect(parseCommitSignature(undefined, undefined, undefined)).toBeUndefined();
+        expect(parseCommitSignature('', '', '')).toBeUndefined();
+    });
+
+    it('maps git verification codes to statuses', () => {
+        expect(['G', 'B', 'R', 'U', 'X', 'Y', 'E'].map((code) => parseCommitSignature(code, '', '')?.status))
+            .toEqual(['good', 'bad', 'bad', 'untrusted', 'expired', 'expired', 'unknown']);
+    });
+
+    it('keeps the signer and key when git reports them', () => {
+        expect(parseCommitSignature('U', 'Alice <alice@example.com>', '0123ABCD')).toEqual({
+            status: 'untrusted',
+            signer: 'Alice <alice@example.com>',
+            key: '0123ABCD',
+        });
+        expect(parseCommitSignature('E', '', '0123ABCD')).toEqual({ status: 'unknown', key: '0123ABCD' });
+    });
+});
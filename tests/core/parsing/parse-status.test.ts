@@ -1,5 +1,5 @@
 import { describe, expect, it } from 'vitest';
-import { parsePorcelainStatus, detectConflictStateFromFiles, summarizePorcelainStatus } from '@core/parsing/parse-status';
+import { parsePorcelainStatus, detectConflictStateFromFiles, parseSequencerTodo, summarizePorcelainStatus } from '@core/parsing/parse-status';
 import { expectItem } from '@tests/helpers/assertions';
 
 describe('parsePorcelainStatus', () => {
@@ -89,7 +89,32 @@ describe('detectConflictStateFromFiles', () => {
         expect(detectConflictStateFromFiles(['HEAD', 'MERGE_HEAD', 'rebase-merge'])).toBe('rebase');
     });
 
+    it('detects cherry-pick and revert state from their sequencer heads', () => {
+        expect(detectConflictStateFromFiles(['HEAD', 'CHERRY_PICK_HEAD'])).toBe('cherryPick');
+        expect(detectConflictStateFromFiles(['HEAD', 'REVERT_HEAD'])).toBe('revert');
+    });
+
     it('returns none for clean state', () => {
         expect(detectConflictStateFromFiles(['HEAD', 'index', 'config'])).toBe('none');
     });
 });
+
+describe('parseSequencerTodo', () => {
+    it('counts the remaining picks including the one that stopped', () => {
+        expect(parseSequencerTodo('pick 8f18043 s1\npick c17c56b s2\npick e197f6f s3\n')).toEqual({
+            conflictState: 'cherryPick',
+            remaining: 3,
+        });
+    });
+
+    it('recognises revert sequences and ignores comments and blank lines', () => {
+        expect(parseSequencerTodo('# reverting\nrevert 8f18043 s1\n\nrevert c17c56b s2\n')).toEqual({
+            conflictState: 'revert',
+            remaining: 2,
+        });
+    });
+
+    it('returns undefined for an empty todo', () => {
+        expect(parseSequencerTodo('\n')).toBeUndefined();
+    });
+});
@@ -2,10 +2,12 @@ import { afterEach, describe, expect, it } from 'vitest';
 import { GitPushOutcome } from '@application/ports/git-capabilities';
 import { runBranchCommand } from '@extension/commands/branch-commands';
 import type { RuntimeCommandTargets } from '@extension/commands/runtime-command-targets';
+import { GuardedOperationCoordinator, type RequestGuardedOperation } from '@extension/operations/guarded-operation-coordinator';
 import { CliGitRuntime } from '@extension/git/cli-git-runtime';
 import { GitCliBackend } from '@extension/git/git-cli-backend';
 import { RuntimeGitRepository } from '@extension/git/runtime-git-repository';
 import { RuntimeWorktree } from '@extension/git/runtime-worktree';
+import type { OperationPlanPrompt } from '@protocol/shared/operation-plan';
 import { createRemoteWorkflowFixture, type RemoteWorkflowFixture } from '@tests/helpers/git-repo';
 import { resetMockVscode, setQuickPickValue, setWarningChoice } from '@tests/mocks/vscode';
 
@@ -135,31 +137,59 @@ describe('runBranchCommand', () => {
         expect(() => fixture.local.git(['merge-base', '--is-ancestor', 'origin/local-only', 'local-only'])).not.toThrow();
     });
 
-    it('force pushes a diverged selected branch with lease', async () => {
+    it('force pushes a diverged selected branch with lease once its plan is acknowledged', async () => {
         const fixture = track(createRemoteWorkflowFixture());
         const targets = runtimeTargetsFor(fixture);
+        const guarded = guardedOperationsFor();
         divergeLocalOnlyBranch(fixture);
+        const remoteHead = fixture.remote.gitTrim(['rev-parse', 'refs/heads/local-only']);
         setQuickPickValue('Force Push with Lease');
 
-        await runBranchCommand(targets.repository, 'push', 'local-only', false, undefined, targets);
+        await expect(runBranchCommand(targets.repository, 'push', 'local-only', false, undefined, targets, undefined, undefined, guarded.request))
+            .resolves.toEqual({ shouldRefresh: false });
 
+        expect(fixture.remote.gitTrim(['rev-parse', 'refs/heads/local-only'])).toBe(remoteHead);
+        expect(guarded.plans[0]).toMatchObject({ title: 'Force Push local-only to origin/local-only', confirmLabel: 'Force Push' });
+        await guarded.acknowledgeLatest();
         expect(fixture.remote.gitTrim(['rev-parse', 'refs/heads/local-only']))
             .toBe(fixture.local.gitTrim(['rev-parse', 'local-only']));
     });
 
-    it('force pushes a diverged selected branch without a lease', async () => {
+    it('force pushes a diverged selected branch without a lease once its plan is acknowledged', async () => {
         const fixture = track(createRemoteWorkflowFixture());
         const targets = runtimeTargetsFor(fixture);
+        const guarded = guardedOperationsFor();
         divergeLocalOnlyBranch(fixture);
+        const remoteHead = fixture.remote.gitTrim(['rev-parse', 'refs/heads/local-only']);
         setQuickPickValue('More Push Actions...');
         setWarningChoice('Force Push');
 
-        await runBranchCommand(targets.repository, 'push', 'local-only', false, undefined, targets);
+        await runBranchCommand(targets.repository, 'push', 'local-only', false, undefined, targets, undefined, undefined, guarded.request);
 
+        expect(fixture.remote.gitTrim(['rev-parse', 'refs/heads/local-only'])).toBe(remoteHead);
+        expect(guarded.plans[0]?.guards.map((guard) => guard.kind)).toContain('highRiskRemote');
+        await guarded.acknowledgeLatest();
         expect(fixture.remote.gitTrim(['rev-parse', 'refs/heads/local-only']))
             .toBe(fixture.local.gitTrim(['rev-parse', 'local-only']));
     });
 
+    it('does not force push when the remote moved after the plan was reviewed', async () => {
+        const fixture = track(createRemoteWorkflowFixture());
+        const targets = runtimeTargetsFor(fixture);
+        const guarded = guardedOperationsFor();
+        divergeLocalOnlyBranch(fixture);
+        setQuickPickValue('Force Push with Lease');
+
+        await runBranchCommand(targets.repository, 'push', 'local-only', false, undefined, targets, undefined, undefined, guarded.request);
+        fixture.seed.commitFile('remote-again.txt', 'remote again\n', 'remote update after review');
+        fixture.seed.git(['push', '-q', 'origin', 'local-only']);
+        fixture.local.git(['fetch', '-q', 'origin']);
+        const remoteHead = fixture.remote.gitTrim(['rev-parse', 'refs/heads/local-only']);
+
+        await expect(guarded.acknowledgeLatest()).rejects.toThrow('The repository changed after this action was reviewed.');
+        expect(fixture.remote.gitTrim(['rev-parse', 'refs/heads/local-only'])).toBe(remoteHead);
+    });
+
     it('does not force push when the advanced confirmation is dismissed', async () => {
         const fixture = track(createRemoteWorkflowFixture());
         const targets = runtimeTargetsFor(fixture);
@@ -195,11 +225,13 @@ describe('runBranchCommand', () => {
         fixture.local.commitFile('stale-local.txt', 'stale local\n', 'stale local update');
         fixture.local.git(['checkout', '-q', 'main']);
         advanceRemoteLocalOnlyBranch(fixture, false);
+        const guarded = guardedOperationsFor();
         setQuickPickValue('Force Push with Lease');
 
-        await expect(runBranchCommand(targets.repository, 'push', 'local-only', false, undefined, targets))
-            .resolves.toEqual({ shouldRefresh: true, pushOutcome: GitPushOutcome.Completed });
+        await expect(runBranchCommand(targets.repository, 'push', 'local-only', false, undefined, targets, undefined, undefined, guarded.request))
+            .resolves.toEqual({ shouldRefresh: true });
 
+        await guarded.acknowledgeLatest();
         expect(fixture.remote.gitTrim(['rev-parse', 'refs/heads/local-only']))
             .toBe(fixture.local.gitTrim(['rev-parse', 'local-only']));
     });
@@ -256,6 +288,30 @@ function advanceRemoteLocalOnlyBranch(fixture: RemoteWorkflowFixture, fetchLocal
     if (fetchLocal) { fixture.local.git(['fetch', '-q', 'origin']); }
 }
 
+interface GuardedOperations {
+    readonly request: RequestGuardedOperation;
+    readonly plans: readonly OperationPlanPrompt[];
+    acknowledgeLatest(): Promise<void>;
+}
+
+function guardedOperationsFor(): GuardedOperations {
+    const coordinator = new GuardedOperationCoordinator();
+    const plans: OperationPlanPrompt[] = [];
+    return {
+        request: async (operation) => { plans.push(await coordinator.prepare(operation)); },
+        plans,
+        acknowledgeLatest: async () => {
+            const plan = plans.at(-1);
+            if (!plan) { throw new Error('No plan was requested.'); }
+            await coordinator.acknowledge({
+                planId: plan.planId,
+                acknowledgedGuards: plan.guards.map((guard) => guard.kind),
+                ...(plan.previewHash ? { previewHash: plan.previewHash } : {}),
+            });
+        },
+    };
+}
+
 function runtimeTargetsFor(fixture: RemoteWorkflowFixture): RuntimeCommandTargets & { readonly repository: RuntimeGitRepository } {
     const runtime = new CliGitRuntime((args, context, options) => new GitCliBackend(context.cwd).run(args, options));
     const gitDir = fixture.local.gitTrim(['rev-parse', '--absolute-git-dir']);
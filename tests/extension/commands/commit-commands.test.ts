@@ -4,7 +4,9 @@ import { CreateCommitPatchResultKind, type CreateCommitPatchUseCase } from '@app
 import type { ExplainCommitDiffUseCase } from '@application/usecases/commits/explain-commit-diff';
 import { runCommitCommand } from '@extension/commands/commit-commands';
 import type { RuntimeCommandTargets } from '@extension/commands/runtime-command-targets';
-import { resetMockVscode, setInputBoxValue, setWarningChoice } from '@tests/mocks/vscode';
+import { GuardedOperationCoordinator, type RequestGuardedOperation } from '@extension/operations/guarded-operation-coordinator';
+import type { OperationPlanPrompt } from '@protocol/shared/operation-plan';
+import { resetMockVscode, setInputBoxValue, setQuickPickValue, setQuickPickValues, setWarningChoice } from '@tests/mocks/vscode';
 
 const SELECTED_HASHES = ['newest', 'clicked', 'oldest'] as const;
 const OLDEST_FIRST = ['oldest', 'clicked', 'newest'] as const;
@@ -33,16 +35,35 @@ describe('runCommitCommand multi-selection', () => {
         expect(explainDiffExecute).toHaveBeenCalledWith(fixture.repository, SELECTED_HASHES, expect.any(AbortSignal));
     });
 
-    it('cherry-picks oldest first and reverts newest first across the selection', async () => {
+    it('cherry-picks oldest first and reverts newest first as one sequence', async () => {
         const fixture = commandFixture();
+        setQuickPickValues(['Cherry-Pick and Record Origin (-x)', 'Revert']);
 
         await execute(fixture, 'cherryPick');
         await execute(fixture, 'revertCommit');
 
         expect(fixture.orderCommits).toHaveBeenNthCalledWith(1, SELECTED_HASHES, 'oldestFirst');
         expect(fixture.orderCommits).toHaveBeenNthCalledWith(2, SELECTED_HASHES, 'newestFirst');
-        expect(fixture.cherryPick.mock.calls.map(([hash]) => hash)).toEqual(OLDEST_FIRST);
-        expect(fixture.revertCommit.mock.calls.map(([hash]) => hash)).toEqual(NEWEST_FIRST);
+        expect(fixture.cherryPick.mock.calls).toEqual([[OLDEST_FIRST, { recordOrigin: true }]]);
+        expect(fixture.revertCommit.mock.calls).toEqual([[NEWEST_FIRST, { noEdit: true }]]);
+    });
+
+    it('asks for the mainline parent when the selection contains a merge commit', async () => {
+        const fixture = commandFixture({ clicked: ['oldest', 'side'] });
+        setQuickPickValues(['Apply Changes without Committing', 'Parent 2: side']);
+
+        await expect(execute(fixture, 'cherryPick')).resolves.toBe(true);
+
+        expect(fixture.cherryPick.mock.calls).toEqual([[OLDEST_FIRST, { noCommit: true, mainline: 2 }]]);
+    });
+
+    it('runs nothing when the cherry-pick options are dismissed', async () => {
+        const fixture = commandFixture();
+        setQuickPickValue(undefined);
+
+        await expect(execute(fixture, 'cherryPick')).resolves.toBe(false);
+
+        expect(fixture.cherryPick).not.toHaveBeenCalled();
     });
 
     it('squashes and drops the complete selection in topology order', async () => {
@@ -58,6 +79,37 @@ describe('runCommitCommand multi-selection', () => {
     });
 });
 
+describe('runCommitCommand reset', () => {
+    afterEach(() => { resetMockVscode(); });
+
+    it('hard resets only after the plan is acknowledged', async () => {
+        const fixture = commandFixture();
+        const coordinator = new GuardedOperationCoordinator();
+        const plans: OperationPlanPrompt[] = [];
+        setQuickPickValue('Hard reset');
+
+        await expect(execute(fixture, 'resetCurrentBranchToHere', {
+            requestGuardedOperation: async (operation) => { plans.push(await coordinator.prepare(operation)); },
+        })).resolves.toBe(false);
+
+        expect(fixture.resetHard).not.toHaveBeenCalled();
+        const [plan] = plans;
+        expect(plan).toMatchObject({ title: 'Hard Reset main to clicked', confirmLabel: 'Hard Reset' });
+        if (!plan) { return; }
+        await coordinator.acknowledge({ planId: plan.planId, acknowledgedGuards: plan.guards.map((guard) => guard.kind), previewHash: plan.previewHash });
+        expect(fixture.resetHard).toHaveBeenCalledWith('clicked');
+    });
+
+    it('refuses a hard reset without a view that can show its plan', async () => {
+        const fixture = commandFixture();
+        setQuickPickValue('Hard reset');
+
+        await expect(execute(fixture, 'resetCurrentBranchToHere')).rejects.toThrow('Hard reset needs a view that can show its plan.');
+
+        expect(fixture.resetHard).not.toHaveBeenCalled();
+    });
+});
+
 interface CommandFixture {
     readonly repository: GitRepository;
     readonly targets: RuntimeCommandTargets;
@@ -66,9 +118,10 @@ interface CommandFixture {
     readonly revertCommit: ReturnType<typeof vi.fn>;
     readonly squashCommits: ReturnType<typeof vi.fn>;
     readonly dropCommit: ReturnType<typeof vi.fn>;
+    readonly resetHard: ReturnType<typeof vi.fn>;
 }
 
-function commandFixture(): CommandFixture {
+function commandFixture(parents: Readonly<Record<string, readonly string[]>> = {}): CommandFixture {
     const orderCommits = vi.fn(async (_hashes: readonly string[], direction: 'newestFirst' | 'oldestFirst') =>
         direction === 'oldestFirst' ? OLDEST_FIRST : NEWEST_FIRST);
     const repository = {
@@ -81,21 +134,26 @@ function commandFixture(): CommandFixture {
         getReachableCommitHashes: vi.fn(async () => new Set<string>()),
         getCommitDetails: vi.fn(async (hash: string) => ({
             hash,
-            parentHashes: hash === 'newest' ? ['clicked'] : hash === 'clicked' ? ['oldest'] : [],
+            parentHashes: parents[hash] ?? (hash === 'newest' ? ['clicked'] : hash === 'clicked' ? ['oldest'] : []),
         })),
         getCommitMessage: vi.fn(async () => 'Original commit'),
-    } as unknown as GitRepository; // Partial repository double implements only the multi-selection collaborators.
+        resolveRef: vi.fn(async (ref: string) => ref === 'HEAD' ? 'newest' : ref),
+    } as unknown as GitRepository; // Partial repository double implements only the collaborators these commands use.
     const cherryPick = vi.fn(async () => {});
     const revertCommit = vi.fn(async () => {});
     const squashCommits = vi.fn(async () => {});
     const dropCommit = vi.fn(async () => {});
+    const resetHard = vi.fn(async () => {});
     const worktree = {
+        worktreeId: 'repo-main',
+        branch: 'main',
         getStatus: vi.fn(async () => ({ staged: [], unstaged: [], conflicts: [], conflictState: 'none' })),
         cherryPick,
         revertCommit,
         squashCommits,
         dropCommit,
-    } as unknown as Worktree; // Partial worktree double implements only the multi-selection collaborators.
+        resetHard,
+    } as unknown as Worktree; // Partial worktree double implements only the collaborators these commands use.
 
     return {
         repository,
@@ -105,12 +163,14 @@ function commandFixture(): CommandFixture {
         revertCommit,
         squashCommits,
         dropCommit,
+        resetHard,
     };
 }
 
 interface ExecuteOptions {
     readonly createCommitPatch?: CreateCommitPatchUseCase;
     readonly explainCommitDiff?: ExplainCommitDiffUseCase;
+    readonly requestGuardedOperation?: RequestGuardedOperation;
 }
 
 async function execute(
@@ -131,5 +191,6 @@ async function execute(
         undefined,
         undefined,
         fixture.targets,
+        options.requestGuardedOperation,
     );
 }
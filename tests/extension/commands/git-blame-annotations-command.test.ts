@@ -3,8 +3,9 @@ import * as path from 'path';
 import * as vscode from 'vscode';
 import { registerGitBlameAnnotationsCommand } from '@extension/commands/git-blame-annotations-command';
 import { createRepoContext } from '@extension/repositories/repo-context-factory';
+import { registerGitBlobDocumentProvider } from '@extension/utils/git-blob-documents';
 import { createTempGitRepo, type TempGitRepo } from '@tests/helpers/git-repo';
-import { resetMockVscode, type MockTextEditor, window as mockWindow } from '@tests/mocks/vscode';
+import { resetMockVscode, type MockTextEditor, window as mockWindow, workspace as mockWorkspace } from '@tests/mocks/vscode';
 
 describe('registerGitBlameAnnotationsCommand', () => {
     const repos: TempGitRepo[] = [];
@@ -291,6 +292,193 @@ describe('registerGitBlameAnnotationsCommand', () => {
             expect.objectContaining({ renderOptions: { after: { contentText: 'Alice Example 2024-01-01' } } }),
         ]);
     });
+
+    it('marks lines blamed past an ignored revision and blames again when the setting changes', async () => {
+        const repo = createTempGitRepo();
+        repos.push(repo);
+        repo.commitFile('src/app.ts', 'first\nsecond\n', 'add lines', { name: 'Alice Example', email: 'alice@example.com' }, '2024-01-01T00:00:00Z');
+        const formatHash = repo.commitFile('src/app.ts', 'First\nsecond\n', 'capitalize', { name: 'Bob Example', email: 'bob@example.com' }, '2024-01-02T00:00:00Z');
+        repo.write('.git-blame-ignore-revs', `${formatHash}\n`);
+        const filePath = path.join(repo.cwd, 'src', 'app.ts');
+        await vscode.workspace.getConfiguration('lookGit').update('blame.ignoreRevsFile', '.git-blame-ignore-revs');
+        const disposable = registerGitBlameAnnotationsCommand({
+            repositories: { contexts: [createRepoContext(repo.cwd)] },
+        });
+        disposables.push(disposable);
+
+        await vscode.commands.executeCommand('lookGit.blame.show', vscode.Uri.file(filePath));
+
+        const editor = activeMockEditor();
+        const [ignoredLine, plainLine] = editor.decorations.at(-1)?.ranges ?? [];
+        expect(decorationRenderOptions(ignoredLine)).toEqual({
+            before: expect.objectContaining({ contentText: expect.stringContaining('? 2024-01-01 Alice Example'), fontStyle: 'italic' }),
+        });
+        expect(decorationHoverValue(ignoredLine)).toContain('Attributed past an ignored revision');
+        expect(decorationRenderOptions(plainLine)).toEqual({
+            before: expect.objectContaining({ contentText: expect.stringContaining('2024-01-01 Alice Example'), fontStyle: 'normal' }),
+        });
+
+        await vscode.workspace.getConfiguration('lookGit').update('blame.ignoreRevsFile', '');
+
+        await expect.poll(() => findDecorationRangesContaining(editor, '2024-01-02 Bob Example')).toHaveLength(2);
+    });
+
+    it('blames unsaved editor contents and labels their changed lines as not committed yet', async () => {
+        const repo = createTempGitRepo();
+        repos.push(repo);
+        repo.commitFile('src/app.ts', 'first\nsecond\n', 'add lines', { name: 'Alice Example', email: 'alice@example.com' }, '2024-01-01T00:00:00Z');
+        const filePath = path.join(repo.cwd, 'src', 'app.ts');
+        const disposable = registerGitBlameAnnotationsCommand({
+            repositories: { contexts: [createRepoContext(repo.cwd)] },
+        });
+        disposables.push(disposable);
+        const document = await vscode.workspace.openTextDocument(vscode.Uri.file(filePath));
+        await vscode.window.showTextDocument(document);
+        const editor = activeMockEditor();
+        mockWorkspace.editTextDocument(editor.document, new vscode.Range(1, 0, 1, 0), 'inserted\n');
+
+        await vscode.commands.executeCommand('lookGit.blame.show', vscode.Uri.file(filePath));
+
+        const [, insertedLine, movedLine] = editor.decorations.at(-1)?.ranges ?? [];
+        expect(decorationRenderOptions(insertedLine)).toEqual({ before: expect.objectContaining({ contentText: expect.stringContaining('Not committed yet') }) });
+        expect(decorationHoverValue(insertedLine)).toBe('Not committed yet');
+        expect(decorationRenderOptions(movedLine)).toEqual({ before: expect.objectContaining({ contentText: expect.stringContaining('2024-01-01 Alice Example') }) });
+    });
+
+    it('moves blame with edits and blames the file again once it is saved', async () => {
+        const repo = createTempGitRepo();
+        repos.push(repo);
+        repo.write('src/app.ts', 'first\nsecond\nthird\n');
+        const filePath = path.join(repo.cwd, 'src', 'app.ts');
+        const loads: (string | undefined)[] = [];
+        const disposable = registerGitBlameAnnotationsCommand({
+            repositories: { contexts: [createRepoContext(repo.cwd)] },
+            loadBlame: async (_repoRoot, _filePath, _revision, contents) => {
+                loads.push(contents);
+                return ['a', 'b', 'c'].map((commit, index) => ({
+                    line: index + 1,
+                    commit: commit.repeat(40),
+                    author: `Author ${commit}`,
+                    authorTime: 1704067200,
+                    summary: undefined,
+                }));
+            },
+        });
+        disposables.push(disposable);
+        await vscode.commands.executeCommand('lookGit.file.toggleInlineBlame', vscode.Uri.file(filePath));
+        const editor = activeMockEditor();
+        editor.selection = new vscode.Selection(new vscode.Position(3, 0), new vscode.Position(3, 0));
+
+        mockWorkspace.editTextDocument(editor.document, new vscode.Range(1, 6, 1, 6), '\nnew line');
+
+        expect(editor.decorations.at(-1)?.ranges).toEqual([
+            expect.objectContaining({ renderOptions: { after: { contentText: 'Author c 2024-01-01' } } }),
+        ]);
+        editor.selection = new vscode.Selection(new vscode.Position(2, 0), new vscode.Position(2, 0));
+        mockWorkspace.editTextDocument(editor.document, new vscode.Range(2, 0, 2, 3), 'NEW');
+        expect(editor.decorations.at(-1)?.ranges).toEqual([
+            expect.objectContaining({ renderOptions: { after: { contentText: 'Not committed yet' } } }),
+        ]);
+        expect(loads).toEqual([undefined]);
+
+        await editor.document.save();
+
+        await expect.poll(() => loads).toEqual([undefined, undefined]);
+    });
+
+    it('moves blame with edits made while it loads instead of blaming again', async () => {
+        const repo = createTempGitRepo();
+        repos.push(repo);
+        repo.write('src/app.ts', 'first\nsecond\nthird\n');
+        const filePath = path.join(repo.cwd, 'src', 'app.ts');
+        const loads: (string | undefined)[] = [];
+        let finishLoad = (): void => {};
+        const disposable = registerGitBlameAnnotationsCommand({
+            repositories: { contexts: [createRepoContext(repo.cwd)] },
+            loadBlame: async (_repoRoot, _filePath, _revision, contents) => {
+                loads.push(contents);
+                await new Promise<void>((resolve) => { finishLoad = resolve; });
+                return ['a', 'b', 'c'].map((commit, index) => ({
+                    line: index + 1,
+                    commit: commit.repeat(40),
+                    author: `Author ${commit}`,
+                    authorTime: 1704067200,
+                    summary: undefined,
+                }));
+            },
+        });
+        disposables.push(disposable);
+        const document = await vscode.workspace.openTextDocument(vscode.Uri.file(filePath));
+        await vscode.window.showTextDocument(document);
+        const editor = activeMockEditor();
+
+        const toggled = vscode.commands.executeCommand('lookGit.file.toggleInlineBlame', vscode.Uri.file(filePath));
+        await expect.poll(() => loads).toEqual([undefined]);
+        mockWorkspace.editTextDocument(editor.document, new vscode.Range(1, 6, 1, 6), '\nnew line');
+        editor.selection = new vscode.Selection(new vscode.Position(3, 0), new vscode.Position(3, 0));
+        finishLoad();
+        await toggled;
+
+        expect(editor.decorations.at(-1)?.ranges).toEqual([
+            expect.objectContaining({ renderOptions: { after: { contentText: 'Author c 2024-01-01' } } }),
+        ]);
+        expect(loads).toEqual([undefined]);
+    });
+
+    it('opens blame at a revision and walks a line back to the revision before its change', async () => {
+        const repo = createTempGitRepo();
+        repos.push(repo);
+        const firstHash = repo.commitFile('src/app.ts', 'a\nb\n', 'add a and b');
+        const secondHash = repo.commitFile('src/app.ts', 'a\nB\nc\n', 'rewrite b');
+        const thirdHash = repo.commitFile('src/app.ts', 'z\na\nB\nc\n', 'add z');
+        repo.write('src/app.ts', 'working copy\n');
+        disposables.push(registerGitBlobDocumentProvider());
+        disposables.push(registerGitBlameAnnotationsCommand({ repositories: { contexts: [createRepoContext(repo.cwd)] } }));
+
+        await vscode.commands.executeCommand('lookGit.blame.showAtRevision', {
+            repoRoot: repo.cwd,
+            filePath: 'src/app.ts',
+            revision: 'HEAD',
+            line: 4,
+        });
+
+        const atHead = activeMockEditor();
+        expect(atHead.document.uri.path).toContain(thirdHash);
+        expect(atHead.document.getText()).toBe('z\na\nB\nc\n');
+        expect(atHead.selection.active.line).toBe(3);
+        const annotations = atHead.decorations.find((call) => call.ranges.length === 4)?.ranges ?? [];
+        const hover = String(decorationHoverValue(annotations[3]));
+        expect(hover).toContain(`Commit: ${secondHash}`);
+        expect(String(decorationHoverValue(annotations[1]))).not.toContain('Blame Prior to This Change');
+
+        const link = /command:lookGit\.blame\.showPriorToChange\?([^)]+)/.exec(hover)?.[1];
+        if (!link) { throw new Error('Expected a Blame Prior to This Change link.'); }
+        const args: unknown = JSON.parse(decodeURIComponent(link));
+        if (!Array.isArray(args)) { throw new Error('Expected command arguments.'); }
+        await vscode.commands.executeCommand('lookGit.blame.showPriorToChange', ...args);
+
+        const beforeChange = activeMockEditor();
+        expect(beforeChange.document.uri.path).toContain(firstHash);
+        expect(beforeChange.document.getText()).toBe('a\nb\n');
+        expect(beforeChange.selection.active.line).toBe(1);
+        expect(beforeChange.decorations.find((call) => call.ranges.length === 2)).toBeDefined();
+    });
+
+    it('reports a file that did not exist at the requested revision', async () => {
+        const repo = createTempGitRepo();
+        repos.push(repo);
+        repo.commitFile('src/app.ts', 'a\n', 'add app');
+        disposables.push(registerGitBlobDocumentProvider());
+        disposables.push(registerGitBlameAnnotationsCommand({ repositories: { contexts: [createRepoContext(repo.cwd)] } }));
+
+        await vscode.commands.executeCommand('lookGit.blame.showAtRevision', { repoRoot: repo.cwd, filePath: 'src/missing.ts', revision: 'HEAD' });
+        await vscode.commands.executeCommand('lookGit.blame.showAtRevision', { repoRoot: repo.cwd, filePath: 'src/app.ts', revision: 'no-such-branch' });
+
+        expect(mockWindow.errorMessages).toEqual([
+            expect.stringMatching(/^src\/missing\.ts does not exist in [0-9a-f]{7}\.$/),
+            'Revision "no-such-branch" was not found.',
+        ]);
+    });
 });
 
 function activeMockEditor(): MockTextEditor {
@@ -0,0 +1,151 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { runRebaseBackupCommand } from '@extension/commands/rebase-backup-commands';
+import type { RuntimeCommandTargets } from '@extension/commands/runtime-command-targets';
+import { GuardedOperationCoordinator, type RequestGuardedOperation } from '@extension/operations/guarded-operation-coordinator';
+import { CliGitRuntime } from '@extension/git/cli-git-runtime';
+import { GitCliBackend } from '@extension/git/git-cli-backend';
+import { RuntimeGitRepository } from '@extension/git/runtime-git-repository';
+import { RuntimeWorktree } from '@extension/git/runtime-worktree';
+import type { OperationPlanPrompt } from '@protocol/shared/operation-plan';
+import { createTempGitRepo, type TempGitRepo } from '@tests/helpers/git-repo';
+
+const BACKUP_REF = 'refs/look-git/backup/main-20240101-000000';
+
+describe('runRebaseBackupCommand', () => {
+    const repos: TempGitRepo[] = [];
+
+    afterEach(() => {
+        while (repos.length) { repos.pop()!.cleanup(); }
+    });
+
+    it('restores a checked-out branch through a hard reset plan that lists its local changes', async () => {
+        const repo = track(repoWithBackup());
+        const backup = repo.gitTrim(['rev-parse', BACKUP_REF]);
+        repo.write('dirty.txt', 'local change\n');
+        repo.git(['add', 'dirty.txt']);
+        const guarded = guardedOperations();
+
+        await expect(runRebaseBackupCommand(runtimeTargetsFor(repo), 'restore', BACKUP_REF, backup, undefined, guarded.request))
+            .resolves.toEqual({ shouldRefresh: false });
+
+        expect(repo.gitTrim(['rev-parse', 'main'])).not.toBe(backup);
+        const [plan] = guarded.plans;
+        expect(plan).toMatchObject({ title: `Restore main to main@${backup.substring(0, 7)}`, confirmLabel: 'Restore' });
+        expect(plan?.targets.map((target) => target.label)).toContain('dirty.txt');
+        expect(plan?.recovery).toContain('stays reachable from the reflog');
+        expect(plan?.guards).toContainEqual({
+            kind: 'confirm',
+            level: 'warning',
+            reason: 'Undo Last Operation moves HEAD back, but does not restore the discarded working tree changes.',
+        });
+        await guarded.acknowledge(plan);
+        expect(repo.gitTrim(['rev-parse', 'main'])).toBe(backup);
+        expect(repo.gitTrim(['status', '--porcelain'])).toBe('');
+    });
+
+    it('moves a branch no worktree has checked out once its plan is acknowledged', async () => {
+        const repo = track(repoWithBackup());
+        const backup = repo.gitTrim(['rev-parse', BACKUP_REF]);
+        const rewritten = repo.gitTrim(['rev-parse', 'main']);
+        repo.git(['checkout', '-q', '-b', 'other']);
+        const guarded = guardedOperations();
+
+        await runRebaseBackupCommand(runtimeTargetsFor(repo, 'other'), 'restore', BACKUP_REF, backup, undefined, guarded.request);
+
+        expect(repo.gitTrim(['rev-parse', 'main'])).toBe(rewritten);
+        const [plan] = guarded.plans;
+        expect(plan?.targets).toEqual([
+            { kind: 'ref', id: 'refs/heads/main', label: 'main' },
+            { kind: 'commit', id: backup, label: backup.substring(0, 7) },
+        ]);
+        expect(plan?.recovery).toContain(rewritten.substring(0, 7));
+        await guarded.acknowledge(plan);
+        expect(repo.gitTrim(['rev-parse', 'main'])).toBe(backup);
+        expect(repo.gitTrim(['rev-parse', 'HEAD'])).toBe(rewritten);
+    });
+
+    it('deletes a backup only after its plan is acknowledged and records how to recreate it', async () => {
+        const repo = track(repoWithBackup());
+        const backup = repo.gitTrim(['rev-parse', BACKUP_REF]);
+        const guarded = guardedOperations();
+
+        await runRebaseBackupCommand(runtimeTargetsFor(repo), 'delete', BACKUP_REF, backup, undefined, guarded.request);
+
+        expect(repo.gitTrim(['for-each-ref', BACKUP_REF])).not.toBe('');
+        const [plan] = guarded.plans;
+        expect(plan).toMatchObject({ title: `Delete Backup main@${backup.substring(0, 7)}`, confirmLabel: 'Delete' });
+        expect(plan?.recovery).toContain(`git update-ref ${BACKUP_REF} ${backup.substring(0, 7)}`);
+        expect(plan?.guards).toContainEqual({ kind: 'confirm', level: 'warning', reason: 'This action cannot be undone from Look Git.' });
+        await guarded.acknowledge(plan);
+        expect(repo.gitTrim(['for-each-ref', BACKUP_REF])).toBe('');
+    });
+
+    it('refuses to restore or delete without a view that can show the plan', async () => {
+        const repo = track(repoWithBackup());
+        const backup = repo.gitTrim(['rev-parse', BACKUP_REF]);
+
+        await expect(runRebaseBackupCommand(runtimeTargetsFor(repo), 'restore', BACKUP_REF, backup))
+            .rejects.toThrow('Restoring a backup needs a view that can show its plan.');
+        await expect(runRebaseBackupCommand(runtimeTargetsFor(repo), 'delete', BACKUP_REF, backup))
+            .rejects.toThrow('Deleting a backup needs a view that can show its plan.');
+        expect(repo.gitTrim(['rev-parse', BACKUP_REF])).toBe(backup);
+    });
+
+    function track(repo: TempGitRepo): TempGitRepo {
+        repos.push(repo);
+        return repo;
+    }
+});
+
+function repoWithBackup(): TempGitRepo {
+    const repo = createTempGitRepo();
+    repo.commitFile('file.txt', 'base\n', 'base');
+    repo.git(['update-ref', BACKUP_REF, 'HEAD']);
+    repo.commitFile('file.txt', 'rewritten\n', 'rewritten');
+    return repo;
+}
+
+function guardedOperations(): {
+    readonly request: RequestGuardedOperation;
+    readonly plans: OperationPlanPrompt[];
+    acknowledge(plan: OperationPlanPrompt | undefined): Promise<void>;
+} {
+    const coordinator = new GuardedOperationCoordinator();
+    const plans: OperationPlanPrompt[] = [];
+    return {
+        request: async (operation) => { plans.push(await coordinator.prepare(operation)); },
+        plans,
+        acknowledge: async (plan) => {
+            if (!plan) { throw new Error('No plan was requested.'); }
+            await coordinator.acknowledge({
+                planId: plan.planId,
+                acknowledgedGuards: plan.guards.map((guard) => guard.kind),
+                ...(plan.previewHash ? { previewHash: plan.previewHash } : {}),
+            });
+        },
+    };
+}
+
+function runtimeTargetsFor(repo: TempGitRepo, branch = 'main'): RuntimeCommandTargets {
+    const runtime = new CliGitRuntime((args, context, options) => new GitCliBackend(context.cwd).run(args, options));
+    const gitDir = repo.gitTrim(['rev-parse', '--absolute-git-dir']);
+    const repository = new RuntimeGitRepository({
+        repoId: 'rebase-backup-command-test',
+        cwd: repo.cwd,
+        gitDir,
+        kind: 'main',
+        label: 'rebase-backup-command-test',
+    }, runtime);
+    const worktree = new RuntimeWorktree({
+        repoId: 'rebase-backup-command-test',
+        worktreeId: 'rebase-backup-command-test-main',
+        path: repo.cwd,
+        gitDir,
+        repositoryKind: 'main',
+        isMain: true,
+        head: repo.gitTrim(['rev-parse', 'HEAD']),
+        branch,
+        dirty: false,
+    }, runtime);
+    return { repository, worktree, worktrees: [worktree] };
+}
@@ -0,0 +1,86 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import type { RepoContext } from '@core/git/domain/repo-context';
+import { ResolveRemoteWebRepositoryUseCase } from '@application/usecases/remotes/resolve-remote-web-repository';
+import { COPY_REMOTE_PERMALINK_COMMAND, openRemoteUrl, registerCopyRemotePermalinkCommand } from '@extension/commands/remote-link-commands';
+import { CliGitRuntime } from '@extension/git/cli-git-runtime';
+import { GitCliBackend } from '@extension/git/git-cli-backend';
+import { RuntimeGitRepository } from '@extension/git/runtime-git-repository';
+import { createRepoContext } from '@extension/repositories/repo-context-factory';
+import { RepositoryRegistry } from '@extension/repositories/repository-registry';
+import { createTempGitRepo, type TempGitRepo } from '@tests/helpers/git-repo';
+import { env as mockEnv, resetMockVscode, window as mockWindow } from '@tests/mocks/vscode';
+
+describe('remote link commands', () => {
+    const repos: TempGitRepo[] = [];
+    const disposables: vscode.Disposable[] = [];
+
+    afterEach(() => {
+        while (disposables.length) { disposables.pop()!.dispose(); }
+        while (repos.length) { repos.pop()!.cleanup(); }
+        resetMockVscode();
+    });
+
+    it('copies a permalink to the selected lines at HEAD', async () => {
+        const repo = createTempGitRepo();
+        repos.push(repo);
+        repo.write('src/app.ts', 'first\nsecond\nthird\n');
+        const head = repo.commit('add app');
+        repo.git(['remote', 'add', 'origin', 'git@github.com:owner/repo.git']);
+        const context = createRepoContext(repo.cwd);
+        disposables.push(registerCopyRemotePermalinkCommand({
+            repositories: { contexts: [context] },
+            runtimeRepositories: runtimeRegistry(context),
+            resolver: new ResolveRemoteWebRepositoryUseCase(() => []),
+        }));
+        const document = await vscode.workspace.openTextDocument(vscode.Uri.file(path.join(repo.cwd, 'src', 'app.ts')));
+        const editor = await vscode.window.showTextDocument(document);
+        // Selected bottom-up, ending at the start of the line after the selection.
+        editor.selection = new vscode.Selection(new vscode.Position(3, 0), new vscode.Position(1, 2));
+
+        await vscode.commands.executeCommand(COPY_REMOTE_PERMALINK_COMMAND);
+
+        expect(mockEnv.clipboard.value).toBe(`https://github.com/owner/repo/blob/${head}/src/app.ts#L2-L3`);
+        expect(mockWindow.infoMessages).toEqual(['Permalink copied to clipboard.']);
+    });
+
+    it('reports files without a hosted remote', async () => {
+        const repo = createTempGitRepo();
+        repos.push(repo);
+        repo.write('app.ts', 'first\n');
+        repo.commit('add app');
+        const context = createRepoContext(repo.cwd);
+        disposables.push(registerCopyRemotePermalinkCommand({
+            repositories: { contexts: [context] },
+            runtimeRepositories: runtimeRegistry(context),
+            resolver: new ResolveRemoteWebRepositoryUseCase(() => []),
+        }));
+        await vscode.window.showTextDocument(await vscode.workspace.openTextDocument(vscode.Uri.file(path.join(repo.cwd, 'app.ts'))));
+
+        await vscode.commands.executeCommand(COPY_REMOTE_PERMALINK_COMMAND);
+
+        expect(mockEnv.clipboard.value).toBe('');
+        expect(mockWindow.errorMessages).toEqual(['No remote on a known hosting service. Add the host to lookGit.remoteHosting.hosts.']);
+    });
+
+    it('opens only web links externally', async () => {
+        await openRemoteUrl('https://github.com/owner/repo/issues/1');
+
+        await expect(openRemoteUrl('file:///etc/passwd')).rejects.toThrow('Only http and https links can be opened');
+        expect(mockEnv.openedExternalUris).toEqual(['https://github.com/owner/repo/issues/1']);
+    });
+});
+
+function runtimeRegistry(context: RepoContext): RepositoryRegistry {
+    const runtime = new CliGitRuntime((args, runtimeContext, options) => new GitCliBackend(runtimeContext.cwd).run(args, options));
+    const registry = new RepositoryRegistry();
+    registry.registerRepository(new RuntimeGitRepository({
+        repoId: context.id,
+        cwd: context.cwd,
+        gitDir: `${context.cwd}/.git`,
+        kind: 'main',
+        label: context.label,
+    }, runtime));
+    return registry;
+}
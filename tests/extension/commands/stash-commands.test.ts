@@ -0,0 +1,142 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import type { RuntimeCommandTargets } from '@extension/commands/runtime-command-targets';
+import { runStashCommand } from '@extension/commands/stash-commands';
+import { GuardedOperationCoordinator, type RequestGuardedOperation } from '@extension/operations/guarded-operation-coordinator';
+import { CliGitRuntime } from '@extension/git/cli-git-runtime';
+import { GitCliBackend } from '@extension/git/git-cli-backend';
+import { RuntimeGitRepository } from '@extension/git/runtime-git-repository';
+import { RuntimeWorktree } from '@extension/git/runtime-worktree';
+import { createRemoteWorkflowFixture, type RemoteWorkflowFixture } from '@tests/helpers/git-repo';
+import type { OperationPlanPrompt } from '@protocol/shared/operation-plan';
+import { resetMockVscode, setInputBoxValue } from '@tests/mocks/vscode';
+
+describe('runStashCommand', () => {
+    const fixtures: RemoteWorkflowFixture[] = [];
+
+    afterEach(() => {
+        while (fixtures.length) { fixtures.pop()!.cleanup(); }
+        resetMockVscode();
+    });
+
+    it('applies and pops the listed stash', async () => {
+        const fixture = track(createRemoteWorkflowFixture());
+        const hash = stashChange(fixture, 'stashed\n');
+        const targets = runtimeTargetsFor(fixture);
+
+        await expect(runStashCommand(targets, 'apply', 0, hash)).resolves.toEqual({ shouldRefresh: true });
+        expect(fixture.local.gitTrim(['stash', 'list'])).toContain('stash@{0}');
+        fixture.local.git(['checkout', '--', '.']);
+
+        await runStashCommand(targets, 'pop', 0, hash);
+        expect(fixture.local.gitTrim(['stash', 'list'])).toBe('');
+        expect(fixture.local.gitTrim(['status', '--porcelain'])).not.toBe('');
+    });
+
+    it('drops a stash only after its plan is acknowledged', async () => {
+        const fixture = track(createRemoteWorkflowFixture());
+        const hash = stashChange(fixture, 'stashed\n');
+        const targets = runtimeTargetsFor(fixture);
+        const guarded = guardedOperations();
+
+        await expect(runStashCommand(targets, 'drop', 0, hash, guarded.request)).resolves.toEqual({ shouldRefresh: false });
+        expect(fixture.local.gitTrim(['stash', 'list'])).toContain('stash@{0}');
+        const [plan] = guarded.plans;
+        expect(plan).toMatchObject({ title: 'Drop stash@{0}', confirmLabel: 'Drop' });
+        expect(plan?.targets).toEqual([{ kind: 'stash', id: hash, label: 'stash@{0}: On main: stashed' }]);
+        expect(plan?.recovery).toContain(`git stash apply ${hash.substring(0, 7)}`);
+        expect(plan?.guards).toContainEqual({ kind: 'confirm', level: 'warning', reason: 'Undo Last Operation can bring the stash back.' });
+
+        await guarded.acknowledge(plan);
+        expect(fixture.local.gitTrim(['stash', 'list'])).toBe('');
+    });
+
+    it('refuses to drop a stash without a view that can show the plan', async () => {
+        const fixture = track(createRemoteWorkflowFixture());
+        const hash = stashChange(fixture, 'stashed\n');
+
+        await expect(runStashCommand(runtimeTargetsFor(fixture), 'drop', 0, hash))
+            .rejects.toThrow('Dropping a stash needs a view that can show its plan.');
+        expect(fixture.local.gitTrim(['stash', 'list'])).toContain('stash@{0}');
+    });
+
+    it('creates a branch from a stash at its base commit', async () => {
+        const fixture = track(createRemoteWorkflowFixture());
+        const hash = stashChange(fixture, 'stashed\n');
+        const base = fixture.local.gitTrim(['rev-parse', 'HEAD']);
+        fixture.local.commitFile('src/later.txt', 'later\n', 'later commit');
+        const targets = runtimeTargetsFor(fixture);
+
+        setInputBoxValue('feature/from-stash');
+        await runStashCommand(targets, 'branch', 0, hash);
+        expect(fixture.local.gitTrim(['rev-parse', '--abbrev-ref', 'HEAD'])).toBe('feature/from-stash');
+        expect(fixture.local.gitTrim(['rev-parse', 'HEAD'])).toBe(base);
+        expect(fixture.local.gitTrim(['stash', 'list'])).toBe('');
+    });
+
+    it('rejects a stash index that no longer points at the listed stash', async () => {
+        const fixture = track(createRemoteWorkflowFixture());
+        const hash = stashChange(fixture, 'first\n');
+        stashChange(fixture, 'second\n');
+        const targets = runtimeTargetsFor(fixture);
+
+        await expect(runStashCommand(targets, 'pop', 0, hash))
+            .rejects.toThrow('stash@{0} was changed or dropped. Refresh Look Graph and try again.');
+        expect(fixture.local.gitTrim(['stash', 'list']).split('\n')).toHaveLength(2);
+    });
+
+    function track(fixture: RemoteWorkflowFixture): RemoteWorkflowFixture {
+        fixtures.push(fixture);
+        return fixture;
+    }
+});
+
+function stashChange(fixture: RemoteWorkflowFixture, content: string): string {
+    fixture.local.write('remote.txt', content);
+    fixture.local.git(['stash', 'push', '-m', content.trim()]);
+    return fixture.local.gitTrim(['rev-parse', 'stash@{0}']);
+}
+
+function guardedOperations(): {
+    readonly request: RequestGuardedOperation;
+    readonly plans: OperationPlanPrompt[];
+    acknowledge(plan: OperationPlanPrompt | undefined): Promise<void>;
+} {
+    const coordinator = new GuardedOperationCoordinator();
+    const plans: OperationPlanPrompt[] = [];
+    return {
+        request: async (operation) => { plans.push(await coordinator.prepare(operation)); },
+        plans,
+        acknowledge: async (plan) => {
+            if (!plan) { throw new Error('No plan was requested.'); }
+            await coordinator.acknowledge({
+                planId: plan.planId,
+                acknowledgedGuards: plan.guards.map((guard) => guard.kind),
+                ...(plan.previewHash ? { previewHash: plan.previewHash } : {}),
+            });
+        },
+    };
+}
+
+function runtimeTargetsFor(fixture: RemoteWorkflowFixture): RuntimeCommandTargets {
+    const runtime = new CliGitRuntime((args, context, options) => new GitCliBackend(context.cwd).run(args, options));
+    const gitDir = fixture.local.gitTrim(['rev-parse', '--absolute-git-dir']);
+    const repository = new RuntimeGitRepository({
+        repoId: 'stash-command-test',
+        cwd: fixture.local.cwd,
+        gitDir,
+        kind: 'main',
+        label: 'stash-command-test',
+    }, runtime);
+    const worktree = new RuntimeWorktree({
+        repoId: 'stash-command-test',
+        worktreeId: 'stash-command-test-main',
+        path: fixture.local.cwd,
+        gitDir,
+        repositoryKind: 'main',
+        isMain: true,
+        head: fixture.local.gitTrim(['rev-parse', 'HEAD']),
+        branch: 'main',
+        dirty: false,
+    }, runtime);
+    return { repository, worktree, worktrees: [worktree] };
+}
@@ -0,0 +1,105 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import type { RuntimeCommandTargets } from '@extension/commands/runtime-command-targets';
+import { releaseNotesContent, runTagCommand } from '@extension/commands/tag-commands';
+import { CliGitRuntime } from '@extension/git/cli-git-runtime';
+import { GitCliBackend } from '@extension/git/git-cli-backend';
+import { RuntimeGitRepository } from '@extension/git/runtime-git-repository';
+import { RuntimeWorktree } from '@extension/git/runtime-worktree';
+import { createRemoteWorkflowFixture, type RemoteWorkflowFixture } from '@tests/helpers/git-repo';
+import { getCommandCalls, resetMockVscode, setWarningChoice } from '@tests/mocks/vscode';
+
+describe('runTagCommand', () => {
+    const fixtures: RemoteWorkflowFixture[] = [];
+
+    afterEach(() => {
+        while (fixtures.length) { fixtures.pop()!.cleanup(); }
+        resetMockVscode();
+    });
+
+    it('pushes a tag to the only remote and deletes it there again', async () => {
+        const fixture = track(createRemoteWorkflowFixture());
+        fixture.local.git(['tag', '-a', 'v1.0.0', '-m', 'Release 1.0']);
+        const hash = fixture.local.gitTrim(['rev-parse', 'v1.0.0']);
+        const targets = runtimeTargetsFor(fixture);
+
+        await expect(runTagCommand(targets, 'push', 'v1.0.0', hash)).resolves.toEqual({ shouldRefresh: true });
+        expect(fixture.remote.gitTrim(['tag'])).toBe('v1.0.0');
+
+        setWarningChoice('Delete');
+        await runTagCommand(targets, 'deleteRemote', 'v1.0.0', hash);
+        expect(fixture.remote.gitTrim(['tag'])).toBe('');
+        expect(fixture.local.gitTrim(['tag'])).toBe('v1.0.0');
+    });
+
+    it('reveals the tagged commit and deletes the local tag only after confirmation', async () => {
+        const fixture = track(createRemoteWorkflowFixture());
+        fixture.local.git(['tag', '-a', 'v1.0.0', '-m', 'Release 1.0']);
+        const hash = fixture.local.gitTrim(['rev-parse', 'v1.0.0']);
+        const targets = runtimeTargetsFor(fixture);
+
+        await runTagCommand(targets, 'reveal', 'v1.0.0', hash);
+        expect(getCommandCalls()).toContainEqual({ command: 'lookGit.graph.revealCommit', args: [fixture.local.gitTrim(['rev-parse', 'HEAD'])] });
+
+        setWarningChoice(undefined);
+        await expect(runTagCommand(targets, 'delete', 'v1.0.0', hash)).resolves.toEqual({ shouldRefresh: false });
+        expect(fixture.local.gitTrim(['tag'])).toBe('v1.0.0');
+
+        setWarningChoice('Delete');
+        await runTagCommand(targets, 'delete', 'v1.0.0', hash);
+        expect(fixture.local.gitTrim(['tag'])).toBe('');
+    });
+
+    it('rejects a tag that moved since the graph listed it', async () => {
+        const fixture = track(createRemoteWorkflowFixture());
+        fixture.local.git(['tag', 'v1.0.0']);
+        const targets = runtimeTargetsFor(fixture);
+
+        await expect(runTagCommand(targets, 'checkout', 'v1.0.0', '0'.repeat(40)))
+            .rejects.toThrow('Tag v1.0.0 was changed or deleted. Refresh Look Graph and try again.');
+        expect(fixture.local.gitTrim(['rev-parse', '--abbrev-ref', 'HEAD'])).toBe('main');
+    });
+
+    it('drafts release notes grouped by conventional commit type', () => {
+        expect(releaseNotesContent('v1.1.0', 'v1.0.0', [
+            { shortHash: 'aaa1111', message: 'feat(graph): add tags' },
+            { shortHash: 'bbb2222', message: 'Fix: trim tag names\n\nBody.' },
+            { shortHash: 'ccc3333', message: 'Update docs' },
+        ], true)).toBe([
+            '# v1.1.0',
+            'Changes since v1.0.0.',
+            '## Features\n\n- feat(graph): add tags (aaa1111)',
+            '## Fixes\n\n- Fix: trim tag names (bbb2222)',
+            '## Other Changes\n\n- Update docs (ccc3333)',
+            '> Only the first 3 commits are listed.',
+        ].join('\n\n'));
+    });
+
+    function track(fixture: RemoteWorkflowFixture): RemoteWorkflowFixture {
+        fixtures.push(fixture);
+        return fixture;
+    }
+});
+
+function runtimeTargetsFor(fixture: RemoteWorkflowFixture): RuntimeCommandTargets {
+    const runtime = new CliGitRuntime((args, context, options) => new GitCliBackend(context.cwd).run(args, options));
+    const gitDir = fixture.local.gitTrim(['rev-parse', '--absolute-git-dir']);
+    const repository = new RuntimeGitRepository({
+        repoId: 'tag-command-test',
+        cwd: fixture.local.cwd,
+        gitDir,
+        kind: 'main',
+        label: 'tag-command-test',
+    }, runtime);
+    const worktree = new RuntimeWorktree({
+        repoId: 'tag-command-test',
+        worktreeId: 'tag-command-test-main',
+        path: fixture.local.cwd,
+        gitDir,
+        repositoryKind: 'main',
+        isMain: true,
+        head: fixture.local.gitTrim(['rev-parse', 'HEAD']),
+        branch: 'main',
+        dirty: false,
+    }, runtime);
+    return { repository, worktree, worktrees: [worktree] };
+}
@@ -5,6 +5,7 @@ import * as path from 'path';
 import { GitPushOutcome } from '@application/ports/git-capabilities';
 import { UnsupportedGitOperationError } from '@application/ports/git-runtime';
 import { CliGitRuntime } from '@extension/git/cli-git-runtime';
+import { GitHookError } from '@extension/git/git-error';
 import type { GitExecutionContext } from '@application/ports/git-runtime';
 import type { CliGitRuntimeProcess } from '@extension/git/cli-git-runtime';
 import { removeDirSyncWithRetry } from '@tests/helpers/git-repo';
@@ -64,6 +65,34 @@ describe('CliGitRuntime', () => {
         expect(previewEnvs).toEqual([{ LC_ALL: 'C', LANG: 'C' }]);
     });
 
+    it('decodes quoted non-ASCII and quote-containing paths in the clean preview', async () => {
+        const runtime = new CliGitRuntime(async () => 'Would remove "caf\\303\\251.txt"\nWould remove "say \\"hi\\".txt"\n');
+
+        await expect(runtime.execute('previewClean', context, { paths: [] })).resolves.toEqual(['café.txt', 'say "hi".txt']);
+    });
+
+    it('keeps a trailing space in the last path of the clean preview', async () => {
+        const runtime = new CliGitRuntime(async () => 'Would remove tmp.txt\nWould remove notes \n');
+
+        await expect(runtime.execute('previewClean', context, { paths: [] })).resolves.toEqual(['tmp.txt', 'notes ']);
+    });
+
+    it('passes directory and ignored-file options to clean preview and removal', async () => {
+        const calls: string[][] = [];
+        const runtime = new CliGitRuntime(async (args) => {
+            calls.push([...args]);
+            return '';
+        });
+
+        await runtime.execute('previewClean', context, { paths: [], options: { directories: true, ignored: true } });
+        await runtime.execute('cleanUntracked', context, { paths: ['build/'], options: { directories: true, force: true } });
+
+        expect(calls).toEqual([
+            ['clean', '-n', '-d', '-x'],
+            ['clean', '-f', '-d', '--', 'build/'],
+        ]);
+    });
+
     it('pushes a branch to its upstream remote when no remote is provided', async () => {
         const calls: string[][] = [];
         const runtime = new CliGitRuntime(async (args) => {
@@ -210,7 +239,12 @@ describe('CliGitRuntime', () => {
                 ].join('\n');
             }
             if (args[0] === 'symbolic-ref') { return 'main\n'; }
-            if (args[0] === 'tag') { return 'v1.0.0\0abc123\n'; }
+            if (args[0] === 'tag') {
+                return [
+                    ['v1.0.0', 'abc123', 'commit', '', '', '', '2024-01-02T03:04:05+00:00', 'Initial commit', ''],
+                    ['v1.1.0', 'tag456', 'tag', 'def456', 'Ana', '<ana@example.test>', '2024-02-03T04:05:06+00:00', 'Release 1.1', 'Fixes login.\n'],
+                ].map((fields) => `${fields.join('\0')}\x1e\n`).join('');
+            }
             throw new Error(`Unexpected args: ${args.join(' ')}`);
         });
 
@@ -219,7 +253,17 @@ describe('CliGitRuntime', () => {
             { name: 'origin/main', isCurrent: false, hash: 'def456', upstream: undefined, ahead: 0, behind: 0, isRemote: true },
         ]);
         await expect(runtime.execute('listTags', context, undefined)).resolves.toEqual([
-            { name: 'v1.0.0', hash: 'abc123' },
+            { name: 'v1.0.0', hash: 'abc123', target: 'abc123', annotated: false, date: '2024-01-02T03:04:05+00:00' },
+            {
+                name: 'v1.1.0',
+                hash: 'tag456',
+                target: 'def456',
+                annotated: true,
+                taggerName: 'Ana',
+                taggerEmail: 'ana@example.test',
+                date: '2024-02-03T04:05:06+00:00',
+                message: 'Release 1.1\n\nFixes login.',
+            },
         ]);
     });
 
@@ -249,15 +293,25 @@ describe('CliGitRuntime', () => {
 
     it('pages stash results with the domain Page value', async () => {
         const runtime = new CliGitRuntime(async (args) => {
-            if (args.join(' ') === 'stash list --format=%gd %s') {
-                return 'stash@{0} first\nstash@{1} second\nstash@{2} third\n';
+            if (args.join(' ') === 'stash list --format=%gd%x00%H%x00%P%x00%cI%x00%s') {
+                return [
+                    ['stash@{0}', 'a'.repeat(40), `${'b'.repeat(40)} ${'c'.repeat(40)}`, '2026-01-02T03:04:05+00:00', 'first'].join('\0'),
+                    ['stash@{1}', '', '', '', 'second'].join('\0'),
+                    ['stash@{2}', '', '', '', 'third'].join('\0'),
+                ].join('\n') + '\n';
             }
             throw new Error(`Unexpected args: ${args.join(' ')}`);
         });
 
         await expect(runtime.execute('listStashes', context, { pageRequest: { limit: 2 } })).resolves.toMatchObject({
             items: [
-                { index: 0, message: 'first' },
+                {
+                    index: 0,
+                    message: 'first',
+                    hash: 'a'.repeat(40),
+                    parentHashes: ['b'.repeat(40), 'c'.repeat(40)],
+                    date: '2026-01-02T03:04:05+00:00',
+                },
                 { index: 1, message: 'second' },
             ],
             hasMore: true,
@@ -345,13 +399,220 @@ describe('CliGitRuntime', () => {
         const calls: string[][] = [];
         const runtime = new CliGitRuntime(recordingProcess(calls));
 
-        await runtime.execute('cherryPick', context, { commit: 'abc123', options: { noCommit: true } });
-        await runtime.execute('revertCommit', context, { commit: 'def456', options: { noCommit: true, noEdit: true } });
+        await runtime.execute('cherryPick', context, { commits: ['abc123'], options: { noCommit: true } });
+        await runtime.execute('cherryPick', context, { commits: ['abc123', 'bcd234'], options: { recordOrigin: true, mainline: 1 } });
+        await runtime.execute('revertCommit', context, { commits: ['def456'], options: { noCommit: true, noEdit: true } });
+        await runtime.execute('revertCommit', context, { commits: ['def456', 'cde345'], options: { noEdit: true, mainline: 2 } });
 
         expect(calls).toEqual([
             ['cherry-pick', '--no-commit', 'abc123'],
+            ['cherry-pick', '-x', '-m', '1', 'abc123', 'bcd234'],
             ['revert', '--no-commit', '--no-edit', 'def456'],
+            ['revert', '--no-edit', '-m', '2', 'def456', 'cde345'],
+        ]);
+    });
+
+    it('rejects empty cherry-pick sequences and invalid mainline parents', async () => {
+        const runtime = new CliGitRuntime(recordingProcess([]));
+
+        await expect(runtime.execute('cherryPick', context, { commits: [], options: {} })).rejects.toThrow('commits must not be empty.');
+        await expect(runtime.execute('revertCommit', context, { commits: ['abc123'], options: { mainline: 0 } }))
+            .rejects.toThrow('options.mainline must be a positive integer.');
+    });
+
+    it('passes explicit signing options to commit, amend, rebase, and tag args', async () => {
+        const calls: string[][] = [];
+        const runtime = new CliGitRuntime(recordingProcess(calls));
+
+        await runtime.execute('commit', context, { message: 'signed', options: { sign: true } });
+        await runtime.execute('amendCommit', context, { message: 'unsigned', options: { sign: false } });
+        await runtime.execute('commit', context, { message: 'configured', options: {} });
+        await runtime.execute('rebase', context, { upstream: 'main', options: { sign: true } });
+        await runtime.execute('createTag', context, { name: 'v1.0.0', target: 'abc123', message: 'Release', options: { sign: true } });
+        await runtime.execute('createTag', context, { name: 'v1.0.1', target: 'abc123', options: { sign: false } });
+
+        expect(calls).toEqual([
+            ['commit', '--gpg-sign', '-m', 'signed'],
+            ['commit', '--amend', '--no-gpg-sign', '-m', 'unsigned'],
+            ['commit', '-m', 'configured'],
+            ['rebase', '--gpg-sign', 'main'],
+            ['tag', '-s', 'v1.0.0', 'abc123', '-m', 'Release'],
+            ['tag', '--no-sign', 'v1.0.1', 'abc123'],
+        ]);
+        await expect(runtime.execute('createTag', context, { name: 'v2', target: 'abc123', options: { sign: true } }))
+            .rejects.toThrow('Signed tags need a message.');
+    });
+
+    it('skips commit hooks only when asked', async () => {
+        const calls: string[][] = [];
+        const runtime = new CliGitRuntime(recordingProcess(calls));
+
+        await runtime.execute('commit', context, { message: 'skip', options: { noVerify: true } });
+        await runtime.execute('amendCommit', context, { message: 'skip', options: { noVerify: true, sign: true } });
+
+        expect(calls).toEqual([
+            ['commit', '--no-verify', '-m', 'skip'],
+            ['commit', '--amend', '--gpg-sign', '--no-verify', '-m', 'skip'],
+        ]);
+    });
+
+    it('names the hook that rejected a commit from the trace2 events of the git process', async () => {
+        const runtime = new CliGitRuntime(async (_args, _context, options) => {
+            const tracePath = options.env?.GIT_TRACE2_EVENT;
+            if (!tracePath) { throw new Error('expected a trace2 target'); }
+            fs.writeFileSync(tracePath, [
+                { event: 'version', sid: 'commit' },
+                { event: 'child_start', sid: 'commit', child_id: 0, child_class: 'hook', hook_name: 'pre-commit' },
+                { event: 'child_exit', sid: 'commit/lint', child_id: 0, code: 128 },
+                { event: 'child_exit', sid: 'commit', child_id: 0, code: 1 },
+            ].map((event) => JSON.stringify(event)).join('\n'));
+            throw Object.assign(new Error('Command failed: git commit'), { code: 1, stdout: 'lint\n', stderr: 'src/a.ts: unused import\n' });
+        });
+
+        const failure = await runtime.execute('commit', context, { message: 'feat: add', options: {} }).catch((error: unknown) => error);
+
+        expect(failure).toBeInstanceOf(GitHookError);
+        expect(failure).toMatchObject({ hook: 'pre-commit', stdout: 'lint\n', stderr: 'src/a.ts: unused import\n' });
+    });
+
+    it('rethrows commit failures that no hook caused', async () => {
+        const error = Object.assign(new Error('nothing to commit'), { code: 1 });
+        const runtime = new CliGitRuntime(async () => { throw error; });
+
+        await expect(runtime.execute('commit', context, { message: 'feat: add', options: {} })).rejects.toBe(error);
+    });
+
+    it('reads signing config and falls back to defaults when no key is set', async () => {
+        const configured = new CliGitRuntime(async () => 'commit.gpgsign\ntrue\0gpg.format\nssh\0');
+        const unset = new CliGitRuntime(async () => { throw Object.assign(new Error('git config failed'), { code: 1 }); });
+
+        await expect(configured.execute('getSigningConfig', context, {})).resolves.toEqual({ signCommits: true, signTags: false, format: 'ssh' });
+        await expect(unset.execute('getSigningConfig', context, {})).resolves.toEqual({ signCommits: false, signTags: false, format: 'openpgp' });
+    });
+
+    it('reads the commit template relative to the repository and treats an unset or missing one as empty', async () => {
+        const root = fs.mkdtempSync(path.join(os.tmpdir(), 'look-git-template-'));
+        try {
+            fs.writeFileSync(path.join(root, '.gitmessage'), 'feat: \n\n# Why?\n');
+            const calls: string[][] = [];
+            const configured = new CliGitRuntime(async (args) => { calls.push([...args]); return '.gitmessage\n'; });
+            const missing = new CliGitRuntime(async () => path.join(root, 'missing'));
+            const unset = new CliGitRuntime(async () => { throw Object.assign(new Error('git config failed'), { code: 1 }); });
+            const templateContext = { ...context, cwd: root };
+
+            await expect(configured.execute('getCommitTemplate', templateContext, {})).resolves.toBe('feat: \n\n# Why?\n');
+            expect(calls).toEqual([['config', '--path', '--get', 'commit.template']]);
+            await expect(missing.execute('getCommitTemplate', templateContext, {})).resolves.toBe('');
+            await expect(unset.execute('getCommitTemplate', templateContext, {})).resolves.toBe('');
+        } finally {
+            removeDirSyncWithRetry(root);
+        }
+    });
+
+    it('maps Git LFS operations to git invocation args', async () => {
+        const calls: string[][] = [];
+        const runtime = new CliGitRuntime(recordingProcess(calls));
+
+        await runtime.execute('getLfsFileAtRevision', context, { path: 'art/hero.psd', revision: 'HEAD~1' });
+        await runtime.execute('getLfsFileFromIndex', context, { path: 'art/hero.psd' });
+        await runtime.execute('lockLfsFile', context, { path: 'art/hero.psd' });
+        await runtime.execute('unlockLfsFile', context, { path: 'art/hero.psd', force: true });
+        await runtime.execute('unlockLfsFile', context, { path: 'art/hero.psd', force: false });
+        await runtime.execute('fetchLfsObjects', context, { remote: 'origin' });
+        await runtime.execute('fetchLfsObjects', context, {});
+
+        expect(calls).toEqual([
+            ['cat-file', '--filters', 'HEAD~1:art/hero.psd'],
+            ['cat-file', '--filters', ':art/hero.psd'],
+            ['lfs', 'lock', '--', 'art/hero.psd'],
+            ['lfs', 'unlock', '--force', '--', 'art/hero.psd'],
+            ['lfs', 'unlock', '--', 'art/hero.psd'],
+            ['lfs', 'fetch', 'origin'],
+            ['lfs', 'fetch'],
+        ]);
+    });
+
+    it('reads LFS-tracked paths from git lfs ls-files when git-lfs is installed', async () => {
+        const calls: string[][] = [];
+        const runtime = new CliGitRuntime(async (args) => {
+            calls.push([...args]);
+            return 'art/hero.psd\nsounds/a b.wav\n';
+        });
+
+        const tracked = await runtime.execute<unknown, readonly string[]>('getLfsTrackedPaths', context, { paths: ['README.md', 'sounds/a b.wav', 'art/hero.psd'] });
+
+        expect(tracked).toEqual(['sounds/a b.wav', 'art/hero.psd']);
+        expect(calls).toEqual([['lfs', 'ls-files', '--name-only']]);
+    });
+
+    it('reads LFS-tracked paths in check-attr batches without git-lfs', async () => {
+        const calls: string[][] = [];
+        const runtime = new CliGitRuntime(async (args) => {
+            if (args[0] === 'lfs') { throw new Error("git: 'lfs' is not a git command. See 'git --help'."); }
+            if (args[0] === 'grep') { throw Object.assign(new Error('git grep failed'), { code: 1 }); }
+            calls.push([...args]);
+            const paths = args.slice(args.indexOf('--') + 1);
+            return paths.map((filePath) => `${filePath}\0filter\0${filePath.endsWith('.psd') ? 'lfs' : 'unspecified'}\0`).join('');
+        });
+        const paths = Array.from({ length: 250 }, (_, index) => `assets/${index}.${index % 2 === 0 ? 'psd' : 'txt'}`);
+
+        const tracked = await runtime.execute<unknown, readonly string[]>('getLfsTrackedPaths', context, { paths });
+
+        expect(calls.map((args) => args.length - 4)).toEqual([200, 50]);
+        expect(tracked).toHaveLength(125);
+        await expect(runtime.execute('getLfsTrackedPaths', context, { paths: [] })).resolves.toEqual([]);
+        expect(calls).toHaveLength(2);
+    });
+
+    it('reads staged LFS pointers that no attribute covers without git-lfs', async () => {
+        const calls: string[][] = [];
+        const runtime = new CliGitRuntime(async (args) => {
+            if (args[0] === 'lfs') { throw new Error("git: 'lfs' is not a git command. See 'git --help'."); }
+            calls.push([...args]);
+            if (args[0] === 'grep') { return 'legacy/model.bin\0'; }
+            return 'art/hero.psd\0filter\0lfs\0legacy/model.bin\0filter\0unspecified\0README.md\0filter\0unspecified\0';
+        });
+
+        const tracked = await runtime.execute<unknown, readonly string[]>('getLfsTrackedPaths', context, { paths: ['art/hero.psd', 'legacy/model.bin', 'README.md'] });
+
+        expect(tracked).toEqual(['art/hero.psd', 'legacy/model.bin']);
+        expect(calls.at(-1)).toEqual([
+            'grep', '--cached', '-I', '-l', '-z', '--full-name', '-e', '^version https://git-lfs\\.github\\.com/spec/v1$', '--',
+            ':(literal)art/hero.psd', ':(literal)legacy/model.bin', ':(literal)README.md',
+        ]);
+    });
+
+    it('maps notes operations to git invocation args and keeps refspecs under refs/notes', async () => {
+        const calls: string[][] = [];
+        const runtime = new CliGitRuntime(recordingProcess(calls));
+
+        await runtime.execute('setCommitNote', context, { commit: 'abc123', message: 'QA passed\n\nbuild 142', ref: 'refs/notes/qa' });
+        await runtime.execute('removeCommitNote', context, { commit: 'abc123', ref: 'refs/notes/commits' });
+        await runtime.execute('pushNotesRef', context, { remote: 'origin', ref: 'refs/notes/qa' });
+        await runtime.execute('fetchNotesRef', context, { remote: 'origin', ref: 'refs/notes/qa' });
+
+        expect(calls).toEqual([
+            ['notes', '--ref=refs/notes/qa', 'add', '-f', '-m', 'QA passed\n\nbuild 142', 'abc123'],
+            ['notes', '--ref=refs/notes/commits', 'remove', '--ignore-missing', 'abc123'],
+            ['push', 'origin', 'refs/notes/qa:refs/notes/qa'],
+            ['fetch', 'origin', 'refs/notes/qa:refs/notes/qa'],
         ]);
+        await expect(runtime.execute('pushNotesRef', context, { remote: 'origin', ref: 'refs/heads/main' }))
+            .rejects.toThrow('ref must be under refs/notes/.');
+    });
+
+    it('reads the note of a commit from every notes ref that has one', async () => {
+        const calls: string[][] = [];
+        const runtime = new CliGitRuntime(async (args) => {
+            calls.push([...args]);
+            if (args[0] === 'for-each-ref') { return 'refs/notes/commits\nrefs/notes/qa\n'; }
+            return args.includes('--notes=refs/notes/qa') ? 'QA passed\n\n' : '\n';
+        });
+
+        await expect(runtime.execute('getCommitNotes', context, { commit: 'abc123' }))
+            .resolves.toEqual([{ ref: 'refs/notes/qa', message: 'QA passed' }]);
+        await expect(runtime.execute('listNotesRefs', context, {})).resolves.toEqual(['refs/notes/commits', 'refs/notes/qa']);
+        expect(calls[1]).toEqual(['show', '-s', '--no-notes', '--notes=refs/notes/commits', '--format=%N', 'abc123']);
     });
 
     it('maps tag deletion input objects to git invocation args', async () => {
@@ -1,5 +1,5 @@
 import { describe, expect, it } from 'vitest';
-import { isNonFastForwardPushError } from '@extension/git/git-error';
+import { GitHookError, gitHookFailure, isMissingConfigValue, isNoMatchExit, isNonFastForwardPushError } from '@extension/git/git-error';
 
 describe('git error classification', () => {
     it('recognizes non-fast-forward push failures', () => {
@@ -12,4 +12,35 @@ describe('git error classification', () => {
         expect(isNonFastForwardPushError({ stderr: '! [remote rejected] main -> main (protected branch hook declined)' })).toBe(false);
         expect(isNonFastForwardPushError(new Error('Could not read from remote repository.'))).toBe(false);
     });
+
+    it('recognizes the exit code git config reports for an unset key', () => {
+        expect(isMissingConfigValue({ code: 1 })).toBe(true);
+        expect(isMissingConfigValue({ code: '1' })).toBe(true);
+        expect(isMissingConfigValue({ code: 128 })).toBe(false);
+        expect(isMissingConfigValue(new Error('fatal: bad config line 3'))).toBe(false);
+    });
+
+    it('recognizes the exit of a search that matched nothing', () => {
+        expect(isNoMatchExit({ code: 1 })).toBe(true);
+        expect(isNoMatchExit({ code: 128 })).toBe(false);
+    });
+
+    it('reads hook failures from hook errors and from pre-push rejections', () => {
+        expect(gitHookFailure(new GitHookError('commit-msg', '', 'Missing issue key.\n'))).toEqual({
+            hook: 'commit-msg',
+            stdout: '',
+            stderr: 'Missing issue key.\n',
+        });
+        expect(gitHookFailure({ stdout: '', stderr: 'tests failed\nerror: failed to push some refs to \'origin\'\n' })).toEqual({
+            hook: 'pre-push',
+            stdout: '',
+            stderr: 'tests failed\nerror: failed to push some refs to \'origin\'\n',
+        });
+    });
+
+    it('does not read remote rejections or refspec errors as hook failures', () => {
+        expect(gitHookFailure({ stderr: 'To origin\n ! [rejected] main -> main (fetch first)\nerror: failed to push some refs to \'origin\'' })).toBeUndefined();
+        expect(gitHookFailure({ stderr: 'error: src refspec nope does not match any\nerror: failed to push some refs to \'origin\'' })).toBeUndefined();
+        expect(gitHookFailure(new Error('Could not read from remote repository.'))).toBeUndefined();
+    });
 });
@@ -0,0 +1,108 @@
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { describe, expect, it } from 'vitest';
+import type { OperationJournal, OperationJournalEntry, OperationJournalRecord } from '@application/ports/operation-journal';
+import { UndoLastOperationUseCase, type UndoTarget } from '@application/usecases/undo/undo-last-operation';
+import { JournalingGitRuntime } from '@extension/git/journaling-git-runtime';
+import { RuntimeGitRepository } from '@extension/git/runtime-git-repository';
+import { RuntimeWorktree } from '@extension/git/runtime-worktree';
+import { createSemanticRuntimeFixture, type SemanticRuntimeFixture } from '@tests/helpers/semantic-runtime-fixture';
+
+describe('JournalingGitRuntime', () => {
+    it('journals undoable operations and reverts them newest first', async () => {
+        const fixture = await createSemanticRuntimeFixture('look-git-journaling-runtime-');
+        try {
+            const journal = new MemoryOperationJournal();
+            const target = journaledTarget(fixture, journal);
+            const undo = new UndoLastOperationUseCase(journal);
+            cleanWorkingTree(fixture);
+            const mainHead = fixture.git(['rev-parse', 'HEAD']).trim();
+
+            fixture.git(['branch', 'journal/feature']);
+            await target.worktree.checkout('journal/feature', {});
+            fs.writeFileSync(path.join(fixture.fixture.repo, 'src', 'journal.ts'), 'export const journal = 1;\n');
+            await target.worktree.stage(['src/journal.ts']);
+            await target.worktree.commit('test(undo): journal commit', {});
+            const beforeAmend = fixture.git(['rev-parse', 'HEAD']).trim();
+            await target.worktree.amendCommit('test(undo): amended journal commit', {});
+
+            expect(journal.entries('semantic-actions').map((entry) => entry.operation)).toEqual(['checkout', 'amendCommit']);
+            await expect(undo.execute(target)).resolves.toMatchObject({ operation: 'amendCommit' });
+            expect(fixture.git(['rev-parse', 'HEAD']).trim()).toBe(beforeAmend);
+
+            await expect(undo.execute(target)).rejects.toThrow('The repository changed after the checkout of journal/feature');
+            fixture.git(['reset', '--hard', mainHead]);
+            await expect(undo.execute(target)).resolves.toMatchObject({ operation: 'checkout' });
+            expect(fixture.git(['branch', '--show-current']).trim()).toBe('main');
+            expect(journal.entries('semantic-actions')).toEqual([]);
+            await expect(undo.execute(target)).rejects.toThrow('There is no operation to undo.');
+        } finally {
+            fixture.cleanup();
+        }
+    }, 120_000);
+
+    it('restores deleted branches and dropped stashes', async () => {
+        const fixture = await createSemanticRuntimeFixture('look-git-journaling-restore-');
+        try {
+            const journal = new MemoryOperationJournal();
+            const target = journaledTarget(fixture, journal);
+            const undo = new UndoLastOperationUseCase(journal);
+            cleanWorkingTree(fixture);
+
+            fixture.git(['branch', 'journal/deleted', 'HEAD~1']);
+            const deletedTip = fixture.git(['rev-parse', 'journal/deleted']).trim();
+            await target.repository.deleteBranch('journal/deleted', true);
+            await expect(undo.execute(target)).resolves.toMatchObject({ operation: 'deleteBranch' });
+            expect(fixture.git(['rev-parse', 'journal/deleted']).trim()).toBe(deletedTip);
+
+            fs.writeFileSync(path.join(fixture.fixture.repo, 'README.md'), 'journal stash\n');
+            fixture.git(['stash', 'push', '-m', 'journal stash']);
+            const stash = fixture.git(['rev-parse', 'stash@{0}']).trim();
+            await target.worktree.dropStash('stash@{0}');
+            expect(fixture.git(['stash', 'list'])).not.toContain('journal stash');
+            await expect(undo.execute(target)).resolves.toMatchObject({ operation: 'dropStash' });
+            expect(fixture.git(['rev-parse', 'stash@{0}']).trim()).toBe(stash);
+            expect(fixture.git(['stash', 'list'])).toContain('journal stash');
+        } finally {
+            fixture.cleanup();
+        }
+    }, 120_000);
+});
+
+function journaledTarget(fixture: SemanticRuntimeFixture, journal: OperationJournal): UndoTarget {
+    const runtime = new JournalingGitRuntime(fixture.runtime, journal);
+    return {
+        repository: new RuntimeGitRepository(fixture.repository, runtime),
+        worktree: new RuntimeWorktree({
+            ...fixture.worktree,
+            gitDir: fixture.repository.gitDir,
+            repositoryKind: fixture.repository.kind,
+        }, runtime),
+    };
+}
+
+function cleanWorkingTree(fixture: SemanticRuntimeFixture): void {
+    fixture.git(['reset', '--hard', 'HEAD']);
+    fixture.git(['clean', '-fd']);
+}
+
+class MemoryOperationJournal implements OperationJournal {
+    private readonly byRepository = new Map<string, OperationJournalEntry[]>();
+    private sequence = 0;
+
+    entries(repositoryId: string): readonly OperationJournalEntry[] {
+        return this.byRepository.get(repositoryId) ?? [];
+    }
+
+    async append(repositoryId: string, record: OperationJournalRecord): Promise<OperationJournalEntry> {
+        const entry = { ...record, id: `entry-${++this.sequence}` };
+        this.byRepository.set(repositoryId, [...this.entries(repositoryId), entry]);
+        return entry;
+    }
+
+    async truncate(repositoryId: string, entryId: string): Promise<void> {
+        const entries = this.entries(repositoryId);
+        const index = entries.findIndex((entry) => entry.id === entryId);
+        if (index >= 0) { this.byRepository.set(repositoryId, entries.slice(0, index)); }
+    }
+}
@@ -1,6 +1,6 @@
 import { afterEach, describe, expect, it } from 'vitest';
 import { GitCliBackend } from '@extension/git/git-cli-backend';
-import { queryBlame } from '@extension/git/queries/query-blame';
+import { queryBlame, queryBlameIgnoreRevsFiles } from '@extension/git/queries/query-blame';
 import { createTempGitRepo, type TempGitRepo } from '@tests/helpers/git-repo';
 
 describe('queryBlame', () => {
@@ -23,7 +23,7 @@ describe('queryBlame', () => {
         }, '2024-01-02T00:00:00Z');
         const backend = new GitCliBackend(repo.cwd);
 
-        const lines = await queryBlame((args, signal) => backend.run(args, { signal }), 'src/app.ts');
+        const lines = await queryBlame((args, signal) => backend.run(args, { signal }), 'src/app.ts', undefined, {});
 
         expect(lines).toEqual([
             expect.objectContaining({
@@ -40,4 +40,102 @@ describe('queryBlame', () => {
             }),
         ]);
     });
+
+    it('blames a file as it was in an earlier revision and names the revision before each change', async () => {
+        const repo = createTempGitRepo();
+        repos.push(repo);
+        const firstHash = repo.commitFile('src/app.ts', 'first\n', 'add first line');
+        const secondHash = repo.commitFile('src/app.ts', 'first\nsecond\n', 'add second line');
+        repo.commitFile('src/app.ts', 'zero\nfirst\nsecond\n', 'add zero line');
+        const backend = new GitCliBackend(repo.cwd);
+
+        const lines = await queryBlame((args, signal) => backend.run(args, { signal }), 'src/app.ts', secondHash, {});
+
+        expect(lines).toEqual([
+            expect.objectContaining({ line: 1, commit: firstHash, originalLine: 1, filePath: 'src/app.ts' }),
+            expect.objectContaining({
+                line: 2,
+                commit: secondHash,
+                originalLine: 2,
+                filePath: 'src/app.ts',
+                previous: { commit: firstHash, filePath: 'src/app.ts' },
+            }),
+        ]);
+        expect(lines[0]?.previous).toBeUndefined();
+    });
+
+    it('looks past ignored revisions and marks the lines it redirected', async () => {
+        const repo = createTempGitRepo();
+        repos.push(repo);
+        const firstHash = repo.commitFile('src/app.ts', 'const a = 1;\nconst b = 2;\n', 'add constants');
+        const formatHash = repo.commitFile('src/app.ts', 'const a  =  1;\nconst b = 2;\n', 'reformat');
+        repo.write('.git-blame-ignore-revs', `${formatHash}\n`);
+        const backend = new GitCliBackend(repo.cwd);
+        const exec = (args: readonly string[], signal?: AbortSignal) => backend.run(args, { signal });
+
+        const plain = await queryBlame(exec, 'src/app.ts', undefined, {});
+        const ignoringRevisions = await queryBlame(exec, 'src/app.ts', undefined, { ignoreRevsFiles: ['.git-blame-ignore-revs'], markIgnoredLines: true });
+        const ignoringWhitespace = await queryBlame(exec, 'src/app.ts', undefined, { ignoreWhitespace: true });
+
+        expect(plain[0]).toEqual(expect.objectContaining({ commit: formatHash }));
+        expect(plain[0]?.ignored).toBeUndefined();
+        expect(ignoringRevisions).toEqual([
+            expect.objectContaining({ line: 1, commit: firstHash, ignored: true }),
+            expect.objectContaining({ line: 2, commit: firstHash }),
+        ]);
+        expect(ignoringRevisions[1]?.ignored).toBeUndefined();
+        expect(ignoringWhitespace[0]).toEqual(expect.objectContaining({ commit: firstHash }));
+        expect(ignoringWhitespace[0]?.ignored).toBeUndefined();
+    });
+
+    it('marks lines redirected by revisions git config ignores', async () => {
+        const repo = createTempGitRepo();
+        repos.push(repo);
+        const firstHash = repo.commitFile('src/app.ts', 'first\n', 'add first line');
+        const formatHash = repo.commitFile('src/app.ts', 'First\n', 'capitalize');
+        repo.write('revs/ignored', `${formatHash}\n`);
+        repo.git(['config', 'blame.ignoreRevsFile', 'revs/ignored']);
+        const backend = new GitCliBackend(repo.cwd);
+        const exec = (args: readonly string[], signal?: AbortSignal) => backend.run(args, { signal });
+
+        expect(await queryBlameIgnoreRevsFiles(exec)).toEqual(['revs/ignored']);
+        expect(await queryBlame(exec, 'src/app.ts', undefined, { markIgnoredLines: true })).toEqual([
+            expect.objectContaining({ line: 1, commit: firstHash, ignored: true }),
+        ]);
+        repo.git(['config', '--unset', 'blame.ignoreRevsFile']);
+        expect(await queryBlameIgnoreRevsFiles(exec)).toEqual([]);
+    });
+
+    it('follows lines moved from another file when move and copy detection is enabled', async () => {
+        const repo = createTempGitRepo();
+        repos.push(repo);
+        const body = ['export function sum(values: number[]): number {', '    return values.reduce((total, value) => total + value, 0);', '}', ''].join('\n');
+        const firstHash = repo.commitFile('src/math.ts', body, 'add sum');
+        repo.write('src/math.ts', '');
+        repo.write('src/sum.ts', body);
+        repo.commit('move sum');
+        const backend = new GitCliBackend(repo.cwd);
+        const exec = (args: readonly string[], signal?: AbortSignal) => backend.run(args, { signal });
+
+        const lines = await queryBlame(exec, 'src/sum.ts', undefined, { moveCopyDetection: 'acrossFiles' });
+
+        expect(lines.map((line) => line.commit)).toEqual([firstHash, firstHash, firstHash]);
+        expect(lines[0]?.filePath).toBe('src/math.ts');
+    });
+
+    it('blames other contents of the working file and reports its changed lines as not committed yet', async () => {
+        const repo = createTempGitRepo();
+        repos.push(repo);
+        const firstHash = repo.commitFile('src/app.ts', 'first\nsecond\n', 'add lines');
+        repo.write('buffer.txt', 'first\ninserted\nsecond\n');
+        const backend = new GitCliBackend(repo.cwd);
+
+        const lines = await queryBlame((args, signal) => backend.run(args, { signal }), 'src/app.ts', undefined, { contentsFile: 'buffer.txt' });
+
+        expect(lines).toEqual([
+            expect.objectContaining({ line: 1, commit: firstHash }),
+            expect.objectContaining({ line: 2, commit: '0'.repeat(40), author: 'Not Committed Yet' }),
+            expect.objectContaining({ line: 3, commit: firstHash, originalLine: 2 }),
+        ]);
+    });
 });
@@ -0,0 +1,55 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { queryHooks } from '@extension/git/queries/query-hooks';
+import { removeDirSyncWithRetry } from '@tests/helpers/git-repo';
+
+describe('queryHooks', () => {
+    const roots: string[] = [];
+
+    afterEach(() => {
+        while (roots.length) { removeDirSyncWithRetry(roots.pop()!); }
+    });
+
+    it('lists installed hooks in the hooks directory without samples', async () => {
+        const root = tempRoot();
+        const hooksDir = path.join(root, '.git', 'hooks');
+        fs.mkdirSync(hooksDir, { recursive: true });
+        fs.writeFileSync(path.join(hooksDir, 'pre-commit'), '#!/bin/sh\nexit 0\n', { mode: 0o755 });
+        fs.writeFileSync(path.join(hooksDir, 'commit-msg'), '#!/bin/sh\nexit 0\n', { mode: 0o644 });
+        fs.writeFileSync(path.join(hooksDir, 'pre-push.sample'), '#!/bin/sh\n', { mode: 0o755 });
+        const calls: string[][] = [];
+
+        const hooks = await queryHooks(async (args) => {
+            calls.push([...args]);
+            if (args[0] === 'rev-parse') { return '.git/hooks\n'; }
+            throw Object.assign(new Error('git config failed'), { code: 1 });
+        }, root);
+
+        expect(calls).toEqual([['rev-parse', '--git-path', 'hooks'], ['config', '--path', '--get', 'core.hooksPath']]);
+        expect(hooks).toEqual({
+            directory: hooksDir,
+            hooks: [
+                { name: 'commit-msg', path: path.join(hooksDir, 'commit-msg'), executable: process.platform === 'win32' },
+                { name: 'pre-commit', path: path.join(hooksDir, 'pre-commit'), executable: true },
+            ],
+        });
+    });
+
+    it('reports core.hooksPath and treats a missing hooks directory as empty', async () => {
+        const root = tempRoot();
+
+        await expect(queryHooks(async (args) => args[0] === 'rev-parse' ? 'tools/hooks\n' : 'tools/hooks\n', root)).resolves.toEqual({
+            directory: path.join(root, 'tools', 'hooks'),
+            configuredPath: 'tools/hooks',
+            hooks: [],
+        });
+    });
+
+    function tempRoot(): string {
+        const root = fs.mkdtempSync(path.join(os.tmpdir(), 'look-git-hooks-query-'));
+        roots.push(root);
+        return root;
+    }
+});
@@ -102,8 +102,8 @@ describe('RuntimeWorktree', () => {
         await worktree.squashCommits(['a1', 'b2'], 'feat: squashed');
         await worktree.fixupCommits(['c3']);
         await worktree.dropCommit('d4');
-        await worktree.cherryPick('e5', { noCommit: true });
-        await worktree.revertCommit('f6', { noCommit: true, noEdit: true });
+        await worktree.cherryPick(['e5', 'e6'], { noCommit: true, recordOrigin: true });
+        await worktree.revertCommit(['f6'], { noCommit: true, noEdit: true });
         await worktree.resetPaths(['src/a.ts'], 'HEAD~1');
         await worktree.restoreFromReflog('HEAD@{1}', 'mixed');
         await worktree.cleanIgnored(['dist'], { directories: true, force: true });
@@ -115,8 +115,8 @@ describe('RuntimeWorktree', () => {
             { commits: ['a1', 'b2'], message: 'feat: squashed' },
             { commits: ['c3'] },
             { commit: 'd4' },
-            { commit: 'e5', options: { noCommit: true } },
-            { commit: 'f6', options: { noCommit: true, noEdit: true } },
+            { commits: ['e5', 'e6'], options: { noCommit: true, recordOrigin: true } },
+            { commits: ['f6'], options: { noCommit: true, noEdit: true } },
             { paths: ['src/a.ts'], sourceRef: 'HEAD~1' },
             { entry: 'HEAD@{1}', mode: 'mixed' },
             { paths: ['dist'], options: { directories: true, force: true } },
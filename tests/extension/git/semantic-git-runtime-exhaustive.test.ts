@@ -2,37 +2,28 @@ import * as fs from 'node:fs';
 import * as path from 'node:path';
 import { describe, expect, it } from 'vitest';
 import { SEMANTIC_GIT_OPERATIONS, type SemanticGitOperation } from '@application/ports/git-operation';
+import { buildPartialPatch, PartialPatchDirection } from '@core/git/build-partial-patch';
+import { parseDiffHunks } from '@core/parsing/parse-diff-hunks';
 import { CliGitRuntime } from '@extension/git/cli-git-runtime';
 import { createSemanticRuntimeFixture } from '@tests/helpers/semantic-runtime-fixture';
 
 const unsupportedCliOperations = [
-    'branchFromStash',
     'commitAll',
     'compareFiles',
     'createFixupCommit',
     'createSquashCommit',
     'deinitSubmodule',
-    'discardHunks',
     'editCommit',
     'fetchSubmodule',
     'getBlame',
     'getBlameCommit',
     'getBlameForSelection',
-    'getFileRenameHistory',
-    'getIgnoredFiles',
-    'getReflog',
     'getUntrackedFiles',
     'openSubmoduleRepository',
     'pruneWorktrees',
     'reorderCommits',
     'repairWorktree',
-    'restoreFromReflog',
-    'stageHunks',
-    'stageLines',
     'syncSubmodule',
-    'undoAmend',
-    'undoCheckout',
-    'unstageHunks',
 ] satisfies readonly SemanticGitOperation[];
 
 describe('semantic git runtime exhaustive coverage', () => {
@@ -77,6 +68,9 @@ describe('semantic git runtime exhaustive coverage', () => {
             expect((await repository.listChangedFiles('origin/main', 'main', { limit: 5 })).items).toEqual(expect.arrayContaining([
                 expect.objectContaining({ filePath: 'src/reset/local-head.ts' }),
             ]));
+            expect(await repository.rangeDiff('main..origin/main', 'origin/main..main')).toEqual([
+                expect.objectContaining({ status: 'added', newCommit: { position: 1, hash: head } }),
+            ]);
 
             expect((await repository.listBranches()).map((branch) => branch.name)).toEqual(expect.arrayContaining(['main', 'feature/rewrite-stack']));
             expect((await repository.listRemoteBranches()).map((branch) => branch.name)).toContain('origin/main');
@@ -84,6 +78,21 @@ describe('semantic git runtime exhaustive coverage', () => {
             expect(await repository.listRemotes()).toEqual(['origin']);
             expect(await repository.resolveRef('semantic-reset-base')).toBe(resetBase);
             expect(await repository.getUserName()).toBe('Look Git Fixture');
+            fixture.git(['config', 'commit.gpgSign', 'false']);
+            fixture.git(['config', 'tag.gpgSign', 'true']);
+            fixture.git(['config', 'gpg.format', 'ssh']);
+            expect(await repository.getSigningConfig()).toEqual({ signCommits: false, signTags: true, format: 'ssh' });
+            fixture.git(['config', '--unset', 'tag.gpgSign']);
+            fixture.git(['config', '--unset', 'gpg.format']);
+            expect(await repository.getCommitTemplate()).toBe('');
+            const templatePath = fixture.git(['rev-parse', '--git-path', 'look-git-template']).trim();
+            fs.writeFileSync(path.join(fixture.fixture.repo, templatePath), 'feat: \n\n# Why?\n');
+            fixture.git(['config', 'commit.template', templatePath]);
+            expect(await repository.getCommitTemplate()).toBe('feat: \n\n# Why?\n');
+            fixture.git(['config', '--unset', 'commit.template']);
+            const hooks = await repository.getHooks();
+            expect(hooks.directory).toBe(path.resolve(fixture.fixture.repo, fixture.git(['rev-parse', '--git-path', 'hooks']).trim()));
+            expect(hooks.hooks.some((hook) => hook.name.endsWith('.sample'))).toBe(false);
             expect(await repository.getUpstreamBranch('main')).toBe('origin/main');
             expect((await repository.listWorktrees()).length).toBeGreaterThanOrEqual(3);
             expect(await repository.listSubmodules()).toEqual([]);
@@ -100,6 +109,15 @@ describe('semantic git runtime exhaustive coverage', () => {
             expect(await worktree.getPatch('workingTree', ['README.md'])).toContain('Unstaged README change');
             expect(await worktree.previewClean(['notes/semantic-untracked.md'], { force: true })).toContain('notes/semantic-untracked.md');
             expect(await worktree.getFileAtRevision('src/conflict.ts', 'semantic-reset-base')).toContain('current');
+            // An uppercasing smudge filter stands in for git-lfs, which is not installed on CI runners.
+            fs.writeFileSync(path.join(fixture.fixture.repo, fixture.git(['rev-parse', '--git-path', 'info/attributes']).trim()), 'src/conflict.ts filter=lfs\n');
+            fixture.git(['config', 'filter.lfs.smudge', 'tr a-z A-Z']);
+            expect(await worktree.getLfsTrackedPaths(['src/conflict.ts', 'README.md'])).toEqual(['src/conflict.ts']);
+            expect(await repository.getLfsFileAtRevision('src/conflict.ts', 'semantic-reset-base')).toContain('CURRENT');
+            expect(await worktree.getLfsFileFromIndex('README.md')).toBe(await worktree.getFileFromIndex('README.md'));
+            const reflog = await worktree.getReflog('HEAD', { limit: 1 });
+            expect(reflog.items).toEqual([expect.objectContaining({ selector: 'HEAD@{0}', hash: head })]);
+            expect(reflog.hasMore).toBe(true);
         } finally {
             fixture.cleanup();
         }
@@ -117,11 +135,24 @@ describe('semantic git runtime exhaustive coverage', () => {
             await repository.deleteBranch('feature/runtime-renamed', true);
             expect(fixture.git(['branch', '--list', 'feature/runtime-renamed'])).toBe('');
 
-            await repository.createTag('runtime-created-tag', 'HEAD', undefined);
+            await repository.createTag('runtime-created-tag', 'HEAD', undefined, {});
             expect(fixture.git(['tag', '--list', 'runtime-created-tag']).trim()).toBe('runtime-created-tag');
             await repository.deleteTag('runtime-created-tag');
             expect(fixture.git(['tag', '--list', 'runtime-created-tag'])).toBe('');
 
+            await repository.createBranch('feature/backed-up', 'semantic-reset-base');
+            const backupRef = 'refs/look-git/backup/feature-backed-up-20260102-030405';
+            await repository.updateRef(backupRef, await repository.resolveRef('semantic-reset-base'));
+            expect(await repository.listRebaseBackups()).toEqual([expect.objectContaining({
+                ref: backupRef,
+                branchLabel: 'feature-backed-up',
+                branch: 'feature/backed-up',
+                commitCount: 0,
+            })]);
+            await repository.deleteRef(backupRef);
+            expect(await repository.listRebaseBackups()).toEqual([]);
+            await repository.deleteBranch('feature/backed-up', true);
+
             await repository.addRemote('extra', extraRemotePath);
             expect(await repository.getRemoteUrl('extra')).toBe(extraRemotePath);
             await repository.setRemoteUrl('extra', extraRemotePath);
@@ -145,7 +176,19 @@ describe('semantic git runtime exhaustive coverage', () => {
             expect(fixture.git(['worktree', 'list', '--porcelain'])).toContain('detached');
             await repository.removeWorktree(detachedWorktree, true);
 
-            await repository.createTag('runtime-pushed-tag', 'HEAD', undefined);
+            const notedCommit = await repository.resolveRef('semantic-reset-base');
+            await repository.setCommitNote(notedCommit, 'build: 142\n\nqa: passed', 'refs/notes/qa');
+            expect(await repository.listNotesRefs()).toEqual(['refs/notes/qa']);
+            expect(await repository.getCommitNotes(notedCommit)).toEqual([{ ref: 'refs/notes/qa', message: 'build: 142\n\nqa: passed' }]);
+            await repository.pushNotesRef('origin', 'refs/notes/qa');
+            expect(fixture.git(['ls-remote', 'origin', 'refs/notes/qa'])).toContain('refs/notes/qa');
+            fixture.git(['update-ref', '-d', 'refs/notes/qa']);
+            await repository.fetchNotesRef('origin', 'refs/notes/qa');
+            expect(await repository.getCommitNotes(notedCommit)).toEqual([{ ref: 'refs/notes/qa', message: 'build: 142\n\nqa: passed' }]);
+            await repository.removeCommitNote(notedCommit, 'refs/notes/qa');
+            expect(await repository.getCommitNotes(notedCommit)).toEqual([]);
+
+            await repository.createTag('runtime-pushed-tag', 'HEAD', undefined, {});
             await worktree.pushTags('origin', {});
             expect(fixture.git(['ls-remote', '--tags', 'origin', 'runtime-pushed-tag'])).toContain('refs/tags/runtime-pushed-tag');
             await worktree.pushRef('origin', 'HEAD', 'refs/heads/runtime-pushed-ref', {});
@@ -188,6 +231,48 @@ describe('semantic git runtime exhaustive coverage', () => {
         }
     }, 120_000);
 
+    it('executes hunk and line staging, unstaging, and discarding on a real repo', async () => {
+        const fixture = await createSemanticRuntimeFixture('look-git-semantic-hunks-');
+        try {
+            const target = path.join(fixture.fixture.repo, 'src', 'hunk-target.ts');
+            const baseLines = Array.from({ length: 12 }, (_, index) => `export const line${index + 1} = ${index + 1};`);
+            fixture.git(['reset', '--hard', 'HEAD']);
+            fixture.git(['clean', '-fd']);
+            fs.writeFileSync(target, `${baseLines.join('\n')}\n`);
+            fixture.git(['add', 'src/hunk-target.ts']);
+            fixture.git(['commit', '-m', 'test(core): add hunk target']);
+
+            const changedLines = [...baseLines];
+            changedLines[0] = 'export const line1 = "first";';
+            changedLines[11] = 'export const line12 = "last";';
+            fs.writeFileSync(target, `${changedLines.join('\n')}\n`);
+
+            const unstaged = parseDiffHunks(await fixture.worktree.getPatch('workingTree', ['src/hunk-target.ts']));
+            const file = unstaged[0];
+            if (!file) { throw new Error('Expected an unstaged diff for src/hunk-target.ts.'); }
+            expect(file.hunks).toHaveLength(2);
+            const firstHunk = buildPartialPatch(file, new Map([[0, undefined]]), PartialPatchDirection.Apply);
+            if (!firstHunk) { throw new Error('Expected a patch for the first hunk.'); }
+
+            await fixture.worktree.stageHunks([firstHunk]);
+            expect(fixture.git(['diff', '--cached'])).toContain('"first"');
+            expect(fixture.git(['diff', '--cached'])).not.toContain('"last"');
+
+            await fixture.worktree.unstageHunks([firstHunk]);
+            expect(fixture.git(['diff', '--cached'])).toBe('');
+
+            await fixture.worktree.stageLines('src/hunk-target.ts', { startLine: 12, endLine: 12 });
+            expect(fixture.git(['diff', '--cached'])).toContain('"last"');
+            expect(fixture.git(['diff', '--cached'])).not.toContain('"first"');
+
+            await fixture.worktree.discardHunks([firstHunk]);
+            expect(fs.readFileSync(target, 'utf8')).toContain('export const line1 = 1;');
+            expect(fs.readFileSync(target, 'utf8')).toContain('"last"');
+        } finally {
+            fixture.cleanup();
+        }
+    }, 120_000);
+
     it('executes merge conflict accept and abort/continue operations on a real repo', async () => {
         const fixture = await createSemanticRuntimeFixture('look-git-semantic-conflict-');
         try {
@@ -219,6 +304,117 @@ describe('semantic git runtime exhaustive coverage', () => {
         }
     }, 120_000);
 
+    it('reports stopped cherry-pick sequences and aborts them on a real repo', async () => {
+        const fixture = await createSemanticRuntimeFixture('look-git-semantic-sequencer-');
+        try {
+            fixture.git(['reset', '--hard', 'semantic-reset-base']);
+            fixture.git(['clean', '-fd']);
+            expect(() => fixture.git(['cherry-pick', 'semantic-conflict-pick'])).toThrow();
+
+            let status = await fixture.worktree.getStatus();
+            expect(status.conflictState).toBe('cherryPick');
+            expect(status.sequencerRemaining).toBeUndefined();
+            await fixture.worktree.abortCherryPick();
+            expect((await fixture.worktree.getStatus()).conflictState).toBe('none');
+
+            expect(() => fixture.git(['cherry-pick', 'semantic-conflict-pick', 'feature/cherry-pick-source'])).toThrow();
+            status = await fixture.worktree.getStatus();
+            expect(status.conflictState).toBe('cherryPick');
+            expect(status.sequencerRemaining).toBe(2);
+            await fixture.worktree.abortCherryPick();
+            status = await fixture.worktree.getStatus();
+            expect(status.conflictState).toBe('none');
+            expect(status.sequencerRemaining).toBeUndefined();
+        } finally {
+            fixture.cleanup();
+        }
+    }, 120_000);
+
+    it('lists ignored files, explains rules, and appends ignore patterns on a real repo', async () => {
+        const fixture = await createSemanticRuntimeFixture('look-git-semantic-ignore-');
+        try {
+            const { worktree } = fixture;
+            const repo = fixture.fixture.repo;
+            fs.mkdirSync(path.join(repo, 'logs', 'nested'), { recursive: true });
+            fs.writeFileSync(path.join(repo, '.gitignore'), '*.log\n!keep.log');
+            fs.writeFileSync(path.join(repo, 'logs', '.gitignore'), 'nested/\n');
+            fs.writeFileSync(path.join(repo, 'debug.log'), 'debug\n');
+            fs.writeFileSync(path.join(repo, 'keep.log'), 'keep\n');
+            fs.writeFileSync(path.join(repo, 'logs', 'nested', 'trace.txt'), 'trace\n');
+            fs.writeFileSync(path.join(repo, 'logs', 'local.tmp'), 'tmp\n');
+
+            const ignored = (await worktree.getIgnoredFiles({ limit: 100 })).items;
+            expect(ignored).toEqual(expect.arrayContaining(['debug.log', 'logs/nested/']));
+            expect(ignored).not.toContain('keep.log');
+            const firstPage = await worktree.getIgnoredFiles({ limit: 1 });
+            expect(firstPage.items).toEqual(ignored.slice(0, 1));
+            expect(firstPage.hasMore).toBe(true);
+            const nextPage = await worktree.getIgnoredFiles({ limit: 100, encodedCursor: firstPage.encodedNextCursor });
+            expect(nextPage.items).toEqual(ignored.slice(1));
+            expect(nextPage.hasMore).toBe(false);
+
+            await expect(worktree.explainIgnore('debug.log')).resolves.toEqual({
+                source: '.gitignore', line: 1, pattern: '*.log', path: 'debug.log', negated: false,
+            });
+            await expect(worktree.explainIgnore('keep.log')).resolves.toMatchObject({ pattern: '!keep.log', negated: true });
+            await expect(worktree.explainIgnore('logs/local.tmp')).resolves.toBeUndefined();
+
+            await expect(worktree.addIgnorePattern('logs/local.tmp', 'path', 'gitignore')).resolves.toEqual({
+                ignoreFile: 'logs/.gitignore', pattern: '/local.tmp', added: true,
+            });
+            await expect(worktree.addIgnorePattern('logs/local.tmp', 'path', 'gitignore')).resolves.toMatchObject({ added: false });
+            await expect(worktree.explainIgnore('logs/local.tmp')).resolves.toMatchObject({ source: 'logs/.gitignore', line: 2 });
+            await expect(worktree.addIgnorePattern('keep.log', 'extension', 'gitignore')).resolves.toMatchObject({
+                ignoreFile: '.gitignore', pattern: '*.log', added: false,
+            });
+            await expect(worktree.addIgnorePattern('logs/local.tmp', 'folder', 'infoExclude')).resolves.toEqual({
+                ignoreFile: '.git/info/exclude', pattern: '/logs/', added: true,
+            });
+            expect(fs.readFileSync(path.join(repo, 'logs', '.gitignore'), 'utf8')).toBe('nested/\n/local.tmp\n');
+            expect(fixture.git(['check-ignore', '-v', '--', 'logs/other.txt'])).toContain('.git/info/exclude');
+            await expect(worktree.addIgnorePattern('README', 'extension', 'gitignore')).rejects.toThrow('has no file extension');
+        } finally {
+            fixture.cleanup();
+        }
+    }, 120_000);
+
+    it('follows file renames across history pages on a real repo', async () => {
+        const fixture = await createSemanticRuntimeFixture('look-git-semantic-renames-');
+        try {
+            const { repository } = fixture;
+            const repo = fixture.fixture.repo;
+            fs.mkdirSync(path.join(repo, 'lib'), { recursive: true });
+            fs.writeFileSync(path.join(repo, 'rename-source.ts'), 'export const first = 1;\nexport const second = 2;\nexport const third = 3;\n');
+            fixture.git(['add', 'rename-source.ts']);
+            fixture.git(['commit', '-m', 'test(core): add rename source']);
+            fixture.git(['mv', 'rename-source.ts', 'lib/rename-target.ts']);
+            fixture.git(['commit', '-m', 'test(core): move rename source']);
+            fs.appendFileSync(path.join(repo, 'lib', 'rename-target.ts'), 'export const fourth = 4;\n');
+            fixture.git(['commit', '-am', 'test(core): edit rename target']);
+            const hashes = fixture.git(['rev-list', '--max-count=3', 'HEAD']).trim().split('\n');
+
+            const revisions = await repository.getFileRenameHistory('lib/rename-target.ts', { limit: 5 });
+            expect(revisions.items).toEqual([
+                { commitHash: hashes[0], status: 'M', filePath: 'lib/rename-target.ts' },
+                { commitHash: hashes[1], status: 'R', filePath: 'lib/rename-target.ts', origPath: 'rename-source.ts' },
+                { commitHash: hashes[2], status: 'A', filePath: 'rename-source.ts' },
+            ]);
+            const lastRevision = await repository.getFileRenameHistory('lib/rename-target.ts', { limit: 1, encodedCursor: '2' });
+            expect(lastRevision.items).toEqual([revisions.items[2]]);
+
+            const pagedHashes: string[] = [];
+            let encodedCursor: string | undefined;
+            do {
+                const page = await repository.getFileHistory('lib/rename-target.ts', {}, { limit: 1, encodedCursor });
+                pagedHashes.push(...page.items.map((commit) => commit.hash));
+                encodedCursor = page.encodedNextCursor;
+            } while (encodedCursor);
+            expect(pagedHashes).toEqual(hashes);
+        } finally {
+            fixture.cleanup();
+        }
+    }, 120_000);
+
     it('executes reset, restore, clean, stash, checkout, commit, and amend operations on a real repo', async () => {
         const fixture = await createSemanticRuntimeFixture('look-git-semantic-worktree-');
         try {
@@ -241,8 +437,12 @@ describe('semantic git runtime exhaustive coverage', () => {
             await worktree.stage(['src/commit-target.ts']);
             await worktree.commit('test(core): commit through semantic runtime', {});
             expect(fixture.git(['log', '-1', '--format=%s']).trim()).toBe('test(core): commit through semantic runtime');
+            const beforeAmend = fixture.git(['rev-parse', 'HEAD']).trim();
             await worktree.amendCommit('test(core): amend through semantic runtime', {});
             expect(fixture.git(['log', '-1', '--format=%s']).trim()).toBe('test(core): amend through semantic runtime');
+            await worktree.undoAmend(beforeAmend);
+            expect(fixture.git(['rev-parse', 'HEAD']).trim()).toBe(beforeAmend);
+            await worktree.amendCommit('test(core): amend through semantic runtime', {});
             await worktree.undoLastCommit('soft');
             expect(fixture.git(['status', '--porcelain', '--', 'src/commit-target.ts'])).toContain('A  src/commit-target.ts');
 
@@ -261,14 +461,63 @@ describe('semantic git runtime exhaustive coverage', () => {
             await worktree.restoreWorkingTree(['src/stash-target.ts']).catch(async () => {
                 await worktree.cleanUntracked(['src/stash-target.ts'], { force: true });
             });
+            const droppedStash = fixture.git(['rev-parse', 'stash@{0}']).trim();
             await worktree.dropStash('stash@{0}');
+            await worktree.storeStash(droppedStash, 'runtime stash');
+            expect(fixture.git(['rev-parse', 'stash@{0}']).trim()).toBe(droppedStash);
+            await worktree.dropStash('stash@{0}');
+
+            fs.writeFileSync(path.join(fixture.fixture.repo, 'src', 'stash-target.ts'), 'export const stashTarget = true;\n');
+            await worktree.stash('runtime branch stash', { includeUntracked: true, paths: ['src/stash-target.ts'] });
+            await worktree.branchFromStash('stash@{0}', 'feature/runtime-from-stash');
+            expect(fixture.git(['branch', '--show-current']).trim()).toBe('feature/runtime-from-stash');
+            expect(fs.existsSync(path.join(fixture.fixture.repo, 'src', 'stash-target.ts'))).toBe(true);
+            expect(fixture.git(['stash', 'list'])).not.toContain('runtime branch stash');
+            await worktree.cleanUntracked(['src/stash-target.ts'], { force: true });
 
             await worktree.checkoutNewBranch('feature/runtime-checkout', 'semantic-reset-base');
             expect(fixture.git(['branch', '--show-current']).trim()).toBe('feature/runtime-checkout');
             await worktree.checkout('main', {});
+            await worktree.undoCheckout('feature/runtime-checkout');
+            expect(fixture.git(['branch', '--show-current']).trim()).toBe('feature/runtime-checkout');
+            await worktree.checkout('main', {});
             await worktree.resetSoft('semantic-reset-base');
             await worktree.resetHard('main');
             await worktree.resetKeep('main');
+            const beforeReflogReset = fixture.git(['rev-parse', 'HEAD']).trim();
+            await worktree.resetSoft('semantic-reset-base');
+            await worktree.restoreFromReflog('HEAD@{1}', 'soft');
+            expect(fixture.git(['rev-parse', 'HEAD']).trim()).toBe(beforeReflogReset);
+        } finally {
+            fixture.cleanup();
+        }
+    }, 120_000);
+
+    it('bisects a real linear branch by hand and with a streamed run command', async () => {
+        const fixture = await createSemanticRuntimeFixture('look-git-semantic-bisect-');
+        try {
+            const { worktree } = fixture;
+            await worktree.checkout('feature/rewrite-stack', {});
+            const base = fixture.git(['rev-parse', 'semantic-reset-base']).trim();
+            const commits = fixture.git(['rev-list', '--reverse', 'semantic-reset-base..HEAD']).trim().split(/\r?\n/);
+            expect(await worktree.getBisectState()).toBeUndefined();
+
+            await worktree.bisectStart(undefined, ['semantic-reset-base']);
+            const started = await worktree.getBisectState();
+            expect(started).toEqual(expect.objectContaining({ badHash: commits[2], goodHashes: [base], skippedHashes: [] }));
+            expect(started?.currentHash).toBe(fixture.git(['rev-parse', 'HEAD']).trim());
+            expect(started?.remainingRevisions).toBeGreaterThanOrEqual(0);
+            expect(started?.log.map((entry) => entry.mark)).toEqual(['bad', 'good']);
+
+            const output: string[] = [];
+            await worktree.bisectRun('exit 1', (chunk) => output.push(chunk));
+            const finished = await worktree.getBisectState();
+            expect(finished?.firstBadHash).toBe(commits[0]);
+            expect(output.join('')).toContain(`${commits[0]} is the first bad commit`);
+
+            await worktree.bisectReset();
+            expect(await worktree.getBisectState()).toBeUndefined();
+            expect(fixture.git(['branch', '--show-current']).trim()).toBe('feature/rewrite-stack');
         } finally {
             fixture.cleanup();
         }
@@ -310,15 +559,19 @@ describe('semantic git runtime exhaustive coverage', () => {
             const { worktree } = fixture;
             fixture.git(['reset', '--hard', 'semantic-reset-base']);
             fixture.git(['clean', '-fd']);
-            await expect(worktree.cherryPick('semantic-conflict-pick', {})).rejects.toThrow();
+            await expect(worktree.cherryPick(['semantic-conflict-pick'], {})).rejects.toThrow();
             expect((await worktree.getStatus()).conflicts.map((entry) => entry.filePath)).toContain('src/conflict.ts');
             await worktree.abortCherryPick();
 
-            await worktree.cherryPick('feature/cherry-pick-source', { noCommit: true });
+            await expect(worktree.cherryPick(['semantic-conflict-pick', 'feature/cherry-pick-source'], { recordOrigin: true })).rejects.toThrow();
+            expect(await worktree.getStatus()).toEqual(expect.objectContaining({ conflictState: 'cherryPick', sequencerRemaining: 2 }));
+            await worktree.abortCherryPick();
+
+            await worktree.cherryPick(['feature/cherry-pick-source'], { noCommit: true });
             expect(fixture.git(['status', '--porcelain'])).toContain('A  src/cherry-only.ts');
             fixture.git(['reset', '--hard', 'semantic-reset-base']);
 
-            await worktree.revertCommit('semantic-conflict-pick', { noCommit: true }).catch(async () => {
+            await worktree.revertCommit(['semantic-conflict-pick'], { noCommit: true }).catch(async () => {
                 expect((await worktree.getStatus()).conflicts.map((entry) => entry.filePath)).toContain('src/conflict.ts');
                 await worktree.abortRevert();
             });
@@ -59,9 +59,9 @@ describe('semantic git runtime integration', () => {
             await worktree.restoreStaged(['notes/semantic-untracked.md']);
             await worktree.restoreWorkingTree(['README.md']);
 
-            await expect(worktree.cherryPick('semantic-conflict-pick', {})).rejects.toThrow();
+            await expect(worktree.cherryPick(['semantic-conflict-pick'], {})).rejects.toThrow();
             status = await worktree.getStatus();
-            expect(status.conflictState).toBe('none');
+            expect(status.conflictState).toBe('cherryPick');
             expect(status.conflicts.some((entry) => entry.filePath === 'src/conflict.ts')).toBe(true);
             const conflictStages = await worktree.getConflictStages('src/conflict.ts');
             expect(conflictStages.base).toContain('base');
@@ -74,7 +74,7 @@ describe('semantic git runtime integration', () => {
             await worktree.cleanIgnored(['build/cache.log'], { force: true });
             expect(fs.existsSync(path.join(fixture.repo, 'build', 'cache.log'))).toBe(false);
 
-            await repository.createTag('semantic-runtime-tag', 'HEAD', undefined);
+            await repository.createTag('semantic-runtime-tag', 'HEAD', undefined, {});
             await worktree.pushTags('origin', {});
             expect(await new GitCliBackend(fixture.repo).run(['ls-remote', '--tags', 'origin', 'semantic-runtime-tag'])).toContain('refs/tags/semantic-runtime-tag');
         } finally {
@@ -1,4 +1,5 @@
 import { describe, expect, it } from 'vitest';
+import { GitHookError } from '@extension/git/git-error';
 import { createErrorPayload, isAbortError, serializeProtocolError } from '@extension/messaging/error-serialization';
 
 describe('errorSerialization', () => {
@@ -31,6 +32,15 @@ describe('errorSerialization', () => {
         }));
     });
 
+    it('carries the output of a failed hook separately from the process details', () => {
+        const error = new GitHookError('pre-commit', 'running lint\n', 'src/a.ts: unused import\n');
+        expect(serializeProtocolError(error, { code: 'gitOperationFailed' })).toEqual(expect.objectContaining({
+            message: 'The pre-commit hook failed.',
+            hookFailure: { hook: 'pre-commit', stdout: 'running lint\n', stderr: 'src/a.ts: unused import\n' },
+        }));
+        expect(serializeProtocolError(new Error('boom'))).not.toHaveProperty('hookFailure');
+    });
+
     it('identifies abort errors as non-reportable cancellation', () => {
         const error = { name: 'AbortError', message: 'cancelled' };
         expect(isAbortError(error)).toBe(true);
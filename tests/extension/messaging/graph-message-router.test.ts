@@ -10,6 +10,7 @@ import type { SemanticGitOperation } from '@application/ports/git-operation';
 import { GitPushOutcome } from '@application/ports/git-capabilities';
 import { GraphOperationStatus, type GraphExtensionToWebviewMessage } from '@protocol/graph/messages';
 import type { RepositoryLocator } from '@protocol/shared/repo';
+import { OperationNoticeActionKind } from '@protocol/shared/operation';
 import { CliGitRuntime } from '@extension/git/cli-git-runtime';
 import { GitCliBackend } from '@extension/git/git-cli-backend';
 import { GetGraphDataUseCase, type GraphDataResult } from '@application/usecases/graph/get-graph-data';
@@ -19,6 +20,7 @@ import { GraphMessageRouter } from '@extension/messaging/graph-message-router';
 import { RepositoryRegistry } from '@extension/repositories/repository-registry';
 import type { RepositoryContextAccessor } from '@extension/repositories/repository-selection-store';
 import { createTempGitRepo, type TempGitRepo } from '@tests/helpers/git-repo';
+import { commands } from '@tests/mocks/vscode';
 
 describe('GraphMessageRouter', () => {
     const repos: TempGitRepo[] = [];
@@ -33,12 +35,21 @@ describe('GraphMessageRouter', () => {
             supports: () => true,
             async execute<TInput = unknown, TResult = unknown>(operation: SemanticGitOperation, context: GitExecutionContext, input: TInput): Promise<TResult> {
                 calls.push(context);
+                if (operation === 'getCommitDetails') {
+                    return { hash: commitFromInput(input), signature: { status: 'good', signer: 'Alice', key: 'ABCD' } } as TResult; // Router test exercises this operation as a signed commit.
+                }
                 if (operation === 'getCommitFiles') {
                     return [{ status: 'M', filePath: 'modules/auth-kit', isSubmodule: true }] as TResult; // Router test exercises this operation as a file-list result.
                 }
                 if (operation === 'getCommitMessage') {
                     return `${context.repositoryId}:${commitFromInput(input)}` as TResult; // Router test exercises this operation as a message string.
                 }
+                if (operation === 'getCommitNotes') {
+                    return [{ ref: 'refs/notes/qa', message: 'QA passed' }] as TResult; // Router test exercises this operation as a note list.
+                }
+                if (operation === 'listRemotes') {
+                    return [] as TResult; // Router test exercises this operation as a remote-name list.
+                }
                 throw new Error(`Unexpected operation ${operation}`);
             },
         };
@@ -84,8 +95,10 @@ describe('GraphMessageRouter', () => {
             hash: 'abc123',
             fullMessage: 'submodule-id:abc123',
             files: [{ status: 'M', filePath: 'modules/auth-kit', isSubmodule: true }],
+            signature: { status: 'good', signer: 'Alice', key: 'ABCD' },
+            notes: [{ ref: 'refs/notes/qa', message: 'QA passed' }],
         });
-        expect(calls.map((call) => call.repositoryId)).toEqual(['submodule-id', 'submodule-id']);
+        expect(calls.map((call) => call.repositoryId)).toEqual(['submodule-id', 'submodule-id', 'submodule-id', 'submodule-id', 'submodule-id']);
     });
 
     it('returns paginated branch details from a real repository', async () => {
@@ -756,6 +769,23 @@ describe('GraphMessageRouter', () => {
         expect(operationStatuses(messages)).toEqual([GraphOperationStatus.Running, GraphOperationStatus.Delegated]);
         expect(onRepositoryUpdated).not.toHaveBeenCalled();
     });
+
+    it('offers undo after a successful checkout and runs the undo command', async () => {
+        commands.reset();
+        const registry = new RepositoryRegistry();
+        registerRuntimeRepository(registry, checkoutRuntime());
+        const messages: GraphExtensionToWebviewMessage[] = [];
+        const router = graphRouter(registry, messages, async () => {});
+
+        await router.handle({ type: 'graph/branchCommand', command: 'checkout', branch: 'feature', isRemote: false });
+        await router.handle({ type: 'graph/undoLastOperation' });
+
+        expect(messages.filter((message) => message.type === 'graph/operationStatus').at(-1)).toMatchObject({
+            status: GraphOperationStatus.Success,
+            actions: [OperationNoticeActionKind.Undo],
+        });
+        expect(commands.calls).toContainEqual({ command: 'lookGit.undoLastOperation', args: [] });
+    });
 });
 
 function graphRouter(
@@ -791,6 +821,19 @@ function pushRuntime(outcome: GitPushOutcome, includeBranches: boolean): GitRunt
     };
 }
 
+function checkoutRuntime(): GitRuntime {
+    return {
+        supports: () => true,
+        async execute<TInput = unknown, TResult = unknown>(operation: SemanticGitOperation, _context: GitExecutionContext, _input: TInput): Promise<TResult> {
+            if (operation === 'listBranches') {
+                return [branch(), branch({ name: 'feature', isCurrent: false })] as TResult; // The fixture returns the result defined by this semantic operation.
+            }
+            if (operation === 'checkout') { return undefined as TResult; }
+            throw new Error(`Unexpected operation ${operation}`);
+        },
+    };
+}
+
 function operationStatuses(messages: readonly GraphExtensionToWebviewMessage[]): readonly GraphOperationStatus[] {
     return messages
         .filter((message) => message.type === 'graph/operationStatus')
@@ -0,0 +1,104 @@
+import { describe, expect, it, vi } from 'vitest';
+import type { OperationPlanDraft } from '@application/ports/operation-guard';
+import type { OperationPlanPrompt } from '@protocol/shared/operation-plan';
+import { GuardAcknowledgementValidationError } from '@extension/operations/guard-acknowledgement-validator';
+import { GuardedOperationCoordinator, type GuardedOperation } from '@extension/operations/guarded-operation-coordinator';
+
+const NOW = new Date('2026-06-20T10:00:00.000Z');
+
+describe('GuardedOperationCoordinator', () => {
+    it('sends a plan prompt and runs the operation once its acknowledgement is validated', async () => {
+        const coordinator = new GuardedOperationCoordinator();
+        const execute = vi.fn(async () => {});
+        const plan = await coordinator.prepare(guardedOperation({ execute }), NOW);
+
+        expect(plan).toMatchObject({
+            title: 'Discard All Changes',
+            confirmLabel: 'Discard All',
+            guards: [{ kind: 'confirm', level: 'warning' }, { kind: 'destructive', level: 'danger' }],
+            targets: [{ kind: 'path', id: 'src/app.ts', label: 'src/app.ts' }],
+            recovery: 'Nothing to recover.',
+        });
+        expect(plan.previewHash).toMatch(/^[0-9a-f]{64}$/);
+        expect(execute).not.toHaveBeenCalled();
+
+        await coordinator.acknowledge(acknowledgementFor(plan), NOW);
+
+        expect(execute).toHaveBeenCalledTimes(1);
+    });
+
+    it('rejects a plan whose preview changed after it was reviewed', async () => {
+        const coordinator = new GuardedOperationCoordinator();
+        const execute = vi.fn(async () => {});
+        let head = 'a'.repeat(40);
+        const plan = await coordinator.prepare(guardedOperation({ execute, plan: async () => draft(head) }), NOW);
+        head = 'b'.repeat(40);
+
+        await expect(coordinator.acknowledge(acknowledgementFor(plan), NOW)).rejects.toThrow(/repository changed/);
+        expect(execute).not.toHaveBeenCalled();
+    });
+
+    it('rejects acknowledgements that skip a guard, repeat a plan, or arrive after cancellation', async () => {
+        const coordinator = new GuardedOperationCoordinator();
+        const execute = vi.fn(async () => {});
+
+        const partial = await coordinator.prepare(guardedOperation({ execute }), NOW);
+        await expect(coordinator.acknowledge({ ...acknowledgementFor(partial), acknowledgedGuards: ['confirm'] }, NOW))
+            .rejects.toThrow(GuardAcknowledgementValidationError);
+        await expect(coordinator.acknowledge(acknowledgementFor(partial), NOW)).rejects.toThrow(/no longer valid/);
+
+        const cancelled = await coordinator.prepare(guardedOperation({ execute }), NOW);
+        coordinator.cancel(cancelled.planId);
+        await expect(coordinator.acknowledge(acknowledgementFor(cancelled), NOW)).rejects.toThrow(/no longer valid/);
+
+        expect(execute).not.toHaveBeenCalled();
+    });
+
+    it('rejects plans acknowledged after they expired or from another repository', async () => {
+        const coordinator = new GuardedOperationCoordinator();
+        const execute = vi.fn(async () => {});
+
+        const expired = await coordinator.prepare(guardedOperation({ execute }), NOW);
+        await expect(coordinator.acknowledge(acknowledgementFor(expired), new Date('2026-06-20T10:06:00.000Z')))
+            .rejects.toThrow(GuardAcknowledgementValidationError);
+
+        let repositoryId = 'repo';
+        const moved = await coordinator.prepare(guardedOperation({ execute, context: () => ({ repositoryId }) }), NOW);
+        repositoryId = 'other';
+        await expect(coordinator.acknowledge(acknowledgementFor(moved), NOW)).rejects.toThrow(/execution context/);
+
+        expect(execute).not.toHaveBeenCalled();
+    });
+});
+
+function guardedOperation(overrides: Partial<GuardedOperation>): GuardedOperation {
+    return {
+        title: 'Discard All Changes',
+        confirmLabel: 'Discard All',
+        context: () => ({ repositoryId: 'repo', worktreeId: 'worktree' }),
+        plan: async () => draft('a'.repeat(40)),
+        execute: async () => {},
+        ...overrides,
+    };
+}
+
+function draft(head: string): OperationPlanDraft {
+    return {
+        action: 'discard',
+        guards: [
+            { kind: 'confirm', level: 'warning', reason: 'This action cannot be undone from Look Git.' },
+            { kind: 'destructive', level: 'danger', reason: 'Discards changes in 1 file.' },
+        ],
+        targets: [{ kind: 'path', id: 'src/app.ts', label: 'src/app.ts' }],
+        preview: { kind: 'discard', summary: { head, paths: ['src/app.ts'] } },
+        recovery: { kind: 'none', description: 'Nothing to recover.' },
+    };
+}
+
+function acknowledgementFor(plan: OperationPlanPrompt) {
+    return {
+        planId: plan.planId,
+        acknowledgedGuards: plan.guards.map((guard) => guard.kind),
+        ...(plan.previewHash ? { previewHash: plan.previewHash } : {}),
+    };
+}
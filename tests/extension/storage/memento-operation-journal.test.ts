@@ -0,0 +1,86 @@
+import type * as vscode from 'vscode';
+import { describe, expect, it } from 'vitest';
+import type { OperationJournalRecord } from '@application/ports/operation-journal';
+import { MementoOperationJournal } from '@extension/storage/memento-operation-journal';
+
+describe('MementoOperationJournal', () => {
+    it('keeps entries per repository under a Look Git key', async () => {
+        const memento = new TestMemento();
+        const journal = new MementoOperationJournal(memento);
+
+        const checkout = await journal.append('repo-a', record('checkout'));
+        await journal.append('repo-b', record('merge'));
+
+        expect(journal.entries('repo-a')).toEqual([checkout]);
+        expect(journal.entries('repo-b').map((entry) => entry.operation)).toEqual(['merge']);
+        expect(memento.keys()).toEqual(['lookGit.operationJournal.repo-a', 'lookGit.operationJournal.repo-b']);
+    });
+
+    it('keeps only the newest entries', async () => {
+        const journal = new MementoOperationJournal(new TestMemento());
+
+        for (let index = 0; index < 25; index += 1) {
+            await journal.append('repo', record('checkout', `head-${index}`));
+        }
+
+        const entries = journal.entries('repo');
+        expect(entries).toHaveLength(20);
+        expect(entries[0].after.head).toBe('head-5');
+        expect(entries[19].after.head).toBe('head-24');
+    });
+
+    it('truncates an entry together with everything recorded after it', async () => {
+        const memento = new TestMemento();
+        const journal = new MementoOperationJournal(memento);
+        const first = await journal.append('repo', record('checkout'));
+        const second = await journal.append('repo', record('merge'));
+        await journal.append('repo', record('resetKeep'));
+
+        await journal.truncate('repo', second.id);
+        expect(journal.entries('repo')).toEqual([first]);
+
+        await journal.truncate('repo', first.id);
+        expect(journal.entries('repo')).toEqual([]);
+        expect(memento.keys()).toEqual([]);
+    });
+
+    it('ignores stored values that are not journal entries', () => {
+        const memento = new TestMemento(new Map<string, unknown>([
+            ['lookGit.operationJournal.repo', [{ id: 'broken' }, 'stale']],
+        ]));
+
+        expect(new MementoOperationJournal(memento).entries('repo')).toEqual([]);
+    });
+});
+
+function record(operation: OperationJournalRecord['operation'], head = 'after'): OperationJournalRecord {
+    return {
+        operation,
+        recordedAt: '2026-01-01T00:00:00.000Z',
+        before: { head: 'before', branch: 'main', stash: null },
+        after: { head, branch: 'main', stash: null },
+    };
+}
+
+class TestMemento implements vscode.Memento {
+    constructor(private readonly data = new Map<string, unknown>()) {}
+
+    get<T>(key: string): T | undefined;
+    get<T>(key: string, defaultValue: T): T;
+    get<T>(key: string, defaultValue?: T): T | undefined {
+        return this.data.has(key) ? this.data.get(key) as T : defaultValue;
+    }
+
+    update(key: string, value: unknown): Thenable<void> {
+        if (value === undefined) {
+            this.data.delete(key);
+        } else {
+            this.data.set(key, value);
+        }
+        return Promise.resolve();
+    }
+
+    keys(): readonly string[] {
+        return [...this.data.keys()];
+    }
+}
@@ -0,0 +1,110 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { GitCommit } from '@core/git/domain/git-commit';
+import { Page } from '@core/git/domain/page';
+import {
+    COMMIT_RULES_FILE,
+    commitMessageFromTemplate,
+    confirmOutgoingCommitMessages,
+    loadCommitMessageConventions,
+    parseCommitMessageRules,
+    type OutgoingCommitMessagesRepository,
+} from '@extension/utils/commit-message-conventions';
+import { removeDirSyncWithRetry } from '@tests/helpers/git-repo';
+import { getWarningMessages, resetMockVscode, setWarningChoice, window } from '@tests/mocks/vscode';
+
+describe('commit message conventions', () => {
+    let root: string;
+
+    beforeEach(() => {
+        resetMockVscode();
+        root = fs.mkdtempSync(path.join(os.tmpdir(), 'look-git-commit-rules-'));
+    });
+
+    afterEach(() => {
+        removeDirSyncWithRetry(root);
+    });
+
+    it('loads the template without comments, the signing defaults and the worktree rule file', async () => {
+        writeRules({ subjectMaxLength: 50, allowedTypes: ['feat'] });
+        const repo = {
+            getCommitTemplate: async () => 'feat: \n\n# Why is this needed?\n',
+            getSigningConfig: async () => ({ signCommits: true, signTags: false, format: 'ssh' }),
+        };
+
+        await expect(loadCommitMessageConventions(repo, root)).resolves.toEqual({
+            template: 'feat:',
+            rules: { subjectMaxLength: 50, allowedTypes: ['feat'] },
+            signing: { sign: true, format: 'ssh' },
+        });
+        expect(commitMessageFromTemplate('\n# only hints\n')).toBe('');
+    });
+
+    it('reports an invalid rule file without dropping the template', async () => {
+        writeRules({ subjectMaxLength: 'short' });
+        const unreadableSigningConfig = async () => { throw new Error('config unreadable'); };
+
+        await expect(loadCommitMessageConventions({ getCommitTemplate: async () => 'Summary', getSigningConfig: unreadableSigningConfig }, root)).resolves.toEqual({
+            template: 'Summary',
+            rulesError: `${COMMIT_RULES_FILE} is invalid: "subjectMaxLength" must be a positive whole number.`,
+        });
+        await expect(loadCommitMessageConventions({ getCommitTemplate: async () => '', getSigningConfig: unreadableSigningConfig }, path.join(root, 'missing')))
+            .resolves.toEqual({ template: '' });
+    });
+
+    it('rejects unknown rules and invalid patterns', () => {
+        expect(() => parseCommitMessageRules({ subjectLength: 50 })).toThrow('Unknown rule "subjectLength".');
+        expect(() => parseCommitMessageRules({ issueKeyPattern: '[' })).toThrow('"issueKeyPattern" is not a valid regular expression.');
+        expect(() => parseCommitMessageRules([])).toThrow('Expected an object of rules.');
+        expect(parseCommitMessageRules({ requireScope: true, forbiddenWords: ['WIP'] })).toEqual({ requireScope: true, forbiddenWords: ['WIP'] });
+    });
+
+    it('warns about outgoing commits that break the rules before pushing', async () => {
+        writeRules({ requireScope: true });
+        const repo = outgoingRepository({ abc1234: 'fix: no scope', def5678: 'fix(ui): scoped' });
+
+        setWarningChoice(undefined);
+        await expect(confirmOutgoingCommitMessages(repo, root, 'main')).resolves.toBe(false);
+        expect(getWarningMessages()[0]).toEqual({
+            message: '1 outgoing commit on main breaks the commit message rules.\n\nabc1234: Subject needs a scope, as in "type(scope): summary".',
+            items: ['Push Anyway'],
+        });
+
+        setWarningChoice('Push Anyway');
+        await expect(confirmOutgoingCommitMessages(repo, root, 'main')).resolves.toBe(true);
+    });
+
+    it('refuses the push when the rules block commits and skips branches without an upstream', async () => {
+        writeRules({ requireScope: true, blockCommits: true });
+        const repo = outgoingRepository({ abc1234: 'fix: no scope' });
+
+        await expect(confirmOutgoingCommitMessages(repo, root, 'main')).resolves.toBe(false);
+        expect(window.errorMessages[0]).toContain('Reword them before pushing.');
+        expect(getWarningMessages()).toEqual([]);
+        await expect(confirmOutgoingCommitMessages({ ...repo, getUpstreamBranch: async () => undefined }, root, 'main')).resolves.toBe(true);
+    });
+
+    function writeRules(rules: unknown): void {
+        fs.mkdirSync(path.join(root, '.lookgit'), { recursive: true });
+        fs.writeFileSync(path.join(root, COMMIT_RULES_FILE), JSON.stringify(rules));
+    }
+});
+
+function outgoingRepository(messages: Readonly<Record<string, string>>): OutgoingCommitMessagesRepository {
+    const commits = Object.keys(messages).map((hash) => new GitCommit({
+        hash,
+        shortHash: hash,
+        message: messages[hash]?.split('\n')[0] ?? '',
+        authorName: 'Ana',
+        authorEmail: 'ana@example.test',
+        authorDate: '2026-01-01T00:00:00Z',
+        parentHashes: [],
+    }));
+    return {
+        getUpstreamBranch: async () => 'origin/main',
+        getCommitRange: async () => new Page(commits, false),
+        getCommitMessage: async (hash) => messages[hash] ?? '',
+    };
+}
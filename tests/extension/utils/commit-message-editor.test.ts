@@ -1,7 +1,7 @@
 import { beforeEach, describe, expect, it, vi } from 'vitest';
 import type * as vscode from 'vscode';
 import { promptForCommitMessage } from '@extension/utils/commit-message-editor';
-import { commands, resetMockVscode, Uri, window, workspace } from '@tests/mocks/vscode';
+import { commands, InputBoxValidationSeverity, resetMockVscode, Uri, window, workspace } from '@tests/mocks/vscode';
 
 describe('promptForCommitMessage', () => {
     const extensionUri = Uri.file('/extension') as unknown as vscode.Uri; // TestUri provides the Uri surface used by this helper.
@@ -25,6 +25,37 @@ describe('promptForCommitMessage', () => {
         });
     });
 
+    it('passes a custom apply label to the webview', async () => {
+        void promptForCommitMessage('build: 142', 'Note on abc1234', extensionUri, { applyLabel: 'Save Note' });
+
+        const panel = await waitForCommitMessagePanel();
+        panel.webview.messageHandler?.({ type: 'commitMessage/ready' });
+
+        expect(panel.webview.messages.at(-1)).toEqual({
+            type: 'commitMessage/init',
+            title: 'Note on abc1234',
+            message: 'build: 142',
+            canGenerate: false,
+            applyLabel: 'Save Note',
+        });
+    });
+
+    it('turns on the trailers editor with co-author suggestions', async () => {
+        const coAuthorCandidates = [{ name: 'Ana', email: 'ana@example.test' }];
+        void promptForCommitMessage('fix: old', 'Reword abc1234', extensionUri, { coAuthorCandidates });
+
+        const panel = await waitForCommitMessagePanel();
+        panel.webview.messageHandler?.({ type: 'commitMessage/ready' });
+
+        expect(panel.webview.messages.at(-1)).toEqual({
+            type: 'commitMessage/init',
+            title: 'Reword abc1234',
+            message: 'fix: old',
+            canGenerate: false,
+            coAuthorCandidates,
+        });
+    });
+
     it('generates a replacement message when the webview requests one', async () => {
         const generateMessage = vi.fn(async (_signal: AbortSignal) => 'fix(graph): refresh after branch deletion');
         void promptForCommitMessage('old subject', 'Reword abc1234', extensionUri, { generateMessage });
@@ -97,6 +128,22 @@ describe('promptForCommitMessage', () => {
         expect(result).toBeUndefined();
     });
 
+    it('passes the repository rules to the webview', async () => {
+        const rules = { subjectMaxLength: 50, blockCommits: true };
+        void promptForCommitMessage('fix: old', 'Reword abc1234', extensionUri, { rules });
+
+        const panel = await waitForCommitMessagePanel();
+        panel.webview.messageHandler?.({ type: 'commitMessage/ready' });
+
+        expect(panel.webview.messages.at(-1)).toEqual({
+            type: 'commitMessage/init',
+            title: 'Reword abc1234',
+            message: 'fix: old',
+            canGenerate: false,
+            rules,
+        });
+    });
+
     it('returns undefined when cancelled from the webview', async () => {
         let result: string | undefined = 'sentinel';
         let done = false;
@@ -137,6 +184,18 @@ describe('promptForCommitMessage', () => {
         expect(window.inputBoxOptions).toEqual([{ prompt: 'New commit message:', value: 'old subject' }]);
         expect(window.webviewPanels).toHaveLength(0);
     });
+
+    it('validates the single-line input against the repository rules', async () => {
+        workspace.values.set('lookGit.commitMessageEditor', 'input');
+        void promptForCommitMessage('old subject', 'Reword abc1234', undefined, { rules: { allowedTypes: ['fix'], blockCommits: true } });
+
+        const [options] = window.inputBoxOptions as vscode.InputBoxOptions[];
+        expect(await options?.validateInput?.('fix: typo')).toBeUndefined();
+        expect(await options?.validateInput?.('typo')).toEqual({
+            message: 'Subject must start with one of: fix.',
+            severity: InputBoxValidationSeverity.Error,
+        });
+    });
 });
 
 async function waitForCommitMessagePanel(): Promise<typeof window.webviewPanels[number]> {
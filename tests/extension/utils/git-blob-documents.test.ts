@@ -0,0 +1,70 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { lfsBlobContent } from '@extension/utils/git-blob-documents';
+
+const OID = 'sha256:4d7a214614ab2935c943f9e0ff69d22eadbb8f32b1258daaa5e2ca24d17e2393';
+const POINTER = `version https://git-lfs.github.com/spec/v1\noid ${OID}\nsize 3145728\n`;
+
+describe('lfsBlobContent', () => {
+    const gitDirs: string[] = [];
+
+    afterEach(() => {
+        while (gitDirs.length) { fs.rmSync(gitDirs.pop()!, { recursive: true, force: true }); }
+    });
+
+    it('returns regular blobs without reading them again', async () => {
+        const readSmudged = vi.fn(async () => 'unused');
+
+        await expect(lfsBlobContent('plain text\n', readSmudged)).resolves.toBe('plain text\n');
+        expect(readSmudged).not.toHaveBeenCalled();
+    });
+
+    it('replaces a pointer with the smudged content', async () => {
+        await expect(lfsBlobContent(POINTER, async () => 'level: 3\n')).resolves.toBe('level: 3\n');
+    });
+
+    it('describes pointers that cannot be smudged or hold binary content', async () => {
+        const missingObject = await lfsBlobContent(POINTER, async () => { throw new Error('smudge filter lfs failed'); });
+        const withoutGitLfs = await lfsBlobContent(POINTER, async () => POINTER);
+        const binary = await lfsBlobContent(POINTER, async () => 'PNG\0\0binary');
+
+        expect(missingObject).toContain(`Stored in Git LFS: ${OID} (3.0 MB)`);
+        expect(missingObject).toContain('Fetch LFS Objects');
+        expect(withoutGitLfs).toContain('Install Git LFS');
+        expect(binary).toContain('Binary content is not shown.');
+    });
+
+    it('describes objects too large to diff without smudging them', async () => {
+        const readSmudged = vi.fn(async () => 'unused');
+        const pointer = `version https://git-lfs.github.com/spec/v1\noid ${OID}\nsize 62914560\n`;
+
+        const content = await lfsBlobContent(pointer, readSmudged);
+
+        expect(content).toContain('(60.0 MB)');
+        expect(content).toContain('Content larger than 5.0 MB is not shown.');
+        expect(readSmudged).not.toHaveBeenCalled();
+    });
+
+    it('describes binary objects fetched under the git directory without smudging them', async () => {
+        const gitDir = fs.mkdtempSync(path.join(os.tmpdir(), 'look-git-lfs-'));
+        gitDirs.push(gitDir);
+        const hash = OID.replace('sha256:', '');
+        const objectDir = path.join(gitDir, 'lfs', 'objects', hash.slice(0, 2), hash.slice(2, 4));
+        fs.mkdirSync(objectDir, { recursive: true });
+        fs.writeFileSync(path.join(objectDir, hash), Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x00, 0x00]));
+        const readSmudged = vi.fn(async () => 'unused');
+
+        await expect(lfsBlobContent(POINTER, readSmudged, gitDir)).resolves.toContain('Binary content is not shown.');
+        expect(readSmudged).not.toHaveBeenCalled();
+        await expect(lfsBlobContent(POINTER, async () => { throw new Error('smudge filter lfs failed'); }, path.join(gitDir, 'missing')))
+            .resolves.toContain('Fetch LFS Objects');
+    });
+
+    it('propagates cancellation while smudging', async () => {
+        const abort = Object.assign(new Error('aborted'), { name: 'AbortError' });
+
+        await expect(lfsBlobContent(POINTER, async () => { throw abort; })).rejects.toBe(abort);
+    });
+});
@@ -15,9 +15,8 @@ import { RepositoryRegistry } from '@extension/repositories/repository-registry'
 import { ChangesViewProvider } from '@extension/views/changes-view-provider';
 import { makeWebviewView, resetVscodeMock } from '@tests/helpers/provider-runtime';
 import { createTempGitRepo, type TempGitRepo } from '@tests/helpers/git-repo';
-import { setInputBoxValue } from '@tests/mocks/vscode';
 import { CommitMode, RepositoryState } from '@protocol/changes/types';
-import type { ChangesOperationStatusPush } from '@protocol/changes/messages';
+import type { ChangesOperationPlanPush, ChangesOperationStatusPush } from '@protocol/changes/messages';
 import { OperationStatus } from '@protocol/shared/operation';
 
 describe('ChangesViewProvider', () => {
@@ -217,11 +216,23 @@ describe('ChangesViewProvider', () => {
             runtimeRegistry(context, discardRecordingRuntime(status, discardedPaths)),
         );
         const view = makeWebviewView();
-        setInputBoxValue('DISCARD ALL');
 
         provider.resolveWebviewView(view);
         view.messageHandler?.({ type: 'changes/discardAll' });
 
+        const plan = await vi.waitFor(() => {
+            const message = view.messages.find((posted): posted is ChangesOperationPlanPush => (posted as { type?: string }).type === 'changes/operationPlan');
+            expect(message).toBeDefined();
+            return message!.plan;
+        });
+        expect(plan.targets.map((target) => target.id)).toEqual(['src/app.ts']);
+        expect(plan.guards).toContainEqual({ kind: 'confirm', level: 'warning', reason: 'This action cannot be undone from Look Git.' });
+        expect(discardedPaths).toEqual([]);
+        view.messageHandler?.({
+            type: 'changes/acknowledgeOperationPlan',
+            acknowledgement: { planId: plan.planId, acknowledgedGuards: plan.guards.map((guard) => guard.kind), previewHash: plan.previewHash },
+        });
+
         await vi.waitFor(() => expect(discardedPaths).toEqual([['src/app.ts']]));
         vi.clearAllTimers();
     });
@@ -417,6 +428,73 @@ describe('ChangesViewProvider', () => {
         vi.clearAllTimers();
     });
 
+    it('passes the composer sign choice to the commit', async () => {
+        const context = {
+            id: 'repo-id',
+            cwd: '/repo',
+            kind: RepoKind.Main,
+            label: 'repo',
+        } satisfies RepoContext;
+        const commitInputs: unknown[] = [];
+        const provider = new ChangesViewProvider(
+            vscode.Uri.file('/extension'),
+            repositorySelection(context),
+            async () => {},
+            undefined,
+            undefined,
+            undefined,
+            undefined,
+            runtimeRegistry(context, commitChangesRuntime(commitInputs)),
+        );
+        const view = makeWebviewView();
+
+        provider.resolveWebviewView(view);
+        view.messageHandler?.({ type: 'changes/commit', message: 'feat: unsigned', mode: CommitMode.Commit, sign: false });
+
+        await vi.waitFor(() => {
+            expect(commitInputs).toEqual([{ message: 'feat: unsigned', options: { sign: false } }]);
+        });
+        vi.clearAllTimers();
+    });
+
+    it('refuses a composer commit the commit message rules block', async () => {
+        const repo = createTempGitRepo();
+        repos.push(repo);
+        repo.mkdir('.lookgit');
+        repo.write('.lookgit/commit-rules.json', JSON.stringify({ allowedTypes: ['feat', 'fix'], blockCommits: true }));
+        const context = {
+            id: 'repo-id',
+            cwd: repo.cwd,
+            kind: RepoKind.Main,
+            label: 'repo',
+        } satisfies RepoContext;
+        const commitInputs: unknown[] = [];
+        const provider = new ChangesViewProvider(
+            vscode.Uri.file('/extension'),
+            repositorySelection(context),
+            async () => {},
+            undefined,
+            undefined,
+            undefined,
+            undefined,
+            runtimeRegistry(context, commitChangesRuntime(commitInputs)),
+        );
+        const view = makeWebviewView();
+
+        provider.resolveWebviewView(view);
+        view.messageHandler?.({ type: 'changes/commit', message: 'chore: tidy up', mode: CommitMode.Commit });
+
+        await vi.waitFor(() => {
+            expect(view.messages).toContainEqual(expect.objectContaining({
+                type: 'changes/commitResult',
+                success: false,
+                error: expect.objectContaining({ code: 'validationFailed' }),
+            }));
+        });
+        expect(commitInputs).toEqual([]);
+        vi.clearAllTimers();
+    });
+
     it('posts empty available status data for an initialized worktree context without commits', async () => {
         const repo = createTempGitRepo();
         repos.push(repo);
@@ -748,11 +826,14 @@ function sequentialChangesRuntime(statuses: readonly GitStatus[], squashMergeMes
     };
 }
 
-function commitChangesRuntime(): GitRuntime {
+function commitChangesRuntime(commitInputs: unknown[] = []): GitRuntime {
     return {
         supports: () => true,
-        async execute<TInput = unknown, TResult = unknown>(operation: SemanticGitOperation, _context: GitExecutionContext, _input: TInput): Promise<TResult> {
-            if (operation === 'commit') { return undefined as TResult; }
+        async execute<TInput = unknown, TResult = unknown>(operation: SemanticGitOperation, _context: GitExecutionContext, input: TInput): Promise<TResult> {
+            if (operation === 'commit') {
+                commitInputs.push(input);
+                return undefined as TResult;
+            }
             if (operation === 'getStatus') { return statusWithStagedFile('src/app.ts') as TResult; }
             if (operation === 'listStashes') { return new Page([], false) as TResult; }
             if (operation === 'listSubmodules') { return [] as TResult; }
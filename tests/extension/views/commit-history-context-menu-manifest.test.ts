@@ -88,6 +88,12 @@ const lookGitFileContextMenuFixture = {
             group: '1_local_history@2',
             when: 'resourceScheme == file && editorHasSelection',
         },
+        {
+            command: 'lookGit.blame.showAtRevision',
+            title: 'Show Blame at Revision...',
+            group: '1_local_history@5',
+            when: 'resourceScheme == file',
+        },
     ] satisfies readonly LookGitContextMenuActionFixture[],
 } as const;
 
@@ -101,6 +107,7 @@ describe('Commit History native context menu manifest', () => {
 
         for (const command of expectedCommitCommands) { expect(commands).toContain(command); }
         expect(commands).toContain('lookGit.history.openFileDiff');
+        expect(commands).toContain('lookGit.history.blameFileAtRevision');
         expectLookGitFileContextMenu(pkg);
         expect(historySquashCommand).toMatchObject({
             title: 'Squash Commits...',
@@ -181,6 +188,10 @@ describe('Commit History native context menu manifest', () => {
                 command: 'lookGit.history.openFileDiff',
                 when: expect.stringContaining("webviewSection == 'historyFile'"),
             }),
+            expect.objectContaining({
+                command: 'lookGit.history.blameFileAtRevision',
+                when: expect.stringContaining("webviewSection == 'historyFile' && historyFileBlameable"),
+            }),
         ]));
     });
 });
@@ -79,12 +79,13 @@ describe('CommitHistoryViewProvider', () => {
             },
         });
 
+        setQuickPickValue('Cherry-Pick');
         await vscode.commands.executeCommand('lookGit.history.cherryPick');
 
         expect(calls
             .filter((call) => call.operation === 'cherryPick')
-            .map((call) => isRecord(call.input) ? call.input.commit : undefined))
-            .toEqual(['newest', 'clicked', 'oldest']);
+            .map((call) => isRecord(call.input) ? call.input.commits : undefined))
+            .toEqual([['newest', 'clicked', 'oldest']]);
     });
 
     it('pulls the selected non-current history branch by updating that branch ref', async () => {
@@ -542,6 +543,8 @@ function historyRuntime(calls: RuntimeCall[], pushOutcome = GitPushOutcome.Compl
                     return runtimeResult(new Set<string>());
                 case 'orderCommits':
                     return runtimeResult(isRecord(input) && Array.isArray(input.hashes) ? input.hashes : []);
+                case 'getCommitDetails':
+                    return runtimeResult({ hash: isRecord(input) ? input.hash : undefined, parentHashes: ['parent'] });
                 case 'getStatus':
                     return runtimeResult(emptyStatus());
                 case 'getUpstreamBranch':
@@ -33,6 +33,20 @@ describe('Graph native context menu manifest', () => {
             'lookGit.graph.worktree.open',
             'lookGit.graph.worktree.showDetails',
             'lookGit.graph.worktree.removeForce',
+            'lookGit.graph.rebaseBackup.restore',
+            'lookGit.graph.rebaseBackup.compare',
+            'lookGit.graph.rebaseBackup.rangeDiff',
+            'lookGit.graph.rebaseBackup.delete',
+            'lookGit.graph.tag.reveal',
+            'lookGit.graph.tag.createReleaseNotes',
+            'lookGit.graph.tag.deleteRemote',
+            'lookGit.graph.stash.apply',
+            'lookGit.graph.stash.pop',
+            'lookGit.graph.stash.drop',
+            'lookGit.graph.stash.branch',
+            'lookGit.graph.stash.diff',
+            'lookGit.graph.branch.rangeDiffWithLocal',
+            'lookGit.graph.commit.rangeDiffSelectedRanges',
         ]) {
             expect(commands.has(command)).toBe(true);
         }
@@ -67,7 +81,13 @@ describe('Graph native context menu manifest', () => {
         expect(webviewContextMenu
             .filter((entry) => entry.when === "webviewId == 'lookGit.graphView' && webviewSection == 'graphCommit'")
             .map((entry) => entry.command))
-            .toEqual(expectedCommitCommands);
+            .toEqual([...expectedCommitCommands, 'lookGit.graph.commit.bisectGood', 'lookGit.graph.commit.bisectBad']);
+        expect(webviewContextMenu).toEqual(expect.arrayContaining([
+            expect.objectContaining({
+                command: 'lookGit.graph.commit.bisectSkip',
+                when: "webviewId == 'lookGit.graphView' && webviewSection == 'graphCommit' && graphBisectInProgress",
+            }),
+        ]));
         expect(webviewContextMenu).toEqual(expect.arrayContaining([
             expect.objectContaining({
                 command: 'lookGit.graph.commit.copyRevisionNumber',
@@ -97,6 +117,50 @@ describe('Graph native context menu manifest', () => {
                 command: 'lookGit.graph.commit.goToParentCommit',
                 when: "webviewId == 'lookGit.graphView' && webviewSection == 'graphCommit'",
             }),
+            expect.objectContaining({
+                command: 'lookGit.graph.commit.openOnRemote',
+                when: "webviewId == 'lookGit.graphView' && webviewSection == 'graphCommit' && graphHasRepositoryWebUrl",
+            }),
+            expect.objectContaining({
+                command: 'lookGit.graph.branch.openOnRemote',
+                when: "webviewId == 'lookGit.graphView' && webviewSection == 'graphBranch' && graphHasRepositoryWebUrl && (graphBranchIsRemote || graphBranchHasUpstream)",
+            }),
+            expect.objectContaining({
+                command: 'lookGit.graph.branch.compareOnRemote',
+                when: "webviewId == 'lookGit.graphView' && webviewSection == 'graphBranch' && graphHasRepositoryWebUrl && !graphBranchIsCurrent && (graphBranchIsRemote || graphBranchHasUpstream)",
+            }),
+            expect.objectContaining({
+                command: 'lookGit.graph.branch.rangeDiffWithLocal',
+                when: "webviewId == 'lookGit.graphView' && webviewSection == 'graphBranch' && graphBranchIsRemote",
+            }),
+            expect.objectContaining({
+                command: 'lookGit.graph.commit.rangeDiffSelectedRanges',
+                when: "webviewId == 'lookGit.graphView' && webviewSection == 'graphCommit' && graphCommitHasMultipleSelectedCommits",
+            }),
+            expect.objectContaining({
+                command: 'lookGit.graph.rebaseBackup.restore',
+                when: "webviewId == 'lookGit.graphView' && webviewSection == 'graphRebaseBackup' && graphRebaseBackupHasBranch",
+            }),
+            expect.objectContaining({
+                command: 'lookGit.graph.rebaseBackup.delete',
+                when: "webviewId == 'lookGit.graphView' && webviewSection == 'graphRebaseBackup'",
+            }),
+            expect.objectContaining({
+                command: 'lookGit.graph.tag.checkout',
+                when: "webviewId == 'lookGit.graphView' && webviewSection == 'graphTag'",
+            }),
+            expect.objectContaining({
+                command: 'lookGit.graph.tag.createReleaseNotes',
+                when: "webviewId == 'lookGit.graphView' && webviewSection == 'graphTag'",
+            }),
+            expect.objectContaining({
+                command: 'lookGit.graph.stash.pop',
+                when: "webviewId == 'lookGit.graphView' && webviewSection == 'graphStash'",
+            }),
+            expect.objectContaining({
+                command: 'lookGit.graph.stash.drop',
+                when: "webviewId == 'lookGit.graphView' && webviewSection == 'graphStash'",
+            }),
             expect.objectContaining({
                 command: 'lookGit.graph.branch.openBranchWorktree',
                 when: "webviewId == 'lookGit.graphView' && webviewSection == 'graphBranch' && graphBranchHasWorktree",
@@ -212,6 +212,12 @@ describe('native view title toolbar manifest', () => {
         expect(commands.has('lookGit.changes.selection.explainDiff')).toBe(true);
         expect(commands.has('lookGit.changes.selection.createPatch')).toBe(true);
         expect(commands.has('lookGit.changes.selection.discard')).toBe(true);
+        expect(commands.has('lookGit.changes.selection.addToGitignore')).toBe(true);
+        expect(commands.has('lookGit.changes.selection.addToInfoExclude')).toBe(true);
+        expect(commands.has('lookGit.changes.selection.explainIgnore')).toBe(true);
+        expect(commands.has('lookGit.changes.branchFromStash')).toBe(true);
+        expect(commands.has('lookGit.changes.submodule.branchFromStash')).toBe(true);
+        expect(commands.has('lookGit.changes.stashItem.createBranch')).toBe(true);
 
         for (const submenu of [
             'lookGit.changes.submodule.commitMenu',
@@ -255,6 +261,18 @@ describe('native view title toolbar manifest', () => {
                 command: 'lookGit.changes.selection.discard',
                 when: "webviewId == 'lookGit.changesView' && webviewSection == 'changesSelection' && changesSelectionCanDiscard",
             }),
+            expect.objectContaining({
+                command: 'lookGit.changes.selection.addToGitignore',
+                when: "webviewId == 'lookGit.changesView' && webviewSection == 'changesSelection' && changesSelectionCanIgnore",
+            }),
+            expect.objectContaining({
+                command: 'lookGit.changes.selection.explainIgnore',
+                when: "webviewId == 'lookGit.changesView' && webviewSection == 'changesSelection' && changesSelectionCanExplainIgnore",
+            }),
+            expect.objectContaining({
+                command: 'lookGit.changes.stashItem.createBranch',
+                when: "webviewId == 'lookGit.changesView' && webviewSection == 'changesStash'",
+            }),
             expect.objectContaining({
                 command: 'lookGit.changes.submodule.pull',
                 when: "webviewId == 'lookGit.changesView' && webviewSection == 'changesSubmoduleToolbar'",
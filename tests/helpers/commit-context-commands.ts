@@ -21,6 +21,8 @@ export const COMMIT_CONTEXT_COMMANDS = [
     'pushAllUpToHere',
     'newBranch',
     'newTag',
+    'editNote',
+    'removeNote',
 ] as const satisfies readonly CommitCommand[];
 
 export const COMMIT_CONTEXT_ACTIONS = [
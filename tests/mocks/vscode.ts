@@ -61,6 +61,9 @@ export class Range {
         public endLine: number,
         public endCharacter: number,
     ) {}
+
+    get start(): Position { return new Position(this.startLine, this.startCharacter); }
+    get end(): Position { return new Position(this.endLine, this.endCharacter); }
 }
 
 export class TabInputText {
@@ -207,6 +210,11 @@ type MockTextDocument = {
     save(): Promise<boolean>;
 };
 
+type MockTextDocumentChangeEvent = {
+    readonly document: MockTextDocument;
+    readonly contentChanges: readonly { readonly range: Range; readonly text: string }[];
+};
+
 type MockDecorationType = {
     readonly options: unknown;
     disposed: boolean;
@@ -257,6 +265,12 @@ export const env = {
         readText() { return Promise.resolve(this.value); },
         reset() { this.value = ''; },
     },
+    openedExternalUris: [] as string[],
+    openExternal(uri: TestUri) { this.openedExternalUris.push(uri.toString()); return Promise.resolve(true); },
+    reset(): void {
+        this.clipboard.reset();
+        this.openedExternalUris = [];
+    },
 };
 
 type MockLanguageModelRequest = {
@@ -395,11 +409,14 @@ export const window = {
     showQuickPick() { return Promise.resolve(this.quickPickValues.shift() ?? this.quickPickValue); },
     showOpenDialog(options: unknown) { this.openDialogOptions.push(options); return Promise.resolve(this.openDialogValue); },
     showSaveDialog(options: unknown) { this.saveDialogOptions.push(options); return Promise.resolve(this.saveDialogValue); },
-    showTextDocument(document: MockTextDocument) {
+    showTextDocument(document: MockTextDocument, options?: { readonly selection?: Range }) {
         this.shownDocuments.push(document);
+        const start = options?.selection
+            ? new Position(options.selection.startLine, options.selection.startCharacter)
+            : new Position(0, 0);
         const editor: MockTextEditor = {
             document,
-            selection: new Selection(new Position(0, 0), new Position(0, 0)),
+            selection: new Selection(start, start),
             decorations: [],
             setDecorations(type: MockDecorationType, ranges: readonly unknown[]) {
                 this.decorations.push({ type, ranges });
@@ -548,7 +565,7 @@ export type WarningMessage = typeof window.warningMessages[number];
 export function resetMockVscode(): void {
     commands.reset();
     extensions.reset();
-    env.clipboard.reset();
+    env.reset();
     lm.reset();
     window.reset();
     workspace.reset();
@@ -626,6 +643,8 @@ export const workspace = {
     workspaceFoldersEmitter: new EventEmitter<void>(),
     configurationEmitter: new EventEmitter<MockConfigurationChangeEvent>(),
     closeEmitter: new EventEmitter<MockTextDocument>(),
+    changeEmitter: new EventEmitter<MockTextDocumentChangeEvent>(),
+    saveEmitter: new EventEmitter<MockTextDocument>(),
     get textDocuments(): readonly MockTextDocument[] {
         return this.documents;
     },
@@ -705,6 +724,24 @@ export const workspace = {
     fireDidCloseTextDocument(document: MockTextDocument): void {
         this.closeEmitter.fire(document);
     },
+    onDidChangeTextDocument(listener: (event: MockTextDocumentChangeEvent) => unknown) {
+        return this.changeEmitter.event(listener);
+    },
+    /** Replaces `range` of `document` with `text`, marks it dirty, and reports the change. */
+    editTextDocument(document: MockTextDocument, range: Range, text: string): void {
+        const lines = document.content.split('\n');
+        const before = [...lines.slice(0, range.startLine), (lines[range.startLine] ?? '').slice(0, range.startCharacter)].join('\n');
+        const after = [(lines[range.endLine] ?? '').slice(range.endCharacter), ...lines.slice(range.endLine + 1)].join('\n');
+        document.content = `${before}${text}${after}`;
+        document.isDirty = true;
+        this.changeEmitter.fire({ document, contentChanges: [{ range, text }] });
+    },
+    onDidSaveTextDocument(listener: (document: MockTextDocument) => unknown) {
+        return this.saveEmitter.event(listener);
+    },
+    fireDidSaveTextDocument(document: MockTextDocument): void {
+        this.saveEmitter.fire(document);
+    },
     fireConfigurationChanged(...sections: readonly string[]): void {
         const changedSections = new Set(sections);
         this.configurationEmitter.fire({
@@ -745,6 +782,10 @@ export const workspace = {
         this.configurationEmitter = new EventEmitter<MockConfigurationChangeEvent>();
         this.closeEmitter.dispose();
         this.closeEmitter = new EventEmitter<MockTextDocument>();
+        this.changeEmitter.dispose();
+        this.changeEmitter = new EventEmitter<MockTextDocumentChangeEvent>();
+        this.saveEmitter.dispose();
+        this.saveEmitter = new EventEmitter<MockTextDocument>();
         this.fs.reset();
     },
 };
@@ -777,6 +818,7 @@ function createMockTextDocument(input: {
         save() {
             this.saveCount += 1;
             this.isDirty = false;
+            workspace.fireDidSaveTextDocument(this);
             return Promise.resolve(true);
         },
     };
@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { commitMessageRulesBlock, evaluateCommitMessageRules } from '@protocol/shared/commit-message-rules';
+
+describe('commit message rules', () => {
+    it('checks the subject type, scope, and length', () => {
+        const rules = { allowedTypes: ['feat', 'fix'], requireScope: true, subjectMaxLength: 20 };
+
+        expect(evaluateCommitMessageRules('feat(ui): add', rules)).toEqual([]);
+        expect(evaluateCommitMessageRules('chore: tidy up the whole build', rules).map((diagnostic) => diagnostic.rule))
+            .toEqual(['allowedTypes', 'requireScope', 'subjectMaxLength']);
+        expect(evaluateCommitMessageRules('add things', rules)[0]).toEqual({
+            rule: 'allowedTypes',
+            line: 1,
+            message: 'Subject must start with one of: feat, fix.',
+        });
+    });
+
+    it('requires an issue key anywhere in the message', () => {
+        const rules = { issueKeyPattern: '[A-Z]+-\\d+' };
+
+        expect(evaluateCommitMessageRules('fix: crash\n\nRefs: APP-12', rules)).toEqual([]);
+        expect(evaluateCommitMessageRules('fix: crash', rules)).toEqual([
+            { rule: 'issueKeyPattern', line: 1, message: 'Reference an issue matching /[A-Z]+-\\d+/.' },
+        ]);
+    });
+
+    it('finds forbidden whole words on the line they appear', () => {
+        const rules = { forbiddenWords: ['WIP', 'tmp'] };
+
+        expect(evaluateCommitMessageRules('fix: keep tmpfile handling\n\nstill wip here', rules)).toEqual([
+            { rule: 'forbiddenWords', line: 3, message: '"WIP" is not allowed in commit messages.' },
+        ]);
+    });
+
+    it('wraps body lines but skips trailers and unbreakable lines', () => {
+        const rules = { bodyWrapColumn: 20 };
+        const message = [
+            'feat: a subject longer than twenty characters',
+            '',
+            'this body line is far too long',
+            'https://example.test/a/very/long/link',
+            'Co-authored-by: Ana Example <ana@example.test>',
+        ].join('\n');
+
+        expect(evaluateCommitMessageRules(message, rules)).toEqual([
+            { rule: 'bodyWrapColumn', line: 3, message: 'Line 3 is 30 characters; wrap the body at 20.' },
+        ]);
+    });
+
+    it('blocks only when the rules say so and something is reported', () => {
+        const diagnostics = evaluateCommitMessageRules('fix: x', { requireScope: true });
+
+        expect(commitMessageRulesBlock({ requireScope: true }, diagnostics)).toBe(false);
+        expect(commitMessageRulesBlock({ requireScope: true, blockCommits: true }, diagnostics)).toBe(true);
+        expect(commitMessageRulesBlock({ blockCommits: true }, [])).toBe(false);
+        expect(evaluateCommitMessageRules('   ', { requireScope: true })).toEqual([]);
+        expect(evaluateCommitMessageRules('fix: x', undefined)).toEqual([]);
+    });
+});
@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import { compareTagVersions, previousTagVersion, sortTags } from '@protocol/shared/tag-versions';
+
+describe('tag versions', () => {
+    it('orders version numbers numerically and prereleases before their release', () => {
+        expect(['v1.10.0', 'v1.2.0', 'nightly', 'v1.10.0-rc.2', 'v1.10.0-rc.10', 'v1.9'].sort(compareTagVersions))
+            .toEqual(['v1.2.0', 'v1.9', 'v1.10.0-rc.2', 'v1.10.0-rc.10', 'v1.10.0', 'nightly']);
+        expect(compareTagVersions('v2.0.0+build.7', 'v2.0.0+build.1')).not.toBe(0);
+        expect(compareTagVersions('1.0', '1.0.0')).toBeLessThan(0);
+    });
+
+    it('sorts tags newest first by version or by date', () => {
+        const tags = [
+            { name: 'v1.9.0', hash: 'a', date: '2024-03-01T00:00:00+00:00' },
+            { name: 'v1.10.0', hash: 'b', date: '2024-02-01T00:00:00+00:00' },
+            { name: 'nightly', hash: 'c' },
+        ];
+
+        expect(sortTags(tags, 'version').map((tag) => tag.name)).toEqual(['v1.10.0', 'v1.9.0', 'nightly']);
+        expect(sortTags(tags, 'date').map((tag) => tag.name)).toEqual(['v1.9.0', 'v1.10.0', 'nightly']);
+    });
+
+    it('finds the previous release in the same series', () => {
+        const names = ['v1.0.0', 'v1.1.0', 'v1.2.0-rc.1', 'v1.2.0', 'api/v3.0.0', 'latest'];
+
+        expect(previousTagVersion('v1.2.0', names)).toBe('v1.1.0');
+        expect(previousTagVersion('v1.2.0-rc.1', names)).toBe('v1.1.0');
+        expect(previousTagVersion('api/v3.0.0', names)).toBeUndefined();
+        expect(previousTagVersion('latest', names)).toBeUndefined();
+    });
+});
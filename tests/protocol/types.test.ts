@@ -38,9 +38,11 @@ describe('protocol discriminated unions', () => {
                 case 'graph/dataResponse': return msg.requestId satisfies string;
                 case 'graph/commitDetailsResponse': return msg.files satisfies readonly unknown[];
                 case 'graph/worktreeDetailsResponse': return msg.path satisfies string;
+                case 'graph/stashDetailsResponse': return msg.hash satisfies string;
                 case 'graph/selectCommit': return msg.hash satisfies string;
                 case 'graph/selectWorktree': return msg.path satisfies string;
                 case 'graph/operationStatus': return msg.operationId satisfies string;
+                case 'graph/operationPlan': return msg.plan.planId satisfies string;
                 case 'graph/error': return msg.error.recoverable satisfies boolean;
                 case 'error': return msg.error.message satisfies string;
             }
@@ -54,15 +56,24 @@ describe('protocol discriminated unions', () => {
                 case 'graph/ready': return;
                 case 'graph/refresh': return;
                 case 'graph/showOutput': return;
+                case 'graph/undoLastOperation': return;
+                case 'graph/openRemoteLink': return msg.url satisfies string;
                 case 'graph/dataRequest': return msg.requestId satisfies string;
                 case 'graph/loadMore': return msg.page satisfies { offset: number; limit: number };
                 case 'graph/commitDetailsRequest': return msg.hash satisfies string;
                 case 'graph/worktreeDetailsRequest': return msg.path satisfies string;
+                case 'graph/stashDetailsRequest': return msg.index satisfies number;
                 case 'graph/contextTarget': return msg.target.kind satisfies string;
                 case 'graph/branchCommand': return msg.command satisfies string;
                 case 'graph/worktreeCommand': return msg.command satisfies string;
                 case 'graph/commitCommand': return msg.hashes satisfies readonly string[];
+                case 'graph/rebaseBackupCommand': return msg.ref satisfies string;
+                case 'graph/tagCommand': return msg.tag satisfies string;
+                case 'graph/stashCommand': return msg.hash satisfies string;
+                case 'graph/acknowledgeOperationPlan': return msg.acknowledgement.planId satisfies string;
+                case 'graph/cancelOperationPlan': return msg.planId satisfies string;
                 case 'graph/openDiff': return msg.filePath satisfies string;
+                case 'graph/openBlame': return msg.commitHash satisfies string;
                 case 'graph/openWorktreeDiff': return msg.worktreePath satisfies string;
             }
         };
@@ -82,6 +93,8 @@ describe('protocol discriminated unions', () => {
                 case 'changes/submoduleGeneratedCommitMessage': return msg.path satisfies string;
                 case 'changes/submoduleCommitMessagePreset': return msg.path satisfies string;
                 case 'changes/stashFiles': return msg.files satisfies readonly unknown[];
+                case 'changes/fileHunks': return msg.hunks satisfies readonly unknown[];
+                case 'changes/fileHunksInvalidated': return;
                 case 'changes/submoduleStatusData': return msg.data.unstaged satisfies readonly unknown[];
                 case 'changes/submoduleStashFiles': return msg.path satisfies string;
                 case 'changes/applyViewMode': return msg.viewMode satisfies string;
@@ -107,6 +120,7 @@ describe('protocol discriminated unions', () => {
                 case 'history/selectCommit': return msg.hash satisfies string;
                 case 'history/applyFileViewMode': return msg.mode satisfies string;
                 case 'history/operationStatus': return msg.operationId satisfies string;
+                case 'history/operationPlan': return msg.plan.planId satisfies string;
                 case 'history/error': return msg.error.recoverable satisfies boolean;
                 case 'error': return msg.error.message satisfies string;
             }
@@ -125,6 +139,8 @@ describe('protocol discriminated unions', () => {
                 case 'history/contextTarget': return msg.target.kind satisfies string;
                 case 'history/toolbarCommand': return msg.command satisfies string;
                 case 'history/showOutput': return;
+                case 'history/acknowledgeOperationPlan': return msg.acknowledgement.planId satisfies string;
+                case 'history/cancelOperationPlan': return msg.planId satisfies string;
             }
         };
         void handle;
@@ -228,6 +244,8 @@ describe('protocol discriminated unions', () => {
                 case 'changes/stashApply': return msg.index satisfies number;
                 case 'changes/stashDrop': return msg.index satisfies number;
                 case 'changes/getStashFiles': return msg.requestId satisfies string;
+                case 'changes/getFileHunks': return msg.requestId satisfies string;
+                case 'changes/hunkCommand': return msg.hunkHeader satisfies string;
                 case 'changes/openStashDiff': return msg.filePath satisfies string;
                 case 'changes/submoduleStash': return msg.submodulePath satisfies string;
                 case 'changes/submoduleStashSelectedFiles': return msg.filePaths satisfies readonly string[];
@@ -238,8 +256,10 @@ describe('protocol discriminated unions', () => {
                 case 'changes/openSubmoduleStashDiff': return msg.submodulePath satisfies string;
                 case 'changes/continueOp': return msg.conflictState satisfies string;
                 case 'changes/abortOp': return msg.conflictState satisfies string;
+                case 'changes/skipOp': return msg.conflictState satisfies string;
                 case 'changes/submoduleContinueOp': return msg.conflictState satisfies string;
                 case 'changes/submoduleAbortOp': return msg.submodulePath satisfies string;
+                case 'changes/submoduleSkipOp': return msg.submodulePath satisfies string;
                 case 'changes/submoduleUpdate': return msg.path satisfies string;
                 case 'changes/submoduleUpdateAll': return;
                 case 'changes/getSubmoduleStatus': return msg.requestId satisfies string;
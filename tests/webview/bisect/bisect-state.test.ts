@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { OperationStatus } from '@protocol/shared/operation';
+import { initialBisectState, MAX_RUN_OUTPUT_LENGTH, reduceBisectState, type BisectState } from '@webview/features/bisect/bisect-state';
+
+describe('reduceBisectState', () => {
+    it('replaces the session and log on each state push', () => {
+        const state = reduceBisectState(initialBisectState, {
+            type: 'message',
+            message: {
+                type: 'bisect/state',
+                title: 'Bisect: repo',
+                status: { badHash: 'b1', goodHashes: ['a0'], skippedHashes: [], remainingRevisions: 3, remainingSteps: 2 },
+                log: [{ mark: 'bad', hash: 'b1', shortHash: 'b1', subject: 'broken' }],
+            },
+        });
+        const reset = reduceBisectState(state, { type: 'message', message: { type: 'bisect/state', title: 'Bisect: repo', log: [] } });
+
+        expect(state.loading).toBe(false);
+        expect(state.status?.remainingRevisions).toBe(3);
+        expect(state.log).toHaveLength(1);
+        expect(reset.status).toBeUndefined();
+        expect(reset.log).toEqual([]);
+    });
+
+    it('clears previous run output when a new run starts and keeps only the newest output', () => {
+        const previous: BisectState = { ...initialBisectState, runOutput: 'old run\n' };
+
+        const started = reduceBisectState(previous, { type: 'message', message: { type: 'bisect/actionStarted', action: 'run' } });
+        const marked = reduceBisectState(previous, { type: 'message', message: { type: 'bisect/actionStarted', action: 'good' } });
+        const overflowing = reduceBisectState(started, {
+            type: 'message',
+            message: { type: 'bisect/runOutput', chunk: `${'x'.repeat(MAX_RUN_OUTPUT_LENGTH)}tail` },
+        });
+
+        expect(started.runOutput).toBe('');
+        expect(started.actionStatus).toEqual({ action: 'run', status: OperationStatus.Running });
+        expect(marked.runOutput).toBe('old run\n');
+        expect(overflowing.runOutput).toHaveLength(MAX_RUN_OUTPUT_LENGTH);
+        expect(overflowing.runOutput.endsWith('tail')).toBe(true);
+    });
+
+    it('keeps failures visible and drops silent completions', () => {
+        const failed = reduceBisectState(initialBisectState, {
+            type: 'message',
+            message: { type: 'bisect/actionFailed', action: 'skip', message: 'No bisect is in progress.', details: 'stderr' },
+        });
+        const completed = reduceBisectState(failed, { type: 'message', message: { type: 'bisect/actionCompleted', action: 'good' } });
+
+        expect(failed.actionStatus).toEqual({ action: 'skip', status: OperationStatus.Failed, message: 'No bisect is in progress.', details: 'stderr' });
+        expect(completed.actionStatus).toBeUndefined();
+    });
+});
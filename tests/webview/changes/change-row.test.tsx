@@ -6,6 +6,7 @@ import { ChangeRow } from '@webview/features/changes/change-row';
 import { ChangeRowAction, primaryRowActionFor } from '@webview/features/changes/change-commands';
 import { ChangeSectionId, type ChangeListItem } from '@webview/features/changes/change-tree';
 import { ChangeSelectionMode } from '@webview/features/changes/changes-state';
+import type { InlineDiffBinding } from '@webview/features/changes/change-hunk-list';
 
 describe('ChangeRow', () => {
     it('opens the merge editor when clicking a conflict file', () => {
@@ -126,6 +127,71 @@ describe('ChangeRow', () => {
         expect(secondRow).toHaveFocus();
         expect(onSelect).toHaveBeenCalledWith(second, ChangeSelectionMode.Range);
     });
+
+    it('stages selected hunk lines from the expanded inline diff', () => {
+        const item = changeItem(ChangeSectionId.Unstaged, 'src/app.ts', ' ', 'M');
+        const hunk = {
+            header: '@@ -1,2 +1,2 @@',
+            lines: [
+                { kind: 'context' as const, text: 'one', oldLine: 1, newLine: 1 },
+                { kind: 'remove' as const, text: 'two', oldLine: 2 },
+                { kind: 'add' as const, text: 'TWO', newLine: 2 },
+            ],
+        };
+        const onHunkCommand = vi.fn<InlineDiffBinding['onHunkCommand']>();
+        const inlineDiff: InlineDiffBinding = {
+            expandedItemIds: new Set([item.id]),
+            hunksByItemId: { [item.id]: { hunks: [hunk], binary: false } },
+            onToggle: vi.fn(),
+            onHunkCommand,
+        };
+
+        render(
+            <ChangeRow
+                item={item}
+                depth={0}
+                selected={false}
+                context={JSON.stringify({ webviewSection: 'changesSelection', preventDefaultContextMenuItems: true })}
+                onSelect={vi.fn()}
+                onOpenContextMenu={vi.fn()}
+                onAction={vi.fn()}
+                inlineDiff={inlineDiff}
+            />,
+        );
+
+        expect(screen.getByRole('button', { name: 'Hide changed lines' })).toHaveAttribute('aria-expanded', 'true');
+        fireEvent.click(screen.getByRole('button', { name: 'Stage Hunk' }));
+        expect(onHunkCommand).toHaveBeenLastCalledWith(item, 'stage', 0, hunk, undefined);
+
+        fireEvent.click(screen.getByText('TWO'));
+        fireEvent.click(screen.getByRole('button', { name: 'Stage Selected Lines' }));
+        expect(onHunkCommand).toHaveBeenLastCalledWith(item, 'stage', 0, hunk, [2]);
+    });
+
+    it('does not offer an inline diff for untracked files', () => {
+        const item = changeItem(ChangeSectionId.Unstaged, 'src/new.ts', '?', '?');
+        const inlineDiff: InlineDiffBinding = {
+            expandedItemIds: new Set(),
+            hunksByItemId: {},
+            onToggle: vi.fn(),
+            onHunkCommand: vi.fn(),
+        };
+
+        render(
+            <ChangeRow
+                item={item}
+                depth={0}
+                selected={false}
+                context={JSON.stringify({ webviewSection: 'changesSelection', preventDefaultContextMenuItems: true })}
+                onSelect={vi.fn()}
+                onOpenContextMenu={vi.fn()}
+                onAction={vi.fn()}
+                inlineDiff={inlineDiff}
+            />,
+        );
+
+        expect(screen.queryByRole('button', { name: 'Show changed lines' })).toBeNull();
+    });
 });
 
 function renderRow(
@@ -136,4 +136,144 @@ describe('ChangesApp', () => {
 
         expect(onCreateStash).toHaveBeenCalledWith(CreateStashKind.Staged, 'staged only');
     });
+
+    it('shows a hook failure with its output and actions in place of the plain error', () => {
+        const onRetryHookFailure = vi.fn();
+        const onOpenHookScript = vi.fn();
+        const state = {
+            ...createInitialChangesState(),
+            error: { code: 'gitOperationFailed' as const, message: 'The commit-msg hook failed.' },
+            hookFailure: {
+                failure: { hook: 'commit-msg', stdout: 'checking message\n', stderr: 'Missing issue key.\n' },
+                submodulePath: undefined,
+                request: undefined,
+            },
+        };
+
+        render(
+            <ChangesApp
+                state={state}
+                onSectionToggle={() => undefined}
+                onClearPathFilter={() => undefined}
+                onToggleShowConflictsOnly={() => undefined}
+                onSelectItem={() => undefined}
+                onRowAction={() => undefined}
+                onBulkAction={() => undefined}
+                onExplainSelection={() => undefined}
+                onSelectionContextTarget={() => undefined}
+                onSelectionAction={() => undefined}
+                onClearSelection={() => undefined}
+                onCommit={() => undefined}
+                onCommitComposerContextTarget={() => undefined}
+                onGenerateCommitMessage={() => undefined}
+                onOperationAction={() => undefined}
+                onDismissError={() => undefined}
+                onRetryHookFailure={onRetryHookFailure}
+                onOpenHookScript={onOpenHookScript}
+                onCreateStash={() => undefined}
+                onCreateSelectedStash={() => undefined}
+                onToggleStash={() => undefined}
+                onStashAction={() => undefined}
+                onStashFileDiff={() => undefined}
+                onSubmoduleAction={() => undefined}
+                onSubmoduleContextTarget={() => undefined}
+                onToggleSubmodule={() => undefined}
+                onSubmoduleRowAction={() => undefined}
+                onSubmoduleBulkAction={() => undefined}
+                onExplainSubmoduleChanges={() => undefined}
+                onExplainSubmoduleSelection={() => undefined}
+                onSubmoduleSelectionContextTarget={() => undefined}
+                onSubmoduleOperationAction={() => undefined}
+                onSubmoduleCommit={() => undefined}
+                onSubmoduleCommitComposerContextTarget={() => undefined}
+                onGenerateCommitMessageForSubmodule={() => undefined}
+                onSubmoduleCreateStash={() => undefined}
+                onToggleSubmoduleStash={() => undefined}
+                onSubmoduleStashAction={() => undefined}
+                onSubmoduleStashFileDiff={() => undefined}
+            />,
+        );
+
+        const panel = screen.getByRole('alert', { name: 'commit-msg hook failed' });
+        expect(panel.textContent).toContain('checking message');
+        expect(panel.textContent).toContain('Missing issue key.');
+        expect(screen.queryByRole('button', { name: 'Commit with --no-verify' })).toBeNull();
+        fireEvent.click(screen.getByRole('button', { name: 'Retry' }));
+        fireEvent.click(screen.getByRole('button', { name: 'Open Hook Script' }));
+
+        expect(onRetryHookFailure).toHaveBeenCalledOnce();
+        expect(onOpenHookScript).toHaveBeenCalledOnce();
+    });
+
+    it('lists ignored files on demand below a clean working tree', () => {
+        const onToggleIgnoredFiles = vi.fn<(scope: string) => void>();
+        const onLoadMoreIgnoredFiles = vi.fn<(scope: string) => void>();
+        const state = {
+            ...createInitialChangesState(),
+            loading: false,
+            status: {
+                repositoryState: RepositoryState.Available,
+                staged: [],
+                unstaged: [],
+                conflicts: [],
+                conflictState: ConflictState.None,
+                stashes: [],
+                submodules: [],
+            },
+            expandedIgnoredScopes: [''],
+            ignoredFilesByScope: { '': { filePaths: ['build/', 'debug.log'], hasMore: true } },
+        };
+
+        render(
+            <ChangesApp
+                state={state}
+                onSectionToggle={() => undefined}
+                onClearPathFilter={() => undefined}
+                onToggleShowConflictsOnly={() => undefined}
+                onSelectItem={() => undefined}
+                onRowAction={() => undefined}
+                onBulkAction={() => undefined}
+                onToggleIgnoredFiles={onToggleIgnoredFiles}
+                onLoadMoreIgnoredFiles={onLoadMoreIgnoredFiles}
+                onExplainSelection={() => undefined}
+                onSelectionContextTarget={() => undefined}
+                onSelectionAction={() => undefined}
+                onClearSelection={() => undefined}
+                onCommit={() => undefined}
+                onCommitComposerContextTarget={() => undefined}
+                onGenerateCommitMessage={() => undefined}
+                onOperationAction={() => undefined}
+                onCreateStash={() => undefined}
+                onCreateSelectedStash={() => undefined}
+                onToggleStash={() => undefined}
+                onStashAction={() => undefined}
+                onStashFileDiff={() => undefined}
+                onSubmoduleAction={() => undefined}
+                onSubmoduleContextTarget={() => undefined}
+                onToggleSubmodule={() => undefined}
+                onSubmoduleRowAction={() => undefined}
+                onSubmoduleBulkAction={() => undefined}
+                onExplainSubmoduleChanges={() => undefined}
+                onExplainSubmoduleSelection={() => undefined}
+                onSubmoduleSelectionContextTarget={() => undefined}
+                onSubmoduleOperationAction={() => undefined}
+                onSubmoduleCommit={() => undefined}
+                onSubmoduleCommitComposerContextTarget={() => undefined}
+                onGenerateCommitMessageForSubmodule={() => undefined}
+                onSubmoduleCreateStash={() => undefined}
+                onToggleSubmoduleStash={() => undefined}
+                onSubmoduleStashAction={() => undefined}
+                onSubmoduleStashFileDiff={() => undefined}
+            />,
+        );
+
+        expect(screen.getByText('No changes')).toBeTruthy();
+        expect(screen.getByText('2+')).toBeTruthy();
+        expect(screen.getByTitle('debug.log')).toBeTruthy();
+        fireEvent.click(screen.getByText('Show more'));
+        fireEvent.click(screen.getByText('Ignored'));
+
+        expect(onLoadMoreIgnoredFiles).toHaveBeenCalledWith('');
+        expect(onToggleIgnoredFiles).toHaveBeenCalledWith('');
+    });
 });
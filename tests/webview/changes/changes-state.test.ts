@@ -1,7 +1,7 @@
 import { describe, expect, it } from 'vitest';
 import { createInitialChangesState, getChangeCount, reduceChangesState, ChangesViewMode, ChangesSortMode, ChangeSelectionMode, submoduleStashKey } from '@webview/features/changes/changes-state';
 import { ChangeSectionId } from '@webview/features/changes/change-tree';
-import { ConflictState, RepositoryState, type StatusEntry } from '@protocol/changes/types';
+import { CommitMode, ConflictState, RepositoryState, type StatusEntry } from '@protocol/changes/types';
 import type { StatusDataPush } from '@protocol/changes/messages';
 import { OperationStatus } from '@protocol/shared/operation';
 import { SubmoduleStatus, type RepositorySummary } from '@protocol/shared/repo';
@@ -117,6 +117,132 @@ describe('changesState', () => {
         expect(refreshed.stashFilesByIndex).toEqual({});
     });
 
+    it('stores inline file hunks for expanded rows and marks them stale on refresh', () => {
+        const itemId = `${ChangeSectionId.Unstaged}:README.md:`;
+        const status = reduceChangesState(createInitialChangesState(), {
+            type: 'message',
+            message: statusDataMessage({
+                repositoryState: RepositoryState.Available,
+                unstaged: [{ indexStatus: ' ', workTreeStatus: 'M', filePath: 'README.md' }],
+            }),
+        });
+        const expanded = reduceChangesState(status, { type: 'toggleFileDiff', itemId });
+        const requested = reduceChangesState(expanded, { type: 'requestFileHunks', itemId });
+        const hunks = [{ header: '@@ -1 +1 @@', lines: [{ kind: 'add' as const, text: 'new', newLine: 1 }] }];
+        const loaded = reduceChangesState(requested, {
+            type: 'message',
+            message: { type: 'changes/fileHunks', requestId: itemId, filePath: 'README.md', isStaged: false, hunks, binary: false },
+        });
+        const invalidated = reduceChangesState(loaded, { type: 'message', message: { type: 'changes/fileHunksInvalidated' } });
+        const removed = reduceChangesState(invalidated, { type: 'message', message: statusDataMessage({ repositoryState: RepositoryState.Available }) });
+
+        expect(requested.loadingDiffItemIds).toEqual([itemId]);
+        expect(loaded.fileHunksByItemId[itemId]).toEqual({ hunks, binary: false });
+        expect(loaded.loadingDiffItemIds).toEqual([]);
+        expect(invalidated.staleDiffItemIds).toEqual([itemId]);
+        expect(removed.expandedDiffItemIds).toEqual([]);
+        expect(removed.fileHunksByItemId).toEqual({});
+    });
+
+    it('collapses inline diffs whose hunks failed to load and ignores hunks for collapsed rows', () => {
+        const itemId = `${ChangeSectionId.Unstaged}:README.md:`;
+        const status = reduceChangesState(createInitialChangesState(), {
+            type: 'message',
+            message: statusDataMessage({
+                repositoryState: RepositoryState.Available,
+                unstaged: [{ indexStatus: ' ', workTreeStatus: 'M', filePath: 'README.md' }],
+            }),
+        });
+        const requested = reduceChangesState(reduceChangesState(status, { type: 'toggleFileDiff', itemId }), { type: 'requestFileHunks', itemId });
+        const failed = reduceChangesState(requested, {
+            type: 'message',
+            message: {
+                type: 'changes/error',
+                requestId: itemId,
+                message: 'diff failed',
+                error: { code: 'gitOperationFailed', message: 'diff failed', recoverable: true },
+            },
+        });
+        const ignored = reduceChangesState(failed, {
+            type: 'message',
+            message: { type: 'changes/fileHunks', requestId: itemId, filePath: 'README.md', isStaged: false, hunks: [], binary: false },
+        });
+
+        expect(failed.expandedDiffItemIds).toEqual([]);
+        expect(failed.loadingDiffItemIds).toEqual([]);
+        expect(ignored.fileHunksByItemId).toEqual({});
+    });
+
+    it('pages ignored files per scope and reloads them as stale after status refreshes', () => {
+        const status = reduceChangesState(createInitialChangesState(), {
+            type: 'message',
+            message: statusDataMessage({
+                repositoryState: RepositoryState.Available,
+                submodules: [{ path: 'libs/ui', name: 'ui', status: SubmoduleStatus.Clean }],
+            }),
+        });
+        const requested = reduceChangesState(
+            reduceChangesState(status, { type: 'toggleIgnoredFiles', scope: '' }),
+            { type: 'requestIgnoredFiles', scope: '' },
+        );
+        const firstPage = reduceChangesState(requested, {
+            type: 'message',
+            message: { type: 'changes/ignoredFiles', requestId: 'changes:ignored:', offset: 0, filePaths: ['build/', 'debug.log'], hasMore: true },
+        });
+        const nextPage = reduceChangesState(reduceChangesState(firstPage, { type: 'requestIgnoredFiles', scope: '' }), {
+            type: 'message',
+            message: { type: 'changes/ignoredFiles', requestId: 'changes:ignored:', offset: 2, filePaths: ['out.tmp'], hasMore: false },
+        });
+        const lateSubmodulePage = reduceChangesState(nextPage, {
+            type: 'message',
+            message: { type: 'changes/ignoredFiles', requestId: 'changes:ignored:libs/ui', submodulePath: 'libs/ui', offset: 0, filePaths: ['dist/'], hasMore: false },
+        });
+        const refreshed = reduceChangesState(nextPage, { type: 'message', message: statusDataMessage({ repositoryState: RepositoryState.Available }) });
+        const collapsed = reduceChangesState(refreshed, { type: 'toggleIgnoredFiles', scope: '' });
+
+        expect(requested.loadingIgnoredScopes).toEqual(['']);
+        expect(firstPage.ignoredFilesByScope['']).toEqual({ filePaths: ['build/', 'debug.log'], hasMore: true });
+        expect(firstPage.loadingIgnoredScopes).toEqual([]);
+        expect(nextPage.ignoredFilesByScope['']).toEqual({ filePaths: ['build/', 'debug.log', 'out.tmp'], hasMore: false });
+        expect(lateSubmodulePage).toBe(nextPage);
+        expect(refreshed.ignoredFilesByScope['']?.filePaths).toHaveLength(3);
+        expect(refreshed.staleIgnoredScopes).toEqual(['']);
+        expect(collapsed.expandedIgnoredScopes).toEqual([]);
+        expect(collapsed.ignoredFilesByScope).toEqual({});
+    });
+
+    it('collapses ignored files whose listing failed and drops scopes of removed submodules', () => {
+        const status = reduceChangesState(createInitialChangesState(), {
+            type: 'message',
+            message: statusDataMessage({
+                repositoryState: RepositoryState.Available,
+                submodules: [{ path: 'libs/ui', name: 'ui', status: SubmoduleStatus.Clean }],
+            }),
+        });
+        const requested = reduceChangesState(
+            reduceChangesState(
+                reduceChangesState(status, { type: 'toggleIgnoredFiles', scope: 'libs/ui' }),
+                { type: 'toggleIgnoredFiles', scope: '' },
+            ),
+            { type: 'requestIgnoredFiles', scope: 'libs/ui' },
+        );
+        const failed = reduceChangesState(requested, {
+            type: 'message',
+            message: {
+                type: 'changes/error',
+                requestId: 'changes:ignored:libs/ui',
+                message: 'ls-files failed',
+                error: { code: 'gitOperationFailed', message: 'ls-files failed', recoverable: true },
+            },
+        });
+        const removed = reduceChangesState(requested, { type: 'message', message: statusDataMessage({ repositoryState: RepositoryState.Available }) });
+
+        expect(failed.expandedIgnoredScopes).toEqual(['']);
+        expect(failed.loadingIgnoredScopes).toEqual([]);
+        expect(removed.expandedIgnoredScopes).toEqual(['']);
+        expect(removed.loadingIgnoredScopes).toEqual([]);
+    });
+
     it('stores protocol errors from extension messages', () => {
         const state = reduceChangesState(createInitialChangesState(), {
             type: 'message',
@@ -291,6 +417,32 @@ describe('changesState', () => {
         expect(state.commitFeedback).toEqual({ success: true, message: undefined });
     });
 
+    it('keeps the hook failure of a rejected commit until it is dismissed or a commit succeeds', () => {
+        const hookFailure = { hook: 'pre-commit', stdout: '', stderr: 'lint failed\n' };
+        const failed = reduceChangesState(createInitialChangesState(), {
+            type: 'message',
+            message: {
+                type: 'changes/submoduleCommitResult',
+                path: 'modules/lib',
+                success: false,
+                error: { code: 'gitOperationFailed', message: 'The pre-commit hook failed.', hookFailure },
+                request: { message: 'feat: add', mode: CommitMode.Commit },
+            },
+        });
+
+        expect(failed.hookFailure).toEqual({
+            failure: hookFailure,
+            submodulePath: 'modules/lib',
+            request: { message: 'feat: add', mode: CommitMode.Commit },
+        });
+        expect(reduceChangesState(failed, { type: 'clearError' }).hookFailure).toBeUndefined();
+        expect(reduceChangesState(failed, { type: 'message', message: { type: 'changes/commitResult', success: true } }).hookFailure).toBeUndefined();
+        expect(reduceChangesState(failed, {
+            type: 'message',
+            message: { type: 'changes/commitResult', success: false, error: { code: 'gitOperationFailed', message: 'nothing to commit' } },
+        }).hookFailure).toBeUndefined();
+    });
+
     it('clears commit feedback locally', () => {
         const withFeedback = reduceChangesState(createInitialChangesState(), {
             type: 'message',
@@ -836,6 +988,22 @@ describe('changesState', () => {
         expect(staleFiles.submoduleStashFilesByKey).toEqual({});
     });
 
+    it('keeps co-author candidates per repository scope until repository navigation', () => {
+        const candidates = [{ name: 'Ana', email: 'ana@example.test' }];
+        let state = reduceChangesState(createInitialChangesState(), {
+            type: 'message',
+            message: { type: 'changes/coAuthorCandidates', requestId: 'r1', candidates },
+        });
+        state = reduceChangesState(state, {
+            type: 'message',
+            message: { type: 'changes/coAuthorCandidates', requestId: 'r2', submodulePath: 'libs/ui', candidates: [] },
+        });
+
+        expect(state.coAuthorCandidates).toEqual(candidates);
+        expect(state.submoduleCoAuthorCandidatesByPath).toEqual({ 'libs/ui': [] });
+        expect(reduceChangesState(state, { type: 'message', message: { type: 'repo/navigationStarted' } }).coAuthorCandidates).toBeUndefined();
+    });
+
     it('tracks operation status and ignores stale completed operations', () => {
         const running = reduceChangesState(createInitialChangesState(), {
             type: 'message',
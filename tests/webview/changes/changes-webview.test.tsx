@@ -212,6 +212,101 @@ describe('ChangesWebview', () => {
         });
     });
 
+    it('suggests recent authors as co-authors and commits the trailers', async () => {
+        const api = createMockVsCodeApi();
+        const { ChangesWebview } = await import('@webview/changes/changes-webview');
+
+        render(<ChangesWebview />);
+        sendStatusDataWithStagedChange();
+
+        fireEvent.change(await screen.findByLabelText('Commit message'), { target: { value: 'feat: pair on trailers' } });
+        fireEvent.click(screen.getByRole('button', { name: 'Trailers and co-authors' }));
+
+        const request = api.messages.find((message): message is { readonly type: string; readonly requestId: string } =>
+            typeof message === 'object' && message !== null && 'type' in message && message.type === 'changes/getCoAuthorCandidates');
+        expect(request).toEqual({ type: 'changes/getCoAuthorCandidates', requestId: expect.any(String) });
+        sendToWebview({
+            type: 'changes/coAuthorCandidates',
+            requestId: request?.requestId ?? '',
+            candidates: [{ name: 'Ana', email: 'ana@example.test' }],
+        });
+        await waitFor(() => expect(document.querySelector('datalist option')).toHaveAttribute('value', 'Ana <ana@example.test>'));
+
+        fireEvent.change(screen.getByLabelText('Trailer value'), { target: { value: 'Ana <ana@example.test>' } });
+        fireEvent.keyDown(screen.getByLabelText('Trailer value'), { key: 'Enter' });
+        expect(screen.getByRole('button', { name: 'Trailers (1)' })).toBeInTheDocument();
+        fireEvent.keyDown(screen.getByLabelText('Commit message'), { key: 'Enter', ctrlKey: true });
+
+        expect(api.messages).toContainEqual({
+            type: 'changes/commit',
+            message: 'feat: pair on trailers\n\nCo-authored-by: Ana <ana@example.test>',
+            mode: 'commit',
+        });
+        expect(messageCount(api.messages, 'changes/getCoAuthorCandidates')).toBe(1);
+    });
+
+    it('prefills the commit template and blocks commits that break blocking rules', async () => {
+        const api = createMockVsCodeApi();
+        const { ChangesWebview } = await import('@webview/changes/changes-webview');
+
+        render(<ChangesWebview />);
+        sendStatusDataWithStagedChange();
+
+        const input = await screen.findByLabelText('Commit message');
+        const request = api.messages.find((message): message is { readonly type: string; readonly requestId: string } =>
+            typeof message === 'object' && message !== null && 'type' in message && message.type === 'changes/getCommitMessageConventions');
+        expect(request).toEqual({ type: 'changes/getCommitMessageConventions', requestId: expect.any(String) });
+        sendToWebview({
+            type: 'changes/commitMessageConventions',
+            requestId: request?.requestId ?? '',
+            conventions: { template: 'feat: ', rules: { requireScope: true, blockCommits: true } },
+        });
+        await waitFor(() => expect(input).toHaveValue('feat: '));
+        expect(screen.getByRole('button', { name: 'Commit' })).toBeDisabled();
+        expect(screen.getByText('Edit the commit message template before committing.')).toBeInTheDocument();
+
+        fireEvent.change(input, { target: { value: 'feat: add rules' } });
+        expect(screen.getByRole('list', { name: 'Commit message rules' })).toHaveTextContent('Subject needs a scope');
+        expect(screen.getByRole('button', { name: 'Commit' })).toBeDisabled();
+
+        fireEvent.change(input, { target: { value: 'feat(changes): add rules' } });
+        expect(screen.queryByRole('list', { name: 'Commit message rules' })).not.toBeInTheDocument();
+        fireEvent.keyDown(input, { key: 'Enter', ctrlKey: true });
+
+        expect(api.messages).toContainEqual({ type: 'changes/commit', message: 'feat(changes): add rules', mode: 'commit' });
+        expect(input).toHaveValue('feat: ');
+        expect(messageCount(api.messages, 'changes/getCommitMessageConventions')).toBe(1);
+    });
+
+    it('signs commits as commit.gpgSign sets until the sign toggle is switched', async () => {
+        const api = createMockVsCodeApi();
+        const { ChangesWebview } = await import('@webview/changes/changes-webview');
+
+        render(<ChangesWebview />);
+        sendStatusDataWithStagedChange();
+
+        const input = await screen.findByLabelText('Commit message');
+        const request = api.messages.find((message): message is { readonly type: string; readonly requestId: string } =>
+            typeof message === 'object' && message !== null && 'type' in message && message.type === 'changes/getCommitMessageConventions');
+        sendToWebview({
+            type: 'changes/commitMessageConventions',
+            requestId: request?.requestId ?? '',
+            conventions: { template: '', signing: { sign: true, format: 'openpgp' } },
+        });
+        const toggle = await screen.findByRole('button', { name: 'Sign with GPG, as commit.gpgSign sets' });
+        expect(toggle).toHaveAttribute('aria-pressed', 'true');
+
+        fireEvent.change(input, { target: { value: 'signed change' } });
+        fireEvent.keyDown(input, { key: 'Enter', ctrlKey: true });
+        expect(api.messages).toContainEqual({ type: 'changes/commit', message: 'signed change', mode: 'commit', sign: true });
+
+        fireEvent.click(toggle);
+        expect(toggle).toHaveAttribute('aria-label', 'Do not sign (GPG signing available), overriding commit.gpgSign');
+        fireEvent.change(input, { target: { value: 'unsigned change' } });
+        fireEvent.keyDown(input, { key: 'Enter', ctrlKey: true });
+        expect(api.messages).toContainEqual({ type: 'changes/commit', message: 'unsigned change', mode: 'commit', sign: false });
+    });
+
     it('clears successful commit feedback after a short timeout', async () => {
         vi.useFakeTimers();
         try {
@@ -409,6 +504,54 @@ describe('ChangesWebview', () => {
         await waitFor(() => expect(stashFilesRequests(api.messages).length).toBe(2));
     });
 
+    it('posts a stash as the native context menu target', async () => {
+        const api = createMockVsCodeApi();
+        const { ChangesWebview } = await import('@webview/changes/changes-webview');
+
+        render(<ChangesWebview />);
+        sendStatusData();
+
+        const stash = (await screen.findByText('WIP')).closest('[data-vscode-context]');
+        expect(stash?.getAttribute('data-vscode-context')).toContain('changesStash');
+        fireEvent.contextMenu(stash as Element);
+
+        expect(api.messages).toContainEqual({ type: 'changes/contextTarget', target: { kind: 'stash', index: 0 } });
+    });
+
+    it('acknowledges an operation plan only after its danger guards are checked', async () => {
+        const api = createMockVsCodeApi();
+        const { ChangesWebview } = await import('@webview/changes/changes-webview');
+
+        render(<ChangesWebview />);
+        sendStatusData();
+        sendToWebview({
+            type: 'changes/operationPlan',
+            plan: {
+                planId: 'plan-1',
+                title: 'Discard All Changes',
+                confirmLabel: 'Discard All',
+                guards: [
+                    { kind: 'confirm', level: 'warning', reason: 'This action cannot be undone from Look Git.' },
+                    { kind: 'destructive', level: 'danger', reason: 'Discards changes in 1 file and deletes untracked files.' },
+                ],
+                targets: [{ kind: 'path', id: 'src/app.ts', label: 'src/app.ts' }],
+                previewHash: 'preview-hash',
+            },
+        });
+
+        const confirm = await screen.findByRole('button', { name: 'Discard All' });
+        expect(screen.getByRole('list', { name: 'Affected items' })).toHaveTextContent('src/app.ts');
+        expect(confirm).toBeDisabled();
+        fireEvent.click(screen.getByRole('checkbox', { name: 'Discards changes in 1 file and deletes untracked files.' }));
+        fireEvent.click(confirm);
+
+        expect(api.messages).toContainEqual({
+            type: 'changes/acknowledgeOperationPlan',
+            acknowledgement: { planId: 'plan-1', acknowledgedGuards: ['confirm', 'destructive'], previewHash: 'preview-hash' },
+        });
+        await waitFor(() => expect(screen.queryByRole('button', { name: 'Discard All' })).not.toBeInTheDocument());
+    });
+
     it('opens a stash file diff when clicking a loaded stash file row', async () => {
         const api = createMockVsCodeApi();
         const { ChangesWebview } = await import('@webview/changes/changes-webview');
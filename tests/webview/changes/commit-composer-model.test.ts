@@ -28,6 +28,13 @@ describe('commitComposerModel', () => {
         expect(commitBlockReason({ message: 'feat: add', mode: CommitMode.Commit, stagedCount: 1, conflictState: ConflictState.Rebase })).toBe('Resolve conflicts before committing.');
     });
 
+    it('blocks unedited templates and messages that break blocking rules', () => {
+        const input = { mode: CommitMode.Commit, stagedCount: 1, conflictState: ConflictState.None, template: 'feat: \n\nWhy:' };
+        expect(commitBlockReason({ ...input, message: 'feat: \n\nWhy:\n' })).toBe('Edit the commit message template before committing.');
+        expect(canSubmitCommit({ ...input, message: 'feat: add\n\nWhy: tests' })).toBe(true);
+        expect(commitBlockReason({ ...input, message: 'feat: add', blockedByRules: true })).toBe('Fix the commit message rule errors before committing.');
+    });
+
     it('builds optional conventional commit messages', () => {
         expect(buildCommitMessage({ type: '', scope: '', message: 'add thing' })).toBe('add thing');
         expect(buildCommitMessage({ type: 'feat', scope: '', message: 'add thing' })).toBe('feat: add thing');
@@ -8,7 +8,8 @@ import { SubmoduleStatus } from '@protocol/shared/repo';
 import { ChangeRow } from '@webview/features/changes/change-row';
 import type { ChangeListItem, ChangeTreeNode } from '@webview/features/changes/change-tree';
 import { ChangeSectionId } from '@webview/features/changes/change-tree';
-import { changesSelectionContext } from '@webview/features/changes/context-menu-model';
+import { changesSelectionTarget } from '@webview/features/changes/change-selection-model';
+import { changesSelectionContext, selectionContextFlags } from '@webview/features/changes/context-menu-model';
 import { SubmoduleItem } from '@webview/features/changes/submodule-item';
 import { StashFileRow } from '@webview/features/changes/stash-file-row';
 import { StashItem } from '@webview/features/changes/stash-item';
@@ -23,6 +24,9 @@ describe('changes native context menu targets', () => {
             canExplainDiff: true,
             canCreatePatch: true,
             canDiscard: true,
+            canIgnore: false,
+            canExplainIgnore: false,
+            canLockLfs: false,
         }));
 
         expect(context).toEqual(expect.objectContaining({
@@ -32,6 +36,64 @@ describe('changes native context menu targets', () => {
         }));
     });
 
+    it('offers ignore actions for untracked rows and rule explanations for a single path', () => {
+        const untracked = untrackedItem('notes.log');
+        const ignored: ChangeListItem = {
+            id: 'ignored:build/:',
+            section: ChangeSectionId.Ignored,
+            entry: { indexStatus: '!', workTreeStatus: '!', filePath: 'build/' },
+            isStaged: false,
+        };
+
+        expect(selectionContextFlags(changesSelectionTarget([untracked]))).toEqual(expect.objectContaining({
+            canIgnore: true,
+            canExplainIgnore: true,
+        }));
+        expect(selectionContextFlags(changesSelectionTarget([ignored]))).toEqual(expect.objectContaining({
+            canIgnore: false,
+            canExplainIgnore: true,
+            canStage: false,
+            canDiscard: false,
+        }));
+        expect(selectionContextFlags(changesSelectionTarget([untracked, ignored]))).toEqual(expect.objectContaining({
+            canIgnore: true,
+            canExplainIgnore: false,
+        }));
+        expect(changesSelectionTarget([ignored], 'libs/ui')).toEqual(expect.objectContaining({
+            submodulePath: 'libs/ui',
+            ignoredFilePaths: ['build/'],
+        }));
+    });
+
+    it('offers LFS lock actions only for rows tracked by Git LFS', () => {
+        const asset: ChangeListItem = { ...changeItem('art/hero.psd'), entry: { indexStatus: ' ', workTreeStatus: 'M', filePath: 'art/hero.psd', isLfs: true } };
+        const source = changeItem('src/app.ts');
+
+        expect(changesSelectionTarget([asset, source]).lfsFilePaths).toEqual(['art/hero.psd']);
+        expect(changesSelectionTarget([source])).not.toHaveProperty('lfsFilePaths');
+        expect(selectionContextFlags(changesSelectionTarget([asset])).canLockLfs).toBe(true);
+        expect(selectionContextFlags(changesSelectionTarget([source])).canLockLfs).toBe(false);
+        expect(JSON.parse(changesSelectionContext(selectionContextFlags(changesSelectionTarget([asset]))))).toEqual(expect.objectContaining({
+            changesSelectionCanLockLfs: true,
+        }));
+    });
+
+    it('badges rows tracked by Git LFS', () => {
+        render(
+            <ChangeRow
+                item={{ ...changeItem('art/hero.psd'), entry: { indexStatus: ' ', workTreeStatus: 'M', filePath: 'art/hero.psd', isLfs: true } }}
+                depth={0}
+                selected={false}
+                context=""
+                onSelect={vi.fn()}
+                onOpenContextMenu={vi.fn()}
+                onAction={vi.fn()}
+            />,
+        );
+
+        expect(screen.getByTitle('Stored in Git LFS').textContent).toBe('LFS');
+    });
+
     it('suppresses default VS Code context menu items on file rows', () => {
         render(
             <ChangeRow
@@ -129,6 +191,15 @@ function changeItem(filePath: string): ChangeListItem {
     };
 }
 
+function untrackedItem(filePath: string): ChangeListItem {
+    return {
+        id: `unstaged:${filePath}`,
+        section: ChangeSectionId.Unstaged,
+        isStaged: false,
+        entry: { indexStatus: '?', workTreeStatus: '?', filePath },
+    };
+}
+
 function renderSubmodule(status: SubmoduleStatusData): void {
     render(
         <SubmoduleItem
@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { CommitMode } from '@protocol/changes/types';
+import {
+    messageForCommitWithoutHooks,
+    messageForOpenHookScript,
+    messageForRetryAfterHookFailure,
+} from '@webview/features/changes/hook-failure-commands';
+
+const request = { message: 'feat: add hooks', mode: CommitMode.CommitPush };
+
+describe('hook failure commands', () => {
+    it('retries the commit for commit hooks and only the push for pre-push', () => {
+        const commitMsg = { failure: { hook: 'commit-msg', stdout: '', stderr: '' }, submodulePath: undefined, request };
+        const prePush = { failure: { hook: 'pre-push', stdout: '', stderr: '' }, submodulePath: 'modules/lib', request };
+
+        expect(messageForRetryAfterHookFailure(commitMsg)).toEqual({ type: 'changes/commit', message: 'feat: add hooks', mode: CommitMode.CommitPush });
+        expect(messageForRetryAfterHookFailure(prePush)).toEqual({ type: 'changes/submoduleToolbarCommand', submodulePath: 'modules/lib', command: 'push' });
+        expect(messageForRetryAfterHookFailure({ ...commitMsg, request: undefined })).toBeUndefined();
+    });
+
+    it('offers --no-verify only for the hooks it skips', () => {
+        const preCommit = { failure: { hook: 'pre-commit', stdout: '', stderr: '' }, submodulePath: 'modules/lib', request };
+
+        expect(messageForCommitWithoutHooks(preCommit)).toEqual({
+            type: 'changes/commitWithoutHooks',
+            submodulePath: 'modules/lib',
+            message: 'feat: add hooks',
+            mode: CommitMode.CommitPush,
+        });
+        expect(messageForCommitWithoutHooks({ ...preCommit, failure: { ...preCommit.failure, hook: 'prepare-commit-msg' } })).toBeUndefined();
+        expect(messageForCommitWithoutHooks({ ...preCommit, failure: { ...preCommit.failure, hook: 'pre-push' } })).toBeUndefined();
+        expect(messageForOpenHookScript({ ...preCommit, submodulePath: undefined })).toEqual({ type: 'changes/openHookScript', hook: 'pre-commit' });
+    });
+});
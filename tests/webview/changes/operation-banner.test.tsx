@@ -44,4 +44,37 @@ describe('OperationBanner', () => {
         fireEvent.click(continueButton);
         expect(onAction).toHaveBeenCalledWith(OperationAction.Continue);
     });
+
+    it('offers skip and shows the remaining picks for a cherry-pick sequence', () => {
+        const onAction = vi.fn<(action: OperationAction) => void>();
+        render(
+            <OperationBanner
+                conflictState={ConflictState.CherryPick}
+                conflictCount={1}
+                sequencerRemaining={3}
+                conflictsOnly={false}
+                onToggleConflictsOnly={vi.fn()}
+                onAction={onAction}
+            />,
+        );
+
+        expect(screen.getByText('Cherry-pick in progress')).toBeInTheDocument();
+        expect(screen.getByText('3 picks remaining.')).toBeInTheDocument();
+        fireEvent.click(screen.getByRole('button', { name: 'Skip' }));
+        expect(onAction).toHaveBeenCalledWith(OperationAction.Skip);
+    });
+
+    it('does not offer skip for a merge', () => {
+        render(
+            <OperationBanner
+                conflictState={ConflictState.Merge}
+                conflictCount={1}
+                conflictsOnly={false}
+                onToggleConflictsOnly={vi.fn()}
+                onAction={vi.fn()}
+            />,
+        );
+
+        expect(screen.queryByRole('button', { name: 'Skip' })).not.toBeInTheDocument();
+    });
 });
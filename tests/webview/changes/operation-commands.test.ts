@@ -22,4 +22,15 @@ describe('operationCommands', () => {
             type: 'changes/acceptAllTheirs',
         });
     });
+
+    it('creates messages for cherry-pick and revert sequencer actions', () => {
+        expect(messageForOperationAction(ConflictState.CherryPick, OperationAction.Continue)).toEqual({
+            type: 'changes/continueOp',
+            conflictState: 'cherryPick',
+        });
+        expect(messageForOperationAction(ConflictState.Revert, OperationAction.Skip)).toEqual({
+            type: 'changes/skipOp',
+            conflictState: 'revert',
+        });
+    });
 });
@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { OperationStatus } from '@protocol/shared/operation';
+import { messageForCleanRemove } from '@webview/clean/clean-commands';
+import { initialCleanState, reduceCleanState, type CleanState } from '@webview/features/clean/clean-state';
+
+const options = initialCleanState.options;
+
+function withPreview(state: CleanState, paths: readonly string[]): CleanState {
+    return reduceCleanState(state, {
+        type: 'message',
+        message: {
+            type: 'clean/preview',
+            title: 'Clean: repo',
+            options,
+            entries: paths.map((path) => ({ path, isDirectory: path.endsWith('/') })),
+        },
+    });
+}
+
+describe('reduceCleanState', () => {
+    it('starts with nothing checked and keeps checks only on entries a refresh still lists', () => {
+        const previewed = withPreview(initialCleanState, ['tmp.txt', 'build/', 'notes.md']);
+        const checked = reduceCleanState(reduceCleanState(previewed, { type: 'toggleEntry', path: 'tmp.txt' }), { type: 'toggleEntry', path: 'build/' });
+        const refreshed = withPreview(checked, ['build/', 'notes.md', 'new.log']);
+
+        expect(previewed.loading).toBe(false);
+        expect(previewed.selectedPaths.size).toBe(0);
+        expect([...refreshed.selectedPaths]).toEqual(['build/']);
+    });
+
+    it('ignores previews for options the user has already changed', () => {
+        const requested = reduceCleanState(initialCleanState, {
+            type: 'previewRequested',
+            options: { ...options, includeIgnored: true },
+        });
+        const stale = withPreview(requested, ['tmp.txt']);
+
+        expect(stale.loading).toBe(true);
+        expect(stale.entries).toEqual([]);
+    });
+
+    it('selects and clears every listed entry', () => {
+        const previewed = withPreview(initialCleanState, ['a.txt', 'b/']);
+        const all = reduceCleanState(previewed, { type: 'selectAll', selected: true });
+        const none = reduceCleanState(all, { type: 'selectAll', selected: false });
+
+        expect([...all.selectedPaths]).toEqual(['a.txt', 'b/']);
+        expect(none.selectedPaths.size).toBe(0);
+    });
+
+    it('keeps failures visible until dismissed', () => {
+        const failed = reduceCleanState(initialCleanState, {
+            type: 'message',
+            message: { type: 'clean/actionFailed', message: 'Permission denied', details: 'stderr' },
+        });
+
+        expect(failed.actionStatus).toEqual({ status: OperationStatus.Failed, message: 'Permission denied', details: 'stderr' });
+        expect(reduceCleanState(failed, { type: 'clearActionStatus' }).actionStatus).toBeUndefined();
+    });
+});
+
+describe('messageForCleanRemove', () => {
+    it('sends only checked entries that are still listed', () => {
+        const state = withPreview(initialCleanState, ['a.txt', 'b/']);
+
+        expect(messageForCleanRemove(state.entries, new Set(['b/', 'gone.txt']), options)).toEqual({
+            type: 'clean/remove',
+            paths: ['b/'],
+            options,
+        });
+    });
+});
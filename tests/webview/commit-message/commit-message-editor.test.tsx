@@ -62,4 +62,100 @@ describe('CommitMessageEditor', () => {
         expect(onApply).toHaveBeenCalledTimes(1);
         expect(onCancel).toHaveBeenCalledTimes(1);
     });
+
+    it('labels the apply button with the caller label', () => {
+        render(
+            <CommitMessageEditor
+                title="Note on abc1234"
+                message="qa: passed"
+                canGenerate={false}
+                applyLabel="Save Note"
+                generating={false}
+                generationError={undefined}
+                focusToken={0}
+                onMessageChange={() => undefined}
+                onGenerate={() => undefined}
+                onApply={() => undefined}
+                onCancel={() => undefined}
+            />,
+        );
+
+        expect(screen.getByRole('button', { name: 'Save Note' })).toBeEnabled();
+        expect(screen.queryByRole('button', { name: 'Commit' })).toBeNull();
+    });
+
+    it('edits trailers apart from the message when trailers are on', () => {
+        const onTrailersChange = vi.fn();
+
+        render(
+            <CommitMessageEditor
+                title="Reword commit abc1234"
+                message="fix: old message"
+                canGenerate={false}
+                trailers={[{ key: 'Refs', value: '#42' }]}
+                coAuthorCandidates={[{ name: 'Ana', email: 'ana@example.test' }]}
+                generating={false}
+                generationError={undefined}
+                focusToken={0}
+                onMessageChange={() => undefined}
+                onTrailersChange={onTrailersChange}
+                onGenerate={() => undefined}
+                onApply={() => undefined}
+                onCancel={() => undefined}
+            />,
+        );
+
+        expect(document.querySelector('datalist option')).toHaveAttribute('value', 'Ana <ana@example.test>');
+        fireEvent.change(screen.getByLabelText('Trailer value'), { target: { value: 'Ana <ana@example.test>' } });
+        fireEvent.click(screen.getByRole('button', { name: 'Add trailer' }));
+        fireEvent.click(screen.getByRole('button', { name: 'Remove Refs: #42' }));
+
+        expect(onTrailersChange).toHaveBeenNthCalledWith(1, [
+            { key: 'Refs', value: '#42' },
+            { key: 'Co-authored-by', value: 'Ana <ana@example.test>' },
+        ]);
+        expect(onTrailersChange).toHaveBeenNthCalledWith(2, []);
+    });
+
+    it('checks the message with its trailers against the repository rules', () => {
+        const props = {
+            title: 'Reword commit abc1234',
+            canGenerate: false,
+            trailers: [{ key: 'Refs', value: 'APP-7' }],
+            generating: false,
+            generationError: undefined,
+            focusToken: 0,
+            onMessageChange: () => undefined,
+            onTrailersChange: () => undefined,
+            onGenerate: () => undefined,
+            onApply: () => undefined,
+            onCancel: () => undefined,
+        };
+        const { rerender } = render(<CommitMessageEditor {...props} message="fix: crash" rules={{ issueKeyPattern: 'APP-\\d+', subjectMaxLength: 5 }} />);
+
+        expect(screen.getByRole('list', { name: 'Commit message rules' })).toHaveTextContent('Subject is 10 characters; keep it to 5.');
+        expect(screen.getByRole('button', { name: 'Commit' })).toBeEnabled();
+
+        rerender(<CommitMessageEditor {...props} message="fix: crash" rules={{ subjectMaxLength: 5, blockCommits: true }} />);
+        expect(screen.getByRole('button', { name: 'Commit' })).toBeDisabled();
+    });
+
+    it('hides the trailers editor by default', () => {
+        render(
+            <CommitMessageEditor
+                title="Note on abc1234"
+                message="qa: passed"
+                canGenerate={false}
+                generating={false}
+                generationError={undefined}
+                focusToken={0}
+                onMessageChange={() => undefined}
+                onGenerate={() => undefined}
+                onApply={() => undefined}
+                onCancel={() => undefined}
+            />,
+        );
+
+        expect(screen.queryByRole('group', { name: 'Trailers' })).toBeNull();
+    });
 });
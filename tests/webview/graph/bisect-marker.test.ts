@@ -0,0 +1,22 @@
+import { describe, expect, it } from 'vitest';
+import type { BisectStatus } from '@protocol/shared/bisect';
+import { bisectMarkerFor } from '@webview/features/graph/bisect-marker';
+
+describe('bisectMarkerFor', () => {
+    const running: BisectStatus = { badHash: 'bad', goodHashes: ['good'], skippedHashes: ['skip'], currentHash: 'mid' };
+
+    it('marks good, bad, skipped and checked-out commits of a running bisect', () => {
+        expect(bisectMarkerFor('bad', running)).toBe('bad');
+        expect(bisectMarkerFor('good', running)).toBe('good');
+        expect(bisectMarkerFor('skip', running)).toBe('skip');
+        expect(bisectMarkerFor('mid', running)).toBe('current');
+        expect(bisectMarkerFor('other', running)).toBeUndefined();
+        expect(bisectMarkerFor('bad', undefined)).toBeUndefined();
+    });
+
+    it('highlights the first bad commit once the bisect has finished', () => {
+        const finished: BisectStatus = { ...running, firstBadHash: 'bad', currentHash: 'bad' };
+
+        expect(bisectMarkerFor('bad', finished)).toBe('firstBad');
+    });
+});
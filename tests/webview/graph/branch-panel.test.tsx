@@ -3,8 +3,8 @@
 import { renderToStaticMarkup } from 'react-dom/server';
 import { fireEvent, render, screen } from '@testing-library/react';
 import { describe, expect, it, vi } from 'vitest';
-import type { BranchCommand } from '@protocol/graph/messages';
-import type { BranchInfo, GraphSubmoduleInfo } from '@protocol/graph/types';
+import type { BranchCommand, RebaseBackupCommand, TagCommand } from '@protocol/graph/messages';
+import type { BranchInfo, GraphContextTarget, GraphSubmoduleInfo, RebaseBackupInfo, TagInfo } from '@protocol/graph/types';
 import { SubmoduleStatus } from '@protocol/shared/repo';
 import { BranchPanel } from '@webview/features/graph/branch-panel';
 
@@ -397,6 +397,125 @@ describe('BranchPanel', () => {
         expect(screen.queryByText('oauth-sandbox')).not.toBeInTheDocument();
     });
 
+    it('lists rebase backups with their actions and context target', () => {
+        const onRebaseBackupCommand = vi.fn<(command: RebaseBackupCommand, backup: RebaseBackupInfo) => void>();
+        const onContextTarget = vi.fn<(target: GraphContextTarget) => void>();
+        const restorable: RebaseBackupInfo = {
+            ref: 'refs/look-git/backup/feature-topic-20260412-091530',
+            hash: 'aaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa',
+            branchLabel: 'feature-topic',
+            branch: 'feature/topic',
+            createdAt: Date.UTC(2026, 3, 12, 9, 15, 30),
+            commitCount: 2,
+        };
+        const orphaned: RebaseBackupInfo = {
+            ref: 'refs/look-git/backup/old-20260301-080000',
+            hash: 'bbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbb',
+            branchLabel: 'old',
+            createdAt: Date.UTC(2026, 2, 1, 8, 0, 0),
+        };
+
+        render(
+            <BranchPanel
+                branches={[branch('main', { isCurrent: true })]}
+                worktrees={[]}
+                submodules={[]}
+                rebaseBackups={[restorable, orphaned]}
+                currentBranch="main"
+                selectedBranchFilter={undefined}
+                selectedWorktreePath={undefined}
+                onSelectBranch={() => undefined}
+                onBranchCommand={() => undefined}
+                onFetch={() => undefined}
+                onSelectWorktree={() => undefined}
+                onOpenWorktree={() => undefined}
+                onAddWorktree={() => undefined}
+                onRebaseBackupCommand={onRebaseBackupCommand}
+                onContextTarget={onContextTarget}
+            />,
+        );
+
+        expect(screen.getByText('Rebase Backups')).toBeTruthy();
+        expect(screen.getByTitle('2 commits not on feature/topic').textContent).toBe('2');
+        expect((screen.getByLabelText('Restore old to Backup...') as HTMLButtonElement).disabled).toBe(true);
+        const row = screen.getByText('feature-topic').closest('.graph-rebase-backup-row')!;
+        expect(JSON.parse(row.getAttribute('data-vscode-context')!)).toEqual({
+            webviewSection: 'graphRebaseBackup',
+            graphRebaseBackupHasBranch: true,
+            preventDefaultContextMenuItems: true,
+        });
+
+        fireEvent.click(screen.getByLabelText('Restore feature-topic to Backup...'));
+        fireEvent.click(screen.getAllByLabelText('Compare Backup with Current Branch')[1]!);
+        fireEvent.contextMenu(row);
+
+        expect(onRebaseBackupCommand).toHaveBeenCalledWith('restore', restorable);
+        expect(onRebaseBackupCommand).toHaveBeenCalledWith('compare', orphaned);
+        expect(onContextTarget).toHaveBeenCalledWith({ kind: 'rebaseBackup', ref: restorable.ref, hash: restorable.hash });
+    });
+
+    it('lists tags by version or date with their actions, filter, and context target', () => {
+        const onTagCommand = vi.fn<(command: TagCommand, tag: TagInfo) => void>();
+        const onContextTarget = vi.fn<(target: GraphContextTarget) => void>();
+        const release: TagInfo = {
+            name: 'v1.10.0',
+            hash: 'cccccccccccccccccccccccccccccccccccccccc',
+            target: 'dddddddddddddddddddddddddddddddddddddddd',
+            annotated: true,
+            taggerName: 'Ana',
+            taggerEmail: 'ana@example.test',
+            date: '2026-04-01T10:00:00+00:00',
+            message: 'Release 1.10',
+        };
+        const patch: TagInfo = { name: 'v1.9.1', hash: 'eeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeee', annotated: false, date: '2026-04-05T10:00:00+00:00' };
+
+        const { container } = render(
+            <BranchPanel
+                branches={[branch('main', { isCurrent: true })]}
+                worktrees={[]}
+                submodules={[]}
+                tags={[patch, release]}
+                currentBranch="main"
+                hasRemotes
+                selectedBranchFilter={undefined}
+                selectedWorktreePath={undefined}
+                onSelectBranch={() => undefined}
+                onBranchCommand={() => undefined}
+                onFetch={() => undefined}
+                onSelectWorktree={() => undefined}
+                onOpenWorktree={() => undefined}
+                onAddWorktree={() => undefined}
+                onTagCommand={onTagCommand}
+                onContextTarget={onContextTarget}
+            />,
+        );
+        const tagNames = () => Array.from(container.querySelectorAll('.graph-tag-row .branch-node-name')).map((node) => node.textContent);
+
+        expect(tagNames()).toEqual(['v1.10.0', 'v1.9.1']);
+        const row = screen.getByText('v1.10.0').closest('.graph-tag-row')!;
+        expect(row.textContent).toContain('ddddddd');
+        expect(row.textContent).toContain('annotated');
+        expect(row.getAttribute('title')).toContain('Tagger: Ana <ana@example.test>');
+        expect(JSON.parse(row.getAttribute('data-vscode-context')!)).toEqual({
+            webviewSection: 'graphTag',
+            graphTagIsAnnotated: true,
+            preventDefaultContextMenuItems: true,
+        });
+
+        fireEvent.click(screen.getByLabelText('Sorted by version. Sort by date'));
+        expect(tagNames()).toEqual(['v1.9.1', 'v1.10.0']);
+
+        fireEvent.click(row);
+        fireEvent.click(screen.getAllByLabelText('Push Tag...')[1]!);
+        fireEvent.contextMenu(row);
+        expect(onTagCommand).toHaveBeenCalledWith('reveal', release);
+        expect(onTagCommand).toHaveBeenCalledWith('push', release);
+        expect(onContextTarget).toHaveBeenCalledWith({ kind: 'tag', tag: release.name, hash: release.hash });
+
+        fireEvent.change(screen.getByLabelText('Search branches, tags, worktrees, and submodules'), { target: { value: 'release 1.10' } });
+        expect(tagNames()).toEqual(['v1.10.0']);
+    });
+
     it('renders a main repository action while scoped to a submodule', () => {
         const onSelectMainRepository = vi.fn<() => void>();
 
@@ -47,6 +47,7 @@ describe('CommitDetailsPanel', () => {
                 loading={false}
                 onClose={vi.fn()}
                 onDiff={vi.fn()}
+                onOpenLink={vi.fn()}
             />,
         );
 
@@ -67,6 +68,68 @@ describe('CommitDetailsPanel', () => {
         expect(localStorage.getItem('lookGit.commitDetailsMessagePanelHeight')).toBe('156');
     });
 
+    it('links the commit message and hash to the remote', () => {
+        const onOpenLink = vi.fn();
+        render(
+            <CommitDetailsPanel
+                details={{
+                    ...detailsFor('abcdef123456'),
+                    fullMessage: 'fix: close dialog (#7)',
+                    webUrl: 'https://github.com/o/r/commit/abcdef123456',
+                    messageLinks: [{ start: 19, end: 21, url: 'https://github.com/o/r/issues/7' }],
+                }}
+                loading={false}
+                onClose={vi.fn()}
+                onDiff={vi.fn()}
+                onOpenLink={onOpenLink}
+            />,
+        );
+
+        expect(screen.getByText('#7').closest('p')).toHaveTextContent('fix: close dialog (#7)');
+        fireEvent.click(screen.getByText('#7'));
+        fireEvent.click(screen.getByTitle('Open Commit on Remote'));
+
+        expect(onOpenLink.mock.calls).toEqual([
+            ['https://github.com/o/r/issues/7'],
+            ['https://github.com/o/r/commit/abcdef123456'],
+        ]);
+    });
+
+    it('shows commit notes under their notes ref', () => {
+        renderPanel({
+            ...detailsFor('abcdef123456'),
+            notes: [
+                { ref: 'refs/notes/commits', message: 'Build 142 passed' },
+                { ref: 'refs/notes/release/qa', message: 'QA: signed off\nby release team' },
+            ],
+        });
+
+        const notes = screen.getByRole('region', { name: 'Notes' });
+        expect(notes).toHaveTextContent('commits');
+        expect(notes).toHaveTextContent('Build 142 passed');
+        expect(screen.getByTitle('refs/notes/release/qa')).toHaveTextContent('release/qa');
+        expect(screen.getByText(/QA: signed off/)).toHaveTextContent('QA: signed off by release team');
+    });
+
+    it('shows trailers as chips under the message', () => {
+        renderPanel({
+            ...detailsFor('abcdef123456'),
+            fullMessage: 'feat: pair\n\nFixes #7\n\nCo-authored-by: Ana <ana@example.test>\nRefs: #42',
+            messageLinks: [
+                { start: 18, end: 20, url: 'https://example.test/issues/7' },
+                { start: 67, end: 70, url: 'https://example.test/issues/42' },
+            ],
+        });
+
+        const trailers = screen.getByRole('list', { name: 'Trailers' });
+        expect(trailers).toHaveTextContent('Co-authored-byAna <ana@example.test>');
+        expect(screen.getByTitle('Refs: #42')).toBeInTheDocument();
+        expect(screen.getByText(/Fixes/)).not.toHaveTextContent('Co-authored-by');
+        const links = screen.getAllByRole('link').map((link) => link.textContent);
+        expect(links).toContain('#7');
+        expect(links).not.toContain('#42');
+    });
+
     it('switches changed files between tree and list modes', () => {
         renderPanel(detailsFor('abcdef123456'));
 
@@ -93,6 +156,7 @@ function renderPanel(details: CommitDetails) {
             loading={false}
             onClose={vi.fn()}
             onDiff={vi.fn()}
+            onOpenLink={vi.fn()}
         />,
     );
 }
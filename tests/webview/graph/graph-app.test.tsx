@@ -403,6 +403,27 @@ describe('GraphApp', () => {
         await waitFor(() => expect(screen.queryByText('Could not push experimental.')).not.toBeInTheDocument());
     });
 
+    it('offers undo for successful graph operations that can be undone', async () => {
+        const api = createMockVsCodeApi();
+        const { GraphApp } = await import('@webview/graph/graph-app');
+
+        render(<GraphApp sendMessage={(message) => api.postMessage(message)} />);
+        await act(async () => sendToWebview({
+            type: 'graph/operationStatus',
+            operationId: 'checkout-1',
+            status: GraphOperationStatus.Success,
+            category: GraphOperationCategory.Branch,
+            command: 'checkout',
+            target: 'experimental',
+            actions: [OperationNoticeActionKind.Undo],
+        }));
+
+        expect(await screen.findByRole('status')).toHaveTextContent('Checked out experimental.');
+        fireEvent.click(screen.getByRole('button', { name: 'Undo' }));
+
+        expect(api.messages).toContainEqual({ type: 'graph/undoLastOperation' });
+    });
+
     it('shows an actionable empty state for an initialized repository without commits', async () => {
         const api = createMockVsCodeApi();
         const { GraphApp } = await import('@webview/graph/graph-app');
@@ -1,5 +1,5 @@
 import { describe, expect, it } from 'vitest';
-import { messageForBranchCommand, messageForBranchDetails, messageForCommitCommand, messageForCommitDetails, messageForGraphContextTarget, messageForGraphDataRequest, messageForGraphRepositoryCommand, messageForOpenDiff } from '@webview/features/graph/graph-commands';
+import { messageForBranchCommand, messageForBranchDetails, messageForCommitCommand, messageForCommitDetails, messageForGraphContextTarget, messageForGraphDataRequest, messageForGraphRepositoryCommand, messageForOpenBlame, messageForOpenDiff } from '@webview/features/graph/graph-commands';
 
 describe('graphCommands', () => {
     it('sends commit command selections', () => {
@@ -74,5 +74,11 @@ describe('graphCommands', () => {
             isSubmodule: undefined,
             repository,
         });
+        expect(messageForOpenBlame('src/file.ts', 'abc123', repository)).toEqual({
+            type: 'graph/openBlame',
+            filePath: 'src/file.ts',
+            commitHash: 'abc123',
+            repository,
+        });
     });
 });
@@ -47,6 +47,57 @@ describe('GraphCommitRow', () => {
         expect(wide).toContain('--graph-row-message-offset:52px');
     });
 
+    it('labels bisect marks and exposes the bisect session to the context menu', () => {
+        const markup = renderToStaticMarkup(
+            <GraphCommitRow
+                row={rowWithLane(0)}
+                branches={[]}
+                selected={false}
+                childHash={undefined}
+                parentHash={undefined}
+                canUndoCommit={false}
+                canCherryPick={true}
+                hasMultipleSelectedCommits={false}
+                bisectInProgress={true}
+                bisectMarker="firstBad"
+                style={{}}
+                onSelect={() => undefined}
+                onMoveFocus={() => undefined}
+                onOpenContextMenu={() => undefined}
+                onBranchDoubleClick={() => undefined}
+            />,
+        );
+
+        expect(markup).toContain('graph-bisect-marker-firstBad');
+        expect(markup).toContain('first bad');
+        expect(markup).toContain('&quot;graphBisectInProgress&quot;:true');
+    });
+
+    it('shows a signature badge with the signer and key in its tooltip', () => {
+        const row = rowWithLane(0);
+        render(
+            <GraphCommitRow
+                row={{ ...row, commit: { ...row.commit, signature: { status: 'expired', signer: 'Alice <alice@example.com>', key: '0123ABCD' } } }}
+                branches={[]}
+                selected={false}
+                childHash={undefined}
+                parentHash={undefined}
+                canUndoCommit={false}
+                canCherryPick={true}
+                hasMultipleSelectedCommits={false}
+                style={{}}
+                onSelect={() => undefined}
+                onMoveFocus={() => undefined}
+                onOpenContextMenu={() => undefined}
+                onBranchDoubleClick={() => undefined}
+            />,
+        );
+
+        const badge = screen.getByLabelText(/Signature made with an expired key/);
+        expect(badge.className).toContain('signature-badge-expired');
+        expect(badge.getAttribute('title')).toBe('Signature made with an expired key\nSigner: Alice <alice@example.com>\nKey: 0123ABCD');
+    });
+
     it('marks merge commits with the merge node renderer', () => {
         const markup = renderToStaticMarkup(
             <GraphCommitRow
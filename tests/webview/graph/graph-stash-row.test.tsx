@@ -0,0 +1,59 @@
+import { renderToStaticMarkup } from 'react-dom/server';
+import { describe, expect, it } from 'vitest';
+import type { GraphStashInfo } from '@protocol/graph/types';
+import { GraphStashRow } from '@webview/features/graph/graph-stash-row';
+import type { LaneData } from '@webview/features/graph/layout/graph-lane-model';
+
+describe('GraphStashRow', () => {
+    it('renders the stash ref, message and the parent commits it recorded', () => {
+        const markup = renderToStaticMarkup(
+            <GraphStashRow
+                stash={{
+                    index: 2,
+                    hash: 'a'.repeat(40),
+                    baseHash: 'b'.repeat(40),
+                    indexHash: 'c'.repeat(40),
+                    untrackedHash: 'd'.repeat(40),
+                    message: 'On main: half-done parser',
+                } satisfies GraphStashInfo}
+                laneData={laneData(2)}
+                style={{}}
+                selected={false}
+                onSelect={() => undefined}
+                onOpenContextMenu={() => undefined}
+            />,
+        );
+
+        expect(markup).toContain('stash@{2}');
+        expect(markup).toContain('On main: half-done parser');
+        expect(markup).toContain('index cccccc');
+        expect(markup).toContain('untracked dddddd');
+        expect(markup).toContain('--graph-row-message-offset:52px');
+        expect(markup).toContain('graphStash');
+    });
+
+    it('leaves out the untracked chip for stashes of tracked changes only', () => {
+        const markup = renderToStaticMarkup(
+            <GraphStashRow
+                stash={{ index: 0, hash: 'a'.repeat(40), baseHash: 'b'.repeat(40), indexHash: 'c'.repeat(40), message: 'WIP on main' }}
+                laneData={laneData(0)}
+                style={{}}
+                selected
+                onSelect={() => undefined}
+                onOpenContextMenu={() => undefined}
+            />,
+        );
+
+        expect(markup).not.toContain('untracked');
+        expect(markup).toContain('aria-selected="true"');
+    });
+});
+
+function laneData(lane: number): LaneData {
+    return {
+        lane,
+        color: '#79b8ff',
+        isPrimary: false,
+        lines: [],
+    };
+}
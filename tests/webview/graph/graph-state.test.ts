@@ -1,6 +1,6 @@
 import { describe, expect, it } from 'vitest';
 import { GraphOperationCategory, GraphOperationStatus } from '@protocol/graph/messages';
-import type { BranchInfo, GraphCommit, GraphData, WorktreeWip } from '@protocol/graph/types';
+import type { BranchInfo, GraphCommit, GraphData, GraphStashInfo, WorktreeWip } from '@protocol/graph/types';
 import { SubmoduleStatus, type RepositorySummary } from '@protocol/shared/repo';
 import { buildDisplayRows, createInitialGraphState, graphRequestId, reduceGraphState } from '@webview/features/graph/graph-state';
 import type { GraphRow, LaneData } from '@webview/features/graph/layout/graph-lane-model';
@@ -61,6 +61,15 @@ function wip(path: string, head: string): WorktreeWip {
     };
 }
 
+function stash(index: number, hash: string, baseHash: string): GraphStashInfo {
+    return {
+        index,
+        hash,
+        baseHash,
+        message: `On main: stash ${index}`,
+    };
+}
+
 function row(hash: string, laneData: LaneData): GraphRow {
     return { commit: commit(hash), laneData };
 }
@@ -419,6 +428,26 @@ describe('graphState', () => {
         expect(refreshed.branches).toBe(loaded.branches);
     });
 
+    it('picks up bisect progress even when the commits are unchanged', () => {
+        const data = graphData([commit('b', ['a']), commit('a')], 2, false);
+        const loaded = reduceGraphState(createInitialGraphState(), {
+            type: 'message',
+            message: { type: 'graph/dataResponse', requestId: graphRequestId(0, 'replace'), data },
+        });
+        const refreshing = reduceGraphState(loaded, { type: 'refreshRequested' });
+        const bisecting = reduceGraphState(refreshing, {
+            type: 'message',
+            message: {
+                type: 'graph/dataResponse',
+                requestId: graphRequestId(1, 'replace'),
+                data: { ...data, bisect: { badHash: 'b', goodHashes: [], skippedHashes: [], currentHash: 'b' } },
+            },
+        });
+
+        expect(loaded.bisect).toBeUndefined();
+        expect(bisecting.bisect).toEqual({ badHash: 'b', goodHashes: [], skippedHashes: [], currentHash: 'b' });
+    });
+
     it('uses the current branch hash to mark the primary spine when refs are missing', () => {
         const head = commit('bbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbb', ['base']);
         const state = reduceGraphState(createInitialGraphState(), {
@@ -906,6 +935,17 @@ describe('graphState', () => {
         expect(ignored.operationStatus).toBeUndefined();
     });
 
+    it('shows an operation plan until that plan is closed', () => {
+        const plan = { planId: 'plan-1', title: 'Hard Reset main to abc1234', confirmLabel: 'Hard Reset', guards: [], targets: [] };
+        const shown = reduceGraphState(createInitialGraphState(), { type: 'message', message: { type: 'graph/operationPlan', plan } });
+        const stale = reduceGraphState(shown, { type: 'closeOperationPlan', planId: 'plan-0' });
+        const closed = reduceGraphState(shown, { type: 'closeOperationPlan', planId: 'plan-1' });
+
+        expect(shown.operationPlan).toEqual(plan);
+        expect(stale.operationPlan).toEqual(plan);
+        expect(closed.operationPlan).toBeUndefined();
+    });
+
     it('ignores stale graph responses after a newer refresh response has completed', () => {
         const refreshing = reduceGraphState(createInitialGraphState(), { type: 'refreshRequested' });
         const fresh = reduceGraphState(refreshing, {
@@ -1275,6 +1315,73 @@ describe('graphState', () => {
         ]);
     });
 
+    it('places stash rows after WIP rows above their base commit and leaves out stashes on unloaded commits', () => {
+        const displayRows = buildDisplayRows(
+            [row('head', laneData()), row('base', laneData())],
+            [wip('/repo', 'head')],
+            [stash(0, 'stash-0', 'head'), stash(1, 'stash-1', 'base'), stash(2, 'stash-2', 'missing')],
+        );
+
+        expect(displayRows.map((displayRow) => displayRow.kind === 'stash' ? displayRow.stash.hash : displayRow.kind)).toEqual([
+            'wip',
+            'stash-0',
+            'commit',
+            'stash-1',
+            'commit',
+        ]);
+    });
+
+    it('hides stash rows and clears a selected stash when stashes are toggled off', () => {
+        const data = { ...graphData([commit('a', ['b']), commit('b')], 2, false), stashes: [stash(0, 'stash-0', 'b')] };
+        const loaded = reduceGraphState(createInitialGraphState(), {
+            type: 'message',
+            message: { type: 'graph/dataResponse', requestId: graphRequestId(0, 'replace'), data },
+        });
+        const selected = reduceGraphState(loaded, { type: 'selectStash', hash: 'stash-0' });
+        const hidden = reduceGraphState(selected, { type: 'toggleStashes' });
+        const shown = reduceGraphState(hidden, { type: 'toggleStashes' });
+
+        expect(loaded.displayRows.map((displayRow) => displayRow.kind)).toEqual(['commit', 'stash', 'commit']);
+        expect(selected.selectedStashHash).toBe('stash-0');
+        expect(selected.detailsLoading).toBe(true);
+        expect(hidden.showStashes).toBe(false);
+        expect(hidden.selectedStashHash).toBeUndefined();
+        expect(hidden.displayRows.map((displayRow) => displayRow.kind)).toEqual(['commit', 'commit']);
+        expect(shown.displayRows.map((displayRow) => displayRow.kind)).toEqual(['commit', 'stash', 'commit']);
+    });
+
+    it('loads stash details for the selected stash only', () => {
+        const listed = stash(0, 'stash-0', 'b');
+        const loaded = reduceGraphState(createInitialGraphState(), {
+            type: 'message',
+            message: {
+                type: 'graph/dataResponse',
+                requestId: graphRequestId(0, 'replace'),
+                data: { ...graphData([commit('b')], 1, false), stashes: [listed, stash(1, 'stash-1', 'b')] },
+            },
+        });
+        const selected = reduceGraphState(loaded, { type: 'selectStash', hash: 'stash-0' });
+        const stale = reduceGraphState(selected, {
+            type: 'message',
+            message: { type: 'graph/stashDetailsResponse', requestId: 'details-1', hash: 'stash-1', files: [] },
+        });
+        const files = [{ status: 'M', filePath: 'src/a.ts', parentHash: 'b' }, { status: '?', filePath: 'notes.txt' }];
+        const details = reduceGraphState(stale, {
+            type: 'message',
+            message: { type: 'graph/stashDetailsResponse', requestId: 'details-2', hash: 'stash-0', files },
+        });
+
+        expect(stale.commitDetails).toBeUndefined();
+        expect(details.detailsLoading).toBe(false);
+        expect(details.commitDetails).toEqual({
+            kind: 'stash',
+            hash: 'stash-0',
+            fullMessage: listed.message,
+            files,
+            stash: listed,
+        });
+    });
+
     it('keeps an unborn worktree WIP when there is no commit row', () => {
         const unbornWip = {
             ...wip('/repo', 'HEAD'),
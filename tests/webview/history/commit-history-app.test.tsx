@@ -275,6 +275,30 @@ describe('CommitHistoryApp', () => {
         expect(tree.querySelector('.file-type-icon')).not.toBeNull();
     });
 
+    it('shows the notes of an expanded commit', () => {
+        renderApp({
+            state: {
+                ...createInitialHistoryState(),
+                commits: [commit('abc123456789', 'feat: add graph history')],
+                expandedHashes: ['abc123456789'],
+                detailsByHash: {
+                    abc123456789: {
+                        hash: 'abc123456789',
+                        fullMessage: 'feat: add graph history',
+                        files: [],
+                        notes: [{ ref: 'refs/notes/qa', message: 'QA passed on build 142' }],
+                    },
+                },
+                loadedCount: 1,
+                loading: false,
+            },
+        });
+
+        const notes = screen.getByRole('region', { name: 'Notes' });
+        expect(notes).toHaveTextContent('qa');
+        expect(notes).toHaveTextContent('QA passed on build 142');
+    });
+
     it('renders changed files as a flat list when list mode is selected', () => {
         renderApp({
             state: {
@@ -342,6 +366,38 @@ describe('CommitHistoryApp', () => {
         expect(submoduleRow.getAttribute('data-vscode-context')).toContain('"historyFileDiffable":true');
     });
 
+    it('shows the followed file path at each commit and diffs across a rename', () => {
+        const onOpenFileDiff = vi.fn<(hash: string, file: HistoryCommitFile) => void>();
+        const onCompareWithWorkingFile = vi.fn<(hash: string, file: HistoryCommitFile) => void>();
+        const onBlameAtRevision = vi.fn<(hash: string, file: HistoryCommitFile) => void>();
+        const renamed: HistoryCommitFile = { status: 'R', filePath: 'lib/history.ts', origPath: 'src/history.ts' };
+        renderApp({
+            state: {
+                ...createInitialHistoryState(),
+                commits: [
+                    { ...commit('abc123456789', 'refactor: move history'), file: renamed },
+                    { ...commit('def123456789', 'feat: add history'), file: { status: 'A', filePath: 'src/history.ts' } },
+                ],
+                expandedHashes: ['abc123456789'],
+                loadedCount: 2,
+                loading: false,
+            },
+            onOpenFileDiff,
+            onCompareWithWorkingFile,
+            onBlameAtRevision,
+        });
+
+        expect(screen.getByTitle('src/history.ts → lib/history.ts')).toHaveClass('history-row-path-renamed');
+        expect(screen.getByTitle('src/history.ts')).toHaveTextContent('src/history.ts');
+        fireEvent.click(screen.getByRole('button', { name: 'Open File Diff' }));
+        fireEvent.click(screen.getByRole('button', { name: 'Compare with Working File' }));
+        fireEvent.click(screen.getByRole('button', { name: 'Blame at Revision' }));
+
+        expect(onOpenFileDiff).toHaveBeenCalledWith('abc123456789', renamed);
+        expect(onCompareWithWorkingFile).toHaveBeenCalledWith('abc123456789', renamed);
+        expect(onBlameAtRevision).toHaveBeenCalledWith('abc123456789', renamed);
+    });
+
     it('shows a file loading row while selected commit details are pending', () => {
         renderApp({
             state: {
@@ -457,6 +513,8 @@ function renderApp(props: {
     readonly onToggleCommit?: (hash: string) => void;
     readonly onSelectCommit?: (hash: string, mode: HistoryCommitSelectionMode, visibleHashes: readonly string[]) => void;
     readonly onOpenFileDiff?: (hash: string, file: HistoryCommitFile) => void;
+    readonly onCompareWithWorkingFile?: (hash: string, file: HistoryCommitFile) => void;
+    readonly onBlameAtRevision?: (hash: string, file: HistoryCommitFile) => void;
     readonly onContextTarget?: (target: HistoryContextTarget) => void;
     readonly onLoadMore?: () => void;
     readonly onCopyHash?: (hash: string) => void;
@@ -470,6 +528,8 @@ function renderApp(props: {
             onToggleCommit={props.onToggleCommit ?? (() => undefined)}
             onSelectCommit={props.onSelectCommit ?? (() => undefined)}
             onOpenFileDiff={props.onOpenFileDiff ?? (() => undefined)}
+            {...(props.onCompareWithWorkingFile ? { onCompareWithWorkingFile: props.onCompareWithWorkingFile } : {})}
+            {...(props.onBlameAtRevision ? { onBlameAtRevision: props.onBlameAtRevision } : {})}
             onContextTarget={props.onContextTarget ?? (() => undefined)}
             onLoadMore={props.onLoadMore ?? (() => undefined)}
             onCopyHash={props.onCopyHash ?? (() => undefined)}
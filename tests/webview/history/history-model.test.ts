@@ -1,6 +1,6 @@
 import { describe, expect, it } from 'vitest';
 import type { HistoryCommit } from '@protocol/history/types';
-import { filterHistoryCommits, historyEmptyLabel, selectedHistoryCommit } from '@webview/features/history/history-model';
+import { filterHistoryCommits, historyEmptyLabel, historyFilePathLabel, selectedHistoryCommit } from '@webview/features/history/history-model';
 
 describe('historyModel', () => {
     it('filters commits by message, hash and author', () => {
@@ -26,6 +26,17 @@ describe('historyModel', () => {
         expect(filterHistoryCommits(commits, 'origin/experimental').map((item) => item.hash)).toEqual(['abc123456789']);
     });
 
+    it('labels and filters commits by the followed file path across renames', () => {
+        const commits = [
+            { ...commit('abc123456789', 'refactor: move graph', 'Ada'), file: { status: 'R' as const, filePath: 'lib/graph.ts', origPath: 'src/graph.ts' } },
+            { ...commit('def123456789', 'feat: add graph', 'Grace'), file: { status: 'A' as const, filePath: 'src/graph.ts' } },
+        ];
+
+        expect(commits.map((item) => historyFilePathLabel(item.file))).toEqual(['src/graph.ts → lib/graph.ts', 'src/graph.ts']);
+        expect(filterHistoryCommits(commits, 'src/graph').map((item) => item.hash)).toEqual(['abc123456789', 'def123456789']);
+        expect(filterHistoryCommits(commits, 'lib/').map((item) => item.hash)).toEqual(['abc123456789']);
+    });
+
     it('finds the selected commit', () => {
         const commits = [commit('abc123456789', 'feat: add graph', 'Ada')];
 
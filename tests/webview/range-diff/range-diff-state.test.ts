@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import type { RangeDiffPair } from '@protocol/range-diff/types';
+import { initialRangeDiffState, rangeDiffSummary, reduceRangeDiffState } from '@webview/features/range-diff/range-diff-state';
+
+describe('reduceRangeDiffState', () => {
+    it('keeps the loaded pairs visible while a refresh runs', () => {
+        const loaded = reduceRangeDiffState(initialRangeDiffState, { type: 'message', message: { type: 'rangeDiff/loaded', pairs: [pair('modified')] } });
+
+        const refreshing = reduceRangeDiffState(loaded, {
+            type: 'message',
+            message: { type: 'rangeDiff/loading', title: 'Range Diff: topic', oldRange: 'b..a', newRange: 'a..b' },
+        });
+
+        expect(refreshing.pairs).toEqual([pair('modified')]);
+        expect(refreshing.loading).toBe(true);
+        expect(refreshing.oldRange).toBe('b..a');
+    });
+
+    it('clears the pairs when the range diff fails', () => {
+        const loaded = reduceRangeDiffState(initialRangeDiffState, { type: 'message', message: { type: 'rangeDiff/loaded', pairs: [pair('added')] } });
+
+        const failed = reduceRangeDiffState(loaded, { type: 'message', message: { type: 'rangeDiff/failed', message: 'bad range' } });
+
+        expect(failed.pairs).toEqual([]);
+        expect(failed.error).toBe('bad range');
+        expect(failed.loading).toBe(false);
+    });
+
+    it('counts pairs by status', () => {
+        expect(rangeDiffSummary([pair('unchanged'), pair('modified'), pair('unchanged'), pair('dropped')])).toEqual([
+            { status: 'unchanged', count: 2 },
+            { status: 'modified', count: 1 },
+            { status: 'added', count: 0 },
+            { status: 'dropped', count: 1 },
+        ]);
+    });
+});
+
+function pair(status: RangeDiffPair['status']): RangeDiffPair {
+    return { status, subject: `${status} commit` };
+}
@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest';
+import type { ReflogEntry } from '@protocol/reflog/types';
+import { OperationStatus } from '@protocol/shared/operation';
+import { initialReflogState, reduceReflogState, type ReflogState } from '@webview/features/reflog/reflog-state';
+
+describe('reduceReflogState', () => {
+    it('keeps the selected ref across init pushes when it still exists', () => {
+        const state = reduceReflogState({ ...initialReflogState, selectedRef: 'refs/heads/feature' }, {
+            type: 'message',
+            message: {
+                type: 'reflog/init',
+                title: 'Reflog: repo',
+                refs: [{ ref: 'HEAD', label: 'HEAD' }, { ref: 'refs/heads/feature', label: 'feature' }],
+                selectedRef: 'HEAD',
+            },
+        });
+
+        expect(state.selectedRef).toBe('refs/heads/feature');
+        expect(state.generation).toBe(initialReflogState.generation + 1);
+    });
+
+    it('falls back to the pushed ref when the selected branch disappeared', () => {
+        const state = reduceReflogState({ ...initialReflogState, selectedRef: 'refs/heads/gone' }, {
+            type: 'message',
+            message: { type: 'reflog/init', title: 'Reflog: repo', refs: [{ ref: 'HEAD', label: 'HEAD' }], selectedRef: 'HEAD' },
+        });
+
+        expect(state.selectedRef).toBe('HEAD');
+    });
+
+    it('appends later pages and ignores stale responses', () => {
+        const loaded: ReflogState = { ...initialReflogState, entries: [entry(0)], activeRequestId: 'second' };
+
+        const stale = reduceReflogState(loaded, { type: 'message', message: page('first', 1, [entry(9)]) });
+        const appended = reduceReflogState(loaded, { type: 'message', message: page('second', 1, [entry(1)]) });
+        const replaced = reduceReflogState(loaded, { type: 'message', message: page('second', 0, [entry(5)]) });
+
+        expect(stale).toBe(loaded);
+        expect(appended.entries.map((item) => item.selector)).toEqual(['HEAD@{0}', 'HEAD@{1}']);
+        expect(appended.loading).toBe(false);
+        expect(replaced.entries.map((item) => item.selector)).toEqual(['HEAD@{5}']);
+    });
+
+    it('tracks running and failed entry actions', () => {
+        const running = reduceReflogState(initialReflogState, {
+            type: 'message',
+            message: { type: 'reflog/actionStarted', action: 'reset', hash: 'abc' },
+        });
+        const failed = reduceReflogState(running, {
+            type: 'message',
+            message: { type: 'reflog/actionFailed', action: 'reset', hash: 'abc', message: 'HEAD@{1} changed', details: 'stderr' },
+        });
+
+        expect(running.actionStatus?.status).toBe(OperationStatus.Running);
+        expect(failed.actionStatus).toEqual({
+            action: 'reset',
+            hash: 'abc',
+            status: OperationStatus.Failed,
+            message: 'HEAD@{1} changed',
+            details: 'stderr',
+        });
+    });
+
+    it('clears the notice when an action completes without a message', () => {
+        const state = reduceReflogState({
+            ...initialReflogState,
+            actionStatus: { action: 'compareWithHead', hash: 'abc', status: OperationStatus.Running },
+        }, {
+            type: 'message',
+            message: { type: 'reflog/actionCompleted', action: 'compareWithHead', hash: 'abc' },
+        });
+
+        expect(state.actionStatus).toBeUndefined();
+    });
+});
+
+function entry(index: number): ReflogEntry {
+    return {
+        selector: `HEAD@{${index}}`,
+        hash: `hash${index}`,
+        shortHash: `hash${index}`,
+        action: 'commit',
+        message: `commit ${index}`,
+        commitSubject: `commit ${index}`,
+        date: '2026-10-18T10:00:00+00:00',
+    };
+}
+
+function page(requestId: string, offset: number, entries: readonly ReflogEntry[]) {
+    return {
+        type: 'reflog/pageResponse' as const,
+        requestId,
+        ref: 'HEAD',
+        page: { offset, limit: 100 },
+        entries,
+        hasMore: false,
+    };
+}
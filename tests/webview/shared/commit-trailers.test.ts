@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import {
+    composeCommitMessage,
+    formatTrailerIdentity,
+    isValidTrailerKey,
+    normalizeCommitTrailers,
+    splitCommitTrailers,
+} from '@webview/shared/commit-trailers';
+
+describe('commit trailers', () => {
+    it('splits the last paragraph of trailers off the message', () => {
+        expect(splitCommitTrailers('feat: add trailers\n\nBody text.\n\nCo-authored-by: Ana <ana@example.test>\nRefs: #42\n')).toEqual({
+            body: 'feat: add trailers\n\nBody text.',
+            trailers: [
+                { key: 'Co-authored-by', value: 'Ana <ana@example.test>' },
+                { key: 'Refs', value: '#42' },
+            ],
+        });
+    });
+
+    it('never reads the subject or a paragraph with free text as trailers', () => {
+        expect(splitCommitTrailers('Refs: #42')).toEqual({ body: 'Refs: #42', trailers: [] });
+        expect(splitCommitTrailers('fix: typo\n\nSee: the docs\nand more prose')).toEqual({
+            body: 'fix: typo\n\nSee: the docs\nand more prose',
+            trailers: [],
+        });
+    });
+
+    it('folds continuation lines and accepts free text next to git-generated trailers', () => {
+        expect(splitCommitTrailers('fix: pick\n\nSigned-off-by: Ana\n  <ana@example.test>\n(cherry picked from commit abc1234)')).toEqual({
+            body: 'fix: pick\n\n(cherry picked from commit abc1234)',
+            trailers: [{ key: 'Signed-off-by', value: 'Ana <ana@example.test>' }],
+        });
+    });
+
+    it('normalizes known key spelling and drops empty or repeated trailers', () => {
+        expect(normalizeCommitTrailers([
+            { key: 'co-authored-by', value: ' Ana  <ana@example.test> ' },
+            { key: 'Co-Authored-By', value: 'Ana <ana@example.test>' },
+            { key: 'Reviewed-by', value: '   ' },
+            { key: 'bad key', value: 'x' },
+            { key: 'Tested-by:', value: 'CI' },
+        ])).toEqual([
+            { key: 'Co-authored-by', value: 'Ana <ana@example.test>' },
+            { key: 'Tested-by', value: 'CI' },
+        ]);
+        expect(isValidTrailerKey('Change-Id')).toBe(true);
+        expect(isValidTrailerKey('-Change')).toBe(false);
+    });
+
+    it('appends trailers to the existing trailer block', () => {
+        expect(composeCommitMessage('feat: add\n\nSigned-off-by: Ana <ana@example.test>', [
+            { key: 'Refs', value: '#42' },
+            { key: 'signed-off-by', value: 'Ana <ana@example.test>' },
+        ])).toBe('feat: add\n\nSigned-off-by: Ana <ana@example.test>\nRefs: #42');
+        expect(composeCommitMessage('  feat: add  ', [])).toBe('feat: add');
+        expect(formatTrailerIdentity({ name: 'Ana', email: 'ana@example.test' })).toBe('Ana <ana@example.test>');
+    });
+});
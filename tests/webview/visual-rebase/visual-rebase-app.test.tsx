@@ -98,6 +98,47 @@ describe('VisualRebaseApp', () => {
         ]);
     });
 
+    it('signs the rewritten commits as commit.gpgSign sets unless the toggle is changed', () => {
+        const onStart = vi.fn();
+
+        render(
+            <VisualRebaseApp
+                title="Visual Rebase onto main"
+                currentBranch="feature/payments"
+                upstream="main"
+                onto="main"
+                initialCommits={[commit('aaa111111111', 'feat: first')]}
+                safety={undefined}
+                signing={{ sign: true, format: 'ssh' }}
+                running={false}
+                completedBackupRef={undefined}
+                phase="planning"
+                notice={undefined}
+                conflictFiles={[]}
+                onStart={onStart}
+                onContinue={() => {}}
+                onAbort={() => {}}
+                onSkip={() => {}}
+                onOpenMergeEditor={() => {}}
+                onMarkResolved={() => {}}
+                onAcceptYours={() => {}}
+                onAcceptIncoming={() => {}}
+                onCancel={() => {}}
+                onReviewPlan={() => {}}
+            />,
+        );
+
+        const toggle = screen.getByLabelText('Sign rewritten commits with SSH');
+        expect(toggle).toBeChecked();
+        fireEvent.click(screen.getByRole('button', { name: 'Start Rebase' }));
+        expect(onStart).toHaveBeenLastCalledWith('main', 'main', [{ hash: 'aaa111111111', action: 'pick', message: 'feat: first' }], true);
+
+        fireEvent.click(toggle);
+        expect(toggle.closest('label')).toHaveAttribute('title', 'Do not sign (SSH signing available), overriding commit.gpgSign');
+        fireEvent.click(screen.getByRole('button', { name: 'Start Rebase' }));
+        expect(onStart).toHaveBeenLastCalledWith('main', 'main', [{ hash: 'aaa111111111', action: 'pick', message: 'feat: first' }], false);
+    });
+
     it('submits commits in the order chosen by drag and drop', () => {
         const onStart = vi.fn();
 
@@ -20,11 +20,15 @@ export default defineConfig({
     sourcemap: true,
     rollupOptions: {
       input: {
+        bisect: resolve(__dirname, 'src/webview/bisect/main.tsx'),
         changes: resolve(__dirname, 'src/webview/changes/main.tsx'),
+        clean: resolve(__dirname, 'src/webview/clean/main.tsx'),
         commitMessage: resolve(__dirname, 'src/webview/commit-message/main.tsx'),
         fileHistory: resolve(__dirname, 'src/webview/file-history/main.tsx'),
         graph: resolve(__dirname, 'src/webview/graph/main.tsx'),
         history: resolve(__dirname, 'src/webview/history/main.tsx'),
+        'range-diff': resolve(__dirname, 'src/webview/range-diff/main.tsx'),
+        reflog: resolve(__dirname, 'src/webview/reflog/main.tsx'),
         'visual-rebase': resolve(__dirname, 'src/webview/visual-rebase/main.tsx'),
       },
       output: {